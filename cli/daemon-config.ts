@@ -45,9 +45,22 @@ export interface WebhookAction {
 
 export interface BuiltinAction {
   type: 'builtin';
-  action: 'auto-receive' | 'log-to-file';
+  action: 'auto-receive' | 'log-to-file' | 'schedule-payment' | 'run-schedules';
   path?: string;
   finalize?: boolean;
+  /** For schedule-payment: the recurring payment to create */
+  schedule?: ScheduleActionSpec;
+}
+
+/** Recurring payment created by the schedule-payment builtin (amount in smallest units) */
+export interface ScheduleActionSpec {
+  recipient: string;
+  amount: string;
+  coinId: string;
+  interval: { unit: 'minute' | 'hour' | 'day' | 'week' | 'month'; every?: number };
+  memo?: string;
+  maxRuns?: number;
+  label?: string;
 }
 
 // =============================================================================
@@ -58,6 +71,7 @@ const DEFAULT_CONFIG_PATH = './.sphere-cli/daemon.json';
 const DEFAULT_LOG_FILE = './.sphere-cli/daemon.log';
 const DEFAULT_PID_FILE = './.sphere-cli/daemon.pid';
 const DEFAULT_ACTION_TIMEOUT = 30000;
+const SCHEDULE_UNITS = ['minute', 'hour', 'day', 'week', 'month'];
 
 // =============================================================================
 // Validation
@@ -200,8 +214,15 @@ function validateAction(action: unknown, ruleIndex: number, actionIndex: number)
     }
 
     case 'builtin': {
-      if (a.action !== 'auto-receive' && a.action !== 'log-to-file') {
-        throw new Error(`${prefix}: builtin action must be "auto-receive" or "log-to-file"`);
+      if (
+        a.action !== 'auto-receive' &&
+        a.action !== 'log-to-file' &&
+        a.action !== 'schedule-payment' &&
+        a.action !== 'run-schedules'
+      ) {
+        throw new Error(
+          `${prefix}: builtin action must be "auto-receive", "log-to-file", "schedule-payment" or "run-schedules"`,
+        );
       }
       if (a.action === 'log-to-file' && (typeof a.path !== 'string' || a.path.length === 0)) {
         throw new Error(`${prefix}: log-to-file requires a non-empty path`);
@@ -209,11 +230,15 @@ function validateAction(action: unknown, ruleIndex: number, actionIndex: number)
       if (a.finalize !== undefined && typeof a.finalize !== 'boolean') {
         throw new Error(`${prefix}: finalize must be a boolean`);
       }
+      if (a.action === 'schedule-payment') {
+        validateScheduleSpec(a.schedule, prefix);
+      }
       return {
         type: 'builtin',
-        action: a.action as 'auto-receive' | 'log-to-file',
+        action: a.action,
         path: a.path as string | undefined,
         finalize: a.finalize as boolean | undefined,
+        schedule: a.schedule as ScheduleActionSpec | undefined,
       };
     }
 
@@ -222,6 +247,28 @@ function validateAction(action: unknown, ruleIndex: number, actionIndex: number)
   }
 }
 
+function validateScheduleSpec(schedule: unknown, prefix: string): void {
+  if (!schedule || typeof schedule !== 'object' || Array.isArray(schedule)) {
+    throw new Error(`${prefix}: schedule-payment requires a schedule object`);
+  }
+  const s = schedule as Record<string, unknown>;
+  for (const field of ['recipient', 'amount', 'coinId']) {
+    if (typeof s[field] !== 'string' || (s[field] as string).length === 0) {
+      throw new Error(`${prefix}: schedule.${field} must be a non-empty string`);
+    }
+  }
+  const interval = s.interval as Record<string, unknown> | undefined;
+  if (!interval || typeof interval !== 'object' || typeof interval.unit !== 'string') {
+    throw new Error(`${prefix}: schedule.interval.unit is required`);
+  }
+  if (!SCHEDULE_UNITS.includes(interval.unit)) {
+    throw new Error(`${prefix}: schedule.interval.unit must be one of: ${SCHEDULE_UNITS.join(', ')}`);
+  }
+  if (interval.every !== undefined && (!Number.isInteger(interval.every) || (interval.every as number) < 1)) {
+    throw new Error(`${prefix}: schedule.interval.every must be a positive integer`);
+  }
+}
+
 // =============================================================================
 // Loading
 // =============================================================================
@@ -348,16 +395,21 @@ export function buildConfigFromFlags(flags: DaemonFlags): DaemonConfig {
 
 /**
  * Parse an action spec string from --action flag.
- * Formats: "auto-receive", "bash:command", "webhook:url", "log:path"
+ * Formats: "auto-receive", "run-schedules", "bash:command", "webhook:url", "log:path"
  */
 function parseActionSpec(spec: string): DaemonAction {
   if (spec === 'auto-receive') {
     return { type: 'builtin', action: 'auto-receive', finalize: true };
   }
+  if (spec === 'run-schedules') {
+    return { type: 'builtin', action: 'run-schedules' };
+  }
 
   const colonIdx = spec.indexOf(':');
   if (colonIdx === -1) {
-    throw new Error(`Invalid action spec "${spec}". Expected: auto-receive, bash:command, webhook:url, or log:path`);
+    throw new Error(
+      `Invalid action spec "${spec}". Expected: auto-receive, run-schedules, bash:command, webhook:url, or log:path`,
+    );
   }
 
   const prefix = spec.substring(0, colonIdx);
@@ -375,7 +427,7 @@ function parseActionSpec(spec: string): DaemonAction {
     case 'log':
       return { type: 'builtin', action: 'log-to-file', path: value };
     default:
-      throw new Error(`Unknown action type "${prefix}". Expected: bash, webhook, log, or auto-receive`);
+      throw new Error(`Unknown action type "${prefix}". Expected: bash, webhook, log, auto-receive, or run-schedules`);
   }
 }
 
@@ -406,6 +458,11 @@ export function getDefaultPidFile(): string {
   return DEFAULT_PID_FILE;
 }
 
+/** Control socket of the daemon that writes `pidFile` (next to it, e.g. daemon.sock) */
+export function getControlSocketPath(pidFile: string): string {
+  return pidFile.replace(/\.pid$/, '') + '.sock';
+}
+
 export function ensureDir(filePath: string): void {
   const dir = path.dirname(filePath);
   if (!fs.existsSync(dir)) {
@@ -6,6 +6,7 @@
  */
 
 import * as fs from 'fs';
+import * as net from 'net';
 import * as path from 'path';
 import { exec } from 'child_process';
 import { fork } from 'child_process';
@@ -25,6 +26,7 @@ import {
   buildConfigFromFlags,
   resolveConfig,
   getDefaultPidFile,
+  getControlSocketPath,
   ensureDir,
 } from './daemon-config';
 
@@ -36,6 +38,8 @@ const ALL_SPHERE_EVENTS: SphereEventType[] = [
   'transfer:incoming',
   'transfer:confirmed',
   'transfer:failed',
+  'transfer:delivered',
+  'transfer:undelivered',
   'payment_request:incoming',
   'payment_request:accepted',
   'payment_request:rejected',
@@ -65,6 +69,13 @@ const ALL_SPHERE_EVENTS: SphereEventType[] = [
   'groupchat:group_deleted',
   'groupchat:updated',
   'groupchat:connection',
+  'schedule:executed',
+  'schedule:failed',
+  'escrow:updated',
+  'swap:updated',
+  'invoice:updated',
+  'wallet:locked',
+  'wallet:unlocked',
 ];
 
 // =============================================================================
@@ -150,6 +161,15 @@ function buildEnvVars(eventType: string, data: unknown): Record<string, string>
     if (d.coinId) env.SPHERE_COIN_ID = String(d.coinId);
     if (d.groupId) env.SPHERE_GROUP_ID = String(d.groupId);
 
+    // For schedule:* events, expose the scheduled transfer
+    if (d.schedule && typeof d.schedule === 'object') {
+      const schedule = d.schedule as { id: string; request: Record<string, unknown> };
+      env.SPHERE_SCHEDULE_ID = schedule.id;
+      if (schedule.request.amount) env.SPHERE_AMOUNT = String(schedule.request.amount);
+      if (schedule.request.coinId) env.SPHERE_COIN_ID = String(schedule.request.coinId);
+      if (schedule.request.recipient) env.SPHERE_RECIPIENT = String(schedule.request.recipient);
+    }
+
     if (d.content) env.SPHERE_MESSAGE = String(d.content);
     else if (d.memo) env.SPHERE_MESSAGE = String(d.memo);
     else if (d.message) env.SPHERE_MESSAGE = String(d.message);
@@ -257,6 +277,32 @@ async function executeAutoReceive(action: BuiltinAction, sphere: Sphere): Promis
   }
 }
 
+async function executeSchedulePayment(action: BuiltinAction, rule: DaemonRule, sphere: Sphere): Promise<void> {
+  // One standing order per rule and spec, however often the event fires
+  const key = `daemon:${rule.name ?? ''}:${JSON.stringify(action.schedule)}`;
+  try {
+    const existing = sphere.scheduled.list().some(s => s.key === key);
+    const schedule = await sphere.scheduled.create({ ...action.schedule!, key });
+    if (existing) {
+      log(`  [SCHEDULE] Already set up as ${schedule.id}`);
+      return;
+    }
+    log(`  [SCHEDULE] Created ${schedule.id}: ${schedule.request.amount} ${schedule.request.coinId} → ${schedule.request.recipient}`);
+  } catch (err) {
+    log(`  [SCHEDULE ERROR] ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+async function executeRunSchedules(sphere: Sphere): Promise<void> {
+  try {
+    const results = await sphere.scheduled.runDue();
+    const failed = results.filter(r => !r.success).length;
+    log(`  [RUN-SCHEDULES] Executed ${results.length - failed} payment(s), ${failed} failed`);
+  } catch (err) {
+    log(`  [RUN-SCHEDULES ERROR] ${err instanceof Error ? err.message : err}`);
+  }
+}
+
 function executeLogToFile(action: BuiltinAction, eventType: string, data: unknown): void {
   const filePath = action.path!;
   try {
@@ -279,6 +325,7 @@ function executeLogToFile(action: BuiltinAction, eventType: string, data: unknow
 
 async function executeAction(
   action: DaemonAction,
+  rule: DaemonRule,
   eventType: string,
   data: unknown,
   envVars: Record<string, string>,
@@ -297,6 +344,10 @@ async function executeAction(
         await executeAutoReceive(action, sphere);
       } else if (action.action === 'log-to-file') {
         executeLogToFile(action, eventType, data);
+      } else if (action.action === 'schedule-payment') {
+        await executeSchedulePayment(action, rule, sphere);
+      } else if (action.action === 'run-schedules') {
+        await executeRunSchedules(sphere);
       }
       break;
   }
@@ -324,12 +375,12 @@ async function dispatchRule(
 
   if (rule.sequential) {
     for (const action of rule.actions) {
-      await executeAction(action, eventType, data, envVars, sphere, globalTimeout);
+      await executeAction(action, rule, eventType, data, envVars, sphere, globalTimeout);
     }
   } else {
     await Promise.all(
       rule.actions.map(action =>
-        executeAction(action, eventType, data, envVars, sphere, globalTimeout)
+        executeAction(action, rule, eventType, data, envVars, sphere, globalTimeout)
       )
     );
   }
@@ -469,9 +520,25 @@ export async function runDaemon(
     log(`Wallet: ${identity.nametag ? '@' + identity.nametag : identity.l1Address}`);
   }
 
+  // Active schedules run on the module's own timer while the daemon keeps Sphere alive
+  const activeSchedules = sphere.scheduled.list({ status: 'active' }).length;
+  if (activeSchedules > 0) {
+    log(`Scheduled payments: ${activeSchedules} active`);
+  }
+
   // Subscribe to events
   const unsubscribers: (() => void)[] = [];
 
+  // Password-protected wallets lock after a session of inactivity (config sessionMinutes)
+  unsubscribers.push(sphere.on('wallet:locked', ({ reason }) => {
+    log(`Wallet locked (${reason}) — sends are rejected until "daemon unlock"`);
+  }));
+  unsubscribers.push(sphere.on('wallet:unlocked', () => {
+    log('Wallet unlocked');
+  }));
+  const controlSocket = getControlSocketPath(config.pidFile);
+  const controlServer = startControlServer(controlSocket, sphere);
+
   for (const eventType of subscribedEvents) {
     const rules = dispatchMap.get(eventType)!;
     const unsub = sphere.on(eventType, (data: unknown) => {
@@ -507,6 +574,9 @@ export async function runDaemon(
       try { unsub(); } catch { /* ignore */ }
     }
 
+    controlServer.close();
+    try { fs.rmSync(controlSocket, { force: true }); } catch { /* ignore */ }
+
     try { await closeSphere(); } catch { /* ignore */ }
 
     // Clean up PID file
@@ -532,6 +602,91 @@ export async function runDaemon(
   await new Promise(() => {});
 }
 
+// =============================================================================
+// Control Socket
+// =============================================================================
+
+interface ControlRequest {
+  command: 'unlock';
+  password: string;
+}
+
+interface ControlReply {
+  ok: boolean;
+  error?: string;
+}
+
+/** Largest request accepted on the control socket */
+const MAX_CONTROL_REQUEST = 64 * 1024;
+
+/**
+ * Local socket for `daemon unlock`: one JSON request line per connection.
+ * Created with mode 0600, so only the daemon's user can connect.
+ */
+function startControlServer(socketPath: string, sphere: Sphere): net.Server {
+  ensureDir(socketPath);
+  fs.rmSync(socketPath, { force: true });
+
+  const server = net.createServer((conn) => {
+    let input = '';
+    conn.setEncoding('utf8');
+    conn.on('data', (chunk: string) => {
+      input += chunk;
+      const end = input.indexOf('\n');
+      if (end === -1) {
+        if (input.length > MAX_CONTROL_REQUEST) conn.destroy();
+        return;
+      }
+      conn.pause();
+      handleControlRequest(input.slice(0, end), sphere).then((reply) => {
+        conn.end(JSON.stringify(reply) + '\n');
+      });
+    });
+    conn.on('error', (err) => log(`[CONTROL] ${err.message}`));
+  });
+  server.on('error', (err) => log(`[CONTROL] ${err.message}`));
+
+  const umask = process.umask(0o177);
+  try {
+    server.listen(socketPath);
+  } finally {
+    process.umask(umask);
+  }
+  return server;
+}
+
+async function handleControlRequest(line: string, sphere: Sphere): Promise<ControlReply> {
+  try {
+    const request = JSON.parse(line) as Partial<ControlRequest>;
+    if (request.command !== 'unlock' || typeof request.password !== 'string') {
+      return { ok: false, error: 'Unknown request' };
+    }
+    await sphere.unlock(request.password);
+    return { ok: true };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function sendControlRequest(socketPath: string, request: ControlRequest): Promise<ControlReply> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const conn = net.createConnection(socketPath, () => {
+      conn.write(JSON.stringify(request) + '\n');
+    });
+    conn.setEncoding('utf8');
+    conn.on('data', (chunk: string) => { output += chunk; });
+    conn.on('end', () => {
+      try {
+        resolve(JSON.parse(output) as ControlReply);
+      } catch {
+        reject(new Error('Invalid reply from daemon'));
+      }
+    });
+    conn.on('error', reject);
+  });
+}
+
 // =============================================================================
 // Detach Mode
 // =============================================================================
@@ -668,6 +823,33 @@ export async function statusDaemon(args: string[]): Promise<void> {
   }
 }
 
+// =============================================================================
+// unlockDaemon
+// =============================================================================
+
+export async function unlockDaemon(args: string[], password: string): Promise<void> {
+  const flags = parseDaemonFlags(args);
+  const socketPath = getControlSocketPath(flags.pidFile || getDefaultPidFile());
+
+  if (!fs.existsSync(socketPath)) {
+    console.error('Daemon is not running (control socket not found).');
+    process.exit(1);
+  }
+
+  let reply: ControlReply;
+  try {
+    reply = await sendControlRequest(socketPath, { command: 'unlock', password });
+  } catch (err) {
+    console.error(`Cannot reach the daemon: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  }
+  if (!reply.ok) {
+    console.error(`Unlock failed: ${reply.error}`);
+    process.exit(1);
+  }
+  console.log('Daemon wallet unlocked.');
+}
+
 // =============================================================================
 // Helpers
 // =============================================================================
@@ -7,15 +7,19 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
-import { encrypt, decrypt } from '../core/encryption';
+import { Writable } from 'stream';
+import { encrypt, decrypt, encryptSimple, decryptSimple, generateRandomKey } from '../core/encryption';
 import { parseWalletText, isTextWalletEncrypted, parseAndDecryptWalletText } from '../serialization/wallet-text';
 import { parseWalletDat, isSQLiteDatabase, isWalletDatEncrypted } from '../serialization/wallet-dat';
+import { decryptWalletBackup } from '../serialization/wallet-backup';
 import { isValidPrivateKey, base58Encode, base58Decode } from '../core/utils';
 import { hexToWIF, generatePrivateKey } from '../l1/crypto';
 import { toSmallestUnit, toHumanReadable, formatAmount } from '../core/currency';
 import { getPublicKey } from '../core/crypto';
+import { splitMnemonic, combineMnemonicShares, parseMnemonicShare } from '../core/shamir';
 import { generateAddressFromMasterKey } from '../l1/address';
 import { Sphere } from '../core/Sphere';
+import { isSphereError } from '../core/errors';
 import { createNodeProviders } from '../impl/nodejs';
 import { TokenRegistry } from '../registry/TokenRegistry';
 import { TokenValidator } from '../validation/token-validator';
@@ -23,6 +27,7 @@ import { tokenToTxf } from '../serialization/txf-serializer';
 import type { NetworkType } from '../constants';
 import type { TransportProvider } from '../transport/transport-provider';
 import type { ProviderStatus } from '../types';
+import type { ScheduleUnit } from '../modules/scheduled';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -35,12 +40,25 @@ const DEFAULT_DATA_DIR = './.sphere-cli';
 const DEFAULT_TOKENS_DIR = './.sphere-cli/tokens';
 const CONFIG_FILE = './.sphere-cli/config.json';
 const PROFILES_FILE = './.sphere-cli/profiles.json';
+const SESSION_FILE = './.sphere-cli/session.json';
+const DEFAULT_SESSION_MINUTES = 15;
 
 interface CliConfig {
   network: NetworkType;
   dataDir: string;
   tokensDir: string;
   currentProfile?: string;
+  /** Minutes a session started by `unlock` lasts (0 = ask every time) */
+  sessionMinutes?: number;
+}
+
+/**
+ * Session started by `unlock`. The password is wrapped with a random key that
+ * is only handed to the user's shell (SPHERE_SESSION), never written to disk.
+ */
+interface CliSession {
+  wrappedPassword: string;
+  expiresAt: number;
 }
 
 interface WalletProfile {
@@ -75,6 +93,50 @@ function saveConfig(config: CliConfig): void {
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
 }
 
+function getSessionMinutes(): number {
+  return loadConfig().sessionMinutes ?? DEFAULT_SESSION_MINUTES;
+}
+
+// =============================================================================
+// Password Session
+// =============================================================================
+
+/** Password held by an unexpired session whose key is in SPHERE_SESSION (see `unlock`) */
+function loadSessionPassword(): string | undefined {
+  const sessionKey = process.env.SPHERE_SESSION;
+  if (!sessionKey) return undefined;
+  try {
+    if (fs.existsSync(SESSION_FILE)) {
+      const session: CliSession = JSON.parse(fs.readFileSync(SESSION_FILE, 'utf8'));
+      if (session.expiresAt > Date.now()) {
+        return decryptSimple(session.wrappedPassword, sessionKey) || undefined;
+      }
+      clearSession();
+    }
+  } catch {
+    // Corrupt session or key of another session — ask again
+  }
+  return undefined;
+}
+
+/** Start a session for `password`; returns the key for SPHERE_SESSION, or null if sessions are disabled */
+function startSession(password: string): string | null {
+  const minutes = getSessionMinutes();
+  if (minutes <= 0) return null;
+  const sessionKey = generateRandomKey(32);
+  const session: CliSession = {
+    wrappedPassword: encryptSimple(password, sessionKey),
+    expiresAt: Date.now() + minutes * 60_000,
+  };
+  fs.mkdirSync(path.dirname(SESSION_FILE), { recursive: true });
+  fs.writeFileSync(SESSION_FILE, JSON.stringify(session), { mode: 0o600 });
+  return sessionKey;
+}
+
+function clearSession(): void {
+  fs.rmSync(SESSION_FILE, { force: true });
+}
+
 // =============================================================================
 // Wallet Profile Management
 // =============================================================================
@@ -132,6 +194,8 @@ function switchToProfile(name: string): boolean {
   config.network = profile.network;
   config.currentProfile = name;
   saveConfig(config);
+  // The session password belongs to the previous wallet
+  clearSession();
   return true;
 }
 
@@ -141,6 +205,8 @@ function switchToProfile(name: string): boolean {
 
 let sphereInstance: Sphere | null = null;
 let noNostrGlobal = false;
+/** Execute due scheduled payments automatically — only the long-running daemon does */
+let scheduledAutoRun = false;
 
 /**
  * Create a no-op transport that does nothing.
@@ -165,9 +231,7 @@ function createNoopTransport(): TransportProvider {
   };
 }
 
-async function getSphere(options?: { autoGenerate?: boolean; mnemonic?: string; nametag?: string }): Promise<Sphere> {
-  if (sphereInstance) return sphereInstance;
-
+function createCliProviders() {
   const config = loadConfig();
   const providers = createNodeProviders({
     network: config.network,
@@ -181,16 +245,44 @@ async function getSphere(options?: { autoGenerate?: boolean; mnemonic?: string;
   const initProviders = noNostrGlobal
     ? { ...providers, transport: createNoopTransport() }
     : providers;
+  return { providers, initProviders };
+}
+
+function isWrongPasswordError(err: unknown): boolean {
+  return isSphereError(err) && err.code === 'DECRYPTION_ERROR';
+}
+
+async function getSphere(options?: { autoGenerate?: boolean; mnemonic?: string; nametag?: string; password?: string }): Promise<Sphere> {
+  if (sphereInstance) return sphereInstance;
+
+  const { providers, initProviders } = createCliProviders();
 
-  const result = await Sphere.init({
+  const sessionMinutes = getSessionMinutes();
+  const init = (password: string | undefined) => Sphere.init({
     ...initProviders,
     autoGenerate: options?.autoGenerate,
     mnemonic: options?.mnemonic,
     nametag: options?.nametag,
+    password,
+    // The daemon holds the password for one session of inactivity
+    autoLockMs: scheduledAutoRun && sessionMinutes > 0 ? sessionMinutes * 60_000 : undefined,
     market: true,
     groupChat: true,
+    scheduledPayments: { autoRun: scheduledAutoRun },
   });
 
+  let password = options?.password ?? process.env.SPHERE_PASSWORD ?? loadSessionPassword();
+  let result: Awaited<ReturnType<typeof Sphere.init>>;
+  try {
+    result = await init(password);
+  } catch (err) {
+    // Password-protected wallet: ask once
+    if (!isWrongPasswordError(err) || !process.stdin.isTTY) throw err;
+    clearSession();
+    password = await promptPassword('Wallet password: ');
+    result = await init(password);
+  }
+
   sphereInstance = result.sphere;
 
   // Attach IPFS storage provider for sync if available
@@ -240,6 +332,24 @@ function _prompt(question: string): Promise<string> {
   });
 }
 
+/** Prompt without echoing the typed characters */
+function promptPassword(question: string): Promise<string> {
+  process.stdout.write(question);
+  // readline echoes into a sink; a TTY input is switched to raw mode
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: new Writable({ write: (_chunk, _encoding, callback) => callback() }),
+    terminal: true,
+  });
+  return new Promise((resolve) => {
+    rl.question('', (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
 function printUsage() {
   console.log(`
 Sphere SDK CLI v0.2.2
@@ -250,10 +360,17 @@ Usage: npm run cli -- <command> [args...]
 WALLET MANAGEMENT:
   init [--network <net>]            Create new wallet (mainnet|testnet|dev)
   init --mnemonic "<words>"         Import wallet from mnemonic
+  init --password                   Protect the wallet with a password (prompted)
+  unlock                            Ask for the wallet password and start a session (prints SPHERE_SESSION)
+  lock                              End the session
   status                            Show wallet status and identity
   clear                             Delete all wallet data (keys + tokens)
+  backup <file>                     Write an encrypted full backup (keys, tokens, history, chats)
+  restore <file>                    Restore a backup, replacing the current wallet
+  shares-create <threshold> <count> Split the mnemonic into shares (any <threshold> recover it)
+  shares-combine ["<share>" ...]    Recover the wallet from shares (prompted if omitted; --password)
   config                            Show current configuration
-  config set <key> <value>          Set configuration (network, dataDir, tokensDir)
+  config set <key> <value>          Set configuration (network, dataDir, tokensDir, sessionMinutes)
 
 WALLET PROFILES:
   wallet list                       List all wallet profiles
@@ -290,6 +407,21 @@ TRANSFERS:
                                     --no-sync: skip IPFS sync after receiving
   history [limit]                   Show transaction history
 
+SCHEDULED PAYMENTS:
+  schedule-create <to> <amount> --every <unit>
+                                    Create a recurring payment (unit: minute|hour|day|week|month)
+                                    --coin SYM       Token symbol (default: UCT)
+                                    --interval <n>   Pay every n units (default: 1)
+                                    --start <date>   First payment (ISO date, default: now)
+                                    --max-runs <n>   Stop after n payments
+                                    --label <text>   Label, e.g. "Rent"
+  schedule-list                     List scheduled payments
+  schedule-pause <id>               Pause a schedule
+  schedule-resume <id>              Resume a paused schedule (missed payments are skipped)
+  schedule-cancel <id>              Cancel a schedule
+  schedule-run                      Execute all due payments now
+                                    (the daemon executes them automatically)
+
 ADDRESSES:
   addresses                         List all tracked addresses
   switch <index>                    Switch to address at HD index
@@ -352,11 +484,12 @@ EVENT DAEMON:
                                       --log <path>       Override log file path
                                       --pid <path>       Override PID file path
                                       --event <type>     Quick mode: subscribe to event (repeatable)
-                                      --action <spec>    Quick mode: auto-receive, bash:cmd, webhook:url, log:path
+                                      --action <spec>    Quick mode: auto-receive, run-schedules, bash:cmd, webhook:url, log:path
                                       --market-feed      Subscribe to market WebSocket feed
                                       --verbose          Print full event JSON in logs
   daemon stop                         Stop running daemon
   daemon status                       Check if daemon is running
+  daemon unlock                       Unlock the daemon's wallet after an idle lock (password prompted)
 
 ENCRYPTION:
   encrypt <data> <password>         Encrypt data with password
@@ -390,6 +523,7 @@ Examples:
   npm run cli -- send @alice 1000000 --coin ETH
   npm run cli -- nametag myname
   npm run cli -- history 10
+  npm run cli -- schedule-create @alice 10 --every month --label "Rent"
 
 Wallet Profile Examples:
   npm run cli -- wallet create alice              Create profile "alice"
@@ -434,6 +568,7 @@ Daemon Examples:
   npm run cli -- daemon start --event "*" --action "log:./events.jsonl" --verbose
   npm run cli -- daemon start --event message:dm --action "bash:echo DM from \\$SPHERE_SENDER"
   npm run cli -- daemon start --config ./my-daemon.json --detach
+  npm run cli -- daemon start --event "schedule:*" --action "log:./schedules.jsonl"
   npm run cli -- daemon status
   npm run cli -- daemon stop
 `);
@@ -442,6 +577,7 @@ Daemon Examples:
 async function main() {
   // Global flag: --no-nostr disables Nostr transport (uses no-op)
   noNostrGlobal = args.includes('--no-nostr');
+  scheduledAutoRun = command === 'daemon';
 
   if (!command || command === 'help' || command === '--help' || command === '-h') {
     printUsage();
@@ -471,6 +607,19 @@ async function main() {
           nametag = args[nametagIndex + 1];
         }
 
+        let password: string | undefined;
+        if (args.includes('--password')) {
+          password = process.env.SPHERE_PASSWORD ?? await promptPassword('New wallet password: ');
+          if (!process.env.SPHERE_PASSWORD && await promptPassword('Repeat password: ') !== password) {
+            console.error('Passwords do not match');
+            process.exit(1);
+          }
+          if (!password) {
+            console.error('Password must not be empty');
+            process.exit(1);
+          }
+        }
+
         // Save config
         const config = loadConfig();
         config.network = network;
@@ -483,6 +632,7 @@ async function main() {
           autoGenerate: !mnemonic,
           mnemonic,
           nametag,
+          password,
         });
 
         const identity = sphere.identity;
@@ -546,6 +696,29 @@ async function main() {
         break;
       }
 
+      case 'unlock': {
+        clearSession();
+        const password = process.env.SPHERE_PASSWORD ?? await promptPassword('Wallet password: ');
+        await getSphere({ password });
+        await closeSphere();
+
+        const sessionKey = startSession(password);
+        if (sessionKey) {
+          console.log(`Wallet unlocked for ${getSessionMinutes()} minute(s). Use the session in this shell with:`);
+          console.log(`  export SPHERE_SESSION=${sessionKey}`);
+          console.log('Run "lock" to end the session.');
+        } else {
+          console.log('Password is correct. Sessions are disabled (sessionMinutes = 0).');
+        }
+        break;
+      }
+
+      case 'lock': {
+        clearSession();
+        console.log('Wallet locked.');
+        break;
+      }
+
       case 'config': {
         const [, subCmd, key, value] = args;
         const config = loadConfig();
@@ -557,9 +730,16 @@ async function main() {
             config.dataDir = value;
           } else if (key === 'tokensDir') {
             config.tokensDir = value;
+          } else if (key === 'sessionMinutes') {
+            const minutes = Number(value);
+            if (!Number.isInteger(minutes) || minutes < 0) {
+              console.error('sessionMinutes must be a non-negative integer');
+              process.exit(1);
+            }
+            config.sessionMinutes = minutes;
           } else {
             console.error('Unknown config key:', key);
-            console.error('Valid keys: network, dataDir, tokensDir');
+            console.error('Valid keys: network, dataDir, tokensDir, sessionMinutes');
             process.exit(1);
           }
           saveConfig(config);
@@ -591,6 +771,142 @@ async function main() {
         break;
       }
 
+      case 'backup': {
+        const [, file] = args;
+        if (!file) {
+          console.error('Usage: backup <file>');
+          process.exit(1);
+        }
+
+        const password = process.env.SPHERE_BACKUP_PASSWORD ?? await promptPassword('Backup password: ');
+        if (!process.env.SPHERE_BACKUP_PASSWORD && await promptPassword('Repeat password: ') !== password) {
+          console.error('Passwords do not match');
+          process.exit(1);
+        }
+
+        const sphere = await getSphere();
+        const blob = await sphere.exportBackup(password);
+        fs.writeFileSync(file, blob, { mode: 0o600 });
+        console.log(`Backup written to ${file} (${sphere.getAllTrackedAddresses().length} address(es))`);
+
+        await closeSphere();
+        break;
+      }
+
+      case 'restore': {
+        const [, file] = args;
+        if (!file || !fs.existsSync(file)) {
+          console.error('Usage: restore <file>');
+          process.exit(1);
+        }
+
+        const blob = fs.readFileSync(file, 'utf8');
+        const password = process.env.SPHERE_BACKUP_PASSWORD ?? await promptPassword('Backup password: ');
+        // Check the backup password first: a DECRYPTION_ERROR from restoreBackup() then means the wallet password
+        decryptWalletBackup(blob, password);
+        const { initProviders } = createCliProviders();
+
+        // The session password belongs to the replaced wallet
+        clearSession();
+        const restore = (walletPassword: string | undefined) => Sphere.restoreBackup(blob, password, {
+          ...initProviders,
+          password: walletPassword,
+        });
+
+        console.log('Restoring backup (the current wallet is replaced)...');
+        try {
+          sphereInstance = await restore(process.env.SPHERE_PASSWORD);
+        } catch (err) {
+          // Password-protected wallet: nothing was written yet, ask once
+          if (!isWrongPasswordError(err) || !process.stdin.isTTY) throw err;
+          sphereInstance = await restore(await promptPassword('Wallet password: '));
+        }
+
+        const identity = sphereInstance.identity;
+        console.log(`Wallet restored: ${identity?.nametag ? '@' + identity.nametag : identity?.l1Address}`);
+        console.log(`Addresses: ${sphereInstance.getAllTrackedAddresses().length}`);
+
+        await closeSphere();
+        break;
+      }
+
+      case 'shares-create': {
+        const threshold = Number(args[1]);
+        const count = Number(args[2]);
+        if (!Number.isInteger(threshold) || !Number.isInteger(count)) {
+          console.error('Usage: shares-create <threshold> <count>');
+          process.exit(1);
+        }
+
+        const sphere = await getSphere();
+        const mnemonic = sphere.getMnemonic();
+        if (!mnemonic) {
+          console.error('This wallet has no mnemonic (imported from a master key)');
+          process.exit(1);
+        }
+
+        const shares = splitMnemonic(mnemonic, { threshold, shares: count });
+        const { groupId } = parseMnemonicShare(shares[0]);
+        console.log(`\nGroup ${groupId}: any ${threshold} of ${count} shares recover this wallet.`);
+        console.log('Store each share separately. Shares of different groups cannot be combined.\n');
+        shares.forEach((share, i) => {
+          console.log(`Share ${i + 1}/${count}:`);
+          console.log(share);
+          console.log('─'.repeat(50));
+        });
+
+        await closeSphere();
+        break;
+      }
+
+      case 'shares-combine': {
+        const shares = args.slice(1).filter((arg) => !arg.startsWith('--'));
+
+        if (shares.length === 0) {
+          // Interactive: check each share as it is entered, stop once the threshold is reached
+          let needed = Infinity;
+          while (shares.length < needed) {
+            const share = (await _prompt(`Share ${shares.length + 1}${Number.isFinite(needed) ? ` of ${needed}` : ''}: `)).trim();
+            if (!share) break;
+            try {
+              const info = parseMnemonicShare(share);
+              console.log(`  ok: share #${info.index} of group ${info.groupId} (${info.threshold} of ${info.count})`);
+              needed = info.threshold;
+              shares.push(share);
+            } catch (err) {
+              console.error(`  ${err instanceof Error ? err.message : err}, try again`);
+            }
+          }
+        }
+
+        // Fails on mistyped or mismatched shares before touching the current wallet
+        combineMnemonicShares(shares);
+
+        let password: string | undefined;
+        if (args.includes('--password')) {
+          password = process.env.SPHERE_PASSWORD ?? await promptPassword('New wallet password: ');
+          if (!process.env.SPHERE_PASSWORD && await promptPassword('Repeat password: ') !== password) {
+            console.error('Passwords do not match');
+            process.exit(1);
+          }
+          if (!password) {
+            console.error('Password must not be empty');
+            process.exit(1);
+          }
+        }
+
+        const { initProviders } = createCliProviders();
+        console.log('Recovering wallet from shares (the current wallet is replaced)...');
+        clearSession();
+        sphereInstance = await Sphere.import({ ...initProviders, shares, password });
+
+        const identity = sphereInstance.identity;
+        console.log(`Wallet recovered: ${identity?.nametag ? '@' + identity.nametag : identity?.l1Address}`);
+
+        await closeSphere();
+        break;
+      }
+
       // === WALLET PROFILES ===
       case 'wallet': {
         const [, subCmd, profileName] = args;
@@ -1207,6 +1523,129 @@ async function main() {
         break;
       }
 
+      // === SCHEDULED PAYMENTS ===
+      case 'schedule-create': {
+        const [, recipient, amountStr] = args;
+        const everyIndex = args.indexOf('--every');
+        const unit = everyIndex !== -1 ? args[everyIndex + 1] : undefined;
+        if (!recipient || !amountStr || !unit) {
+          console.error('Usage: schedule-create <recipient> <amount> --every <unit> [--coin <symbol>] [--interval <n>] [--start <date>] [--max-runs <n>] [--label <text>]');
+          console.error('  unit: minute, hour, day, week or month');
+          process.exit(1);
+        }
+
+        const coinIndex = args.indexOf('--coin');
+        const coinSymbol = coinIndex !== -1 && args[coinIndex + 1] ? args[coinIndex + 1] : 'UCT';
+        const intervalIndex = args.indexOf('--interval');
+        const every = intervalIndex !== -1 ? parseInt(args[intervalIndex + 1]) : 1;
+        const startIndex = args.indexOf('--start');
+        const startAt = startIndex !== -1 ? Date.parse(args[startIndex + 1]) : undefined;
+        if (startAt !== undefined && isNaN(startAt)) {
+          console.error(`Invalid --start date: ${args[startIndex + 1]}`);
+          process.exit(1);
+        }
+        const maxRunsIndex = args.indexOf('--max-runs');
+        const maxRuns = maxRunsIndex !== -1 ? parseInt(args[maxRunsIndex + 1]) : undefined;
+        const labelIndex = args.indexOf('--label');
+        const label = labelIndex !== -1 ? args[labelIndex + 1] : undefined;
+
+        const sphere = await getSphere();
+
+        const registry = TokenRegistry.getInstance();
+        const coinDef = registry.getDefinitionBySymbol(coinSymbol);
+        if (!coinDef) {
+          console.error(`Unknown coin symbol: ${coinSymbol}`);
+          process.exit(1);
+        }
+
+        const schedule = await sphere.scheduled.create({
+          recipient,
+          amount: toSmallestUnit(amountStr, coinDef.decimals ?? 8).toString(),
+          coinId: coinDef.id,
+          interval: { every, unit: unit as ScheduleUnit },
+          startAt,
+          maxRuns,
+          label,
+        });
+
+        console.log('\n✓ Scheduled payment created');
+        console.log(`  ID: ${schedule.id}`);
+        console.log(`  ${amountStr} ${coinSymbol} to ${recipient} every ${every > 1 ? `${every} ${unit}s` : unit}`);
+        console.log(`  First payment: ${new Date(schedule.nextRunAt).toLocaleString()}`);
+        console.log('  Payments run while the daemon is running, or with: schedule-run');
+
+        await closeSphere();
+        break;
+      }
+
+      case 'schedule-list': {
+        const sphere = await getSphere();
+        const schedules = sphere.scheduled.list();
+        const registry = TokenRegistry.getInstance();
+
+        console.log(`\nScheduled Payments (${schedules.length}):`);
+        console.log('─'.repeat(60));
+        if (schedules.length === 0) {
+          console.log('No scheduled payments.');
+        }
+        for (const s of schedules) {
+          const coinDef = registry.getDefinition(s.request.coinId);
+          const amount = toHumanReadable(s.request.amount, coinDef?.decimals ?? 8);
+          const every = s.interval.every ?? 1;
+          console.log(`${s.id}  [${s.status}]${s.label ? `  ${s.label}` : ''}`);
+          console.log(`  ${amount} ${coinDef?.symbol ?? s.request.coinId} to ${s.request.recipient} every ${every > 1 ? `${every} ${s.interval.unit}s` : s.interval.unit}`);
+          console.log(`  Runs: ${s.runCount}${s.maxRuns ? `/${s.maxRuns}` : ''}`);
+          if (s.status === 'active') console.log(`  Next: ${new Date(s.nextRunAt).toLocaleString()}`);
+          if (s.lastError) console.log(`  Last error: ${s.lastError}`);
+          console.log('');
+        }
+
+        await closeSphere();
+        break;
+      }
+
+      case 'schedule-pause':
+      case 'schedule-resume':
+      case 'schedule-cancel': {
+        const scheduleId = args[1];
+        if (!scheduleId) {
+          console.error(`Usage: ${command} <scheduleId>`);
+          process.exit(1);
+        }
+
+        const sphere = await getSphere();
+        const schedule = command === 'schedule-pause'
+          ? await sphere.scheduled.pause(scheduleId)
+          : command === 'schedule-resume'
+            ? await sphere.scheduled.resume(scheduleId)
+            : await sphere.scheduled.cancel(scheduleId);
+        console.log(`✓ Schedule ${schedule.id} is now ${schedule.status}`);
+
+        await closeSphere();
+        break;
+      }
+
+      case 'schedule-run': {
+        const sphere = await getSphere();
+        const results = await sphere.scheduled.runDue();
+
+        if (results.length === 0) {
+          console.log('No scheduled payments are due.');
+        }
+        for (const r of results) {
+          if (r.success) {
+            console.log(`✓ ${r.scheduleId}: transfer ${r.transfer!.id}`);
+          } else {
+            console.error(`✗ ${r.scheduleId}: ${r.error}`);
+          }
+        }
+
+        await sphere.payments.waitForPendingOperations();
+        await syncIfEnabled(sphere, args.includes('--no-sync'));
+        await closeSphere();
+        break;
+      }
+
       // === ADDRESSES ===
       case 'addresses': {
         const sphere = await getSphere();
@@ -2373,7 +2812,7 @@ async function main() {
 
       case 'daemon': {
         const sub = args[1] || 'start';
-        const { runDaemon, stopDaemon, statusDaemon } = await import('./daemon.js');
+        const { runDaemon, stopDaemon, statusDaemon, unlockDaemon } = await import('./daemon.js');
         switch (sub) {
           case 'start':
             await runDaemon(args.slice(2), getSphere, closeSphere);
@@ -2384,9 +2823,15 @@ async function main() {
           case 'status':
             await statusDaemon(args.slice(2));
             break;
+          case 'unlock':
+            await unlockDaemon(
+              args.slice(2),
+              process.env.SPHERE_PASSWORD ?? await promptPassword('Wallet password: '),
+            );
+            break;
           default:
             console.error(`Unknown daemon sub-command: ${sub}`);
-            console.error('Usage: daemon start|stop|status');
+            console.error('Usage: daemon start|stop|status|unlock');
             process.exit(1);
         }
         break;
@@ -47,6 +47,7 @@ interface SphereInstance {
     };
   };
   signMessage(message: string): string;
+  isLocked?(): boolean;
   resolve(identifier: string): Promise<unknown>;
   on<T extends SphereEventType>(type: T, handler: SphereEventHandler<T>): () => void;
   readonly communications?: {
@@ -319,6 +320,12 @@ export class ConnectHost {
       return;
     }
 
+    // Intents sign on behalf of the dApp — reject while the wallet is locked
+    if (this.sphere.isLocked?.()) {
+      this.sendIntentError(msg.id, ERROR_CODES.WALLET_LOCKED, 'Wallet is locked');
+      return;
+    }
+
     // Check auto-approve before delegating to wallet UI
     const autoHandler = this.autoApprovedIntents.get(msg.action);
     if (autoHandler) {
@@ -71,6 +71,7 @@ export const ERROR_CODES = {
   SESSION_EXPIRED: 4004,
   ORIGIN_BLOCKED: 4005,
   RATE_LIMITED: 4006,
+  WALLET_LOCKED: 4007,
   INSUFFICIENT_BALANCE: 4100,
   INVALID_RECIPIENT: 4101,
   TRANSFER_FAILED: 4102,
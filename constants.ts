@@ -38,6 +38,13 @@ export const STORAGE_KEYS_GLOBAL = {
   WALLET_SOURCE: 'wallet_source',
   /** Wallet existence flag */
   WALLET_EXISTS: 'wallet_exists',
+  /** At-rest encryption header: KDF params and wrapped data keys (JSON: StorageEncryptionHeader) */
+  STORAGE_ENCRYPTION: 'storage_encryption',
+  /**
+   * Applied storage schema version per migration namespace (JSON: SchemaVersions).
+   * Each address's token data has its own under `schema_versions_{addressId}`.
+   */
+  SCHEMA_VERSIONS: 'schema_versions',
   /** Current active address index */
   CURRENT_ADDRESS_INDEX: 'current_address_index',
   /** Nametag cache per address (separate from tracked addresses registry) */
@@ -46,6 +53,8 @@ export const STORAGE_KEYS_GLOBAL = {
   TRACKED_ADDRESSES: 'tracked_addresses',
   /** Last processed Nostr wallet event timestamp (unix seconds), keyed per pubkey */
   LAST_WALLET_EVENT_TS: 'last_wallet_event_ts',
+  /** Transport pubkeys of peers that accept gift-wrapped transfers and payment requests (JSON array) */
+  GIFT_WRAP_PEERS: 'gift_wrap_peers',
   /** Group chat: last used relay URL (stale data detection) — global, same relay for all addresses */
   GROUP_CHAT_RELAY_URL: 'group_chat_relay_url',
   /** Cached token registry JSON (fetched from remote) */
@@ -91,6 +100,26 @@ export const STORAGE_KEYS_ADDRESS = {
   PROCESSED_SPLIT_GROUP_IDS: 'processed_split_group_ids',
   /** Processed V6 combined transfer IDs for Nostr re-delivery dedup */
   PROCESSED_COMBINED_TRANSFER_IDS: 'processed_combined_transfer_ids',
+  /** L1 fee bumps (RBF replacements and CPFP children) */
+  L1_FEE_BUMPS: 'l1_fee_bumps',
+  /** L1 change outputs of our own sends, so fee bumps never mistake a payment for change */
+  L1_CHANGE_OUTPUTS: 'l1_change_outputs',
+  /** Scheduled (recurring) payments for this address */
+  SCHEDULED_PAYMENTS: 'scheduled_payments',
+  /** Hashlocked escrows offered or received by this address */
+  ESCROWS: 'escrows',
+  /** Swaps negotiated by this address */
+  SWAPS: 'swaps',
+  /** Invoices issued by this address */
+  INVOICES: 'invoices',
+  /** Social recovery: guardians holding shares of this wallet's mnemonic */
+  RECOVERY_GUARDIANS: 'recovery_guardians',
+  /** Social recovery: shares this address holds as a guardian for others */
+  RECOVERY_HELD_SHARES: 'recovery_held_shares',
+  /** Social recovery: recovery requests received as a guardian */
+  RECOVERY_REQUESTS: 'recovery_requests',
+  /** Watch-only wallets: IDs of the watched tokens already reported as incoming */
+  WATCH_KNOWN_TOKENS: 'watch_known_tokens',
 } as const;
 
 /** @deprecated Use STORAGE_KEYS_GLOBAL and STORAGE_KEYS_ADDRESS instead */
@@ -153,6 +182,8 @@ export const NOSTR_EVENT_KINDS = {
   PAYMENT_REQUEST_RESPONSE: 31116,
   /** Nametag binding (NIP-78 app-specific data) */
   NAMETAG_BINDING: 30078,
+  /** Relay list metadata (NIP-65) */
+  RELAY_LIST: 10002,
   /** Public broadcast */
   BROADCAST: 1,
 } as const;
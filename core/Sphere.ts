@@ -56,17 +56,28 @@ import type {
   TrackedAddressEntry,
 } from '../types';
 import { SphereError } from './errors';
-import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase } from '../storage';
+import type { StorageKeySource, StorageMigration, StorageProvider, TokenStorageProvider, TxfStorageDataBase } from '../storage';
+import {
+  EncryptedStorageProvider,
+  EncryptedTokenStorageProvider,
+  SPHERE_STORAGE_MIGRATIONS,
+  StorageKeyring,
+  StorageMigrator,
+} from '../storage';
 import type { TransportProvider, PeerInfo } from '../transport';
 import { MultiAddressTransportMux, AddressTransportAdapter } from '../transport/MultiAddressTransportMux';
 import type { OracleProvider } from '../oracle';
 import type { PriceProvider } from '../price';
-import { PaymentsModule, createPaymentsModule } from '../modules/payments';
+import { PaymentsModule, createPaymentsModule, type L1AddressSource } from '../modules/payments';
 import { CommunicationsModule, createCommunicationsModule } from '../modules/communications';
 import { GroupChatModule, createGroupChatModule } from '../modules/groupchat';
 import type { GroupChatModuleConfig } from '../modules/groupchat';
 import { MarketModule, createMarketModule } from '../modules/market';
 import type { MarketModuleConfig } from '../modules/market';
+import { ScheduledPaymentsModule, createScheduledPaymentsModule } from '../modules/scheduled';
+import type { ScheduledPaymentsModuleConfig } from '../modules/scheduled';
+import { InvoicesModule, createInvoicesModule } from '../modules/invoices';
+import { RecoveryModule, createRecoveryModule } from '../modules/recovery';
 import {
   STORAGE_KEYS_GLOBAL,
   getAddressId,
@@ -82,21 +93,29 @@ import {
   identityFromMnemonicSync,
   deriveKeyAtPath,
   deriveAddressInfo,
+  derivePublicAddressInfo,
+  getExtendedPublicKey,
+  parseExtendedPublicKey,
+  serializeExtendedPublicKey,
   getPublicKey,
   sha256,
   publicKeyToAddress,
   signMessage as signMessageCrypto,
   type MasterKey,
   type AddressInfo,
+  type ExtendedPublicKey,
 } from './crypto';
 import { encryptSimple, decryptSimple, decryptWithSalt } from './encryption';
+import { combineMnemonicShares } from './shamir';
 import { scanAddressesImpl } from './scan';
 import type { ScanAddressesOptions, ScanAddressesResult } from './scan';
 import { discoverAddressesImpl } from './discover';
 import type { DiscoverAddressesOptions, DiscoverAddressesResult } from './discover';
 import { vestingClassifier } from '../l1/vesting';
+import type { L1CoinSelector, L1CoinSelectionStrategy } from '../l1/coinSelection';
 import { generateAddressFromMasterKey } from '../l1/address';
 import { isWebSocketConnected } from '../l1/network';
+import { decodeBech32 } from './bech32';
 import {
   parseWalletText,
   parseAndDecryptWalletText,
@@ -112,6 +131,8 @@ import {
   isSQLiteDatabase,
   isWalletDatEncrypted,
 } from '../serialization/wallet-dat';
+import { encryptWalletBackup, decryptWalletBackup } from '../serialization/wallet-backup';
+import type { WalletBackup, WalletBackupAddress } from '../serialization/wallet-backup';
 import { SigningService } from '@unicitylabs/state-transition-sdk/lib/sign/SigningService';
 import { TokenType } from '@unicitylabs/state-transition-sdk/lib/token/TokenType';
 import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
@@ -137,6 +158,7 @@ export type InitProgressStep =
   | 'clearing'
   | 'storing_keys'
   | 'initializing'
+  | 'migrating'
   | 'recovering_nametag'
   | 'registering_nametag'
   | 'syncing_identity'
@@ -190,8 +212,17 @@ export interface SphereCreateOptions {
   groupChat?: GroupChatModuleConfig | boolean;
   /** Market module configuration. true = enable with defaults, object = custom config. */
   market?: MarketModuleConfig | boolean;
+  /** Scheduled payments configuration. Due payments run automatically unless `autoRun: false`. */
+  scheduledPayments?: ScheduledPaymentsModuleConfig;
   /** Optional password to encrypt the wallet. If omitted, mnemonic is stored as plaintext. */
   password?: string;
+  /**
+   * Encrypt per-address data, tokens and history at rest with a key derived
+   * from the wallet password, or the master key without one (default: true).
+   */
+  encryptStorage?: boolean;
+  /** Lock the wallet after this many ms without a signing operation (requires a password; default: never) */
+  autoLockMs?: number;
   /**
    * Auto-discover previously used HD addresses after creation.
    * - true: discover with defaults (Nostr + L1 scan, autoTrack: true)
@@ -199,6 +230,8 @@ export interface SphereCreateOptions {
    * - false/undefined: no auto-discovery (default)
    */
   discoverAddresses?: boolean | DiscoverAddressesOptions;
+  /** Storage migrations of the app, run with the built-in ones on load (see StorageMigrator) */
+  migrations?: StorageMigration[];
   /** Enable debug logging (default: false) */
   debug?: boolean;
   /** Optional callback to report initialization progress steps */
@@ -229,8 +262,17 @@ export interface SphereLoadOptions {
   groupChat?: GroupChatModuleConfig | boolean;
   /** Market module configuration. true = enable with defaults, object = custom config. */
   market?: MarketModuleConfig | boolean;
+  /** Scheduled payments configuration. Due payments run automatically unless `autoRun: false`. */
+  scheduledPayments?: ScheduledPaymentsModuleConfig;
   /** Optional password to decrypt the wallet. Must match the password used during creation. */
   password?: string;
+  /**
+   * Encrypt the stored data of a wallet created without at-rest encryption
+   * (one-time migration). Encrypted wallets are always unlocked on load.
+   */
+  encryptStorage?: boolean;
+  /** Lock the wallet after this many ms without a signing operation (requires a password; default: never) */
+  autoLockMs?: number;
   /**
    * Auto-discover previously used HD addresses on load.
    * - true: discover with defaults (Nostr + L1 scan, autoTrack: true)
@@ -238,6 +280,8 @@ export interface SphereLoadOptions {
    * - false/undefined: no auto-discovery (default)
    */
   discoverAddresses?: boolean | DiscoverAddressesOptions;
+  /** Storage migrations of the app, run with the built-in ones on load (see StorageMigrator) */
+  migrations?: StorageMigration[];
   /** Enable debug logging (default: false) */
   debug?: boolean;
   /** Optional callback to report initialization progress steps */
@@ -248,6 +292,8 @@ export interface SphereLoadOptions {
 export interface SphereImportOptions {
   /** BIP39 mnemonic to import */
   mnemonic?: string;
+  /** Or mnemonic shares from splitMnemonic() (at least `threshold` of one split) */
+  shares?: string[];
   /** Or master private key (hex) */
   masterKey?: string;
   /** Chain code for BIP32 (optional) */
@@ -276,8 +322,17 @@ export interface SphereImportOptions {
   groupChat?: GroupChatModuleConfig | boolean;
   /** Market module configuration. true = enable with defaults, object = custom config. */
   market?: MarketModuleConfig | boolean;
+  /** Scheduled payments configuration. Due payments run automatically unless `autoRun: false`. */
+  scheduledPayments?: ScheduledPaymentsModuleConfig;
   /** Optional password to encrypt the wallet. If omitted, mnemonic/key is stored as plaintext. */
   password?: string;
+  /**
+   * Encrypt per-address data, tokens and history at rest with a key derived
+   * from the wallet password, or the master key without one (default: true).
+   */
+  encryptStorage?: boolean;
+  /** Lock the wallet after this many ms without a signing operation (requires a password; default: never) */
+  autoLockMs?: number;
   /**
    * Auto-discover previously used HD addresses after import.
    * - true: discover with defaults (Nostr + L1 scan, autoTrack: true)
@@ -285,6 +340,50 @@ export interface SphereImportOptions {
    * - false/undefined: no auto-discovery (default)
    */
   discoverAddresses?: boolean | DiscoverAddressesOptions;
+  /** Storage migrations of the app, run with the built-in ones on load (see StorageMigrator) */
+  migrations?: StorageMigration[];
+  /** Enable debug logging (default: false) */
+  debug?: boolean;
+  /** Optional callback to report initialization progress steps */
+  onProgress?: InitProgressCallback;
+}
+
+/**
+ * Options for a watch-only wallet.
+ * Provide `xpub` or `addresses` (or both); no private keys are ever needed.
+ */
+export interface SphereWatchOptions {
+  /**
+   * Account-level extended public key (the node at `basePath`, e.g. m/44'/0'/0').
+   * Addresses are derived as `{basePath}/0/{index}`, like deriveAddress().
+   */
+  xpub?: string;
+  /**
+   * Addresses to watch: L1 addresses (alpha1...), compressed public keys (hex)
+   * or an L3 DIRECT address (DIRECT://...).
+   * The L3 address is derived from the private key, so it cannot be computed
+   * from an xpub or public key; pass it here to track the L3 token inventory.
+   * With `xpub`, L1 entries are watched in addition to the derived addresses.
+   */
+  addresses?: string[];
+  /** Number of xpub receive addresses to watch on L1 (default: 1) */
+  addressCount?: number;
+  /** Base path the xpub was exported at (default: m/44'/0'/0') */
+  basePath?: string;
+  /** Storage provider instance */
+  storage: StorageProvider;
+  /** Optional token storage provider (L3 token inventory source) */
+  tokenStorage?: TokenStorageProvider<TxfStorageDataBase>;
+  /** Transport provider instance (used for nametag resolution only) */
+  transport: TransportProvider;
+  /** Oracle provider instance */
+  oracle: OracleProvider;
+  /** L1 (ALPHA blockchain) configuration */
+  l1?: L1Config;
+  /** Optional price provider for fiat conversion */
+  price?: PriceProvider;
+  /** Network type (mainnet, testnet, dev) - informational only */
+  network?: NetworkType;
   /** Enable debug logging (default: false) */
   debug?: boolean;
   /** Optional callback to report initialization progress steps */
@@ -295,10 +394,12 @@ export interface SphereImportOptions {
 export interface L1Config {
   /** Fulcrum WebSocket URL (default: wss://fulcrum.alpha.unicity.network:50004) */
   electrumUrl?: string;
-  /** Default fee rate in sat/byte (default: 10) */
+  /** Default fee rate in sat/vB (default: 10) */
   defaultFeeRate?: number;
   /** Enable vesting classification (default: true) */
   enableVesting?: boolean;
+  /** Default coin selection strategy (default: 'default') */
+  coinSelection?: L1CoinSelectionStrategy | L1CoinSelector;
 }
 
 /** Options for unified init (auto-create or load) */
@@ -338,8 +439,17 @@ export interface SphereInitOptions {
   groupChat?: GroupChatModuleConfig | boolean;
   /** Market module configuration. true = enable with defaults, object = custom config. */
   market?: MarketModuleConfig | boolean;
+  /** Scheduled payments configuration. Due payments run automatically unless `autoRun: false`. */
+  scheduledPayments?: ScheduledPaymentsModuleConfig;
   /** Optional password to encrypt/decrypt the wallet. If omitted, mnemonic is stored as plaintext. */
   password?: string;
+  /**
+   * At-rest encryption of stored data (default: true). Existing unencrypted
+   * wallets are migrated on load unless false.
+   */
+  encryptStorage?: boolean;
+  /** Lock the wallet after this many ms without a signing operation (requires a password; default: never) */
+  autoLockMs?: number;
   /**
    * Auto-discover previously used HD addresses when creating from mnemonic.
    * Only applies when wallet is newly created (not on load of existing wallet).
@@ -348,6 +458,8 @@ export interface SphereInitOptions {
    * - false/undefined: no auto-discovery (default)
    */
   discoverAddresses?: boolean | DiscoverAddressesOptions;
+  /** Storage migrations of the app, run with the built-in ones on load (see StorageMigrator) */
+  migrations?: StorageMigration[];
   /** Enable debug logging (default: false) */
   debug?: boolean;
   /** Optional callback to report initialization progress steps */
@@ -364,6 +476,15 @@ export interface SphereInitResult {
   generatedMnemonic?: string;
 }
 
+// =============================================================================
+// Storage Schema Versions
+// =============================================================================
+
+/** Key of the schema versions an address's token data was migrated to */
+function addressSchemaVersionsKey(directAddress: string): string {
+  return `${STORAGE_KEYS_GLOBAL.SCHEMA_VERSIONS}_${getAddressId(directAddress)}`;
+}
+
 // =============================================================================
 // L3 Predicate Address Derivation
 // =============================================================================
@@ -416,6 +537,9 @@ export interface AddressModuleSet {
   communications: CommunicationsModule;
   groupChat: GroupChatModule | null;
   market: MarketModule | null;
+  scheduled: ScheduledPaymentsModule;
+  invoices: InvoicesModule;
+  recovery: RecoveryModule;
   transportAdapter: AddressTransportAdapter | null;
   tokenStorageProviders: Map<string, TokenStorageProvider<TxfStorageDataBase>>;
   initialized: boolean;
@@ -435,6 +559,21 @@ export class Sphere {
   private _masterKey: MasterKey | null = null;
   private _mnemonic: string | null = null;
   private _password: string | null = null;
+  /** Locked session: mnemonic and password are wiped, every signing path throws WALLET_LOCKED */
+  private _locked = false;
+  /** Idle time before the wallet locks itself (null = never) */
+  private _autoLockMs: number | null = null;
+  private _autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  /** At-rest encryption keys; null when stored data is not encrypted */
+  private _storageKeyring: StorageKeyring | null = null;
+  /** App storage migrations, also run for each address's tokens when it is first opened */
+  private _migrations: readonly StorageMigration[] = [];
+  /** Watch-only wallet: public keys/addresses only, every signing path throws WATCH_ONLY */
+  private _watchOnly = false;
+  /** Account-level extended public key of a watch-only wallet */
+  private _watchKey: ExtendedPublicKey | null = null;
+  /** Additional L1 addresses watched by a watch-only wallet */
+  private _watchL1Addresses: string[] = [];
   private _source: WalletSource = 'unknown';
   private _derivationMode: DerivationMode = 'bip32';
   private _basePath: string = DEFAULT_BASE_PATH;
@@ -460,6 +599,9 @@ export class Sphere {
   private _communications: CommunicationsModule;
   private _groupChat: GroupChatModule | null = null;
   private _market: MarketModule | null = null;
+  private _scheduled: ScheduledPaymentsModule;
+  private _invoices: InvoicesModule;
+  private _recovery: RecoveryModule;
 
   // Per-address module instances (Phase 2: independent parallel operation)
   private _addressModules: Map<number, AddressModuleSet> = new Map();
@@ -469,6 +611,7 @@ export class Sphere {
   private _l1Config: L1Config | undefined;
   private _groupChatConfig: GroupChatModuleConfig | undefined;
   private _marketConfig: MarketModuleConfig | undefined;
+  private _scheduledConfig: ScheduledPaymentsModuleConfig | undefined;
 
   // Events
   private eventHandlers: Map<SphereEventType, Set<SphereEventHandler<SphereEventType>>> = new Map();
@@ -491,6 +634,7 @@ export class Sphere {
     priceProvider?: PriceProvider,
     groupChatConfig?: GroupChatModuleConfig,
     marketConfig?: MarketModuleConfig,
+    scheduledConfig?: ScheduledPaymentsModuleConfig,
   ) {
     this._storage = storage;
     this._transport = transport;
@@ -506,11 +650,15 @@ export class Sphere {
     this._l1Config = l1Config;
     this._groupChatConfig = groupChatConfig;
     this._marketConfig = marketConfig;
+    this._scheduledConfig = scheduledConfig;
 
     this._payments = createPaymentsModule({ l1: l1Config });
     this._communications = createCommunicationsModule();
     this._groupChat = groupChatConfig ? createGroupChatModule(groupChatConfig) : null;
     this._market = marketConfig ? createMarketModule(marketConfig) : null;
+    this._scheduled = createScheduledPaymentsModule(scheduledConfig);
+    this._invoices = createInvoicesModule();
+    this._recovery = createRecoveryModule();
   }
 
   // ===========================================================================
@@ -601,8 +749,12 @@ export class Sphere {
         price: options.price,
         groupChat,
         market,
+        scheduledPayments: options.scheduledPayments,
         password: options.password,
+        encryptStorage: options.encryptStorage,
+        autoLockMs: options.autoLockMs,
         discoverAddresses: options.discoverAddresses,
+        migrations: options.migrations,
         onProgress: options.onProgress,
       });
       return { sphere, created: false };
@@ -637,8 +789,12 @@ export class Sphere {
       price: options.price,
       groupChat,
       market,
+      scheduledPayments: options.scheduledPayments,
       password: options.password,
+      encryptStorage: options.encryptStorage,
+      autoLockMs: options.autoLockMs,
       discoverAddresses: options.discoverAddresses,
+      migrations: options.migrations,
       onProgress: options.onProgress,
     });
 
@@ -739,8 +895,10 @@ export class Sphere {
       options.price,
       groupChatConfig,
       marketConfig,
+      options.scheduledPayments,
     );
     sphere._password = options.password ?? null;
+    sphere._autoLockMs = options.autoLockMs ?? null;
 
     // Store mnemonic (encrypted if password provided, plaintext otherwise)
     progress?.({ step: 'storing_keys', message: 'Storing wallet keys...' });
@@ -748,10 +906,12 @@ export class Sphere {
 
     // Initialize identity from mnemonic
     await sphere.initializeIdentityFromMnemonic(options.mnemonic, options.derivationPath);
+    await sphere.setupStorageEncryption(options.encryptStorage ?? true);
 
     // Initialize everything
     progress?.({ step: 'initializing', message: 'Initializing wallet...' });
     await sphere.initializeProviders();
+    await sphere.markStorageCurrent(options.migrations);
     await sphere.initializeModules();
 
     // Mark wallet as created only after successful initialization
@@ -760,6 +920,7 @@ export class Sphere {
     await sphere.finalizeWalletCreation();
 
     sphere._initialized = true;
+    sphere.scheduleAutoLock();
     Sphere.instance = sphere;
 
     // Track address 0 in the registry
@@ -832,8 +993,10 @@ export class Sphere {
       options.price,
       groupChatConfig,
       marketConfig,
+      options.scheduledPayments,
     );
     sphere._password = options.password ?? null;
+    sphere._autoLockMs = options.autoLockMs ?? null;
 
     // exists() restores original (disconnected) state — reconnect for reads
     if (!options.storage.isConnected()) {
@@ -843,10 +1006,14 @@ export class Sphere {
     // Load identity from storage
     progress?.({ step: 'storing_keys', message: 'Loading wallet keys...' });
     await sphere.loadIdentityFromStorage();
+    await sphere.setupStorageEncryption(options.encryptStorage ?? true);
 
     // Initialize everything
     progress?.({ step: 'initializing', message: 'Initializing wallet...' });
     await sphere.initializeProviders();
+
+    // Bring stored data up to the current schema before modules read it
+    await sphere.migrateStorage(options.migrations, progress);
     await sphere.initializeModules();
 
     // Publish identity binding via transport
@@ -854,6 +1021,7 @@ export class Sphere {
     await sphere.syncIdentityWithTransport();
 
     sphere._initialized = true;
+    sphere.scheduleAutoLock();
     Sphere.instance = sphere;
 
     // If nametag name exists but token is missing, try to mint it.
@@ -895,15 +1063,18 @@ export class Sphere {
   }
 
   /**
-   * Import wallet from mnemonic or master key
+   * Import wallet from mnemonic, mnemonic shares or master key
    */
   static async import(options: SphereImportOptions): Promise<Sphere> {
     if (options.debug) logger.configure({ debug: true });
 
-    if (!options.mnemonic && !options.masterKey) {
-      throw new SphereError('Either mnemonic or masterKey is required', 'INVALID_CONFIG');
+    if (!options.mnemonic && !options.shares && !options.masterKey) {
+      throw new SphereError('Either mnemonic, shares or masterKey is required', 'INVALID_CONFIG');
     }
 
+    // Recover the mnemonic from shares before anything is cleared
+    const mnemonic = options.mnemonic ?? (options.shares ? combineMnemonicShares(options.shares) : undefined);
+
     const progress = options.onProgress;
 
     logger.debug('Sphere', 'Starting import...');
@@ -942,20 +1113,22 @@ export class Sphere {
       options.price,
       groupChatConfig,
       marketConfig,
+      options.scheduledPayments,
     );
     sphere._password = options.password ?? null;
+    sphere._autoLockMs = options.autoLockMs ?? null;
 
     progress?.({ step: 'storing_keys', message: 'Storing wallet keys...' });
 
-    if (options.mnemonic) {
+    if (mnemonic) {
       // Validate and store mnemonic
-      if (!Sphere.validateMnemonic(options.mnemonic)) {
+      if (!Sphere.validateMnemonic(mnemonic)) {
         throw new SphereError('Invalid mnemonic', 'INVALID_IDENTITY');
       }
       logger.debug('Sphere', 'Storing mnemonic...');
-      await sphere.storeMnemonic(options.mnemonic, options.derivationPath, options.basePath);
+      await sphere.storeMnemonic(mnemonic, options.derivationPath, options.basePath);
       logger.debug('Sphere', 'Initializing identity from mnemonic...');
-      await sphere.initializeIdentityFromMnemonic(options.mnemonic, options.derivationPath);
+      await sphere.initializeIdentityFromMnemonic(mnemonic, options.derivationPath);
     } else if (options.masterKey) {
       // Store master key directly
       logger.debug('Sphere', 'Storing master key...');
@@ -974,10 +1147,13 @@ export class Sphere {
       );
     }
 
+    await sphere.setupStorageEncryption(options.encryptStorage ?? true);
+
     // Initialize everything
     progress?.({ step: 'initializing', message: 'Initializing wallet...' });
     logger.debug('Sphere', 'Initializing providers...');
     await sphere.initializeProviders();
+    await sphere.markStorageCurrent(options.migrations);
     logger.debug('Sphere', 'Providers initialized. Initializing modules...');
     await sphere.initializeModules();
     logger.debug('Sphere', 'Modules initialized');
@@ -999,6 +1175,7 @@ export class Sphere {
     await sphere.finalizeWalletCreation();
 
     sphere._initialized = true;
+    sphere.scheduleAutoLock();
     Sphere.instance = sphere;
 
     // Track address 0 in the registry
@@ -1045,6 +1222,79 @@ export class Sphere {
     return sphere;
   }
 
+  /**
+   * Open a watch-only wallet from an xpub and/or a list of addresses.
+   *
+   * Tracks L1 balances of every watched address and, when a DIRECT address is
+   * listed in `addresses`, its L3 token inventory via the configured token
+   * storage, which sync() only reads. Tokens that first appear during sync()
+   * are reported as `transfer:incoming` with `watchOnly: true` and no sender.
+   * Nothing is written to wallet key storage, and every signing operation
+   * rejects with `WATCH_ONLY`.
+   *
+   * @example
+   * ```ts
+   * const xpub = fullSphere.getExtendedPublicKey();
+   * const watcher = await Sphere.watch({
+   *   xpub,
+   *   addresses: [fullSphere.identity!.directAddress!],
+   *   addressCount: 5,
+   *   storage, transport, oracle, tokenStorage,
+   * });
+   * const balance = await watcher.payments.l1!.getBalance();
+   * ```
+   */
+  static async watch(options: SphereWatchOptions): Promise<Sphere> {
+    if (options.debug) logger.configure({ debug: true });
+
+    if (!options.xpub && !options.addresses?.length) {
+      throw new SphereError('Either xpub or addresses is required', 'INVALID_CONFIG');
+    }
+
+    const progress = options.onProgress;
+
+    // Configure TokenRegistry in main bundle context (see init() for details)
+    Sphere.configureTokenRegistry(options.storage, options.network);
+
+    const sphere = new Sphere(
+      options.storage,
+      options.transport,
+      options.oracle,
+      options.tokenStorage,
+      options.l1,
+      options.price,
+    );
+    sphere._watchOnly = true;
+    sphere._source = 'watch';
+
+    if (!options.storage.isConnected()) {
+      await options.storage.connect();
+    }
+
+    progress?.({ step: 'storing_keys', message: 'Deriving watched addresses...' });
+    await sphere.initializeWatchIdentity(options);
+
+    progress?.({ step: 'initializing', message: 'Initializing wallet...' });
+    await sphere.initializeProviders();
+    await sphere.initializeModules();
+
+    sphere._initialized = true;
+    Sphere.instance = sphere;
+
+    // Pick up tokens already in token storage
+    if (sphere._tokenStorageProviders.size > 0) {
+      progress?.({ step: 'syncing_tokens', message: 'Syncing tokens...' });
+      try {
+        await sphere._payments.sync();
+      } catch (err) {
+        logger.warn('Sphere', 'Watch-only sync failed (non-fatal):', err);
+      }
+    }
+
+    progress?.({ step: 'complete', message: 'Watch-only wallet ready' });
+    return sphere;
+  }
+
   /**
    * Clear all SDK-owned wallet data from storage.
    *
@@ -1175,6 +1425,24 @@ export class Sphere {
     return this._market;
   }
 
+  /** Scheduled payments module (subscriptions, standing orders) */
+  get scheduled(): ScheduledPaymentsModule {
+    this.ensureReady();
+    return this._scheduled;
+  }
+
+  /** Invoices module (itemized invoices matched to incoming payments) */
+  get invoices(): InvoicesModule {
+    this.ensureReady();
+    return this._invoices;
+  }
+
+  /** Social recovery module (mnemonic shares held by guardians) */
+  get recovery(): RecoveryModule {
+    this.ensureReady();
+    return this._recovery;
+  }
+
   // ===========================================================================
   // Public Properties - State
   // ===========================================================================
@@ -1209,6 +1477,7 @@ export class Sphere {
    * @throws SphereError if the wallet is not initialized or identity is missing
    */
   signMessage(message: string): string {
+    this.ensureCanSign();
     if (!this._identity?.privateKey) {
       throw new SphereError('Wallet not initialized — cannot sign', 'NOT_INITIALIZED');
     }
@@ -1311,7 +1580,177 @@ export class Sphere {
    * Check if wallet has BIP32 master key for HD derivation
    */
   hasMasterKey(): boolean {
-    return this._masterKey !== null;
+    return this._masterKey !== null || this._locked;
+  }
+
+  /**
+   * Check if this is a watch-only wallet (see Sphere.watch())
+   */
+  isWatchOnly(): boolean {
+    return this._watchOnly;
+  }
+
+  /**
+   * Check if the wallet is locked (see lock())
+   */
+  isLocked(): boolean {
+    return this._locked;
+  }
+
+  /**
+   * Lock the wallet: the mnemonic, password and master key are wiped from
+   * memory, and every signing path (sends, signMessage, exports, nametag
+   * registration, invoice signing, market requests) throws WALLET_LOCKED
+   * until unlock(). Addresses are derived from the account xpub while locked,
+   * so no further address keys can be derived.
+   *
+   * The keys of addresses already opened stay in memory: the transport uses
+   * the same secp256k1 key to receive and decrypt messages, so balances,
+   * history and messages keep working. Locking guards the signing paths, it
+   * does not remove those keys.
+   *
+   * Only password-protected wallets can be locked.
+   */
+  lock(): void {
+    this.ensureReady();
+    if (this._locked) return;
+    if (!this._password) {
+      throw new SphereError('Only password-protected wallets can be locked', 'INVALID_CONFIG');
+    }
+    this.lockInternal('manual');
+  }
+
+  /**
+   * Unlock the wallet with its password. The stored (encrypted) mnemonic or
+   * master key is decrypted and checked against the current address.
+   *
+   * @throws SphereError with code DECRYPTION_ERROR if the password is wrong
+   */
+  async unlock(password: string): Promise<void> {
+    this.ensureReady();
+    if (!this._locked) return;
+
+    const encryptedMnemonic = await this._storage.get(STORAGE_KEYS_GLOBAL.MNEMONIC);
+    const encrypted = encryptedMnemonic ?? await this._storage.get(STORAGE_KEYS_GLOBAL.MASTER_KEY);
+    if (!encrypted) {
+      throw new SphereError('No wallet data found in storage', 'NOT_INITIALIZED');
+    }
+
+    let decrypted: string | null = null;
+    try {
+      decrypted = decryptSimple(encrypted, password);
+    } catch {
+      // Wrong password may also yield malformed UTF-8
+    }
+
+    let masterKey: MasterKey | null = null;
+    if (encryptedMnemonic) {
+      if (decrypted && validateBip39Mnemonic(decrypted)) {
+        masterKey = identityFromMnemonicSync(decrypted);
+      }
+    } else if (decrypted && /^[0-9a-fA-F]{64}$/.test(decrypted)) {
+      const chainCode = await this._storage.get(STORAGE_KEYS_GLOBAL.CHAIN_CODE);
+      masterKey = { privateKey: decrypted, chainCode: chainCode ?? '' };
+    }
+    if (!masterKey || !this.restoreKeys(masterKey)) {
+      throw new SphereError('Wrong password', 'DECRYPTION_ERROR');
+    }
+
+    this._mnemonic = encryptedMnemonic ? decrypted : null;
+    this._password = password;
+    this._locked = false;
+    this.scheduleAutoLock();
+    for (const moduleSet of this._addressModules.values()) {
+      moduleSet.payments.sendPendingReceipts();
+    }
+    this.emitEvent('wallet:unlocked', {});
+  }
+
+  /**
+   * Lock the wallet automatically after `ms` without a signing operation.
+   * Pass null to disable. Has no effect on wallets without a password.
+   */
+  setAutoLock(ms: number | null): void {
+    if (ms !== null && (!Number.isFinite(ms) || ms <= 0)) {
+      throw new SphereError('Auto-lock timeout must be a positive number of milliseconds', 'VALIDATION_ERROR');
+    }
+    this._autoLockMs = ms;
+    this.scheduleAutoLock();
+  }
+
+  /**
+   * Check if stored data is encrypted at rest (see `encryptStorage` option)
+   */
+  isStorageEncrypted(): boolean {
+    return this._storageKeyring !== null;
+  }
+
+  /**
+   * Rotate the at-rest data key: new writes use a fresh key and all stored
+   * data of every tracked address is re-encrypted with it. The previous key
+   * is dropped only after everything was rewritten, so an interrupted
+   * rotation can be resumed by calling this again.
+   */
+  async rotateStorageKey(): Promise<void> {
+    this.ensureReady();
+    const keyring = this._storageKeyring;
+    if (!keyring) {
+      throw new SphereError('Storage encryption is not enabled', 'INVALID_CONFIG');
+    }
+
+    // Persist the new key before any value is written with it
+    keyring.rotate();
+    await keyring.saveHeader(this._storage);
+
+    const storage = this._storage as EncryptedStorageProvider;
+    let count = await storage.reencrypt();
+
+    for (const [index, tracked] of this._trackedAddresses) {
+      const moduleSet = this._addressModules.get(index);
+      if (moduleSet) {
+        for (const provider of moduleSet.tokenStorageProviders.values()) {
+          if (provider.reencrypt) {
+            count += await provider.reencrypt();
+          }
+        }
+        continue;
+      }
+
+      // Address not opened in this session: open its token storage just to
+      // re-encrypt (initialize() brings the data to the current key)
+      if (!this._masterKey) continue;
+      const identity: FullIdentity = {
+        privateKey: this._deriveAddressInternal(index, false).privateKey,
+        chainPubkey: tracked.chainPubkey,
+        l1Address: tracked.l1Address,
+        directAddress: tracked.directAddress,
+      };
+      for (const provider of this._tokenStorageProviders.values()) {
+        if (!provider.reencrypt || !provider.createForAddress) continue;
+        const addressProvider = provider.createForAddress();
+        addressProvider.setIdentity(identity);
+        await addressProvider.initialize();
+        await addressProvider.shutdown();
+      }
+    }
+
+    keyring.retireKeys();
+    await keyring.saveHeader(this._storage);
+    logger.debug('Sphere', `Storage key rotated to ${keyring.currentKeyId} (${count} value(s) re-encrypted)`);
+  }
+
+  /**
+   * Get the account-level extended public key (xpub at the base path).
+   * Pass it to Sphere.watch() to track this wallet without its keys.
+   */
+  getExtendedPublicKey(): string {
+    if (this._watchKey) {
+      return serializeExtendedPublicKey(this._watchKey);
+    }
+    if (!this._masterKey?.chainCode || this._derivationMode === 'wif_hmac') {
+      throw new SphereError('Extended public key requires a BIP32 master key with chain code', 'INVALID_CONFIG');
+    }
+    return serializeExtendedPublicKey(getExtendedPublicKey(this._masterKey, this._basePath));
   }
 
   // ===========================================================================
@@ -1342,7 +1781,7 @@ export class Sphere {
 
   /**
    * Get the mnemonic phrase (for backup purposes)
-   * Returns null if wallet was imported from file (masterKey only)
+   * Returns null if wallet was imported from file (masterKey only) or is locked
    */
   getMnemonic(): string | null {
     return this._mnemonic;
@@ -1365,8 +1804,8 @@ export class Sphere {
 
     return {
       source: this._source,
-      hasMnemonic: this._mnemonic !== null,
-      hasChainCode: !!this._masterKey?.chainCode,
+      hasMnemonic: this._mnemonic !== null || (this._locked && this._source === 'mnemonic'),
+      hasChainCode: !!this._masterKey?.chainCode || (this._locked && this._watchKey !== null),
       derivationMode: this._derivationMode,
       basePath: this._basePath,
       address0,
@@ -1390,6 +1829,7 @@ export class Sphere {
    */
   exportToJSON(options: WalletJSONExportOptions = {}): WalletJSON {
     this.ensureReady();
+    this.ensureCanSign();
 
     if (!this._masterKey && !this._identity) {
       throw new SphereError('Wallet not initialized', 'NOT_INITIALIZED');
@@ -1490,6 +1930,7 @@ export class Sphere {
    */
   exportToTxt(options: { password?: string; addressCount?: number } = {}): string {
     this.ensureReady();
+    this.ensureCanSign();
 
     if (!this._masterKey && !this._identity) {
       throw new SphereError('Wallet not initialized', 'NOT_INITIALIZED');
@@ -1554,6 +1995,118 @@ export class Sphere {
     });
   }
 
+  /**
+   * Export a full backup: every storage entry (keys, tracked addresses,
+   * messages, payment requests, group memberships, ...) and the token
+   * storage data and history of all tracked addresses, encrypted with
+   * `password`. Restore with Sphere.restoreBackup().
+   *
+   * The stored mnemonic stays encrypted with the wallet password (if any),
+   * so the restored wallet is loaded with the same password.
+   */
+  async exportBackup(password: string): Promise<string> {
+    this.ensureReady();
+    this.ensureCanSign();
+
+    const storage: Record<string, string> = {};
+    for (const key of await this._storage.keys()) {
+      // The at-rest key belongs to this device; restore sets up its own
+      if (key === STORAGE_KEYS_GLOBAL.STORAGE_ENCRYPTION) continue;
+      const value = await this._storage.get(key);
+      if (value !== null) storage[key] = value;
+    }
+
+    const addresses: WalletBackupAddress[] = [];
+    for (const tracked of this.getAllTrackedAddresses()) {
+      const tokenStorage: WalletBackupAddress['tokenStorage'] = [];
+      await this.withAddressTokenStorage(tracked, async (providers) => {
+        for (const [providerId, provider] of providers) {
+          try {
+            const result = await provider.load();
+            tokenStorage.push({
+              providerId,
+              providerType: provider.type,
+              data: result.success ? result.data ?? null : null,
+              history: await provider.getHistoryEntries?.() ?? [],
+            });
+          } catch (err) {
+            // Local data is the source of truth; remote providers are replicas
+            if (provider.type === 'local') throw err;
+            logger.warn('Sphere', `Backup: skipping token storage ${providerId} of address ${tracked.index}:`, err);
+          }
+        }
+      });
+      addresses.push({
+        index: tracked.index,
+        addressId: tracked.addressId,
+        directAddress: tracked.directAddress,
+        tokenStorage,
+      });
+    }
+
+    const backup: WalletBackup = { version: 1, createdAt: Date.now(), storage, addresses };
+    return encryptWalletBackup(backup, password);
+  }
+
+  /**
+   * Restore a backup made with exportBackup() into the given providers and
+   * load the wallet. Like Sphere.import(), any existing wallet in `storage`
+   * is cleared first. At-rest encryption is enabled unless
+   * `encryptStorage: false`.
+   *
+   * Both passwords are checked before anything is cleared or written. If
+   * loading the wallet or restoring its tokens fails afterwards, the
+   * partially restored wallet is cleared again and the error is rethrown.
+   *
+   * @param blob - Backup produced by exportBackup()
+   * @param password - Backup password
+   * @param options - Providers and load options; `password` is the wallet password
+   * @throws SphereError with code DECRYPTION_ERROR on a wrong backup password,
+   *   a tampered backup, or a missing or wrong wallet password (nothing is written)
+   */
+  static async restoreBackup(blob: string, password: string, options: SphereLoadOptions): Promise<Sphere> {
+    const backup = decryptWalletBackup(blob, password);
+
+    const walletSecret = backup.storage[STORAGE_KEYS_GLOBAL.MNEMONIC] ?? backup.storage[STORAGE_KEYS_GLOBAL.MASTER_KEY];
+    if (!walletSecret) {
+      throw new SphereError('Backup contains no wallet keys', 'VALIDATION_ERROR');
+    }
+    if (!decryptWalletSecret(walletSecret, options.password ?? null)) {
+      throw new SphereError(
+        options.password ? 'Wrong wallet password' : 'The backed-up wallet is password-protected',
+        'DECRYPTION_ERROR',
+      );
+    }
+
+    if (Sphere.instance !== null || await Sphere.exists(options.storage)) {
+      await Sphere.clear({ storage: options.storage, tokenStorage: options.tokenStorage });
+    }
+    if (!options.storage.isConnected()) {
+      await options.storage.connect();
+    }
+
+    let sphere: Sphere | null = null;
+    try {
+      // Keys are full storage keys (per-address keys carry their address prefix)
+      for (const [key, value] of Object.entries(backup.storage)) {
+        await options.storage.set(key, value);
+      }
+
+      sphere = await Sphere.load({ ...options, encryptStorage: options.encryptStorage ?? true });
+      await sphere.restoreTokenStorage(backup.addresses);
+      return sphere;
+    } catch (err) {
+      logger.error('Sphere', 'Backup restore failed, clearing the partially restored wallet:', err);
+      try {
+        await sphere?.destroy();
+        await Sphere.clear({ storage: options.storage, tokenStorage: options.tokenStorage });
+      } catch (clearError) {
+        logger.error('Sphere', 'Failed to clear the partially restored wallet:', clearError);
+      }
+      throw err;
+    }
+  }
+
   /**
    * Import wallet from JSON backup
    *
@@ -2098,6 +2651,7 @@ export class Sphere {
    */
   async switchToAddress(index: number, options?: { nametag?: string }): Promise<void> {
     this.ensureReady();
+    this.ensureUnlocked();
 
     if (!this._masterKey) {
       throw new SphereError('HD derivation requires master key with chain code. Cannot switch addresses.', 'INVALID_CONFIG');
@@ -2184,17 +2738,19 @@ export class Sphere {
         }
       }
 
+      await this.migrateAddressTokens(predicateAddress, addressTokenProviders);
       await this.initializeAddressModules(index, newIdentity, addressTokenProviders);
     } else {
-      // Modules already exist — update identity if nametag changed
+      // Modules already exist — update identity if nametag changed. The
+      // identity is updated in place: every module of the set shares it.
       const moduleSet = this._addressModules.get(index)!;
       if (nametag !== moduleSet.identity.nametag) {
-        moduleSet.identity = newIdentity;
+        (moduleSet.identity as MutableFullIdentity).nametag = nametag;
         // Use per-address transport if available
         const addressTransport: TransportProvider = moduleSet.transportAdapter ?? this._transport;
         // Re-initialize with updated identity (nametag change)
         moduleSet.payments.initialize({
-          identity: newIdentity,
+          identity: moduleSet.identity,
           storage: this._storage,
           tokenStorageProviders: moduleSet.tokenStorageProviders,
           transport: addressTransport,
@@ -2202,12 +2758,14 @@ export class Sphere {
           emitEvent: this.emitEvent.bind(this),
           chainCode: this._masterKey?.chainCode || undefined,
           price: this._priceProvider ?? undefined,
+          ensureUnlocked: this.ensureUnlocked.bind(this),
+          l1AddressSource: this.createL1AddressSource(),
         });
       }
     }
 
     // Switch the active pointer — instant, no destroy
-    this._identity = newIdentity;
+    this._identity = this._addressModules.get(index)!.identity as MutableFullIdentity;
     this._currentAddressIndex = index;
     await this._updateCachedProxyAddress();
 
@@ -2217,6 +2775,9 @@ export class Sphere {
     this._communications = activeModules.communications;
     this._groupChat = activeModules.groupChat;
     this._market = activeModules.market;
+    this._scheduled = activeModules.scheduled;
+    this._invoices = activeModules.invoices;
+    this._recovery = activeModules.recovery;
 
     // Persist current index
     await this._storage.set(STORAGE_KEYS_GLOBAL.CURRENT_ADDRESS_INDEX, index.toString());
@@ -2325,6 +2886,9 @@ export class Sphere {
     const communications = createCommunicationsModule();
     const groupChat = this._groupChatConfig ? createGroupChatModule(this._groupChatConfig) : null;
     const market = this._marketConfig ? createMarketModule(this._marketConfig) : null;
+    const scheduled = createScheduledPaymentsModule(this._scheduledConfig);
+    const invoices = createInvoicesModule();
+    const recovery = createRecoveryModule();
 
     // Initialize with address-specific identity and per-address transport
     payments.initialize({
@@ -2336,6 +2900,8 @@ export class Sphere {
       emitEvent,
       chainCode: this._masterKey?.chainCode || undefined,
       price: this._priceProvider ?? undefined,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
+      l1AddressSource: this.createL1AddressSource(),
     });
 
     communications.initialize({
@@ -2354,12 +2920,41 @@ export class Sphere {
     market?.initialize({
       identity,
       emitEvent,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
+    });
+
+    scheduled.initialize({
+      identity,
+      storage: this._storage,
+      payments,
+      emitEvent,
+      isLocked: this.isLocked.bind(this),
+    });
+
+    invoices.initialize({
+      identity,
+      storage: this._storage,
+      payments,
+      emitEvent,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
+    });
+
+    recovery.initialize({
+      identity,
+      storage: this._storage,
+      transport: addressTransport,
+      emitEvent,
+      getMnemonic: () => this._mnemonic,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
     });
 
     await payments.load();
     await communications.load();
     await groupChat?.load();
     await market?.load();
+    await scheduled.load();
+    await invoices.load();
+    await recovery.load();
 
     const moduleSet: AddressModuleSet = {
       index,
@@ -2368,6 +2963,9 @@ export class Sphere {
       communications,
       groupChat,
       market,
+      scheduled,
+      invoices,
+      recovery,
       transportAdapter: adapter,
       tokenStorageProviders: new Map(tokenStorageProviders),
       initialized: true,
@@ -2408,6 +3006,8 @@ export class Sphere {
         relays: nostrTransport.getConfiguredRelays(),
         createWebSocket: nostrTransport.getWebSocketFactory(),
         storage: nostrTransport.getStorageAdapter() ?? undefined,
+        paymentDelivery: nostrTransport.getPaymentDeliveryMode?.(),
+        outbox: typeof nostrTransport.publishToReadRelays === 'function' ? nostrTransport : undefined,
       });
 
       // Connect the mux
@@ -2460,13 +3060,41 @@ export class Sphere {
     return this._deriveAddressInternal(index, isChange);
   }
 
+  /**
+   * The wallet's tracked addresses and change chain for L1 sends that spend
+   * across addresses. Keys are derived when a send needs them.
+   */
+  private createL1AddressSource(): L1AddressSource | undefined {
+    if (this._watchOnly || !this._masterKey) return undefined;
+
+    return {
+      getAddresses: () =>
+        [...this._trackedAddresses.keys()]
+          .sort((a, b) => a - b)
+          .map((index) => this._deriveAddressInternal(index)),
+      // WIF/HMAC wallets have no change chain
+      ...(this._derivationMode === 'wif_hmac'
+        ? {}
+        : { deriveChangeAddress: (index: number) => this._deriveAddressInternal(index, true) }),
+    };
+  }
+
   /**
    * Internal address derivation without ensureReady() check.
    * Used during initialization (loadTrackedAddresses, ensureAddressTracked)
    * when _initialized is still false.
    */
   private _deriveAddressInternal(index: number, isChange: boolean = false): AddressInfo {
+    // Watch-only or locked: public derivation from the xpub, no private key available
+    if (this._watchKey) {
+      const info = derivePublicAddressInfo(this._watchKey, this._basePath, index, isChange);
+      return { ...info, privateKey: '' };
+    }
+
     if (!this._masterKey) {
+      if (this._locked) {
+        throw new SphereError('Wallet is locked', 'WALLET_LOCKED');
+      }
       throw new SphereError('HD derivation requires master key with chain code', 'INVALID_CONFIG');
     }
 
@@ -2581,7 +3209,7 @@ export class Sphere {
   async scanAddresses(options: ScanAddressesOptions = {}): Promise<ScanAddressesResult> {
     this.ensureReady();
 
-    if (!this._masterKey) {
+    if (!this._masterKey && !this._watchKey) {
       throw new SphereError('Address scanning requires HD master key', 'INVALID_CONFIG');
     }
 
@@ -2783,6 +3411,9 @@ export class Sphere {
         ? (transport.getConnectedRelays as () => string[])().length
         : 0;
       transportMeta = { relays: { total, connected } };
+      if (typeof transport.getRelayMetrics === 'function') {
+        transportMeta.relayMetrics = (transport.getRelayMetrics as () => unknown[])();
+      }
     }
 
     // L1 status
@@ -3081,6 +3712,7 @@ export class Sphere {
    */
   async registerNametag(nametag: string): Promise<void> {
     this.ensureReady();
+    this.ensureCanSign();
 
     // Normalize and validate nametag format
     const cleanNametag = this.cleanNametag(nametag);
@@ -3566,6 +4198,10 @@ export class Sphere {
 
   async destroy(): Promise<void> {
     this.cleanupProviderEventSubscriptions();
+    if (this._autoLockTimer) {
+      clearTimeout(this._autoLockTimer);
+      this._autoLockTimer = null;
+    }
 
     // Destroy all per-address module sets
     for (const [idx, moduleSet] of this._addressModules.entries()) {
@@ -3574,6 +4210,9 @@ export class Sphere {
         moduleSet.communications.destroy();
         moduleSet.groupChat?.destroy();
         moduleSet.market?.destroy();
+        moduleSet.scheduled.destroy();
+        moduleSet.invoices.destroy();
+        moduleSet.recovery.destroy();
         // Shutdown per-address token storage providers
         for (const provider of moduleSet.tokenStorageProviders.values()) {
           try { await provider.shutdown(); } catch { /* non-fatal */ }
@@ -3592,6 +4231,9 @@ export class Sphere {
     this._communications.destroy();
     this._groupChat?.destroy();
     this._market?.destroy();
+    this._scheduled.destroy();
+    this._invoices.destroy();
+    this._recovery.destroy();
 
     // Disconnect transport mux if present
     if (this._transportMux) {
@@ -3698,6 +4340,146 @@ export class Sphere {
     await this._storage.set(STORAGE_KEYS_GLOBAL.WALLET_EXISTS, 'true');
   }
 
+  /**
+   * Wrap storage and local token storage in the at-rest encryption layer.
+   * Must run once the master key is known and before providers are initialized.
+   * The data keys are wrapped with the wallet password, or with the master
+   * key for wallets without one.
+   *
+   * - Storage already encrypted (header present): unlock it, re-wrapping the
+   *   keys with the password if they were wrapped with the master key
+   * - Otherwise, `encrypt`: create the keys and encrypt any existing data
+   *   (token storage migrates as each address is opened)
+   * - Either way, rewrite values in the legacy format that is not bound to
+   *   the storage key
+   */
+  private async setupStorageEncryption(encrypt: boolean): Promise<void> {
+    // Caller passed already-encrypting providers, or there is no key to derive from
+    if ('keyring' in this._storage || this._watchOnly || !this._masterKey) return;
+
+    const masterKeySource: StorageKeySource = { masterKey: this._masterKey.privateKey };
+    const source: StorageKeySource = this._password ? { password: this._password } : masterKeySource;
+    const header = await StorageKeyring.readHeader(this._storage);
+    let keyring: StorageKeyring;
+    if (header) {
+      keyring = StorageKeyring.unlock(header, header.kdf === 'hkdf' ? masterKeySource : source);
+      if (header.kdf === 'hkdf' && this._password) {
+        keyring.changeKeySource(source);
+        await keyring.saveHeader(this._storage);
+      } else if (keyring.headerOutdated) {
+        await keyring.saveHeader(this._storage);
+      }
+    } else if (encrypt) {
+      keyring = StorageKeyring.create(source);
+      await keyring.saveHeader(this._storage);
+    } else {
+      return;
+    }
+
+    const storage = new EncryptedStorageProvider(this._storage, keyring);
+    // Values are bound to their full key, which depends on the current address
+    if (this._identity) storage.setIdentity(this._identity);
+    this._storage = storage;
+    // Only local providers: remote ones (IPFS) merge by token content.
+    // Providers that encrypt their own payloads keep their indexes usable.
+    for (const [id, provider] of this._tokenStorageProviders) {
+      if (provider.type !== 'local') continue;
+      if (provider.setKeyring) {
+        provider.setKeyring(keyring);
+      } else {
+        this._tokenStorageProviders.set(id, new EncryptedTokenStorageProvider(provider, keyring));
+      }
+    }
+    this._storageKeyring = keyring;
+
+    // Encrypts existing data on first setup and upgrades values from before
+    // they were bound to their storage key
+    const migrated = await storage.reencrypt();
+    if (migrated > 0) {
+      logger.debug('Sphere', `Encrypted ${migrated} existing storage value(s)`);
+    }
+  }
+
+  /**
+   * Migrator over this wallet's storage and one address's token storage
+   * (default: the current address's primary one), with the built-in
+   * migrations, those declared by the providers and the app's own. Versions
+   * are read from and saved to `versionsKey` (default: the wallet's).
+   */
+  private createStorageMigrator(
+    tokenStorage: TokenStorageProvider<TxfStorageDataBase> | undefined = this._tokenStorageProviders.values().next().value,
+    versionsKey?: string,
+  ): StorageMigrator {
+    return new StorageMigrator(this._storage, tokenStorage, [
+      ...SPHERE_STORAGE_MIGRATIONS,
+      ...(this._storage.migrations ?? []),
+      ...(tokenStorage?.migrations ?? []),
+      ...this._migrations,
+    ], versionsKey);
+  }
+
+  /** Record a new wallet, and its current address's tokens, at the latest schema */
+  private async markStorageCurrent(migrations: readonly StorageMigration[] | undefined): Promise<void> {
+    this._migrations = migrations ?? [];
+    await this.createStorageMigrator().markCurrent();
+    await this.createStorageMigrator(undefined, addressSchemaVersionsKey(this._identity!.directAddress!)).markCurrent();
+  }
+
+  /**
+   * Run pending storage migrations (load only; new wallets are marked current).
+   * Token data is per address, so every address keeps its own versions:
+   * tracked addresses without any are recorded at the wallet's versions
+   * before this run, the current address is migrated now and the others
+   * when first opened (see migrateAddressTokens). A failed migration restores
+   * the previous data and aborts the load.
+   */
+  private async migrateStorage(
+    migrations: readonly StorageMigration[] | undefined,
+    progress?: InitProgressCallback,
+  ): Promise<void> {
+    this._migrations = migrations ?? [];
+    const from = await this.createStorageMigrator().getVersions();
+    const addresses = new Set([...this._trackedAddresses.values()].map((tracked) => tracked.directAddress));
+    addresses.add(this._identity!.directAddress!);
+    for (const directAddress of addresses) {
+      const key = addressSchemaVersionsKey(directAddress);
+      if (await this._storage.get(key) === null) {
+        await this._storage.set(key, JSON.stringify(from));
+      }
+    }
+
+    const report = await this.createStorageMigrator(undefined, addressSchemaVersionsKey(this._identity!.directAddress!)).migrate({
+      onProgress: ({ name, index, total }) => {
+        progress?.({ step: 'migrating', message: `Migrating storage: ${name} (${index}/${total})` });
+      },
+    });
+    await this._storage.set(STORAGE_KEYS_GLOBAL.SCHEMA_VERSIONS, JSON.stringify({ ...from, ...report.to }));
+    if (report.applied.length > 0) {
+      logger.debug('Sphere', `Applied ${report.applied.length} storage migration(s)`);
+    }
+  }
+
+  /**
+   * Bring an address's token data up to the current schema before its
+   * modules load. An address without recorded versions was derived after the
+   * last load, at the current schema.
+   */
+  private async migrateAddressTokens(
+    directAddress: string,
+    tokenStorageProviders: Map<string, TokenStorageProvider<TxfStorageDataBase>>,
+  ): Promise<void> {
+    const key = addressSchemaVersionsKey(directAddress);
+    const migrator = this.createStorageMigrator(tokenStorageProviders.values().next().value, key);
+    if (await this._storage.get(key) === null) {
+      await migrator.markCurrent();
+      return;
+    }
+    const report = await migrator.migrate();
+    if (report.applied.length > 0) {
+      logger.debug('Sphere', `Applied ${report.applied.length} storage migration(s) to ${getAddressId(directAddress)}`);
+    }
+  }
+
   // ===========================================================================
   // Private: Identity Initialization
   // ===========================================================================
@@ -3722,7 +4504,7 @@ export class Sphere {
     if (encryptedMnemonic) {
       const mnemonic = this.decrypt(encryptedMnemonic);
       if (!mnemonic) {
-        throw new SphereError('Failed to decrypt mnemonic', 'STORAGE_ERROR');
+        throw new SphereError('Failed to decrypt mnemonic', 'DECRYPTION_ERROR');
       }
       this._mnemonic = mnemonic;
       this._source = 'mnemonic';
@@ -3730,7 +4512,7 @@ export class Sphere {
     } else if (encryptedMasterKey) {
       const masterKey = this.decrypt(encryptedMasterKey);
       if (!masterKey) {
-        throw new SphereError('Failed to decrypt master key', 'STORAGE_ERROR');
+        throw new SphereError('Failed to decrypt master key', 'DECRYPTION_ERROR');
       }
       this._mnemonic = null;
       if (this._source === 'unknown') {
@@ -3879,6 +4661,65 @@ export class Sphere {
   // Private: Provider & Module Initialization
   // ===========================================================================
 
+  /**
+   * Build the public-only identity of a watch-only wallet.
+   * The primary L1 address is the first xpub address, else the first L1 entry
+   * of `addresses`; all other L1 addresses are watched in addition.
+   */
+  private async initializeWatchIdentity(options: SphereWatchOptions): Promise<void> {
+    if (options.basePath) {
+      this._basePath = options.basePath;
+    }
+
+    const l1Addresses: string[] = [];
+    const publicKeys: string[] = [];
+    let directAddress: string | undefined;
+
+    if (options.xpub) {
+      this._watchKey = parseExtendedPublicKey(options.xpub);
+      const count = Math.max(1, options.addressCount ?? 1);
+      for (let i = 0; i < count; i++) {
+        const info = this._deriveAddressInternal(i, false);
+        publicKeys.push(info.publicKey);
+        l1Addresses.push(info.address);
+      }
+    }
+
+    for (const entry of options.addresses ?? []) {
+      if (/^DIRECT:\/\/[0-9a-fA-F]+$/.test(entry)) {
+        if (directAddress && directAddress !== entry) {
+          throw new SphereError('Only one DIRECT address can be watched', 'INVALID_CONFIG');
+        }
+        directAddress = entry;
+      } else if (/^0[23][0-9a-fA-F]{64}$/.test(entry)) {
+        publicKeys.push(entry.toLowerCase());
+        l1Addresses.push(publicKeyToAddress(entry.toLowerCase(), 'alpha'));
+      } else if (decodeBech32(entry)) {
+        l1Addresses.push(entry);
+      } else {
+        throw new SphereError(`Invalid watch address: ${entry}`, 'INVALID_CONFIG');
+      }
+    }
+
+    const primaryKey = publicKeys[0];
+    const primaryAddress = primaryKey ? publicKeyToAddress(primaryKey, 'alpha') : (l1Addresses[0] ?? '');
+
+    this._identity = {
+      privateKey: '',
+      chainPubkey: primaryKey ?? '',
+      l1Address: primaryAddress,
+      directAddress,
+      ipnsName: primaryKey ? '12D3KooW' + sha256(primaryKey, 'hex').slice(0, 40) : undefined,
+    };
+    this._watchL1Addresses = [...new Set(l1Addresses)].filter((addr) => addr !== primaryAddress);
+
+    // L3 inventory is keyed by the DIRECT address
+    if (!directAddress && this._tokenStorageProviders.size > 0) {
+      logger.warn('Sphere', 'Watch-only wallet without a DIRECT address: L3 token storage ignored');
+      this._tokenStorageProviders.clear();
+    }
+  }
+
   private async initializeProviders(): Promise<void> {
     // Set identity on providers
     this._storage.setIdentity(this._identity!);
@@ -3887,11 +4728,15 @@ export class Sphere {
     // pick up events sent while this address was inactive.
     // 24h lookback — safe because Nostr filter is pubkey-specific (#p=[pubkey]).
     // Stored timestamp takes priority if available.
-    if (this._transport.setFallbackSince) {
-      this._transport.setFallbackSince(Math.floor(Date.now() / 1000) - 86400);
-    }
+    // Watch-only wallets have no transport key: the transport is only used
+    // unauthenticated (nametag resolution), never with this identity.
+    if (!this._watchOnly) {
+      if (this._transport.setFallbackSince) {
+        this._transport.setFallbackSince(Math.floor(Date.now() / 1000) - 86400);
+      }
 
-    await this._transport.setIdentity(this._identity!);
+      await this._transport.setIdentity(this._identity!);
+    }
 
     // Set identity on all token storage providers
     for (const provider of this._tokenStorageProviders.values()) {
@@ -3938,6 +4783,11 @@ export class Sphere {
           this.emitConnectionChanged(this._transport.id, false, 'connecting');
         } else if (type === 'transport:error') {
           this.emitConnectionChanged(this._transport.id, false, 'error', event?.error);
+        } else if (type === 'transport:relay_added' && event?.data?.reason === 'failover') {
+          // Keep the mux on the same relays after a failover
+          this._transportMux?.addRelay(event.data.relay).catch(() => {});
+        } else if (type === 'transport:relay_removed' && event?.data?.reason === 'unhealthy') {
+          this._transportMux?.removeRelay(event.data.relay).catch(() => {});
         }
       });
       if (unsub) this._providerEventCleanups.push(unsub);
@@ -4010,7 +4860,10 @@ export class Sphere {
 
     // Create transport mux for address 0 so all addresses use per-address routing
     // from the start. The original transport stays connected for resolve operations.
-    const adapter = await this.ensureTransportMux(this._currentAddressIndex, this._identity!);
+    // Watch-only wallets cannot receive over the transport (no key to decrypt)
+    const adapter = this._watchOnly
+      ? null
+      : await this.ensureTransportMux(this._currentAddressIndex, this._identity!);
     const moduleTransport: TransportProvider = adapter ?? this._transport;
 
     this._payments.initialize({
@@ -4024,6 +4877,9 @@ export class Sphere {
       chainCode: this._masterKey?.chainCode || undefined,
       price: this._priceProvider ?? undefined,
       disabledProviderIds: this._disabledProviders,
+      ...(this._watchOnly ? { watchOnly: true, l1Addresses: this._watchL1Addresses } : {}),
+      ensureUnlocked: this.ensureUnlocked.bind(this),
+      l1AddressSource: this.createL1AddressSource(),
     });
 
     this._communications.initialize({
@@ -4042,12 +4898,44 @@ export class Sphere {
     this._market?.initialize({
       identity: this._identity!,
       emitEvent,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
+    });
+
+    this._scheduled.initialize({
+      identity: this._identity!,
+      storage: this._storage,
+      payments: this._payments,
+      emitEvent,
+      watchOnly: this._watchOnly,
+      isLocked: this.isLocked.bind(this),
+    });
+
+    this._invoices.initialize({
+      identity: this._identity!,
+      storage: this._storage,
+      payments: this._payments,
+      emitEvent,
+      watchOnly: this._watchOnly,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
+    });
+
+    this._recovery.initialize({
+      identity: this._identity!,
+      storage: this._storage,
+      transport: moduleTransport,
+      emitEvent,
+      getMnemonic: () => this._mnemonic,
+      watchOnly: this._watchOnly,
+      ensureUnlocked: this.ensureUnlocked.bind(this),
     });
 
     await this._payments.load();
     await this._communications.load();
     await this._groupChat?.load();
     await this._market?.load();
+    await this._scheduled.load();
+    await this._invoices.load();
+    await this._recovery.load();
 
     // Register in per-address module map
     this._addressModules.set(this._currentAddressIndex, {
@@ -4057,6 +4945,9 @@ export class Sphere {
       communications: this._communications,
       groupChat: this._groupChat,
       market: this._market,
+      scheduled: this._scheduled,
+      invoices: this._invoices,
+      recovery: this._recovery,
       transportAdapter: adapter,
       tokenStorageProviders: new Map(this._tokenStorageProviders),
       initialized: true,
@@ -4067,12 +4958,150 @@ export class Sphere {
   // Private: Helpers
   // ===========================================================================
 
+  /**
+   * Run `fn` with the token storage providers of a tracked address. Addresses
+   * not opened in this session get temporary per-address providers.
+   */
+  private async withAddressTokenStorage(
+    tracked: TrackedAddress,
+    fn: (providers: Map<string, TokenStorageProvider<TxfStorageDataBase>>) => Promise<void>,
+  ): Promise<void> {
+    const moduleSet = this._addressModules.get(tracked.index);
+    if (moduleSet) {
+      await fn(moduleSet.tokenStorageProviders);
+      return;
+    }
+
+    const identity: FullIdentity = {
+      privateKey: this._deriveAddressInternal(tracked.index, false).privateKey,
+      chainPubkey: tracked.chainPubkey,
+      l1Address: tracked.l1Address,
+      directAddress: tracked.directAddress,
+    };
+    const providers = new Map<string, TokenStorageProvider<TxfStorageDataBase>>();
+    for (const [providerId, provider] of this._tokenStorageProviders) {
+      if (!provider.createForAddress) continue;
+      const addressProvider = provider.createForAddress();
+      addressProvider.setIdentity(identity);
+      await addressProvider.initialize();
+      providers.set(providerId, addressProvider);
+    }
+    try {
+      await fn(providers);
+    } finally {
+      for (const provider of providers.values()) {
+        try { await provider.shutdown(); } catch { /* non-fatal */ }
+      }
+    }
+  }
+
+  /**
+   * Write backed-up token data into this wallet's token storage and reload
+   * the payments state of opened addresses
+   */
+  private async restoreTokenStorage(addresses: WalletBackupAddress[]): Promise<void> {
+    for (const entry of addresses) {
+      const tracked = this._trackedAddresses.get(entry.index);
+      if (!tracked || tracked.addressId !== entry.addressId) {
+        logger.warn('Sphere', `Backup: address ${entry.index} (${entry.addressId}) is not tracked, skipping its tokens`);
+        continue;
+      }
+      // Same provider if present, otherwise the local snapshot
+      const fallback = entry.tokenStorage.find((s) => s.providerType === 'local') ?? entry.tokenStorage[0];
+
+      await this.withAddressTokenStorage(tracked, async (providers) => {
+        for (const [providerId, provider] of providers) {
+          const snapshot = entry.tokenStorage.find((s) => s.providerId === providerId) ?? fallback;
+          if (!snapshot) continue;
+          if (snapshot.data) {
+            const result = await provider.save(snapshot.data);
+            if (!result.success) {
+              throw new SphereError(`Failed to restore tokens into ${providerId}: ${result.error}`, 'STORAGE_ERROR');
+            }
+          }
+          if (snapshot.history.length > 0) {
+            await provider.importHistoryEntries?.(snapshot.history);
+          }
+        }
+      });
+
+      await this._addressModules.get(entry.index)?.payments.load();
+    }
+  }
+
   private ensureReady(): void {
     if (!this._initialized) {
       throw new SphereError('Sphere not initialized', 'NOT_INITIALIZED');
     }
   }
 
+  private ensureCanSign(): void {
+    if (this._watchOnly) {
+      throw new SphereError('Watch-only wallet has no private keys', 'WATCH_ONLY');
+    }
+    this.ensureUnlocked();
+  }
+
+  /** Reject signing while locked; otherwise count the call as activity for auto-lock */
+  private ensureUnlocked(): void {
+    if (this._locked) {
+      throw new SphereError('Wallet is locked', 'WALLET_LOCKED');
+    }
+    this.scheduleAutoLock();
+  }
+
+  /** (Re)start the idle timer */
+  private scheduleAutoLock(): void {
+    if (this._autoLockTimer) {
+      clearTimeout(this._autoLockTimer);
+      this._autoLockTimer = null;
+    }
+    if (!this._autoLockMs || this._locked || !this._password) return;
+    this._autoLockTimer = setTimeout(() => {
+      this._autoLockTimer = null;
+      this.lockInternal('idle');
+    }, this._autoLockMs);
+    // Don't keep a Node.js process alive just to lock it
+    if (typeof this._autoLockTimer === 'object' && 'unref' in this._autoLockTimer) {
+      this._autoLockTimer.unref();
+    }
+  }
+
+  private lockInternal(reason: SphereEventMap['wallet:locked']['reason']): void {
+    if (this._autoLockTimer) {
+      clearTimeout(this._autoLockTimer);
+      this._autoLockTimer = null;
+    }
+    this._locked = true;
+    this._mnemonic = null;
+    this._password = null;
+
+    // Keep public derivation working (address lists, xpub) without the key
+    if (this._masterKey?.chainCode && this._derivationMode !== 'wif_hmac') {
+      this._watchKey = getExtendedPublicKey(this._masterKey, this._basePath);
+    }
+    this._masterKey = null;
+    this.emitEvent('wallet:locked', { reason });
+  }
+
+  /**
+   * Install the master key decrypted by unlock(). Returns false (and changes
+   * nothing) if the key does not belong to this wallet.
+   */
+  private restoreKeys(masterKey: MasterKey): boolean {
+    const watchKey = this._watchKey;
+    this._masterKey = masterKey;
+    this._watchKey = null;
+
+    const current = this._deriveAddressInternal(this._currentAddressIndex, false);
+    if (current.publicKey !== this._identity?.chainPubkey) {
+      this._masterKey = null;
+      this._watchKey = watchKey;
+      return false;
+    }
+    return true;
+  }
+
   private emitEvent<T extends SphereEventType>(type: T, data: SphereEventMap[T]): void {
     const handlers = this.eventHandlers.get(type);
     if (!handlers) return;
@@ -4096,25 +5125,38 @@ export class Sphere {
   }
 
   private decrypt(encrypted: string): string | null {
-    // Password provided — decrypt with it
-    if (this._password) {
-      try {
-        return decryptSimple(encrypted, this._password);
-      } catch {
-        return null;
-      }
-    }
-    // No password — check if it's already plaintext (valid BIP39 mnemonic or hex key)
-    if (validateBip39Mnemonic(encrypted) || /^[0-9a-f]{64}$/i.test(encrypted)) {
-      return encrypted;
-    }
-    // Backwards compat: try old hardcoded default key
+    return decryptWalletSecret(encrypted, this._password);
+  }
+}
+
+/**
+ * Decrypt a stored mnemonic or master key with the wallet password, or read
+ * it without one (plaintext, or encrypted with the old default key).
+ * Returns null if the result is not a mnemonic or key.
+ */
+function decryptWalletSecret(encrypted: string, password: string | null): string | null {
+  const isSecret = (value: string) => validateBip39Mnemonic(value) || /^[0-9a-f]{64}$/i.test(value);
+
+  // Password provided — decrypt with it
+  if (password) {
     try {
-      return decryptSimple(encrypted, DEFAULT_ENCRYPTION_KEY);
+      const decrypted = decryptSimple(encrypted, password);
+      return isSecret(decrypted) ? decrypted : null;
     } catch {
       return null;
     }
   }
+  // No password — check if it's already plaintext (valid BIP39 mnemonic or hex key)
+  if (isSecret(encrypted)) {
+    return encrypted;
+  }
+  // Backwards compat: try old hardcoded default key
+  try {
+    const decrypted = decryptSimple(encrypted, DEFAULT_ENCRYPTION_KEY);
+    return isSecret(decrypted) ? decrypted : null;
+  } catch {
+    return null;
+  }
 }
 
 // =============================================================================
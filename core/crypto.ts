@@ -10,6 +10,7 @@ import CryptoJS from 'crypto-js';
 import elliptic from 'elliptic';
 import { encodeBech32 } from './bech32';
 import { SphereError } from './errors';
+import { base58Decode, base58Encode } from './utils';
 
 // =============================================================================
 // Constants
@@ -50,6 +51,18 @@ export interface AddressInfo extends KeyPair {
   index: number;
 }
 
+/** Public half of a BIP32 node (as carried by an xpub) */
+export interface ExtendedPublicKey {
+  publicKey: string;
+  chainCode: string;
+  depth: number;
+  parentFingerprint: string;
+  childNumber: number;
+}
+
+/** Address derived from an extended public key (no private key available) */
+export type PublicAddressInfo = Omit<AddressInfo, 'privateKey'>;
+
 // =============================================================================
 // BIP39 Mnemonic Functions
 // =============================================================================
@@ -231,6 +244,157 @@ export function deriveKeyAtPath(
   };
 }
 
+// =============================================================================
+// BIP32 Public Derivation (watch-only)
+// =============================================================================
+
+/** Version bytes of a mainnet xpub */
+const XPUB_VERSION = '0488b21e';
+
+/**
+ * Derive a non-hardened child public key (BIP32 CKDpub)
+ * @param parentPubKey - Compressed parent public key (66 hex chars)
+ * @param parentChainCode - Parent chain code (64 hex chars)
+ * @param index - Child index (< 0x80000000)
+ */
+export function deriveChildPublicKey(
+  parentPubKey: string,
+  parentChainCode: string,
+  index: number
+): { publicKey: string; chainCode: string } {
+  if (index >= 0x80000000) {
+    throw new SphereError('Hardened derivation requires a private key', 'VALIDATION_ERROR');
+  }
+
+  const indexHex = index.toString(16).padStart(8, '0');
+  const I = CryptoJS.HmacSHA512(
+    CryptoJS.enc.Hex.parse(parentPubKey + indexHex),
+    CryptoJS.enc.Hex.parse(parentChainCode)
+  ).toString();
+
+  const IL = I.substring(0, 64);
+  const IR = I.substring(64);
+
+  if (BigInt('0x' + IL) >= CURVE_ORDER) {
+    throw new SphereError('Invalid key: IL >= curve order', 'VALIDATION_ERROR');
+  }
+
+  // Child point = IL*G + parent point
+  const parentPoint = ec.keyFromPublic(parentPubKey, 'hex').getPublic();
+  const childPoint = ec.g.mul(IL).add(parentPoint);
+  if (childPoint.isInfinity()) {
+    throw new SphereError('Invalid key: child key is the point at infinity', 'VALIDATION_ERROR');
+  }
+
+  return {
+    publicKey: childPoint.encode('hex', true),
+    chainCode: IR,
+  };
+}
+
+/**
+ * Parse a base58check extended public key (xpub/tpub/...)
+ * @throws SphereError if the checksum is wrong or the key is private
+ */
+export function parseExtendedPublicKey(xpub: string): ExtendedPublicKey {
+  const bytes = base58Decode(xpub.trim());
+  if (bytes.length !== 82) {
+    throw new SphereError('Invalid extended public key length', 'VALIDATION_ERROR');
+  }
+
+  const hex = bytesToHex(bytes);
+  const payload = hex.slice(0, 156);
+  if (doubleSha256(payload).slice(0, 8) !== hex.slice(156)) {
+    throw new SphereError('Invalid extended public key checksum', 'VALIDATION_ERROR');
+  }
+
+  const publicKey = payload.slice(90, 156);
+  if (publicKey.startsWith('00')) {
+    throw new SphereError('Expected an extended public key, got a private key', 'VALIDATION_ERROR');
+  }
+  if (!publicKey.startsWith('02') && !publicKey.startsWith('03')) {
+    throw new SphereError('Invalid extended public key', 'VALIDATION_ERROR');
+  }
+
+  return {
+    depth: parseInt(payload.slice(8, 10), 16),
+    parentFingerprint: payload.slice(10, 18),
+    childNumber: parseInt(payload.slice(18, 26), 16),
+    chainCode: payload.slice(26, 90),
+    publicKey,
+  };
+}
+
+/**
+ * Serialize an extended public key as a base58check xpub
+ */
+export function serializeExtendedPublicKey(key: ExtendedPublicKey): string {
+  const payload =
+    XPUB_VERSION +
+    key.depth.toString(16).padStart(2, '0') +
+    key.parentFingerprint +
+    key.childNumber.toString(16).padStart(8, '0') +
+    key.chainCode +
+    key.publicKey;
+  return base58Encode(payload + doubleSha256(payload).slice(0, 8));
+}
+
+/**
+ * Get the extended public key of the node at `path`
+ * @param masterKey - Master key with privateKey and chainCode
+ * @param path - BIP32 path of the account node, e.g. "m/44'/0'/0'"
+ */
+export function getExtendedPublicKey(masterKey: MasterKey, path: string): ExtendedPublicKey {
+  const parts = path.replace(/^m\/?/, '').split('/').filter(Boolean);
+  const node = parts.length > 0
+    ? deriveKeyAtPath(masterKey.privateKey, masterKey.chainCode, path)
+    : masterKey;
+
+  let parentFingerprint = '00000000';
+  let childNumber = 0;
+  if (parts.length > 0) {
+    const parentPath = parts.length > 1 ? 'm/' + parts.slice(0, -1).join('/') : null;
+    const parent = parentPath
+      ? deriveKeyAtPath(masterKey.privateKey, masterKey.chainCode, parentPath)
+      : masterKey;
+    parentFingerprint = hash160(getPublicKey(parent.privateKey)).slice(0, 8);
+
+    const last = parts[parts.length - 1];
+    childNumber = parseInt(last.replace(/['h]$/, ''), 10) + (/['h]$/.test(last) ? 0x80000000 : 0);
+  }
+
+  return {
+    publicKey: getPublicKey(node.privateKey),
+    chainCode: node.chainCode,
+    depth: parts.length,
+    parentFingerprint,
+    childNumber,
+  };
+}
+
+/**
+ * Derive address info from an account-level extended public key.
+ * Uses the same `{basePath}/{chain}/{index}` layout as deriveAddressInfo.
+ */
+export function derivePublicAddressInfo(
+  accountKey: ExtendedPublicKey,
+  basePath: string,
+  index: number,
+  isChange: boolean = false,
+  prefix: string = 'alpha'
+): PublicAddressInfo {
+  const chain = isChange ? 1 : 0;
+  const chainNode = deriveChildPublicKey(accountKey.publicKey, accountKey.chainCode, chain);
+  const { publicKey } = deriveChildPublicKey(chainNode.publicKey, chainNode.chainCode, index);
+
+  return {
+    publicKey,
+    address: publicKeyToAddress(publicKey, prefix),
+    path: `${basePath}/${chain}/${index}`,
+    index,
+  };
+}
+
 // =============================================================================
 // Key Pair Operations
 // =============================================================================
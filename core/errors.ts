@@ -40,7 +40,9 @@ export type SphereErrorCode =
   | 'TIMEOUT'
   | 'DECRYPTION_ERROR'
   | 'MODULE_NOT_AVAILABLE'
-  | 'SIGNING_ERROR';
+  | 'SIGNING_ERROR'
+  | 'WATCH_ONLY'
+  | 'WALLET_LOCKED';
 
 export class SphereError extends Error {
   readonly code: SphereErrorCode;
@@ -3,6 +3,7 @@ export * from './scan';
 export * from './discover';
 export * from './crypto';
 export * from './encryption';
+export * from './shamir';
 export * from './currency';
 export * from './bech32';
 export * from './utils';
@@ -0,0 +1,319 @@
+/**
+ * Shamir secret sharing for BIP39 mnemonics
+ *
+ * Splits the mnemonic entropy into M-of-N shares (SLIP-39 style: GF(256)
+ * polynomial sharing with a digest share, so a wrong combination is detected).
+ * Each share is written as BIP39 English words and carries:
+ * - a random 15-bit group ID shared by all shares of one split
+ * - threshold, share count and the share's index
+ * - a 22-bit checksum, so a mistyped word is caught before recovery
+ *
+ * Share layout (bits): groupId(15) threshold-1(4) count-1(4) index-1(4)
+ * lengthCode(3) value(8 * entropy length) zero padding, then two checksum words.
+ */
+
+import * as bip39 from 'bip39';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { SphereError } from './errors';
+import { entropyToMnemonic, mnemonicToEntropy, randomBytes, validateMnemonic, bytesToHex, hexToBytes } from './crypto';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Metadata carried by every share */
+export interface MnemonicShareInfo {
+  /** Random identifier shared by all shares of one split */
+  groupId: number;
+  /** Shares required to recover the mnemonic */
+  threshold: number;
+  /** Total shares created */
+  count: number;
+  /** 1-based index of this share */
+  index: number;
+}
+
+export interface SplitMnemonicOptions {
+  /** Shares required to recover (1-16) */
+  threshold: number;
+  /** Shares to create (threshold-16) */
+  shares: number;
+}
+
+interface ParsedShare extends MnemonicShareInfo {
+  value: Uint8Array;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_SHARES = 16;
+const WORD_BITS = 11;
+const CHECKSUM_WORDS = 2;
+const HEADER_BITS = 30;
+const CHECKSUM_CUSTOMIZATION = 'sphere-shamir-v1';
+
+/** x-coordinates of the secret and its digest (share indexes stay below 16) */
+const SECRET_X = 255;
+const DIGEST_X = 254;
+const DIGEST_LENGTH = 4;
+
+const WORDLIST = bip39.wordlists.english;
+const WORD_INDEX = new Map(WORDLIST.map((word, i) => [word, i]));
+
+// =============================================================================
+// GF(256) arithmetic (Rijndael polynomial x^8 + x^4 + x^3 + x + 1)
+// =============================================================================
+
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  // Multiply by the generator 3
+  x ^= ((x << 1) ^ (x & 0x80 ? 0x11b : 0)) & 0xff;
+}
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[(LOG[a] + LOG[b]) % 255];
+}
+
+function gfDiv(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[(LOG[a] - LOG[b] + 255) % 255];
+}
+
+/** Evaluate at `x` the polynomial through the given points (Lagrange) */
+function interpolate(points: { x: number; y: Uint8Array }[], x: number): Uint8Array {
+  const known = points.find((p) => p.x === x);
+  if (known) return known.y;
+
+  const result = new Uint8Array(points[0].y.length);
+  for (const pi of points) {
+    let basis = 1;
+    for (const pj of points) {
+      if (pj.x !== pi.x) basis = gfMul(basis, gfDiv(x ^ pj.x, pi.x ^ pj.x));
+    }
+    for (let k = 0; k < result.length; k++) {
+      result[k] ^= gfMul(pi.y[k], basis);
+    }
+  }
+  return result;
+}
+
+function digest(key: Uint8Array, secret: Uint8Array): Uint8Array {
+  return hmac(sha256, key, secret).slice(0, DIGEST_LENGTH);
+}
+
+function randomValue(length: number): Uint8Array {
+  return hexToBytes(randomBytes(length));
+}
+
+// =============================================================================
+// Sharing
+// =============================================================================
+
+function splitSecret(secret: Uint8Array, threshold: number, count: number): Uint8Array[] {
+  if (threshold === 1) {
+    return Array.from({ length: count }, () => secret);
+  }
+
+  const salt = randomValue(secret.length - DIGEST_LENGTH);
+  const digestShare = new Uint8Array(secret.length);
+  digestShare.set(digest(salt, secret));
+  digestShare.set(salt, DIGEST_LENGTH);
+
+  const base = [
+    ...Array.from({ length: threshold - 2 }, (_, x) => ({ x, y: randomValue(secret.length) })),
+    { x: DIGEST_X, y: digestShare },
+    { x: SECRET_X, y: secret },
+  ];
+  return Array.from({ length: count }, (_, x) => interpolate(base, x));
+}
+
+function recoverSecret(shares: ParsedShare[]): Uint8Array {
+  const points = shares.map((s) => ({ x: s.index - 1, y: s.value }));
+  if (shares[0].threshold === 1) return points[0].y;
+
+  const secret = interpolate(points, SECRET_X);
+  const digestShare = interpolate(points, DIGEST_X);
+  const expected = digest(digestShare.slice(DIGEST_LENGTH), secret);
+  if (bytesToHex(expected) !== bytesToHex(digestShare.slice(0, DIGEST_LENGTH))) {
+    throw new SphereError('Shares do not combine to a valid mnemonic (corrupted share?)', 'VALIDATION_ERROR');
+  }
+  return secret;
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function pushBits(bits: number[], value: number, width: number): void {
+  for (let i = width - 1; i >= 0; i--) bits.push((value >> i) & 1);
+}
+
+function readBits(bits: number[], offset: number, width: number): number {
+  let value = 0;
+  for (let i = 0; i < width; i++) value = (value << 1) | bits[offset + i];
+  return value;
+}
+
+function dataWordCount(valueLength: number): number {
+  return Math.ceil((HEADER_BITS + valueLength * 8) / WORD_BITS);
+}
+
+function checksumWords(dataWords: number[]): number[] {
+  const bytes = new Uint8Array(dataWords.length * 2);
+  dataWords.forEach((w, i) => {
+    bytes[i * 2] = w >> 8;
+    bytes[i * 2 + 1] = w & 0xff;
+  });
+  const hash = sha256(new Uint8Array([...new TextEncoder().encode(CHECKSUM_CUSTOMIZATION), ...bytes]));
+  const bits: number[] = [];
+  for (const byte of hash.slice(0, 3)) pushBits(bits, byte, 8);
+  return [readBits(bits, 0, WORD_BITS), readBits(bits, WORD_BITS, WORD_BITS)];
+}
+
+function encodeShare(share: ParsedShare): string {
+  const bits: number[] = [];
+  pushBits(bits, share.groupId, 15);
+  pushBits(bits, share.threshold - 1, 4);
+  pushBits(bits, share.count - 1, 4);
+  pushBits(bits, share.index - 1, 4);
+  pushBits(bits, (share.value.length - 16) / 4, 3);
+  for (const byte of share.value) pushBits(bits, byte, 8);
+
+  const words: number[] = [];
+  for (let i = 0; i < dataWordCount(share.value.length); i++) {
+    const chunk = bits.slice(i * WORD_BITS, (i + 1) * WORD_BITS);
+    while (chunk.length < WORD_BITS) chunk.push(0);
+    words.push(readBits(chunk, 0, WORD_BITS));
+  }
+  return [...words, ...checksumWords(words)].map((w) => WORDLIST[w]).join(' ');
+}
+
+function decodeShare(share: string): ParsedShare {
+  const words = share.trim().toLowerCase().split(/\s+/).filter(Boolean).map((word) => {
+    const index = WORD_INDEX.get(word);
+    if (index === undefined) {
+      throw new SphereError(`Unknown word "${word}"`, 'VALIDATION_ERROR');
+    }
+    return index;
+  });
+  if (words.length < dataWordCount(16) + CHECKSUM_WORDS) {
+    throw new SphereError('Share is too short', 'VALIDATION_ERROR');
+  }
+
+  const data = words.slice(0, -CHECKSUM_WORDS);
+  const checksum = checksumWords(data);
+  if (checksum[0] !== words[data.length] || checksum[1] !== words[data.length + 1]) {
+    throw new SphereError('Share checksum mismatch (mistyped or missing word?)', 'VALIDATION_ERROR');
+  }
+
+  const bits: number[] = [];
+  for (const word of data) pushBits(bits, word, WORD_BITS);
+  const lengthCode = readBits(bits, 27, 3);
+  const valueLength = 16 + lengthCode * 4;
+  if (lengthCode > 4 || data.length !== dataWordCount(valueLength)) {
+    throw new SphereError('Share has an invalid length', 'VALIDATION_ERROR');
+  }
+  if (bits.slice(HEADER_BITS + valueLength * 8).some((b) => b !== 0)) {
+    throw new SphereError('Share has invalid padding', 'VALIDATION_ERROR');
+  }
+
+  const value = new Uint8Array(valueLength);
+  for (let i = 0; i < valueLength; i++) value[i] = readBits(bits, HEADER_BITS + i * 8, 8);
+
+  const parsed: ParsedShare = {
+    groupId: readBits(bits, 0, 15),
+    threshold: readBits(bits, 15, 4) + 1,
+    count: readBits(bits, 19, 4) + 1,
+    index: readBits(bits, 23, 4) + 1,
+    value,
+  };
+  if (parsed.threshold > parsed.count || parsed.index > parsed.count) {
+    throw new SphereError('Share header is invalid', 'VALIDATION_ERROR');
+  }
+  return parsed;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Split a BIP39 mnemonic into `shares` shares, any `threshold` of which recover it
+ *
+ * @example
+ * ```ts
+ * const shares = splitMnemonic(mnemonic, { threshold: 2, shares: 3 });
+ * const recovered = combineMnemonicShares([shares[0], shares[2]]);
+ * ```
+ */
+export function splitMnemonic(mnemonic: string, options: SplitMnemonicOptions): string[] {
+  const { threshold, shares: count } = options;
+  if (!validateMnemonic(mnemonic)) {
+    throw new SphereError('Invalid mnemonic', 'INVALID_IDENTITY');
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SHARES) {
+    throw new SphereError(`Share count must be between 1 and ${MAX_SHARES}`, 'VALIDATION_ERROR');
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > count) {
+    throw new SphereError('Threshold must be between 1 and the share count', 'VALIDATION_ERROR');
+  }
+
+  const secret = hexToBytes(mnemonicToEntropy(mnemonic));
+  const groupId = parseInt(randomBytes(2), 16) & 0x7fff;
+  return splitSecret(secret, threshold, count).map((value, i) =>
+    encodeShare({ groupId, threshold, count, index: i + 1, value }),
+  );
+}
+
+/**
+ * Read and verify a share's metadata without recovering anything.
+ * Throws VALIDATION_ERROR on unknown words, a checksum mismatch or a malformed share.
+ */
+export function parseMnemonicShare(share: string): MnemonicShareInfo {
+  const { groupId, threshold, count, index } = decodeShare(share);
+  return { groupId, threshold, count, index };
+}
+
+/**
+ * Recover the mnemonic from at least `threshold` shares of one split.
+ * All shares are verified first; errors name the offending share (1-based
+ * position in `shares`). Throws VALIDATION_ERROR.
+ */
+export function combineMnemonicShares(shares: string[]): string {
+  if (shares.length === 0) {
+    throw new SphereError('No shares provided', 'VALIDATION_ERROR');
+  }
+
+  const parsed = shares.map((share, i) => {
+    try {
+      return decodeShare(share);
+    } catch (err) {
+      throw new SphereError(`Share ${i + 1}: ${err instanceof Error ? err.message : err}`, 'VALIDATION_ERROR');
+    }
+  });
+
+  const [first] = parsed;
+  const seen = new Set<number>();
+  parsed.forEach((share, i) => {
+    if (share.groupId !== first.groupId) {
+      throw new SphereError(`Share ${i + 1} belongs to a different group (${share.groupId} vs ${first.groupId})`, 'VALIDATION_ERROR');
+    }
+    if (share.threshold !== first.threshold || share.count !== first.count || share.value.length !== first.value.length) {
+      throw new SphereError(`Share ${i + 1} does not match the other shares of group ${first.groupId}`, 'VALIDATION_ERROR');
+    }
+    if (seen.has(share.index)) {
+      throw new SphereError(`Share #${share.index} was given more than once`, 'VALIDATION_ERROR');
+    }
+    seen.add(share.index);
+  });
+  if (parsed.length < first.threshold) {
+    throw new SphereError(`${first.threshold} of ${first.count} shares are required, got ${parsed.length}`, 'VALIDATION_ERROR');
+  }
+
+  return entropyToMnemonic(bytesToHex(recoverSecret(parsed.slice(0, first.threshold))));
+}
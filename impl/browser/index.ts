@@ -14,6 +14,8 @@ export * from './storage';
 export * from './transport';
 export * from './oracle';
 export * from './download';
+export * from '../shared/blob';
+export * from '../shared/relay';
 
 // Re-export shared types for convenience
 export type {
@@ -31,6 +33,7 @@ import { logger as sdkLogger } from '../../core/logger';
 import { createIndexedDBStorageProvider, type IndexedDBStorageProviderConfig, createIndexedDBTokenStorageProvider } from './storage';
 import { createNostrTransportProvider } from './transport';
 import { createUnicityAggregatorProvider } from './oracle';
+import { createBlobTokenStorageProvider, type BlobStorageConfig } from '../shared/blob';
 import { createBrowserIpfsStorageProvider } from './ipfs';
 import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase } from '../../storage';
 import type { TransportProvider } from '../../transport';
@@ -144,12 +147,24 @@ export interface MongoDbSyncConfig {
   password?: string;
 }
 
+/**
+ * Blob (S3-compatible / HTTP) sync backend configuration
+ */
+export interface BlobSyncConfig {
+  /** Enable blob sync (default: false) */
+  enabled?: boolean;
+  /** Blob storage provider configuration */
+  config: BlobStorageConfig;
+}
+
 /**
  * Token sync configuration - supports multiple backends
  */
 export interface TokenSyncConfig {
   /** IPFS sync backend */
   ipfs?: IpfsSyncConfig;
+  /** S3-compatible / HTTP blob sync backend */
+  blob?: BlobSyncConfig;
   /** File sync backend (future) */
   file?: FileSyncConfig;
   /** Cloud sync backend (future) */
@@ -201,6 +216,8 @@ export interface BrowserProviders {
   price?: PriceProvider;
   /** IPFS token storage provider (when tokenSync.ipfs.enabled is true) */
   ipfsTokenStorage?: TokenStorageProvider<TxfStorageDataBase>;
+  /** Blob token storage provider (when tokenSync.blob.enabled is true) */
+  blobTokenStorage?: TokenStorageProvider<TxfStorageDataBase>;
   /** Group chat config (resolved, for passing to Sphere.init) */
   groupChat?: GroupChatModuleConfig | boolean;
   /** Market module config (resolved, for passing to Sphere.init) */
@@ -391,6 +408,12 @@ export function createBrowserProviders(config?: BrowserProvidersConfig): Browser
       })
     : undefined;
 
+  // Create blob storage provider if enabled
+  const blobSync = config?.tokenSync?.blob;
+  const blobTokenStorage = blobSync?.enabled
+    ? createBlobTokenStorageProvider(blobSync.config)
+    : undefined;
+
   // Resolve group chat config
   const groupChat = resolveGroupChatConfig(network, config?.groupChat);
 
@@ -409,6 +432,9 @@ export function createBrowserProviders(config?: BrowserProvidersConfig): Browser
       relays: transportConfig.relays,
       timeout: transportConfig.timeout,
       autoReconnect: transportConfig.autoReconnect,
+      paymentDelivery: transportConfig.paymentDelivery,
+      relayHealth: transportConfig.relayHealth,
+      outbox: transportConfig.outbox,
       reconnectDelay: transportConfig.reconnectDelay,
       maxReconnectAttempts: transportConfig.maxReconnectAttempts,
       debug: transportConfig.debug,
@@ -426,6 +452,7 @@ export function createBrowserProviders(config?: BrowserProvidersConfig): Browser
     l1: l1Config,
     price: priceConfig ? createPriceProvider(priceConfig) : undefined,
     ipfsTokenStorage,
+    blobTokenStorage,
     tokenSyncConfig,
   };
 }
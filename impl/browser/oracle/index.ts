@@ -19,6 +19,18 @@ export {
   type UnicityOracleProviderConfig,
 } from '../../../oracle/UnicityAggregatorProvider';
 
+export {
+  LocalAggregatorProvider,
+  type LocalAggregatorProviderConfig,
+  type LocalMintTokenParams,
+  createLocalAggregatorProvider,
+} from '../../../oracle/LocalAggregatorProvider';
+export {
+  LocalAggregatorClient,
+  type LocalAggregatorConfig,
+  type LocalAggregatorOperation,
+} from '../../../oracle/LocalAggregatorClient';
+
 export type { TrustBaseLoader } from '../../../oracle/oracle-provider';
 
 // =============================================================================
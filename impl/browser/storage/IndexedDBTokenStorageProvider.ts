@@ -5,7 +5,7 @@
  */
 
 import { logger } from '../../../core/logger';
-import type { TokenStorageProvider, TxfStorageDataBase, SyncResult, SaveResult, LoadResult, HistoryRecord } from '../../../storage';
+import type { TokenStorageProvider, TxfStorageDataBase, SyncResult, SaveResult, LoadResult, HistoryRecord, TokenStorageChanges } from '../../../storage';
 import type { FullIdentity, ProviderStatus } from '../../../types';
 import { getAddressId } from '../../../constants';
 
@@ -29,6 +29,14 @@ export interface IndexedDBTokenStorageConfig {
   debug?: boolean;
 }
 
+/** Tokens store id of a TXF key; null for keys that are not token entries */
+function storeIdForKey(key: string): string | null {
+  if (['_meta', '_tombstones', '_outbox', '_sent', '_invalid'].includes(key)) return null;
+  if (key.startsWith('_')) return key.slice(1);
+  if (key.startsWith('archived-')) return key;
+  return null;
+}
+
 // =============================================================================
 // Implementation
 // =============================================================================
@@ -272,6 +280,67 @@ export class IndexedDBTokenStorageProvider implements TokenStorageProvider<TxfSt
     }
   }
 
+  /**
+   * Write only the changed entries, in one readwrite transaction over the
+   * tokens and meta stores.
+   */
+  async applyChanges(changes: TokenStorageChanges): Promise<SaveResult> {
+    if (!this.db) {
+      logger.warn('IndexedDBToken', `applyChanges: db not initialized (db=${this.dbName})`);
+      return {
+        success: false,
+        error: 'Database not initialized',
+        timestamp: Date.now(),
+      };
+    }
+
+    const upserted = Object.entries(changes.upserted ?? {});
+    const removed = [
+      ...(changes.removed ?? []),
+      ...(changes.tombstones ?? []).map((t) => `_${t.tokenId}`),
+    ];
+    logger.debug('IndexedDBToken', `applyChanges: db=${this.dbName}, upserted=${upserted.length}, removed=${removed.length}`);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = this.db!.transaction([STORE_TOKENS, STORE_META], 'readwrite');
+        const tokens = transaction.objectStore(STORE_TOKENS);
+        const meta = transaction.objectStore(STORE_META);
+
+        // Same ids as save(): _tokenId -> tokenId, archived-tokenId kept as-is
+        for (const [key, value] of upserted) {
+          const id = storeIdForKey(key);
+          if (id) tokens.put({ id, data: value });
+        }
+        for (const key of removed) {
+          const id = storeIdForKey(key);
+          if (id) tokens.delete(id);
+        }
+        if (changes.tombstones) {
+          meta.put(changes.tombstones, 'tombstones');
+        }
+        if (changes.outbox) {
+          meta.put(changes.outbox, 'outbox');
+        }
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+      });
+
+      return {
+        success: true,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
   async sync(localData: TxfStorageDataBase): Promise<SyncResult<TxfStorageDataBase>> {
     // For local IndexedDB storage, just save and return
     const saveResult = await this.save(localData);
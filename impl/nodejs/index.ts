@@ -12,6 +12,12 @@ export * from './transport';
 // Oracle
 export * from './oracle';
 
+// Blob token sync
+export * from '../shared/blob';
+
+// In-process relay for offline integration tests
+export * from '../shared/relay';
+
 // Re-export shared types for convenience
 export type {
   BaseTransportConfig,
@@ -25,10 +31,16 @@ export type {
 // =============================================================================
 
 import { logger as sdkLogger } from '../../core/logger';
-import { createFileStorageProvider, createFileTokenStorageProvider } from './storage';
+import {
+  createFileStorageProvider,
+  createFileTokenStorageProvider,
+  createSqliteStorageProvider,
+  createSqliteTokenStorageProvider,
+} from './storage';
 import { createNostrTransportProvider } from './transport';
 import { createUnicityAggregatorProvider } from './oracle';
 import { createNodeIpfsStorageProvider } from './ipfs';
+import { createBlobTokenStorageProvider, type BlobStorageConfig } from '../shared/blob';
 import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase } from '../../storage';
 import type { TransportProvider } from '../../transport';
 import type { OracleProvider } from '../../oracle';
@@ -89,10 +101,20 @@ export interface NodeIpfsSyncConfig {
   config?: IpfsStorageConfig;
 }
 
+/** Node.js blob (S3-compatible / HTTP) sync configuration */
+export interface NodeBlobSyncConfig {
+  /** Enable blob sync (default: false) */
+  enabled?: boolean;
+  /** Blob storage provider configuration */
+  config: BlobStorageConfig;
+}
+
 /** Node.js token sync configuration */
 export interface NodeTokenSyncConfig {
   /** IPFS sync backend */
   ipfs?: NodeIpfsSyncConfig;
+  /** S3-compatible / HTTP blob sync backend */
+  blob?: NodeBlobSyncConfig;
 }
 
 export interface NodeProvidersConfig {
@@ -106,6 +128,11 @@ export interface NodeProvidersConfig {
   walletFileName?: string;
   /** Directory for token files */
   tokensDir?: string;
+  /**
+   * SQLite database file for wallet and token storage (requires better-sqlite3).
+   * When set, replaces the JSON files in dataDir/tokensDir — see migrateFileStorageToSqlite().
+   */
+  sqlitePath?: string;
   /** Transport (Nostr) configuration */
   transport?: NodeTransportConfig;
   /** Oracle (Aggregator) configuration */
@@ -133,6 +160,8 @@ export interface NodeProviders {
   price?: PriceProvider;
   /** IPFS token storage provider (when tokenSync.ipfs.enabled is true) */
   ipfsTokenStorage?: TokenStorageProvider<TxfStorageDataBase>;
+  /** Blob token storage provider (when tokenSync.blob.enabled is true) */
+  blobTokenStorage?: TokenStorageProvider<TxfStorageDataBase>;
   /** Group chat config (resolved, for passing to Sphere.init) */
   groupChat?: GroupChatModuleConfig | boolean;
   /** Market module config (resolved, for passing to Sphere.init) */
@@ -194,10 +223,12 @@ export function createNodeProviders(config?: NodeProvidersConfig): NodeProviders
   const oracleConfig = resolveOracleConfig(network, config?.oracle);
   const l1Config = resolveL1Config(network, config?.l1);
 
-  const storage = createFileStorageProvider({
-    dataDir: config?.dataDir ?? './sphere-data',
-    ...(config?.walletFileName ? { fileName: config.walletFileName } : {}),
-  });
+  const storage = config?.sqlitePath
+    ? createSqliteStorageProvider({ dbPath: config.sqlitePath })
+    : createFileStorageProvider({
+      dataDir: config?.dataDir ?? './sphere-data',
+      ...(config?.walletFileName ? { fileName: config.walletFileName } : {}),
+    });
   const priceConfig = resolvePriceConfig(config?.price, storage);
 
   // Create IPFS storage provider if enabled
@@ -206,6 +237,12 @@ export function createNodeProviders(config?: NodeProvidersConfig): NodeProviders
     ? createNodeIpfsStorageProvider(ipfsSync.config, storage)
     : undefined;
 
+  // Create blob storage provider if enabled
+  const blobSync = config?.tokenSync?.blob;
+  const blobTokenStorage = blobSync?.enabled
+    ? createBlobTokenStorageProvider(blobSync.config)
+    : undefined;
+
   // Resolve group chat config
   const groupChat = resolveGroupChatConfig(network, config?.groupChat);
 
@@ -220,13 +257,18 @@ export function createNodeProviders(config?: NodeProvidersConfig): NodeProviders
     storage,
     groupChat,
     market,
-    tokenStorage: createFileTokenStorageProvider({
-      tokensDir: config?.tokensDir ?? './sphere-tokens',
-    }),
+    tokenStorage: config?.sqlitePath
+      ? createSqliteTokenStorageProvider({ dbPath: config.sqlitePath })
+      : createFileTokenStorageProvider({
+        tokensDir: config?.tokensDir ?? './sphere-tokens',
+      }),
     transport: createNostrTransportProvider({
       relays: transportConfig.relays,
       timeout: transportConfig.timeout,
       autoReconnect: transportConfig.autoReconnect,
+      paymentDelivery: transportConfig.paymentDelivery,
+      relayHealth: transportConfig.relayHealth,
+      outbox: transportConfig.outbox,
       debug: transportConfig.debug,
       storage,
     }),
@@ -242,5 +284,6 @@ export function createNodeProviders(config?: NodeProvidersConfig): NodeProviders
     l1: l1Config,
     price: priceConfig ? createPriceProvider(priceConfig) : undefined,
     ipfsTokenStorage,
+    blobTokenStorage,
   };
 }
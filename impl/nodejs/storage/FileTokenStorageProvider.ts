@@ -5,13 +5,14 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { TokenStorageProvider, TxfStorageDataBase, SyncResult, SaveResult, LoadResult, HistoryRecord } from '../../../storage';
+import type { TokenStorageProvider, TxfStorageDataBase, SyncResult, SaveResult, LoadResult, HistoryRecord, TokenStorageChanges } from '../../../storage';
 import type { FullIdentity, ProviderStatus } from '../../../types';
 import { getAddressId } from '../../../constants';
 
 const META_FILE = '_meta.json';
 const TOMBSTONES_FILE = '_tombstones.json';
 const HISTORY_FILE = '_history.json';
+const OUTBOX_FILE = '_outbox.json';
 
 export interface FileTokenStorageConfig {
   /** Directory to store token files */
@@ -92,6 +93,7 @@ export class FileTokenStorageProvider implements TokenStorageProvider<TxfStorage
         f !== META_FILE &&
         f !== TOMBSTONES_FILE &&
         f !== HISTORY_FILE &&
+        f !== OUTBOX_FILE &&
         !f.startsWith('archived_') &&  // Skip archived tokens
         !f.startsWith('token-') &&     // Skip legacy token format
         !f.startsWith('nametag-')      // Skip nametag files (not tokens)
@@ -132,6 +134,16 @@ export class FileTokenStorageProvider implements TokenStorageProvider<TxfStorage
         }
       }
 
+      // Load outbox (written by applyChanges)
+      const outboxPath = path.join(this.tokensDir, OUTBOX_FILE);
+      if (fs.existsSync(outboxPath)) {
+        try {
+          data._outbox = JSON.parse(fs.readFileSync(outboxPath, 'utf-8'));
+        } catch {
+          // Skip invalid outbox file
+        }
+      }
+
       return {
         success: true,
         data,
@@ -206,6 +218,64 @@ export class FileTokenStorageProvider implements TokenStorageProvider<TxfStorage
     }
   }
 
+  /**
+   * Write only the changed token files. Each file is replaced atomically
+   * (write to a temp file, then rename).
+   */
+  async applyChanges(changes: TokenStorageChanges): Promise<SaveResult> {
+    try {
+      for (const [key, value] of Object.entries(changes.upserted ?? {})) {
+        const file = this.fileForKey(key);
+        if (file) this.writeFileAtomic(file, value);
+      }
+
+      const removed = [
+        ...(changes.removed ?? []),
+        ...(changes.tombstones ?? []).map((t) => `_${t.tokenId}`),
+      ];
+      for (const key of removed) {
+        const file = this.fileForKey(key);
+        if (file && fs.existsSync(file)) {
+          fs.unlinkSync(file);
+        }
+      }
+
+      if (changes.tombstones) {
+        this.writeFileAtomic(path.join(this.tokensDir, TOMBSTONES_FILE), changes.tombstones);
+      }
+      if (changes.outbox) {
+        this.writeFileAtomic(path.join(this.tokensDir, OUTBOX_FILE), changes.outbox);
+      }
+
+      return {
+        success: true,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /** File of a TXF key, same naming as save(); null for keys that are not token entries */
+  private fileForKey(key: string): string | null {
+    if (key === '_meta' || key === '_tombstones' || key === '_outbox' || key === '_sent' || key === '_invalid') {
+      return null;
+    }
+    if (key.startsWith('_')) return path.join(this.tokensDir, `${key.slice(1)}.json`);
+    if (key.startsWith('archived-')) return path.join(this.tokensDir, `${key}.json`);
+    return null;
+  }
+
+  private writeFileAtomic(filePath: string, value: unknown): void {
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(value, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  }
+
   async sync(localData: TxfStorageDataBase): Promise<SyncResult<TxfStorageDataBase>> {
     // For file storage, just save and return
     const saveResult = await this.save(localData);
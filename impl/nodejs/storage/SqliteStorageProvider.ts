@@ -0,0 +1,152 @@
+/**
+ * SQLite Storage Provider for Node.js
+ * Stores wallet key-value data in a SQLite database (requires better-sqlite3)
+ */
+
+import type { StorageProvider } from '../../../storage';
+import type { FullIdentity, ProviderStatus, TrackedAddressEntry } from '../../../types';
+import { STORAGE_KEYS_ADDRESS, STORAGE_KEYS_GLOBAL, getAddressId } from '../../../constants';
+import { SphereError } from '../../../core/errors';
+import { openSqliteDatabase, type SqliteDatabase } from './sqlite';
+
+export interface SqliteStorageProviderConfig {
+  /** Path to the SQLite database file (may be shared with SqliteTokenStorageProvider) */
+  dbPath: string;
+}
+
+export class SqliteStorageProvider implements StorageProvider {
+  readonly id = 'sqlite-storage';
+  readonly name = 'SQLite Storage';
+  readonly type = 'local' as const;
+
+  private dbPath: string;
+  private db: SqliteDatabase | null = null;
+  private status: ProviderStatus = 'disconnected';
+  private _identity: FullIdentity | null = null;
+
+  constructor(config: SqliteStorageProviderConfig | string) {
+    this.dbPath = typeof config === 'string' ? config : config.dbPath;
+  }
+
+  setIdentity(identity: FullIdentity): void {
+    this._identity = identity;
+  }
+
+  getIdentity(): FullIdentity | null {
+    return this._identity;
+  }
+
+  async connect(): Promise<void> {
+    // Already connected - skip reconnection
+    if (this.status === 'connected') {
+      return;
+    }
+
+    this.status = 'connecting';
+    try {
+      this.db = await openSqliteDatabase(this.dbPath);
+      this.status = 'connected';
+    } catch (error) {
+      this.status = 'error';
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    this.status = 'disconnected';
+  }
+
+  isConnected(): boolean {
+    return this.status === 'connected';
+  }
+
+  getStatus(): ProviderStatus {
+    return this.status;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const row = this.ensureConnected()
+      .prepare('SELECT value FROM kv WHERE key = ?')
+      .get(this.getFullKey(key)) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.ensureConnected()
+      .prepare('INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+      .run(this.getFullKey(key), value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.ensureConnected().prepare('DELETE FROM kv WHERE key = ?').run(this.getFullKey(key));
+  }
+
+  async has(key: string): Promise<boolean> {
+    const row = this.ensureConnected()
+      .prepare('SELECT 1 FROM kv WHERE key = ?')
+      .get(this.getFullKey(key));
+    return row !== undefined;
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    const db = this.ensureConnected();
+    const rows = (prefix
+      ? db.prepare("SELECT key FROM kv WHERE substr(key, 1, length(?)) = ? ORDER BY key").all(prefix, prefix)
+      : db.prepare('SELECT key FROM kv ORDER BY key').all()) as { key: string }[];
+    return rows.map((row) => row.key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    const db = this.ensureConnected();
+    if (prefix) {
+      db.prepare('DELETE FROM kv WHERE substr(key, 1, length(?)) = ?').run(prefix, prefix);
+    } else {
+      db.prepare('DELETE FROM kv').run();
+    }
+  }
+
+  async saveTrackedAddresses(entries: TrackedAddressEntry[]): Promise<void> {
+    await this.set(STORAGE_KEYS_GLOBAL.TRACKED_ADDRESSES, JSON.stringify({ version: 1, addresses: entries }));
+  }
+
+  async loadTrackedAddresses(): Promise<TrackedAddressEntry[]> {
+    const data = await this.get(STORAGE_KEYS_GLOBAL.TRACKED_ADDRESSES);
+    if (!data) return [];
+    try {
+      const parsed = JSON.parse(data);
+      return parsed.addresses ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get full storage key with address prefix for per-address keys.
+   * Same layout as FileStorageProvider, so migrated data keeps its keys.
+   */
+  private getFullKey(key: string): string {
+    const isPerAddressKey = Object.values(STORAGE_KEYS_ADDRESS).includes(
+      key as (typeof STORAGE_KEYS_ADDRESS)[keyof typeof STORAGE_KEYS_ADDRESS]
+    );
+
+    if (isPerAddressKey && this._identity?.directAddress) {
+      const addressId = getAddressId(this._identity.directAddress);
+      return `${addressId}_${key}`;
+    }
+
+    return key;
+  }
+
+  private ensureConnected(): SqliteDatabase {
+    if (!this.db) {
+      throw new SphereError('SqliteStorageProvider not connected', 'STORAGE_ERROR');
+    }
+    return this.db;
+  }
+}
+
+export function createSqliteStorageProvider(config: SqliteStorageProviderConfig | string): SqliteStorageProvider {
+  return new SqliteStorageProvider(config);
+}
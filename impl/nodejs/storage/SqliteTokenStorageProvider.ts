@@ -0,0 +1,461 @@
+/**
+ * SQLite Token Storage Provider for Node.js
+ * Stores tokens, TXF metadata and history in a SQLite database (requires better-sqlite3).
+ * Each save is one transaction; tokens are indexed by tokenId and coinId per address.
+ * With a storage keyring set, only the payload columns are encrypted, so the
+ * indexes keep working.
+ */
+
+import { StorageKeyring } from '../../../storage';
+import type { TokenStorageProvider, TxfStorageDataBase, SyncResult, SaveResult, LoadResult, HistoryRecord, TokenStorageChanges } from '../../../storage';
+import { SphereError } from '../../../core/errors';
+import type { FullIdentity, ProviderStatus } from '../../../types';
+import type { TxfToken } from '../../../types/txf';
+import { getAddressId } from '../../../constants';
+import { extractCoinId, openSqliteDatabase, type SqliteDatabase, type SqliteStatement } from './sqlite';
+
+/** TXF keys stored in token_meta rather than as tokens */
+const META_KEYS = ['_meta', '_tombstones', '_outbox', '_sent', '_invalid'] as const;
+
+/** Tables with an encrypted `data` column, by their per-address key column */
+const PAYLOAD_TABLES = [['tokens', 'token_key'], ['token_meta', 'name'], ['history', 'dedup_key']] as const;
+type PayloadTable = typeof PAYLOAD_TABLES[number][0];
+
+export interface SqliteTokenStorageConfig {
+  /** Path to the SQLite database file (may be shared with SqliteStorageProvider) */
+  dbPath: string;
+}
+
+interface TokenRow {
+  token_key: string;
+  data: string;
+}
+
+export class SqliteTokenStorageProvider implements TokenStorageProvider<TxfStorageDataBase> {
+  readonly id = 'sqlite-token-storage';
+  readonly name = 'SQLite Token Storage';
+  readonly type = 'local' as const;
+
+  private dbPath: string;
+  private db: SqliteDatabase | null = null;
+  /** Prepared statements by SQL, per connection */
+  private statements = new Map<string, SqliteStatement>();
+  private status: ProviderStatus = 'disconnected';
+  private identity: FullIdentity | null = null;
+  private keyring: StorageKeyring | null = null;
+
+  constructor(config: SqliteTokenStorageConfig | string) {
+    this.dbPath = typeof config === 'string' ? config : config.dbPath;
+  }
+
+  setIdentity(identity: FullIdentity): void {
+    this.identity = identity;
+  }
+
+  setKeyring(keyring: StorageKeyring): void {
+    this.keyring = keyring;
+  }
+
+  /**
+   * Rows are scoped by address ID (same format as FileTokenStorageProvider
+   * subdirectories); '' when no identity is set.
+   */
+  private get addressId(): string {
+    return this.identity?.directAddress ? getAddressId(this.identity.directAddress) : '';
+  }
+
+  /**
+   * Open the database. With a keyring set, this address's payloads are then
+   * brought to the current key (see reencrypt()).
+   */
+  async initialize(): Promise<boolean> {
+    if (this.db) return true;
+    try {
+      this.db = await openSqliteDatabase(this.dbPath);
+      this.status = 'connected';
+    } catch {
+      this.status = 'error';
+      return false;
+    }
+    if (this.keyring) {
+      await this.reencrypt();
+    }
+    return true;
+  }
+
+  async shutdown(): Promise<void> {
+    this.statements.clear();
+    this.db?.close();
+    this.db = null;
+    this.status = 'disconnected';
+  }
+
+  async connect(): Promise<void> {
+    await this.initialize();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.shutdown();
+  }
+
+  isConnected(): boolean {
+    return this.status === 'connected' && this.db !== null;
+  }
+
+  getStatus(): ProviderStatus {
+    return this.status;
+  }
+
+  async load(): Promise<LoadResult<TxfStorageDataBase>> {
+    if (!this.db) {
+      return {
+        success: false,
+        error: 'Database not initialized',
+        source: 'local',
+        timestamp: Date.now(),
+      };
+    }
+
+    try {
+      const data: TxfStorageDataBase = {
+        _meta: {
+          version: 1,
+          address: this.identity?.l1Address ?? '',
+          formatVersion: '2.0',
+          updatedAt: Date.now(),
+        },
+      };
+
+      const metaRows = this.db
+        .prepare('SELECT name, data FROM token_meta WHERE address_id = ?')
+        .all(this.addressId) as { name: string; data: string }[];
+      for (const row of metaRows) {
+        (data as unknown as Record<string, unknown>)[row.name] = this.decode('token_meta', row.name, row.data);
+      }
+
+      const tokenRows = this.db
+        .prepare('SELECT token_key, data FROM tokens WHERE address_id = ?')
+        .all(this.addressId) as TokenRow[];
+      for (const row of tokenRows) {
+        // Skip file-format entries (token-, nametag-) - they are loaded via loadTokensFromFileStorage
+        if (row.token_key.startsWith('_token-') || row.token_key.startsWith('_nametag-')) {
+          continue;
+        }
+        data[row.token_key as `_${string}`] = this.decode('tokens', row.token_key, row.data);
+      }
+
+      return {
+        success: true,
+        data,
+        source: 'local',
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        source: 'local',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  async save(data: TxfStorageDataBase): Promise<SaveResult> {
+    if (!this.db) {
+      return {
+        success: false,
+        error: 'Database not initialized',
+        timestamp: Date.now(),
+      };
+    }
+
+    try {
+      const db = this.db;
+      db.transaction(() => {
+        for (const name of META_KEYS) {
+          const value = data[name];
+          if (value !== undefined) {
+            this.putMeta(name, value);
+          }
+        }
+
+        // Active tokens start with _, archived with archived-
+        // (_history is kept in the history table via addHistoryEntry)
+        for (const [key, value] of Object.entries(data)) {
+          if (key === '_history') continue;
+          this.putToken(key, value);
+        }
+
+        // Tombstoned tokens are removed in the same transaction
+        for (const tombstone of data._tombstones ?? []) {
+          this.deleteToken(`_${tombstone.tokenId}`);
+        }
+      })();
+
+      return {
+        success: true,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /** Write only the changed rows, in one transaction */
+  async applyChanges(changes: TokenStorageChanges): Promise<SaveResult> {
+    if (!this.db) {
+      return {
+        success: false,
+        error: 'Database not initialized',
+        timestamp: Date.now(),
+      };
+    }
+
+    try {
+      this.db.transaction(() => {
+        for (const [key, value] of Object.entries(changes.upserted ?? {})) {
+          this.putToken(key, value);
+        }
+        for (const key of changes.removed ?? []) {
+          this.deleteToken(key);
+        }
+        if (changes.tombstones) {
+          this.putMeta('_tombstones', changes.tombstones);
+          for (const tombstone of changes.tombstones) {
+            this.deleteToken(`_${tombstone.tokenId}`);
+          }
+        }
+        if (changes.outbox) {
+          this.putMeta('_outbox', changes.outbox);
+        }
+      })();
+
+      return {
+        success: true,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  private putMeta(name: string, value: unknown): void {
+    this.statement(
+      'INSERT INTO token_meta (address_id, name, data) VALUES (?, ?, ?) ' +
+      'ON CONFLICT (address_id, name) DO UPDATE SET data = excluded.data'
+    ).run(this.addressId, name, this.encode('token_meta', name, value));
+  }
+
+  /** Upsert a token entry; keys that are not token entries are ignored */
+  private putToken(key: string, value: unknown): void {
+    let tokenId: string;
+    if ((META_KEYS as readonly string[]).includes(key)) {
+      return;
+    } else if (key.startsWith('_')) {
+      tokenId = key.slice(1);
+    } else if (key.startsWith('archived-')) {
+      tokenId = key.slice('archived-'.length);
+    } else {
+      return;
+    }
+
+    this.statement(
+      'INSERT INTO tokens (address_id, token_key, token_id, coin_id, archived, data, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?) ' +
+      'ON CONFLICT (address_id, token_key) DO UPDATE SET ' +
+      'token_id = excluded.token_id, coin_id = excluded.coin_id, archived = excluded.archived, ' +
+      'data = excluded.data, updated_at = excluded.updated_at'
+    ).run(this.addressId, key, tokenId, extractCoinId(value), key.startsWith('_') ? 0 : 1, this.encode('tokens', key, value), Date.now());
+  }
+
+  private deleteToken(key: string): void {
+    this.statement('DELETE FROM tokens WHERE address_id = ? AND token_key = ?').run(this.addressId, key);
+  }
+
+  /** Serialize a payload column, encrypted when a keyring is set and bound to its table and row */
+  private encode(table: PayloadTable, key: string, value: unknown): string {
+    const json = JSON.stringify(value);
+    return this.keyring ? this.keyring.encrypt(json, this.payloadName(table, key)) : json;
+  }
+
+  /** Parse a payload column; plaintext rows from before encryption are still read */
+  private decode<T>(table: PayloadTable, key: string, data: string): T {
+    if (!StorageKeyring.isEncrypted(data)) return JSON.parse(data);
+    if (!this.keyring) {
+      throw new SphereError('Token storage is encrypted and no storage key is set', 'DECRYPTION_ERROR');
+    }
+    return JSON.parse(this.keyring.decrypt(data, this.payloadName(table, key)));
+  }
+
+  private payloadName(table: PayloadTable, key: string): string {
+    return `${this.addressId}/${table}/${key}`;
+  }
+
+  /**
+   * Encrypt this address's plaintext payloads and re-encrypt ones written
+   * with an older data key, in one transaction.
+   * @returns Number of rows rewritten
+   */
+  async reencrypt(): Promise<number> {
+    if (!this.db || !this.keyring) return 0;
+    const db = this.db;
+    const keyring = this.keyring;
+    return db.transaction((addressId: string) => {
+      let count = 0;
+      for (const [table, keyColumn] of PAYLOAD_TABLES) {
+        const rows = db
+          .prepare(`SELECT ${keyColumn} AS key, data FROM ${table} WHERE address_id = ?`)
+          .all(addressId) as { key: string; data: string }[];
+        const update = db.prepare(`UPDATE ${table} SET data = ? WHERE address_id = ? AND ${keyColumn} = ?`);
+        for (const row of rows) {
+          if (keyring.isCurrent(row.data)) continue;
+          update.run(this.encode(table, row.key, this.decode(table, row.key, row.data)), addressId, row.key);
+          count++;
+        }
+      }
+      return count;
+    })(this.addressId);
+  }
+
+  private statement(sql: string): SqliteStatement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db!.prepare<unknown[]>(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+
+  async sync(localData: TxfStorageDataBase): Promise<SyncResult<TxfStorageDataBase>> {
+    // For local SQLite storage, just save and return
+    const saveResult = await this.save(localData);
+    return {
+      success: saveResult.success,
+      merged: localData,
+      added: 0,
+      removed: 0,
+      conflicts: 0,
+      error: saveResult.error,
+    };
+  }
+
+  async exists(): Promise<boolean> {
+    if (!this.db) return false;
+    const row = this.db
+      .prepare("SELECT 1 FROM token_meta WHERE address_id = ? AND name = '_meta'")
+      .get(this.addressId);
+    return row !== undefined;
+  }
+
+  async clear(): Promise<boolean> {
+    if (!this.db) return false;
+    try {
+      const db = this.db;
+      db.transaction((addressId: string) => {
+        db.prepare('DELETE FROM tokens WHERE address_id = ?').run(addressId);
+        db.prepare('DELETE FROM token_meta WHERE address_id = ?').run(addressId);
+      })(this.addressId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // =========================================================================
+  // Indexed lookups
+  // =========================================================================
+
+  /**
+   * Get an active token by ID without loading the whole inventory.
+   * Set `includeArchived` to fall back to the archived copy.
+   */
+  async getToken(tokenId: string, includeArchived = false): Promise<TxfToken | null> {
+    if (!this.db) return null;
+    const rows = this.db
+      .prepare('SELECT token_key, data FROM tokens WHERE address_id = ? AND token_id = ? ORDER BY archived')
+      .all(this.addressId, tokenId) as TokenRow[];
+    const row = rows.find((r) => includeArchived || r.token_key.startsWith('_'));
+    return row ? this.decode('tokens', row.token_key, row.data) : null;
+  }
+
+  /** Get all active tokens of a coin */
+  async getTokensByCoinId(coinId: string): Promise<TxfToken[]> {
+    if (!this.db) return [];
+    const rows = this.db
+      .prepare('SELECT token_key, data FROM tokens WHERE address_id = ? AND coin_id = ? AND archived = 0')
+      .all(this.addressId, coinId) as TokenRow[];
+    return rows.map((row) => this.decode('tokens', row.token_key, row.data));
+  }
+
+  // =========================================================================
+  // History operations
+  // =========================================================================
+
+  async addHistoryEntry(entry: HistoryRecord): Promise<void> {
+    if (!this.db) return;
+    this.db
+      .prepare(
+        'INSERT INTO history (address_id, dedup_key, timestamp, data) VALUES (?, ?, ?, ?) ' +
+        'ON CONFLICT (address_id, dedup_key) DO UPDATE SET timestamp = excluded.timestamp, data = excluded.data'
+      )
+      .run(this.addressId, entry.dedupKey, entry.timestamp, this.encode('history', entry.dedupKey, entry));
+  }
+
+  async getHistoryEntries(): Promise<HistoryRecord[]> {
+    if (!this.db) return [];
+    const rows = this.db
+      .prepare('SELECT dedup_key, data FROM history WHERE address_id = ? ORDER BY timestamp DESC')
+      .all(this.addressId) as { dedup_key: string; data: string }[];
+    return rows.map((row) => this.decode('history', row.dedup_key, row.data));
+  }
+
+  async hasHistoryEntry(dedupKey: string): Promise<boolean> {
+    if (!this.db) return false;
+    const row = this.db
+      .prepare('SELECT 1 FROM history WHERE address_id = ? AND dedup_key = ?')
+      .get(this.addressId, dedupKey);
+    return row !== undefined;
+  }
+
+  async clearHistory(): Promise<void> {
+    if (!this.db) return;
+    this.db.prepare('DELETE FROM history WHERE address_id = ?').run(this.addressId);
+  }
+
+  async importHistoryEntries(entries: HistoryRecord[]): Promise<number> {
+    if (!this.db || entries.length === 0) return 0;
+    const db = this.db;
+    const insert = db.prepare(
+      'INSERT INTO history (address_id, dedup_key, timestamp, data) VALUES (?, ?, ?, ?) ' +
+      'ON CONFLICT (address_id, dedup_key) DO NOTHING'
+    );
+    return db.transaction((addressId: string) => {
+      let imported = 0;
+      for (const entry of entries) {
+        imported += insert.run(addressId, entry.dedupKey, entry.timestamp, this.encode('history', entry.dedupKey, entry)).changes;
+      }
+      return imported;
+    })(this.addressId);
+  }
+
+  /**
+   * Create an independent instance for a different address.
+   * Instances share the database file and keyring, each with its own connection.
+   */
+  createForAddress(): SqliteTokenStorageProvider {
+    const provider = new SqliteTokenStorageProvider({ dbPath: this.dbPath });
+    if (this.keyring) provider.setKeyring(this.keyring);
+    return provider;
+  }
+}
+
+export function createSqliteTokenStorageProvider(config: SqliteTokenStorageConfig | string): SqliteTokenStorageProvider {
+  return new SqliteTokenStorageProvider(config);
+}
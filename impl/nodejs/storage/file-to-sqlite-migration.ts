@@ -0,0 +1,172 @@
+/**
+ * One-shot migration from the JSON file layout (FileStorageProvider +
+ * FileTokenStorageProvider) to a SQLite database used by
+ * SqliteStorageProvider + SqliteTokenStorageProvider.
+ *
+ * The files are read, never modified; remove them once the migrated wallet
+ * has been verified.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SphereError } from '../../../core/errors';
+import { STORAGE_KEYS_GLOBAL } from '../../../constants';
+import type { HistoryRecord } from '../../../storage';
+import { extractCoinId, openSqliteDatabase } from './sqlite';
+
+const META_FILE = '_meta.json';
+const TOMBSTONES_FILE = '_tombstones.json';
+const HISTORY_FILE = '_history.json';
+
+export interface FileToSqliteMigrationOptions {
+  /** FileStorageProvider data directory */
+  dataDir: string;
+  /** Wallet file name (default: 'wallet.json') */
+  walletFileName?: string;
+  /** FileTokenStorageProvider tokens directory */
+  tokensDir: string;
+  /** Target SQLite database; must not contain wallet data yet */
+  dbPath: string;
+}
+
+export interface FileToSqliteMigrationResult {
+  /** Key-value entries copied from the wallet file */
+  keys: number;
+  /** Address directories migrated (including the unscoped base directory if it held tokens) */
+  addresses: number;
+  /** Active and archived tokens */
+  tokens: number;
+  historyEntries: number;
+}
+
+interface AddressFiles {
+  addressId: string;
+  meta?: unknown;
+  tombstones?: unknown;
+  history: HistoryRecord[];
+  tokens: { key: string; archived: boolean; data: unknown }[];
+}
+
+function readJson(filePath: string): unknown {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function readWalletFile(filePath: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) return {};
+  const content = fs.readFileSync(filePath, 'utf-8').trim();
+  if (filePath.endsWith('.txt')) {
+    // .txt file: entire content is the mnemonic (plaintext or encrypted)
+    return content ? { [STORAGE_KEYS_GLOBAL.MNEMONIC]: content } : {};
+  }
+  return content ? JSON.parse(content) : {};
+}
+
+/** Read one FileTokenStorageProvider directory (same file naming as its save()) */
+function readTokenDir(dir: string, addressId: string): AddressFiles {
+  const result: AddressFiles = { addressId, history: [], tokens: [] };
+
+  for (const file of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, file);
+    if (!file.endsWith('.json') || !fs.statSync(filePath).isFile()) continue;
+
+    if (file === META_FILE) {
+      result.meta = readJson(filePath);
+    } else if (file === TOMBSTONES_FILE) {
+      result.tombstones = readJson(filePath);
+    } else if (file === HISTORY_FILE) {
+      result.history = Object.values(readJson(filePath) as Record<string, HistoryRecord>);
+    } else {
+      const basename = path.basename(file, '.json');
+      const archived = basename.startsWith('archived-');
+      result.tokens.push({
+        key: archived ? basename : `_${basename}`,
+        archived,
+        data: readJson(filePath),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Copy a file-based wallet into a new SQLite database in one transaction.
+ * Throws if the database already holds wallet data, so it cannot run twice.
+ */
+export async function migrateFileStorageToSqlite(
+  options: FileToSqliteMigrationOptions
+): Promise<FileToSqliteMigrationResult> {
+  const walletPath = path.join(options.dataDir, options.walletFileName ?? 'wallet.json');
+  const kv = readWalletFile(walletPath);
+
+  const addresses: AddressFiles[] = [];
+  if (fs.existsSync(options.tokensDir)) {
+    // Tokens written without an identity live in the base directory
+    const base = readTokenDir(options.tokensDir, '');
+    if (base.meta !== undefined || base.tokens.length > 0 || base.history.length > 0) {
+      addresses.push(base);
+    }
+    for (const entry of fs.readdirSync(options.tokensDir, { withFileTypes: true })) {
+      if (entry.isDirectory() && entry.name.startsWith('DIRECT_')) {
+        addresses.push(readTokenDir(path.join(options.tokensDir, entry.name), entry.name));
+      }
+    }
+  }
+
+  const db = await openSqliteDatabase(options.dbPath);
+  try {
+    const existing = db.prepare('SELECT (SELECT COUNT(*) FROM kv) + (SELECT COUNT(*) FROM token_meta) AS n').get() as { n: number };
+    if (existing.n > 0) {
+      throw new SphereError(`SQLite database ${options.dbPath} already contains wallet data`, 'STORAGE_ERROR');
+    }
+
+    const putKey = db.prepare('INSERT INTO kv (key, value) VALUES (?, ?)');
+    const putMeta = db.prepare('INSERT INTO token_meta (address_id, name, data) VALUES (?, ?, ?)');
+    const putToken = db.prepare(
+      'INSERT OR REPLACE INTO tokens (address_id, token_key, token_id, coin_id, archived, data, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    const putHistory = db.prepare(
+      'INSERT OR REPLACE INTO history (address_id, dedup_key, timestamp, data) VALUES (?, ?, ?, ?)'
+    );
+
+    const now = Date.now();
+    const result: FileToSqliteMigrationResult = { keys: 0, addresses: addresses.length, tokens: 0, historyEntries: 0 };
+
+    db.transaction(() => {
+      for (const [key, value] of Object.entries(kv)) {
+        putKey.run(key, value);
+        result.keys++;
+      }
+
+      for (const address of addresses) {
+        if (address.meta !== undefined) {
+          putMeta.run(address.addressId, '_meta', JSON.stringify(address.meta));
+        }
+        if (address.tombstones !== undefined) {
+          putMeta.run(address.addressId, '_tombstones', JSON.stringify(address.tombstones));
+        }
+        for (const token of address.tokens) {
+          const tokenId = token.archived ? token.key.slice('archived-'.length) : token.key.slice(1);
+          putToken.run(
+            address.addressId,
+            token.key,
+            tokenId,
+            extractCoinId(token.data),
+            token.archived ? 1 : 0,
+            JSON.stringify(token.data),
+            now,
+          );
+          result.tokens++;
+        }
+        for (const entry of address.history) {
+          putHistory.run(address.addressId, entry.dedupKey, entry.timestamp, JSON.stringify(entry));
+          result.historyEntries++;
+        }
+      }
+    })();
+
+    return result;
+  } finally {
+    db.close();
+  }
+}
@@ -1,2 +1,5 @@
 export * from './FileStorageProvider';
 export * from './FileTokenStorageProvider';
+export * from './SqliteStorageProvider';
+export * from './SqliteTokenStorageProvider';
+export * from './file-to-sqlite-migration';
@@ -0,0 +1,104 @@
+/**
+ * SQLite database access shared by the SQLite storage providers.
+ * Both providers can use the same database file; each table is created
+ * on first open.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { SphereError } from '../../../core/errors';
+import type { TxfToken } from '../../../types/txf';
+
+export type SqliteDatabase = BetterSqlite3.Database;
+export type SqliteStatement = BetterSqlite3.Statement<unknown[]>;
+
+/** Bumped when the schema below changes; stored in PRAGMA user_version */
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kv (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tokens (
+    address_id TEXT NOT NULL,
+    token_key TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    coin_id TEXT,
+    archived INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (address_id, token_key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_tokens_token_id ON tokens (address_id, token_id);
+  CREATE INDEX IF NOT EXISTS idx_tokens_coin_id ON tokens (address_id, coin_id);
+
+  CREATE TABLE IF NOT EXISTS token_meta (
+    address_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (address_id, name)
+  );
+
+  CREATE TABLE IF NOT EXISTS history (
+    address_id TEXT NOT NULL,
+    dedup_key TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (address_id, dedup_key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_history_timestamp ON history (address_id, timestamp);
+`;
+
+/**
+ * Open (creating if needed) a SQLite database with the wallet schema.
+ * `better-sqlite3` is an optional peer dependency, loaded on first use.
+ */
+export async function openSqliteDatabase(dbPath: string): Promise<SqliteDatabase> {
+  let Database: typeof BetterSqlite3;
+  try {
+    // Dynamic import so the native module is only required when SQLite storage is used
+    Database = (await import('better-sqlite3')).default;
+  } catch (error) {
+    throw new SphereError('SQLite storage requires the "better-sqlite3" package', 'STORAGE_ERROR', error);
+  }
+
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  // WAL lets per-address provider instances share the file; a crash mid-write
+  // rolls back to the last committed transaction
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('busy_timeout = 5000');
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  if (version > SCHEMA_VERSION) {
+    db.close();
+    throw new SphereError(`SQLite database ${dbPath} has newer schema version ${version}`, 'STORAGE_ERROR');
+  }
+  db.exec(SCHEMA);
+  db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  return db;
+}
+
+/**
+ * Coin ID of a TXF token: first coin with a non-zero amount, or the first coin.
+ * Null for tokens without coin data (e.g. nametags).
+ */
+export function extractCoinId(token: unknown): string | null {
+  const coinData = (token as Partial<TxfToken> | null)?.genesis?.data?.coinData;
+  if (!Array.isArray(coinData) || coinData.length === 0) return null;
+  for (const [coinId, amount] of coinData) {
+    try {
+      if (BigInt(amount || '0') > 0n) return coinId;
+    } catch {
+      // Malformed amount — fall through to the first coin
+    }
+  }
+  return coinData[0][0] ?? null;
+}
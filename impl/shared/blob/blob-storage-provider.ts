@@ -0,0 +1,655 @@
+/**
+ * Blob Storage Provider
+ * TokenStorageProvider that syncs an encrypted TXF snapshot through an
+ * S3-compatible object store or any HTTP server supporting GET/PUT/DELETE.
+ * Shared cross-platform module (browser + Node.js via native fetch).
+ *
+ * Uses the same write-behind buffer as IpfsStorageProvider: save() returns
+ * immediately and the snapshot is flushed in the background. Concurrent
+ * writers are detected with ETags (`If-Match` / `If-None-Match: *`); a write
+ * that loses the race re-reads the object, merges and retries.
+ */
+
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { logger } from '../../../core/logger';
+import { SphereError } from '../../../core/errors';
+import { bytesToHex, hexToBytes } from '../../../core/crypto';
+import type { ProviderStatus, FullIdentity } from '../../../types';
+import { StorageKeyring } from '../../../storage';
+import type {
+  TokenStorageProvider,
+  TxfStorageDataBase,
+  SaveResult,
+  LoadResult,
+  SyncResult,
+  SyncOptions,
+  StorageEventCallback,
+  StorageEvent,
+  StorageKeySource,
+  StorageEncryptionHeader,
+} from '../../../storage';
+import { mergeTxfData } from '../ipfs/txf-merge';
+import { AsyncSerialQueue, WriteBuffer } from '../ipfs/write-behind-buffer';
+import type { BlobRequestMethod, BlobSnapshot, BlobStorageConfig } from './blob-types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** HKDF info string for deriving the object name from the wallet key */
+export const BLOB_OBJECT_HKDF_INFO = 'sphere-blob-object-v1';
+
+const SNAPSHOT_FORMAT = 'sphere-blob-v1';
+
+/**
+ * Derive the object name for a wallet key. Stable across devices and
+ * unlinkable to the wallet's addresses.
+ */
+export function deriveBlobObjectKey(privateKeyHex: string): string {
+  const name = hkdf(sha256, hexToBytes(privateKeyHex), undefined, new TextEncoder().encode(BLOB_OBJECT_HKDF_INFO), 16);
+  return `${bytesToHex(name)}.json`;
+}
+
+/** The wallet key behind the object name and encryption keys; never derive from an empty key */
+function requirePrivateKey(identity: FullIdentity): string {
+  if (!identity.privateKey) {
+    throw new SphereError('Blob storage needs the wallet key: configure objectKey and keySource for a wallet without one', 'WALLET_LOCKED');
+  }
+  return identity.privateKey;
+}
+
+/** Result of merging local data with the stored snapshot and writing it back */
+interface WriteOutcome<TData> {
+  merged: TData;
+  added: number;
+  removed: number;
+  conflicts: number;
+  conflictReports: NonNullable<SyncResult<TData>['conflictReports']>;
+  /** Whether the stored snapshot was merged in */
+  remoteChanged: boolean;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export class BlobTokenStorageProvider<TData extends TxfStorageDataBase = TxfStorageDataBase>
+  implements TokenStorageProvider<TData>
+{
+  readonly id = 'blob';
+  readonly name = 'Blob Storage';
+  readonly type = 'cloud' as const;
+
+  private status: ProviderStatus = 'disconnected';
+  private identity: FullIdentity | null = null;
+  private objectUrl: string | null = null;
+  private keyring: StorageKeyring | null = null;
+  /** Wrapped keys of `keyring`, written with every snapshot */
+  private keyringHeader: StorageEncryptionHeader | null = null;
+  private dataVersion = 0;
+
+  /** ETag of the object as last read or written (null if unknown) */
+  private etag: string | null = null;
+  /** Whether the object exists, so a write without a known ETag must not use `If-None-Match: *` */
+  private remoteExists = false;
+  /** Snapshot matching `etag`, served on 304 Not Modified */
+  private cachedData: TData | null = null;
+
+  private readonly config: BlobStorageConfig;
+  private readonly eventCallbacks: Set<StorageEventCallback> = new Set();
+  private readonly timeoutMs: number;
+  private readonly maxConflictRetries: number;
+
+  /** Write-behind buffer: serializes flush / sync / poll / shutdown */
+  private readonly flushQueue = new AsyncSerialQueue();
+  /** Pending snapshot not yet flushed */
+  private pendingBuffer = new WriteBuffer();
+  /** Debounce timer for background flush */
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Debounce interval in ms */
+  private readonly flushDebounceMs: number;
+  /** Poll timer for changes made by other devices */
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  /** Set to true during shutdown to prevent new flushes */
+  private isShuttingDown = false;
+
+  constructor(config: BlobStorageConfig) {
+    if (!config?.endpoint) {
+      throw new SphereError('Blob storage requires an endpoint', 'INVALID_CONFIG');
+    }
+    this.config = config;
+    this.timeoutMs = config.timeoutMs ?? 15000;
+    this.flushDebounceMs = config.flushDebounceMs ?? 2000;
+    this.maxConflictRetries = config.maxConflictRetries ?? 3;
+    if (config.debug) logger.setTagDebug('Blob-Storage', true);
+  }
+
+  // ---------------------------------------------------------------------------
+  // BaseProvider interface
+  // ---------------------------------------------------------------------------
+
+  async connect(): Promise<void> {
+    await this.initialize();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.shutdown();
+  }
+
+  isConnected(): boolean {
+    return this.status === 'connected';
+  }
+
+  getStatus(): ProviderStatus {
+    return this.status;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Identity & Initialization
+  // ---------------------------------------------------------------------------
+
+  setIdentity(identity: FullIdentity): void {
+    this.identity = identity;
+    const objectUrl = this.buildObjectUrl(identity);
+    if (objectUrl !== this.objectUrl) {
+      this.objectUrl = objectUrl;
+      this.keyring = null;
+      this.keyringHeader = null;
+      this.etag = null;
+      this.remoteExists = false;
+      this.cachedData = null;
+      this.dataVersion = 0;
+    }
+  }
+
+  async initialize(): Promise<boolean> {
+    if (!this.identity || !this.objectUrl) {
+      this.log('Cannot initialize: no identity set');
+      return false;
+    }
+
+    this.isShuttingDown = false;
+    this.status = 'connected';
+    if (this.config.pollIntervalMs && !this.pollTimer) {
+      this.pollTimer = setInterval(() => {
+        this.flushQueue.enqueue(() => this.pollForRemoteChanges()).catch(() => {});
+      }, this.config.pollIntervalMs);
+    }
+    this.log(`Initialized: ${this.objectUrl}`);
+    return true;
+  }
+
+  async shutdown(): Promise<void> {
+    this.isShuttingDown = true;
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    // Final flush — drain any pending writes
+    await this.flushQueue.enqueue(async () => {
+      if (!this.pendingBuffer.isEmpty) {
+        try {
+          await this.executeFlush();
+        } catch {
+          this.log('Final flush on shutdown failed (data may be lost)');
+        }
+      }
+    });
+
+    this.status = 'disconnected';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Save (non-blocking — buffers data for async flush)
+  // ---------------------------------------------------------------------------
+
+  async save(data: TData): Promise<SaveResult> {
+    if (!this.objectUrl) {
+      return { success: false, error: 'Not initialized', timestamp: Date.now() };
+    }
+
+    // Capture the target object now, so a flush after an identity change
+    // cannot write this data to another wallet's object
+    this.pendingBuffer.txfData = data;
+    this.pendingBuffer.capturedObjectKey = this.objectUrl;
+    this.scheduleFlush();
+
+    return { success: true, timestamp: Date.now() };
+  }
+
+  private scheduleFlush(): void {
+    if (this.isShuttingDown) return;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushQueue.enqueue(() => this.executeFlush()).catch((err) => {
+        this.log(`Background flush failed: ${err}`);
+      });
+    }, this.flushDebounceMs);
+  }
+
+  /**
+   * Flush the pending snapshot. Runs inside AsyncSerialQueue.
+   * When another device wrote in between, the merged result is written and
+   * `storage:remote-updated` tells the wallet to sync it back in.
+   */
+  private async executeFlush(): Promise<void> {
+    if (this.pendingBuffer.isEmpty) return;
+
+    const active = this.pendingBuffer;
+    this.pendingBuffer = new WriteBuffer();
+
+    if (active.capturedObjectKey !== this.objectUrl) {
+      logger.warn('Blob-Storage', 'Dropping buffered snapshot of a previous identity');
+      return;
+    }
+
+    try {
+      const outcome = await this.mergeAndWrite(active.txfData as TData, {}, false);
+      if (outcome.remoteChanged) {
+        this.emitEvent({
+          type: 'storage:remote-updated',
+          timestamp: Date.now(),
+          data: { etag: this.etag },
+        });
+      }
+      this.log(`Flushed successfully: etag=${this.etag}`);
+    } catch (error) {
+      this.pendingBuffer.mergeFrom(active);
+      this.log(`Flush failed (will retry): ${error instanceof Error ? error.message : String(error)}`);
+      this.scheduleFlush();
+      throw error;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Load
+  // ---------------------------------------------------------------------------
+
+  async load(): Promise<LoadResult<TData>> {
+    if (!this.objectUrl) {
+      return { success: false, error: 'Not initialized', source: 'local', timestamp: Date.now() };
+    }
+
+    this.emitEvent({ type: 'storage:loading', timestamp: Date.now() });
+
+    try {
+      const data = await this.flushQueue.enqueue(() => this.fetchSnapshot());
+      if (!data) {
+        return { success: false, error: 'Blob not found', source: 'remote', timestamp: Date.now() };
+      }
+      this.emitEvent({ type: 'storage:loaded', timestamp: Date.now(), data: { etag: this.etag } });
+      return { success: true, data, source: 'remote', timestamp: Date.now() };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.emitEvent({ type: 'storage:error', timestamp: Date.now(), error: errorMessage });
+      return { success: false, error: errorMessage, source: 'remote', timestamp: Date.now() };
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sync (enters serial queue to avoid racing the background flush)
+  // ---------------------------------------------------------------------------
+
+  async sync(localData: TData, options?: SyncOptions): Promise<SyncResult<TData>> {
+    return this.flushQueue.enqueue(async () => {
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+      }
+
+      this.emitEvent({ type: 'sync:started', timestamp: Date.now() });
+
+      try {
+        // Drain pending buffer — its data is included via localData
+        this.pendingBuffer.clear();
+
+        const { merged, added, removed, conflicts, conflictReports } =
+          await this.mergeAndWrite(localData, options ?? {}, true);
+
+        if (conflicts > 0) {
+          this.emitEvent({
+            type: 'sync:conflict',
+            timestamp: Date.now(),
+            data: { conflicts, reports: conflictReports },
+          });
+        }
+        this.emitEvent({
+          type: 'sync:completed',
+          timestamp: Date.now(),
+          data: { added, removed, conflicts },
+        });
+
+        return { success: true, merged, added, removed, conflicts, conflictReports };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.emitEvent({ type: 'sync:error', timestamp: Date.now(), error: errorMessage });
+        return { success: false, added: 0, removed: 0, conflicts: 0, error: errorMessage };
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Optional Methods
+  // ---------------------------------------------------------------------------
+
+  async exists(): Promise<boolean> {
+    if (!this.objectUrl) return false;
+    return (await this.flushQueue.enqueue(() => this.fetchSnapshot())) !== null;
+  }
+
+  async clear(): Promise<boolean> {
+    if (!this.objectUrl) return false;
+
+    this.pendingBuffer.clear();
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    return this.flushQueue.enqueue(async () => {
+      try {
+        const response = await this.request('DELETE', this.objectUrl!);
+        if (!response.ok && response.status !== 404) {
+          this.log(`Delete failed: HTTP ${response.status}`);
+          return false;
+        }
+        this.etag = null;
+        this.remoteExists = false;
+        this.cachedData = null;
+        return true;
+      } catch (error) {
+        this.log(`Delete failed: ${error}`);
+        return false;
+      }
+    });
+  }
+
+  onEvent(callback: StorageEventCallback): () => void {
+    this.eventCallbacks.add(callback);
+    return () => {
+      this.eventCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Create an independent instance for a different address.
+   * Shares the endpoint config but has fresh object state.
+   */
+  createForAddress(): BlobTokenStorageProvider<TData> {
+    return new BlobTokenStorageProvider<TData>(this.config);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public Accessors
+  // ---------------------------------------------------------------------------
+
+  getObjectUrl(): string | null {
+    return this.objectUrl;
+  }
+
+  getETag(): string | null {
+    return this.etag;
+  }
+
+  getDataVersion(): number {
+    return this.dataVersion;
+  }
+
+  /**
+   * Wait for the pending flush to complete. Useful in tests to await
+   * background writes. Returns once any in-flight flush is done.
+   */
+  async waitForFlush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flushQueue.enqueue(() => this.executeFlush()).catch((err) => {
+      logger.warn('Blob-Storage', 'Flush failed:', err);
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal: Snapshot I/O
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Merge local data into the stored snapshot and write the result,
+   * re-reading and merging again whenever the ETag check fails.
+   *
+   * @param readFirst - Read the stored snapshot before the first write
+   *   (sync). A flush writes straight away and only reads on a conflict.
+   */
+  private async mergeAndWrite(localData: TData, options: SyncOptions, readFirst: boolean): Promise<WriteOutcome<TData>> {
+    let mustRead = readFirst;
+    for (let attempt = 0; ; attempt++) {
+      let outcome: WriteOutcome<TData> = {
+        merged: localData,
+        added: 0,
+        removed: 0,
+        conflicts: 0,
+        conflictReports: [],
+        remoteChanged: false,
+      };
+
+      if (mustRead) {
+        const remote = await this.fetchSnapshot();
+        if (remote) {
+          const result = mergeTxfData(localData, remote, {
+            ...options,
+            mergePolicy: options.mergePolicy ?? this.config.mergePolicy,
+          });
+          outcome = { ...result, remoteChanged: true };
+        }
+      }
+
+      if (await this.writeSnapshot(outcome.merged)) {
+        outcome.merged = this.cachedData!;
+        return outcome;
+      }
+      if (attempt >= this.maxConflictRetries) {
+        throw new SphereError('Blob storage write conflict: object keeps changing', 'STORAGE_ERROR');
+      }
+      this.log(`Write conflict (attempt ${attempt + 1}), merging remote changes`);
+      mustRead = true;
+    }
+  }
+
+  /**
+   * Read and decrypt the stored snapshot. Null if the object does not exist.
+   */
+  private async fetchSnapshot(): Promise<TData | null> {
+    const headers: Record<string, string> = {};
+    if (this.etag && this.cachedData) {
+      headers['If-None-Match'] = this.etag;
+    }
+
+    const response = await this.request('GET', this.objectUrl!, { headers });
+    if (response.status === 304 && this.cachedData) {
+      return this.cachedData;
+    }
+    if (response.status === 404) {
+      this.etag = null;
+      this.remoteExists = false;
+      this.cachedData = null;
+      return null;
+    }
+    if (!response.ok) {
+      throw new SphereError(`Blob storage read failed: HTTP ${response.status}`, 'STORAGE_ERROR');
+    }
+
+    const snapshot = await response.json() as BlobSnapshot;
+    if (snapshot?.format !== SNAPSHOT_FORMAT || !snapshot.encryption || typeof snapshot.data !== 'string') {
+      throw new SphereError('Blob storage object is not a wallet snapshot', 'STORAGE_ERROR');
+    }
+    const keyring = this.unlock(snapshot);
+    const data = JSON.parse(keyring.decrypt(snapshot.data, SNAPSHOT_FORMAT)) as TData;
+
+    this.etag = response.headers.get('ETag');
+    this.remoteExists = true;
+    this.cachedData = data;
+    const remoteVersion = data._meta?.version;
+    if (typeof remoteVersion === 'number' && remoteVersion > this.dataVersion) {
+      this.dataVersion = remoteVersion;
+    }
+    return data;
+  }
+
+  /**
+   * Encrypt and write a snapshot, conditional on the last seen ETag.
+   * Returns false when another writer got there first (412).
+   */
+  private async writeSnapshot(data: TData): Promise<boolean> {
+    const version = Math.max(this.dataVersion, data._meta?.version ?? 0) + 1;
+    const updated = {
+      ...data,
+      _meta: { ...data._meta, version, updatedAt: Date.now() },
+    } as TData;
+
+    if (!this.keyring) {
+      this.adoptKeyring(StorageKeyring.create(this.keySource()));
+    }
+    const snapshot: BlobSnapshot = {
+      format: SNAPSHOT_FORMAT,
+      encryption: this.keyringHeader!,
+      data: this.keyring!.encrypt(JSON.stringify(updated), SNAPSHOT_FORMAT),
+    };
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.etag) {
+      headers['If-Match'] = this.etag;
+    } else if (!this.remoteExists) {
+      headers['If-None-Match'] = '*';
+    }
+
+    this.emitEvent({ type: 'storage:saving', timestamp: Date.now() });
+    const response = await this.request('PUT', this.objectUrl!, { headers, body: JSON.stringify(snapshot) });
+    if (response.status === 412) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new SphereError(`Blob storage write failed: HTTP ${response.status}`, 'STORAGE_ERROR');
+    }
+
+    this.etag = response.headers.get('ETag');
+    this.remoteExists = true;
+    this.cachedData = updated;
+    this.dataVersion = version;
+    this.emitEvent({ type: 'storage:saved', timestamp: Date.now(), data: { etag: this.etag, version } });
+    return true;
+  }
+
+  /** Keyring for a stored snapshot, reusing the unlocked one when its keys match */
+  private unlock(snapshot: BlobSnapshot): StorageKeyring {
+    const header = snapshot.encryption;
+    if (this.keyring && this.keyringHeader?.salt === header.salt && this.keyring.keyIds.includes(header.currentKeyId)) {
+      return this.keyring;
+    }
+    return this.adoptKeyring(StorageKeyring.unlock(header, this.keySource()));
+  }
+
+  private adoptKeyring(keyring: StorageKeyring): StorageKeyring {
+    this.keyring = keyring;
+    this.keyringHeader = keyring.toHeader();
+    return keyring;
+  }
+
+  private keySource(): StorageKeySource {
+    return this.config.keySource ?? { masterKey: requirePrivateKey(this.identity!) };
+  }
+
+  private buildObjectUrl(identity: FullIdentity): string {
+    const key = this.config.objectKey?.(identity) ?? deriveBlobObjectKey(requirePrivateKey(identity));
+    return `${this.config.endpoint.replace(/\/+$/, '')}/${key.replace(/^\/+/, '')}`;
+  }
+
+  private async request(
+    method: BlobRequestMethod,
+    url: string,
+    init: { headers?: Record<string, string>; body?: string } = {},
+  ): Promise<Response> {
+    const configured = typeof this.config.headers === 'function'
+      ? await this.config.headers(method, url)
+      : this.config.headers;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      return await (this.config.fetch ?? fetch)(url, {
+        method,
+        headers: { ...configured, ...init.headers },
+        body: init.body,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'AbortError';
+      throw new SphereError(
+        timedOut ? `Blob storage ${method} timed out` : `Blob storage ${method} failed: ${error instanceof Error ? error.message : String(error)}`,
+        timedOut ? 'TIMEOUT' : 'NETWORK_ERROR',
+        error,
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal: Polling
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Emit `storage:remote-updated` when another device changed the object.
+   */
+  private async pollForRemoteChanges(): Promise<void> {
+    if (this.isShuttingDown || !this.objectUrl) return;
+    const before = this.etag;
+    try {
+      await this.fetchSnapshot();
+    } catch {
+      // Non-fatal — poll will retry on next interval
+      return;
+    }
+    if (this.etag !== before) {
+      this.log(`Poll detected remote change: etag=${this.etag}`);
+      this.emitEvent({
+        type: 'storage:remote-updated',
+        timestamp: Date.now(),
+        data: { etag: this.etag },
+      });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal
+  // ---------------------------------------------------------------------------
+
+  private emitEvent(event: StorageEvent): void {
+    for (const callback of this.eventCallbacks) {
+      try {
+        callback(event);
+      } catch {
+        // Don't let event handler errors break the provider
+      }
+    }
+  }
+
+  private log(message: string): void {
+    logger.debug('Blob-Storage', message);
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createBlobTokenStorageProvider(config: BlobStorageConfig): BlobTokenStorageProvider {
+  return new BlobTokenStorageProvider(config);
+}
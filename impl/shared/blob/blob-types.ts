@@ -0,0 +1,68 @@
+/**
+ * Blob Storage Provider Types
+ * Configuration and wire format for syncing wallets through an object store
+ */
+
+import type { FullIdentity } from '../../../types';
+import type { MergePolicy, StorageEncryptionHeader, StorageKeySource } from '../../../storage';
+
+// =============================================================================
+// Configuration Types
+// =============================================================================
+
+/** HTTP method used against the blob endpoint */
+export type BlobRequestMethod = 'GET' | 'PUT' | 'DELETE';
+
+/**
+ * Extra request headers, e.g. an API key, or a function that signs each
+ * request (S3 SigV4, presigned auth) given its method and URL
+ */
+export type BlobRequestHeaders =
+  | Record<string, string>
+  | ((method: BlobRequestMethod, url: string) => Record<string, string> | Promise<Record<string, string>>);
+
+/** Blob storage provider configuration */
+export interface BlobStorageConfig {
+  /**
+   * Base URL objects are stored under, e.g. `https://bucket.s3.eu-west-1.amazonaws.com/wallets`
+   * or any server that supports GET/PUT/DELETE with ETags and `If-Match`/`If-None-Match`
+   */
+  endpoint: string;
+  /** Request headers or a per-request signer */
+  headers?: BlobRequestHeaders;
+  /**
+   * Object name for an identity (default: a name derived from the private key,
+   * so the store learns nothing about the address). Required, together with
+   * `keySource`, for an identity without a private key such as a watch-only wallet
+   */
+  objectKey?: (identity: FullIdentity) => string;
+  /** Secret the snapshot encryption key is derived from (default: the identity's private key) */
+  keySource?: StorageKeySource;
+  /** Request timeout in ms (default: 15000) */
+  timeoutMs?: number;
+  /** Debounce interval for background flush in ms (default: 2000) */
+  flushDebounceMs?: number;
+  /** Merge-and-retry attempts when a write loses an ETag race (default: 3) */
+  maxConflictRetries?: number;
+  /** Poll for changes made by other devices, in ms (default: 0 = off) */
+  pollIntervalMs?: number;
+  /** Which version of a conflicting token stays active on sync (default: local) */
+  mergePolicy?: MergePolicy;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Enable debug logging (default: false) */
+  debug?: boolean;
+}
+
+// =============================================================================
+// Wire Format
+// =============================================================================
+
+/** Object stored at the endpoint: an encrypted TXF snapshot */
+export interface BlobSnapshot {
+  format: 'sphere-blob-v1';
+  /** Wrapped data keys; unlocked with the configured key source */
+  encryption: StorageEncryptionHeader;
+  /** TXF storage data JSON, encrypted with the current data key */
+  data: string;
+}
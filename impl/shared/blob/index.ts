@@ -0,0 +1,20 @@
+/**
+ * Shared Blob Storage Module
+ * Token sync through an S3-compatible or plain HTTP object store (browser + Node.js)
+ */
+
+// Types
+export type {
+  BlobRequestMethod,
+  BlobRequestHeaders,
+  BlobStorageConfig,
+  BlobSnapshot,
+} from './blob-types';
+
+// Main provider
+export {
+  BLOB_OBJECT_HKDF_INFO,
+  BlobTokenStorageProvider,
+  createBlobTokenStorageProvider,
+  deriveBlobObjectKey,
+} from './blob-storage-provider';
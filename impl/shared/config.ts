@@ -4,10 +4,11 @@
  */
 
 import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase } from '../../storage';
-import type { TransportProvider } from '../../transport';
+import type { PaymentDeliveryMode, RelayHealthConfig, TransportProvider } from '../../transport';
 import type { OracleProvider } from '../../oracle';
 import type { PriceProvider, PricePlatform } from '../../price';
 import type { NetworkType } from '../../constants';
+import type { L1CoinSelector, L1CoinSelectionStrategy } from '../../l1/coinSelection';
 
 // =============================================================================
 // Transport Configuration
@@ -26,6 +27,12 @@ export interface BaseTransportConfig {
   timeout?: number;
   /** Auto-reconnect on disconnect */
   autoReconnect?: boolean;
+  /** Envelope for token transfers and payment requests (default: 'auto') */
+  paymentDelivery?: PaymentDeliveryMode;
+  /** Relay health scoring, probing and failover */
+  relayHealth?: Partial<RelayHealthConfig>;
+  /** Also publish to recipients' NIP-65 read relays (default: true) */
+  outbox?: boolean;
   /** Enable debug logging */
   debug?: boolean;
 }
@@ -79,10 +86,12 @@ export interface NodeOracleExtensions {
 export interface L1Config {
   /** Fulcrum WebSocket URL (if not set, uses network default) */
   electrumUrl?: string;
-  /** Default fee rate in sat/byte */
+  /** Default fee rate in sat/vB */
   defaultFeeRate?: number;
   /** Enable vesting classification */
   enableVesting?: boolean;
+  /** Default coin selection strategy */
+  coinSelection?: L1CoinSelectionStrategy | L1CoinSelector;
 }
 
 // =============================================================================
@@ -174,6 +183,9 @@ export interface ResolvedTransportConfig {
   relays: string[];
   timeout?: number;
   autoReconnect?: boolean;
+  paymentDelivery?: PaymentDeliveryMode;
+  relayHealth?: Partial<RelayHealthConfig>;
+  outbox?: boolean;
   debug?: boolean;
   // Browser-specific
   reconnectDelay?: number;
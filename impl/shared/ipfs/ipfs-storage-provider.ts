@@ -16,6 +16,7 @@ import type {
   SaveResult,
   LoadResult,
   SyncResult,
+  SyncOptions,
   StorageEventCallback,
   StorageEvent,
 } from '../../../storage';
@@ -590,7 +591,7 @@ export class IpfsStorageProvider<TData extends TxfStorageDataBase = TxfStorageDa
   // Sync (enters serial queue to avoid concurrent IPNS conflicts)
   // ---------------------------------------------------------------------------
 
-  async sync(localData: TData): Promise<SyncResult<TData>> {
+  async sync(localData: TData, options?: SyncOptions): Promise<SyncResult<TData>> {
     return this.flushQueue.enqueue(async () => {
       // Cancel any pending debounced flush (we'll save as part of sync)
       if (this.flushTimer) {
@@ -643,13 +644,16 @@ export class IpfsStorageProvider<TData extends TxfStorageDataBase = TxfStorageDa
 
         // Merge
         this.log(`Merging: local v${localVersion} <-> remote v${remoteVersion}`);
-        const { merged, added, removed, conflicts } = mergeTxfData(localData, remoteData);
+        const { merged, added, removed, conflicts, conflictReports } = mergeTxfData(localData, remoteData, {
+          ...options,
+          mergePolicy: options?.mergePolicy ?? this._config?.mergePolicy,
+        });
 
         if (conflicts > 0) {
           this.emitEvent({
             type: 'sync:conflict',
             timestamp: Date.now(),
-            data: { conflicts },
+            data: { conflicts, reports: conflictReports },
           });
         }
 
@@ -668,6 +672,7 @@ export class IpfsStorageProvider<TData extends TxfStorageDataBase = TxfStorageDa
           added,
           removed,
           conflicts,
+          conflictReports,
           error: saveResult.error,
         };
       } catch (error) {
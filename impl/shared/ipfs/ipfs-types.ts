@@ -131,6 +131,8 @@ export interface IpfsStorageConfig {
   syncDebounceMs?: number;
   /** Debounce interval for background flush in ms (default: 2000) */
   flushDebounceMs?: number;
+  /** Which version of a conflicting token stays active on sync (default: local) */
+  mergePolicy?: import('../../../storage').MergePolicy;
 }
 
 /** IPNS update event received via WebSocket push or polling */
@@ -179,4 +181,6 @@ export interface MergeResult<T> {
   removed: number;
   /** Number of conflicts resolved */
   conflicts: number;
+  /** How each conflict was resolved */
+  conflictReports: import('../../../storage').ConflictReport[];
 }
@@ -3,7 +3,11 @@
  * Merges local and remote TXF storage data with proper conflict handling
  */
 
-import type { TxfStorageDataBase, TxfTombstone } from '../../../storage';
+import type { ConflictReport, SyncOptions, TxfStorageDataBase, TxfTombstone } from '../../../storage';
+import { localWinsMergePolicy } from '../../../storage';
+import { forkedKeyFromTokenIdAndState, isForkedKey } from '../../../types/txf';
+import type { TxfToken } from '../../../types/txf';
+import { getCurrentStateHash } from '../../../serialization/txf-serializer';
 import type { MergeResult } from './ipfs-types';
 
 // =============================================================================
@@ -16,17 +20,30 @@ import type { MergeResult } from './ipfs-types';
  * Rules:
  * 1. Meta: Higher version wins as base; increment by 1
  * 2. Tombstones: Union by composite key (tokenId, stateHash)
- * 3. Token entries: present in only one source -> add; both -> local wins
+ * 3. Token entries: present in only one source -> add; different versions in
+ *    both -> `options.mergePolicy` picks one (default: local), the other is
+ *    kept as a forked entry
  * 4. Tombstone filtering: exclude tokens present in merged tombstones
  * 5. Outbox/Sent: Union with dedup by id/tokenId
+ * 6. Forked entries: union by key
  */
 export function mergeTxfData<T extends TxfStorageDataBase>(
   local: T,
   remote: T,
+  options: SyncOptions = {},
 ): MergeResult<T> {
+  const policy = options.mergePolicy ?? localWinsMergePolicy;
+  const decode = (value: unknown, key: string): unknown => {
+    try {
+      return options.decodeEntry ? options.decodeEntry(value, key) : value;
+    } catch {
+      return value;
+    }
+  };
   let added = 0;
   let removed = 0;
   let conflicts = 0;
+  const conflictReports: ConflictReport[] = [];
 
   // 1. Merge meta — use higher version as base, increment
   const localVersion = local._meta?.version ?? 0;
@@ -73,9 +90,37 @@ export function mergeTxfData<T extends TxfStorageDataBase>(
       mergedTokens[key] = remoteToken;
       added++;
     } else if (localToken && remoteToken) {
-      // In both — local wins (with conflict count)
-      mergedTokens[key] = localToken;
+      const localTxf = decode(localToken, key) as TxfToken;
+      const remoteTxf = decode(remoteToken, key) as TxfToken;
+      if (JSON.stringify(localTxf) === JSON.stringify(remoteTxf)) {
+        mergedTokens[key] = localToken;
+        continue;
+      }
+
+      // Different versions — the policy picks one, the other is forked
+      const localStateHash = stateHashOf(localTxf);
+      const remoteStateHash = stateHashOf(remoteTxf);
+      const chosen = policy({ tokenId, local: localTxf, remote: remoteTxf, localStateHash, remoteStateHash });
+      mergedTokens[key] = chosen === 'remote' ? remoteToken : localToken;
       conflicts++;
+
+      const report: ConflictReport = { tokenId, localStateHash, remoteStateHash, chosen };
+      const forkedStateHash = chosen === 'remote' ? localStateHash : remoteStateHash;
+      if (forkedStateHash && localStateHash !== remoteStateHash) {
+        mergedTokens[forkedKeyFromTokenIdAndState(tokenId, forkedStateHash)] =
+          chosen === 'remote' ? localToken : remoteToken;
+        report.forkedId = `${tokenId}_${forkedStateHash}`;
+      }
+      conflictReports.push(report);
+    }
+  }
+
+  // Keep forked entries of both sides
+  for (const source of [remote, local]) {
+    for (const [key, value] of Object.entries(source)) {
+      if (isForkedKey(key) && !(key in mergedTokens)) {
+        mergedTokens[key] = value;
+      }
     }
   }
 
@@ -123,13 +168,21 @@ export function mergeTxfData<T extends TxfStorageDataBase>(
     ...mergedTokens,
   } as unknown as T;
 
-  return { merged, added, removed, conflicts };
+  return { merged, added, removed, conflicts, conflictReports };
 }
 
 // =============================================================================
 // Helpers
 // =============================================================================
 
+function stateHashOf(txf: TxfToken): string | undefined {
+  try {
+    return getCurrentStateHash(txf);
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Merge tombstone arrays by composite key (tokenId + stateHash).
  * On duplicates, keep the one with the newer timestamp.
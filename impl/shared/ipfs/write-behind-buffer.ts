@@ -56,6 +56,10 @@ export class WriteBuffer {
   capturedIpnsKeyPair: unknown | null = null;
   capturedIpnsName: string | null = null;
 
+  /** Object key captured at save() time, for backends that address data by key
+   *  (blob storage) rather than by IPNS record. */
+  capturedObjectKey: string | null = null;
+
   get isEmpty(): boolean {
     return this.txfData === null;
   }
@@ -64,6 +68,7 @@ export class WriteBuffer {
     this.txfData = null;
     this.capturedIpnsKeyPair = null;
     this.capturedIpnsName = null;
+    this.capturedObjectKey = null;
   }
 
   /**
@@ -75,6 +80,7 @@ export class WriteBuffer {
       this.txfData = other.txfData;
       this.capturedIpnsKeyPair = other.capturedIpnsKeyPair;
       this.capturedIpnsName = other.capturedIpnsName;
+      this.capturedObjectKey = other.capturedObjectKey;
     }
   }
 }
@@ -0,0 +1,22 @@
+/**
+ * Shared Relay Module
+ * In-process Nostr relay for offline integration testing (browser + Node.js)
+ */
+
+// Types
+export type {
+  MemoryRelayConfig,
+  MemoryRelayGroup,
+  RelayEvent,
+  RelayFilter,
+} from './memory-relay-types';
+
+// Relay
+export {
+  MemoryRelay,
+  createMemoryRelay,
+  matchesFilter,
+  isReplaceableKind,
+  isEphemeralKind,
+  isParameterizedReplaceableKind,
+} from './memory-relay';
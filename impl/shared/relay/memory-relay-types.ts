@@ -0,0 +1,57 @@
+/**
+ * Memory Relay Types
+ * Configuration and wire types for the in-process Nostr relay
+ */
+
+import type { SignedEventData, FilterData } from '@unicitylabs/nostr-js-sdk';
+
+/**
+ * Configuration for {@link MemoryRelay}
+ */
+export interface MemoryRelayConfig {
+  /** Relay URL clients connect to (default: `ws://memory-relay-<n>`) */
+  url?: string;
+  /**
+   * Relay private key (hex) used to sign NIP-29 group state events
+   * (default: random)
+   */
+  privateKey?: string;
+  /**
+   * Refuse REQ and EVENT until the connection completed NIP-42 AUTH
+   * (default: false). An AUTH challenge is sent on every connection either way.
+   */
+  requireAuth?: boolean;
+  /** Relay admin pubkeys (hex), allowed to moderate every NIP-29 group */
+  admins?: string[];
+  /** Enable debug logging (default: false) */
+  debug?: boolean;
+}
+
+/** Signed Nostr event as it travels over the wire */
+export type RelayEvent = SignedEventData;
+
+/** NIP-01 subscription filter, including arbitrary `#<tag>` filters */
+export type RelayFilter = FilterData & { [tagFilter: `#${string}`]: string[] | undefined };
+
+/**
+ * NIP-29 group state kept by the relay
+ */
+export interface MemoryRelayGroup {
+  id: string;
+  name?: string;
+  about?: string;
+  picture?: string;
+  /** Only members can read the group's messages; joining requires an invite code */
+  private: boolean;
+  /** Only members can see the group's metadata */
+  hidden: boolean;
+  /** Advertised in the metadata only: public groups accept any join request */
+  closed: boolean;
+  /** Only admins can post */
+  writeRestricted: boolean;
+  admins: Set<string>;
+  members: Set<string>;
+  inviteCodes: Set<string>;
+  /** Creation time (unix seconds) */
+  createdAt: number;
+}
@@ -0,0 +1,737 @@
+/**
+ * Memory Relay
+ * In-process Nostr relay for offline integration tests. Transports, group
+ * chat clients and whole Sphere instances living in the same process can
+ * exchange payments and messages through it without touching the network.
+ * Shared cross-platform module (browser + Node.js).
+ *
+ * Implements NIP-01 (REQ / EVENT / EOSE / CLOSE, replaceable, ephemeral and
+ * parameterized-replaceable events), NIP-42 AUTH and the NIP-29 group kinds
+ * from NIP29_KINDS, with relay-signed group metadata, admin and member lists.
+ *
+ * Clients connect through `createWebSocket`, a regular WebSocketFactory.
+ * NostrClient opens its sockets through the global `WebSocket` instead, so
+ * `listen()` also routes `new WebSocket(relay.url)` to the relay until
+ * `close()` is called; other URLs fall through to the native WebSocket.
+ */
+
+import { Event, NostrKeyManager } from '@unicitylabs/nostr-js-sdk';
+import { logger } from '../../../core/logger';
+import { SphereError } from '../../../core/errors';
+import { hexToBytes } from '../../../core/crypto';
+import { NIP29_KINDS } from '../../../constants';
+import { WebSocketReadyState, defaultUUIDGenerator } from '../../../transport/websocket';
+import type { IWebSocket, IMessageEvent, WebSocketFactory } from '../../../transport/websocket';
+import type { MemoryRelayConfig, MemoryRelayGroup, RelayEvent, RelayFilter } from './memory-relay-types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** NIP-42 client authentication event kind */
+const AUTH_KIND = 22242;
+
+/** Maximum clock difference accepted for AUTH events (seconds) */
+const AUTH_MAX_AGE_SECONDS = 600;
+
+/** Group state kinds only the relay itself may sign */
+const GROUP_STATE_KINDS = new Set<number>([
+  NIP29_KINDS.GROUP_METADATA,
+  NIP29_KINDS.GROUP_ADMINS,
+  NIP29_KINDS.GROUP_MEMBERS,
+  NIP29_KINDS.GROUP_ROLES,
+]);
+
+/** Moderation kinds that require a group (or relay) admin */
+const GROUP_ADMIN_KINDS = new Set<number>([
+  NIP29_KINDS.PUT_USER,
+  NIP29_KINDS.REMOVE_USER,
+  NIP29_KINDS.EDIT_METADATA,
+  NIP29_KINDS.DELETE_EVENT,
+  NIP29_KINDS.DELETE_GROUP,
+  NIP29_KINDS.CREATE_INVITE,
+]);
+
+const GROUP_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+let relayCounter = 0;
+
+// =============================================================================
+// Event helpers
+// =============================================================================
+
+/** Kinds where only the latest event per author and kind is kept */
+export function isReplaceableKind(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+}
+
+/** Kinds that are forwarded to subscribers but never stored */
+export function isEphemeralKind(kind: number): boolean {
+  return kind >= 20000 && kind < 30000;
+}
+
+/** Kinds where only the latest event per author, kind and `d` tag is kept */
+export function isParameterizedReplaceableKind(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+/**
+ * NIP-01 filter match. All given conditions must hold; `#<tag>` conditions
+ * match when any tag of that name carries one of the listed values.
+ */
+export function matchesFilter(event: RelayEvent, filter: RelayFilter): boolean {
+  if (filter.ids && !filter.ids.includes(event.id)) return false;
+  if (filter.authors && !filter.authors.includes(event.pubkey)) return false;
+  if (filter.kinds && !filter.kinds.includes(event.kind)) return false;
+  if (filter.since !== undefined && event.created_at < filter.since) return false;
+  if (filter.until !== undefined && event.created_at > filter.until) return false;
+
+  for (const [key, values] of Object.entries(filter)) {
+    if (!key.startsWith('#') || !Array.isArray(values)) continue;
+    const name = key.slice(1);
+    if (!event.tags.some((tag) => tag[0] === name && values.includes(tag[1]))) return false;
+  }
+  return true;
+}
+
+function tagValue(event: RelayEvent, name: string): string | undefined {
+  return event.tags.find((tag) => tag[0] === name)?.[1];
+}
+
+/** Whether `a` wins over `b` as the current version of a replaceable event */
+function isNewer(a: RelayEvent, b: RelayEvent): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id < b.id);
+}
+
+function normalizeRelayUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/** Parse and verify a signed event, or return null */
+function parseSignedEvent(raw: unknown): RelayEvent | null {
+  try {
+    const event = Event.fromJSON(raw);
+    return event.verify() ? (event.toJSON() as RelayEvent) : null;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// In-process socket
+// =============================================================================
+
+interface SocketPeer {
+  onOpen(socket: MemoryRelaySocket): void;
+  onMessage(socket: MemoryRelaySocket, data: string): void;
+  onClose(socket: MemoryRelaySocket): void;
+}
+
+/**
+ * Client end of an in-process connection. Every frame is delivered on a
+ * later macrotask, like a real socket, so callers can attach handlers after
+ * construction and pending promises settle before replies arrive.
+ */
+class MemoryRelaySocket implements IWebSocket {
+  readyState: number = WebSocketReadyState.CONNECTING;
+
+  onopen: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: IMessageEvent) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    private readonly peer: SocketPeer,
+  ) {
+    setTimeout(() => peer.onOpen(this), 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== WebSocketReadyState.OPEN) {
+      throw new SphereError('WebSocket is not open', 'TRANSPORT_ERROR');
+    }
+    setTimeout(() => {
+      if (this.readyState === WebSocketReadyState.OPEN) this.peer.onMessage(this, data);
+    }, 0);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState >= WebSocketReadyState.CLOSING) return;
+    this.readyState = WebSocketReadyState.CLOSING;
+    setTimeout(() => this.terminate(code, reason), 0);
+  }
+
+  /** Relay side: accept the connection */
+  open(): void {
+    if (this.readyState !== WebSocketReadyState.CONNECTING) return;
+    this.readyState = WebSocketReadyState.OPEN;
+    this.onopen?.({ type: 'open' });
+  }
+
+  /** Relay side: push a frame to the client */
+  deliver(data: string): void {
+    setTimeout(() => {
+      if (this.readyState === WebSocketReadyState.OPEN) this.onmessage?.({ data });
+    }, 0);
+  }
+
+  /** Close immediately, from either side */
+  terminate(code: number, reason: string): void {
+    if (this.readyState === WebSocketReadyState.CLOSED) return;
+    const wasOpen = this.readyState !== WebSocketReadyState.CONNECTING;
+    this.readyState = WebSocketReadyState.CLOSED;
+    this.peer.onClose(this);
+    if (!wasOpen) this.onerror?.({ type: 'error', message: reason });
+    this.onclose?.({ code, reason, wasClean: code === 1000 });
+  }
+}
+
+/** Relay-side state of one client connection */
+interface RelayConnection {
+  socket: MemoryRelaySocket;
+  /** NIP-42 challenge sent on connect */
+  challenge: string;
+  /** Pubkeys that completed AUTH on this connection */
+  authed: Set<string>;
+  subscriptions: Map<string, RelayFilter[]>;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export class MemoryRelay {
+  readonly url: string;
+
+  private readonly keyManager: NostrKeyManager;
+  private readonly requireAuth: boolean;
+  private readonly relayAdmins: Set<string>;
+  /** Stored events by id, in arrival order */
+  private readonly events = new Map<string, RelayEvent>();
+  private readonly groups = new Map<string, MemoryRelayGroup>();
+  private readonly connections = new Map<MemoryRelaySocket, RelayConnection>();
+
+  constructor(config: MemoryRelayConfig = {}) {
+    this.url = normalizeRelayUrl(config.url ?? `ws://memory-relay-${++relayCounter}`);
+    this.keyManager = config.privateKey
+      ? NostrKeyManager.fromPrivateKey(hexToBytes(config.privateKey))
+      : NostrKeyManager.generate();
+    this.requireAuth = config.requireAuth ?? false;
+    this.relayAdmins = new Set(config.admins ?? []);
+    if (config.debug) logger.setTagDebug('MemoryRelay', true);
+
+    if (this.relayAdmins.size > 0) {
+      this.store(this.sign(NIP29_KINDS.GROUP_ADMINS, [
+        ['d', ''],
+        ...Array.from(this.relayAdmins, (pubkey) => ['p', pubkey, 'admin']),
+      ]), true);
+    }
+  }
+
+  /**
+   * WebSocketFactory connecting to this relay, whatever the URL.
+   * Pass it as `createWebSocket` to transports and other socket consumers.
+   */
+  readonly createWebSocket: WebSocketFactory = (url: string) =>
+    new MemoryRelaySocket(url, {
+      onOpen: (socket) => this.handleOpen(socket),
+      onMessage: (socket, data) => this.handleMessage(socket, data),
+      onClose: (socket) => this.connections.delete(socket),
+    });
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Route `new WebSocket(this.url)` to this relay until `close()`.
+   * Needed for clients that open sockets through the global WebSocket,
+   * such as NostrClient.
+   */
+  listen(): this {
+    registerRelay(this);
+    this.log(`Listening on ${this.url}`);
+    return this;
+  }
+
+  /** Disconnect every client and stop routing `this.url` to the relay */
+  close(): void {
+    unregisterRelay(this);
+    this.disconnectAll(1001, 'relay closed');
+  }
+
+  /** Drop every connection while keeping stored events, e.g. to test reconnects */
+  disconnectAll(code = 1006, reason = 'connection lost'): void {
+    for (const socket of Array.from(this.connections.keys())) {
+      socket.terminate(code, reason);
+    }
+  }
+
+  /** Pubkey the relay signs NIP-29 group state with */
+  getPublicKey(): string {
+    return this.keyManager.getPublicKeyHex();
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  /** Stored events matching `filter`, newest first (ignores read restrictions) */
+  query(filter: RelayFilter = {}): RelayEvent[] {
+    const matched = Array.from(this.events.values())
+      .filter((event) => matchesFilter(event, filter))
+      .sort((a, b) => (isNewer(a, b) ? -1 : 1));
+    return filter.limit !== undefined ? matched.slice(0, filter.limit) : matched;
+  }
+
+  // ===========================================================================
+  // Protocol
+  // ===========================================================================
+
+  private handleOpen(socket: MemoryRelaySocket): void {
+    if (socket.readyState !== WebSocketReadyState.CONNECTING) return;
+    const connection: RelayConnection = {
+      socket,
+      challenge: defaultUUIDGenerator(),
+      authed: new Set(),
+      subscriptions: new Map(),
+    };
+    this.connections.set(socket, connection);
+    socket.open();
+    this.send(connection, ['AUTH', connection.challenge]);
+    this.log(`Client connected (${this.connections.size} open)`);
+  }
+
+  private handleMessage(socket: MemoryRelaySocket, data: string): void {
+    const connection = this.connections.get(socket);
+    if (!connection) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.send(connection, ['NOTICE', 'error: invalid JSON']);
+      return;
+    }
+    if (!Array.isArray(message) || typeof message[0] !== 'string') {
+      this.send(connection, ['NOTICE', 'error: invalid message']);
+      return;
+    }
+
+    switch (message[0]) {
+      case 'EVENT':
+        this.handleEvent(connection, message[1]);
+        break;
+      case 'REQ':
+        this.handleReq(connection, message[1], message.slice(2));
+        break;
+      case 'CLOSE':
+        connection.subscriptions.delete(String(message[1]));
+        break;
+      case 'AUTH':
+        this.handleAuth(connection, message[1]);
+        break;
+      default:
+        this.send(connection, ['NOTICE', `error: unknown message type ${message[0]}`]);
+    }
+  }
+
+  private handleEvent(connection: RelayConnection, raw: unknown): void {
+    const rawId = typeof (raw as { id?: unknown })?.id === 'string' ? (raw as { id: string }).id : '';
+    const event = parseSignedEvent(raw);
+    if (!event) {
+      this.ok(connection, rawId, false, 'invalid: bad event id or signature');
+      return;
+    }
+    if (this.requireAuth && connection.authed.size === 0) {
+      this.ok(connection, event.id, false, 'auth-required: authenticate first');
+      return;
+    }
+    if (event.kind === AUTH_KIND) {
+      this.ok(connection, event.id, false, 'invalid: AUTH events must be sent in an AUTH message');
+      return;
+    }
+    if (this.events.has(event.id)) {
+      this.ok(connection, event.id, true, 'duplicate: already have this event');
+      return;
+    }
+    if (GROUP_STATE_KINDS.has(event.kind)) {
+      this.ok(connection, event.id, false, 'restricted: group state is signed by the relay');
+      return;
+    }
+
+    const groupError = this.applyGroupEvent(event);
+    if (groupError) {
+      this.log(`Rejected ${event.kind} from ${event.pubkey.slice(0, 8)}: ${groupError}`);
+      this.ok(connection, event.id, false, groupError);
+      return;
+    }
+
+    const stored = this.store(event);
+    this.ok(connection, event.id, true, stored ? '' : 'duplicate: have a newer version');
+  }
+
+  private handleReq(connection: RelayConnection, subscriptionId: unknown, filters: unknown[]): void {
+    if (typeof subscriptionId !== 'string') {
+      this.send(connection, ['NOTICE', 'error: invalid subscription id']);
+      return;
+    }
+    if (this.requireAuth && connection.authed.size === 0) {
+      this.send(connection, ['CLOSED', subscriptionId, 'auth-required: authenticate first']);
+      return;
+    }
+
+    const relayFilters = filters.filter((f): f is RelayFilter => typeof f === 'object' && f !== null);
+    connection.subscriptions.set(subscriptionId, relayFilters);
+
+    const matched = new Map<string, RelayEvent>();
+    for (const filter of relayFilters) {
+      const readable = this.query({ ...filter, limit: undefined }).filter((event) => this.canRead(connection, event));
+      const limited = filter.limit !== undefined ? readable.slice(0, filter.limit) : readable;
+      for (const event of limited) matched.set(event.id, event);
+    }
+
+    for (const event of matched.values()) {
+      this.send(connection, ['EVENT', subscriptionId, event]);
+    }
+    this.send(connection, ['EOSE', subscriptionId]);
+  }
+
+  private handleAuth(connection: RelayConnection, raw: unknown): void {
+    const event = parseSignedEvent(raw);
+    const now = Math.floor(Date.now() / 1000);
+    const valid = event !== null
+      && event.kind === AUTH_KIND
+      && tagValue(event, 'challenge') === connection.challenge
+      && normalizeRelayUrl(tagValue(event, 'relay') ?? '') === normalizeRelayUrl(connection.socket.url)
+      && Math.abs(now - event.created_at) <= AUTH_MAX_AGE_SECONDS;
+
+    if (!valid) {
+      this.ok(connection, event?.id ?? '', false, 'invalid: bad AUTH event');
+      return;
+    }
+    connection.authed.add(event.pubkey);
+    this.ok(connection, event.id, true, '');
+    this.log(`Authenticated ${event.pubkey.slice(0, 8)}`);
+  }
+
+  // ===========================================================================
+  // Storage & fan-out
+  // ===========================================================================
+
+  /**
+   * Store `event` (unless ephemeral) and forward it to matching subscriptions.
+   * Returns false when a newer version of a replaceable event is already
+   * stored, unless `force` is set.
+   */
+  private store(event: RelayEvent, force = false): boolean {
+    if (!isEphemeralKind(event.kind)) {
+      const previous = this.findReplaceable(event);
+      if (previous) {
+        if (!force && isNewer(previous, event)) return false;
+        this.events.delete(previous.id);
+      }
+      this.events.set(event.id, event);
+    }
+    this.broadcast(event);
+    return true;
+  }
+
+  private findReplaceable(event: RelayEvent): RelayEvent | undefined {
+    const parameterized = isParameterizedReplaceableKind(event.kind);
+    if (!parameterized && !isReplaceableKind(event.kind)) return undefined;
+
+    const d = tagValue(event, 'd') ?? '';
+    for (const stored of this.events.values()) {
+      if (stored.kind !== event.kind || stored.pubkey !== event.pubkey) continue;
+      if (!parameterized || (tagValue(stored, 'd') ?? '') === d) return stored;
+    }
+    return undefined;
+  }
+
+  private broadcast(event: RelayEvent): void {
+    for (const connection of this.connections.values()) {
+      if (!this.canRead(connection, event)) continue;
+      for (const [subscriptionId, filters] of connection.subscriptions) {
+        if (filters.some((filter) => matchesFilter(event, filter))) {
+          this.send(connection, ['EVENT', subscriptionId, event]);
+        }
+      }
+    }
+  }
+
+  /** Private group content and hidden group state are only served to members */
+  private canRead(connection: RelayConnection, event: RelayEvent): boolean {
+    const isGroupState = GROUP_STATE_KINDS.has(event.kind) && event.pubkey === this.getPublicKey();
+    const groupId = isGroupState ? tagValue(event, 'd') : tagValue(event, 'h');
+    const group = groupId ? this.groups.get(groupId) : undefined;
+    if (!group || !(isGroupState ? group.hidden : group.private)) return true;
+
+    return Array.from(connection.authed).some(
+      (pubkey) => group.members.has(pubkey) || this.isGroupAdmin(group, pubkey),
+    );
+  }
+
+  private send(connection: RelayConnection, message: unknown[]): void {
+    connection.socket.deliver(JSON.stringify(message));
+  }
+
+  private ok(connection: RelayConnection, eventId: string, accepted: boolean, message: string): void {
+    this.send(connection, ['OK', eventId, accepted, message]);
+  }
+
+  private sign(kind: number, tags: string[][], content = ''): RelayEvent {
+    return Event.create(this.keyManager, { kind, tags, content }).toJSON() as RelayEvent;
+  }
+
+  // ===========================================================================
+  // NIP-29 groups
+  // ===========================================================================
+
+  /**
+   * Validate and apply a group event. Returns the OK rejection message,
+   * or null when the event may be stored.
+   */
+  private applyGroupEvent(event: RelayEvent): string | null {
+    const groupId = tagValue(event, 'h');
+    const isGroupKind = event.kind === NIP29_KINDS.CREATE_GROUP
+      || event.kind === NIP29_KINDS.JOIN_REQUEST
+      || event.kind === NIP29_KINDS.LEAVE_REQUEST
+      || GROUP_ADMIN_KINDS.has(event.kind);
+
+    if (groupId === undefined) return isGroupKind ? 'invalid: missing h tag' : null;
+    if (event.kind === NIP29_KINDS.CREATE_GROUP) return this.createGroup(groupId, event);
+
+    const group = this.groups.get(groupId);
+    if (!group) return 'invalid: group not found';
+
+    if (event.kind === NIP29_KINDS.JOIN_REQUEST) return this.joinGroup(group, event);
+    if (event.kind === NIP29_KINDS.LEAVE_REQUEST) return this.leaveGroup(group, event);
+
+    if (GROUP_ADMIN_KINDS.has(event.kind)) {
+      if (!this.isGroupAdmin(group, event.pubkey)) return 'restricted: not a group admin';
+      return this.moderate(group, event);
+    }
+
+    if (!group.members.has(event.pubkey) && !this.isGroupAdmin(group, event.pubkey)) {
+      return 'restricted: not a member';
+    }
+    if (group.writeRestricted && !this.isGroupAdmin(group, event.pubkey)) {
+      return 'restricted: only admins can post';
+    }
+    return null;
+  }
+
+  private createGroup(groupId: string, event: RelayEvent): string | null {
+    if (!GROUP_ID_PATTERN.test(groupId)) return 'invalid: bad group id';
+    if (this.groups.has(groupId)) return 'duplicate: group already exists';
+
+    const group: MemoryRelayGroup = {
+      id: groupId,
+      private: false,
+      hidden: false,
+      closed: false,
+      writeRestricted: false,
+      admins: new Set([event.pubkey]),
+      members: new Set([event.pubkey]),
+      inviteCodes: new Set(),
+      createdAt: event.created_at,
+    };
+    applyGroupMetadata(group, event);
+    this.groups.set(groupId, group);
+    this.publishGroupState(group);
+    this.log(`Created group ${groupId}`);
+    return null;
+  }
+
+  private joinGroup(group: MemoryRelayGroup, event: RelayEvent): string | null {
+    if (group.members.has(event.pubkey)) return 'duplicate: already a member';
+    if (group.private) {
+      const code = tagValue(event, 'code');
+      if (!code || !group.inviteCodes.has(code)) return 'restricted: invite code required';
+    }
+    group.members.add(event.pubkey);
+    this.publishGroupState(group);
+    return null;
+  }
+
+  private leaveGroup(group: MemoryRelayGroup, event: RelayEvent): string | null {
+    if (!group.members.has(event.pubkey)) return 'invalid: not a member';
+    group.members.delete(event.pubkey);
+    group.admins.delete(event.pubkey);
+    this.store(this.sign(NIP29_KINDS.REMOVE_USER, [['h', group.id], ['p', event.pubkey]]));
+    this.publishGroupState(group);
+    return null;
+  }
+
+  private moderate(group: MemoryRelayGroup, event: RelayEvent): string | null {
+    const pubkeys = event.tags.filter((tag) => tag[0] === 'p' && tag[1]);
+
+    switch (event.kind) {
+      case NIP29_KINDS.PUT_USER:
+        for (const tag of pubkeys) {
+          group.members.add(tag[1]);
+          if (tag.slice(2).includes('admin')) group.admins.add(tag[1]);
+        }
+        break;
+
+      case NIP29_KINDS.REMOVE_USER:
+        for (const tag of pubkeys) {
+          group.members.delete(tag[1]);
+          group.admins.delete(tag[1]);
+        }
+        break;
+
+      case NIP29_KINDS.EDIT_METADATA:
+        applyGroupMetadata(group, event);
+        break;
+
+      case NIP29_KINDS.DELETE_EVENT:
+        for (const tag of event.tags) {
+          const target = tag[0] === 'e' ? this.events.get(tag[1]) : undefined;
+          if (target && tagValue(target, 'h') === group.id) this.events.delete(target.id);
+        }
+        return null;
+
+      case NIP29_KINDS.CREATE_INVITE: {
+        const code = tagValue(event, 'code');
+        if (!code) return 'invalid: missing code tag';
+        group.inviteCodes.add(code);
+        return null;
+      }
+
+      case NIP29_KINDS.DELETE_GROUP:
+        this.groups.delete(group.id);
+        for (const stored of Array.from(this.events.values())) {
+          const isGroupState = GROUP_STATE_KINDS.has(stored.kind) && stored.pubkey === this.getPublicKey();
+          if (tagValue(stored, isGroupState ? 'd' : 'h') === group.id) this.events.delete(stored.id);
+        }
+        this.log(`Deleted group ${group.id}`);
+        return null;
+    }
+
+    this.publishGroupState(group);
+    return null;
+  }
+
+  private isGroupAdmin(group: MemoryRelayGroup, pubkey: string): boolean {
+    return group.admins.has(pubkey) || this.relayAdmins.has(pubkey);
+  }
+
+  /** Re-sign the group's metadata, admin and member lists */
+  private publishGroupState(group: MemoryRelayGroup): void {
+    const metadata: string[][] = [['d', group.id]];
+    if (group.name) metadata.push(['name', group.name]);
+    if (group.about) metadata.push(['about', group.about]);
+    if (group.picture) metadata.push(['picture', group.picture]);
+    metadata.push([group.private ? 'private' : 'public']);
+    metadata.push([group.closed ? 'closed' : 'open']);
+    if (group.hidden) metadata.push(['hidden']);
+    if (group.writeRestricted) metadata.push(['write-restricted']);
+
+    this.store(this.sign(NIP29_KINDS.GROUP_METADATA, metadata), true);
+    this.store(this.sign(NIP29_KINDS.GROUP_ADMINS, [
+      ['d', group.id],
+      ...Array.from(group.admins, (pubkey) => ['p', pubkey, 'admin']),
+    ]), true);
+    this.store(this.sign(NIP29_KINDS.GROUP_MEMBERS, [
+      ['d', group.id],
+      ...Array.from(group.members, (pubkey) => ['p', pubkey]),
+    ]), true);
+  }
+
+  private log(message: string): void {
+    logger.debug('MemoryRelay', message);
+  }
+}
+
+/**
+ * Apply metadata from a CREATE_GROUP / EDIT_METADATA event: JSON content
+ * as sent by GroupChatModule first, then NIP-29 tags.
+ */
+function applyGroupMetadata(group: MemoryRelayGroup, event: RelayEvent): void {
+  let content: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(event.content);
+    if (parsed && typeof parsed === 'object') content = parsed as Record<string, unknown>;
+  } catch {
+    // Tags only
+  }
+
+  if (typeof content.name === 'string') group.name = content.name;
+  if (typeof content.about === 'string') group.about = content.about;
+  if (typeof content.picture === 'string') group.picture = content.picture;
+  if (typeof content.private === 'boolean') group.private = content.private;
+  if (typeof content.hidden === 'boolean') group.hidden = content.hidden;
+  if (typeof content.closed === 'boolean') group.closed = content.closed;
+  if (typeof content['write-restricted'] === 'boolean') group.writeRestricted = content['write-restricted'];
+
+  for (const tag of event.tags) {
+    switch (tag[0]) {
+      case 'name': group.name = tag[1]; break;
+      case 'about': group.about = tag[1]; break;
+      case 'picture': group.picture = tag[1]; break;
+      case 'private': group.private = true; break;
+      case 'public': group.private = false; break;
+      case 'hidden': group.hidden = true; break;
+      case 'visible': group.hidden = false; break;
+      case 'closed': group.closed = true; break;
+      case 'open': group.closed = false; break;
+      case 'write-restricted': group.writeRestricted = true; break;
+    }
+  }
+}
+
+// =============================================================================
+// Global WebSocket routing
+// =============================================================================
+
+const listeningRelays = new Map<string, MemoryRelay>();
+let nativeWebSocket: unknown;
+
+/**
+ * Stand-in for the global WebSocket constructor while relays are listening.
+ * Returning an object from a constructor makes `new` yield that object.
+ */
+function MemoryRelayWebSocket(url: string): IWebSocket {
+  const relay = listeningRelays.get(normalizeRelayUrl(url));
+  if (relay) return relay.createWebSocket(url);
+  if (nativeWebSocket) return new (nativeWebSocket as new (url: string) => IWebSocket)(url);
+  throw new SphereError(`No memory relay is listening on ${url}`, 'TRANSPORT_ERROR');
+}
+Object.assign(MemoryRelayWebSocket, WebSocketReadyState);
+
+function registerRelay(relay: MemoryRelay): void {
+  const current = listeningRelays.get(relay.url);
+  if (current === relay) return;
+  if (current) {
+    throw new SphereError(`Another memory relay is already listening on ${relay.url}`, 'INVALID_CONFIG');
+  }
+
+  const scope = globalThis as { WebSocket?: unknown };
+  if (listeningRelays.size === 0) {
+    nativeWebSocket = scope.WebSocket;
+    scope.WebSocket = MemoryRelayWebSocket;
+  }
+  listeningRelays.set(relay.url, relay);
+}
+
+function unregisterRelay(relay: MemoryRelay): void {
+  if (listeningRelays.get(relay.url) !== relay) return;
+  listeningRelays.delete(relay.url);
+
+  if (listeningRelays.size === 0) {
+    const scope = globalThis as { WebSocket?: unknown };
+    if (nativeWebSocket === undefined) delete scope.WebSocket;
+    else scope.WebSocket = nativeWebSocket;
+    nativeWebSocket = undefined;
+  }
+}
+
+/**
+ * Create a relay and start listening on its URL.
+ */
+export function createMemoryRelay(config?: MemoryRelayConfig): MemoryRelay {
+  return new MemoryRelay(config).listen();
+}
@@ -77,6 +77,10 @@ export function resolveTransportConfig(
     relays,
     timeout: config?.timeout,
     autoReconnect: config?.autoReconnect,
+    paymentDelivery: config?.paymentDelivery,
+    // Fail over only to relays of the same network
+    relayHealth: { candidateRelays: [...networkConfig.nostrRelays], ...config?.relayHealth },
+    outbox: config?.outbox,
     debug: config?.debug,
     // Browser-specific
     reconnectDelay: config?.reconnectDelay,
@@ -154,6 +158,7 @@ export function resolveL1Config(
     electrumUrl: config.electrumUrl ?? networkConfig.electrumUrl,
     defaultFeeRate: config.defaultFeeRate,
     enableVesting: config.enableVesting,
+    coinSelection: config.coinSelection,
   };
 }
 
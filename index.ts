@@ -56,6 +56,7 @@ export type {
   SphereInitOptions,
   SphereInitResult,
   SphereImportOptions,
+  SphereWatchOptions,
   InitProgressStep,
   InitProgress,
   InitProgressCallback,
@@ -72,6 +73,8 @@ export type {
   LogHandler,
   LoggerConfig,
   SphereErrorCode,
+  MnemonicShareInfo,
+  SplitMnemonicOptions,
 } from './core';
 
 // =============================================================================
@@ -108,6 +111,15 @@ export {
   randomBytes,
   identityFromMnemonicSync,
   deriveAddressInfo,
+  getExtendedPublicKey,
+  parseExtendedPublicKey,
+  serializeExtendedPublicKey,
+  deriveChildPublicKey,
+  derivePublicAddressInfo,
+  // Mnemonic shares
+  splitMnemonic,
+  combineMnemonicShares,
+  parseMnemonicShare,
   // Currency
   toSmallestUnit,
   toHumanReadable,
@@ -155,6 +167,41 @@ export type {
   TxfOutboxEntry,
   TxfSentEntry,
   TxfInvalidEntry,
+  TokenStorageChanges,
+  StorageKeySource,
+  StorageEncryptionHeader,
+  SyncOptions,
+  MergeSide,
+  MergePolicy,
+  TokenConflict,
+  ConflictReport,
+  StorageMigration,
+  MigrationContext,
+  MigrationStore,
+  MigrationTokenStore,
+  MigrationProgress,
+  MigrateOptions,
+  MigrationReport,
+  SchemaVersions,
+  StorageMigrationSnapshot,
+} from './storage';
+
+export {
+  // At-rest storage encryption
+  StorageKeyring,
+  EncryptedStorageProvider,
+  EncryptedTokenStorageProvider,
+  createEncryptedStorageProvider,
+  createEncryptedTokenStorageProvider,
+  // Sync merge policies
+  localWinsMergePolicy,
+  remoteWinsMergePolicy,
+  longestHistoryMergePolicy,
+  // Storage schema migrations
+  StorageMigrator,
+  createStorageMigrator,
+  SPHERE_STORAGE_MIGRATIONS,
+  SPHERE_MIGRATION_NAMESPACE,
 } from './storage';
 
 export type {
@@ -168,9 +215,35 @@ export type {
   IncomingTokenTransfer,
   IncomingBroadcast,
   TokenTransferPayload,
+  EscrowPayload,
+  EscrowOfferPayload,
+  EscrowClaimPayload,
+  EscrowReleasedPayload,
+  EscrowRefundedPayload,
+  SwapPayload,
+  SwapOfferPayload,
+  SwapAcceptPayload,
+  SwapDeclinePayload,
+  RecoveryPayload,
+  RecoveryShareDepositPayload,
+  RecoveryShareAckPayload,
+  RecoveryShareRevokePayload,
+  RecoveryRequestPayload,
+  RecoveryResponsePayload,
+  IncomingRecoveryMessage,
+  RecoveryMessageHandler,
+  TransferReceiptPayload,
+  IncomingTransferReceipt,
+  TransferReceiptHandler,
   TransportEvent,
   TransportEventType,
   TransportEventCallback,
+  PaymentDeliveryMode,
+  RelayHealthConfig,
+  RelayHealthState,
+  RelayMetrics,
+  RelayFailoverPlan,
+  RelayList,
 } from './transport';
 
 export type {
@@ -205,6 +278,7 @@ export {
 export type {
   PaymentsModuleConfig,
   PaymentsModuleDependencies,
+  TransferRedeliveryConfig,
   ReceiveOptions,
   ReceiveResult,
   TransactionHistoryEntry,
@@ -255,6 +329,66 @@ export type {
   IntentStatus,
 } from './modules/market';
 
+export {
+  ScheduledPaymentsModule,
+  createScheduledPaymentsModule,
+} from './modules/scheduled';
+export type {
+  ScheduledPaymentsModuleConfig,
+  ScheduledPaymentsModuleDependencies,
+  CreateScheduleRequest,
+  ScheduledPayment,
+  ScheduleInterval,
+  ScheduleUnit,
+  ScheduleStatus,
+  ScheduleRunResult,
+  ScheduleExecutedEvent,
+  ScheduleFailedEvent,
+} from './modules/scheduled';
+
+export {
+  InvoicesModule,
+  createInvoicesModule,
+  computeInvoiceReference,
+  formatInvoiceMemo,
+  parseInvoiceReference,
+  serializeInvoiceDocument,
+  verifySignedInvoice,
+} from './modules/invoices';
+export type {
+  InvoicesModuleDependencies,
+  CreateInvoiceRequest,
+  Invoice,
+  InvoiceStatus,
+  InvoiceLineItem,
+  InvoicePayment,
+  InvoiceDocument,
+  SignedInvoice,
+} from './modules/invoices';
+
+export {
+  RecoveryModule,
+  createRecoveryModule,
+  RecoverySession,
+  createRecoverySession,
+} from './modules/recovery';
+export type {
+  RecoveryModuleDependencies,
+  RecoverySessionOptions,
+  RecoverySessionEventType,
+  RecoverySessionEventHandler,
+  SetupGuardiansRequest,
+  GuardianSetup,
+  RecoveryGuardian,
+  HeldRecoveryShare,
+  RecoveryRequest,
+  RecoveryRequestStatus,
+  RecoveryGuardianConfirmedEvent,
+  RecoveryShareReceivedEvent,
+  RecoveryDeclinedEvent,
+  RecoveryTimeoutEvent,
+} from './modules/recovery';
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -321,9 +455,19 @@ export {
   isWalletDatEncrypted,
   decryptCMasterKey,
   decryptPrivateKey,
+  // Full wallet backup
+  encryptWalletBackup,
+  decryptWalletBackup,
+  isWalletBackup,
+  WALLET_BACKUP_FORMAT,
+  WALLET_BACKUP_VERSION,
 } from './serialization';
 
 export type {
+  WalletBackup,
+  WalletBackupAddress,
+  WalletBackupTokenSnapshot,
+  EncryptedWalletBackup,
   LegacyFileType,
   LegacyFileInfo,
   LegacyFileParsedData,
@@ -395,6 +539,10 @@ export type {
   L1Balance,
   L1Utxo,
   L1Transaction,
+  L1FeeBumpResult,
+  L1FeeBumpRecord,
+  L1AddressSource,
+  L1PsbtResult,
 } from './modules/payments';
 
 // L1 Low-level SDK
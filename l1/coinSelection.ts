@@ -0,0 +1,299 @@
+/**
+ * L1 coin selection strategies
+ *
+ * A coin selector picks the UTXOs that fund a single transaction paying
+ * `amount` sats to one recipient at `feeRate` sat/vB. Building the
+ * transaction (change output, dust handling) is left to collectUtxosForAmount.
+ */
+import { SphereError } from '../core/errors';
+import {
+  DUST_THRESHOLD,
+  estimateInputFee,
+  estimateTransactionFee,
+} from './fees';
+import type { ClassifiedUTXO } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CoinSelectionTarget {
+  /** Amount to pay the recipient, in sats */
+  amount: number;
+  /** Fee rate in sat/vB */
+  feeRate: number;
+}
+
+/**
+ * Pluggable coin selection strategy.
+ * Returns the UTXOs to spend, or null when the target cannot be funded.
+ */
+export interface L1CoinSelector {
+  readonly name: string;
+  /**
+   * Select from the UTXOs of all wallet addresses instead of the sender
+   * address alone, and send change to a fresh change address
+   */
+  readonly acrossAddresses?: boolean;
+  select(utxos: ClassifiedUTXO[], target: CoinSelectionTarget): ClassifiedUTXO[] | null;
+}
+
+/** Names of the built-in coin selection strategies */
+export type L1CoinSelectionStrategy =
+  | 'default'
+  | 'branch-and-bound'
+  | 'largest-first'
+  | 'oldest-first'
+  | 'privacy';
+
+export type L1VestingClass = 'vested' | 'unvested';
+
+/**
+ * Which vesting class of UTXOs a selection may spend.
+ * UTXOs without a `vestingStatus` are excluded whenever `exclude` is set.
+ */
+export interface L1VestingPolicy {
+  /** Never spend UTXOs of this class */
+  exclude?: L1VestingClass;
+  /** Try to fund the transaction from this class alone before mixing in the other */
+  prefer?: L1VestingClass;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function sumValues(utxos: ClassifiedUTXO[]): number {
+  return utxos.reduce((sum, u) => sum + u.value, 0);
+}
+
+/** Whether the selected UTXOs cover amount + fee of a changeless transaction */
+function coversTarget(value: number, inputCount: number, target: CoinSelectionTarget): boolean {
+  return value >= target.amount + estimateTransactionFee(inputCount, 1, target.feeRate);
+}
+
+/**
+ * Add UTXOs in the given order until the target is covered.
+ * UTXOs that cost more to spend than they are worth are skipped.
+ */
+function accumulate(ordered: ClassifiedUTXO[], target: CoinSelectionTarget): ClassifiedUTXO[] | null {
+  const inputFee = estimateInputFee(target.feeRate);
+  const selected: ClassifiedUTXO[] = [];
+  let selectedValue = 0;
+
+  for (const utxo of ordered) {
+    if (utxo.value <= inputFee) continue;
+
+    selected.push(utxo);
+    selectedValue += utxo.value;
+
+    if (coversTarget(selectedValue, selected.length, target)) {
+      return selected;
+    }
+  }
+
+  return null;
+}
+
+/** Unconfirmed UTXOs (no height) sort after all confirmed ones */
+function confirmationHeight(utxo: ClassifiedUTXO): number {
+  return utxo.height && utxo.height > 0 ? utxo.height : Number.MAX_SAFE_INTEGER;
+}
+
+function vestingClassOf(utxo: ClassifiedUTXO): L1VestingClass | undefined {
+  if (!utxo.vestingStatus) return undefined;
+  // Classification errors are treated as unvested, matching VestingClassifier
+  return utxo.vestingStatus === 'vested' ? 'vested' : 'unvested';
+}
+
+// =============================================================================
+// Built-in selectors
+// =============================================================================
+
+/** Largest UTXOs first: fewest inputs, consolidates nothing small */
+export const largestFirstCoinSelector: L1CoinSelector = {
+  name: 'largest-first',
+  select(utxos, target) {
+    return accumulate([...utxos].sort((a, b) => b.value - a.value), target);
+  },
+};
+
+/**
+ * Smallest single UTXO that covers the target, else largest first.
+ * This is the historical index.html behaviour.
+ */
+export const defaultCoinSelector: L1CoinSelector = {
+  name: 'default',
+  select(utxos, target) {
+    const sufficient = [...utxos]
+      .sort((a, b) => a.value - b.value)
+      .find((u) => coversTarget(u.value, 1, target));
+    if (sufficient) return [sufficient];
+
+    return largestFirstCoinSelector.select(utxos, target);
+  },
+};
+
+/** Oldest confirmed UTXOs first (by block height), unconfirmed last */
+export const oldestFirstCoinSelector: L1CoinSelector = {
+  name: 'oldest-first',
+  select(utxos, target) {
+    const ordered = [...utxos].sort(
+      (a, b) => confirmationHeight(a) - confirmationHeight(b) || b.value - a.value
+    );
+    return accumulate(ordered, target);
+  },
+};
+
+/** Upper bound on visited nodes in the branch-and-bound search */
+const BNB_MAX_TRIES = 100_000;
+
+/**
+ * Branch-and-bound: depth-first search for an input set that pays amount + fee
+ * with no change output (the excess stays within the dust threshold and is
+ * paid to the miner). Among the solutions found, the one with the least excess
+ * wins. Falls back to largest-first when no changeless set exists.
+ */
+export const branchAndBoundCoinSelector: L1CoinSelector = {
+  name: 'branch-and-bound',
+  select(utxos, target) {
+    const inputFee = estimateInputFee(target.feeRate);
+    // Only UTXOs with positive effective value can help; try large ones first
+    const pool = utxos
+      .filter((u) => u.value > inputFee)
+      .sort((a, b) => b.value - a.value);
+
+    // remaining[i] = total value of pool[i..]
+    const remaining: number[] = new Array(pool.length + 1).fill(0);
+    for (let i = pool.length - 1; i >= 0; i--) {
+      remaining[i] = remaining[i + 1] + pool[i].value;
+    }
+
+    let best: ClassifiedUTXO[] | null = null;
+    let bestExcess = Infinity;
+    let tries = 0;
+    const current: ClassifiedUTXO[] = [];
+
+    const search = (index: number, value: number): void => {
+      if (++tries > BNB_MAX_TRIES || bestExcess === 0) return;
+
+      if (current.length > 0 && coversTarget(value, current.length, target)) {
+        const excess = value - target.amount - estimateTransactionFee(current.length, 1, target.feeRate);
+        const change = value - target.amount - estimateTransactionFee(current.length, 2, target.feeRate);
+        if (change <= DUST_THRESHOLD && excess < bestExcess) {
+          best = [...current];
+          bestExcess = excess;
+        }
+        // Adding more inputs only increases the excess
+        return;
+      }
+
+      if (index >= pool.length) return;
+      // Even all remaining UTXOs cannot reach the target
+      if (!coversTarget(value + remaining[index], current.length + pool.length - index, target)) return;
+
+      // Include pool[index]
+      current.push(pool[index]);
+      search(index + 1, value + pool[index].value);
+      current.pop();
+
+      // Exclude pool[index]
+      search(index + 1, value);
+    };
+
+    search(0, 0);
+
+    return best ?? largestFirstCoinSelector.select(utxos, target);
+  },
+};
+
+/**
+ * Privacy-preserving selection: UTXOs are spent per address, all coins of an
+ * address together, so no funds are left behind on an address whose public
+ * key has been revealed and addresses are not linked more than necessary.
+ * Prefers the smallest single address that covers the target, else combines
+ * whole addresses largest first. Selects across all wallet addresses; change
+ * goes to a fresh change address.
+ */
+export const privacyCoinSelector: L1CoinSelector = {
+  name: 'privacy',
+  acrossAddresses: true,
+  select(utxos, target) {
+    const groups = new Map<string, ClassifiedUTXO[]>();
+    for (const utxo of utxos) {
+      const key = utxo.address ?? '';
+      const group = groups.get(key);
+      if (group) {
+        group.push(utxo);
+      } else {
+        groups.set(key, [utxo]);
+      }
+    }
+
+    const ordered = [...groups.values()].sort((a, b) => sumValues(a) - sumValues(b));
+
+    const single = ordered.find((group) => coversTarget(sumValues(group), group.length, target));
+    if (single) return single;
+
+    const selected: ClassifiedUTXO[] = [];
+    for (const group of ordered.reverse()) {
+      selected.push(...group);
+      if (coversTarget(sumValues(selected), selected.length, target)) {
+        return selected;
+      }
+    }
+
+    return null;
+  },
+};
+
+const BUILT_IN_SELECTORS: Record<L1CoinSelectionStrategy, L1CoinSelector> = {
+  'default': defaultCoinSelector,
+  'branch-and-bound': branchAndBoundCoinSelector,
+  'largest-first': largestFirstCoinSelector,
+  'oldest-first': oldestFirstCoinSelector,
+  'privacy': privacyCoinSelector,
+};
+
+/**
+ * Resolve a strategy name (or a custom selector) to a selector
+ */
+export function getCoinSelector(strategy: L1CoinSelectionStrategy | L1CoinSelector = 'default'): L1CoinSelector {
+  if (typeof strategy !== 'string') return strategy;
+
+  const selector = BUILT_IN_SELECTORS[strategy];
+  if (!selector) {
+    throw new SphereError(`Unknown coin selection strategy: ${strategy}`, 'VALIDATION_ERROR');
+  }
+  return selector;
+}
+
+/**
+ * Wrap a selector so it honours a vesting policy.
+ * UTXOs must be classified (see VestingClassifier.classifyUtxos) for the
+ * policy to see their vesting status.
+ */
+export function withVestingPolicy(selector: L1CoinSelector, policy: L1VestingPolicy): L1CoinSelector {
+  if (!policy.exclude && !policy.prefer) return selector;
+
+  return {
+    name: `${selector.name}+vesting`,
+    acrossAddresses: selector.acrossAddresses,
+    select(utxos, target) {
+      const allowed = policy.exclude
+        ? utxos.filter((u) => {
+            const cls = vestingClassOf(u);
+            return cls !== undefined && cls !== policy.exclude;
+          })
+        : utxos;
+
+      if (policy.prefer && policy.prefer !== policy.exclude) {
+        const preferred = allowed.filter((u) => vestingClassOf(u) === policy.prefer);
+        const fromPreferred = preferred.length > 0 ? selector.select(preferred, target) : null;
+        if (fromPreferred) return fromPreferred;
+      }
+
+      return selector.select(allowed, target);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * L1 fee estimation for P2WPKH transactions
+ */
+
+/** Default fee rate in sat/vB */
+export const DEFAULT_FEE_RATE = 10;
+
+/** Incremental relay fee rate in sat/vB a replacement must add on top of the original fee (BIP125 rule 4) */
+export const INCREMENTAL_RELAY_FEE_RATE = 1;
+
+/** Outputs at or below this value (sats) are not created; the amount goes to the fee */
+export const DUST_THRESHOLD = 546;
+
+// Weight units for P2WPKH transactions (BIP141)
+const TX_OVERHEAD_WEIGHT = 42; // version + counts + locktime (x4) + marker/flag
+const P2WPKH_INPUT_WEIGHT = 272; // outpoint + scriptSig len + sequence (x4) + witness
+const P2WPKH_OUTPUT_WEIGHT = 124; // amount + script len + 22-byte script (x4)
+
+/**
+ * Estimate virtual size (vbytes) of a P2WPKH-only transaction.
+ * Signatures are assumed to be 72 bytes (worst-case DER), so the estimate
+ * never undershoots the real size.
+ */
+export function estimateTransactionVsize(inputCount: number, outputCount: number): number {
+  const weight =
+    TX_OVERHEAD_WEIGHT +
+    inputCount * P2WPKH_INPUT_WEIGHT +
+    outputCount * P2WPKH_OUTPUT_WEIGHT;
+  return Math.ceil(weight / 4);
+}
+
+/**
+ * Estimate fee in sats for a P2WPKH-only transaction at the given fee rate (sat/vB)
+ */
+export function estimateTransactionFee(
+  inputCount: number,
+  outputCount: number,
+  feeRate: number = DEFAULT_FEE_RATE
+): number {
+  return Math.ceil(estimateTransactionVsize(inputCount, outputCount) * feeRate);
+}
+
+/**
+ * Marginal fee (sats) of adding one P2WPKH input at the given fee rate
+ */
+export function estimateInputFee(feeRate: number = DEFAULT_FEE_RATE): number {
+  return Math.ceil((P2WPKH_INPUT_WEIGHT / 4) * feeRate);
+}
+
+/**
+ * Marginal fee (sats) of adding one P2WPKH output at the given fee rate
+ */
+export function estimateOutputFee(feeRate: number = DEFAULT_FEE_RATE): number {
+  return Math.ceil((P2WPKH_OUTPUT_WEIGHT / 4) * feeRate);
+}
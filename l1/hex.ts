@@ -0,0 +1,76 @@
+/**
+ * Little-endian hex encoding helpers for Bitcoin-style serialization
+ */
+import CryptoJS from "crypto-js";
+
+export function reverseHex(hex: string): string {
+  return hex.match(/../g)!.reverse().join("");
+}
+
+export function uint32LE(value: number): string {
+  return reverseHex(value.toString(16).padStart(8, "0"));
+}
+
+export function uint64LE(value: number): string {
+  return reverseHex(value.toString(16).padStart(16, "0"));
+}
+
+export function varInt(value: number): string {
+  if (value < 0xfd) return value.toString(16).padStart(2, "0");
+  if (value <= 0xffff) return "fd" + reverseHex(value.toString(16).padStart(4, "0"));
+  return "fe" + uint32LE(value);
+}
+
+export function doubleSha256(hex: string): string {
+  return CryptoJS.SHA256(CryptoJS.SHA256(CryptoJS.enc.Hex.parse(hex))).toString();
+}
+
+export function hash160(hex: string): string {
+  return CryptoJS.RIPEMD160(CryptoJS.SHA256(CryptoJS.enc.Hex.parse(hex))).toString();
+}
+
+/**
+ * Sequential reader over a hex string
+ */
+export class HexReader {
+  private offset = 0;
+
+  constructor(private readonly hex: string) {}
+
+  get remaining(): number {
+    return (this.hex.length - this.offset) / 2;
+  }
+
+  bytes(length: number): string {
+    if (length > this.remaining) {
+      throw new RangeError(`Unexpected end of data: need ${length} bytes, have ${this.remaining}`);
+    }
+    const out = this.hex.slice(this.offset, this.offset + length * 2);
+    this.offset += length * 2;
+    return out;
+  }
+
+  uint8(): number {
+    return parseInt(this.bytes(1), 16);
+  }
+
+  uint32LE(): number {
+    return parseInt(reverseHex(this.bytes(4)), 16);
+  }
+
+  uint64LE(): number {
+    return parseInt(reverseHex(this.bytes(8)), 16);
+  }
+
+  varInt(): number {
+    const first = this.uint8();
+    if (first < 0xfd) return first;
+    if (first === 0xfd) return parseInt(reverseHex(this.bytes(2)), 16);
+    if (first === 0xfe) return this.uint32LE();
+    return this.uint64LE();
+  }
+
+  varBytes(): string {
+    return this.bytes(this.varInt());
+  }
+}
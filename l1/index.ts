@@ -67,6 +67,35 @@ export {
 } from './network';
 export type { BlockHeader, TransactionHistoryItem, TransactionDetail } from './network';
 
+// Fee estimation
+export {
+  DEFAULT_FEE_RATE,
+  DUST_THRESHOLD,
+  INCREMENTAL_RELAY_FEE_RATE,
+  estimateTransactionVsize,
+  estimateTransactionFee,
+  estimateInputFee,
+  estimateOutputFee,
+} from './fees';
+
+// Coin selection
+export {
+  defaultCoinSelector,
+  branchAndBoundCoinSelector,
+  largestFirstCoinSelector,
+  oldestFirstCoinSelector,
+  privacyCoinSelector,
+  getCoinSelector,
+  withVestingPolicy,
+} from './coinSelection';
+export type {
+  L1CoinSelector,
+  L1CoinSelectionStrategy,
+  L1VestingClass,
+  L1VestingPolicy,
+  CoinSelectionTarget,
+} from './coinSelection';
+
 // Transaction building
 export {
   createScriptPubKey,
@@ -74,8 +103,32 @@ export {
   createAndSignTransaction,
   collectUtxosForAmount,
   createTransactionPlan,
+  createReplacementTransaction,
+  createCpfpTransaction,
   sendAlpha,
 } from './tx';
+export type { SegWitInput, SegWitOutput, SegWitTxPlan, TransactionPlanOptions } from './tx';
+
+// PSBT (BIP174)
+export {
+  serializePsbt,
+  parsePsbt,
+  createPsbtFromTransaction,
+  signPsbt,
+  finalizePsbt,
+  extractTransaction,
+  getPsbtFee,
+  getPsbtTxid,
+} from './psbt';
+export type {
+  Psbt,
+  PsbtInput,
+  PsbtOutput,
+  PsbtKeyValue,
+  PsbtUnsignedTx,
+  PsbtUnsignedInput,
+  PsbtUnsignedOutput,
+} from './psbt';
 
 // Vesting classification
 export { vestingClassifier, VESTING_THRESHOLD } from './vesting';
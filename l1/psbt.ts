@@ -0,0 +1,391 @@
+/**
+ * Partially Signed Bitcoin Transactions (BIP174)
+ *
+ * Lets an online watch-only wallet build a transaction, an offline wallet
+ * sign it, and the online side finalize and broadcast it. Only P2WPKH
+ * inputs with SIGHASH_ALL are supported, matching what this SDK builds.
+ * PSBTs are exchanged base64-encoded; unknown fields are preserved.
+ */
+import CryptoJS from "crypto-js";
+import elliptic from "elliptic";
+import { SphereError } from "../core/errors";
+import { HexReader, doubleSha256, hash160, reverseHex, uint32LE, uint64LE, varInt } from "./hex";
+import {
+  DEFAULT_SEQUENCE,
+  createScriptPubKey,
+  createSegWitSignature,
+  getPrivateKeyForAddress,
+  serializeSegWitTransaction,
+  serializeUnsignedTransaction,
+  type SegWitTxPlan,
+} from "./tx";
+import type { Transaction, Wallet } from "./types";
+
+const ec = new elliptic.ec("secp256k1");
+
+const PSBT_MAGIC = "70736274ff"; // "psbt" + 0xff
+
+// Key types (BIP174)
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+const PSBT_IN_PARTIAL_SIG = 0x02;
+const PSBT_IN_SIGHASH_TYPE = 0x03;
+const PSBT_IN_FINAL_SCRIPTWITNESS = 0x08;
+
+const SIGHASH_ALL = 0x01;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Raw key-value pair of a PSBT map, kept for fields this module does not interpret */
+export interface PsbtKeyValue {
+  /** Key including its type byte (hex) */
+  key: string;
+  value: string;
+}
+
+export interface PsbtUnsignedInput {
+  tx_hash: string;
+  tx_pos: number;
+  sequence: number;
+}
+
+export interface PsbtUnsignedOutput {
+  value: number;
+  scriptPubKey: string;
+}
+
+/** Unsigned transaction carried in the PSBT global map */
+export interface PsbtUnsignedTx {
+  inputs: PsbtUnsignedInput[];
+  outputs: PsbtUnsignedOutput[];
+  locktime: number;
+}
+
+export interface PsbtInput {
+  /** Output being spent (amount in sats and its scriptPubKey) */
+  witnessUtxo?: { value: number; scriptPubKey: string };
+  /** Signatures (DER + sighash byte) by compressed public key */
+  partialSigs: Record<string, string>;
+  sighashType?: number;
+  /** Witness stack once the input is finalized */
+  finalScriptWitness?: string[];
+  unknown: PsbtKeyValue[];
+}
+
+export interface PsbtOutput {
+  unknown: PsbtKeyValue[];
+}
+
+export interface Psbt {
+  tx: PsbtUnsignedTx;
+  inputs: PsbtInput[];
+  outputs: PsbtOutput[];
+  unknown: PsbtKeyValue[];
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function invalid(message: string): SphereError {
+  return new SphereError(`Invalid PSBT: ${message}`, 'VALIDATION_ERROR');
+}
+
+function serializeKeyValue(key: string, value: string): string {
+  return varInt(key.length / 2) + key + varInt(value.length / 2) + value;
+}
+
+function keyType(type: number, keyData = ""): string {
+  return type.toString(16).padStart(2, "0") + keyData;
+}
+
+function serializeWitnessStack(stack: string[]): string {
+  return varInt(stack.length) + stack.map((item) => varInt(item.length / 2) + item).join("");
+}
+
+function toSegWitTxPlan(psbt: Psbt): SegWitTxPlan {
+  return {
+    inputs: psbt.tx.inputs.map((input, i) => ({
+      ...input,
+      value: psbt.inputs[i].witnessUtxo?.value ?? 0,
+    })),
+    outputs: psbt.tx.outputs,
+    locktime: psbt.tx.locktime,
+  };
+}
+
+/**
+ * Serialize a PSBT to base64
+ */
+export function serializePsbt(psbt: Psbt): string {
+  let hex = PSBT_MAGIC;
+
+  hex += serializeKeyValue(keyType(PSBT_GLOBAL_UNSIGNED_TX), serializeUnsignedTransaction(toSegWitTxPlan(psbt)));
+  for (const kv of psbt.unknown) hex += serializeKeyValue(kv.key, kv.value);
+  hex += "00";
+
+  for (const input of psbt.inputs) {
+    if (input.witnessUtxo) {
+      const { value, scriptPubKey } = input.witnessUtxo;
+      hex += serializeKeyValue(
+        keyType(PSBT_IN_WITNESS_UTXO),
+        uint64LE(value) + varInt(scriptPubKey.length / 2) + scriptPubKey
+      );
+    }
+    for (const [pubkey, signature] of Object.entries(input.partialSigs)) {
+      hex += serializeKeyValue(keyType(PSBT_IN_PARTIAL_SIG, pubkey), signature);
+    }
+    if (input.sighashType !== undefined) {
+      hex += serializeKeyValue(keyType(PSBT_IN_SIGHASH_TYPE), uint32LE(input.sighashType));
+    }
+    if (input.finalScriptWitness) {
+      hex += serializeKeyValue(keyType(PSBT_IN_FINAL_SCRIPTWITNESS), serializeWitnessStack(input.finalScriptWitness));
+    }
+    for (const kv of input.unknown) hex += serializeKeyValue(kv.key, kv.value);
+    hex += "00";
+  }
+
+  for (const output of psbt.outputs) {
+    for (const kv of output.unknown) hex += serializeKeyValue(kv.key, kv.value);
+    hex += "00";
+  }
+
+  return CryptoJS.enc.Hex.parse(hex).toString(CryptoJS.enc.Base64);
+}
+
+/** Read one key-value map; returns the entries in order */
+function readMap(reader: HexReader): PsbtKeyValue[] {
+  const entries: PsbtKeyValue[] = [];
+  const seen = new Set<string>();
+
+  for (;;) {
+    const keyLength = reader.varInt();
+    if (keyLength === 0) return entries;
+
+    const key = reader.bytes(keyLength);
+    if (seen.has(key)) throw invalid(`duplicate key ${key}`);
+    seen.add(key);
+    entries.push({ key, value: reader.varBytes() });
+  }
+}
+
+function parseUnsignedTransaction(hex: string): PsbtUnsignedTx {
+  const reader = new HexReader(hex);
+  if (reader.uint32LE() !== 2) throw invalid("only version 2 transactions are supported");
+
+  const inputCount = reader.varInt();
+  if (inputCount === 0) throw invalid("unsigned transaction has no inputs or carries witness data");
+
+  const inputs: PsbtUnsignedInput[] = [];
+  for (let i = 0; i < inputCount; i++) {
+    const tx_hash = reverseHex(reader.bytes(32));
+    const tx_pos = reader.uint32LE();
+    if (reader.varBytes() !== "") throw invalid("unsigned transaction has a non-empty scriptSig");
+    inputs.push({ tx_hash, tx_pos, sequence: reader.uint32LE() });
+  }
+
+  const outputCount = reader.varInt();
+  const outputs: PsbtUnsignedOutput[] = [];
+  for (let i = 0; i < outputCount; i++) {
+    const value = reader.uint64LE();
+    outputs.push({ value, scriptPubKey: reader.varBytes() });
+  }
+
+  const locktime = reader.uint32LE();
+  if (reader.remaining !== 0) throw invalid("trailing data after unsigned transaction");
+
+  return { inputs, outputs, locktime };
+}
+
+function parseWitnessStack(hex: string): string[] {
+  const reader = new HexReader(hex);
+  const count = reader.varInt();
+  const stack: string[] = [];
+  for (let i = 0; i < count; i++) stack.push(reader.varBytes());
+  return stack;
+}
+
+function parseInput(entries: PsbtKeyValue[]): PsbtInput {
+  const input: PsbtInput = { partialSigs: {}, unknown: [] };
+
+  for (const { key, value } of entries) {
+    const type = parseInt(key.slice(0, 2), 16);
+    const keyData = key.slice(2);
+
+    if (type === PSBT_IN_WITNESS_UTXO && keyData === "") {
+      const reader = new HexReader(value);
+      input.witnessUtxo = { value: reader.uint64LE(), scriptPubKey: reader.varBytes() };
+    } else if (type === PSBT_IN_PARTIAL_SIG && keyData.length === 66) {
+      input.partialSigs[keyData] = value;
+    } else if (type === PSBT_IN_SIGHASH_TYPE && keyData === "") {
+      input.sighashType = new HexReader(value).uint32LE();
+    } else if (type === PSBT_IN_FINAL_SCRIPTWITNESS && keyData === "") {
+      input.finalScriptWitness = parseWitnessStack(value);
+    } else {
+      input.unknown.push({ key, value });
+    }
+  }
+
+  return input;
+}
+
+/**
+ * Parse a base64-encoded PSBT
+ * @throws SphereError (VALIDATION_ERROR) if the data is not a valid PSBT
+ */
+export function parsePsbt(base64: string): Psbt {
+  const hex = CryptoJS.enc.Base64.parse(base64.trim()).toString(CryptoJS.enc.Hex);
+  if (!hex.startsWith(PSBT_MAGIC)) throw invalid("missing magic bytes");
+
+  try {
+    const reader = new HexReader(hex.slice(PSBT_MAGIC.length));
+
+    const globals = readMap(reader);
+    const txEntry = globals.find((kv) => kv.key === keyType(PSBT_GLOBAL_UNSIGNED_TX));
+    if (!txEntry) throw invalid("missing unsigned transaction");
+    const tx = parseUnsignedTransaction(txEntry.value);
+
+    const inputs = tx.inputs.map(() => parseInput(readMap(reader)));
+    const outputs = tx.outputs.map(() => ({ unknown: readMap(reader) }));
+    if (reader.remaining !== 0) throw invalid("trailing data");
+
+    return { tx, inputs, outputs, unknown: globals.filter((kv) => kv !== txEntry) };
+  } catch (error) {
+    if (error instanceof SphereError) throw error;
+    throw invalid(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// =============================================================================
+// Roles: creator, signer, finalizer, extractor
+// =============================================================================
+
+/**
+ * Create an unsigned PSBT from a planned transaction (see createTransactionPlan)
+ */
+export function createPsbtFromTransaction(tx: Transaction): Psbt {
+  return {
+    tx: {
+      inputs: tx.inputs.map((input) => ({
+        tx_hash: input.txid,
+        tx_pos: input.vout,
+        sequence: DEFAULT_SEQUENCE,
+      })),
+      outputs: tx.outputs.map((output) => ({
+        value: output.value,
+        scriptPubKey: createScriptPubKey(output.address),
+      })),
+      locktime: 0,
+    },
+    inputs: tx.inputs.map((input) => ({
+      witnessUtxo: { value: input.value, scriptPubKey: createScriptPubKey(input.address) },
+      partialSigs: {},
+      unknown: [],
+    })),
+    outputs: tx.outputs.map(() => ({ unknown: [] })),
+    unknown: [],
+  };
+}
+
+/**
+ * Sign every input of the PSBT that spends one of the wallet's addresses
+ *
+ * @returns A new PSBT with the signatures added, and how many inputs were signed
+ */
+export function signPsbt(psbt: Psbt, wallet: Wallet): { psbt: Psbt; signedInputs: number } {
+  const txPlan = toSegWitTxPlan(psbt);
+  const addressByScript = new Map(
+    wallet.addresses.map((addr) => [createScriptPubKey(addr.address), addr.address])
+  );
+
+  let signedInputs = 0;
+  const inputs = psbt.inputs.map((input, i) => {
+    if (input.finalScriptWitness || !input.witnessUtxo) return input;
+
+    const address = addressByScript.get(input.witnessUtxo.scriptPubKey);
+    if (!address) return input;
+
+    if (input.sighashType !== undefined && input.sighashType !== SIGHASH_ALL) {
+      throw new SphereError(`Unsupported sighash type ${input.sighashType} on input ${i}`, 'SIGNING_ERROR');
+    }
+
+    const keyPair = ec.keyFromPrivate(getPrivateKeyForAddress(wallet, address), "hex");
+    const publicKey = keyPair.getPublic(true, "hex");
+    const signature = createSegWitSignature(txPlan, i, keyPair, publicKey);
+
+    signedInputs++;
+    return { ...input, partialSigs: { ...input.partialSigs, [publicKey]: signature } };
+  });
+
+  return { psbt: { ...psbt, inputs }, signedInputs };
+}
+
+/**
+ * Build the final P2WPKH witness for every input and drop the signing data
+ * @throws SphereError (SIGNING_ERROR) if an input has no signature, or its
+ *   signing key does not match the P2WPKH script of the spent output
+ */
+export function finalizePsbt(psbt: Psbt): Psbt {
+  const inputs = psbt.inputs.map((input, i) => {
+    if (input.finalScriptWitness) return input;
+
+    const sigs = Object.entries(input.partialSigs);
+    if (sigs.length !== 1) {
+      throw new SphereError(`Input ${i} is not signed`, 'SIGNING_ERROR');
+    }
+    const [publicKey, signature] = sigs[0];
+
+    if (!input.witnessUtxo) {
+      throw new SphereError(`Input ${i} has no witness UTXO`, 'SIGNING_ERROR');
+    }
+    if (input.witnessUtxo.scriptPubKey !== "0014" + hash160(publicKey)) {
+      throw new SphereError(`Input ${i} is signed with a key that does not match its script`, 'SIGNING_ERROR');
+    }
+
+    // BIP174: the finalizer keeps only the UTXO, the final witness and unknown fields
+    return {
+      witnessUtxo: input.witnessUtxo,
+      partialSigs: {},
+      finalScriptWitness: [signature, publicKey],
+      unknown: input.unknown,
+    };
+  });
+
+  return { ...psbt, inputs };
+}
+
+/**
+ * Extract the network-serialized transaction from a finalized PSBT
+ */
+export function extractTransaction(psbt: Psbt): { hex: string; txid: string } {
+  const witnesses = psbt.inputs.map((input, i) => {
+    if (!input.finalScriptWitness) {
+      throw new SphereError(`Input ${i} is not finalized`, 'SIGNING_ERROR');
+    }
+    return input.finalScriptWitness;
+  });
+
+  return serializeSegWitTransaction(toSegWitTxPlan(psbt), witnesses);
+}
+
+/**
+ * Fee paid by the PSBT in sats, or null when an input lacks its witness UTXO
+ */
+export function getPsbtFee(psbt: Psbt): number | null {
+  let inputTotal = 0;
+  for (const input of psbt.inputs) {
+    if (!input.witnessUtxo) return null;
+    inputTotal += input.witnessUtxo.value;
+  }
+  return inputTotal - psbt.tx.outputs.reduce((sum, output) => sum + output.value, 0);
+}
+
+/**
+ * Txid of the PSBT's transaction. SegWit txids do not cover the witness, so
+ * it is known before the PSBT is signed.
+ */
+export function getPsbtTxid(psbt: Psbt): string {
+  return reverseHex(doubleSha256(serializeUnsignedTransaction(toSegWitTxPlan(psbt))));
+}
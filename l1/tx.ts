@@ -1,23 +1,104 @@
 /**
- * Transaction handling - Strict copy of index.html logic
+ * Transaction handling - based on index.html logic
+ * Builds multi-input P2WPKH transactions with vsize-based fees
  */
 import { logger } from '../core/logger';
 import { SphereError } from '../core/errors';
 import { getUtxo, broadcast } from "./network";
 import { decodeBech32 } from "../core/bech32";
-import CryptoJS from "crypto-js";
 import elliptic from "elliptic";
-import type { Wallet, TransactionPlan, Transaction, UTXO } from "./types";
+import type { Wallet, TransactionPlan, Transaction, TransactionInput, UTXO } from "./types";
 import { vestingState } from "./vestingState";
 import { WalletAddressHelper } from "./addressHelpers";
+import {
+  DEFAULT_FEE_RATE,
+  DUST_THRESHOLD,
+  INCREMENTAL_RELAY_FEE_RATE,
+  estimateTransactionFee,
+  estimateTransactionVsize,
+} from "./fees";
+import { defaultCoinSelector, type L1CoinSelector } from "./coinSelection";
+import { reverseHex, uint32LE, uint64LE, varInt, doubleSha256, hash160 } from "./hex";
+
+export { DEFAULT_FEE_RATE, estimateTransactionVsize, estimateTransactionFee } from "./fees";
 
 const ec = new elliptic.ec("secp256k1");
 
 // Constants
-const FEE = 10_000; // sats per transaction
-const DUST = 546; // dust threshold
 const SAT = 100_000_000; // sats in 1 ALPHA
 
+/** Default nSequence for inputs (matches index.html) */
+export const DEFAULT_SEQUENCE = 0xfffffffe;
+
+/**
+ * Input being spent by a SegWit transaction
+ */
+export interface SegWitInput {
+  tx_hash: string;
+  tx_pos: number;
+  value: number;
+  /** nSequence (default: DEFAULT_SEQUENCE) */
+  sequence?: number;
+}
+
+/**
+ * Output of a SegWit transaction, given as an address or a raw scriptPubKey
+ */
+export type SegWitOutput =
+  | { value: number; address: string }
+  | { value: number; scriptPubKey: string };
+
+/**
+ * Unsigned SegWit transaction layout accepted by buildSegWitTransaction
+ */
+export interface SegWitTxPlan {
+  inputs: SegWitInput[];
+  outputs: SegWitOutput[];
+  /** nLocktime (default: 0) */
+  locktime?: number;
+}
+
+function serializeOutpoint(input: SegWitInput): string {
+  return reverseHex(input.tx_hash) + uint32LE(input.tx_pos);
+}
+
+function serializeSequence(input: SegWitInput): string {
+  return uint32LE(input.sequence ?? DEFAULT_SEQUENCE);
+}
+
+function outputScript(output: SegWitOutput): string {
+  return "scriptPubKey" in output ? output.scriptPubKey : createScriptPubKey(output.address);
+}
+
+function serializeOutputs(outputs: SegWitOutput[]): string {
+  let hex = "";
+  for (const output of outputs) {
+    hex += uint64LE(output.value);
+    const scriptPubKey = outputScript(output);
+    hex += varInt(scriptPubKey.length / 2);
+    hex += scriptPubKey;
+  }
+  return hex;
+}
+
+/**
+ * Serialize a transaction without witness data (the form hashed for the txid
+ * and embedded unsigned in a PSBT)
+ */
+export function serializeUnsignedTransaction(txPlan: SegWitTxPlan): string {
+  // Inputs: prev txid (reversed) + vout + empty scriptSig + sequence
+  let inputsHex = varInt(txPlan.inputs.length);
+  for (const input of txPlan.inputs) {
+    inputsHex += serializeOutpoint(input);
+    inputsHex += "00"; // Script length - 0 for witness transactions
+    inputsHex += serializeSequence(input);
+  }
+
+  const outputsHex = varInt(txPlan.outputs.length) + serializeOutputs(txPlan.outputs);
+
+  return "02000000" + inputsHex + outputsHex + uint32LE(txPlan.locktime ?? 0);
+}
+
 /**
  * Create scriptPubKey for address (P2WPKH for bech32)
  * Exact copy from index.html
@@ -42,82 +123,67 @@ export function createScriptPubKey(address: string): string {
 }
 
 /**
- * Create signature hash for SegWit (BIP143)
- * Exact copy from index.html createSignatureHash()
+ * Create signature hash for SegWit (BIP143) for a single input
+ * Based on index.html createSignatureHash(), extended to multiple inputs
  */
 function createSignatureHash(
-  txPlan: { input: { tx_hash: string; tx_pos: number; value: number }; outputs: Array<{ value: number; address: string }> },
+  txPlan: SegWitTxPlan,
+  inputIndex: number,
   publicKey: string
 ): string {
+  const input = txPlan.inputs[inputIndex];
   let preimage = "";
 
   // 1. nVersion (4 bytes, little-endian)
   preimage += "02000000";
 
-  // 2. hashPrevouts (32 bytes)
-  const txidBytes = txPlan.input.tx_hash.match(/../g)!.reverse().join("");
-  const voutBytes = ("00000000" + txPlan.input.tx_pos.toString(16)).slice(-8).match(/../g)!.reverse().join("");
-  const prevouts = txidBytes + voutBytes;
-  const hashPrevouts = CryptoJS.SHA256(CryptoJS.SHA256(CryptoJS.enc.Hex.parse(prevouts))).toString();
-  preimage += hashPrevouts;
+  // 2. hashPrevouts (32 bytes) - commits to every outpoint
+  preimage += doubleSha256(txPlan.inputs.map(serializeOutpoint).join(""));
 
-  // 3. hashSequence (32 bytes)
-  const sequence = "feffffff";
-  const hashSequence = CryptoJS.SHA256(CryptoJS.SHA256(CryptoJS.enc.Hex.parse(sequence))).toString();
-  preimage += hashSequence;
+  // 3. hashSequence (32 bytes) - commits to every nSequence
+  preimage += doubleSha256(txPlan.inputs.map(serializeSequence).join(""));
 
   // 4. outpoint (36 bytes)
-  preimage += txPlan.input.tx_hash.match(/../g)!.reverse().join("");
-  preimage += ("00000000" + txPlan.input.tx_pos.toString(16)).slice(-8).match(/../g)!.reverse().join("");
+  preimage += serializeOutpoint(input);
 
   // 5. scriptCode for P2WPKH (includes length prefix)
-  const pubKeyHash = CryptoJS.RIPEMD160(CryptoJS.SHA256(CryptoJS.enc.Hex.parse(publicKey))).toString();
+  const pubKeyHash = hash160(publicKey);
   const scriptCode = "1976a914" + pubKeyHash + "88ac";
   preimage += scriptCode;
 
   // 6. amount (8 bytes, little-endian)
-  const amountHex = txPlan.input.value.toString(16).padStart(16, "0");
-  preimage += amountHex.match(/../g)!.reverse().join("");
+  preimage += uint64LE(input.value);
 
   // 7. nSequence (4 bytes, little-endian)
-  preimage += sequence;
+  preimage += serializeSequence(input);
 
   // 8. hashOutputs (32 bytes)
-  let outputs = "";
-  for (const output of txPlan.outputs) {
-    const outAmountHex = output.value.toString(16).padStart(16, "0");
-    outputs += outAmountHex.match(/../g)!.reverse().join("");
-    const scriptPubKey = createScriptPubKey(output.address);
-    const scriptLength = (scriptPubKey.length / 2).toString(16).padStart(2, "0");
-    outputs += scriptLength;
-    outputs += scriptPubKey;
-  }
-  const hashOutputs = CryptoJS.SHA256(CryptoJS.SHA256(CryptoJS.enc.Hex.parse(outputs))).toString();
-  preimage += hashOutputs;
+  preimage += doubleSha256(serializeOutputs(txPlan.outputs));
 
   // 9. nLocktime (4 bytes, little-endian)
-  preimage += "00000000";
+  preimage += uint32LE(txPlan.locktime ?? 0);
 
   // 10. sighash type (4 bytes, little-endian)
   preimage += "01000000"; // SIGHASH_ALL
 
   // Double SHA256
-  const hash1 = CryptoJS.SHA256(CryptoJS.enc.Hex.parse(preimage));
-  const hash2 = CryptoJS.SHA256(hash1);
-  return hash2.toString();
+  return doubleSha256(preimage);
 }
 
 /**
- * Create witness data for the transaction
- * Exact copy from index.html createWitnessData()
+ * Sign one input of the transaction (BIP143, SIGHASH_ALL)
+ * Based on index.html createWitnessData()
+ *
+ * @returns DER signature with the sighash type byte appended (hex)
  */
-function createWitnessData(
-  txPlan: { input: { tx_hash: string; tx_pos: number; value: number }; outputs: Array<{ value: number; address: string }> },
+export function createSegWitSignature(
+  txPlan: SegWitTxPlan,
+  inputIndex: number,
   keyPair: elliptic.ec.KeyPair,
   publicKey: string
 ): string {
   // Create signature hash for witness
-  const sigHash = createSignatureHash(txPlan, publicKey);
+  const sigHash = createSignatureHash(txPlan, inputIndex, publicKey);
 
   // Sign the hash
   const signature = keyPair.sign(sigHash);
@@ -128,147 +194,81 @@ function createWitnessData(
     signature.s = ec.curve.n!.sub(signature.s);
   }
 
-  const derSig = signature.toDER("hex") + "01"; // SIGHASH_ALL
-
-  // Build witness
-  let witness = "";
-  witness += "02"; // 2 stack items
-
-  // Signature
-  const sigLen = (derSig.length / 2).toString(16).padStart(2, "0");
-  witness += sigLen;
-  witness += derSig;
-
-  // Public key
-  const pubKeyLen = (publicKey.length / 2).toString(16).padStart(2, "0");
-  witness += pubKeyLen;
-  witness += publicKey;
-
-  return witness;
+  return signature.toDER("hex") + "01"; // SIGHASH_ALL
 }
 
 /**
- * Build a proper SegWit transaction
- * Exact copy from index.html buildSegWitTransaction()
+ * Serialize a SegWit transaction with one witness stack per input
+ *
+ * @param witnesses - Witness stack items (hex) per input, e.g. [signature, publicKey]
  */
-export function buildSegWitTransaction(
-  txPlan: { input: { tx_hash: string; tx_pos: number; value: number }; outputs: Array<{ value: number; address: string }> },
-  keyPair: elliptic.ec.KeyPair,
-  publicKey: string
+export function serializeSegWitTransaction(
+  txPlan: SegWitTxPlan,
+  witnesses: string[][]
 ): { hex: string; txid: string } {
-  let txHex = "";
-
-  // Version (4 bytes, little-endian)
-  txHex += "02000000"; // version 2
-
-  // Marker and flag for SegWit
-  txHex += "00"; // marker
-  txHex += "01"; // flag
-
-  // Number of inputs (varint)
-  txHex += "01"; // 1 input
-
-  // Input - Previous tx hash (32 bytes, reversed for little-endian)
-  const prevTxHash = txPlan.input.tx_hash;
-  const reversedHash = prevTxHash.match(/../g)!.reverse().join("");
-  txHex += reversedHash;
-
-  // Previous output index (4 bytes, little-endian)
-  const vout = txPlan.input.tx_pos;
-  txHex += ("00000000" + vout.toString(16)).slice(-8).match(/../g)!.reverse().join("");
-
-  // Script length (varint) - 0 for witness transactions
-  txHex += "00";
-
-  // Sequence (4 bytes)
-  txHex += "feffffff";
-
-  // Number of outputs (varint)
-  const outputCount = txPlan.outputs.length;
-  txHex += ("0" + outputCount.toString(16)).slice(-2);
-
-  // Outputs
-  for (const output of txPlan.outputs) {
-    // Amount (8 bytes, little-endian)
-    const amountHex = output.value.toString(16).padStart(16, "0");
-    txHex += amountHex.match(/../g)!.reverse().join("");
-
-    // Script pubkey
-    const scriptPubKey = createScriptPubKey(output.address);
-    const scriptLength = (scriptPubKey.length / 2).toString(16).padStart(2, "0");
-    txHex += scriptLength;
-    txHex += scriptPubKey;
+  const unsigned = serializeUnsignedTransaction(txPlan);
+  // Body between version and locktime: inputs + outputs
+  const body = unsigned.slice(8, -8);
+
+  let witnessHex = "";
+  for (const stack of witnesses) {
+    witnessHex += varInt(stack.length);
+    for (const item of stack) {
+      witnessHex += varInt(item.length / 2);
+      witnessHex += item;
+    }
   }
 
-  // Witness data
-  const witnessData = createWitnessData(txPlan, keyPair, publicKey);
-  txHex += witnessData;
-
-  // Locktime (4 bytes)
-  txHex += "00000000";
+  // Version 2 + marker (00) + flag (01) + inputs + outputs + witness + locktime
+  const txHex = "02000000" + "0001" + body + witnessHex + uint32LE(txPlan.locktime ?? 0);
 
   // Calculate transaction ID (double SHA256 of tx without witness data)
-  let txForId = "";
-
-  // Version (4 bytes)
-  txForId += "02000000";
-
-  // Input count (1 byte)
-  txForId += "01";
-
-  // Input: txid (32 bytes reversed) + vout (4 bytes)
-  const inputTxidBytes = txPlan.input.tx_hash.match(/../g)!.reverse().join("");
-  txForId += inputTxidBytes;
-  txForId += ("00000000" + txPlan.input.tx_pos.toString(16)).slice(-8).match(/../g)!.reverse().join("");
-
-  // Script sig (empty for P2WPKH)
-  txForId += "00";
-
-  // Sequence (4 bytes)
-  txForId += "feffffff";
-
-  // Output count
-  txForId += ("0" + txPlan.outputs.length.toString(16)).slice(-2);
+  const txid = reverseHex(doubleSha256(unsigned));
 
-  // Add all outputs
-  for (const output of txPlan.outputs) {
-    const amountHex = ("0000000000000000" + output.value.toString(16)).slice(-16);
-    const amountLittleEndian = amountHex.match(/../g)!.reverse().join("");
-    txForId += amountLittleEndian;
+  return {
+    hex: txHex,
+    txid: txid,
+  };
+}
 
-    const scriptPubKey = createScriptPubKey(output.address);
-    const scriptLength = ("0" + (scriptPubKey.length / 2).toString(16)).slice(-2);
-    txForId += scriptLength;
-    txForId += scriptPubKey;
+/**
+ * Build a proper SegWit transaction spending one or more P2WPKH inputs
+ * Based on index.html buildSegWitTransaction()
+ *
+ * @param keyPair - Signing key, or one key per input when inputs belong to different addresses
+ * @param publicKey - Compressed public key hex, or one per input (same order as keyPair)
+ */
+export function buildSegWitTransaction(
+  txPlan: SegWitTxPlan,
+  keyPair: elliptic.ec.KeyPair | elliptic.ec.KeyPair[],
+  publicKey: string | string[]
+): { hex: string; txid: string } {
+  if (txPlan.inputs.length === 0) {
+    throw new SphereError('Transaction must have at least one input', 'VALIDATION_ERROR');
   }
 
-  // Locktime (4 bytes)
-  txForId += "00000000";
+  const keyPairs = Array.isArray(keyPair) ? keyPair : txPlan.inputs.map(() => keyPair);
+  const publicKeys = Array.isArray(publicKey) ? publicKey : txPlan.inputs.map(() => publicKey);
+  if (keyPairs.length !== txPlan.inputs.length || publicKeys.length !== txPlan.inputs.length) {
+    throw new SphereError('Signing key count does not match input count', 'VALIDATION_ERROR');
+  }
 
-  // Calculate the correct txid
-  const hash1 = CryptoJS.SHA256(CryptoJS.enc.Hex.parse(txForId));
-  const hash2 = CryptoJS.SHA256(hash1);
-  const txid = hash2.toString().match(/../g)!.reverse().join("");
+  // P2WPKH witness: <signature> <publicKey>
+  const witnesses = txPlan.inputs.map((_, i) => [
+    createSegWitSignature(txPlan, i, keyPairs[i], publicKeys[i]),
+    publicKeys[i],
+  ]);
 
-  return {
-    hex: txHex,
-    txid: txid,
-  };
+  return serializeSegWitTransaction(txPlan, witnesses);
 }
 
 /**
- * Create and sign a transaction
- * Uses the private key for the specific address being spent from
+ * Resolve the private key for an address in the wallet
+ * Uses the key for the specific address, falling back to childPrivateKey/masterPrivateKey
  */
-export function createAndSignTransaction(
-  wallet: Wallet,
-  txPlan: Transaction
-): { raw: string; txid: string } {
-  // Find the address entry that matches the input address
-  const fromAddress = txPlan.input.address;
-  const addressEntry = wallet.addresses.find(a => a.address === fromAddress);
+export function getPrivateKeyForAddress(wallet: Wallet, address: string): string {
+  const addressEntry = wallet.addresses.find(a => a.address === address);
 
-  // Use the private key from the address entry, or fall back to childPrivateKey/masterPrivateKey
   let privateKeyHex: string | undefined;
 
   if (addressEntry?.privateKey) {
@@ -283,23 +283,40 @@ export function createAndSignTransaction(
   }
 
   if (!privateKeyHex) {
-    throw new SphereError('No private key available for address: ' + fromAddress, 'INVALID_CONFIG');
+    throw new SphereError('No private key available for address: ' + address, 'INVALID_CONFIG');
   }
 
-  const keyPair = ec.keyFromPrivate(privateKeyHex, "hex");
-  const publicKey = keyPair.getPublic(true, "hex"); // compressed
+  return privateKeyHex;
+}
+
+/**
+ * Create and sign a transaction
+ * Each input is signed with the private key of the address it is spent from
+ */
+export function createAndSignTransaction(
+  wallet: Wallet,
+  txPlan: Transaction
+): { raw: string; txid: string } {
+  const keyPairs: elliptic.ec.KeyPair[] = [];
+  const publicKeys: string[] = [];
+
+  for (const input of txPlan.inputs) {
+    const keyPair = ec.keyFromPrivate(getPrivateKeyForAddress(wallet, input.address), "hex");
+    keyPairs.push(keyPair);
+    publicKeys.push(keyPair.getPublic(true, "hex")); // compressed
+  }
 
   // Convert Transaction to the format expected by buildSegWitTransaction
-  const txPlanForBuild = {
-    input: {
-      tx_hash: txPlan.input.txid,
-      tx_pos: txPlan.input.vout,
-      value: txPlan.input.value,
-    },
+  const txPlanForBuild: SegWitTxPlan = {
+    inputs: txPlan.inputs.map((input) => ({
+      tx_hash: input.txid,
+      tx_pos: input.vout,
+      value: input.value,
+    })),
     outputs: txPlan.outputs,
   };
 
-  const tx = buildSegWitTransaction(txPlanForBuild, keyPair, publicKey);
+  const tx = buildSegWitTransaction(txPlanForBuild, keyPairs, publicKeys);
 
   return {
     raw: tx.hex,
@@ -311,129 +328,205 @@ export function createAndSignTransaction(
  * Collect UTXOs for required amount
  * Based on index.html collectUtxosForAmount()
  *
- * Strategy: First try to find a single UTXO that can cover amount + fee.
- * If not found, fall back to combining multiple UTXOs.
+ * The selector picks the inputs (default: smallest sufficient UTXO, else
+ * largest first); all of them are spent in a single transaction. The fee is
+ * derived from the estimated vsize at `feeRate`; change at or below the dust
+ * threshold is left to the fee. Change goes to `changeAddress`, which
+ * defaults to the sender address.
  */
 export function collectUtxosForAmount(
   utxoList: UTXO[],
   amountSats: number,
   recipientAddress: string,
-  senderAddress: string
+  senderAddress: string,
+  feeRate: number = DEFAULT_FEE_RATE,
+  selector: L1CoinSelector = defaultCoinSelector,
+  changeAddress: string = senderAddress
 ): TransactionPlan {
-  const totalAvailable = utxoList.reduce((sum, u) => sum + u.value, 0);
+  const selected = selector.select(utxoList, { amount: amountSats, feeRate });
 
-  if (totalAvailable < amountSats + FEE) {
+  if (!selected || selected.length === 0) {
+    const totalAvailable = utxoList.reduce((sum, u) => sum + u.value, 0);
+    const required = amountSats + estimateTransactionFee(1, 1, feeRate);
     return {
       success: false,
       transactions: [],
-      error: `Insufficient funds. Available: ${totalAvailable / SAT} ALPHA, Required: ${(amountSats + FEE) / SAT} ALPHA (including fee)`,
+      error: `Insufficient funds. Available: ${totalAvailable / SAT} ALPHA, Required: ${required / SAT} ALPHA (including fee)`,
     };
   }
 
-  // Strategy 1: Find a single UTXO that covers amount + fee
-  // Sort by value ascending to find the smallest sufficient UTXO
-  const sortedByValue = [...utxoList].sort((a, b) => a.value - b.value);
-  const sufficientUtxo = sortedByValue.find(u => u.value >= amountSats + FEE);
-
-  if (sufficientUtxo) {
-    const changeAmount = sufficientUtxo.value - amountSats - FEE;
-    const tx: Transaction = {
-      input: {
-        txid: sufficientUtxo.txid ?? sufficientUtxo.tx_hash ?? "",
-        vout: sufficientUtxo.vout ?? sufficientUtxo.tx_pos ?? 0,
-        value: sufficientUtxo.value,
-        address: sufficientUtxo.address ?? senderAddress,
-      },
-      outputs: [{ address: recipientAddress, value: amountSats }],
-      fee: FEE,
-      changeAmount: changeAmount,
-      changeAddress: senderAddress,
-    };
+  return {
+    success: true,
+    transactions: [buildTransaction(selected, amountSats, recipientAddress, senderAddress, changeAddress, feeRate)],
+  };
+}
 
-    // Add change output if above dust
-    if (changeAmount > DUST) {
-      tx.outputs.push({ value: changeAmount, address: senderAddress });
-    }
+/**
+ * Build a single transaction from the selected UTXOs, adding a change
+ * output when it is above the dust threshold
+ */
+function buildTransaction(
+  utxos: UTXO[],
+  amountSats: number,
+  recipientAddress: string,
+  senderAddress: string,
+  changeAddress: string,
+  feeRate: number
+): Transaction {
+  const inputValue = utxos.reduce((sum, u) => sum + u.value, 0);
+  const feeWithChange = estimateTransactionFee(utxos.length, 2, feeRate);
+  const changeWithFee = inputValue - amountSats - feeWithChange;
+  const hasChange = changeWithFee > DUST_THRESHOLD;
+
+  // Without a change output any leftover goes to the miner
+  const fee = hasChange ? feeWithChange : inputValue - amountSats;
+  const changeAmount = hasChange ? changeWithFee : 0;
+
+  const tx: Transaction = {
+    inputs: utxos.map((utxo) => ({
+      txid: utxo.txid ?? utxo.tx_hash ?? "",
+      vout: utxo.vout ?? utxo.tx_pos ?? 0,
+      value: utxo.value,
+      address: utxo.address ?? senderAddress,
+    })),
+    outputs: [{ address: recipientAddress, value: amountSats }],
+    fee,
+    changeAmount,
+    changeAddress,
+  };
 
-    return {
-      success: true,
-      transactions: [tx],
-    };
+  if (hasChange) {
+    tx.outputs.push({ value: changeAmount, address: changeAddress });
   }
 
-  // Strategy 2: No single UTXO is sufficient, combine multiple UTXOs
-  // Sort descending to use larger UTXOs first (fewer transactions)
-  const sortedDescending = [...utxoList].sort((a, b) => b.value - a.value);
-
-  const transactions: Transaction[] = [];
-  let remainingAmount = amountSats;
-
-  for (const utxo of sortedDescending) {
-    if (remainingAmount <= 0) break;
-
-    const utxoValue = utxo.value;
-    let txAmount = 0;
-    let changeAmount = 0;
-
-    if (utxoValue >= remainingAmount + FEE) {
-      // This UTXO covers the remaining amount plus fee
-      txAmount = remainingAmount;
-      changeAmount = utxoValue - remainingAmount - FEE;
-      remainingAmount = 0;
-    } else {
-      // Use entire UTXO minus fee
-      txAmount = utxoValue - FEE;
-      if (txAmount <= 0) continue; // Skip UTXOs too small to cover fee
-      remainingAmount -= txAmount;
-    }
+  return tx;
+}
 
-    const tx: Transaction = {
-      input: {
-        txid: utxo.txid ?? utxo.tx_hash ?? "",
-        vout: utxo.vout ?? utxo.tx_pos ?? 0,
-        value: utxo.value,
-        address: utxo.address ?? senderAddress,
-      },
-      outputs: [{ address: recipientAddress, value: txAmount }],
-      fee: FEE,
-      changeAmount: changeAmount,
-      changeAddress: senderAddress,
-    };
+/**
+ * Build a replace-by-fee (BIP125) version of an unconfirmed transaction.
+ * Spends the same inputs and pays the same recipients; the fee increase is
+ * taken from the change output, which is dropped when it would become dust.
+ *
+ * @param original - The transaction being replaced (inputs with values, outputs, fee)
+ * @param newFeeRate - Fee rate for the replacement in sat/vB
+ */
+export function createReplacementTransaction(
+  original: Transaction,
+  newFeeRate: number
+): Transaction {
+  const changeIndex = original.changeAmount > 0
+    ? original.outputs.findIndex((o) => o.address === original.changeAddress && o.value === original.changeAmount)
+    : -1;
+  if (changeIndex < 0) {
+    throw new SphereError('Transaction has no change output to take the fee bump from', 'INSUFFICIENT_BALANCE');
+  }
 
-    // Add change output if above dust
-    if (changeAmount > DUST) {
-      tx.outputs.push({ value: changeAmount, address: senderAddress });
-    }
+  // Replacement must pay its own relay fee on top of the original fee
+  const requiredFee = (outputCount: number): number => {
+    const vsize = estimateTransactionVsize(original.inputs.length, outputCount);
+    return Math.max(
+      estimateTransactionFee(original.inputs.length, outputCount, newFeeRate),
+      original.fee + Math.ceil(vsize * INCREMENTAL_RELAY_FEE_RATE)
+    );
+  };
 
-    transactions.push(tx);
-  }
+  const feeWithChange = requiredFee(original.outputs.length);
+  const newChange = original.changeAmount - (feeWithChange - original.fee);
 
-  if (remainingAmount > 0) {
+  if (newChange > DUST_THRESHOLD) {
     return {
-      success: false,
-      transactions: [],
-      error: `Unable to collect enough UTXOs. Short by ${remainingAmount / SAT} ALPHA after fees.`,
+      ...original,
+      inputs: [...original.inputs],
+      outputs: original.outputs.map((o, i) => (i === changeIndex ? { ...o, value: newChange } : { ...o })),
+      fee: feeWithChange,
+      changeAmount: newChange,
     };
   }
 
+  // Drop the change output; all of it goes to the fee
+  const feeWithoutChange = original.fee + original.changeAmount;
+  if (feeWithoutChange < requiredFee(original.outputs.length - 1)) {
+    throw new SphereError(
+      `Change output (${original.changeAmount} sats) cannot cover a fee rate of ${newFeeRate} sat/vB`,
+      'INSUFFICIENT_BALANCE'
+    );
+  }
+
   return {
-    success: true,
-    transactions,
+    ...original,
+    inputs: [...original.inputs],
+    outputs: original.outputs.filter((_, i) => i !== changeIndex).map((o) => ({ ...o })),
+    fee: feeWithoutChange,
+    changeAmount: 0,
+  };
+}
+
+/**
+ * Build a child-pays-for-parent transaction that sweeps one of our outputs
+ * of an unconfirmed parent back to us, paying enough fee that the parent +
+ * child package reaches `feeRate`.
+ *
+ * @param parent - Parent fee (sats) and vsize (vbytes)
+ * @param output - The parent output we own (txid = parent txid)
+ * @param feeRate - Target package fee rate in sat/vB
+ */
+export function createCpfpTransaction(
+  parent: { fee: number; vsize: number },
+  output: TransactionInput,
+  feeRate: number
+): Transaction {
+  const childVsize = estimateTransactionVsize(1, 1);
+  const packageFee = Math.ceil((parent.vsize + childVsize) * feeRate);
+  const childFee = Math.max(
+    packageFee - parent.fee,
+    Math.ceil(childVsize * INCREMENTAL_RELAY_FEE_RATE)
+  );
+  const value = output.value - childFee;
+
+  if (value <= DUST_THRESHOLD) {
+    throw new SphereError(
+      `Output ${output.txid}:${output.vout} (${output.value} sats) cannot pay a CPFP fee of ${childFee} sats`,
+      'INSUFFICIENT_BALANCE'
+    );
+  }
+
+  return {
+    inputs: [{ ...output }],
+    outputs: [{ address: output.address, value }],
+    fee: childFee,
+    changeAmount: value,
+    changeAddress: output.address,
   };
 }
 
+/**
+ * Options for createTransactionPlan / sendAlpha
+ */
+export interface TransactionPlanOptions {
+  /** Fee rate in sat/vB (default: DEFAULT_FEE_RATE) */
+  feeRate?: number;
+  /** Coin selection strategy (default: defaultCoinSelector) */
+  selector?: L1CoinSelector;
+  /** UTXOs to select from instead of fetching them for the sender address */
+  utxos?: UTXO[];
+  /** Address for the change output (default: the sender address) */
+  changeAddress?: string;
+}
+
 /**
  * Create transaction plan from wallet
  * @param wallet - The wallet
  * @param toAddress - Recipient address
  * @param amountAlpha - Amount in ALPHA
  * @param fromAddress - Optional: specific address to send from (defaults to first address)
+ * @param options - Optional: fee rate, coin selector and pre-fetched UTXOs
  */
 export async function createTransactionPlan(
   wallet: Wallet,
   toAddress: string,
   amountAlpha: number,
-  fromAddress?: string
+  fromAddress?: string,
+  options: TransactionPlanOptions = {}
 ): Promise<TransactionPlan> {
   if (!decodeBech32(toAddress)) {
     throw new SphereError('Invalid recipient address', 'INVALID_RECIPIENT');
@@ -448,7 +541,11 @@ export async function createTransactionPlan(
   let utxos: UTXO[];
   const currentMode = vestingState.getMode();
 
-  if (vestingState.hasClassifiedData(senderAddress)) {
+  if (options.utxos) {
+    // Caller already fetched (and possibly classified) the UTXOs
+    utxos = options.utxos;
+    logger.debug('L1', `Using ${utxos.length} caller-provided UTXOs`);
+  } else if (vestingState.hasClassifiedData(senderAddress)) {
     // Use vesting-filtered UTXOs based on selected mode
     utxos = vestingState.getFilteredUtxos(senderAddress);
     logger.debug('L1', `Using ${utxos.length} ${currentMode} UTXOs`);
@@ -463,7 +560,15 @@ export async function createTransactionPlan(
     throw new SphereError(`No UTXOs available${modeText} for address: ` + senderAddress, 'INSUFFICIENT_BALANCE');
   }
 
-  return collectUtxosForAmount(utxos, amountSats, toAddress, senderAddress);
+  return collectUtxosForAmount(
+    utxos,
+    amountSats,
+    toAddress,
+    senderAddress,
+    options.feeRate ?? DEFAULT_FEE_RATE,
+    options.selector,
+    options.changeAddress
+  );
 }
 
 /**
@@ -472,14 +577,16 @@ export async function createTransactionPlan(
  * @param toAddress - Recipient address
  * @param amountAlpha - Amount in ALPHA
  * @param fromAddress - Optional: specific address to send from
+ * @param options - Optional: fee rate, coin selector and pre-fetched UTXOs
  */
 export async function sendAlpha(
   wallet: Wallet,
   toAddress: string,
   amountAlpha: number,
-  fromAddress?: string
+  fromAddress?: string,
+  options?: TransactionPlanOptions
 ) {
-  const plan = await createTransactionPlan(wallet, toAddress, amountAlpha, fromAddress);
+  const plan = await createTransactionPlan(wallet, toAddress, amountAlpha, fromAddress, options);
 
   if (!plan.success) {
     throw new SphereError(plan.error || 'Transaction planning failed', 'TRANSFER_FAILED');
@@ -493,6 +600,8 @@ export async function sendAlpha(
     results.push({
       txid: signed.txid,
       raw: signed.raw,
+      fee: tx.fee,
+      transaction: tx,
       broadcastResult: result,
     });
   }
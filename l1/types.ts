@@ -40,7 +40,7 @@ export interface TransactionOutput {
 }
 
 export interface Transaction {
-  input: TransactionInput;
+  inputs: TransactionInput[];
   outputs: TransactionOutput[];
   fee: number;
   changeAmount: number;
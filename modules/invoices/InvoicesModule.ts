@@ -0,0 +1,447 @@
+/**
+ * Invoices Module
+ *
+ * Itemized invoices with due dates and partial payments. Each invoice has
+ * a deterministic reference that payers put in the transfer memo; incoming
+ * transfers carrying a reference are matched to the invoice automatically.
+ * Invoices are sent as payment requests and can be exported as documents
+ * signed with the issuer's chain key.
+ */
+
+import { logger } from '../../core/logger';
+import { SphereError } from '../../core/errors';
+import { sha256, signMessage, verifySignedMessage } from '../../core/crypto';
+import { STORAGE_KEYS_ADDRESS } from '../../constants';
+import { TokenRegistry } from '../../registry';
+import type { IncomingTransfer, PaymentRequestResult, TransferResult } from '../../types';
+import type {
+  CreateInvoiceRequest,
+  Invoice,
+  InvoiceDocument,
+  InvoiceLineItem,
+  InvoiceStatus,
+  InvoicesModuleDependencies,
+  SignedInvoice,
+} from './types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const REFERENCE_PATTERN = /\bINV-[0-9A-F]{12}\b/;
+
+/**
+ * Deterministic invoice reference: `INV-` followed by the first 12 hex
+ * characters of sha256(`<issuer chain pubkey>:<invoice id>`). Anyone holding
+ * the invoice can recompute it, and references from different issuers
+ * do not collide.
+ */
+export function computeInvoiceReference(issuerChainPubkey: string, invoiceId: string): string {
+  return `INV-${sha256(`${issuerChainPubkey}:${invoiceId}`, 'utf8').slice(0, 12).toUpperCase()}`;
+}
+
+/** Transfer memo that pays an invoice: `[INV-XXXXXXXXXXXX] text` */
+export function formatInvoiceMemo(reference: string, text?: string): string {
+  return text ? `[${reference}] ${text}` : `[${reference}]`;
+}
+
+/** Extract an invoice reference from a transfer memo, if any */
+export function parseInvoiceReference(memo: string | undefined): string | null {
+  return memo?.match(REFERENCE_PATTERN)?.[0] ?? null;
+}
+
+/** Canonical JSON (sorted keys, no undefined values) — the bytes that get signed */
+export function serializeInvoiceDocument(document: InvoiceDocument): string {
+  return JSON.stringify(document, (_key, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const record = value as Record<string, unknown>;
+      return Object.fromEntries(Object.keys(record).sort().map((k) => [k, record[k]]));
+    }
+    return value;
+  });
+}
+
+/**
+ * Check an exported invoice: the signature must be by the issuer's chain
+ * key and the reference must match the issuer and invoice ID.
+ */
+export function verifySignedInvoice(signed: SignedInvoice): boolean {
+  const { invoice, signature } = signed;
+  if (!invoice?.issuer?.chainPubkey || !signature) return false;
+  if (invoice.reference !== computeInvoiceReference(invoice.issuer.chainPubkey, invoice.id)) return false;
+  try {
+    return verifySignedMessage(serializeInvoiceDocument(invoice), signature, invoice.issuer.chainPubkey);
+  } catch {
+    return false;
+  }
+}
+
+function invoiceTotal(items: InvoiceLineItem[]): bigint {
+  return items.reduce((sum, item) => sum + BigInt(item.quantity) * BigInt(item.unitPrice), 0n);
+}
+
+function validateItems(items: InvoiceLineItem[] | undefined): void {
+  if (!items?.length) {
+    throw new SphereError('Invoice requires at least one line item', 'VALIDATION_ERROR');
+  }
+  for (const item of items) {
+    if (!item.description) {
+      throw new SphereError('Invoice line item requires a description', 'VALIDATION_ERROR');
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      throw new SphereError('Invoice line item quantity must be a positive integer', 'VALIDATION_ERROR');
+    }
+    if (!/^\d+$/.test(item.unitPrice)) {
+      throw new SphereError('Invoice line item unitPrice must be an integer in smallest units', 'VALIDATION_ERROR');
+    }
+  }
+}
+
+/** Status implied by amounts and due date (cancelled invoices stay cancelled) */
+function statusOf(invoice: Invoice, now: number): InvoiceStatus {
+  if (invoice.status === 'cancelled') return 'cancelled';
+  const paid = BigInt(invoice.amountPaid);
+  const total = BigInt(invoice.total);
+  if (paid > total) return 'overpaid';
+  if (paid === total) return 'paid';
+  if (invoice.dueAt !== undefined && now > invoice.dueAt) return 'expired';
+  return paid > 0n ? 'partially_paid' : 'open';
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export class InvoicesModule {
+  private deps: InvoicesModuleDependencies | null = null;
+
+  private invoices: Map<string, Invoice> = new Map();
+  /** Resolves once load() has read storage; transfers are matched after it */
+  private loaded: Promise<void> = Promise.resolve();
+  private markLoaded: () => void = () => {};
+  private unsubscribeTransfers: (() => void) | null = null;
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Initialize module with dependencies
+   */
+  initialize(deps: InvoicesModuleDependencies): void {
+    this.unsubscribeTransfers?.();
+    this.deps = deps;
+    // Transfers can arrive while payments.load() runs, before our own load()
+    this.loaded = new Promise((resolve) => {
+      this.markLoaded = resolve;
+    });
+    this.unsubscribeTransfers = deps.payments.onIncomingTransfer((transfer) => {
+      this.loaded
+        .then(() => this.matchTransfer(transfer))
+        .catch((err) => {
+          logger.warn('Invoices', `Failed to match transfer ${transfer.id}:`, err);
+        });
+    });
+  }
+
+  /**
+   * Load invoices from storage
+   */
+  async load(): Promise<void> {
+    this.ensureInitialized();
+    await this.loadFromStorage();
+    this.markLoaded();
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.unsubscribeTransfers?.();
+    this.unsubscribeTransfers = null;
+  }
+
+  // ===========================================================================
+  // Public API - Issuer
+  // ===========================================================================
+
+  /**
+   * Create an invoice payable to this address. Share it with sendInvoice()
+   * or exportInvoice(); payments quoting its reference are matched on receipt.
+   */
+  async create(request: CreateInvoiceRequest): Promise<Invoice> {
+    this.ensureInitialized();
+    if (this.deps!.watchOnly) {
+      throw new SphereError('Watch-only wallet cannot issue invoices', 'WATCH_ONLY');
+    }
+    if (!request.coinId) {
+      throw new SphereError('Invoice requires a coinId', 'VALIDATION_ERROR');
+    }
+    validateItems(request.items);
+    const total = invoiceTotal(request.items);
+    if (total <= 0n) {
+      throw new SphereError('Invoice total must be positive', 'VALIDATION_ERROR');
+    }
+
+    const now = Date.now();
+    if (request.dueAt !== undefined && request.dueAt <= now) {
+      throw new SphereError('Invoice dueAt must be in the future', 'VALIDATION_ERROR');
+    }
+
+    const id = crypto.randomUUID();
+    const invoice: Invoice = {
+      id,
+      reference: computeInvoiceReference(this.deps!.identity.chainPubkey, id),
+      status: 'open',
+      coinId: request.coinId,
+      symbol: TokenRegistry.getInstance().getSymbol(request.coinId) || request.coinId,
+      items: request.items.map(({ description, quantity, unitPrice }) => ({ description, quantity, unitPrice })),
+      total: total.toString(),
+      amountPaid: '0',
+      payments: [],
+      payer: request.payer,
+      memo: request.memo,
+      dueAt: request.dueAt,
+      issuedAt: now,
+      updatedAt: now,
+    };
+
+    this.invoices.set(id, invoice);
+    await this.save();
+    this.deps!.emitEvent('invoice:updated', { ...invoice });
+    return invoice;
+  }
+
+  /** Get an invoice by ID or reference */
+  get(idOrReference: string): Invoice | null {
+    const invoice = this.invoices.get(idOrReference) ?? this.findByReference(idOrReference);
+    return invoice ? this.refreshStatus(invoice) : null;
+  }
+
+  /** List invoices, optionally filtered by status, newest first */
+  list(filter?: { status?: InvoiceStatus }): Invoice[] {
+    return Array.from(this.invoices.values())
+      .map((invoice) => this.refreshStatus(invoice))
+      .filter((invoice) => !filter?.status || invoice.status === filter.status)
+      .sort((a, b) => b.issuedAt - a.issuedAt);
+  }
+
+  /** Cancel an unpaid invoice. Later payments quoting it are not matched. */
+  async cancel(id: string): Promise<Invoice> {
+    const invoice = this.getMutable(id);
+    if (invoice.status === 'cancelled' || invoice.status === 'paid' || invoice.status === 'overpaid') {
+      throw new SphereError(`Invoice is ${invoice.status}, cannot cancel`, 'VALIDATION_ERROR');
+    }
+    invoice.status = 'cancelled';
+    invoice.updatedAt = Date.now();
+    await this.save();
+    this.deps!.emitEvent('invoice:updated', { ...invoice });
+    return invoice;
+  }
+
+  /**
+   * Export an invoice as a document signed with this wallet's chain key.
+   * Check it with verifySignedInvoice().
+   */
+  exportInvoice(id: string): SignedInvoice {
+    const invoice = this.getMutable(id);
+    if (this.deps!.watchOnly) {
+      throw new SphereError('Watch-only wallet cannot sign invoices', 'WATCH_ONLY');
+    }
+    this.deps!.ensureUnlocked?.();
+
+    const { identity } = this.deps!;
+    const document: InvoiceDocument = {
+      version: '1.0',
+      id: invoice.id,
+      reference: invoice.reference,
+      issuer: {
+        chainPubkey: identity.chainPubkey,
+        nametag: identity.nametag,
+        directAddress: identity.directAddress,
+      },
+      payer: invoice.payer,
+      coinId: invoice.coinId,
+      symbol: invoice.symbol,
+      items: invoice.items.map((item) => ({ ...item })),
+      total: invoice.total,
+      memo: invoice.memo,
+      dueAt: invoice.dueAt,
+      issuedAt: invoice.issuedAt,
+    };
+
+    return {
+      invoice: document,
+      signature: signMessage(identity.privateKey, serializeInvoiceDocument(document)),
+    };
+  }
+
+  /**
+   * Send an invoice as a payment request for the outstanding amount.
+   * The request message carries the reference memo and its metadata the
+   * signed invoice, so paying the request settles the invoice.
+   * @param recipient - Payer (@nametag, address or pubkey); defaults to the invoice payer
+   */
+  async sendInvoice(id: string, recipient?: string): Promise<PaymentRequestResult> {
+    const invoice = this.refreshStatus(this.getMutable(id));
+    const to = recipient ?? invoice.payer;
+    if (!to) {
+      throw new SphereError('Invoice has no payer; pass a recipient', 'VALIDATION_ERROR');
+    }
+    if (invoice.status !== 'open' && invoice.status !== 'partially_paid') {
+      throw new SphereError(`Invoice is ${invoice.status}, cannot send`, 'VALIDATION_ERROR');
+    }
+
+    const signed = this.exportInvoice(id);
+    return this.deps!.payments.sendPaymentRequest(to, {
+      amount: (BigInt(invoice.total) - BigInt(invoice.amountPaid)).toString(),
+      coinId: invoice.coinId,
+      message: formatInvoiceMemo(invoice.reference, invoice.memo),
+      recipientNametag: this.deps!.identity.nametag,
+      expiresAt: invoice.dueAt,
+      metadata: { invoice: signed },
+    });
+  }
+
+  // ===========================================================================
+  // Public API - Payer
+  // ===========================================================================
+
+  /**
+   * Pay an invoice received from someone else. The signature is checked
+   * first; the transfer memo carries the invoice reference.
+   * @param amount - Amount to pay in smallest units (default: the invoice total)
+   */
+  async payInvoice(signed: SignedInvoice, amount?: string): Promise<TransferResult> {
+    this.ensureInitialized();
+    if (this.deps!.watchOnly) {
+      throw new SphereError('Watch-only wallet cannot pay invoices', 'WATCH_ONLY');
+    }
+    if (!verifySignedInvoice(signed)) {
+      throw new SphereError('Invoice signature is invalid', 'VALIDATION_ERROR');
+    }
+
+    const { invoice } = signed;
+    if (invoiceTotal(invoice.items).toString() !== invoice.total) {
+      throw new SphereError('Invoice total does not match its line items', 'VALIDATION_ERROR');
+    }
+    const payAmount = amount ?? invoice.total;
+    if (!/^\d+$/.test(payAmount) || BigInt(payAmount) <= 0n) {
+      throw new SphereError('Payment amount must be a positive integer in smallest units', 'VALIDATION_ERROR');
+    }
+
+    const { issuer } = invoice;
+    return this.deps!.payments.send({
+      coinId: invoice.coinId,
+      amount: payAmount,
+      recipient: issuer.nametag ? `@${issuer.nametag}` : issuer.directAddress ?? issuer.chainPubkey,
+      memo: formatInvoiceMemo(invoice.reference, invoice.memo),
+    });
+  }
+
+  // ===========================================================================
+  // Private: Matching
+  // ===========================================================================
+
+  private async matchTransfer(transfer: IncomingTransfer): Promise<void> {
+    const reference = parseInvoiceReference(transfer.memo);
+    // Only transfers received over the transport carry a memo and a sender
+    const { senderPubkey } = transfer;
+    if (!reference || !senderPubkey) return;
+
+    const invoice = this.findByReference(reference);
+    if (!invoice) return;
+    if (invoice.status === 'cancelled') {
+      logger.warn('Invoices', `Payment ${transfer.id} for cancelled invoice ${reference} not matched`);
+      return;
+    }
+    if (invoice.payments.some((p) => p.transferId === transfer.id)) return;
+
+    const amount = transfer.tokens
+      .filter((token) => token.coinId === invoice.coinId)
+      .reduce((sum, token) => sum + BigInt(token.amount), 0n);
+    if (amount === 0n) {
+      logger.warn('Invoices', `Payment ${transfer.id} for invoice ${reference} has no ${invoice.symbol} tokens`);
+      return;
+    }
+
+    invoice.payments.push({
+      transferId: transfer.id,
+      amount: amount.toString(),
+      senderPubkey,
+      senderNametag: transfer.senderNametag,
+      receivedAt: transfer.receivedAt,
+    });
+    invoice.amountPaid = (BigInt(invoice.amountPaid) + amount).toString();
+    invoice.status = statusOf(invoice, Date.now());
+    invoice.updatedAt = Date.now();
+    await this.save();
+
+    logger.debug('Invoices', `Invoice ${reference} received ${amount} (${invoice.status})`);
+    this.deps!.emitEvent('invoice:updated', { ...invoice });
+  }
+
+  /** Apply due-date expiry, persisting and announcing a change */
+  private refreshStatus(invoice: Invoice): Invoice {
+    const status = statusOf(invoice, Date.now());
+    if (status === invoice.status) return invoice;
+
+    invoice.status = status;
+    invoice.updatedAt = Date.now();
+    this.save().catch((err) => {
+      logger.warn('Invoices', 'Failed to save invoices:', err);
+    });
+    this.deps?.emitEvent('invoice:updated', { ...invoice });
+    return invoice;
+  }
+
+  private findByReference(reference: string): Invoice | undefined {
+    for (const invoice of this.invoices.values()) {
+      if (invoice.reference === reference) return invoice;
+    }
+    return undefined;
+  }
+
+  // ===========================================================================
+  // Private: Storage
+  // ===========================================================================
+
+  private async loadFromStorage(): Promise<void> {
+    this.invoices.clear();
+    const data = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.INVOICES);
+    if (data) {
+      const invoices = JSON.parse(data) as Invoice[];
+      for (const invoice of invoices) {
+        this.invoices.set(invoice.id, invoice);
+      }
+    }
+  }
+
+  private getMutable(id: string): Invoice {
+    this.ensureInitialized();
+    const invoice = this.invoices.get(id);
+    if (!invoice) {
+      throw new SphereError(`Invoice not found: ${id}`, 'VALIDATION_ERROR');
+    }
+    return invoice;
+  }
+
+  private async save(): Promise<void> {
+    const invoices = Array.from(this.invoices.values());
+    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.INVOICES, JSON.stringify(invoices));
+  }
+
+  private ensureInitialized(): void {
+    if (!this.deps) {
+      throw new SphereError('InvoicesModule not initialized', 'NOT_INITIALIZED');
+    }
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createInvoicesModule(): InvoicesModule {
+  return new InvoicesModule();
+}
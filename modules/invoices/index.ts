@@ -0,0 +1,10 @@
+export {
+  InvoicesModule,
+  createInvoicesModule,
+  computeInvoiceReference,
+  formatInvoiceMemo,
+  parseInvoiceReference,
+  serializeInvoiceDocument,
+  verifySignedInvoice,
+} from './InvoicesModule';
+export * from './types';
@@ -0,0 +1,120 @@
+/**
+ * Invoices Module Types
+ * Itemized invoices built on payment requests, matched to incoming
+ * transfers through a reference embedded in the transfer memo.
+ */
+
+import type { FullIdentity, SphereEventMap, SphereEventType } from '../../types';
+import type { StorageProvider } from '../../storage';
+import type { PaymentsModule } from '../payments/PaymentsModule';
+
+// =============================================================================
+// Enums
+// =============================================================================
+
+/**
+ * `open` until the first payment, then `partially_paid`, `paid` or
+ * `overpaid` by amount received. An invoice not fully paid by its due date
+ * is `expired` (payments are still matched to it).
+ */
+export type InvoiceStatus = 'open' | 'partially_paid' | 'paid' | 'overpaid' | 'expired' | 'cancelled';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface InvoicesModuleDependencies {
+  identity: FullIdentity;
+  storage: StorageProvider;
+  payments: PaymentsModule;
+  emitEvent: <T extends SphereEventType>(type: T, data: SphereEventMap[T]) => void;
+  /** Watch-only wallet: invoices cannot be signed or paid */
+  watchOnly?: boolean;
+  /** Called before signing an invoice; throws WALLET_LOCKED while the wallet is locked */
+  ensureUnlocked?: () => void;
+}
+
+// =============================================================================
+// Invoice Types
+// =============================================================================
+
+export interface InvoiceLineItem {
+  description: string;
+  /** Positive integer */
+  quantity: number;
+  /** Price per unit in smallest units */
+  unitPrice: string;
+}
+
+export interface CreateInvoiceRequest {
+  /** Coin the invoice is payable in */
+  coinId: string;
+  items: InvoiceLineItem[];
+  /** Who is expected to pay (@nametag, address or pubkey) */
+  payer?: string;
+  /** Due date in ms; unpaid invoices expire after it */
+  dueAt?: number;
+  /** Free-form note, e.g. terms */
+  memo?: string;
+}
+
+/** A transfer matched to an invoice */
+export interface InvoicePayment {
+  /** IncomingTransfer ID */
+  transferId: string;
+  /** Amount in the invoice coin, in smallest units */
+  amount: string;
+  senderPubkey: string;
+  senderNametag?: string;
+  receivedAt: number;
+}
+
+export interface Invoice {
+  readonly id: string;
+  /** Deterministic reference (see computeInvoiceReference) carried in payment memos */
+  readonly reference: string;
+  status: InvoiceStatus;
+  readonly coinId: string;
+  readonly symbol: string;
+  readonly items: InvoiceLineItem[];
+  /** Sum of the line items in smallest units */
+  readonly total: string;
+  /** Sum of matched payments in smallest units */
+  amountPaid: string;
+  payments: InvoicePayment[];
+  readonly payer?: string;
+  readonly memo?: string;
+  readonly dueAt?: number;
+  readonly issuedAt: number;
+  updatedAt: number;
+}
+
+/** Portable invoice content, as signed by the issuer */
+export interface InvoiceDocument {
+  version: '1.0';
+  id: string;
+  reference: string;
+  issuer: {
+    /** Compressed secp256k1 public key the signature verifies against */
+    chainPubkey: string;
+    nametag?: string;
+    directAddress?: string;
+  };
+  payer?: string;
+  coinId: string;
+  symbol: string;
+  items: InvoiceLineItem[];
+  total: string;
+  memo?: string;
+  dueAt?: number;
+  issuedAt: number;
+}
+
+/**
+ * Exported invoice. `signature` is a `signMessage()` signature over
+ * `serializeInvoiceDocument(invoice)` by `invoice.issuer.chainPubkey`.
+ */
+export interface SignedInvoice {
+  invoice: InvoiceDocument;
+  signature: string;
+}
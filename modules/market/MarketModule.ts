@@ -160,6 +160,7 @@ export class MarketModule {
   private readonly apiUrl: string;
   private readonly timeout: number;
   private identity: FullIdentity | null = null;
+  private ensureUnlocked?: () => void;
   private registered = false;
 
   constructor(config?: MarketModuleConfig) {
@@ -170,6 +171,7 @@ export class MarketModule {
   /** Called by Sphere after construction */
   initialize(deps: MarketModuleDependencies): void {
     this.identity = deps.identity;
+    this.ensureUnlocked = deps.ensureUnlocked;
   }
 
   /** No-op — stateless module */
@@ -310,6 +312,7 @@ export class MarketModule {
     if (!this.identity) {
       throw new SphereError('MarketModule not initialized — call initialize() first', 'NOT_INITIALIZED');
     }
+    this.ensureUnlocked?.();
   }
 
   /** Register the agent's public key with the server (idempotent) */
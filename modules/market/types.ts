@@ -25,6 +25,8 @@ export interface MarketModuleConfig {
 export interface MarketModuleDependencies {
   identity: import('../../types').FullIdentity;
   emitEvent: <T extends import('../../types').SphereEventType>(type: T, data: import('../../types').SphereEventMap[T]) => void;
+  /** Called before every signed request; throws WALLET_LOCKED while the wallet is locked */
+  ensureUnlocked?: () => void;
 }
 
 // =============================================================================
@@ -21,6 +21,9 @@
  * 7. Wait for mint proofs
  * 8. Reconstruct & save change token
  * 9. Sync to storage
+ *
+ * splitToSelf() reuses steps 1-3, mints the split half to the sender on the
+ * critical path, and leaves the change half to the same background flow.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -52,6 +55,7 @@ import type {
   InstantSplitOptions,
   BackgroundProgressStatus,
   BuildSplitBundleResult,
+  SelfSplitResult,
 } from '../../types/instant-split';
 import type { TransportProvider } from '../../transport';
 
@@ -85,6 +89,20 @@ export interface BackgroundContext {
   onStorageSync?: () => Promise<boolean>;
 }
 
+/** Burned token and unsubmitted mint commitments for both halves of a split */
+interface PreparedSplit {
+  splitGroupId: string;
+  seedString: string;
+  coinId: CoinId;
+  burnTransaction: any;
+  recipientTokenId: TokenId;
+  senderTokenId: TokenId;
+  recipientSalt: Uint8Array;
+  senderSalt: Uint8Array;
+  recipientMintCommitment: MintCommitment<any>;
+  senderMintCommitment: MintCommitment<any>;
+}
+
 // =============================================================================
 // Hash Utilities
 // =============================================================================
@@ -149,96 +167,18 @@ export class InstantSplitExecutor {
     recipientAddress: IAddress,
     options?: InstantSplitOptions
   ): Promise<BuildSplitBundleResult> {
-    const splitGroupId = crypto.randomUUID();
-    const tokenIdHex = toHex(tokenToSplit.id.bytes);
-    logger.debug('InstantSplit', `Building V5 bundle for token ${tokenIdHex.slice(0, 8)}...`);
-
-    const coinId = new CoinId(fromHex(coinIdHex));
-    const seedString = `${tokenIdHex}_${splitAmount.toString()}_${remainderAmount.toString()}_${Date.now()}`;
-
-    // Generate IDs and salts (deterministic from seed)
-    const recipientTokenId = new TokenId(await sha256(seedString));
-    const senderTokenId = new TokenId(await sha256(seedString + '_sender'));
-    const recipientSalt = await sha256(seedString + '_recipient_salt');
-    const senderSalt = await sha256(seedString + '_sender_salt');
-
-    // Create sender address (for minting to self first)
-    const senderAddressRef = await UnmaskedPredicateReference.create(
-      tokenToSplit.type,
-      this.signingService.algorithm,
-      this.signingService.publicKey,
-      HashAlgorithm.SHA256
-    );
-    const senderAddress = await senderAddressRef.toAddress();
-
-    // Build split configuration
-    const builder = new TokenSplitBuilder();
-
-    // Recipient token (will be transferred)
-    const coinDataA = TokenCoinData.create([[coinId, splitAmount]]);
-    builder.createToken(
+    const {
+      splitGroupId,
+      seedString,
+      coinId,
+      burnTransaction,
       recipientTokenId,
-      tokenToSplit.type,
-      new Uint8Array(0),
-      coinDataA,
-      senderAddress, // Mint to sender first, then transfer
-      recipientSalt,
-      null
-    );
-
-    // Sender token (change)
-    const coinDataB = TokenCoinData.create([[coinId, remainderAmount]]);
-    builder.createToken(
       senderTokenId,
-      tokenToSplit.type,
-      new Uint8Array(0),
-      coinDataB,
-      senderAddress,
+      recipientSalt,
       senderSalt,
-      null
-    );
-
-    const split = await builder.build(tokenToSplit);
-
-    // === STEP 1: CREATE AND SUBMIT BURN COMMITMENT ===
-    logger.debug('InstantSplit', 'Step 1: Creating and submitting burn...');
-    const burnSalt = await sha256(seedString + '_burn_salt');
-    const burnCommitment = await split.createBurnCommitment(burnSalt, this.signingService);
-
-    const burnResponse = await this.client.submitTransferCommitment(burnCommitment);
-    if (burnResponse.status !== 'SUCCESS' && burnResponse.status !== 'REQUEST_ID_EXISTS') {
-      throw new SphereError(`Burn submission failed: ${burnResponse.status}`, 'TRANSFER_FAILED');
-    }
-
-    // === STEP 2: WAIT FOR BURN PROOF (~2s) ===
-    logger.debug('InstantSplit', 'Step 2: Waiting for burn proof...');
-    const burnProof = this.devMode
-      ? await this.waitInclusionProofWithDevBypass(burnCommitment, options?.burnProofTimeoutMs)
-      : await waitInclusionProof(this.trustBase, this.client, burnCommitment);
-    const burnTransaction = burnCommitment.toTransaction(burnProof);
-
-    logger.debug('InstantSplit', 'Burn proof received');
-
-    options?.onBurnCompleted?.(JSON.stringify(burnTransaction.toJSON()));
-
-    // === STEP 3: CREATE MINT COMMITMENTS WITH SPLITMINT REASON ===
-    logger.debug('InstantSplit', 'Step 3: Creating mint commitments...');
-    const mintCommitments = await split.createSplitMintCommitments(this.trustBase, burnTransaction);
-
-    // Find recipient and sender mint commitments
-    const recipientIdHex = toHex(recipientTokenId.bytes);
-    const senderIdHex = toHex(senderTokenId.bytes);
-
-    const recipientMintCommitment = mintCommitments.find(
-      (c) => toHex(c.transactionData.tokenId.bytes) === recipientIdHex
-    );
-    const senderMintCommitment = mintCommitments.find(
-      (c) => toHex(c.transactionData.tokenId.bytes) === senderIdHex
-    );
-
-    if (!recipientMintCommitment || !senderMintCommitment) {
-      throw new SphereError('Failed to find expected mint commitments', 'TRANSFER_FAILED');
-    }
+      recipientMintCommitment,
+      senderMintCommitment,
+    } = await this.burnAndPrepareMints(tokenToSplit, splitAmount, remainderAmount, coinIdHex, options);
 
     // === STEP 4: CREATE TRANSFER COMMITMENT FROM MINT DATA ===
     logger.debug('InstantSplit', 'Step 4: Creating transfer commitment...');
@@ -392,6 +332,199 @@ export class InstantSplitExecutor {
     }
   }
 
+  /**
+   * Carve an exact amount out of a token, keeping both halves.
+   *
+   * Burns the token and waits only for the split half's mint proof; the
+   * change half is minted in the background like a V5 send, and delivered
+   * through `options.onChangeTokenCreated`. Used where the caller needs a
+   * spendable exact-amount token before it can continue (e.g. to lock it
+   * in an escrow).
+   *
+   * @param tokenToSplit - The SDK token to split
+   * @param splitAmount - Amount of the returned token
+   * @param remainderAmount - Amount to keep as change
+   * @param coinIdHex - Coin ID in hex format
+   * @param options - Optional configuration (background callbacks)
+   * @returns The exact-amount token and a function starting change token creation
+   */
+  async splitToSelf(
+    tokenToSplit: Token<any>,
+    splitAmount: bigint,
+    remainderAmount: bigint,
+    coinIdHex: string,
+    options?: InstantSplitOptions
+  ): Promise<SelfSplitResult> {
+    const {
+      splitGroupId,
+      coinId,
+      recipientTokenId,
+      senderTokenId,
+      recipientSalt,
+      senderSalt,
+      recipientMintCommitment,
+      senderMintCommitment,
+    } = await this.burnAndPrepareMints(tokenToSplit, splitAmount, remainderAmount, coinIdHex, options);
+
+    logger.debug('InstantSplit', 'Self split: Minting exact-amount token...');
+    const mintResponse = await this.client.submitMintCommitment(recipientMintCommitment);
+    if (mintResponse.status !== 'SUCCESS' && mintResponse.status !== 'REQUEST_ID_EXISTS') {
+      throw new SphereError(`Mint submission failed: ${mintResponse.status}`, 'TRANSFER_FAILED');
+    }
+    const mintProof = this.devMode
+      ? await this.waitInclusionProofWithDevBypass(recipientMintCommitment, options?.mintProofTimeoutMs)
+      : await waitInclusionProof(this.trustBase, this.client, recipientMintCommitment);
+
+    const predicate = await UnmaskedPredicate.create(
+      recipientTokenId,
+      tokenToSplit.type,
+      this.signingService,
+      HashAlgorithm.SHA256,
+      recipientSalt
+    );
+    const token = await Token.mint(
+      this.trustBase,
+      new TokenState(predicate, null),
+      recipientMintCommitment.toTransaction(mintProof)
+    );
+
+    return {
+      token,
+      splitGroupId,
+      startBackground: async () => {
+        if (!options?.skipBackground) {
+          await this.submitBackgroundV5(senderMintCommitment, null, null, {
+            signingService: this.signingService,
+            tokenType: tokenToSplit.type,
+            coinId,
+            senderTokenId,
+            senderSalt,
+            onProgress: options?.onBackgroundProgress,
+            onChangeTokenCreated: options?.onChangeTokenCreated,
+            onStorageSync: options?.onStorageSync,
+          });
+        }
+      },
+    };
+  }
+
+  /**
+   * Steps 1-3 shared by all split flows: burn the token, wait for the burn
+   * proof, and create (but do not submit) the mint commitments for both
+   * halves, each minted to the sender.
+   */
+  private async burnAndPrepareMints(
+    tokenToSplit: Token<any>,
+    splitAmount: bigint,
+    remainderAmount: bigint,
+    coinIdHex: string,
+    options?: InstantSplitOptions
+  ): Promise<PreparedSplit> {
+    const splitGroupId = crypto.randomUUID();
+    const tokenIdHex = toHex(tokenToSplit.id.bytes);
+    logger.debug('InstantSplit', `Splitting token ${tokenIdHex.slice(0, 8)}...`);
+
+    const coinId = new CoinId(fromHex(coinIdHex));
+    const seedString = `${tokenIdHex}_${splitAmount.toString()}_${remainderAmount.toString()}_${Date.now()}`;
+
+    // Generate IDs and salts (deterministic from seed)
+    const recipientTokenId = new TokenId(await sha256(seedString));
+    const senderTokenId = new TokenId(await sha256(seedString + '_sender'));
+    const recipientSalt = await sha256(seedString + '_recipient_salt');
+    const senderSalt = await sha256(seedString + '_sender_salt');
+
+    // Create sender address (both halves are minted to self first)
+    const senderAddressRef = await UnmaskedPredicateReference.create(
+      tokenToSplit.type,
+      this.signingService.algorithm,
+      this.signingService.publicKey,
+      HashAlgorithm.SHA256
+    );
+    const senderAddress = await senderAddressRef.toAddress();
+
+    // Build split configuration
+    const builder = new TokenSplitBuilder();
+
+    // Split token (exact amount)
+    const coinDataA = TokenCoinData.create([[coinId, splitAmount]]);
+    builder.createToken(
+      recipientTokenId,
+      tokenToSplit.type,
+      new Uint8Array(0),
+      coinDataA,
+      senderAddress,
+      recipientSalt,
+      null
+    );
+
+    // Sender token (change)
+    const coinDataB = TokenCoinData.create([[coinId, remainderAmount]]);
+    builder.createToken(
+      senderTokenId,
+      tokenToSplit.type,
+      new Uint8Array(0),
+      coinDataB,
+      senderAddress,
+      senderSalt,
+      null
+    );
+
+    const split = await builder.build(tokenToSplit);
+
+    // === STEP 1: CREATE AND SUBMIT BURN COMMITMENT ===
+    logger.debug('InstantSplit', 'Step 1: Creating and submitting burn...');
+    const burnSalt = await sha256(seedString + '_burn_salt');
+    const burnCommitment = await split.createBurnCommitment(burnSalt, this.signingService);
+
+    const burnResponse = await this.client.submitTransferCommitment(burnCommitment);
+    if (burnResponse.status !== 'SUCCESS' && burnResponse.status !== 'REQUEST_ID_EXISTS') {
+      throw new SphereError(`Burn submission failed: ${burnResponse.status}`, 'TRANSFER_FAILED');
+    }
+
+    // === STEP 2: WAIT FOR BURN PROOF (~2s) ===
+    logger.debug('InstantSplit', 'Step 2: Waiting for burn proof...');
+    const burnProof = this.devMode
+      ? await this.waitInclusionProofWithDevBypass(burnCommitment, options?.burnProofTimeoutMs)
+      : await waitInclusionProof(this.trustBase, this.client, burnCommitment);
+    const burnTransaction = burnCommitment.toTransaction(burnProof);
+
+    logger.debug('InstantSplit', 'Burn proof received');
+
+    options?.onBurnCompleted?.(JSON.stringify(burnTransaction.toJSON()));
+
+    // === STEP 3: CREATE MINT COMMITMENTS WITH SPLITMINT REASON ===
+    logger.debug('InstantSplit', 'Step 3: Creating mint commitments...');
+    const mintCommitments = await split.createSplitMintCommitments(this.trustBase, burnTransaction);
+
+    // Find split and change mint commitments
+    const recipientIdHex = toHex(recipientTokenId.bytes);
+    const senderIdHex = toHex(senderTokenId.bytes);
+
+    const recipientMintCommitment = mintCommitments.find(
+      (c) => toHex(c.transactionData.tokenId.bytes) === recipientIdHex
+    );
+    const senderMintCommitment = mintCommitments.find(
+      (c) => toHex(c.transactionData.tokenId.bytes) === senderIdHex
+    );
+
+    if (!recipientMintCommitment || !senderMintCommitment) {
+      throw new SphereError('Failed to find expected mint commitments', 'TRANSFER_FAILED');
+    }
+
+    return {
+      splitGroupId,
+      seedString,
+      coinId,
+      burnTransaction,
+      recipientTokenId,
+      senderTokenId,
+      recipientSalt,
+      senderSalt,
+      recipientMintCommitment,
+      senderMintCommitment,
+    };
+  }
+
   /**
    * Create a TransferCommitment from MintTransactionData WITHOUT waiting for mint proof.
    *
@@ -447,29 +580,33 @@ export class InstantSplitExecutor {
    */
   private submitBackgroundV5(
     senderMintCommitment: MintCommitment<any>,
-    recipientMintCommitment: MintCommitment<any>,
-    transferCommitment: TransferCommitment,
+    recipientMintCommitment: MintCommitment<any> | null,
+    transferCommitment: TransferCommitment | null,
     context: BackgroundContext
   ): Promise<void> {
     logger.debug('InstantSplit', 'Background: Starting parallel mint submission...');
     const startTime = performance.now();
 
-    // Submit all commitments in parallel
+    // Submit all commitments in parallel (a self split has already minted the split half)
     const submissions = Promise.all([
       this.client
         .submitMintCommitment(senderMintCommitment)
         .then((res) => ({ type: 'senderMint', status: res.status }))
         .catch((err) => ({ type: 'senderMint', status: 'ERROR', error: err })),
 
-      this.client
-        .submitMintCommitment(recipientMintCommitment)
-        .then((res) => ({ type: 'recipientMint', status: res.status }))
-        .catch((err) => ({ type: 'recipientMint', status: 'ERROR', error: err })),
-
-      this.client
-        .submitTransferCommitment(transferCommitment)
-        .then((res) => ({ type: 'transfer', status: res.status }))
-        .catch((err) => ({ type: 'transfer', status: 'ERROR', error: err })),
+      ...(recipientMintCommitment ? [
+        this.client
+          .submitMintCommitment(recipientMintCommitment)
+          .then((res) => ({ type: 'recipientMint', status: res.status }))
+          .catch((err) => ({ type: 'recipientMint', status: 'ERROR', error: err })),
+      ] : []),
+
+      ...(transferCommitment ? [
+        this.client
+          .submitTransferCommitment(transferCommitment)
+          .then((res) => ({ type: 'transfer', status: res.status }))
+          .catch((err) => ({ type: 'transfer', status: 'ERROR', error: err })),
+      ] : []),
     ]);
 
     return submissions
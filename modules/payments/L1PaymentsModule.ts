@@ -5,14 +5,18 @@
  * - Balance queries
  * - UTXO management
  * - Transaction sending
+ * - PSBT creation, signing and broadcast (offline signing)
  * - Vesting classification
  * - Transaction history
  */
 
 import type { FullIdentity } from '../../types';
+import type { AddressInfo } from '../../core/crypto';
 import { SphereError } from '../../core/errors';
 import type { TransportProvider } from '../../transport';
-import { DEFAULT_ELECTRUM_URL } from '../../constants';
+import type { StorageProvider } from '../../storage';
+import { logger } from '../../core/logger';
+import { DEFAULT_ELECTRUM_URL, STORAGE_KEYS_ADDRESS } from '../../constants';
 import {
   connect as l1Connect,
   disconnect as l1Disconnect,
@@ -22,13 +26,36 @@ import {
   getTransactionHistory,
   getTransaction as l1GetTransaction,
   getCurrentBlockHeight,
+  broadcast,
   sendAlpha as l1SendAlpha,
+  createAndSignTransaction,
+  createReplacementTransaction,
+  createCpfpTransaction,
+  estimateTransactionVsize,
+  estimateTransactionFee,
+  DEFAULT_FEE_RATE,
+  getCoinSelector,
+  withVestingPolicy,
   createTransactionPlan as l1CreateTransactionPlan,
+  createPsbtFromTransaction,
+  parsePsbt,
+  serializePsbt,
+  signPsbt as l1SignPsbt,
+  finalizePsbt,
+  extractTransaction,
+  getPsbtFee,
+  getPsbtTxid,
   vestingClassifier,
   VESTING_THRESHOLD,
   type UTXO,
+  type ClassifiedUTXO,
   type Wallet,
   type TransactionDetail,
+  type TransactionPlanOptions,
+  type Transaction,
+  type L1CoinSelector,
+  type L1CoinSelectionStrategy,
+  type L1VestingPolicy,
 } from '../../l1';
 
 // =============================================================================
@@ -40,10 +67,14 @@ export interface L1SendRequest {
   to: string;
   /** Amount in satoshis */
   amount: string;
-  /** Fee rate in sat/byte */
+  /** Fee rate in sat/vB (defaults to config.defaultFeeRate) */
   feeRate?: number;
-  /** Use vested coins only */
+  /** Use vested coins only (shorthand for `vesting: { exclude: 'unvested' }`) */
   useVested?: boolean;
+  /** Coin selection strategy (defaults to config.coinSelection) */
+  coinSelection?: L1CoinSelectionStrategy | L1CoinSelector;
+  /** Exclude or prefer vested/unvested UTXOs */
+  vesting?: L1VestingPolicy;
   /** Memo/OP_RETURN data */
   memo?: string;
 }
@@ -82,6 +113,71 @@ export interface L1Transaction {
   confirmations: number;
   timestamp: number;
   blockHeight?: number;
+  /** Replaced via RBF; this transaction can no longer confirm */
+  superseded?: boolean;
+  /** RBF replacement of this transaction */
+  replacedBy?: string;
+  /** Transaction this one replaced via RBF */
+  replaces?: string;
+  /** CPFP child paying for this transaction */
+  bumpedBy?: string;
+  /** Parent transaction this CPFP child pays for */
+  bumps?: string;
+}
+
+export interface L1FeeBumpResult extends L1SendResult {
+  /** Transaction whose fee was bumped */
+  originalTxid: string;
+  method: 'rbf' | 'cpfp';
+  /** Fee rate of the replacement (RBF) or of the parent + child package (CPFP), sat/vB */
+  feeRate?: number;
+}
+
+export interface L1PsbtResult {
+  success: boolean;
+  /** Base64-encoded PSBT (BIP174) */
+  psbt?: string;
+  /** Fee paid by the transaction, in sats */
+  fee?: string;
+  /** Number of inputs signed by this wallet (signPsbt only) */
+  signedInputs?: number;
+  error?: string;
+}
+
+/** Persisted record of an RBF replacement or CPFP child */
+export interface L1FeeBumpRecord {
+  method: 'rbf' | 'cpfp';
+  /** Transaction whose fee was bumped */
+  originalTxid: string;
+  /** Replacement (RBF) or child (CPFP) transaction */
+  bumpTxid: string;
+  /** Fee paid by the bump transaction, in sats */
+  fee: string;
+  feeRate: number;
+  /** Amount and counterparty of the original, kept so superseded sends stay visible */
+  amount: string;
+  address: string;
+  timestamp: number;
+}
+
+/** Change output of a transaction sent by this wallet */
+interface L1ChangeOutputRecord {
+  txid: string;
+  vout: number;
+  address: string;
+  /** Index on the change chain, when change went to a fresh change address */
+  changeIndex?: number;
+}
+
+/**
+ * The wallet's HD addresses, for coin selectors that spend across addresses.
+ * Keys are derived on demand rather than kept by the module.
+ */
+export interface L1AddressSource {
+  /** Receiving addresses tracked by the wallet, with their keys */
+  getAddresses(): AddressInfo[];
+  /** Derive a change address; absent when the wallet has no change chain */
+  deriveChangeAddress?(index: number): AddressInfo;
 }
 
 // =============================================================================
@@ -93,10 +189,12 @@ export interface L1PaymentsModuleConfig {
   electrumUrl?: string;
   /** Network: mainnet or testnet */
   network?: 'mainnet' | 'testnet';
-  /** Default fee rate */
+  /** Default fee rate in sat/vB */
   defaultFeeRate?: number;
   /** Enable vesting classification */
   enableVesting?: boolean;
+  /** Default coin selection strategy (default: 'default') */
+  coinSelection?: L1CoinSelectionStrategy | L1CoinSelector;
 }
 
 // =============================================================================
@@ -109,12 +207,23 @@ export interface L1PaymentsModuleDependencies {
   addresses?: string[];
   /** Transport provider for nametag resolution (optional) */
   transport?: TransportProvider;
+  /** Storage provider for fee bump records (optional, kept in memory otherwise) */
+  storage?: StorageProvider;
+  /** Watch-only wallet: balances, history and PSBT creation only, no signing */
+  watchOnly?: boolean;
+  /** Called before every signing operation; throws WALLET_LOCKED while the wallet is locked */
+  ensureUnlocked?: () => void;
+  /** Other wallet addresses and change addresses, for selectors that spend across addresses */
+  addressSource?: L1AddressSource;
 }
 
 // =============================================================================
 // Implementation
 // =============================================================================
 
+/** How far down the change chain to look for an unused change address */
+const MAX_CHANGE_ADDRESS_SCAN = 100;
+
 /**
  * L1 Payments Module - Full Implementation
  *
@@ -129,13 +238,20 @@ export class L1PaymentsModule {
   private _addresses: string[] = [];
   private _wallet?: Wallet;
   private _transport?: TransportProvider;
+  private _storage?: StorageProvider;
+  private _feeBumps: L1FeeBumpRecord[] | null = null;
+  private _changeOutputs: L1ChangeOutputRecord[] | null = null;
+  private _watchOnly = false;
+  private _ensureUnlocked?: () => void;
+  private _addressSource?: L1AddressSource;
 
   constructor(config?: L1PaymentsModuleConfig) {
     this._config = {
       electrumUrl: config?.electrumUrl ?? DEFAULT_ELECTRUM_URL,
       network: config?.network ?? 'mainnet',
-      defaultFeeRate: config?.defaultFeeRate ?? 10,
+      defaultFeeRate: config?.defaultFeeRate ?? DEFAULT_FEE_RATE,
       enableVesting: config?.enableVesting ?? true,
+      coinSelection: config?.coinSelection ?? 'default',
     };
   }
 
@@ -143,16 +259,22 @@ export class L1PaymentsModule {
     this._identity = deps.identity;
     this._addresses = deps.addresses ?? [];
     this._transport = deps.transport;
-
-    // Build wallet object for L1 SDK functions
+    this._storage = deps.storage;
+    this._feeBumps = null;
+    this._changeOutputs = null;
+    this._watchOnly = deps.watchOnly ?? false;
+    this._ensureUnlocked = deps.ensureUnlocked;
+    this._addressSource = deps.addressSource;
+
+    // Build wallet object for L1 SDK functions. Keys are not copied: they are
+    // taken from the identity when signing, so locking the wallet wipes them.
     this._wallet = {
-      masterPrivateKey: deps.identity.privateKey,
+      masterPrivateKey: '',
       chainCode: deps.chainCode,
       addresses: [
         {
           address: deps.identity.l1Address,
           publicKey: deps.identity.chainPubkey,
-          privateKey: deps.identity.privateKey,
           path: 'm/0',
           index: 0,
         },
@@ -199,6 +321,9 @@ export class L1PaymentsModule {
     this._identity = undefined;
     this._addresses = [];
     this._wallet = undefined;
+    this._addressSource = undefined;
+    this._feeBumps = null;
+    this._changeOutputs = null;
   }
 
   /**
@@ -284,6 +409,7 @@ export class L1PaymentsModule {
 
   async send(request: L1SendRequest): Promise<L1SendResult> {
     this.ensureInitialized();
+    this.ensureCanSign();
     await this.ensureConnected();
 
     if (!this._wallet || !this._identity) {
@@ -291,26 +417,26 @@ export class L1PaymentsModule {
     }
 
     try {
-      // Resolve recipient to L1 address (supports nametag)
-      const recipientAddress = await this.resolveL1Address(request.to);
+      const { recipientAddress, amountAlpha, options, changeIndex } = await this._prepareSend(request);
 
-      // Convert amount from satoshis to ALPHA
-      const amountAlpha = parseInt(request.amount, 10) / 100_000_000;
-
-      // Send using the L1 SDK
+      // Send using the L1 SDK (all inputs go into a single transaction)
       const results = await l1SendAlpha(
-        this._wallet,
+        await this._getSigningWallet(),
         recipientAddress,
         amountAlpha,
-        this._identity.l1Address
+        this._identity.l1Address,
+        options
       );
 
       if (results && results.length > 0) {
-        // Calculate total fee from all transactions
-        const txids = results.map((r) => r.txid);
+        for (const result of results) {
+          await this._recordChangeOutput(result.txid, result.transaction, changeIndex);
+        }
+        const totalFee = results.reduce((sum, r) => sum + r.fee, 0);
         return {
           success: true,
-          txHash: txids[0], // Return first txid (usually only one)
+          txHash: results[0].txid,
+          fee: totalFee.toString(),
         };
       } else {
         return {
@@ -326,11 +452,111 @@ export class L1PaymentsModule {
     }
   }
 
+  /**
+   * Plan a send like send() but return it as an unsigned PSBT instead of
+   * signing and broadcasting it. Pass the PSBT to an offline wallet's
+   * signPsbt(), then back to finalizeAndBroadcast().
+   */
+  async createPsbt(request: L1SendRequest): Promise<L1PsbtResult> {
+    this.ensureInitialized();
+    await this.ensureConnected();
+
+    if (!this._wallet || !this._identity) {
+      return { success: false, error: 'No wallet available' };
+    }
+
+    try {
+      const { recipientAddress, amountAlpha, options, changeIndex } = await this._prepareSend(request);
+
+      const plan = await l1CreateTransactionPlan(
+        this._wallet,
+        recipientAddress,
+        amountAlpha,
+        this._identity.l1Address,
+        options
+      );
+      if (!plan.success || plan.transactions.length === 0) {
+        throw new SphereError(plan.error || 'Transaction planning failed', 'TRANSFER_FAILED');
+      }
+
+      const tx = plan.transactions[0];
+      const unsigned = createPsbtFromTransaction(tx);
+      await this._recordChangeOutput(getPsbtTxid(unsigned), tx, changeIndex);
+      return {
+        success: true,
+        psbt: serializePsbt(unsigned),
+        fee: tx.fee.toString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Sign the inputs of a PSBT that spend this wallet's addresses.
+   * Works offline: no network connection is made.
+   */
+  async signPsbt(psbt: string): Promise<L1PsbtResult> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+
+    if (!this._wallet) {
+      return { success: false, error: 'No wallet available' };
+    }
+
+    try {
+      const { psbt: signed, signedInputs } = l1SignPsbt(parsePsbt(psbt), await this._getSigningWallet());
+      if (signedInputs === 0) {
+        throw new SphereError('PSBT has no inputs spending this wallet\'s addresses', 'SIGNING_ERROR');
+      }
+
+      return {
+        success: true,
+        psbt: serializePsbt(signed),
+        fee: getPsbtFee(signed)?.toString(),
+        signedInputs,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Finalize a fully signed PSBT and broadcast the resulting transaction
+   */
+  async finalizeAndBroadcast(psbt: string): Promise<L1SendResult> {
+    this.ensureInitialized();
+    await this.ensureConnected();
+
+    try {
+      const finalized = finalizePsbt(parsePsbt(psbt));
+      const { hex, txid } = extractTransaction(finalized);
+      await broadcast(hex);
+
+      return {
+        success: true,
+        txHash: txid,
+        fee: getPsbtFee(finalized)?.toString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   async getBalance(): Promise<L1Balance> {
     this.ensureInitialized();
     await this.ensureConnected();
 
-    const addresses = this._getWatchedAddresses();
+    const addresses = await this._getWatchedAddresses();
     let totalAlpha = 0;
     let vestedSats = BigInt(0);
     let unvestedSats = BigInt(0);
@@ -416,7 +642,7 @@ export class L1PaymentsModule {
     await this.ensureConnected();
     this.ensureInitialized();
 
-    const addresses = this._getWatchedAddresses();
+    const addresses = await this._getWatchedAddresses();
     const transactions: L1Transaction[] = [];
     const seenTxids = new Set<string>();
     const currentHeight = await getCurrentBlockHeight();
@@ -502,6 +728,8 @@ export class L1PaymentsModule {
       }
     }
 
+    await this._applyFeeBumps(transactions);
+
     // Sort by block height descending
     transactions.sort((a, b) => (b.blockHeight ?? 0) - (a.blockHeight ?? 0));
 
@@ -515,7 +743,7 @@ export class L1PaymentsModule {
     const tx = (await l1GetTransaction(txid)) as TransactionDetail | null;
     if (!tx) return null;
 
-    const addresses = this._getWatchedAddresses();
+    const addresses = await this._getWatchedAddresses();
     const currentHeight = await getCurrentBlockHeight();
 
     // Determine if this is a send (our address in inputs)
@@ -540,7 +768,7 @@ export class L1PaymentsModule {
       }
     }
 
-    return {
+    const result: L1Transaction = {
       txid,
       type: isSend ? 'send' : 'receive',
       amount,
@@ -549,17 +777,29 @@ export class L1PaymentsModule {
       timestamp: tx.time ? tx.time * 1000 : Date.now(),
       blockHeight: tx.confirmations ? currentHeight - tx.confirmations + 1 : undefined,
     };
+    await this._applyFeeBumps([result], false);
+    return result;
   }
 
+  /**
+   * Estimate the fee for sending `amount` sats to `to`.
+   * The fee is derived from the planned transaction's vsize at `feeRate`
+   * (sat/vB, defaults to config.defaultFeeRate).
+   */
   async estimateFee(
     to: string,
-    amount: string
+    amount: string,
+    feeRate?: number
   ): Promise<{ fee: string; feeRate: number }> {
     this.ensureInitialized();
     await this.ensureConnected();
 
+    const rate = this.getFeeRate(feeRate);
+    // Typical 1-input, 2-output (recipient + change) transaction
+    const fallbackFee = estimateTransactionFee(1, 2, rate).toString();
+
     if (!this._wallet) {
-      return { fee: '0', feeRate: this._config.defaultFeeRate ?? 10 };
+      return { fee: fallbackFee, feeRate: rate };
     }
 
     try {
@@ -569,25 +809,170 @@ export class L1PaymentsModule {
       const plan = await l1CreateTransactionPlan(
         this._wallet,
         to,
-        amountAlpha
+        amountAlpha,
+        undefined,
+        { feeRate: rate, selector: getCoinSelector(this._config.coinSelection) }
       );
 
       if (!plan.success) {
-        return { fee: '0', feeRate: this._config.defaultFeeRate ?? 10 };
+        return { fee: fallbackFee, feeRate: rate };
       }
 
-      // Sum fees from all transactions
       const totalFee = plan.transactions.reduce((sum, tx) => sum + tx.fee, 0);
 
       return {
         fee: totalFee.toString(),
-        feeRate: this._config.defaultFeeRate ?? 10,
+        feeRate: rate,
       };
     } catch {
-      return { fee: '10000', feeRate: this._config.defaultFeeRate ?? 10 };
+      return { fee: fallbackFee, feeRate: rate };
+    }
+  }
+
+  /**
+   * Replace an unconfirmed send with a higher-fee version (BIP125 RBF).
+   * The replacement spends the same inputs and pays the same recipients;
+   * the extra fee comes out of the change output. Our transactions signal
+   * RBF via nSequence 0xfffffffe.
+   *
+   * @param txid - Unconfirmed transaction to replace (all inputs must be ours)
+   * @param newFeeRate - Fee rate for the replacement in sat/vB
+   */
+  async bumpFee(txid: string, newFeeRate: number): Promise<L1FeeBumpResult> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+    await this.ensureConnected();
+
+    if (!this._wallet) {
+      return { success: false, originalTxid: txid, method: 'rbf', error: 'No wallet available' };
+    }
+
+    try {
+      const feeRate = this.getFeeRate(newFeeRate);
+      const { transaction: original, ownsAllInputs, externalAmount, externalAddress } =
+        await this._loadUnconfirmedTransaction(txid);
+
+      if (!ownsAllInputs) {
+        throw new SphereError('Cannot replace a transaction spending inputs we do not own', 'VALIDATION_ERROR');
+      }
+
+      const currentRate = original.fee / estimateTransactionVsize(original.inputs.length, original.outputs.length);
+      if (feeRate <= currentRate) {
+        throw new SphereError(
+          `New fee rate must exceed the current rate of ${currentRate.toFixed(2)} sat/vB`,
+          'VALIDATION_ERROR'
+        );
+      }
+
+      const replacement = createReplacementTransaction(original, feeRate);
+      const signed = createAndSignTransaction(await this._getSigningWallet(), replacement);
+      await broadcast(signed.raw);
+      await this._recordChangeOutput(signed.txid, replacement);
+
+      await this._recordFeeBump({
+        method: 'rbf',
+        originalTxid: txid,
+        bumpTxid: signed.txid,
+        fee: replacement.fee.toString(),
+        feeRate,
+        amount: externalAmount.toString(),
+        address: externalAddress,
+        timestamp: Date.now(),
+      });
+
+      return {
+        success: true,
+        txHash: signed.txid,
+        fee: replacement.fee.toString(),
+        feeRate,
+        originalTxid: txid,
+        method: 'rbf',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        originalTxid: txid,
+        method: 'rbf',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
   }
 
+  /**
+   * Child-pays-for-parent: spend our output of an unconfirmed transaction
+   * (usually its change) back to ourselves, paying enough fee that parent +
+   * child together reach `feeRate`. Works for stuck incoming payments too.
+   *
+   * @param txid - Unconfirmed parent transaction with an output to one of our addresses
+   * @param feeRate - Target package fee rate in sat/vB (defaults to config.defaultFeeRate)
+   */
+  async cpfp(txid: string, feeRate?: number): Promise<L1FeeBumpResult> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+    await this.ensureConnected();
+
+    if (!this._wallet) {
+      return { success: false, originalTxid: txid, method: 'cpfp', error: 'No wallet available' };
+    }
+
+    try {
+      const rate = this.getFeeRate(feeRate);
+      const { transaction: parent, ownOutputIndex, externalAmount, externalAddress } =
+        await this._loadUnconfirmedTransaction(txid);
+
+      if (ownOutputIndex < 0) {
+        throw new SphereError('Transaction has no output to one of our addresses', 'VALIDATION_ERROR');
+      }
+
+      const output = parent.outputs[ownOutputIndex];
+      const child = createCpfpTransaction(
+        {
+          fee: parent.fee,
+          vsize: estimateTransactionVsize(parent.inputs.length, parent.outputs.length),
+        },
+        { txid, vout: ownOutputIndex, value: output.value, address: output.address },
+        rate
+      );
+      const signed = createAndSignTransaction(await this._getSigningWallet(), child);
+      await broadcast(signed.raw);
+      await this._recordChangeOutput(signed.txid, child);
+
+      await this._recordFeeBump({
+        method: 'cpfp',
+        originalTxid: txid,
+        bumpTxid: signed.txid,
+        fee: child.fee.toString(),
+        feeRate: rate,
+        amount: externalAmount.toString(),
+        address: externalAddress,
+        timestamp: Date.now(),
+      });
+
+      return {
+        success: true,
+        txHash: signed.txid,
+        fee: child.fee.toString(),
+        feeRate: rate,
+        originalTxid: txid,
+        method: 'cpfp',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        originalTxid: txid,
+        method: 'cpfp',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Get all recorded fee bumps (RBF replacements and CPFP children)
+   */
+  async getFeeBumps(): Promise<L1FeeBumpRecord[]> {
+    return [...(await this._loadFeeBumps())];
+  }
+
   getAddresses(): string[] {
     return [...this._addresses];
   }
@@ -615,22 +1000,361 @@ export class L1PaymentsModule {
     return isWebSocketConnected();
   }
 
+  /**
+   * Resolve the recipient, amount and planning options of a send request
+   */
+  private async _prepareSend(request: L1SendRequest): Promise<{
+    recipientAddress: string;
+    amountAlpha: number;
+    options: TransactionPlanOptions;
+    /** Change chain index of the fresh change address, if one is used */
+    changeIndex?: number;
+  }> {
+    // Resolve recipient to L1 address (supports nametag)
+    const recipientAddress = await this.resolveL1Address(request.to);
+
+    // Convert amount from satoshis to ALPHA
+    const amountAlpha = parseInt(request.amount, 10) / 100_000_000;
+
+    const feeRate = this.getFeeRate(request.feeRate);
+    const vesting = this.getVestingPolicy(request);
+    const selector = withVestingPolicy(
+      getCoinSelector(request.coinSelection ?? this._config.coinSelection),
+      vesting
+    );
+
+    if (selector.acrossAddresses) {
+      const addresses = await this._getSpendableAddresses();
+      const utxos = vesting.exclude || vesting.prefer
+        ? await this._getClassifiedUtxos(addresses)
+        : await this._getAllUtxos(addresses);
+      const change = await this._getFreshChangeAddress();
+      return {
+        recipientAddress,
+        amountAlpha,
+        options: { feeRate, selector, utxos, changeAddress: change?.address },
+        changeIndex: change?.index,
+      };
+    }
+
+    // Vesting policies need classified UTXOs
+    const utxos = vesting.exclude || vesting.prefer
+      ? await this._getClassifiedUtxos([this._identity!.l1Address])
+      : undefined;
+
+    return { recipientAddress, amountAlpha, options: { feeRate, selector, utxos } };
+  }
+
+  private getFeeRate(feeRate?: number): number {
+    const rate = feeRate ?? this._config.defaultFeeRate ?? DEFAULT_FEE_RATE;
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new SphereError(`Invalid fee rate: ${rate}`, 'VALIDATION_ERROR');
+    }
+    return rate;
+  }
+
+  private getVestingPolicy(request: L1SendRequest): L1VestingPolicy {
+    if (request.vesting) return request.vesting;
+    return request.useVested ? { exclude: 'unvested' } : {};
+  }
+
   private ensureInitialized(): void {
     if (!this._initialized) {
       throw new SphereError('L1PaymentsModule not initialized', 'NOT_INITIALIZED');
     }
   }
 
-  private _getWatchedAddresses(): string[] {
+  private ensureCanSign(): void {
+    if (this._watchOnly) {
+      throw new SphereError('Watch-only wallet cannot sign L1 transactions', 'WATCH_ONLY');
+    }
+    this._ensureUnlocked?.();
+  }
+
+  /** Our address, watched addresses and the fresh change addresses our sends paid */
+  private async _getWatchedAddresses(): Promise<string[]> {
     const addresses = [...this._addresses];
     if (this._identity?.l1Address && !addresses.includes(this._identity.l1Address)) {
       addresses.unshift(this._identity.l1Address);
     }
+    for (const record of await this._loadChangeOutputs()) {
+      if (record.changeIndex !== undefined && !addresses.includes(record.address)) {
+        addresses.push(record.address);
+      }
+    }
+    return addresses;
+  }
+
+  /** Watched addresses plus the wallet's other addresses, for selectors spending across addresses */
+  private async _getSpendableAddresses(): Promise<string[]> {
+    const addresses = await this._getWatchedAddresses();
+    for (const info of this._addressSource?.getAddresses() ?? []) {
+      if (!addresses.includes(info.address)) addresses.push(info.address);
+    }
     return addresses;
   }
 
-  private async _getAllUtxos(): Promise<UTXO[]> {
-    const addresses = this._getWatchedAddresses();
+  /**
+   * The wallet with keys for every address a transaction of ours may spend:
+   * the wallet's other addresses and the change addresses recorded for it
+   */
+  private async _getSigningWallet(): Promise<Wallet> {
+    const privateKey = this._identity!.privateKey;
+    const [primary, ...others] = this._wallet!.addresses;
+    const wallet: Wallet = {
+      ...this._wallet!,
+      masterPrivateKey: privateKey,
+      addresses: [{ ...primary, privateKey }, ...others],
+    };
+    const source = this._addressSource;
+    if (!source) return wallet;
+
+    const keyed = source.getAddresses();
+    if (source.deriveChangeAddress) {
+      for (const record of await this._loadChangeOutputs()) {
+        if (record.changeIndex !== undefined) keyed.push(source.deriveChangeAddress(record.changeIndex));
+      }
+    }
+
+    // Entries with keys first: getPrivateKeyForAddress takes the first match
+    return {
+      ...wallet,
+      addresses: [
+        ...keyed.map(({ address, publicKey, privateKey, path, index }) => ({ address, publicKey, privateKey, path, index })),
+        ...wallet.addresses,
+      ],
+    };
+  }
+
+  /**
+   * First change address that has no history and is not recorded as used.
+   * Null when the wallet has no change chain.
+   */
+  private async _getFreshChangeAddress(): Promise<AddressInfo | null> {
+    const source = this._addressSource;
+    if (!source?.deriveChangeAddress) return null;
+
+    const used = new Set((await this._loadChangeOutputs()).map((r) => r.changeIndex));
+    for (let index = 0; index < MAX_CHANGE_ADDRESS_SCAN; index++) {
+      if (used.has(index)) continue;
+      const info = source.deriveChangeAddress(index);
+      if ((await getTransactionHistory(info.address)).length === 0) return info;
+    }
+    throw new SphereError(`No unused change address in the first ${MAX_CHANGE_ADDRESS_SCAN}`, 'TRANSFER_FAILED');
+  }
+
+  /**
+   * Fetch an unconfirmed transaction and rebuild it as a Transaction plan,
+   * resolving input values and addresses from the previous transactions.
+   *
+   * The change output is the one recorded when we sent the transaction. For
+   * sends without a record it is only inferred when exactly one output pays
+   * us next to external ones; a self-send then has no change, as its
+   * payment cannot be told apart from it.
+   */
+  private async _loadUnconfirmedTransaction(txid: string): Promise<{
+    transaction: Transaction;
+    ownsAllInputs: boolean;
+    /** Index of the (last) output paying one of our addresses, -1 if none */
+    ownOutputIndex: number;
+    /** Total paid to addresses that are not ours */
+    externalAmount: number;
+    externalAddress: string;
+  }> {
+    const tx = (await l1GetTransaction(txid)) as TransactionDetail | null;
+    if (!tx) {
+      throw new SphereError(`Transaction not found: ${txid}`, 'VALIDATION_ERROR');
+    }
+    if ((tx.confirmations ?? 0) > 0) {
+      throw new SphereError(`Transaction ${txid} is already confirmed`, 'VALIDATION_ERROR');
+    }
+
+    const ourAddresses = new Set((await this._getSpendableAddresses()).map((a) => a.toLowerCase()));
+    const toSats = (value: number | undefined) => Math.round((value ?? 0) * 100_000_000);
+    const addressOf = (scriptPubKey: TransactionDetail['vout'][number]['scriptPubKey'] | undefined) =>
+      scriptPubKey?.address ?? scriptPubKey?.addresses?.[0];
+
+    const inputs: Transaction['inputs'] = [];
+    let ownsAllInputs = true;
+    for (const vin of tx.vin ?? []) {
+      const prevTx = (await l1GetTransaction(vin.txid)) as TransactionDetail | null;
+      const prevOut = prevTx?.vout?.[vin.vout];
+      if (!prevOut) {
+        throw new SphereError(`Cannot resolve input ${vin.txid}:${vin.vout}`, 'NETWORK_ERROR');
+      }
+      const address = addressOf(prevOut.scriptPubKey) ?? '';
+      if (!ourAddresses.has(address.toLowerCase())) ownsAllInputs = false;
+      inputs.push({ txid: vin.txid, vout: vin.vout, value: toSats(prevOut.value), address });
+    }
+
+    const outputs: Transaction['outputs'] = [];
+    let ownOutputIndex = -1;
+    let externalAmount = 0;
+    let externalAddress = '';
+    for (const [index, vout] of (tx.vout ?? []).entries()) {
+      const address = addressOf(vout.scriptPubKey);
+      if (!address) {
+        throw new SphereError(`Unsupported output script in ${txid}:${index}`, 'VALIDATION_ERROR');
+      }
+      const value = toSats(vout.value);
+      outputs.push({ address, value });
+      if (ourAddresses.has(address.toLowerCase())) {
+        ownOutputIndex = index;
+      } else {
+        externalAmount += value;
+        if (!externalAddress) externalAddress = address;
+      }
+    }
+
+    const inputValue = inputs.reduce((sum, i) => sum + i.value, 0);
+    const outputValue = outputs.reduce((sum, o) => sum + o.value, 0);
+    const change = outputs[await this._findChangeOutput(txid, outputs, ourAddresses)];
+
+    return {
+      transaction: {
+        inputs,
+        outputs,
+        fee: inputValue - outputValue,
+        changeAmount: change?.value ?? 0,
+        changeAddress: change?.address ?? this._identity?.l1Address ?? '',
+      },
+      ownsAllInputs,
+      ownOutputIndex,
+      externalAmount,
+      externalAddress,
+    };
+  }
+
+  /** Index of the change output of one of our transactions, -1 if it has none */
+  private async _findChangeOutput(
+    txid: string,
+    outputs: Transaction['outputs'],
+    ourAddresses: Set<string>
+  ): Promise<number> {
+    const record = (await this._loadChangeOutputs()).find((r) => r.txid === txid);
+    if (record) {
+      return outputs[record.vout]?.address === record.address ? record.vout : -1;
+    }
+
+    const own = outputs.flatMap((o, i) => (ourAddresses.has(o.address.toLowerCase()) ? [i] : []));
+    return own.length === 1 && outputs.length > 1 ? own[0] : -1;
+  }
+
+  private async _loadChangeOutputs(): Promise<L1ChangeOutputRecord[]> {
+    if (this._changeOutputs) return this._changeOutputs;
+
+    this._changeOutputs = [];
+    if (this._storage) {
+      try {
+        const data = await this._storage.get(STORAGE_KEYS_ADDRESS.L1_CHANGE_OUTPUTS);
+        if (data) {
+          this._changeOutputs = JSON.parse(data) as L1ChangeOutputRecord[];
+        }
+      } catch (err) {
+        logger.warn('L1', 'Failed to load change output records:', err);
+      }
+    }
+    return this._changeOutputs;
+  }
+
+  /** Remember which output of a transaction we sent is its change */
+  private async _recordChangeOutput(txid: string, tx: Transaction, changeIndex?: number): Promise<void> {
+    if (tx.changeAmount <= 0) return;
+    const vout = tx.outputs.findIndex((o) => o.address === tx.changeAddress && o.value === tx.changeAmount);
+    if (vout < 0) return;
+
+    const records = await this._loadChangeOutputs();
+    // Replacements and CPFP children keep paying a change address we already track
+    changeIndex ??= records.find((r) => r.address === tx.changeAddress)?.changeIndex;
+    records.push({ txid, vout, address: tx.changeAddress, ...(changeIndex !== undefined ? { changeIndex } : {}) });
+    if (this._storage) {
+      try {
+        await this._storage.set(STORAGE_KEYS_ADDRESS.L1_CHANGE_OUTPUTS, JSON.stringify(records));
+      } catch (err) {
+        logger.warn('L1', 'Failed to persist change output record:', err);
+      }
+    }
+  }
+
+  private async _loadFeeBumps(): Promise<L1FeeBumpRecord[]> {
+    if (this._feeBumps) return this._feeBumps;
+
+    this._feeBumps = [];
+    if (this._storage) {
+      try {
+        const data = await this._storage.get(STORAGE_KEYS_ADDRESS.L1_FEE_BUMPS);
+        if (data) {
+          this._feeBumps = JSON.parse(data) as L1FeeBumpRecord[];
+        }
+      } catch (err) {
+        logger.warn('L1', 'Failed to load fee bump records:', err);
+      }
+    }
+    return this._feeBumps;
+  }
+
+  private async _recordFeeBump(record: L1FeeBumpRecord): Promise<void> {
+    const records = await this._loadFeeBumps();
+    records.push(record);
+    if (this._storage) {
+      try {
+        await this._storage.set(STORAGE_KEYS_ADDRESS.L1_FEE_BUMPS, JSON.stringify(records));
+      } catch (err) {
+        logger.warn('L1', 'Failed to persist fee bump record:', err);
+      }
+    }
+  }
+
+  /**
+   * Annotate history entries with fee bump links. Replaced sends drop out of
+   * the server history, so they are re-added (as superseded) from the records
+   * unless `addMissing` is false.
+   */
+  private async _applyFeeBumps(transactions: L1Transaction[], addMissing = true): Promise<void> {
+    const records = await this._loadFeeBumps();
+    if (records.length === 0) return;
+
+    const byTxid = new Map(transactions.map((t) => [t.txid, t]));
+
+    for (const record of records) {
+      const original = byTxid.get(record.originalTxid);
+      const bump = byTxid.get(record.bumpTxid);
+
+      if (record.method === 'rbf') {
+        if (original) {
+          original.superseded = true;
+          original.replacedBy = record.bumpTxid;
+        } else if (addMissing) {
+          const superseded: L1Transaction = {
+            txid: record.originalTxid,
+            type: 'send',
+            amount: record.amount,
+            address: record.address,
+            confirmations: 0,
+            timestamp: record.timestamp,
+            superseded: true,
+            replacedBy: record.bumpTxid,
+          };
+          transactions.push(superseded);
+          byTxid.set(superseded.txid, superseded);
+        }
+        if (bump) bump.replaces = record.originalTxid;
+      } else {
+        if (original) original.bumpedBy = record.bumpTxid;
+        if (bump) bump.bumps = record.originalTxid;
+      }
+    }
+  }
+
+  private async _getClassifiedUtxos(addresses: string[]): Promise<ClassifiedUTXO[]> {
+    await vestingClassifier.initDB();
+    const utxos = await this._getAllUtxos(addresses);
+    const classified = await vestingClassifier.classifyUtxos(utxos);
+    return [...classified.vested, ...classified.unvested];
+  }
+
+  private async _getAllUtxos(addresses?: string[]): Promise<UTXO[]> {
+    addresses ??= await this._getWatchedAddresses();
     const allUtxos: UTXO[] = [];
 
     for (const addr of addresses) {
@@ -18,6 +18,17 @@ import type {
   TransferRequest,
   TransferResult,
   IncomingTransfer,
+  IncomingTransferHandler,
+  Escrow,
+  EscrowRequest,
+  EscrowRole,
+  EscrowStatus,
+  EscrowTokenEntry,
+  Swap,
+  SwapAsset,
+  SwapRequest,
+  SwapRole,
+  SwapStatus,
   FullIdentity,
   SphereEventType,
   SphereEventMap,
@@ -28,15 +39,27 @@ import type {
   TombstoneEntry,
   NametagData,
 } from '../../types/txf';
-import { L1PaymentsModule, type L1PaymentsModuleConfig } from './L1PaymentsModule';
-import { TokenSplitCalculator } from './TokenSplitCalculator';
+import { keyFromTokenId, archivedKeyFromTokenId } from '../../types/txf';
+import { L1PaymentsModule, type L1PaymentsModuleConfig, type L1AddressSource } from './L1PaymentsModule';
+import { TokenSplitCalculator, type SplitPlan } from './TokenSplitCalculator';
 import { TokenSplitExecutor } from './TokenSplitExecutor';
+import { BackgroundCommitmentService } from './BackgroundCommitmentService';
 import { NametagMinter, type MintNametagResult } from './NametagMinter';
-import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase, HistoryRecord } from '../../storage';
+import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase, HistoryRecord, TokenStorageChanges, MergePolicy } from '../../storage';
 import type {
   TransportProvider,
   PeerInfo,
   IncomingTokenTransfer,
+  IncomingTransferReceipt,
+  TokenTransferPayload,
+  TransferReceiptPayload,
+  EscrowPayload,
+  EscrowOfferPayload,
+  EscrowClaimPayload,
+  EscrowReleasedPayload,
+  EscrowRefundedPayload,
+  SwapPayload,
+  SwapOfferPayload,
   PaymentRequestPayload,
   PaymentRequestResponsePayload,
   IncomingPaymentRequest as TransportPaymentRequest,
@@ -44,6 +67,7 @@ import type {
 } from '../../transport';
 import type { OracleProvider } from '../../oracle';
 import type { PriceProvider } from '../../price';
+import type { SearchIntentResult } from '../market/types';
 import type {
   PaymentRequest,
   IncomingPaymentRequest,
@@ -57,13 +81,16 @@ import type {
 import { STORAGE_KEYS_ADDRESS } from '../../constants';
 import {
   tokenToTxf,
+  txfToToken,
   getCurrentStateHash,
   buildTxfStorageData,
   parseTxfStorageData,
 } from '../../serialization/txf-serializer';
 import { TokenRegistry } from '../../registry';
 import { logger } from '../../core/logger';
-import { SphereError } from '../../core/errors';
+import { SphereError, isSphereError } from '../../core/errors';
+import { bytesToHex, hexToBytes, signMessage, verifySignedMessage } from '../../core/crypto';
+import { toSmallestUnit } from '../../core/currency';
 
 // Instant split imports
 import { InstantSplitExecutor } from './InstantSplitExecutor';
@@ -91,6 +118,8 @@ import { AddressScheme } from '@unicitylabs/state-transition-sdk/lib/address/Add
 import { UnmaskedPredicate } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate';
 import { TokenState } from '@unicitylabs/state-transition-sdk/lib/token/TokenState';
 import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { DataHash } from '@unicitylabs/state-transition-sdk/lib/hash/DataHash';
+import { DataHasher } from '@unicitylabs/state-transition-sdk/lib/hash/DataHasher';
 import { TokenType } from '@unicitylabs/state-transition-sdk/lib/token/TokenType';
 import { MintCommitment } from '@unicitylabs/state-transition-sdk/lib/transaction/MintCommitment';
 import { MintTransactionData } from '@unicitylabs/state-transition-sdk/lib/transaction/MintTransactionData';
@@ -116,7 +145,8 @@ export type TransactionHistoryEntry = import('../../storage').HistoryRecord;
  * - type + tokenId → one entry per token per direction
  * - fallback → UUID (no dedup possible)
  */
-function computeHistoryDedupKey(type: string, tokenId?: string, transferId?: string): string {
+function computeHistoryDedupKey(type: string, tokenId?: string, transferId?: string, escrowId?: string): string {
+  if (escrowId) return `${type}_escrow_${escrowId}`;
   if (type === 'SENT' && transferId) return `${type}_transfer_${transferId}`;
   if (tokenId) return `${type}_${tokenId}`;
   return `${type}_${crypto.randomUUID()}`;
@@ -125,6 +155,46 @@ function computeHistoryDedupKey(type: string, tokenId?: string, transferId?: str
 /** Maximum number of history entries to include in IPFS-synced TXF data */
 const MAX_SYNCED_HISTORY_ENTRIES = 5000;
 
+/** Default time before the sender of an escrow may refund it */
+const DEFAULT_ESCROW_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+function isHexBytes(value: unknown): value is string {
+  return typeof value === 'string' && /^([0-9a-fA-F]{2})+$/.test(value);
+}
+
+/** SHA-256 of an escrow preimage (hex in, hex out) — the check Token.update() applies to state data */
+async function hashEscrowPreimage(preimageHex: string): Promise<string> {
+  const hash = await new DataHasher(HashAlgorithm.SHA256).update(hexToBytes(preimageHex)).digest();
+  return bytesToHex(hash.data);
+}
+
+function isEscrowPayload(obj: unknown): obj is EscrowPayload {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const p = obj as Record<string, unknown>;
+  return p.version === '1.0'
+    && typeof p.escrowId === 'string'
+    && (p.type === 'ESCROW_OFFER' || p.type === 'ESCROW_CLAIM' || p.type === 'ESCROW_RELEASED'
+      || p.type === 'ESCROW_REFUNDED');
+}
+
+/** Default lock time of the responder's leg of a swap (the initiator's is twice this) */
+const DEFAULT_SWAP_TIMEOUT_MS = 60 * 60 * 1000;
+
+function isSwapPayload(obj: unknown): obj is SwapPayload {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const p = obj as Record<string, unknown>;
+  return p.version === '1.0'
+    && typeof p.swapId === 'string'
+    && (p.type === 'SWAP_OFFER' || p.type === 'SWAP_ACCEPT' || p.type === 'SWAP_DECLINE');
+}
+
+function isSwapAsset(obj: unknown): obj is SwapAsset {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const a = obj as Record<string, unknown>;
+  return typeof a.coinId === 'string' && a.coinId.length > 0
+    && typeof a.amount === 'string' && /^\d+$/.test(a.amount) && BigInt(a.amount) > 0n;
+}
+
 // =============================================================================
 // Receive Options & Result
 // =============================================================================
@@ -581,6 +651,21 @@ function findBestTokenVersion(
   return candidates[0];
 }
 
+/**
+ * Message signed by a transfer receipt
+ */
+function transferReceiptMessage(transferId: string, recipientPubkey: string, receivedAt: number): string {
+  return `sphere-transfer-receipt:${transferId}:${recipientPubkey}:${receivedAt}`;
+}
+
+/**
+ * Compare transport pubkeys regardless of a 02/03 compression prefix
+ */
+function sameTransportPubkey(a: string, b: string): boolean {
+  const xOnly = (key: string) => key.length === 66 ? key.slice(2) : key;
+  return xOnly(a).toLowerCase() === xOnly(b).toLowerCase();
+}
+
 // =============================================================================
 // Configuration
 // =============================================================================
@@ -598,6 +683,46 @@ export interface PaymentsModuleConfig {
   debug?: boolean;
   /** L1 (ALPHA blockchain) configuration. Set to null to explicitly disable L1. */
   l1?: L1PaymentsModuleConfig | null;
+  /** Redelivery of sent transfers until the recipient acknowledges them */
+  redelivery?: TransferRedeliveryConfig;
+}
+
+/**
+ * Sent transfers stay in the outbox until the recipient's signed receipt
+ * arrives and are redelivered with exponential backoff in the meantime.
+ */
+export interface TransferRedeliveryConfig {
+  /** Expect receipts and redeliver (default: true) */
+  enabled?: boolean;
+  /** Delay before the first redelivery in ms (default: 60000) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in ms (default: 3600000) */
+  maxDelayMs?: number;
+  /** Deliveries, including the first, before `transfer:undelivered` (default: 6) */
+  maxAttempts?: number;
+}
+
+/** PaymentsModuleConfig with defaults applied (excluding L1 config) */
+export type ResolvedPaymentsModuleConfig = Omit<Required<PaymentsModuleConfig>, 'l1' | 'redelivery'> & {
+  redelivery: Required<TransferRedeliveryConfig>;
+};
+
+/**
+ * Outbox entry for a sent transfer. `payloads` is set once the transfer was
+ * delivered to the transport; the entry then waits for a receipt.
+ */
+interface TransferOutboxEntry {
+  transfer: TransferResult;
+  /** Transport pubkey of the recipient */
+  recipient: string;
+  createdAt: number;
+  /** Recipient's chain pubkey, if resolved; receipts must be signed by it */
+  recipientChainPubkey?: string;
+  /** Payloads as sent, replayed on redelivery */
+  payloads?: TokenTransferPayload[];
+  /** Deliveries so far */
+  attempts?: number;
+  nextAttemptAt?: number;
 }
 
 // =============================================================================
@@ -640,6 +765,12 @@ export interface PaymentsModuleDependencies {
   price?: PriceProvider;
   /** Set of disabled provider IDs — disabled providers are skipped during sync/save */
   disabledProviderIds?: ReadonlySet<string>;
+  /** Watch-only wallet: no private key, every signing path throws WATCH_ONLY */
+  watchOnly?: boolean;
+  /** Called before every signing operation; throws WALLET_LOCKED while the wallet is locked */
+  ensureUnlocked?: () => void;
+  /** The wallet's other L1 addresses and change chain, for L1 sends spending across addresses */
+  l1AddressSource?: L1AddressSource;
 }
 
 // =============================================================================
@@ -647,7 +778,7 @@ export interface PaymentsModuleDependencies {
 // =============================================================================
 
 export class PaymentsModule {
-  private readonly moduleConfig: Omit<Required<PaymentsModuleConfig>, 'l1'>;
+  private readonly moduleConfig: ResolvedPaymentsModuleConfig;
   private deps: PaymentsModuleDependencies | null = null;
 
   /** L1 (ALPHA blockchain) payments sub-module (null if disabled) */
@@ -665,6 +796,9 @@ export class PaymentsModule {
   private _historyCache: TransactionHistoryEntry[] = [];
   private nametags: NametagData[] = [];
 
+  // Incoming transfer subscribers (besides the transfer:incoming event)
+  private incomingTransferHandlers: Set<IncomingTransferHandler> = new Set();
+
   // Payment Requests State (Incoming)
   private paymentRequests: IncomingPaymentRequest[] = [];
   private paymentRequestHandlers: Set<PaymentRequestHandler> = new Set();
@@ -682,6 +816,18 @@ export class PaymentsModule {
   private unsubscribeTransfers: (() => void) | null = null;
   private unsubscribePaymentRequests: (() => void) | null = null;
   private unsubscribePaymentRequestResponses: (() => void) | null = null;
+  private unsubscribeTransferReceipts: (() => void) | null = null;
+
+  // Sent transfers awaiting a receipt (live results returned by send()), and the redelivery timer
+  private awaitingReceipt: Map<string, TransferResult> = new Map();
+  private redeliveryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Tail of the serialized outbox read-modify-write cycles
+  private outboxUpdates: Promise<unknown> = Promise.resolve();
+  // Receipts held back while the wallet is locked: sender transport pubkey by transfer ID
+  private pendingReceipts: Map<string, string> = new Map();
+
+  // Watch-only: IDs of watched tokens already reported (null until first stored)
+  private watchKnownTokenIds: Set<string> | null = null;
 
   // NOSTR-FIRST proof polling (background proof verification)
   private proofPollingJobs: Map<string, ProofPollingJob> = new Map();
@@ -705,6 +851,12 @@ export class PaymentsModule {
   // Persistent dedup: tracks V6 combined transfer IDs that have been processed.
   private processedCombinedTransferIds: Set<string> = new Set();
 
+  // Hashlocked escrows offered or received by this address (persisted in KV storage)
+  private escrows: Map<string, Escrow> = new Map();
+
+  // Swaps negotiated by this address (persisted in KV storage)
+  private swaps: Map<string, Swap> = new Map();
+
   // Storage event subscriptions (push-based sync)
   private storageEventUnsubscribers: (() => void)[] = [];
   private syncDebounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -720,6 +872,12 @@ export class PaymentsModule {
       retryFailed: config?.retryFailed ?? true,
       maxRetries: config?.maxRetries ?? 3,
       debug: config?.debug ?? false,
+      redelivery: {
+        enabled: config?.redelivery?.enabled ?? true,
+        initialDelayMs: config?.redelivery?.initialDelayMs ?? 60_000,
+        maxDelayMs: config?.redelivery?.maxDelayMs ?? 3_600_000,
+        maxAttempts: config?.redelivery?.maxAttempts ?? 6,
+      },
     };
 
     // Initialize L1 sub-module by default (L1PaymentsModule has default electrumUrl).
@@ -732,7 +890,7 @@ export class PaymentsModule {
    *
    * @returns Resolved configuration with all defaults applied.
    */
-  getConfig(): Omit<Required<PaymentsModuleConfig>, 'l1'> {
+  getConfig(): ResolvedPaymentsModuleConfig {
     return this.moduleConfig;
   }
 
@@ -754,6 +912,8 @@ export class PaymentsModule {
     this.unsubscribePaymentRequests = null;
     this.unsubscribePaymentRequestResponses?.();
     this.unsubscribePaymentRequestResponses = null;
+    this.unsubscribeTransferReceipts?.();
+    this.unsubscribeTransferReceipts = null;
 
     // Stop all background timers/jobs from previous address context.
     // Without this, proof polling, resolveUnconfirmed intervals, and
@@ -762,6 +922,9 @@ export class PaymentsModule {
     this.stopProofPolling();
     this.proofPollingJobs.clear();
     this.stopResolveUnconfirmedPolling();
+    this.stopRedelivery();
+    this.awaitingReceipt.clear();
+    this.pendingReceipts.clear();
     this.unsubscribeStorageEvents();
 
     // Cancel pending payment response resolvers
@@ -790,6 +953,10 @@ export class PaymentsModule {
         chainCode: deps.chainCode,
         addresses: deps.l1Addresses,
         transport: deps.transport,
+        storage: deps.storage,
+        watchOnly: deps.watchOnly,
+        ensureUnlocked: deps.ensureUnlocked,
+        addressSource: deps.l1AddressSource,
       });
     }
 
@@ -812,6 +979,15 @@ export class PaymentsModule {
       });
     }
 
+    // Subscribe to receipts for transfers we sent (if supported)
+    if (deps.transport.onTransferReceipt) {
+      this.unsubscribeTransferReceipts = deps.transport.onTransferReceipt((receipt) => {
+        this.handleTransferReceipt(receipt).catch((err) =>
+          logger.debug('Payments', 'Transfer receipt handling failed:', err)
+        );
+      });
+    }
+
     // Subscribe to storage provider events (push-based sync)
     this.subscribeToStorageEvents();
   }
@@ -833,6 +1009,10 @@ export class PaymentsModule {
       // before parsing tokens — otherwise tokens get fallback truncated coinId values
       await TokenRegistry.waitForReady();
 
+      // Escrows first, so locked tokens are marked as they are loaded
+      await this.loadEscrows();
+      await this.loadSwaps();
+
       // Load metadata from TokenStorageProviders (archived, tombstones, forked)
       // Active tokens are NOT stored in TXF - they are loaded from token-xxx files
       const providers = this.getTokenStorageProviders();
@@ -894,6 +1074,11 @@ export class PaymentsModule {
       // Load transaction history from dedicated history store (with migration from legacy KV)
       await this.loadHistory();
 
+      if (this.deps!.watchOnly) {
+        const known = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.WATCH_KNOWN_TOKENS);
+        this.watchKnownTokenIds = known ? new Set(JSON.parse(known) as string[]) : null;
+      }
+
       // Load pending transfers
       const pending = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.PENDING_TRANSFERS);
       if (pending) {
@@ -909,6 +1094,12 @@ export class PaymentsModule {
     this.loadedPromise = doLoad();
     await this.loadedPromise;
 
+    // Resume redelivery of transfers still awaiting a receipt
+    this.scheduleRedelivery().catch((err) => logger.debug('Payments', 'scheduleRedelivery failed', err));
+
+    // Resolving unconfirmed tokens needs the signing key
+    if (this.deps!.watchOnly) return;
+
     // After loading, try to resolve any unconfirmed tokens and start
     // periodic retries so tokens don't stay stuck as 'submitted'.
     this.resolveUnconfirmed().catch((err) => logger.debug('Payments', 'resolveUnconfirmed failed', err));
@@ -928,8 +1119,11 @@ export class PaymentsModule {
     this.unsubscribePaymentRequests = null;
     this.unsubscribePaymentRequestResponses?.();
     this.unsubscribePaymentRequestResponses = null;
+    this.unsubscribeTransferReceipts?.();
+    this.unsubscribeTransferReceipts = null;
     this.paymentRequestHandlers.clear();
     this.paymentRequestResponseHandlers.clear();
+    this.incomingTransferHandlers.clear();
 
     // Stop proof polling (NOSTR-FIRST)
     this.stopProofPolling();
@@ -938,6 +1132,11 @@ export class PaymentsModule {
     // Stop V5 resolve-unconfirmed retry polling
     this.stopResolveUnconfirmedPolling();
 
+    // Stop redelivery of unacknowledged transfers
+    this.stopRedelivery();
+    this.awaitingReceipt.clear();
+    this.pendingReceipts.clear();
+
     // Clear pending response resolvers
     for (const [, resolver] of this.pendingResponseResolvers) {
       clearTimeout(resolver.timeout);
@@ -963,6 +1162,7 @@ export class PaymentsModule {
    */
   async send(request: TransferRequest): Promise<TransferResult> {
     this.ensureInitialized();
+    this.ensureCanSign();
 
     // Track this send() so switchToAddress() waits for it via waitForPendingOperations().
     // Without this, the user can switch addresses while send() is still running,
@@ -1037,6 +1237,9 @@ export class PaymentsModule {
 
       const transferMode = request.transferMode ?? 'instant';
 
+      // Payloads as sent, kept in the outbox for redelivery until acknowledged
+      const payloads: TokenTransferPayload[] = [];
+
       if (transferMode === 'conservative') {
         // =================================================================
         // CONSERVATIVE MODE: each token sent individually with full proofs
@@ -1078,11 +1281,14 @@ export class PaymentsModule {
           logger.debug('Payments', `Conservative split: change token saved: ${changeUiToken.id}`);
 
           // Send fully finalized { sourceToken, transferTx } via Nostr
-          await this.deps!.transport.sendTokenTransfer(recipientPubkey, {
+          const splitPayload = {
             sourceToken: JSON.stringify(splitResult.tokenForRecipient.toJSON()),
             transferTx: JSON.stringify(splitResult.recipientTransferTx.toJSON()),
             memo: request.memo,
-          } as unknown as import('../../transport').TokenTransferPayload);
+            transferId: result.id,
+          } as unknown as TokenTransferPayload;
+          await this.deps!.transport.sendTokenTransfer(recipientPubkey, splitPayload);
+          payloads.push(splitPayload);
 
           const splitCommitmentRequestId = splitResult.recipientTransferTx?.data?.requestId
             ?? splitResult.recipientTransferTx?.requestId;
@@ -1114,11 +1320,14 @@ export class PaymentsModule {
           const inclusionProof = await waitInclusionProof(trustBase, stClient, commitment);
           const transferTx = commitment.toTransaction(inclusionProof);
 
-          await this.deps!.transport.sendTokenTransfer(recipientPubkey, {
+          const directPayload = {
             sourceToken: JSON.stringify(tokenWithAmount.sdkToken.toJSON()),
             transferTx: JSON.stringify(transferTx.toJSON()),
             memo: request.memo,
-          } as unknown as import('../../transport').TokenTransferPayload);
+            transferId: result.id,
+          } as unknown as TokenTransferPayload;
+          await this.deps!.transport.sendTokenTransfer(recipientPubkey, directPayload);
+          payloads.push(directPayload);
           logger.debug('Payments', 'CONSERVATIVE: Direct token sent successfully');
 
           const requestIdBytes = commitment.requestId;
@@ -1139,205 +1348,30 @@ export class PaymentsModule {
         // INSTANT MODE: collect all tokens into ONE CombinedTransferBundleV6
         // =================================================================
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const devMode = (this.deps!.oracle as any).isDevMode?.() ?? false;
-        const senderPubkey = this.deps!.identity.chainPubkey;
-
-        // Placeholder ID for the change token — set after sending, read by background callback
-        let changeTokenPlaceholderId: string | null = null;
-
-        // 1. Build split bundle (if needed) — does NOT send
-        let builtSplit: import('../../types/instant-split').BuildSplitBundleResult | null = null;
-        if (splitPlan.requiresSplit && splitPlan.tokenToSplit) {
-          logger.debug('Payments', 'Building instant split bundle...');
-          const executor = new InstantSplitExecutor({
-            stateTransitionClient: stClient,
-            trustBase,
-            signingService,
-            devMode,
-          });
-
-          builtSplit = await executor.buildSplitBundle(
-            splitPlan.tokenToSplit.sdkToken,
-            splitPlan.splitAmount!,
-            splitPlan.remainderAmount!,
-            splitPlan.coinId,
-            recipientAddress,
-            {
-              memo: request.memo,
-              onChangeTokenCreated: async (changeToken) => {
-                const changeTokenData = changeToken.toJSON();
-                // Remove placeholder — it was a temporary UI stand-in
-                if (changeTokenPlaceholderId && this.tokens.has(changeTokenPlaceholderId)) {
-                  this.tokens.delete(changeTokenPlaceholderId);
-                }
-                const uiToken: Token = {
-                  id: crypto.randomUUID(),
-                  coinId: request.coinId,
-                  symbol: this.getCoinSymbol(request.coinId),
-                  name: this.getCoinName(request.coinId),
-                  decimals: this.getCoinDecimals(request.coinId),
-                  iconUrl: this.getCoinIconUrl(request.coinId),
-                  amount: splitPlan.remainderAmount!.toString(),
-                  status: 'confirmed',
-                  createdAt: Date.now(),
-                  updatedAt: Date.now(),
-                  sdkData: JSON.stringify(changeTokenData),
-                };
-                await this.addToken(uiToken);
-                logger.debug('Payments', `Change token saved via background: ${uiToken.id}`);
-              },
-              onStorageSync: async () => {
-                await this.save();
-                return true;
-              },
+        payloads.push(await this.deliverCombinedTransfer(
+          request, splitPlan, result, recipientPubkey, recipientAddress, signingService, stClient, trustBase,
+          (commitments) => {
+            for (const commitment of commitments) {
+              stClient.submitTransferCommitment(commitment).catch(err =>
+                logger.error('Payments', 'Background commitment submit failed:', err)
+              );
             }
-          );
-          logger.debug('Payments', `Split bundle built: splitGroupId=${builtSplit.splitGroupId}`);
-        }
-
-        // 2. Prepare direct token entries in parallel — does NOT send
-        const directCommitments = await Promise.all(
-          splitPlan.tokensToTransferDirectly.map(tw =>
-            this.createSdkCommitment(tw.uiToken, recipientAddress, signingService)
-          )
-        );
-
-        const directTokenEntries: DirectTokenEntry[] = splitPlan.tokensToTransferDirectly.map(
-          (tw, i) => ({
-            sourceToken: JSON.stringify(tw.sdkToken.toJSON()),
-            commitmentData: JSON.stringify(directCommitments[i].toJSON()),
-            amount: tw.uiToken.amount,
-            coinId: tw.uiToken.coinId,
-            tokenId: extractTokenIdFromSdkData(tw.uiToken.sdkData) || undefined,
-          })
-        );
-
-        // 3. Assemble CombinedTransferBundleV6
-        const combinedBundle: CombinedTransferBundleV6 = {
-          version: '6.0',
-          type: 'COMBINED_TRANSFER',
-          transferId: result.id,
-          splitBundle: builtSplit?.bundle ?? null,
-          directTokens: directTokenEntries,
-          totalAmount: request.amount.toString(),
-          coinId: request.coinId,
-          senderPubkey,
-          memo: request.memo,
-        };
-
-        // 4. Send ONE Nostr message
-        logger.debug(
-          'Payments',
-          `Sending V6 combined bundle: transfer=${result.id.slice(0, 8)}... ` +
-          `split=${!!builtSplit} direct=${directTokenEntries.length}`
-        );
-        await this.deps!.transport.sendTokenTransfer(recipientPubkey, {
-          token: JSON.stringify(combinedBundle),
-          proof: null,
-          memo: request.memo,
-          sender: { transportPubkey: senderPubkey },
-        });
-        logger.debug('Payments', 'V6 combined bundle sent successfully');
-
-        // 5. Start background: split mint proofs + change token creation
-        if (builtSplit) {
-          const bgPromise = builtSplit.startBackground();
-          this.pendingBackgroundTasks.push(bgPromise);
-        }
-
-        // 5a. Create placeholder change token so sender sees correct remainder immediately.
-        // The real change token replaces this when background mint proof arrives (~2s).
-        if (builtSplit && splitPlan.remainderAmount) {
-          changeTokenPlaceholderId = crypto.randomUUID();
-          const placeholder: Token = {
-            id: changeTokenPlaceholderId,
-            coinId: request.coinId,
-            symbol: this.getCoinSymbol(request.coinId),
-            name: this.getCoinName(request.coinId),
-            decimals: this.getCoinDecimals(request.coinId),
-            iconUrl: this.getCoinIconUrl(request.coinId),
-            amount: splitPlan.remainderAmount.toString(),
-            status: 'transferring',
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-            sdkData: JSON.stringify({ _placeholder: true }),
-          };
-          this.tokens.set(placeholder.id, placeholder);
-          logger.debug('Payments', `Placeholder change token created: ${placeholder.id} (${placeholder.amount})`);
-        }
-
-        // 6. Submit direct token commitments to aggregator in background
-        for (const commitment of directCommitments) {
-          stClient.submitTransferCommitment(commitment).catch(err =>
-            logger.error('Payments', 'Background commitment submit failed:', err)
-          );
-        }
-
-        // 7. Track and remove tokens (removeToken archives + tombstones + saves)
-        if (splitPlan.requiresSplit && splitPlan.tokenToSplit) {
-          await this.removeToken(splitPlan.tokenToSplit.uiToken.id);
-          result.tokenTransfers.push({
-            sourceTokenId: splitPlan.tokenToSplit.uiToken.id,
-            method: 'split',
-            splitGroupId: builtSplit!.splitGroupId,
-          });
-        }
-
-        for (let i = 0; i < splitPlan.tokensToTransferDirectly.length; i++) {
-          const token = splitPlan.tokensToTransferDirectly[i].uiToken;
-          const commitment = directCommitments[i];
-
-          const requestIdBytes = commitment.requestId;
-          const requestIdHex = requestIdBytes instanceof Uint8Array
-            ? Array.from(requestIdBytes).map(b => b.toString(16).padStart(2, '0')).join('')
-            : String(requestIdBytes);
-
-          result.tokenTransfers.push({
-            sourceTokenId: token.id,
-            method: 'direct',
-            requestIdHex,
-          });
-          await this.removeToken(token.id);
-        }
-
-        logger.debug('Payments', 'V6 combined transfer completed');
+          },
+        ));
       }
 
       result.status = 'delivered';
 
-      // Save state and remove outbox entry
+      // Save state; the outbox entry stays until the recipient's receipt arrives
       await this.save();
-      await this.removeFromOutbox(result.id);
+      await this.awaitReceipt(result, payloads, peerInfo?.chainPubkey);
 
       result.status = 'completed';
 
-      // Build token breakdown using a Map for O(1) lookup
-      const tokenMap = new Map(result.tokens.map(t => [t.id, t]));
-      const sentTokenIds: Array<{ id: string; amount: string; source: 'split' | 'direct' }> = result.tokenTransfers.map(tt => ({
-        id: tt.sourceTokenId,
-        // For split tokens, use splitAmount (the portion sent), not the original token amount
-        amount: tt.method === 'split'
-          ? (splitPlan.splitAmount?.toString() || '0')
-          : (tokenMap.get(tt.sourceTokenId)?.amount || '0'),
-        source: tt.method === 'split' ? 'split' : 'direct',
-      }));
-      const sentTokenId = result.tokens[0] ? extractTokenIdFromSdkData(result.tokens[0].sdkData) : undefined;
-
-      await this.addToHistory({
-        type: 'SENT',
-        amount: request.amount,
-        coinId: request.coinId,
-        symbol: this.getCoinSymbol(request.coinId),
-        timestamp: Date.now(),
-        recipientPubkey,
-        recipientNametag,
-        recipientAddress: peerInfo?.directAddress || recipientAddress?.toString() || recipientPubkey,
-        memo: request.memo,
-        transferId: result.id,
-        tokenId: sentTokenId || undefined,
-        tokenIds: sentTokenIds.length > 0 ? sentTokenIds : undefined,
-      });
+      await this.addSentToHistory(
+        request, splitPlan, result, recipientPubkey, recipientNametag,
+        peerInfo?.directAddress || recipientAddress?.toString() || recipientPubkey,
+      );
 
       this.deps!.emitEvent('transfer:confirmed', result);
       return result;
@@ -1359,114 +1393,540 @@ export class PaymentsModule {
   }
 
   /**
-   * Get coin symbol from coinId
+   * Send to multiple recipients in one batch.
+   *
+   * Plans a single split strategy across all outputs (no token is used by two
+   * recipients), delivers one V6 combined bundle per recipient in parallel and
+   * submits all direct commitments to the aggregator together via
+   * {@link BackgroundCommitmentService}.
+   *
+   * Partial failure: a recipient that cannot be resolved or delivered gets a
+   * `failed` result (and `transfer:failed`) with its tokens restored, while the
+   * others complete. Completed sends share a `batchId` in history.
+   *
+   * @param requests - One transfer request per recipient (instant mode only)
+   * @returns One TransferResult per request, in request order
    */
-  private getCoinSymbol(coinId: string): string {
-    return TokenRegistry.getInstance().getSymbol(coinId);
-  }
+  async sendBatch(requests: TransferRequest[]): Promise<TransferResult[]> {
+    this.ensureInitialized();
+    this.ensureCanSign();
 
-  /**
-   * Get coin name from coinId
-   */
-  private getCoinName(coinId: string): string {
-    return TokenRegistry.getInstance().getName(coinId);
-  }
+    if (requests.length === 0) {
+      throw new SphereError('Batch must contain at least one transfer', 'VALIDATION_ERROR');
+    }
+    if (requests.some((r) => r.transferMode === 'conservative')) {
+      throw new SphereError('Batch sends do not support conservative transfer mode', 'VALIDATION_ERROR');
+    }
 
-  /**
-   * Get coin decimals from coinId
-   */
-  private getCoinDecimals(coinId: string): number {
-    return TokenRegistry.getInstance().getDecimals(coinId);
-  }
+    // Track like send() so switchToAddress() waits for the batch
+    let resolveSendTracker!: () => void;
+    const sendTracker = new Promise<void>(r => { resolveSendTracker = r; });
+    this.pendingBackgroundTasks.push(sendTracker);
 
-  /**
-   * Get coin icon URL from coinId
-   */
-  private getCoinIconUrl(coinId: string): string | undefined {
-    return TokenRegistry.getInstance().getIconUrl(coinId) ?? undefined;
-  }
+    const batchId = crypto.randomUUID();
+    const results: Array<{ -readonly [K in keyof TransferResult]: TransferResult[K] }> = requests.map(() => ({
+      id: crypto.randomUUID(),
+      status: 'pending',
+      tokens: [],
+      tokenTransfers: [],
+    }));
 
-  // ===========================================================================
-  // Public API - Instant Split (V5 Optimized)
-  // ===========================================================================
+    const fail = (index: number, error: unknown): void => {
+      const result = results[index];
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
 
-  /**
-   * Send tokens using INSTANT_SPLIT V5 optimized flow.
-   *
-   * This achieves ~2.3s critical path latency instead of ~42s by:
-   * 1. Waiting only for burn proof (required)
-   * 2. Creating transfer commitment from mint data (no mint proof needed)
-   * 3. Sending bundle via Nostr immediately
-   * 4. Processing mints in background
-   *
-   * @param request - Transfer request with recipient, amount, and coinId
-   * @param options - Optional instant split configuration
-   * @returns InstantSplitResult with timing info
-   */
-  async sendInstant(
-    request: TransferRequest,
-    options?: InstantSplitOptions
-  ): Promise<InstantSplitResult> {
-    this.ensureInitialized();
+      // Restore tokens
+      for (const token of result.tokens) {
+        token.status = 'confirmed';
+        this.tokens.set(token.id, token);
+      }
 
-    const startTime = performance.now();
+      this.deps!.emitEvent('transfer:failed', result);
+    };
 
     try {
-      // Resolve recipient once — single network query
-      const peerInfo = await this.deps!.transport.resolve?.(request.recipient) ?? null;
-      const recipientPubkey = this.resolveTransportPubkey(request.recipient, peerInfo);
-      const recipientAddress = await this.resolveRecipientAddress(request.recipient, request.addressMode, peerInfo);
-
-      // Create signing service
       const signingService = await this.createSigningService();
 
-      // Get state transition client and trust base
       const stClient = this.deps!.oracle.getStateTransitionClient?.() as StateTransitionClient | undefined;
       if (!stClient) {
-        throw new SphereError('State transition client not available', 'AGGREGATOR_ERROR');
+        throw new SphereError('State transition client not available. Oracle provider must implement getStateTransitionClient()', 'AGGREGATOR_ERROR');
       }
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const trustBase = (this.deps!.oracle as any).getTrustBase?.();
       if (!trustBase) {
-        throw new SphereError('Trust base not available', 'AGGREGATOR_ERROR');
+        throw new SphereError('Trust base not available. Oracle provider must implement getTrustBase()', 'AGGREGATOR_ERROR');
       }
 
-      // Calculate optimal split plan
+      // Resolve all recipients in parallel — a failure only fails that recipient
+      const resolved = await Promise.all(requests.map(async (request, index) => {
+        try {
+          const peerInfo = await this.deps!.transport.resolve?.(request.recipient) ?? null;
+          return {
+            peerInfo,
+            recipientPubkey: this.resolveTransportPubkey(request.recipient, peerInfo),
+            recipientAddress: await this.resolveRecipientAddress(request.recipient, request.addressMode, peerInfo),
+          };
+        } catch (error) {
+          fail(index, error);
+          return null;
+        }
+      }));
+
+      const active = requests.map((_, index) => index).filter((index) => resolved[index] !== null);
+      if (active.length === 0) {
+        return results;
+      }
+
+      // One split strategy across all outputs
       const calculator = new TokenSplitCalculator();
-      const availableTokens = Array.from(this.tokens.values());
-      const splitPlan = await calculator.calculateOptimalSplit(
-        availableTokens,
-        BigInt(request.amount),
-        request.coinId
+      const batchPlan = await calculator.calculateBatchSplit(
+        Array.from(this.tokens.values()),
+        active.map((index) => ({ amount: BigInt(requests[index].amount), coinId: requests[index].coinId })),
       );
-
-      if (!splitPlan) {
+      if (!batchPlan) {
         throw new SphereError('Insufficient balance', 'INSUFFICIENT_BALANCE');
       }
+      const plans = new Map(active.map((index, i) => [index, batchPlan.plans[i]]));
 
-      if (!splitPlan.requiresSplit || !splitPlan.tokenToSplit) {
-        // For direct transfers without split, fall back to standard flow
-        logger.debug('Payments', 'No split required, falling back to standard send()');
-        const result = await this.send(request);
-        return {
-          success: result.status === 'completed',
-          criticalPathDurationMs: performance.now() - startTime,
-          error: result.error,
-        };
+      // Mark as transferring and persist
+      for (const [index, plan] of plans) {
+        const tokens = plan.tokensToTransferDirectly.map(t => t.uiToken);
+        if (plan.tokenToSplit) {
+          tokens.push(plan.tokenToSplit.uiToken);
+        }
+        results[index].tokens = tokens;
+        for (const token of tokens) {
+          token.status = 'transferring';
+          this.tokens.set(token.id, token);
+        }
       }
+      await this.save();
 
-      logger.debug('Payments', `InstantSplit: amount=${splitPlan.splitAmount}, remainder=${splitPlan.remainderAmount}`);
+      // Outbox is read-modify-write: update it sequentially
+      for (const index of plans.keys()) {
+        await this.saveToOutbox(results[index], resolved[index]!.recipientPubkey);
+        results[index].status = 'submitted';
+      }
 
-      // Mark token as transferring
-      const tokenToSplit = splitPlan.tokenToSplit.uiToken;
-      tokenToSplit.status = 'transferring';
-      this.tokens.set(tokenToSplit.id, tokenToSplit);
+      // Deliver all bundles in parallel, collecting direct commitments
+      const commitments: TransferCommitment[] = [];
+      const payloads = new Map<number, TokenTransferPayload>();
+      await Promise.all(Array.from(plans, async ([index, plan]) => {
+        const { recipientPubkey, recipientAddress } = resolved[index]!;
+        try {
+          payloads.set(index, await this.deliverCombinedTransfer(
+            requests[index], plan, results[index], recipientPubkey, recipientAddress, signingService, stClient, trustBase,
+            (direct) => { commitments.push(...direct); },
+          ));
+          results[index].status = 'delivered';
+        } catch (error) {
+          fail(index, error);
+        }
+      }));
 
-      // Check if dev mode
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const devMode = options?.devMode ?? (this.deps!.oracle as any).isDevMode?.() ?? false;
+      // Submit all direct commitments to the aggregator in parallel
+      if (commitments.length > 0) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const devMode = (this.deps!.oracle as any).isDevMode?.() ?? false;
+        const commitmentService = new BackgroundCommitmentService({ stateTransitionClient: stClient, trustBase, devMode });
+        commitmentService.submitBatch(commitments, batchId, {
+          onGroupFailed: (_status, error) => logger.error('Payments', `Batch ${batchId.slice(0, 8)}... commitments: ${error}`),
+        });
+      }
 
-      // Create instant split executor
+      await this.save();
+
+      for (const index of plans.keys()) {
+        if (results[index].status !== 'delivered') {
+          await this.removeFromOutbox(results[index].id);
+          continue;
+        }
+        await this.awaitReceipt(results[index], [payloads.get(index)!], resolved[index]!.peerInfo?.chainPubkey);
+
+        const request = requests[index];
+        const { peerInfo, recipientPubkey, recipientAddress } = resolved[index]!;
+        results[index].status = 'completed';
+
+        const recipientNametag = peerInfo?.nametag
+          || (request.recipient.startsWith('@') ? request.recipient.slice(1) : undefined);
+        await this.addSentToHistory(
+          request, plans.get(index)!, results[index], recipientPubkey, recipientNametag,
+          peerInfo?.directAddress || recipientAddress?.toString() || recipientPubkey,
+          batchId,
+        );
+
+        this.deps!.emitEvent('transfer:confirmed', results[index]);
+      }
+
+      return results;
+    } catch (error) {
+      // Fail whatever was not delivered yet; delivered transfers stand
+      for (let index = 0; index < results.length; index++) {
+        if (results[index].status === 'pending' || results[index].status === 'submitted') {
+          fail(index, error);
+        }
+      }
+      throw error;
+    } finally {
+      resolveSendTracker();
+    }
+  }
+
+  /**
+   * Build and deliver one CombinedTransferBundleV6 (instant mode) for a
+   * planned transfer. Direct token commitments are handed to
+   * `submitCommitments` for aggregator submission; consumed tokens are
+   * removed and recorded in `result.tokenTransfers`.
+   *
+   * @returns The payload as sent, for redelivery
+   */
+  private async deliverCombinedTransfer(
+    request: TransferRequest,
+    splitPlan: SplitPlan,
+    result: TransferResult,
+    recipientPubkey: string,
+    recipientAddress: IAddress,
+    signingService: SigningService,
+    stClient: StateTransitionClient,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    trustBase: any,
+    submitCommitments: (commitments: TransferCommitment[]) => void,
+  ): Promise<TokenTransferPayload> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const devMode = (this.deps!.oracle as any).isDevMode?.() ?? false;
+    const senderPubkey = this.deps!.identity.chainPubkey;
+
+    // Placeholder ID for the change token — set after sending, read by background callback
+    let changeTokenPlaceholderId: string | null = null;
+
+    // 1. Build split bundle (if needed) — does NOT send
+    let builtSplit: import('../../types/instant-split').BuildSplitBundleResult | null = null;
+    if (splitPlan.requiresSplit && splitPlan.tokenToSplit) {
+      logger.debug('Payments', 'Building instant split bundle...');
+      const executor = new InstantSplitExecutor({
+        stateTransitionClient: stClient,
+        trustBase,
+        signingService,
+        devMode,
+      });
+
+      builtSplit = await executor.buildSplitBundle(
+        splitPlan.tokenToSplit.sdkToken,
+        splitPlan.splitAmount!,
+        splitPlan.remainderAmount!,
+        splitPlan.coinId,
+        recipientAddress,
+        {
+          memo: request.memo,
+          onChangeTokenCreated: async (changeToken) => {
+            const changeTokenData = changeToken.toJSON();
+            // Remove placeholder — it was a temporary UI stand-in
+            if (changeTokenPlaceholderId && this.tokens.has(changeTokenPlaceholderId)) {
+              this.tokens.delete(changeTokenPlaceholderId);
+            }
+            const uiToken: Token = {
+              id: crypto.randomUUID(),
+              coinId: request.coinId,
+              symbol: this.getCoinSymbol(request.coinId),
+              name: this.getCoinName(request.coinId),
+              decimals: this.getCoinDecimals(request.coinId),
+              iconUrl: this.getCoinIconUrl(request.coinId),
+              amount: splitPlan.remainderAmount!.toString(),
+              status: 'confirmed',
+              createdAt: Date.now(),
+              updatedAt: Date.now(),
+              sdkData: JSON.stringify(changeTokenData),
+            };
+            await this.addToken(uiToken);
+            logger.debug('Payments', `Change token saved via background: ${uiToken.id}`);
+          },
+          onStorageSync: async () => {
+            await this.save();
+            return true;
+          },
+        }
+      );
+      logger.debug('Payments', `Split bundle built: splitGroupId=${builtSplit.splitGroupId}`);
+    }
+
+    // 2. Prepare direct token entries in parallel — does NOT send
+    const directCommitments = await Promise.all(
+      splitPlan.tokensToTransferDirectly.map(tw =>
+        this.createSdkCommitment(tw.uiToken, recipientAddress, signingService)
+      )
+    );
+
+    const directTokenEntries: DirectTokenEntry[] = splitPlan.tokensToTransferDirectly.map(
+      (tw, i) => ({
+        sourceToken: JSON.stringify(tw.sdkToken.toJSON()),
+        commitmentData: JSON.stringify(directCommitments[i].toJSON()),
+        amount: tw.uiToken.amount,
+        coinId: tw.uiToken.coinId,
+        tokenId: extractTokenIdFromSdkData(tw.uiToken.sdkData) || undefined,
+      })
+    );
+
+    // 3. Assemble CombinedTransferBundleV6
+    const combinedBundle: CombinedTransferBundleV6 = {
+      version: '6.0',
+      type: 'COMBINED_TRANSFER',
+      transferId: result.id,
+      splitBundle: builtSplit?.bundle ?? null,
+      directTokens: directTokenEntries,
+      totalAmount: request.amount.toString(),
+      coinId: request.coinId,
+      senderPubkey,
+      memo: request.memo,
+    };
+
+    // 4. Send ONE Nostr message
+    logger.debug(
+      'Payments',
+      `Sending V6 combined bundle: transfer=${result.id.slice(0, 8)}... ` +
+      `split=${!!builtSplit} direct=${directTokenEntries.length}`
+    );
+    const payload: TokenTransferPayload = {
+      token: JSON.stringify(combinedBundle),
+      proof: null,
+      memo: request.memo,
+      sender: { transportPubkey: senderPubkey },
+    };
+    await this.deps!.transport.sendTokenTransfer(recipientPubkey, payload);
+    logger.debug('Payments', 'V6 combined bundle sent successfully');
+
+    // 5. Start background: split mint proofs + change token creation
+    if (builtSplit) {
+      const bgPromise = builtSplit.startBackground();
+      this.pendingBackgroundTasks.push(bgPromise);
+    }
+
+    // 5a. Create placeholder change token so sender sees correct remainder immediately.
+    // The real change token replaces this when background mint proof arrives (~2s).
+    if (builtSplit && splitPlan.remainderAmount) {
+      changeTokenPlaceholderId = crypto.randomUUID();
+      const placeholder: Token = {
+        id: changeTokenPlaceholderId,
+        coinId: request.coinId,
+        symbol: this.getCoinSymbol(request.coinId),
+        name: this.getCoinName(request.coinId),
+        decimals: this.getCoinDecimals(request.coinId),
+        iconUrl: this.getCoinIconUrl(request.coinId),
+        amount: splitPlan.remainderAmount.toString(),
+        status: 'transferring',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        sdkData: JSON.stringify({ _placeholder: true }),
+      };
+      this.tokens.set(placeholder.id, placeholder);
+      logger.debug('Payments', `Placeholder change token created: ${placeholder.id} (${placeholder.amount})`);
+    }
+
+    // 6. Submit direct token commitments to aggregator in background
+    submitCommitments(directCommitments);
+
+    // 7. Track and remove tokens (removeToken archives + tombstones + saves)
+    if (splitPlan.requiresSplit && splitPlan.tokenToSplit) {
+      await this.removeToken(splitPlan.tokenToSplit.uiToken.id);
+      result.tokenTransfers.push({
+        sourceTokenId: splitPlan.tokenToSplit.uiToken.id,
+        method: 'split',
+        splitGroupId: builtSplit!.splitGroupId,
+      });
+    }
+
+    for (let i = 0; i < splitPlan.tokensToTransferDirectly.length; i++) {
+      const token = splitPlan.tokensToTransferDirectly[i].uiToken;
+      const commitment = directCommitments[i];
+
+      const requestIdBytes = commitment.requestId;
+      const requestIdHex = requestIdBytes instanceof Uint8Array
+        ? Array.from(requestIdBytes).map(b => b.toString(16).padStart(2, '0')).join('')
+        : String(requestIdBytes);
+
+      result.tokenTransfers.push({
+        sourceTokenId: token.id,
+        method: 'direct',
+        requestIdHex,
+      });
+      await this.removeToken(token.id);
+    }
+
+    logger.debug('Payments', 'V6 combined transfer completed');
+    return payload;
+  }
+
+  /**
+   * Record a completed outgoing transfer in history
+   */
+  private async addSentToHistory(
+    request: TransferRequest,
+    splitPlan: SplitPlan,
+    result: TransferResult,
+    recipientPubkey: string,
+    recipientNametag: string | undefined,
+    recipientAddress: string,
+    batchId?: string,
+  ): Promise<void> {
+    // Build token breakdown using a Map for O(1) lookup
+    const tokenMap = new Map(result.tokens.map(t => [t.id, t]));
+    const sentTokenIds: Array<{ id: string; amount: string; source: 'split' | 'direct' }> = result.tokenTransfers.map(tt => ({
+      id: tt.sourceTokenId,
+      // For split tokens, use splitAmount (the portion sent), not the original token amount
+      amount: tt.method === 'split'
+        ? (splitPlan.splitAmount?.toString() || '0')
+        : (tokenMap.get(tt.sourceTokenId)?.amount || '0'),
+      source: tt.method === 'split' ? 'split' : 'direct',
+    }));
+    const sentTokenId = result.tokens[0] ? extractTokenIdFromSdkData(result.tokens[0].sdkData) : undefined;
+
+    await this.addToHistory({
+      type: 'SENT',
+      amount: request.amount,
+      coinId: request.coinId,
+      symbol: this.getCoinSymbol(request.coinId),
+      timestamp: Date.now(),
+      recipientPubkey,
+      recipientNametag,
+      recipientAddress,
+      memo: request.memo,
+      transferId: result.id,
+      tokenId: sentTokenId || undefined,
+      tokenIds: sentTokenIds.length > 0 ? sentTokenIds : undefined,
+      batchId,
+    });
+  }
+
+  /**
+   * Get coin symbol from coinId
+   */
+  private getCoinSymbol(coinId: string): string {
+    return TokenRegistry.getInstance().getSymbol(coinId);
+  }
+
+  /**
+   * Get coin name from coinId
+   */
+  private getCoinName(coinId: string): string {
+    return TokenRegistry.getInstance().getName(coinId);
+  }
+
+  /**
+   * Get coin decimals from coinId
+   */
+  private getCoinDecimals(coinId: string): number {
+    return TokenRegistry.getInstance().getDecimals(coinId);
+  }
+
+  /**
+   * Get coin icon URL from coinId
+   */
+  private getCoinIconUrl(coinId: string): string | undefined {
+    return TokenRegistry.getInstance().getIconUrl(coinId) ?? undefined;
+  }
+
+  /**
+   * Wrap an SDK token we own as a confirmed UI token
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private createConfirmedToken(coinId: string, amount: bigint, sdkToken: SdkToken<any>): Token {
+    return {
+      id: crypto.randomUUID(),
+      coinId,
+      symbol: this.getCoinSymbol(coinId),
+      name: this.getCoinName(coinId),
+      decimals: this.getCoinDecimals(coinId),
+      iconUrl: this.getCoinIconUrl(coinId),
+      amount: amount.toString(),
+      status: 'confirmed',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      sdkData: JSON.stringify(sdkToken.toJSON()),
+    };
+  }
+
+  // ===========================================================================
+  // Public API - Instant Split (V5 Optimized)
+  // ===========================================================================
+
+  /**
+   * Send tokens using INSTANT_SPLIT V5 optimized flow.
+   *
+   * This achieves ~2.3s critical path latency instead of ~42s by:
+   * 1. Waiting only for burn proof (required)
+   * 2. Creating transfer commitment from mint data (no mint proof needed)
+   * 3. Sending bundle via Nostr immediately
+   * 4. Processing mints in background
+   *
+   * @param request - Transfer request with recipient, amount, and coinId
+   * @param options - Optional instant split configuration
+   * @returns InstantSplitResult with timing info
+   */
+  async sendInstant(
+    request: TransferRequest,
+    options?: InstantSplitOptions
+  ): Promise<InstantSplitResult> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+
+    const startTime = performance.now();
+
+    try {
+      // Resolve recipient once — single network query
+      const peerInfo = await this.deps!.transport.resolve?.(request.recipient) ?? null;
+      const recipientPubkey = this.resolveTransportPubkey(request.recipient, peerInfo);
+      const recipientAddress = await this.resolveRecipientAddress(request.recipient, request.addressMode, peerInfo);
+
+      // Create signing service
+      const signingService = await this.createSigningService();
+
+      // Get state transition client and trust base
+      const stClient = this.deps!.oracle.getStateTransitionClient?.() as StateTransitionClient | undefined;
+      if (!stClient) {
+        throw new SphereError('State transition client not available', 'AGGREGATOR_ERROR');
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const trustBase = (this.deps!.oracle as any).getTrustBase?.();
+      if (!trustBase) {
+        throw new SphereError('Trust base not available', 'AGGREGATOR_ERROR');
+      }
+
+      // Calculate optimal split plan
+      const calculator = new TokenSplitCalculator();
+      const availableTokens = Array.from(this.tokens.values());
+      const splitPlan = await calculator.calculateOptimalSplit(
+        availableTokens,
+        BigInt(request.amount),
+        request.coinId
+      );
+
+      if (!splitPlan) {
+        throw new SphereError('Insufficient balance', 'INSUFFICIENT_BALANCE');
+      }
+
+      if (!splitPlan.requiresSplit || !splitPlan.tokenToSplit) {
+        // For direct transfers without split, fall back to standard flow
+        logger.debug('Payments', 'No split required, falling back to standard send()');
+        const result = await this.send(request);
+        return {
+          success: result.status === 'completed',
+          criticalPathDurationMs: performance.now() - startTime,
+          error: result.error,
+        };
+      }
+
+      logger.debug('Payments', `InstantSplit: amount=${splitPlan.splitAmount}, remainder=${splitPlan.remainderAmount}`);
+
+      // Mark token as transferring
+      const tokenToSplit = splitPlan.tokenToSplit.uiToken;
+      tokenToSplit.status = 'transferring';
+      this.tokens.set(tokenToSplit.id, tokenToSplit);
+
+      // Check if dev mode
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const devMode = options?.devMode ?? (this.deps!.oracle as any).isDevMode?.() ?? false;
+
+      // Create instant split executor
       const executor = new InstantSplitExecutor({
         stateTransitionClient: stClient,
         trustBase,
@@ -1835,7 +2295,7 @@ export class PaymentsModule {
 
     // 5. Emit event + history
 
-    this.deps!.emitEvent('transfer:incoming', {
+    this.emitIncomingTransfer({
       id: bundle.transferId,
       senderPubkey,
       senderNametag: senderInfo.senderNametag,
@@ -1951,7 +2411,7 @@ export class PaymentsModule {
       });
 
       // Emit incoming transfer event
-      this.deps!.emitEvent('transfer:incoming', {
+      this.emitIncomingTransfer({
         id: bundle.splitGroupId,
         senderPubkey,
         senderNametag: senderInfo.senderNametag,
@@ -2035,71 +2495,1165 @@ export class PaymentsModule {
         }
       );
 
-      if (result.success && result.token) {
-        const tokenData = result.token.toJSON();
-        const info = await parseTokenInfo(tokenData);
+      if (result.success && result.token) {
+        const tokenData = result.token.toJSON();
+        const info = await parseTokenInfo(tokenData);
+
+        const uiToken: Token = {
+          id: crypto.randomUUID(),
+          coinId: info.coinId,
+          symbol: info.symbol,
+          name: info.name,
+          decimals: info.decimals,
+          iconUrl: info.iconUrl,
+          amount: bundle.amount,
+          status: 'confirmed',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          sdkData: JSON.stringify(tokenData),
+        };
+
+        await this.addToken(uiToken);
+
+        const receivedTokenId = extractTokenIdFromSdkData(uiToken.sdkData);
+        const senderInfo = await this.resolveSenderInfo(senderPubkey);
+        await this.addToHistory({
+          type: 'RECEIVED',
+          amount: bundle.amount,
+          coinId: info.coinId,
+          symbol: info.symbol,
+          timestamp: Date.now(),
+          senderPubkey,
+          ...senderInfo,
+          memo,
+          tokenId: receivedTokenId || uiToken.id,
+        });
+
+        await this.save();
+
+        this.emitIncomingTransfer({
+          id: bundle.splitGroupId,
+          senderPubkey,
+          senderNametag: senderInfo.senderNametag,
+          tokens: [uiToken],
+          memo,
+          receivedAt: Date.now(),
+        });
+      }
+
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: errorMessage,
+        durationMs: 0,
+      };
+    }
+  }
+
+  /**
+   * Type-guard: check whether a payload is a valid {@link InstantSplitBundle} (V4 or V5).
+   *
+   * @param payload - The object to test.
+   * @returns `true` if the payload matches the InstantSplitBundle shape.
+   */
+  private isInstantSplitBundle(payload: unknown): payload is InstantSplitBundle {
+    return isInstantSplitBundle(payload);
+  }
+
+  // ===========================================================================
+  // Public API - Escrow
+  // ===========================================================================
+
+  /**
+   * Offer tokens to a recipient behind a SHA-256 hashlock and a deadline.
+   *
+   * Tokens covering `amount` (an exact-amount token is split off if needed)
+   * stay in this wallet, marked `escrowed`, and an `ESCROW_OFFER` carrying the
+   * terms and the locked tokens goes to the recipient. Nothing is signed over
+   * yet: the recipient claims by revealing the preimage ({@link claimEscrow}),
+   * and only then does this wallet transfer the tokens, with the hashlock as
+   * the recipient data hash so they can only be finalized with the preimage.
+   *
+   * This is a conditional transfer run by this wallet, not a trustless
+   * escrow: nothing is locked on the aggregator and the tokens stay ours
+   * until released. The hashlock and the deadline are checked only here: a
+   * claim that arrives after `expiresAt` is refused, and an unclaimed escrow
+   * can be taken back with {@link refundEscrow} once it has expired. The
+   * recipient relies on this wallet to release.
+   *
+   * @param request - Amount, recipient, optional hashlock and timeout
+   * @returns The escrow; `preimage` is set when it was generated here
+   */
+  async createEscrow(request: EscrowRequest): Promise<Escrow> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+
+    if (!/^\d+$/.test(request.amount) || BigInt(request.amount) <= 0n) {
+      throw new SphereError('Escrow amount must be a positive integer', 'VALIDATION_ERROR');
+    }
+    if (request.hashlock !== undefined && !/^[0-9a-fA-F]{64}$/.test(request.hashlock)) {
+      throw new SphereError('Escrow hashlock must be a 32-byte hex SHA-256 hash', 'VALIDATION_ERROR');
+    }
+    const timeoutMs = request.timeoutMs ?? DEFAULT_ESCROW_TIMEOUT_MS;
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new SphereError('Escrow timeout must be a positive number of milliseconds', 'VALIDATION_ERROR');
+    }
+
+    // Tracked like send() so switchToAddress() waits for it
+    let resolveTracker!: () => void;
+    this.pendingBackgroundTasks.push(new Promise<void>(r => { resolveTracker = r; }));
+
+    const lockedTokens: Token[] = [];
+    let escrow: Escrow | null = null;
+
+    try {
+      const peerInfo = await this.deps!.transport.resolve?.(request.recipient) ?? null;
+      const recipientPubkey = this.resolveTransportPubkey(request.recipient, peerInfo);
+      const recipientAddress = await this.resolveRecipientAddress(request.recipient, request.addressMode, peerInfo);
+      const recipientNametag = peerInfo?.nametag
+        || (request.recipient.startsWith('@') ? request.recipient.slice(1) : undefined);
+
+      let preimage: string | undefined;
+      let hashlock: string;
+      if (request.hashlock) {
+        hashlock = request.hashlock.toLowerCase();
+      } else {
+        preimage = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+        hashlock = await hashEscrowPreimage(preimage);
+      }
+
+      const calculator = new TokenSplitCalculator();
+      const splitPlan = await calculator.calculateOptimalSplit(
+        Array.from(this.tokens.values()),
+        BigInt(request.amount),
+        request.coinId,
+      );
+      if (!splitPlan) {
+        throw new SphereError('Insufficient balance', 'INSUFFICIENT_BALANCE');
+      }
+
+      // Reserve the tokens while we work (the split calculator skips non-confirmed tokens)
+      for (const { uiToken } of splitPlan.tokensToTransferDirectly) {
+        uiToken.status = 'transferring';
+        lockedTokens.push(uiToken);
+      }
+
+      // Carve out an exact-amount token; the change is minted in the background
+      if (splitPlan.requiresSplit && splitPlan.tokenToSplit) {
+        splitPlan.tokenToSplit.uiToken.status = 'transferring';
+        const signingService = await this.createSigningService();
+        const { stClient, trustBase } = this.getStateTransitionContext();
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const devMode = (this.deps!.oracle as any).isDevMode?.() ?? false;
+        const executor = new InstantSplitExecutor({
+          stateTransitionClient: stClient,
+          trustBase,
+          signingService,
+          devMode,
+        });
+        const remainderAmount = splitPlan.remainderAmount!;
+        const selfSplit = await executor.splitToSelf(
+          splitPlan.tokenToSplit.sdkToken,
+          splitPlan.splitAmount!,
+          remainderAmount,
+          splitPlan.coinId,
+          {
+            onChangeTokenCreated: async (changeToken) => {
+              await this.addToken(this.createConfirmedToken(request.coinId, remainderAmount, changeToken));
+            },
+            onStorageSync: async () => {
+              await this.save();
+              return true;
+            },
+          },
+        );
+        await this.removeToken(splitPlan.tokenToSplit.uiToken.id);
+        this.pendingBackgroundTasks.push(selfSplit.startBackground());
+
+        const exactToken = this.createConfirmedToken(request.coinId, splitPlan.splitAmount!, selfSplit.token);
+        exactToken.status = 'transferring';
+        await this.addToken(exactToken);
+        lockedTokens.push(exactToken);
+      }
+
+      const entries: EscrowTokenEntry[] = [];
+      for (const token of lockedTokens) {
+        entries.push({ tokenId: token.id, sourceToken: token.sdkData! });
+        token.status = 'escrowed';
+        token.updatedAt = Date.now();
+      }
+
+      const now = Date.now();
+      escrow = {
+        id: crypto.randomUUID(),
+        role: 'sender',
+        status: 'offered',
+        coinId: request.coinId,
+        symbol: this.getCoinSymbol(request.coinId),
+        amount: request.amount,
+        hashlock,
+        preimage,
+        expiresAt: now + timeoutMs,
+        counterpartyPubkey: recipientPubkey,
+        counterpartyNametag: recipientNametag,
+        recipientAddress: recipientAddress.toString(),
+        memo: request.memo,
+        tokens: entries,
+        swapId: request.swapId,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // Persist before delivery: once the offer is out, the recipient can claim
+      this.escrows.set(escrow.id, escrow);
+      await this.saveEscrows();
+      await this.save();
+
+      const offer: EscrowOfferPayload = {
+        type: 'ESCROW_OFFER',
+        version: '1.0',
+        escrowId: escrow.id,
+        amount: escrow.amount,
+        coinId: escrow.coinId,
+        hashlock,
+        expiresAt: escrow.expiresAt,
+        recipientAddress: escrow.recipientAddress,
+        tokens: entries.map(entry => entry.sourceToken),
+        memo: request.memo,
+        swapId: request.swapId,
+      };
+      await this.deps!.transport.sendTokenTransfer(recipientPubkey, offer);
+
+      await this.addToHistory({
+        type: 'SENT',
+        amount: escrow.amount,
+        coinId: escrow.coinId,
+        symbol: escrow.symbol,
+        timestamp: now,
+        recipientPubkey,
+        recipientNametag,
+        recipientAddress: peerInfo?.directAddress || escrow.recipientAddress,
+        memo: request.memo,
+        escrowId: escrow.id,
+        escrowStatus: 'offered',
+      });
+
+      this.deps!.emitEvent('escrow:updated', this.escrowView(escrow));
+      return this.escrowView(escrow);
+    } catch (error) {
+      // The offer never reached the recipient — release the tokens
+      for (const token of lockedTokens) {
+        token.status = 'confirmed';
+        this.tokens.set(token.id, token);
+      }
+      if (escrow) {
+        this.escrows.delete(escrow.id);
+        await this.saveEscrows();
+      }
+      await this.save();
+      throw error;
+    } finally {
+      resolveTracker();
+    }
+  }
+
+  /**
+   * Claim an escrow offered to us by revealing its preimage.
+   *
+   * Sends the preimage to the sender in an `ESCROW_CLAIM` and marks the
+   * escrow `claiming`. The sender's wallet answers with the transferred
+   * tokens (`ESCROW_RELEASED`); they are finalized with the preimage and
+   * added to the wallet, and the escrow becomes `claimed`. Calling this again
+   * while `claiming` resends the claim.
+   *
+   * @param preimage - Hex preimage whose SHA-256 is the escrow's hashlock
+   * @param escrowId - Escrow to claim; by default the open offer matching the preimage
+   * @returns The escrow, now `claiming`
+   */
+  async claimEscrow(preimage: string, escrowId?: string): Promise<Escrow> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+
+    if (!isHexBytes(preimage)) {
+      throw new SphereError('Escrow preimage must be a hex string', 'VALIDATION_ERROR');
+    }
+    const hashlock = await hashEscrowPreimage(preimage);
+    const escrow = escrowId
+      ? this.escrows.get(escrowId)
+      : Array.from(this.escrows.values()).find(
+        e => e.role === 'recipient' && (e.status === 'offered' || e.status === 'claiming') && e.hashlock === hashlock,
+      );
+
+    if (!escrow || escrow.role !== 'recipient') {
+      throw new SphereError(`No escrow offered to us ${escrowId ? `with id ${escrowId}` : 'matches this preimage'}`, 'VALIDATION_ERROR');
+    }
+    if (escrow.status !== 'offered' && escrow.status !== 'claiming') {
+      throw new SphereError(`Escrow ${escrow.id} is already ${escrow.status}`, 'VALIDATION_ERROR');
+    }
+    if (escrow.hashlock !== hashlock) {
+      throw new SphereError('Preimage does not match the escrow hashlock', 'VALIDATION_ERROR');
+    }
+    if (Date.now() >= escrow.expiresAt) {
+      throw new SphereError(`Escrow ${escrow.id} has expired`, 'VALIDATION_ERROR');
+    }
+
+    const claim: EscrowClaimPayload = {
+      type: 'ESCROW_CLAIM',
+      version: '1.0',
+      escrowId: escrow.id,
+      preimage: preimage.toLowerCase(),
+    };
+    await this.deps!.transport.sendTokenTransfer(escrow.counterpartyPubkey, claim);
+
+    escrow.preimage = claim.preimage;
+    await this.setEscrowStatus(escrow, 'claiming');
+    return this.escrowView(escrow);
+  }
+
+  /**
+   * Take back the tokens of an expired escrow we offered.
+   *
+   * Nothing was transferred while the escrow was open, so the tokens are
+   * unlocked in place and the recipient is told the escrow was refunded.
+   * Claims arriving afterwards are refused.
+   *
+   * @param escrowId - Escrow to refund (must have passed `expiresAt`)
+   * @returns The refunded escrow
+   */
+  async refundEscrow(escrowId: string): Promise<Escrow> {
+    this.ensureInitialized();
+
+    const escrow = this.escrows.get(escrowId);
+    if (!escrow || escrow.role !== 'sender') {
+      throw new SphereError(`No escrow offered by us with id ${escrowId}`, 'VALIDATION_ERROR');
+    }
+    if (escrow.status !== 'offered') {
+      throw new SphereError(`Escrow ${escrowId} is already ${escrow.status}`, 'VALIDATION_ERROR');
+    }
+    if (Date.now() < escrow.expiresAt) {
+      throw new SphereError(
+        `Escrow ${escrowId} cannot be refunded before ${new Date(escrow.expiresAt).toISOString()}`,
+        'VALIDATION_ERROR',
+      );
+    }
+
+    for (const entry of escrow.tokens) {
+      const token = entry.tokenId ? this.tokens.get(entry.tokenId) : undefined;
+      if (token?.status === 'escrowed') {
+        token.status = 'confirmed';
+        token.updatedAt = Date.now();
+      }
+    }
+    await this.setEscrowStatus(escrow, 'refunded');
+    await this.save();
+
+    try {
+      const notice: EscrowRefundedPayload = { type: 'ESCROW_REFUNDED', version: '1.0', escrowId: escrow.id };
+      await this.deps!.transport.sendTokenTransfer(escrow.counterpartyPubkey, notice);
+    } catch (err) {
+      logger.warn('Payments', `Failed to notify recipient of escrow refund ${escrow.id}:`, err);
+    }
+
+    return this.escrowView(escrow);
+  }
+
+  /**
+   * Get escrows offered or received by this address, newest first.
+   *
+   * @param filter - Optional role and/or status filter
+   */
+  getEscrows(filter?: { role?: EscrowRole; status?: EscrowStatus }): Escrow[] {
+    return Array.from(this.escrows.values())
+      .map(e => this.escrowView(e))
+      .filter(e => (!filter?.role || e.role === filter.role) && (!filter?.status || e.status === filter.status))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Get a single escrow by ID.
+   */
+  getEscrow(escrowId: string): Escrow | undefined {
+    const escrow = this.escrows.get(escrowId);
+    return escrow ? this.escrowView(escrow) : undefined;
+  }
+
+  /**
+   * Snapshot of an escrow for callers, reporting unclaimed offers past their
+   * deadline as `expired`.
+   */
+  private escrowView(escrow: Escrow): Escrow {
+    const status = escrow.status === 'offered' && Date.now() >= escrow.expiresAt ? 'expired' : escrow.status;
+    return { ...escrow, status, tokens: escrow.tokens.map(entry => ({ ...entry })) };
+  }
+
+  private async setEscrowStatus(escrow: Escrow, status: EscrowStatus): Promise<void> {
+    escrow.status = status;
+    escrow.updatedAt = Date.now();
+    await this.saveEscrows();
+
+    // Update the escrow's history entry in place (same dedupKey)
+    const entry = this._historyCache.find(e => e.escrowId === escrow.id);
+    if (entry) {
+      const { id: _id, dedupKey: _dedupKey, ...fields } = entry;
+      await this.addToHistory({ ...fields, escrowStatus: status });
+    }
+
+    this.deps!.emitEvent('escrow:updated', this.escrowView(escrow));
+  }
+
+  /**
+   * Whether an inclusion proof records this commitment, rather than a
+   * competing transition of the same token state.
+   */
+  private async isProofForCommitment(proof: InclusionProof, commitment: TransferCommitment): Promise<boolean> {
+    if (!proof.transactionHash) return false;
+    return proof.transactionHash.equals(await commitment.transactionData.calculateHash());
+  }
+
+  /**
+   * Whether an L3 address belongs to this wallet: our DIRECT address, or the
+   * PROXY address of our nametag.
+   */
+  private async isOwnAddress(address: string): Promise<boolean> {
+    if (this.deps!.identity.directAddress && address === this.deps!.identity.directAddress) return true;
+
+    const nametag = this.getNametag();
+    if (!address.startsWith('PROXY://') || !nametag?.token) return false;
+    const nametagToken = await SdkToken.fromJSON(nametag.token);
+    const { ProxyAddress } = await import('@unicitylabs/state-transition-sdk/lib/address/ProxyAddress');
+    const proxy = await ProxyAddress.fromTokenId(nametagToken.id);
+    return proxy.address === address;
+  }
+
+  private async handleEscrowPayload(payload: EscrowPayload, senderPubkey: string): Promise<void> {
+    if (payload.type === 'ESCROW_OFFER') {
+      await this.handleEscrowOffer(payload, senderPubkey);
+      return;
+    }
+
+    // Everything else is only accepted from the counterparty of the escrow
+    const escrow = this.escrows.get(payload.escrowId);
+    if (!escrow || escrow.counterpartyPubkey !== senderPubkey) return;
+
+    if (payload.type === 'ESCROW_CLAIM' && escrow.role === 'sender') {
+      await this.handleEscrowClaim(escrow, payload);
+    } else if (payload.type === 'ESCROW_RELEASED' && escrow.role === 'recipient') {
+      await this.handleEscrowReleased(escrow, payload);
+    } else if (payload.type === 'ESCROW_REFUNDED' && escrow.role === 'recipient'
+      && (escrow.status === 'offered' || escrow.status === 'claiming')) {
+      await this.setEscrowStatus(escrow, 'refunded');
+    }
+  }
+
+  private async handleEscrowOffer(offer: EscrowOfferPayload, senderPubkey: string): Promise<void> {
+    // Nostr re-delivery
+    if (this.escrows.has(offer.escrowId)) return;
+
+    if (!/^[0-9a-fA-F]{64}$/.test(offer.hashlock) || typeof offer.expiresAt !== 'number'
+      || typeof offer.recipientAddress !== 'string' || !Array.isArray(offer.tokens) || offer.tokens.length === 0
+      || !offer.tokens.every(token => typeof token === 'string')) {
+      logger.warn('Payments', `Ignoring malformed escrow offer ${offer.escrowId}`);
+      return;
+    }
+    // The tokens will be released to this address, so it must be ours
+    if (!(await this.isOwnAddress(offer.recipientAddress))) {
+      logger.warn('Payments', `Ignoring escrow offer ${offer.escrowId}: not addressed to us`);
+      return;
+    }
+
+    // The locked tokens must add up to the offer
+    let total = 0n;
+    for (const sourceToken of offer.tokens) {
+      const info = await parseTokenInfo(sourceToken);
+      if (info.coinId !== offer.coinId) {
+        logger.warn('Payments', `Ignoring escrow offer ${offer.escrowId}: coin mismatch`);
+        return;
+      }
+      total += BigInt(info.amount);
+    }
+    if (total.toString() !== offer.amount) {
+      logger.warn('Payments', `Ignoring escrow offer ${offer.escrowId}: tokens total ${total}, offer says ${offer.amount}`);
+      return;
+    }
+
+    const senderInfo = await this.resolveSenderInfo(senderPubkey);
+    const now = Date.now();
+    const escrow: Escrow = {
+      id: offer.escrowId,
+      role: 'recipient',
+      status: 'offered',
+      coinId: offer.coinId,
+      symbol: this.getCoinSymbol(offer.coinId),
+      amount: offer.amount,
+      hashlock: offer.hashlock.toLowerCase(),
+      expiresAt: offer.expiresAt,
+      counterpartyPubkey: senderPubkey,
+      counterpartyNametag: senderInfo.senderNametag,
+      recipientAddress: offer.recipientAddress,
+      memo: offer.memo,
+      tokens: offer.tokens.map(sourceToken => ({ sourceToken })),
+      swapId: typeof offer.swapId === 'string' ? offer.swapId : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.escrows.set(escrow.id, escrow);
+    await this.saveEscrows();
+
+    await this.addToHistory({
+      type: 'RECEIVED',
+      amount: escrow.amount,
+      coinId: escrow.coinId,
+      symbol: escrow.symbol,
+      timestamp: now,
+      senderPubkey,
+      ...senderInfo,
+      memo: offer.memo,
+      escrowId: escrow.id,
+      escrowStatus: 'offered',
+    });
+
+    this.deps!.emitEvent('escrow:updated', this.escrowView(escrow));
+
+    if (escrow.swapId) {
+      await this.handleSwapLegOffered(escrow);
+    }
+  }
+
+  /**
+   * The recipient revealed the preimage. An in-time claim is accepted (the
+   * escrow can no longer be refunded) and the tokens are released; a late
+   * one refunds the escrow. A repeated claim of a claimed escrow resends the
+   * release, so a lost `ESCROW_RELEASED` or an interrupted release recovers.
+   */
+  private async handleEscrowClaim(escrow: Escrow, claim: EscrowClaimPayload): Promise<void> {
+    if (!isHexBytes(claim.preimage) || await hashEscrowPreimage(claim.preimage) !== escrow.hashlock) {
+      logger.warn('Payments', `Ignoring escrow claim ${escrow.id}: preimage does not match hashlock`);
+      return;
+    }
+
+    if (escrow.status === 'offered') {
+      if (Date.now() >= escrow.expiresAt) {
+        logger.warn('Payments', `Refusing escrow claim ${escrow.id}: it expired`);
+        await this.refundEscrow(escrow.id);
+        return;
+      }
+      if (this.isSwapLegAwaitingCounterparty(escrow)) {
+        logger.warn('Payments', `Holding escrow claim ${escrow.id} until the counterparty's leg of the swap arrives`);
+        return;
+      }
+      escrow.preimage = claim.preimage.toLowerCase();
+      await this.setEscrowStatus(escrow, 'claimed');
+      await this.releaseEscrow(escrow);
+      if (escrow.swapId) {
+        await this.handleSwapLegClaimed(escrow);
+      }
+    } else if (escrow.status === 'claimed') {
+      await this.releaseEscrow(escrow);
+    }
+  }
+
+  /**
+   * Transfer the tokens of a claimed escrow to the recipient and send them in
+   * an `ESCROW_RELEASED`. Each commitment is stored before it is submitted,
+   * so a release interrupted by a failure resumes with the same transfer.
+   * Failures are logged; the next claim retries.
+   */
+  private async releaseEscrow(escrow: Escrow): Promise<void> {
+    try {
+      const pending = escrow.tokens.filter(entry => !entry.transferTx);
+      if (pending.length > 0) {
+        const signingService = await this.createSigningService();
+        const { stClient, trustBase } = this.getStateTransitionContext();
+        const { AddressFactory } = await import('@unicitylabs/state-transition-sdk/lib/address/AddressFactory');
+        const recipientAddress = await AddressFactory.createAddress(escrow.recipientAddress);
+        const recipientDataHash = new DataHash(HashAlgorithm.SHA256, hexToBytes(escrow.hashlock));
+
+        for (const entry of pending) {
+          const token = entry.tokenId ? this.tokens.get(entry.tokenId) : undefined;
+          let commitment: TransferCommitment;
+          if (entry.commitmentData) {
+            commitment = await TransferCommitment.fromJSON(JSON.parse(entry.commitmentData));
+          } else {
+            if (!token) {
+              throw new SphereError(`Escrowed token ${entry.tokenId} is missing`, 'TRANSFER_FAILED');
+            }
+            commitment = await this.createSdkCommitment(token, recipientAddress, signingService, recipientDataHash);
+            entry.commitmentData = JSON.stringify(commitment.toJSON());
+            await this.saveEscrows();
+          }
+
+          const response = await stClient.submitTransferCommitment(commitment);
+          if (response.status !== 'SUCCESS' && response.status !== 'REQUEST_ID_EXISTS') {
+            throw new SphereError(`Escrow release failed: ${response.status}`, 'TRANSFER_FAILED');
+          }
+          const proof = await waitInclusionProof(trustBase, stClient, commitment);
+          if (!(await this.isProofForCommitment(proof, commitment))) {
+            throw new SphereError(`Escrowed token ${entry.tokenId} was spent elsewhere`, 'TRANSFER_FAILED');
+          }
+
+          entry.transferTx = JSON.stringify(commitment.toTransaction(proof).toJSON());
+          await this.saveEscrows();
+          if (token) await this.removeToken(token.id);
+        }
+      }
+
+      const release: EscrowReleasedPayload = {
+        type: 'ESCROW_RELEASED',
+        version: '1.0',
+        escrowId: escrow.id,
+        tokens: escrow.tokens.map(entry => ({ sourceToken: entry.sourceToken, transferTx: entry.transferTx! })),
+      };
+      await this.deps!.transport.sendTokenTransfer(escrow.counterpartyPubkey, release);
+    } catch (err) {
+      logger.warn('Payments', `Release of escrow ${escrow.id} interrupted, the next claim retries it:`, err);
+    }
+  }
+
+  /**
+   * The sender transferred the tokens we claimed. They must be addressed to
+   * us and add up to the escrow; they are finalized with the preimage.
+   */
+  private async handleEscrowReleased(escrow: Escrow, release: EscrowReleasedPayload): Promise<void> {
+    if (escrow.status !== 'claiming' || !escrow.preimage) return;
+
+    const received: Token[] = [];
+    try {
+      if (!Array.isArray(release.tokens) || release.tokens.length === 0) {
+        throw new SphereError('no tokens', 'VALIDATION_ERROR');
+      }
+
+      const transfers: Array<{ sourceToken: string; transferTx: TransferTransaction }> = [];
+      let total = 0n;
+      for (const entry of release.tokens) {
+        const transferTx = await TransferTransaction.fromJSON(JSON.parse(entry.transferTx));
+        if (!(await this.isOwnAddress(transferTx.data.recipient.toString()))) {
+          throw new SphereError('token not addressed to us', 'VALIDATION_ERROR');
+        }
+        const info = await parseTokenInfo(entry.sourceToken);
+        if (info.coinId !== escrow.coinId) {
+          throw new SphereError('coin mismatch', 'VALIDATION_ERROR');
+        }
+        total += BigInt(info.amount);
+        transfers.push({ sourceToken: entry.sourceToken, transferTx });
+      }
+      if (total.toString() !== escrow.amount) {
+        throw new SphereError(`tokens total ${total}, escrow is ${escrow.amount}`, 'VALIDATION_ERROR');
+      }
+
+      // Finalizing checks the inclusion proofs and that the preimage opens the hashlock
+      const { stClient, trustBase } = this.getStateTransitionContext();
+      for (const { sourceToken, transferTx } of transfers) {
+        const finalized = await this.finalizeTransferToken(
+          await SdkToken.fromJSON(JSON.parse(sourceToken)), transferTx, stClient, trustBase, hexToBytes(escrow.preimage),
+        );
+        const tokenJson = finalized.toJSON();
+        const info = await parseTokenInfo(tokenJson);
+        received.push({
+          id: crypto.randomUUID(),
+          coinId: info.coinId,
+          symbol: info.symbol,
+          name: info.name,
+          decimals: info.decimals,
+          iconUrl: info.iconUrl,
+          amount: info.amount,
+          status: 'confirmed',
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          sdkData: JSON.stringify(tokenJson),
+        });
+      }
+    } catch (err) {
+      logger.warn('Payments', `Ignoring release of escrow ${escrow.id}:`, err);
+      return;
+    }
+
+    for (const token of received) {
+      await this.addToken(token);
+    }
+    await this.setEscrowStatus(escrow, 'claimed');
+
+    this.emitIncomingTransfer({
+      id: escrow.id,
+      senderPubkey: escrow.counterpartyPubkey,
+      senderNametag: escrow.counterpartyNametag,
+      tokens: received,
+      memo: escrow.memo,
+      receivedAt: Date.now(),
+    });
+
+    if (escrow.swapId) {
+      await this.handleSwapLegReceived(escrow);
+    }
+  }
+
+  /**
+   * Mark tokens held in our open or not yet released escrows as `escrowed`.
+   */
+  private applyEscrowLocks(): void {
+    for (const escrow of this.escrows.values()) {
+      if (escrow.role !== 'sender' || (escrow.status !== 'offered' && escrow.status !== 'claimed')) continue;
+      for (const entry of escrow.tokens) {
+        const token = entry.tokenId && !entry.transferTx ? this.tokens.get(entry.tokenId) : undefined;
+        if (token && token.status === 'confirmed') token.status = 'escrowed';
+      }
+    }
+  }
+
+  private async saveEscrows(): Promise<void> {
+    await this.deps!.storage.set(
+      STORAGE_KEYS_ADDRESS.ESCROWS,
+      JSON.stringify(Array.from(this.escrows.values())),
+    );
+  }
+
+  private async loadEscrows(): Promise<void> {
+    const data = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.ESCROWS);
+    if (!data) return;
+    try {
+      for (const escrow of JSON.parse(data) as Escrow[]) {
+        this.escrows.set(escrow.id, escrow);
+      }
+    } catch {
+      // Ignore corrupt data
+    }
+  }
+
+  /**
+   * State transition client and trust base from the oracle.
+   */
+  private getStateTransitionContext(): { stClient: StateTransitionClient; trustBase: RootTrustBase } {
+    const stClient = this.deps!.oracle.getStateTransitionClient?.() as StateTransitionClient | undefined;
+    if (!stClient) {
+      throw new SphereError('State transition client not available. Oracle provider must implement getStateTransitionClient()', 'AGGREGATOR_ERROR');
+    }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const trustBase = (this.deps!.oracle as any).getTrustBase?.() as RootTrustBase | undefined;
+    if (!trustBase) {
+      throw new SphereError('Trust base not available. Oracle provider must implement getTrustBase()', 'AGGREGATOR_ERROR');
+    }
+    return { stClient, trustBase };
+  }
+
+  // ===========================================================================
+  // Public API - Swaps
+  // ===========================================================================
+
+  /**
+   * Propose a swap of `give` for `want` to another wallet.
+   *
+   * The swap runs as two escrows locked by the same hashlock, whose preimage
+   * only we know:
+   * 1. We send `SWAP_OFFER`; the counterparty answers with {@link acceptSwap}
+   *    or {@link declineSwap}.
+   * 2. On acceptance we lock our leg for twice `timeoutMs`.
+   * 3. The counterparty locks its leg for `timeoutMs`, once it has seen ours.
+   * 4. We claim its leg, which reveals the preimage. The counterparty's
+   *    wallet releases its leg to us and claims ours with the preimage.
+   * 5. Once its leg has arrived, we release ours.
+   *
+   * The swap is not atomic: nothing on L3 ties the legs together. Each leg
+   * is held by its owner's wallet until claimed (see {@link createEscrow}),
+   * so the protocol only orders the steps between wallets that follow it:
+   * we release nothing before we hold the counterparty's leg, while the
+   * counterparty releases first and relies on our wallet to release in
+   * return. Unclaimed legs can be refunded after
+   * they expire ({@link refundSwap}). Our leg outlives theirs so that the
+   * counterparty always has time to claim after we reveal the preimage.
+   * Steps 2-5 run automatically.
+   *
+   * @param request - Counterparty, what we give and want, optional timeout
+   * @returns The proposed swap
+   */
+  async proposeSwap(request: SwapRequest): Promise<Swap> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+
+    if (!isSwapAsset(request.give) || !isSwapAsset(request.want)) {
+      throw new SphereError('Swap amounts must be positive integers with a coin ID', 'VALIDATION_ERROR');
+    }
+    const timeoutMs = request.timeoutMs ?? DEFAULT_SWAP_TIMEOUT_MS;
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new SphereError('Swap timeout must be a positive number of milliseconds', 'VALIDATION_ERROR');
+    }
+
+    const peerInfo = await this.deps!.transport.resolve?.(request.counterparty) ?? null;
+    const counterpartyPubkey = this.resolveTransportPubkey(request.counterparty, peerInfo);
+    const preimage = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+    const now = Date.now();
+    const swap: Swap = {
+      id: crypto.randomUUID(),
+      role: 'initiator',
+      status: 'proposed',
+      give: { coinId: request.give.coinId, amount: request.give.amount },
+      want: { coinId: request.want.coinId, amount: request.want.amount },
+      hashlock: await hashEscrowPreimage(preimage),
+      preimage,
+      timeoutMs,
+      counterpartyPubkey,
+      counterpartyNametag: peerInfo?.nametag
+        || (request.counterparty.startsWith('@') ? request.counterparty.slice(1) : undefined),
+      memo: request.memo,
+      intentId: request.intentId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const offer: SwapOfferPayload = {
+      type: 'SWAP_OFFER',
+      version: '1.0',
+      swapId: swap.id,
+      give: swap.give,
+      want: swap.want,
+      hashlock: swap.hashlock,
+      timeoutMs,
+      intentId: swap.intentId,
+      memo: swap.memo,
+    };
+    await this.deps!.transport.sendTokenTransfer(counterpartyPubkey, offer);
+
+    this.swaps.set(swap.id, swap);
+    await this.saveSwaps();
+    this.deps!.emitEvent('swap:updated', this.swapView(swap));
+    return this.swapView(swap);
+  }
+
+  /**
+   * Propose a swap to the author of a market `sell` intent, paying its
+   * asking price.
+   *
+   * The intent's `price` and `currency` become what we give; what we get
+   * for it is described only in free text, so the caller states it.
+   *
+   * @param intent - A `sell` intent from {@link MarketModule.search}
+   * @param want - Coin and amount we expect in return
+   * @param options - Optional timeout and memo
+   * @returns The proposed swap
+   */
+  async proposeSwapForIntent(
+    intent: SearchIntentResult,
+    want: SwapAsset,
+    options?: { timeoutMs?: number; memo?: string },
+  ): Promise<Swap> {
+    if (intent.intentType !== 'sell') {
+      throw new SphereError(`Cannot swap against a '${intent.intentType}' intent, only 'sell'`, 'VALIDATION_ERROR');
+    }
+    if (intent.price === undefined || !(intent.price > 0)) {
+      throw new SphereError(`Intent ${intent.id} has no price`, 'VALIDATION_ERROR');
+    }
+    const registry = TokenRegistry.getInstance();
+    const coinId = registry.getCoinIdBySymbol(intent.currency)
+      ?? (registry.isKnown(intent.currency) ? intent.currency : undefined);
+    if (!coinId) {
+      throw new SphereError(`Unknown intent currency: ${intent.currency}`, 'VALIDATION_ERROR');
+    }
+
+    return this.proposeSwap({
+      counterparty: intent.agentNametag ? `@${intent.agentNametag}` : intent.agentPublicKey,
+      give: { coinId, amount: toSmallestUnit(intent.price, this.getCoinDecimals(coinId)).toString() },
+      want,
+      timeoutMs: options?.timeoutMs,
+      memo: options?.memo,
+      intentId: intent.id,
+    });
+  }
+
+  /**
+   * Accept a swap proposed to us. The proposer locks its leg next; ours is
+   * locked automatically once its leg arrives and matches the terms.
+   *
+   * @param swapId - Swap to accept
+   * @returns The accepted swap
+   */
+  async acceptSwap(swapId: string): Promise<Swap> {
+    this.ensureInitialized();
+    this.ensureCanSign();
+
+    const swap = this.swaps.get(swapId);
+    if (!swap || swap.role !== 'responder') {
+      throw new SphereError(`No swap proposed to us with id ${swapId}`, 'VALIDATION_ERROR');
+    }
+    if (swap.status !== 'proposed') {
+      throw new SphereError(`Swap ${swapId} is already ${swap.status}`, 'VALIDATION_ERROR');
+    }
+
+    await this.deps!.transport.sendTokenTransfer(swap.counterpartyPubkey, {
+      type: 'SWAP_ACCEPT',
+      version: '1.0',
+      swapId,
+    });
+    await this.setSwapStatus(swap, 'accepted');
+    return this.swapView(swap);
+  }
+
+  /**
+   * Back out of a swap before our leg is locked. Once locked, the leg can
+   * only be taken back by {@link refundSwap} after it expires.
+   *
+   * @param swapId - Swap to decline
+   * @param reason - Optional reason passed to the counterparty
+   * @returns The declined swap
+   */
+  async declineSwap(swapId: string, reason?: string): Promise<Swap> {
+    this.ensureInitialized();
+
+    const swap = this.swaps.get(swapId);
+    if (!swap) {
+      throw new SphereError(`Swap not found: ${swapId}`, 'VALIDATION_ERROR');
+    }
+    if (swap.status !== 'proposed' && swap.status !== 'accepted') {
+      throw new SphereError(`Swap ${swapId} is already ${swap.status}`, 'VALIDATION_ERROR');
+    }
+
+    await this.deps!.transport.sendTokenTransfer(swap.counterpartyPubkey, {
+      type: 'SWAP_DECLINE',
+      version: '1.0',
+      swapId,
+      reason,
+    });
+    await this.setSwapStatus(swap, 'declined', reason);
+    return this.swapView(swap);
+  }
+
+  /**
+   * Take back our leg of a swap that did not complete, once it has expired
+   * unclaimed (see {@link refundEscrow}).
+   *
+   * @param swapId - Swap whose leg to refund
+   * @returns The refunded swap
+   */
+  async refundSwap(swapId: string): Promise<Swap> {
+    this.ensureInitialized();
+
+    const swap = this.swaps.get(swapId);
+    if (!swap?.giveEscrowId) {
+      throw new SphereError(`Swap ${swapId} has no locked leg to refund`, 'VALIDATION_ERROR');
+    }
+    if (swap.status === 'completed' || swap.status === 'refunded') {
+      throw new SphereError(`Swap ${swapId} is already ${swap.status}`, 'VALIDATION_ERROR');
+    }
+
+    await this.refundEscrow(swap.giveEscrowId);
+    await this.setSwapStatus(swap, 'refunded');
+    return this.swapView(swap);
+  }
+
+  /**
+   * Get swaps negotiated by this address, newest first.
+   *
+   * @param filter - Optional role and/or status filter
+   */
+  getSwaps(filter?: { role?: SwapRole; status?: SwapStatus }): Swap[] {
+    return Array.from(this.swaps.values())
+      .filter(s => (!filter?.role || s.role === filter.role) && (!filter?.status || s.status === filter.status))
+      .map(s => this.swapView(s))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Get a single swap by ID.
+   */
+  getSwap(swapId: string): Swap | undefined {
+    const swap = this.swaps.get(swapId);
+    return swap ? this.swapView(swap) : undefined;
+  }
+
+  private swapView(swap: Swap): Swap {
+    return { ...swap, give: { ...swap.give }, want: { ...swap.want } };
+  }
+
+  private async setSwapStatus(swap: Swap, status: SwapStatus, error?: string): Promise<void> {
+    swap.status = status;
+    swap.error = error;
+    swap.updatedAt = Date.now();
+    await this.saveSwaps();
+    this.deps!.emitEvent('swap:updated', this.swapView(swap));
+  }
+
+  private async handleSwapPayload(payload: SwapPayload, senderPubkey: string): Promise<void> {
+    if (payload.type === 'SWAP_OFFER') {
+      await this.handleSwapOffer(payload, senderPubkey);
+      return;
+    }
+
+    const swap = this.swaps.get(payload.swapId);
+    if (!swap || swap.counterpartyPubkey !== senderPubkey) return;
+
+    if (payload.type === 'SWAP_ACCEPT' && swap.role === 'initiator' && swap.status === 'proposed') {
+      await this.setSwapStatus(swap, 'accepted');
+      // Our leg outlives the responder's, so it has time to claim after we reveal the preimage
+      await this.lockSwapLeg(swap, 2 * swap.timeoutMs);
+    } else if (payload.type === 'SWAP_DECLINE' && (swap.status === 'proposed' || swap.status === 'accepted')) {
+      await this.setSwapStatus(swap, 'declined', typeof payload.reason === 'string' ? payload.reason : undefined);
+    }
+  }
+
+  private async handleSwapOffer(offer: SwapOfferPayload, senderPubkey: string): Promise<void> {
+    // Nostr re-delivery
+    if (this.swaps.has(offer.swapId)) return;
+
+    if (!isSwapAsset(offer.give) || !isSwapAsset(offer.want) || !/^[0-9a-fA-F]{64}$/.test(offer.hashlock)
+      || typeof offer.timeoutMs !== 'number' || !Number.isFinite(offer.timeoutMs) || offer.timeoutMs <= 0) {
+      logger.warn('Payments', `Ignoring malformed swap offer ${offer.swapId}`);
+      return;
+    }
+
+    const senderInfo = await this.resolveSenderInfo(senderPubkey);
+    const now = Date.now();
+    // The offer states the proposer's side; ours is the mirror image
+    const swap: Swap = {
+      id: offer.swapId,
+      role: 'responder',
+      status: 'proposed',
+      give: { coinId: offer.want.coinId, amount: offer.want.amount },
+      want: { coinId: offer.give.coinId, amount: offer.give.amount },
+      hashlock: offer.hashlock.toLowerCase(),
+      timeoutMs: offer.timeoutMs,
+      counterpartyPubkey: senderPubkey,
+      counterpartyNametag: senderInfo.senderNametag,
+      memo: typeof offer.memo === 'string' ? offer.memo : undefined,
+      intentId: typeof offer.intentId === 'string' ? offer.intentId : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.swaps.set(swap.id, swap);
+    await this.saveSwaps();
+    this.deps!.emitEvent('swap:updated', this.swapView(swap));
+  }
+
+  /**
+   * Lock our leg of a swap in an escrow to the counterparty. On failure the
+   * swap is marked `failed` and the counterparty is told to stop waiting.
+   */
+  private async lockSwapLeg(swap: Swap, timeoutMs: number): Promise<void> {
+    try {
+      const escrow = await this.createEscrow({
+        coinId: swap.give.coinId,
+        amount: swap.give.amount,
+        recipient: swap.counterpartyPubkey,
+        memo: swap.memo,
+        hashlock: swap.hashlock,
+        timeoutMs,
+        swapId: swap.id,
+      });
+      swap.giveEscrowId = escrow.id;
+      await this.setSwapStatus(swap, 'locked');
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      logger.warn('Payments', `Failed to lock leg of swap ${swap.id}:`, err);
+      await this.setSwapStatus(swap, 'failed', reason);
+      try {
+        await this.deps!.transport.sendTokenTransfer(swap.counterpartyPubkey, {
+          type: 'SWAP_DECLINE',
+          version: '1.0',
+          swapId: swap.id,
+          reason,
+        });
+      } catch (notifyErr) {
+        logger.warn('Payments', `Failed to notify counterparty of swap ${swap.id}:`, notifyErr);
+      }
+    }
+  }
+
+  /**
+   * The counterparty's leg of a swap arrived as an escrow offer. The
+   * responder locks its own leg in return; the initiator claims it.
+   */
+  private async handleSwapLegOffered(escrow: Escrow): Promise<void> {
+    const swap = this.swaps.get(escrow.swapId!);
+    if (!swap || swap.wantEscrowId || escrow.counterpartyPubkey !== swap.counterpartyPubkey) return;
+
+    const expectedStatus: SwapStatus = swap.role === 'responder' ? 'accepted' : 'locked';
+    if (swap.status !== expectedStatus) return;
+
+    swap.wantEscrowId = escrow.id;
+    if (escrow.hashlock !== swap.hashlock || escrow.coinId !== swap.want.coinId
+      || escrow.amount !== swap.want.amount) {
+      await this.setSwapStatus(swap, 'failed', 'Counterparty leg does not match the swap terms');
+      return;
+    }
+
+    if (swap.role === 'responder') {
+      // Our leg expires at now + timeoutMs; theirs must leave us time to claim after that
+      if (escrow.expiresAt < Date.now() + swap.timeoutMs * 1.5) {
+        await this.setSwapStatus(swap, 'failed', 'Counterparty leg expires too soon');
+        return;
+      }
+      await this.lockSwapLeg(swap, swap.timeoutMs);
+      return;
+    }
 
-        const uiToken: Token = {
-          id: crypto.randomUUID(),
-          coinId: info.coinId,
-          symbol: info.symbol,
-          name: info.name,
-          decimals: info.decimals,
-          iconUrl: info.iconUrl,
-          amount: bundle.amount,
-          status: 'confirmed',
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-          sdkData: JSON.stringify(tokenData),
-        };
+    await this.claimSwapLeg(swap);
+  }
 
-        await this.addToken(uiToken);
+  /**
+   * The counterparty claimed our leg of a swap, revealing the preimage;
+   * use it to claim theirs.
+   */
+  private async handleSwapLegClaimed(escrow: Escrow): Promise<void> {
+    const swap = this.swaps.get(escrow.swapId!);
+    if (!swap || swap.giveEscrowId !== escrow.id || swap.status !== 'locked') return;
 
-        const receivedTokenId = extractTokenIdFromSdkData(uiToken.sdkData);
-        const senderInfo = await this.resolveSenderInfo(senderPubkey);
-        await this.addToHistory({
-          type: 'RECEIVED',
-          amount: bundle.amount,
-          coinId: info.coinId,
-          symbol: info.symbol,
-          timestamp: Date.now(),
-          senderPubkey,
-          ...senderInfo,
-          memo,
-          tokenId: receivedTokenId || uiToken.id,
-        });
+    swap.preimage = escrow.preimage;
+    await this.claimSwapLeg(swap);
+  }
 
-        await this.save();
+  private async claimSwapLeg(swap: Swap): Promise<void> {
+    try {
+      await this.claimEscrow(swap.preimage!, swap.wantEscrowId);
+    } catch (err) {
+      logger.warn('Payments', `Failed to claim leg of swap ${swap.id}:`, err);
+      await this.setSwapStatus(swap, 'failed', err instanceof Error ? err.message : String(err));
+    }
+  }
 
-        this.deps!.emitEvent('transfer:incoming', {
-          id: bundle.splitGroupId,
-          senderPubkey,
-          senderNametag: senderInfo.senderNametag,
-          tokens: [uiToken],
-          memo,
-          receivedAt: Date.now(),
-        });
-      }
+  /**
+   * The counterparty released its leg of a swap to us: the swap is complete.
+   * The initiator releases its own leg now, whether or not the
+   * counterparty's claim has arrived yet.
+   */
+  private async handleSwapLegReceived(escrow: Escrow): Promise<void> {
+    const swap = this.swaps.get(escrow.swapId!);
+    if (!swap || swap.wantEscrowId !== escrow.id || swap.status === 'completed') return;
 
-      return result;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        error: errorMessage,
-        durationMs: 0,
-      };
+    await this.setSwapStatus(swap, 'completed');
+
+    const giveEscrow = swap.giveEscrowId ? this.escrows.get(swap.giveEscrowId) : undefined;
+    if (swap.role === 'initiator' && giveEscrow?.status === 'offered' && Date.now() < giveEscrow.expiresAt) {
+      giveEscrow.preimage = swap.preimage;
+      await this.setEscrowStatus(giveEscrow, 'claimed');
+      await this.releaseEscrow(giveEscrow);
     }
   }
 
   /**
-   * Type-guard: check whether a payload is a valid {@link InstantSplitBundle} (V4 or V5).
-   *
-   * @param payload - The object to test.
-   * @returns `true` if the payload matches the InstantSplitBundle shape.
+   * Whether this escrow is the initiator's leg of a swap whose other leg has
+   * not been received yet. The initiator reveals the preimage first, so it
+   * only releases its leg once it holds the counterparty's.
    */
-  private isInstantSplitBundle(payload: unknown): payload is InstantSplitBundle {
-    return isInstantSplitBundle(payload);
+  private isSwapLegAwaitingCounterparty(escrow: Escrow): boolean {
+    const swap = escrow.swapId ? this.swaps.get(escrow.swapId) : undefined;
+    return swap?.role === 'initiator' && swap.giveEscrowId === escrow.id && swap.status !== 'completed';
+  }
+
+  private async saveSwaps(): Promise<void> {
+    await this.deps!.storage.set(
+      STORAGE_KEYS_ADDRESS.SWAPS,
+      JSON.stringify(Array.from(this.swaps.values())),
+    );
+  }
+
+  private async loadSwaps(): Promise<void> {
+    const data = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.SWAPS);
+    if (!data) return;
+    try {
+      for (const swap of JSON.parse(data) as Swap[]) {
+        this.swaps.set(swap.id, swap);
+      }
+    } catch {
+      // Ignore corrupt data
+    }
   }
 
   // ===========================================================================
@@ -2592,7 +4146,6 @@ export class PaymentsModule {
       if (!tokensBefore.has(tokenId)) {
         const transfer: IncomingTransfer = {
           id: tokenId,
-          senderPubkey: '',
           tokens: [token],
           receivedAt: Date.now(),
         };
@@ -2636,6 +4189,30 @@ export class PaymentsModule {
     return result;
   }
 
+  /**
+   * Subscribe to incoming transfers received by this module. Called
+   * alongside the `transfer:incoming` event, which (unlike this) is shared
+   * by all addresses of a Sphere instance.
+   * @param handler - Handler function for incoming transfers
+   * @returns Unsubscribe function
+   */
+  onIncomingTransfer(handler: IncomingTransferHandler): () => void {
+    this.incomingTransferHandlers.add(handler);
+    return () => this.incomingTransferHandlers.delete(handler);
+  }
+
+  private emitIncomingTransfer(transfer: IncomingTransfer): void {
+    this.deps!.emitEvent('transfer:incoming', transfer);
+
+    for (const handler of this.incomingTransferHandlers) {
+      try {
+        handler(transfer);
+      } catch (error) {
+        logger.debug('Payments', 'Incoming transfer handler error:', error);
+      }
+    }
+  }
+
   // ===========================================================================
   // Public API - Balance & Tokens
   // ===========================================================================
@@ -2769,6 +4346,7 @@ export class PaymentsModule {
    * Aggregate tokens by coinId with confirmed/unconfirmed breakdown.
    * Excludes tokens with status 'spent' or 'invalid'.
    * Tokens with status 'transferring' are counted as unconfirmed (visible in UI as "Sending").
+   * Tokens locked in an outgoing escrow ('escrowed') are likewise unconfirmed until refunded.
    */
   private aggregateTokens(coinId?: string): Asset[] {
     const assetsMap = new Map<string, {
@@ -3403,6 +4981,7 @@ export class PaymentsModule {
 
     // Check for older states of the same token (same tokenId, different stateHash)
     // Replace older states with the new state
+    const replaced: Token[] = [];
     for (const [existingId, existing] of this.tokens) {
       if (hasSameGenesisTokenId(existing, token)) {
         const existingStateHash = extractStateHashFromSdkData(existing.sdkData);
@@ -3416,6 +4995,7 @@ export class PaymentsModule {
         if (existing.status === 'spent' || existing.status === 'invalid') {
           logger.debug('Payments', `Replacing spent/invalid token ${incomingTokenId?.slice(0, 8)}...`);
           this.tokens.delete(existingId);
+          replaced.push(existing);
           break;
         }
 
@@ -3426,6 +5006,7 @@ export class PaymentsModule {
           // Archive old state before removing
           await this.archiveToken(existing);
           this.tokens.delete(existingId);
+          replaced.push(existing);
           break;
         }
 
@@ -3435,6 +5016,7 @@ export class PaymentsModule {
             logger.debug('Payments', `Token ${incomingTokenId?.slice(0, 8)}... .id changed, replacing`);
             await this.archiveToken(existing);
             this.tokens.delete(existingId);
+            replaced.push(existing);
             break;
           }
         }
@@ -3447,7 +5029,7 @@ export class PaymentsModule {
     // Archive the token (for recovery purposes)
     await this.archiveToken(token);
 
-    await this.save();
+    await this.saveTokenChanges([token], replaced);
 
     logger.debug('Payments', `Added token ${token.id}, total: ${this.tokens.size}`);
     return true;
@@ -3467,7 +5049,7 @@ export class PaymentsModule {
     this.ensureInitialized();
 
     const incomingTokenId = extractTokenIdFromSdkData(token.sdkData);
-    let found = false;
+    let replaced: Token | null = null;
 
     // Find by genesis tokenId first
     for (const [id, existing] of this.tokens) {
@@ -3476,12 +5058,12 @@ export class PaymentsModule {
           existing.id === token.id) {
         this.tokens.delete(id);
         this.tokens.set(token.id, token);
-        found = true;
+        replaced = existing;
         break;
       }
     }
 
-    if (!found) {
+    if (!replaced) {
       await this.addToken(token);
       return;
     }
@@ -3489,7 +5071,7 @@ export class PaymentsModule {
     // Archive the updated token
     await this.archiveToken(token);
 
-    await this.save();
+    await this.saveTokenChanges([token], [replaced]);
     logger.debug('Payments', `Updated token ${token.id}`);
   }
 
@@ -3530,7 +5112,7 @@ export class PaymentsModule {
     // Remove from active tokens
     this.tokens.delete(tokenId);
 
-    await this.save();
+    await this.saveTokenChanges([], [token], true);
   }
 
 
@@ -3770,6 +5352,55 @@ export class PaymentsModule {
     return addedCount;
   }
 
+  /**
+   * Make a forked version of a token the active one, e.g. to undo the
+   * choice of a merge policy reported by `sync:conflict`. The version it
+   * replaces is kept as a forked copy in turn.
+   *
+   * @param forkedId - Key from {@link getForkedTokens} (`{tokenId}_{stateHash}`).
+   * @returns The now active token.
+   */
+  async resolveConflict(forkedId: string): Promise<Token> {
+    this.ensureInitialized();
+    const forked = this.forkedTokens.get(forkedId);
+    if (!forked) {
+      throw new SphereError(`Forked token not found: ${forkedId}`, 'VALIDATION_ERROR');
+    }
+    const tokenId = forked.genesis.data.tokenId;
+    const stateHash = getCurrentStateHash(forked);
+    if (stateHash && this.isStateTombstoned(tokenId, stateHash)) {
+      throw new SphereError('Forked token version has been spent', 'VALIDATION_ERROR');
+    }
+
+    let current: Token | undefined;
+    for (const token of this.tokens.values()) {
+      if (extractTokenIdFromSdkData(token.sdkData) === tokenId) {
+        current = token;
+        break;
+      }
+    }
+    if (current && (current.status === 'transferring' || current.status === 'escrowed')) {
+      throw new SphereError(`Token is ${current.status}`, 'VALIDATION_ERROR');
+    }
+
+    this.forkedTokens.delete(forkedId);
+    if (current) {
+      this.tokens.delete(current.id);
+      const currentTxf = tokenToTxf(current);
+      const currentStateHash = currentTxf && getCurrentStateHash(currentTxf);
+      if (currentTxf && currentStateHash) {
+        this.forkedTokens.set(`${tokenId}_${currentStateHash}`, currentTxf);
+      }
+    }
+
+    const token = txfToToken(current?.id ?? tokenId, forked);
+    this.tokens.set(token.id, token);
+    this.applyEscrowLocks();
+    await this.save();
+    logger.debug('Payments', `Resolved conflict of ${tokenId.slice(0, 8)}... to state ${stateHash?.slice(0, 12)}...`);
+    return token;
+  }
+
   /**
    * Prune forked tokens to keep at most `maxCount` entries.
    *
@@ -3834,7 +5465,7 @@ export class PaymentsModule {
   async addToHistory(entry: Omit<TransactionHistoryEntry, 'id' | 'dedupKey'>): Promise<void> {
     this.ensureInitialized();
 
-    const dedupKey = computeHistoryDedupKey(entry.type, entry.tokenId, entry.transferId);
+    const dedupKey = computeHistoryDedupKey(entry.type, entry.tokenId, entry.transferId, entry.escrowId);
     const historyEntry: TransactionHistoryEntry = {
       id: crypto.randomUUID(),
       dedupKey,
@@ -3876,7 +5507,7 @@ export class PaymentsModule {
           // Ensure legacy entries have dedupKeys for import
           const records = legacyEntries.map(e => ({
             ...e,
-            dedupKey: e.dedupKey || computeHistoryDedupKey(e.type, e.tokenId, e.transferId),
+            dedupKey: e.dedupKey || computeHistoryDedupKey(e.type, e.tokenId, e.transferId, e.escrowId),
           }));
           const imported = await provider.importHistoryEntries?.(records) ?? 0;
           if (imported > 0) {
@@ -3911,7 +5542,8 @@ export class PaymentsModule {
   private async importRemoteHistoryEntries(entries: HistoryRecord[]): Promise<number> {
     if (entries.length === 0) return 0;
 
-    const provider = this.getLocalTokenStorageProvider();
+    // Watch-only wallets keep imported history in memory: the local provider holds the watched wallet's data
+    const provider = this.deps!.watchOnly ? null : this.getLocalTokenStorageProvider();
     if (provider?.importHistoryEntries) {
       const imported = await provider.importHistoryEntries(entries);
       if (imported > 0) {
@@ -4042,6 +5674,7 @@ export class PaymentsModule {
    */
   async mintNametag(nametag: string): Promise<MintNametagResult> {
     this.ensureInitialized();
+    this.ensureCanSign();
 
     // Get state transition client and trust base
     const stClient = this.deps!.oracle.getStateTransitionClient?.();
@@ -4153,11 +5786,16 @@ export class PaymentsModule {
    *
    * For each provider, the local data is packaged into TXF storage format, sent
    * to the provider's `sync()` method, and the merged result is applied locally.
-   * Emits `sync:started`, `sync:completed`, and `sync:error` events.
+   * Emits `sync:started`, `sync:completed`, and `sync:error` events, and
+   * `sync:conflict` with a report per token a provider had a different
+   * version of.
    *
+   * @param options.mergePolicy - Which version of a conflicting token stays
+   *   active (default: the provider's policy, else local). Ignored when joining
+   *   a sync already in progress.
    * @returns Summary with counts of tokens added and removed during sync.
    */
-  async sync(): Promise<{ added: number; removed: number }> {
+  async sync(options?: { mergePolicy?: MergePolicy }): Promise<{ added: number; removed: number }> {
     this.ensureInitialized();
 
     // Sync coalescing: if a sync is already in progress, return its promise.
@@ -4167,7 +5805,7 @@ export class PaymentsModule {
       return this._syncInProgress;
     }
 
-    this._syncInProgress = this._doSync();
+    this._syncInProgress = this._doSync(options?.mergePolicy);
     try {
       return await this._syncInProgress;
     } finally {
@@ -4175,10 +5813,14 @@ export class PaymentsModule {
     }
   }
 
-  private async _doSync(): Promise<{ added: number; removed: number }> {
+  private async _doSync(mergePolicy?: MergePolicy): Promise<{ added: number; removed: number }> {
     this.deps!.emitEvent('sync:started', { source: 'payments' });
 
     try {
+      if (this.deps!.watchOnly) {
+        return await this.syncWatchOnly();
+      }
+
       // Get all token storage providers
       const providers = this.getTokenStorageProviders();
 
@@ -4197,6 +5839,7 @@ export class PaymentsModule {
 
       let totalAdded = 0;
       let totalRemoved = 0;
+      let totalConflicts = 0;
 
       // Preserve nametags — sync providers may not include _nametags in merged data
       const savedNametags = [...this.nametags];
@@ -4204,7 +5847,7 @@ export class PaymentsModule {
       // Sync with each provider
       for (const [providerId, provider] of providers) {
         try {
-          const result = await provider.sync(localData);
+          const result = await provider.sync(localData, mergePolicy ? { mergePolicy } : undefined);
 
           if (result.success && result.merged) {
             // Address guard: reject data from a different address.
@@ -4277,6 +5920,11 @@ export class PaymentsModule {
 
             totalAdded += result.added;
             totalRemoved += result.removed;
+
+            if (result.conflictReports?.length) {
+              totalConflicts += result.conflictReports.length;
+              this.deps!.emitEvent('sync:conflict', { providerId, conflicts: result.conflictReports });
+            }
           }
 
           this.deps!.emitEvent('sync:provider', {
@@ -4297,7 +5945,7 @@ export class PaymentsModule {
       }
 
       // Persist merged state to primary storage so it survives process restarts
-      if (totalAdded > 0 || totalRemoved > 0) {
+      if (totalAdded > 0 || totalRemoved > 0 || totalConflicts > 0) {
         await this.save();
       }
 
@@ -4316,6 +5964,66 @@ export class PaymentsModule {
     }
   }
 
+  /**
+   * Watch-only sync: read the watched address's token storage without writing
+   * to it, and report tokens not seen before as `transfer:incoming`. Watch-only
+   * wallets never receive over the transport, so this is how they learn about
+   * incoming tokens. The IDs already reported live under their own key.
+   */
+  private async syncWatchOnly(): Promise<{ added: number; removed: number }> {
+    const before = new Set(this.tokens.keys());
+    const known = this.watchKnownTokenIds ?? before;
+
+    for (const [providerId, provider] of this.getTokenStorageProviders()) {
+      try {
+        const result = await provider.load();
+        if (!result.success || !result.data) continue;
+
+        // Address guard: reject data from a different address
+        const loadedMeta = (result.data as TxfStorageDataBase)?._meta;
+        const currentL1 = this.deps!.identity.l1Address;
+        const currentChain = this.deps!.identity.chainPubkey;
+        if (loadedMeta?.address && currentL1 && loadedMeta.address !== currentL1 && loadedMeta.address !== currentChain) {
+          logger.warn('Payments', `Watch sync: rejecting data from provider ${providerId} — address mismatch (got=${loadedMeta.address.slice(0, 20)}... expected=${currentL1.slice(0, 20)}...)`);
+          continue;
+        }
+
+        this.loadFromStorageData(result.data);
+        const txfData = result.data as TxfStorageDataBase;
+        if (txfData._history && txfData._history.length > 0) {
+          await this.importRemoteHistoryEntries(txfData._history as HistoryRecord[]);
+        }
+        this.deps!.emitEvent('sync:provider', { providerId, success: true, added: 0, removed: 0 });
+        break;
+      } catch (providerError) {
+        logger.warn('Payments', `Watch sync failed for provider ${providerId}:`, providerError);
+        this.deps!.emitEvent('sync:provider', {
+          providerId,
+          success: false,
+          error: providerError instanceof Error ? providerError.message : String(providerError),
+        });
+      }
+    }
+
+    const received = Array.from(this.tokens.values()).filter((t) => !known.has(t.id));
+    if (received.length > 0) {
+      this.emitIncomingTransfer({
+        id: crypto.randomUUID(),
+        tokens: received,
+        receivedAt: Date.now(),
+        watchOnly: true,
+      });
+    }
+    this.watchKnownTokenIds = new Set(this.tokens.keys());
+    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.WATCH_KNOWN_TOKENS, JSON.stringify([...this.watchKnownTokenIds]));
+
+    this.deps!.emitEvent('sync:completed', { source: 'payments', count: this.tokens.size });
+    return {
+      added: Array.from(this.tokens.keys()).filter((id) => !before.has(id)).length,
+      removed: Array.from(before).filter((id) => !this.tokens.has(id)).length,
+    };
+  }
+
   // ===========================================================================
   // Storage Event Subscription (Push-Based Sync)
   // ===========================================================================
@@ -4523,7 +6231,8 @@ export class PaymentsModule {
   private async createSdkCommitment(
     token: Token,
     recipientAddress: IAddress,
-    signingService: SigningService
+    signingService: SigningService,
+    recipientDataHash: DataHash | null = null,
   ): Promise<TransferCommitment> {
     // Parse SDK token from stored data
     const tokenData = token.sdkData
@@ -4540,8 +6249,8 @@ export class PaymentsModule {
       sdkToken,
       recipientAddress,
       salt,
-      null, // recipientData
-      null, // recipientDataHash
+      recipientDataHash,
+      null, // message
       signingService
     );
 
@@ -4552,6 +6261,7 @@ export class PaymentsModule {
    * Create SigningService from identity private key
    */
   private async createSigningService(): Promise<SigningService> {
+    this.ensureCanSign();
     const privateKeyHex = this.deps!.identity.privateKey;
     const privateKeyBytes = new Uint8Array(
       privateKeyHex.match(/.{1,2}/g)!.map((byte) => parseInt(byte, 16))
@@ -4691,7 +6401,7 @@ export class PaymentsModule {
       const senderInfo = await this.resolveSenderInfo(transfer.senderTransportPubkey);
 
       // Emit event for incoming transfer (even though unconfirmed)
-      this.deps!.emitEvent('transfer:incoming', {
+      this.emitIncomingTransfer({
         id: transfer.id,
         senderPubkey: transfer.senderTransportPubkey,
         senderNametag: senderInfo.senderNametag,
@@ -4728,7 +6438,8 @@ export class PaymentsModule {
     transferTx: TransferTransaction,
     stClient: StateTransitionClient,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    trustBase: any
+    trustBase: any,
+    stateData: Uint8Array | null = null,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   ): Promise<SdkToken<any>> {
     const recipientAddress = transferTx.data.recipient;
@@ -4743,7 +6454,8 @@ export class PaymentsModule {
       HashAlgorithm.SHA256,
       transferSalt
     );
-    const recipientState = new TokenState(recipientPredicate, null);
+    // State data must match the transfer's recipientDataHash, if any (escrow preimage)
+    const recipientState = new TokenState(recipientPredicate, stateData);
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let nametagTokens: SdkToken<any>[] = [];
@@ -4883,6 +6595,16 @@ export class PaymentsModule {
       const payload = transfer.payload as unknown as Record<string, unknown>;
       logger.debug('Payments', 'handleIncomingTransfer: keys=', Object.keys(payload).join(','));
 
+      // Escrow protocol messages (offer / claimed / refunded)
+      if (isEscrowPayload(payload)) {
+        await this.handleEscrowPayload(payload, transfer.senderTransportPubkey);
+        return;
+      }
+      if (isSwapPayload(payload)) {
+        await this.handleSwapPayload(payload, transfer.senderTransportPubkey);
+        return;
+      }
+
       // Check for COMBINED_TRANSFER V6 bundle (single message containing all tokens)
       let combinedBundle: CombinedTransferBundleV6 | null = null;
       if (isCombinedTransferBundleV6(payload)) {
@@ -4903,6 +6625,7 @@ export class PaymentsModule {
         try {
           await this.processCombinedTransferBundle(combinedBundle, transfer.senderTransportPubkey);
           logger.debug('Payments', 'COMBINED_TRANSFER V6 processed successfully');
+          this.acknowledgeTransfer(transfer.senderTransportPubkey, combinedBundle.transferId);
         } catch (err) {
           logger.error('Payments', 'COMBINED_TRANSFER V6 processing error:', err);
         }
@@ -5119,11 +6842,13 @@ export class PaymentsModule {
           receivedAt: transfer.timestamp,
         };
 
-        this.deps!.emitEvent('transfer:incoming', incomingTransfer);
+        this.emitIncomingTransfer(incomingTransfer);
         logger.debug('Payments', `Incoming transfer processed: ${token.id}, ${token.amount} ${token.symbol}`);
       } else {
         logger.debug('Payments', `Duplicate transfer ignored: ${token.id}, ${token.amount} ${token.symbol}`);
       }
+      // Conservative transfers carry the sender's transfer ID in each payload
+      this.acknowledgeTransfer(transfer.senderTransportPubkey, payload.transferId);
     } catch (error) {
       logger.error('Payments', 'Failed to process incoming transfer:', error);
     }
@@ -5193,23 +6918,312 @@ export class PaymentsModule {
     await this.savePendingV5Tokens();
   }
 
+  /**
+   * Persist only what changed for the given tokens: their TXF entries and
+   * archived copies, the entries of tokens they replaced or that were
+   * removed, and (when `tombstonesChanged`) the tombstone list. Providers
+   * without applyChanges() receive a full snapshot via save() instead.
+   */
+  private async saveTokenChanges(changed: Token[], removed: Token[], tombstonesChanged = false): Promise<void> {
+    const upserted: Record<string, unknown> = {};
+    const genesisIds = new Set<string>();
+    for (const token of changed) {
+      const txf = tokenToTxf(token);
+      if (!txf) continue;
+      upserted[keyFromTokenId(txf.genesis.data.tokenId)] = txf;
+      genesisIds.add(txf.genesis.data.tokenId);
+    }
+
+    const removedKeys: string[] = [];
+    for (const token of removed) {
+      const genesisId = tokenToTxf(token)?.genesis.data.tokenId ?? extractTokenIdFromSdkData(token.sdkData);
+      if (!genesisId) continue;
+      genesisIds.add(genesisId);
+      // A newer state of the same token overwrites the entry instead
+      if (!(keyFromTokenId(genesisId) in upserted)) {
+        removedKeys.push(keyFromTokenId(genesisId));
+      }
+    }
+
+    for (const genesisId of genesisIds) {
+      const archived = this.archivedTokens.get(genesisId);
+      if (archived) {
+        upserted[archivedKeyFromTokenId(genesisId)] = archived;
+      }
+    }
+
+    const changes: TokenStorageChanges = {
+      upserted,
+      removed: removedKeys,
+      ...(tombstonesChanged ? { tombstones: this.tombstones } : {}),
+    };
+
+    const providers = this.getTokenStorageProviders();
+    let snapshot: TxfStorageDataBase | null = null;
+    for (const [id, provider] of providers) {
+      try {
+        if (provider.applyChanges) {
+          await provider.applyChanges(changes);
+        } else {
+          snapshot ??= await this.createStorageData();
+          await provider.save(snapshot);
+        }
+      } catch (err) {
+        logger.error('Payments', `Failed to save to provider ${id}:`, err);
+      }
+    }
+
+    await this.savePendingV5Tokens();
+  }
+
   private async saveToOutbox(transfer: TransferResult, recipient: string): Promise<void> {
-    const outbox = await this.loadOutbox();
-    outbox.push({ transfer, recipient, createdAt: Date.now() });
-    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.OUTBOX, JSON.stringify(outbox));
+    await this.updateOutbox((outbox) => [...outbox, { transfer, recipient, createdAt: Date.now() }]);
+  }
+
+  /** @returns Whether the entry was still in the outbox */
+  private async removeFromOutbox(transferId: string): Promise<boolean> {
+    let removed = false;
+    await this.updateOutbox((outbox) => {
+      const remaining = outbox.filter((e) => e.transfer.id !== transferId);
+      removed = remaining.length < outbox.length;
+      return removed ? remaining : null;
+    });
+    return removed;
   }
 
-  private async removeFromOutbox(transferId: string): Promise<void> {
-    const outbox = await this.loadOutbox();
-    const filtered = outbox.filter((e) => e.transfer.id !== transferId);
-    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.OUTBOX, JSON.stringify(filtered));
+  /**
+   * Read, change and write the outbox after the updates already queued, so
+   * sends, receipts and redeliveries running at the same time don't overwrite
+   * each other's changes. `update` returns the new entries, or null to leave
+   * the outbox as it is.
+   */
+  private updateOutbox(update: (outbox: TransferOutboxEntry[]) => TransferOutboxEntry[] | null): Promise<void> {
+    const run = this.outboxUpdates.then(async () => {
+      const updated = update(await this.loadOutbox());
+      if (updated) await this.saveOutbox(updated);
+    });
+    this.outboxUpdates = run.catch(() => {});
+    return run;
   }
 
-  private async loadOutbox(): Promise<Array<{ transfer: TransferResult; recipient: string; createdAt: number }>> {
+  private async loadOutbox(): Promise<TransferOutboxEntry[]> {
     const data = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.OUTBOX);
     return data ? JSON.parse(data) : [];
   }
 
+  private async saveOutbox(outbox: TransferOutboxEntry[]): Promise<void> {
+    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.OUTBOX, JSON.stringify(outbox));
+  }
+
+  // ===========================================================================
+  // Private: Delivery Receipts
+  // ===========================================================================
+
+  /**
+   * Keep a delivered transfer in the outbox until the recipient acknowledges
+   * it. Without redelivery (disabled, or no receipt support in the transport)
+   * the entry is removed right away.
+   */
+  private async awaitReceipt(
+    result: TransferResult,
+    payloads: TokenTransferPayload[],
+    recipientChainPubkey?: string,
+  ): Promise<void> {
+    const { redelivery } = this.moduleConfig;
+    if (!redelivery.enabled || !this.deps!.transport.onTransferReceipt) {
+      await this.removeFromOutbox(result.id);
+      return;
+    }
+
+    let pending = false;
+    await this.updateOutbox((outbox) => {
+      const entry = outbox.find((e) => e.transfer.id === result.id);
+      // Gone already: the receipt arrived (and was reported) while send() was finishing
+      if (!entry) return null;
+
+      pending = true;
+      result.delivered = false;
+      this.awaitingReceipt.set(result.id, result);
+      entry.transfer = { ...result, status: 'completed' };
+      entry.recipientChainPubkey = recipientChainPubkey;
+      entry.payloads = payloads;
+      entry.attempts = 1;
+      entry.nextAttemptAt = Date.now() + redelivery.initialDelayMs;
+      return outbox;
+    });
+    if (pending) await this.scheduleRedelivery();
+  }
+
+  /**
+   * Sender side: a receipt for a transfer in the outbox. Accepted if it comes
+   * from the transfer's recipient and is signed by the recipient's chain key.
+   */
+  private async handleTransferReceipt(incoming: IncomingTransferReceipt): Promise<void> {
+    if (!this.deps) return;
+    const { receipt } = incoming;
+
+    // Unknown or already acknowledged (receipts are replayed on reconnect)
+    const entry = (await this.loadOutbox()).find((e) => e.transfer.id === receipt.transferId);
+    if (!entry) return;
+
+    const message = transferReceiptMessage(receipt.transferId, receipt.recipientPubkey, receipt.receivedAt);
+    if (
+      !sameTransportPubkey(incoming.senderTransportPubkey, entry.recipient)
+      || (entry.recipientChainPubkey && entry.recipientChainPubkey !== receipt.recipientPubkey)
+      || !verifySignedMessage(message, receipt.signature, receipt.recipientPubkey)
+    ) {
+      logger.warn('Payments', `Rejected transfer receipt for ${receipt.transferId.slice(0, 8)}... from ${incoming.senderTransportPubkey.slice(0, 16)}`);
+      return;
+    }
+
+    // Another copy of the receipt got there first
+    if (!await this.removeFromOutbox(receipt.transferId)) return;
+    const result = this.awaitingReceipt.get(receipt.transferId) ?? entry.transfer;
+    this.awaitingReceipt.delete(receipt.transferId);
+    result.delivered = true;
+
+    logger.debug('Payments', `Transfer ${receipt.transferId.slice(0, 8)}... acknowledged by recipient`);
+    this.deps.emitEvent('transfer:delivered', result);
+  }
+
+  /**
+   * Send the receipts held back while the wallet was locked.
+   * Called by Sphere once the wallet is unlocked.
+   */
+  sendPendingReceipts(): void {
+    const pending = [...this.pendingReceipts];
+    this.pendingReceipts.clear();
+    for (const [transferId, senderTransportPubkey] of pending) {
+      this.acknowledgeTransfer(senderTransportPubkey, transferId);
+    }
+  }
+
+  /**
+   * Recipient side: send the sender a signed receipt for a processed transfer.
+   * Best effort — the sender redelivers until one arrives, and replays are
+   * acknowledged again. While the wallet is locked the receipt waits for
+   * sendPendingReceipts().
+   */
+  private acknowledgeTransfer(senderTransportPubkey: string, transferId: unknown): void {
+    const transport = this.deps!.transport;
+    if (typeof transferId !== 'string' || !transport.sendTransferReceipt) return;
+
+    try {
+      this.ensureCanSign();
+    } catch (err) {
+      if (isSphereError(err) && err.code === 'WALLET_LOCKED') {
+        this.pendingReceipts.set(transferId, senderTransportPubkey);
+        logger.debug('Payments', `Wallet locked: receipt for transfer ${transferId.slice(0, 8)}... queued`);
+      } else {
+        logger.debug('Payments', `Cannot sign receipt for transfer ${transferId.slice(0, 8)}...`);
+      }
+      return;
+    }
+
+    const { chainPubkey, privateKey } = this.deps!.identity;
+    const receivedAt = Date.now();
+    const receipt: TransferReceiptPayload = {
+      type: 'TRANSFER_RECEIPT',
+      version: '1.0',
+      transferId,
+      recipientPubkey: chainPubkey,
+      receivedAt,
+      signature: signMessage(privateKey, transferReceiptMessage(transferId, chainPubkey, receivedAt)),
+    };
+    transport.sendTransferReceipt(senderTransportPubkey, receipt).catch((err) =>
+      logger.debug('Payments', 'Failed to send transfer receipt:', err)
+    );
+  }
+
+  /**
+   * Arm the redelivery timer for the earliest outbox entry awaiting a receipt
+   */
+  private async scheduleRedelivery(): Promise<void> {
+    const deps = this.deps;
+    if (!deps || !this.moduleConfig.redelivery.enabled) return;
+
+    const due = (await this.loadOutbox())
+      .map((e) => e.payloads ? e.nextAttemptAt : undefined)
+      .filter((t): t is number => t !== undefined);
+
+    // Address switched or destroyed meanwhile
+    if (this.deps !== deps) return;
+
+    this.stopRedelivery();
+    if (due.length === 0) return;
+
+    this.redeliveryTimer = setTimeout(() => {
+      this.redeliveryTimer = null;
+      this.redeliver().catch((err) => logger.debug('Payments', 'Redelivery failed:', err));
+    }, Math.max(0, Math.min(...due) - Date.now()));
+  }
+
+  private stopRedelivery(): void {
+    if (this.redeliveryTimer) {
+      clearTimeout(this.redeliveryTimer);
+      this.redeliveryTimer = null;
+    }
+  }
+
+  /**
+   * Resend due transfers with exponential backoff; give up on those that used
+   * all attempts (`transfer:undelivered`)
+   */
+  private async redeliver(): Promise<void> {
+    const deps = this.deps!;
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.moduleConfig.redelivery;
+    const now = Date.now();
+
+    const updated = new Map<string, TransferOutboxEntry>();
+    const undelivered: TransferOutboxEntry[] = [];
+    for (const entry of await this.loadOutbox()) {
+      if (!entry.payloads || entry.nextAttemptAt === undefined || entry.nextAttemptAt > now) continue;
+
+      const attempts = entry.attempts ?? 1;
+      if (attempts >= maxAttempts) {
+        undelivered.push(entry);
+        continue;
+      }
+
+      logger.debug('Payments', `Redelivering transfer ${entry.transfer.id.slice(0, 8)}... (attempt ${attempts + 1}/${maxAttempts})`);
+      try {
+        for (const payload of entry.payloads) {
+          await deps.transport.sendTokenTransfer(entry.recipient, payload);
+        }
+      } catch (err) {
+        logger.debug('Payments', `Redelivery of ${entry.transfer.id.slice(0, 8)}... failed:`, err);
+      }
+      updated.set(entry.transfer.id, {
+        ...entry,
+        attempts: attempts + 1,
+        nextAttemptAt: now + Math.min(initialDelayMs * 2 ** attempts, maxDelayMs),
+      });
+    }
+
+    // Address switched or destroyed while sending
+    if (this.deps !== deps) return;
+
+    // Re-read: receipts may have removed entries while we were sending
+    const given = new Set(undelivered.map((e) => e.transfer.id));
+    let givenUp: TransferOutboxEntry[] = [];
+    await this.updateOutbox((outbox) => {
+      givenUp = outbox.filter((e) => given.has(e.transfer.id));
+      return outbox
+        .filter((e) => !given.has(e.transfer.id))
+        .map((e) => updated.get(e.transfer.id) ?? e);
+    });
+
+    for (const entry of givenUp) {
+      const result = this.awaitingReceipt.get(entry.transfer.id) ?? entry.transfer;
+      this.awaitingReceipt.delete(entry.transfer.id);
+      result.delivered = false;
+      logger.warn('Payments', `Transfer ${entry.transfer.id.slice(0, 8)}... not acknowledged after ${maxAttempts} deliveries`);
+      deps.emitEvent('transfer:undelivered', result);
+    }
+
+    await this.scheduleRedelivery();
+  }
+
   private async createStorageData(): Promise<TxfStorageDataBase> {
     const sorted = [...this._historyCache].sort((a, b) => b.timestamp - a.timestamp);
     return await buildTxfStorageData(
@@ -5256,6 +7270,9 @@ export class PaymentsModule {
     this.archivedTokens = parsed.archivedTokens;
     this.forkedTokens = parsed.forkedTokens;
     this.nametags = parsed.nametags;
+
+    // Token status is not part of TXF — re-mark tokens locked in open escrows
+    this.applyEscrowLocks();
   }
 
   // ===========================================================================
@@ -5446,6 +7463,13 @@ export class PaymentsModule {
       throw new SphereError('PaymentsModule not initialized', 'NOT_INITIALIZED');
     }
   }
+
+  private ensureCanSign(): void {
+    if (this.deps?.watchOnly) {
+      throw new SphereError('Watch-only wallet cannot sign', 'WATCH_ONLY');
+    }
+    this.deps?.ensureUnlocked?.();
+  }
 }
 
 // =============================================================================
@@ -36,6 +36,18 @@ export interface SplitPlan {
   requiresSplit: boolean;
 }
 
+export interface BatchSplitOutput {
+  amount: bigint;
+  coinId: string;
+}
+
+export interface BatchSplitPlan {
+  /** One plan per output, in input order; no token appears in two plans */
+  plans: SplitPlan[];
+  /** Number of outputs that require a split */
+  splitCount: number;
+}
+
 // =============================================================================
 // Implementation
 // =============================================================================
@@ -54,6 +66,71 @@ export class TokenSplitCalculator {
     targetAmount: bigint,
     targetCoinIdHex: string
   ): Promise<SplitPlan | null> {
+    const candidates = await this.buildCandidates(availableTokens, targetCoinIdHex);
+    return this.planFromCandidates(candidates, targetAmount, targetCoinIdHex);
+  }
+
+  /**
+   * Calculate one split plan per output, drawing from a shared token pool.
+   *
+   * Each token is used by at most one output, so the resulting plans can be
+   * executed in parallel. Strategy:
+   * 1. Give every output that has an exact single-token match that token
+   * 2. Plan the remaining outputs, largest first, with the single-output
+   *    strategy on whatever is left in the pool
+   *
+   * @returns null if the pool cannot cover all outputs
+   */
+  async calculateBatchSplit(
+    availableTokens: Token[],
+    outputs: BatchSplitOutput[]
+  ): Promise<BatchSplitPlan | null> {
+    const pools = new Map<string, TokenWithAmount[]>();
+    for (const coinId of new Set(outputs.map((o) => o.coinId))) {
+      pools.set(coinId, await this.buildCandidates(availableTokens, coinId));
+    }
+
+    const plans: Array<SplitPlan | null> = outputs.map(() => null);
+
+    // Pass 1: exact single-token matches
+    outputs.forEach((output, i) => {
+      const pool = pools.get(output.coinId)!;
+      const idx = pool.findIndex((t) => t.amount === output.amount);
+      if (idx >= 0) {
+        plans[i] = this.createDirectPlan(pool.splice(idx, 1), output.amount, output.coinId);
+      }
+    });
+
+    // Pass 2: everything else, largest output first
+    const remaining = outputs
+      .map((output, i) => ({ output, i }))
+      .filter(({ i }) => plans[i] === null)
+      .sort((a, b) => (a.output.amount > b.output.amount ? -1 : a.output.amount < b.output.amount ? 1 : 0));
+
+    for (const { output, i } of remaining) {
+      const pool = pools.get(output.coinId)!;
+      const plan = this.planFromCandidates(pool, output.amount, output.coinId);
+      if (!plan) return null;
+
+      const used = new Set(plan.tokensToTransferDirectly.map((t) => t.uiToken.id));
+      if (plan.tokenToSplit) used.add(plan.tokenToSplit.uiToken.id);
+      pools.set(output.coinId, pool.filter((t) => !used.has(t.uiToken.id)));
+      plans[i] = plan;
+    }
+
+    return {
+      plans: plans as SplitPlan[],
+      splitCount: plans.filter((p) => p!.requiresSplit).length,
+    };
+  }
+
+  /**
+   * Parse confirmed tokens of a coin into candidates, sorted by amount (ascending)
+   */
+  private async buildCandidates(
+    availableTokens: Token[],
+    targetCoinIdHex: string
+  ): Promise<TokenWithAmount[]> {
     const candidates: TokenWithAmount[] = [];
 
     // Build candidate list from available tokens
@@ -85,6 +162,17 @@ export class TokenSplitCalculator {
     // Sort by amount (ascending) for greedy algorithm
     candidates.sort((a, b) => (a.amount < b.amount ? -1 : 1));
 
+    return candidates;
+  }
+
+  /**
+   * Plan a single output from sorted candidates
+   */
+  private planFromCandidates(
+    candidates: TokenWithAmount[],
+    targetAmount: bigint,
+    targetCoinIdHex: string
+  ): SplitPlan | null {
     // Check total available
     const totalAvailable = candidates.reduce((sum, t) => sum + t.amount, 0n);
     if (totalAvailable < targetAmount) {
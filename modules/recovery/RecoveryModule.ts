@@ -0,0 +1,636 @@
+/**
+ * Social Recovery Module
+ *
+ * Owner side: the wallet mnemonic is split into threshold shares (see
+ * core/shamir.ts) and each share is deposited with a guardian, identified
+ * by nametag, over NIP-17 direct messages.
+ *
+ * Guardian side: deposited shares are stored per owner. When a new device
+ * asks for a share (see RecoverySession), the request waits for the
+ * guardian's approval; approved shares are NIP-44 encrypted to the
+ * requester's ephemeral key.
+ */
+
+import { NIP44, normalizeNametag } from '@unicitylabs/nostr-js-sdk';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { TokenType } from '@unicitylabs/state-transition-sdk/lib/token/TokenType';
+import { UnmaskedPredicateReference } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicateReference';
+import { logger } from '../../core/logger';
+import { SphereError } from '../../core/errors';
+import { getPublicKey, randomBytes } from '../../core/crypto';
+import { parseMnemonicShare, splitMnemonic } from '../../core/shamir';
+import { STORAGE_KEYS_ADDRESS } from '../../constants';
+import type {
+  IncomingRecoveryMessage,
+  RecoveryPayload,
+  RecoveryRequestPayload,
+  RecoveryShareDepositPayload,
+  TransportProvider,
+} from '../../transport';
+import type {
+  GuardianSetup,
+  HeldRecoveryShare,
+  RecoveryModuleDependencies,
+  RecoveryRequest,
+  RecoveryRequestStatus,
+  SetupGuardiansRequest,
+} from './types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** setTimeout delays above this overflow and fire immediately */
+const MAX_TIMER_DELAY = 2_147_483_647;
+
+/** Strip @ prefix and normalize a nametag */
+export function cleanGuardianNametag(raw: string): string {
+  return normalizeNametag(raw.trim().replace(/^@/, ''));
+}
+
+/** Nostr pubkeys are x-only; drop the 02/03 prefix of compressed keys */
+export function toXOnlyPubkey(pubkey: string): string {
+  return pubkey.length === 66 ? pubkey.slice(2) : pubkey;
+}
+
+export async function sendRecoveryPayload(
+  transport: TransportProvider,
+  recipientTransportPubkey: string,
+  payload: RecoveryPayload,
+): Promise<string> {
+  if (!transport.sendRecoveryMessage) {
+    throw new SphereError('Transport provider does not support social recovery', 'TRANSPORT_ERROR');
+  }
+  return transport.sendRecoveryMessage(recipientTransportPubkey, payload);
+}
+
+/** Token type for Unicity network (used for L3 predicate address derivation) */
+const UNICITY_TOKEN_TYPE_HEX = 'f8aa13834268d29355ff12183066f0cb902003629bbc5eb9ef0efbe397867509';
+
+/** DIRECT address of a compressed chain pubkey */
+async function directAddressOf(chainPubkey: string): Promise<string> {
+  const tokenType = new TokenType(Buffer.from(UNICITY_TOKEN_TYPE_HEX, 'hex'));
+  const ref = await UnmaskedPredicateReference.create(
+    tokenType,
+    'secp256k1',
+    Buffer.from(chainPubkey, 'hex'),
+    HashAlgorithm.SHA256,
+  );
+  return (await ref.toAddress()).toString();
+}
+
+/** Held share as stored: NIP-44 encrypted to the wallet's own key with a one-off sender key */
+interface SealedHeldShare {
+  ephemeralPubkey: string;
+  ciphertext: string;
+}
+
+function withoutShare(held: HeldRecoveryShare): HeldRecoveryShare {
+  const { share: _share, ...rest } = held;
+  return { ...rest, owner: { ...held.owner } };
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export class RecoveryModule {
+  private deps: RecoveryModuleDependencies | null = null;
+
+  private setup: GuardianSetup | null = null;
+  private heldShares: HeldRecoveryShare[] = [];
+  /** Sealed shares that could not be decrypted on load; kept as stored so a save does not drop them */
+  private unreadableShares: SealedHeldShare[] = [];
+  private requests: Map<string, RecoveryRequest> = new Map();
+  private expiryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  /** Resolves once load() has read storage; messages are handled after it */
+  private loaded: Promise<void> = Promise.resolve();
+  private markLoaded: () => void = () => {};
+  private unsubscribeTransport: (() => void) | null = null;
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Initialize module with dependencies
+   */
+  initialize(deps: RecoveryModuleDependencies): void {
+    this.destroy();
+    this.deps = deps;
+    this.loaded = new Promise((resolve) => {
+      this.markLoaded = resolve;
+    });
+    this.unsubscribeTransport = deps.transport.onRecoveryMessage?.((message) => {
+      this.loaded
+        .then(() => this.handleMessage(message))
+        .catch((err) => {
+          logger.warn('Recovery', `Failed to handle ${message.payload.type} message:`, err);
+        });
+    }) ?? null;
+  }
+
+  /**
+   * Load guardians, held shares and recovery requests from storage
+   */
+  async load(): Promise<void> {
+    this.ensureInitialized();
+    await this.loadFromStorage();
+    for (const request of this.requests.values()) {
+      if (request.status === 'pending') this.scheduleExpiry(request);
+    }
+    this.markLoaded();
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.unsubscribeTransport?.();
+    this.unsubscribeTransport = null;
+    for (const timer of this.expiryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.expiryTimers.clear();
+  }
+
+  // ===========================================================================
+  // Public API - Owner
+  // ===========================================================================
+
+  /**
+   * Split the wallet mnemonic and deposit one share with each guardian.
+   * Any previous guardians are asked to discard their shares.
+   */
+  async setupGuardians(request: SetupGuardiansRequest): Promise<GuardianSetup> {
+    this.ensureInitialized();
+    const { identity, transport, watchOnly } = this.deps!;
+    if (watchOnly) {
+      throw new SphereError('Watch-only wallet cannot set up guardians', 'WATCH_ONLY');
+    }
+    this.deps!.ensureUnlocked?.();
+    const mnemonic = this.deps!.getMnemonic();
+    if (!mnemonic) {
+      throw new SphereError('Social recovery requires a wallet created from a mnemonic', 'VALIDATION_ERROR');
+    }
+    if (!transport.resolveNametag) {
+      throw new SphereError('Transport provider does not support resolution', 'TRANSPORT_ERROR');
+    }
+
+    const nametags = (request.guardians ?? []).map(cleanGuardianNametag);
+    if (nametags.length === 0) {
+      throw new SphereError('At least one guardian is required', 'VALIDATION_ERROR');
+    }
+    if (new Set(nametags).size !== nametags.length) {
+      throw new SphereError('Guardians must be distinct', 'VALIDATION_ERROR');
+    }
+    if (identity.nametag && nametags.includes(cleanGuardianNametag(identity.nametag))) {
+      throw new SphereError('Wallet cannot be its own guardian', 'VALIDATION_ERROR');
+    }
+
+    // A new group ID keeps revoking the previous setup from hitting the new shares
+    let shares: string[];
+    let groupId: number;
+    do {
+      shares = splitMnemonic(mnemonic, { threshold: request.threshold, shares: nametags.length });
+      groupId = parseMnemonicShare(shares[0]).groupId;
+    } while (groupId === this.setup?.groupId);
+
+    const pubkeys = await Promise.all(nametags.map((nametag) => transport.resolveNametag!(nametag)));
+    const missing = nametags.filter((_, i) => !pubkeys[i]);
+    if (missing.length > 0) {
+      throw new SphereError(`Guardian not found: ${missing.map((n) => `@${n}`).join(', ')}`, 'VALIDATION_ERROR');
+    }
+
+    // Set before sending so that acknowledgements arriving early find it
+    const previous = this.setup;
+    this.setup = {
+      groupId,
+      threshold: request.threshold,
+      guardians: nametags.map((nametag, i) => ({
+        nametag,
+        transportPubkey: toXOnlyPubkey(pubkeys[i]!),
+        shareIndex: i + 1,
+      })),
+      createdAt: Date.now(),
+    };
+    const owner: RecoveryShareDepositPayload['owner'] = {
+      nametag: identity.nametag,
+      chainPubkey: identity.chainPubkey,
+      directAddress: identity.directAddress,
+    };
+    try {
+      await Promise.all(nametags.map((_, i) => sendRecoveryPayload(transport, pubkeys[i]!, {
+        type: 'RECOVERY_SHARE_DEPOSIT',
+        version: '1.0',
+        groupId,
+        share: shares[i],
+        owner,
+      })));
+    } catch (err) {
+      this.setup = previous;
+      throw err;
+    }
+    await this.saveSetup();
+    if (previous) await this.revoke(previous);
+
+    logger.debug('Recovery', `Deposited ${request.threshold}-of-${nametags.length} shares (group ${groupId})`);
+    return this.getGuardians()!;
+  }
+
+  /** Current guardians, or null if social recovery is not set up */
+  getGuardians(): GuardianSetup | null {
+    if (!this.setup) return null;
+    return { ...this.setup, guardians: this.setup.guardians.map((g) => ({ ...g })) };
+  }
+
+  /** Ask the guardians to discard their shares and forget them */
+  async removeGuardians(): Promise<void> {
+    this.ensureInitialized();
+    const previous = this.setup;
+    if (!previous) return;
+    this.setup = null;
+    await this.saveSetup();
+    await this.revoke(previous);
+  }
+
+  // ===========================================================================
+  // Public API - Guardian
+  // ===========================================================================
+
+  /** Shares held for other wallets (share contents are not included) */
+  getHeldShares(): HeldRecoveryShare[] {
+    return this.heldShares.map(withoutShare);
+  }
+
+  /** Recovery requests received as a guardian, newest first */
+  getRecoveryRequests(filter?: { status?: RecoveryRequestStatus }): RecoveryRequest[] {
+    return Array.from(this.requests.values())
+      .filter((request) => !filter?.status || request.status === filter.status)
+      .sort((a, b) => b.receivedAt - a.receivedAt)
+      .map((request) => ({ ...request }));
+  }
+
+  /**
+   * Release the share held for the request's owner, encrypted to the
+   * requester's ephemeral key. Only approve after confirming out of band
+   * that the request really comes from the owner.
+   */
+  async approveRecoveryRequest(requestId: string): Promise<RecoveryRequest> {
+    const request = this.getPending(requestId);
+    this.deps!.ensureUnlocked?.();
+    const held = this.findShare(request.owner);
+    if (!held?.share) {
+      throw new SphereError(`No share held for ${request.owner}`, 'VALIDATION_ERROR');
+    }
+
+    const encryptedShare = NIP44.encryptHex(held.share, this.deps!.identity.privateKey, request.ephemeralPubkey);
+    await sendRecoveryPayload(this.deps!.transport, request.requesterTransportPubkey, {
+      type: 'RECOVERY_RESPONSE',
+      version: '1.0',
+      requestId,
+      approved: true,
+      encryptedShare,
+    });
+    return this.settle(request, 'approved');
+  }
+
+  /** Refuse a recovery request; the requester is told, with the optional reason */
+  async declineRecoveryRequest(requestId: string, reason?: string): Promise<RecoveryRequest> {
+    const request = this.getPending(requestId);
+    await sendRecoveryPayload(this.deps!.transport, request.requesterTransportPubkey, {
+      type: 'RECOVERY_RESPONSE',
+      version: '1.0',
+      requestId,
+      approved: false,
+      reason,
+    });
+    return this.settle(request, 'declined');
+  }
+
+  // ===========================================================================
+  // Private: Messages
+  // ===========================================================================
+
+  private async handleMessage(message: IncomingRecoveryMessage): Promise<void> {
+    const { payload } = message;
+    const sender = toXOnlyPubkey(message.senderTransportPubkey);
+    switch (payload.type) {
+      case 'RECOVERY_SHARE_DEPOSIT':
+        return this.handleDeposit(sender, payload, message.timestamp);
+      case 'RECOVERY_SHARE_ACK': {
+        const guardian = this.setup?.groupId === payload.groupId
+          ? this.setup.guardians.find((g) => g.transportPubkey === sender)
+          : undefined;
+        if (!guardian || guardian.confirmedAt) return;
+        guardian.confirmedAt = Date.now();
+        await this.saveSetup();
+        this.deps!.emitEvent('recovery:guardian_confirmed', { groupId: payload.groupId, nametag: guardian.nametag });
+        return;
+      }
+      case 'RECOVERY_SHARE_REVOKE': {
+        const revoked = this.heldShares.filter(
+          (held) => held.groupId === payload.groupId && held.ownerTransportPubkey === sender,
+        );
+        if (revoked.length === 0) return;
+        this.heldShares = this.heldShares.filter((held) => !revoked.includes(held));
+        await this.saveHeldShares();
+        this.deps!.emitEvent('recovery:share_revoked', withoutShare(revoked[0]));
+        return;
+      }
+      case 'RECOVERY_REQUEST':
+        return this.handleRequest(sender, payload);
+      case 'RECOVERY_RESPONSE':
+        // Responses go to the requester's RecoverySession
+        return;
+    }
+  }
+
+  private async handleDeposit(sender: string, payload: RecoveryShareDepositPayload, timestamp: number): Promise<void> {
+    let info;
+    try {
+      info = parseMnemonicShare(payload.share);
+    } catch (err) {
+      logger.warn('Recovery', `Ignoring invalid share deposit from ${sender.slice(0, 16)}:`, err);
+      return;
+    }
+    if (info.groupId !== payload.groupId || !payload.owner?.chainPubkey) {
+      logger.warn('Recovery', `Ignoring malformed share deposit from ${sender.slice(0, 16)}`);
+      return;
+    }
+    const owner = await this.verifyOwner(sender, payload.owner);
+    if (!owner) return;
+
+    const held: HeldRecoveryShare = {
+      groupId: info.groupId,
+      shareIndex: info.index,
+      threshold: info.threshold,
+      count: info.count,
+      ownerTransportPubkey: sender,
+      owner,
+      receivedAt: timestamp || Date.now(),
+      share: payload.share,
+    };
+    // One share per owner: a new deposit replaces the previous setup's share
+    this.heldShares = this.heldShares.filter((h) => h.ownerTransportPubkey !== sender);
+    this.heldShares.push(held);
+    await this.saveHeldShares();
+
+    this.deps!.emitEvent('recovery:share_stored', withoutShare(held));
+    sendRecoveryPayload(this.deps!.transport, sender, {
+      type: 'RECOVERY_SHARE_ACK',
+      version: '1.0',
+      groupId: held.groupId,
+    }).catch((err) => {
+      logger.warn('Recovery', 'Failed to acknowledge share deposit:', err);
+    });
+  }
+
+  /**
+   * The owner a depositor claims to be, checked against the sender: the chain
+   * pubkey must be the sender's key, the DIRECT address is derived from it and
+   * the nametag must resolve to the sender. Returns null for a forged claim.
+   */
+  private async verifyOwner(
+    sender: string,
+    claimed: RecoveryShareDepositPayload['owner'],
+  ): Promise<HeldRecoveryShare['owner'] | null> {
+    const reject = (reason: string) => {
+      logger.warn('Recovery', `Ignoring share deposit from ${sender.slice(0, 16)}: ${reason}`);
+      return null;
+    };
+    const chainPubkey = claimed.chainPubkey.toLowerCase();
+    if (!/^0[23][0-9a-f]{64}$/.test(chainPubkey) || chainPubkey.slice(2) !== sender.toLowerCase()) {
+      return reject('chain pubkey is not the sender\'s');
+    }
+    let directAddress: string;
+    try {
+      directAddress = await directAddressOf(chainPubkey);
+    } catch {
+      return reject('invalid chain pubkey');
+    }
+    if (claimed.directAddress && claimed.directAddress !== directAddress) {
+      return reject('DIRECT address does not match the chain pubkey');
+    }
+
+    let nametag: string | undefined;
+    if (claimed.nametag) {
+      try {
+        nametag = cleanGuardianNametag(claimed.nametag);
+      } catch {
+        return reject('invalid nametag');
+      }
+      const resolved = await this.deps!.transport.resolveNametag?.(nametag).catch(() => null);
+      if (!resolved) {
+        // Unregistered or unreachable: keep the share, reachable by key or address only
+        nametag = undefined;
+      } else if (toXOnlyPubkey(resolved).toLowerCase() !== sender.toLowerCase()) {
+        return reject(`@${nametag} belongs to someone else`);
+      }
+    }
+    return { nametag, chainPubkey, directAddress };
+  }
+
+  private async handleRequest(sender: string, payload: RecoveryRequestPayload): Promise<void> {
+    if (this.requests.has(payload.requestId)) return;
+    if (!/^[0-9a-f]{64}$/i.test(payload.ephemeralPubkey ?? '') || !payload.owner) {
+      logger.warn('Recovery', `Ignoring malformed recovery request from ${sender.slice(0, 16)}`);
+      return;
+    }
+    if (payload.expiresAt <= Date.now()) return;
+
+    const request: RecoveryRequest = {
+      requestId: payload.requestId,
+      owner: payload.owner,
+      hasShare: !!this.findShare(payload.owner),
+      requesterTransportPubkey: sender,
+      ephemeralPubkey: payload.ephemeralPubkey.toLowerCase(),
+      message: payload.message,
+      status: 'pending',
+      receivedAt: Date.now(),
+      expiresAt: payload.expiresAt,
+    };
+    this.requests.set(request.requestId, request);
+    await this.saveRequests();
+    this.scheduleExpiry(request);
+    this.deps!.emitEvent('recovery:request_received', { ...request });
+  }
+
+  // ===========================================================================
+  // Private: Helpers
+  // ===========================================================================
+
+  /**
+   * Share whose owner matches a nametag, chain pubkey or DIRECT address.
+   * Undefined when the matches belong to more than one depositor.
+   */
+  private findShare(owner: string): HeldRecoveryShare | undefined {
+    let nametag: string | null = null;
+    try {
+      nametag = cleanGuardianNametag(owner);
+    } catch {
+      // Not a nametag
+    }
+    const matches = this.heldShares.filter((held) =>
+      held.owner.chainPubkey === owner.toLowerCase() ||
+      (!!held.owner.directAddress && held.owner.directAddress === owner) ||
+      (!!held.owner.nametag && held.owner.nametag === nametag));
+    if (new Set(matches.map((held) => held.ownerTransportPubkey)).size > 1) {
+      logger.warn('Recovery', `Shares of several owners match ${owner}; not choosing one`);
+      return undefined;
+    }
+    return matches[0];
+  }
+
+  private getPending(requestId: string): RecoveryRequest {
+    this.ensureInitialized();
+    const request = this.requests.get(requestId);
+    if (!request) {
+      throw new SphereError(`Recovery request not found: ${requestId}`, 'VALIDATION_ERROR');
+    }
+    if (request.status === 'pending' && request.expiresAt <= Date.now()) {
+      this.expire(request);
+    }
+    if (request.status !== 'pending') {
+      throw new SphereError(`Recovery request is ${request.status}`, 'VALIDATION_ERROR');
+    }
+    return request;
+  }
+
+  private async settle(request: RecoveryRequest, status: RecoveryRequestStatus): Promise<RecoveryRequest> {
+    request.status = status;
+    this.clearExpiry(request.requestId);
+    await this.saveRequests();
+    return { ...request };
+  }
+
+  private scheduleExpiry(request: RecoveryRequest): void {
+    this.clearExpiry(request.requestId);
+    const delay = Math.max(0, Math.min(request.expiresAt - Date.now(), MAX_TIMER_DELAY));
+    this.expiryTimers.set(request.requestId, setTimeout(() => {
+      this.expiryTimers.delete(request.requestId);
+      if (request.status !== 'pending') return;
+      if (request.expiresAt > Date.now()) {
+        this.scheduleExpiry(request);
+      } else {
+        this.expire(request);
+      }
+    }, delay));
+  }
+
+  private clearExpiry(requestId: string): void {
+    const timer = this.expiryTimers.get(requestId);
+    if (timer) clearTimeout(timer);
+    this.expiryTimers.delete(requestId);
+  }
+
+  private expire(request: RecoveryRequest): void {
+    request.status = 'expired';
+    this.clearExpiry(request.requestId);
+    this.saveRequests().catch((err) => {
+      logger.warn('Recovery', 'Failed to save recovery requests:', err);
+    });
+    this.deps?.emitEvent('recovery:request_expired', { ...request });
+  }
+
+  /** Best effort: guardians that miss the revoke keep a share of a retired group */
+  private async revoke(setup: GuardianSetup): Promise<void> {
+    const results = await Promise.allSettled(setup.guardians.map((guardian) =>
+      sendRecoveryPayload(this.deps!.transport, guardian.transportPubkey, {
+        type: 'RECOVERY_SHARE_REVOKE',
+        version: '1.0',
+        groupId: setup.groupId,
+      })));
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed > 0) {
+      logger.warn('Recovery', `Failed to revoke ${failed} share(s) of group ${setup.groupId}`);
+    }
+  }
+
+  // ===========================================================================
+  // Private: Storage
+  // ===========================================================================
+
+  private async loadFromStorage(): Promise<void> {
+    const { storage } = this.deps!;
+    const [setup, held, requests] = await Promise.all([
+      storage.get(STORAGE_KEYS_ADDRESS.RECOVERY_GUARDIANS),
+      storage.get(STORAGE_KEYS_ADDRESS.RECOVERY_HELD_SHARES),
+      storage.get(STORAGE_KEYS_ADDRESS.RECOVERY_REQUESTS),
+    ]);
+    this.setup = setup ? JSON.parse(setup) as GuardianSetup : null;
+    this.heldShares = [];
+    this.unreadableShares = [];
+    const sealed = held ? JSON.parse(held) as Array<SealedHeldShare | HeldRecoveryShare> : [];
+    for (const entry of sealed) {
+      if (!('ciphertext' in entry)) {
+        // Stored in plaintext by an earlier version; sealed on the next save
+        this.heldShares.push(entry);
+        continue;
+      }
+      try {
+        this.heldShares.push(this.unseal(entry));
+      } catch (err) {
+        logger.warn('Recovery', 'Failed to decrypt a held share:', err);
+        this.unreadableShares.push(entry);
+      }
+    }
+    this.requests.clear();
+    for (const request of requests ? JSON.parse(requests) as RecoveryRequest[] : []) {
+      this.requests.set(request.requestId, request);
+    }
+    if (sealed.some((entry) => !('ciphertext' in entry))) {
+      await this.saveHeldShares();
+    }
+  }
+
+  private async saveSetup(): Promise<void> {
+    const { storage } = this.deps!;
+    if (this.setup) {
+      await storage.set(STORAGE_KEYS_ADDRESS.RECOVERY_GUARDIANS, JSON.stringify(this.setup));
+    } else {
+      await storage.remove(STORAGE_KEYS_ADDRESS.RECOVERY_GUARDIANS);
+    }
+  }
+
+  /** Shares are always stored encrypted, also while the wallet is locked and without at-rest encryption */
+  private async saveHeldShares(): Promise<void> {
+    const sealed = [...this.heldShares.map((held) => this.seal(held)), ...this.unreadableShares];
+    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.RECOVERY_HELD_SHARES, JSON.stringify(sealed));
+  }
+
+  private seal(held: HeldRecoveryShare): SealedHeldShare {
+    const ephemeralKey = randomBytes(32);
+    return {
+      ephemeralPubkey: getPublicKey(ephemeralKey).slice(2),
+      ciphertext: NIP44.encryptHex(JSON.stringify(held), ephemeralKey, toXOnlyPubkey(this.deps!.identity.chainPubkey)),
+    };
+  }
+
+  private unseal(sealed: SealedHeldShare): HeldRecoveryShare {
+    const { privateKey } = this.deps!.identity;
+    if (!privateKey) {
+      throw new SphereError('Wallet key unavailable', 'WALLET_LOCKED');
+    }
+    return JSON.parse(NIP44.decryptHex(sealed.ciphertext, privateKey, sealed.ephemeralPubkey)) as HeldRecoveryShare;
+  }
+
+  private async saveRequests(): Promise<void> {
+    const requests = Array.from(this.requests.values());
+    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.RECOVERY_REQUESTS, JSON.stringify(requests));
+  }
+
+  private ensureInitialized(): void {
+    if (!this.deps) {
+      throw new SphereError('RecoveryModule not initialized', 'NOT_INITIALIZED');
+    }
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createRecoveryModule(): RecoveryModule {
+  return new RecoveryModule();
+}
@@ -0,0 +1,244 @@
+/**
+ * Recovery Session
+ *
+ * Requester side of social recovery, run on the new device before a wallet
+ * exists. The session takes on a throwaway key, asks each guardian for the
+ * owner's share and collects the approved shares, which arrive NIP-44
+ * encrypted to that key. Pass the result to Sphere.import({ shares }).
+ */
+
+import { NIP44 } from '@unicitylabs/nostr-js-sdk';
+import { logger } from '../../core/logger';
+import { SphereError } from '../../core/errors';
+import { getPublicKey, privateKeyToAddressInfo, randomBytes } from '../../core/crypto';
+import { combineMnemonicShares, parseMnemonicShare } from '../../core/shamir';
+import type { SphereEventMap } from '../../types';
+import type { IncomingRecoveryMessage } from '../../transport';
+import { cleanGuardianNametag, sendRecoveryPayload, toXOnlyPubkey } from './RecoveryModule';
+import type { RecoverySessionOptions } from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RecoverySessionEventType = 'recovery:share_received' | 'recovery:declined' | 'recovery:timeout';
+
+export type RecoverySessionEventHandler<T extends RecoverySessionEventType> = (data: SphereEventMap[T]) => void;
+
+const DEFAULT_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export class RecoverySession {
+  readonly requestId: string = crypto.randomUUID();
+
+  private readonly options: RecoverySessionOptions;
+  private readonly ephemeralKey: string = randomBytes(32);
+  private handlers: Map<RecoverySessionEventType, Set<(data: never) => void>> = new Map();
+
+  /** Resolved guardians by x-only transport pubkey */
+  private guardians: Map<string, string> = new Map();
+  private answered: Set<string> = new Set();
+  private shares: string[] = [];
+  private groupId: number | null = null;
+  private threshold: number | null = null;
+  private started = false;
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private settle: { resolve: (shares: string[]) => void; reject: (err: Error) => void } | null = null;
+
+  constructor(options: RecoverySessionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Send the recovery request to every guardian and wait for enough shares.
+   * Resolves with shares that combine to the owner's mnemonic; rejects with
+   * TIMEOUT when guardians do not answer in time, or VALIDATION_ERROR when
+   * too many decline.
+   */
+  async start(): Promise<string[]> {
+    const { transport, owner, timeoutMs = DEFAULT_TIMEOUT_MS, message } = this.options;
+    if (this.started) {
+      throw new SphereError('Recovery session already started', 'VALIDATION_ERROR');
+    }
+    if (!owner) {
+      throw new SphereError('Recovery requires the owner to recover', 'VALIDATION_ERROR');
+    }
+    if (!this.options.guardians?.length) {
+      throw new SphereError('At least one guardian is required', 'VALIDATION_ERROR');
+    }
+    if (!transport.onRecoveryMessage || !transport.resolveNametag) {
+      throw new SphereError('Transport provider does not support social recovery', 'TRANSPORT_ERROR');
+    }
+    this.started = true;
+
+    const { address } = privateKeyToAddressInfo(this.ephemeralKey);
+    await transport.setIdentity({
+      privateKey: this.ephemeralKey,
+      chainPubkey: getPublicKey(this.ephemeralKey),
+      l1Address: address,
+    });
+    if (!transport.isConnected()) {
+      await transport.connect();
+    }
+
+    const nametags = Array.from(new Set(this.options.guardians.map(cleanGuardianNametag)));
+    const pubkeys = await Promise.all(nametags.map((nametag) => transport.resolveNametag!(nametag)));
+    nametags.forEach((nametag, i) => {
+      if (pubkeys[i]) {
+        this.guardians.set(toXOnlyPubkey(pubkeys[i]!), nametag);
+      } else {
+        logger.warn('Recovery', `Guardian @${nametag} not found`);
+      }
+    });
+    if (this.guardians.size === 0) {
+      throw new SphereError('None of the guardians could be found', 'VALIDATION_ERROR');
+    }
+
+    const result = new Promise<string[]>((resolve, reject) => {
+      this.settle = { resolve, reject };
+    });
+    this.unsubscribe = transport.onRecoveryMessage((msg) => this.handleMessage(msg));
+
+    const expiresAt = Date.now() + timeoutMs;
+    const sent = await Promise.allSettled(Array.from(this.guardians.keys()).map((pubkey) =>
+      sendRecoveryPayload(transport, pubkey, {
+        type: 'RECOVERY_REQUEST',
+        version: '1.0',
+        requestId: this.requestId,
+        owner: owner.startsWith('@') ? cleanGuardianNametag(owner) : owner,
+        ephemeralPubkey: getPublicKey(this.ephemeralKey).slice(2),
+        expiresAt,
+        message,
+      })));
+    if (sent.every((r) => r.status === 'rejected')) {
+      this.finish(new SphereError('Failed to send the recovery request to any guardian', 'TRANSPORT_ERROR'));
+      return result;
+    }
+
+    this.timer = setTimeout(() => {
+      this.emit('recovery:timeout', { requestId: this.requestId, received: this.shares.length, threshold: this.threshold });
+      this.finish(new SphereError('Guardians did not approve the recovery in time', 'TIMEOUT'));
+    }, timeoutMs);
+    return result;
+  }
+
+  /** Stop waiting; start() rejects */
+  cancel(): void {
+    this.finish(new SphereError('Recovery cancelled', 'VALIDATION_ERROR'));
+  }
+
+  /** Subscribe to session progress */
+  on<T extends RecoverySessionEventType>(type: T, handler: RecoverySessionEventHandler<T>): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    this.handlers.get(type)!.add(handler);
+    return () => {
+      this.handlers.get(type)?.delete(handler);
+    };
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  private handleMessage(message: IncomingRecoveryMessage): void {
+    const { payload } = message;
+    if (payload.type !== 'RECOVERY_RESPONSE' || payload.requestId !== this.requestId) return;
+    const sender = toXOnlyPubkey(message.senderTransportPubkey);
+    const guardian = this.guardians.get(sender);
+    if (!guardian || this.answered.has(sender) || !this.settle) return;
+    this.answered.add(sender);
+
+    if (!payload.approved) {
+      this.declined(guardian, payload.reason);
+      return;
+    }
+
+    let share: string;
+    try {
+      share = NIP44.decryptHex(payload.encryptedShare ?? '', this.ephemeralKey, sender);
+      const info = parseMnemonicShare(share);
+      if (this.groupId !== null && info.groupId !== this.groupId) {
+        throw new Error('share belongs to a different group');
+      }
+      this.groupId = info.groupId;
+      this.threshold = info.threshold;
+    } catch (err) {
+      logger.warn('Recovery', `Invalid share from @${guardian}:`, err);
+      this.declined(guardian, 'invalid share');
+      return;
+    }
+
+    this.shares.push(share);
+    this.emit('recovery:share_received', {
+      requestId: this.requestId,
+      guardian,
+      received: this.shares.length,
+      threshold: this.threshold!,
+    });
+    if (this.shares.length < this.threshold!) {
+      this.checkReachable();
+      return;
+    }
+
+    try {
+      combineMnemonicShares(this.shares);
+      this.finish(null);
+    } catch (err) {
+      this.finish(err instanceof Error ? err : new SphereError(String(err), 'VALIDATION_ERROR'));
+    }
+  }
+
+  private declined(guardian: string, reason?: string): void {
+    this.emit('recovery:declined', { requestId: this.requestId, guardian, reason });
+    this.checkReachable();
+  }
+
+  /** Fail early once the outstanding guardians can no longer make up the threshold */
+  private checkReachable(): void {
+    const outstanding = this.guardians.size - this.answered.size;
+    const needed = (this.threshold ?? 1) - this.shares.length;
+    if (outstanding < needed) {
+      this.finish(new SphereError('Not enough guardians approved the recovery', 'VALIDATION_ERROR'));
+    }
+  }
+
+  private finish(error: Error | null): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    const settle = this.settle;
+    this.settle = null;
+    if (!settle) return;
+    if (error) {
+      settle.reject(error);
+    } else {
+      settle.resolve([...this.shares]);
+    }
+  }
+
+  private emit<T extends RecoverySessionEventType>(type: T, data: SphereEventMap[T]): void {
+    for (const handler of this.handlers.get(type) ?? []) {
+      try {
+        (handler as RecoverySessionEventHandler<T>)(data);
+      } catch (err) {
+        logger.warn('Recovery', `Error in ${type} handler:`, err);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createRecoverySession(options: RecoverySessionOptions): RecoverySession {
+  return new RecoverySession(options);
+}
@@ -0,0 +1,13 @@
+export {
+  RecoveryModule,
+  createRecoveryModule,
+} from './RecoveryModule';
+export {
+  RecoverySession,
+  createRecoverySession,
+} from './RecoverySession';
+export type {
+  RecoverySessionEventType,
+  RecoverySessionEventHandler,
+} from './RecoverySession';
+export * from './types';
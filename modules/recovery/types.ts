@@ -0,0 +1,138 @@
+/**
+ * Social Recovery Types
+ * Guardians hold mnemonic shares delivered over NIP-17 and release them,
+ * encrypted to an ephemeral key, when a new device asks and they approve.
+ */
+
+import type { FullIdentity, SphereEventMap, SphereEventType } from '../../types';
+import type { StorageProvider } from '../../storage';
+import type { TransportProvider } from '../../transport';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface RecoveryModuleDependencies {
+  identity: FullIdentity;
+  storage: StorageProvider;
+  transport: TransportProvider;
+  emitEvent: <T extends SphereEventType>(type: T, data: SphereEventMap[T]) => void;
+  /** Mnemonic of the wallet (null for master-key wallets or while locked) */
+  getMnemonic: () => string | null;
+  /** Watch-only wallet: no guardians can be set up */
+  watchOnly?: boolean;
+  /** Called before handing out key material; throws WALLET_LOCKED while the wallet is locked */
+  ensureUnlocked?: () => void;
+}
+
+export interface RecoverySessionOptions {
+  /**
+   * Transport to talk to guardians over. Its identity is replaced by the
+   * session's ephemeral key, so use a transport not bound to a wallet.
+   */
+  transport: TransportProvider;
+  /** Wallet to recover: owner nametag (with or without @), chain pubkey or DIRECT address */
+  owner: string;
+  /** Guardian nametags (with or without @) */
+  guardians: string[];
+  /** How long guardians have to approve, in ms (default: 24 hours) */
+  timeoutMs?: number;
+  /** Note shown to guardians, e.g. how to confirm it is really you */
+  message?: string;
+}
+
+// =============================================================================
+// Owner Types
+// =============================================================================
+
+export interface RecoveryGuardian {
+  /** Nametag (without @) */
+  nametag: string;
+  transportPubkey: string;
+  /** Index of the share this guardian holds */
+  shareIndex: number;
+  /** When the guardian confirmed it stored the share */
+  confirmedAt?: number;
+}
+
+export interface GuardianSetup {
+  /** Group ID shared by the guardians' shares */
+  groupId: number;
+  /** Guardians needed to recover */
+  threshold: number;
+  guardians: RecoveryGuardian[];
+  createdAt: number;
+}
+
+export interface SetupGuardiansRequest {
+  /** Guardian nametags (with or without @), 1-16 */
+  guardians: string[];
+  /** Guardians needed to recover */
+  threshold: number;
+}
+
+// =============================================================================
+// Guardian Types
+// =============================================================================
+
+/** Share this wallet holds for someone else */
+export interface HeldRecoveryShare {
+  groupId: number;
+  /** Index of the share within its group */
+  shareIndex: number;
+  threshold: number;
+  count: number;
+  ownerTransportPubkey: string;
+  owner: { nametag?: string; chainPubkey: string; directAddress?: string };
+  receivedAt: number;
+  /** Only stored, never returned by the public API */
+  share?: string;
+}
+
+/** `pending` until the guardian approves or declines, `expired` after the requester's deadline */
+export type RecoveryRequestStatus = 'pending' | 'approved' | 'declined' | 'expired';
+
+/** Recovery request received as a guardian */
+export interface RecoveryRequest {
+  requestId: string;
+  /** Owner named by the requester */
+  owner: string;
+  /** Whether a share for `owner` is held */
+  hasShare: boolean;
+  requesterTransportPubkey: string;
+  ephemeralPubkey: string;
+  message?: string;
+  status: RecoveryRequestStatus;
+  receivedAt: number;
+  expiresAt: number;
+}
+
+// =============================================================================
+// Events
+// =============================================================================
+
+export interface RecoveryGuardianConfirmedEvent {
+  groupId: number;
+  nametag: string;
+}
+
+export interface RecoveryShareReceivedEvent {
+  requestId: string;
+  /** Guardian nametag */
+  guardian: string;
+  received: number;
+  threshold: number;
+}
+
+export interface RecoveryDeclinedEvent {
+  requestId: string;
+  guardian: string;
+  reason?: string;
+}
+
+export interface RecoveryTimeoutEvent {
+  requestId: string;
+  received: number;
+  /** Unknown until the first share arrives */
+  threshold: number | null;
+}
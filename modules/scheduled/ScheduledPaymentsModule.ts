@@ -0,0 +1,473 @@
+/**
+ * Scheduled Payments Module
+ *
+ * Subscriptions and standing orders ("pay @alice 10 UCT every month").
+ * Schedules are persisted per address and executed through
+ * PaymentsModule.send() on load() and on a timer.
+ */
+
+import { logger } from '../../core/logger';
+import { SphereError } from '../../core/errors';
+import { STORAGE_KEYS_ADDRESS } from '../../constants';
+import type { TransferResult } from '../../types';
+import type {
+  ScheduledPaymentsModuleConfig,
+  ScheduledPaymentsModuleDependencies,
+  CreateScheduleRequest,
+  ScheduledPayment,
+  ScheduleInterval,
+  ScheduleRunResult,
+  ScheduleStatus,
+  ScheduleUnit,
+} from './types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const UNIT_MS: Record<Exclude<ScheduleUnit, 'month'>, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+};
+
+/**
+ * Time of the k-th payment of a schedule starting at `startAt`.
+ * Monthly schedules keep the day of month, clamped to the last day
+ * of shorter months (Jan 31 → Feb 28 → Mar 31).
+ */
+function occurrenceAt(startAt: number, interval: ScheduleInterval, k: number): number {
+  const every = interval.every ?? 1;
+  if (interval.unit !== 'month') {
+    return startAt + k * every * UNIT_MS[interval.unit];
+  }
+
+  const start = new Date(startAt);
+  const month = start.getUTCMonth() + k * every;
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), month + 1, 0)).getUTCDate();
+  return Date.UTC(
+    start.getUTCFullYear(),
+    month,
+    Math.min(start.getUTCDate(), lastDay),
+    start.getUTCHours(),
+    start.getUTCMinutes(),
+    start.getUTCSeconds(),
+    start.getUTCMilliseconds(),
+  );
+}
+
+/** First payment time of the schedule strictly after `after` */
+function nextOccurrenceAfter(schedule: ScheduledPayment, after: number): number {
+  const { startAt, interval } = schedule;
+  if (after < startAt) return startAt;
+
+  let k: number;
+  if (interval.unit === 'month') {
+    const start = new Date(startAt);
+    const end = new Date(after);
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+    k = Math.max(1, Math.floor(months / (interval.every ?? 1)));
+  } else {
+    const step = (interval.every ?? 1) * UNIT_MS[interval.unit];
+    k = Math.max(1, Math.floor((after - startAt) / step));
+  }
+
+  while (occurrenceAt(startAt, interval, k) <= after) k++;
+  return occurrenceAt(startAt, interval, k);
+}
+
+function validateInterval(interval: ScheduleInterval | undefined): void {
+  if (!interval || !['minute', 'hour', 'day', 'week', 'month'].includes(interval.unit)) {
+    throw new SphereError('Schedule interval unit must be minute, hour, day, week or month', 'VALIDATION_ERROR');
+  }
+  if (interval.every !== undefined && (!Number.isInteger(interval.every) || interval.every < 1)) {
+    throw new SphereError('Schedule interval must be a positive integer', 'VALIDATION_ERROR');
+  }
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+export class ScheduledPaymentsModule {
+  private config: Required<ScheduledPaymentsModuleConfig>;
+  private deps: ScheduledPaymentsModuleDependencies | null = null;
+
+  private schedules: Map<string, ScheduledPayment> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** In-flight runDue() — concurrent callers share it so nothing is paid twice */
+  private running: Promise<ScheduleRunResult[]> | null = null;
+  private destroyed = false;
+
+  constructor(config?: ScheduledPaymentsModuleConfig) {
+    this.config = {
+      checkIntervalMs: config?.checkIntervalMs ?? 60_000,
+      retryDelayMs: config?.retryDelayMs ?? 300_000,
+      maxRetries: config?.maxRetries ?? 3,
+      autoRun: config?.autoRun ?? true,
+    };
+  }
+
+  // ===========================================================================
+  // Lifecycle
+  // ===========================================================================
+
+  /**
+   * Initialize module with dependencies
+   */
+  initialize(deps: ScheduledPaymentsModuleDependencies): void {
+    this.stopTimer();
+    this.deps = deps;
+    this.destroyed = false;
+  }
+
+  /**
+   * Load schedules from storage and start executing due payments.
+   * The first run happens in the background so wallet startup is not
+   * blocked on network sends; await runDue() to wait for it.
+   */
+  async load(): Promise<void> {
+    this.ensureInitialized();
+
+    this.schedules.clear();
+    const data = await this.deps!.storage.get(STORAGE_KEYS_ADDRESS.SCHEDULED_PAYMENTS);
+    if (data) {
+      const schedules = JSON.parse(data) as ScheduledPayment[];
+      for (const schedule of schedules) {
+        this.schedules.set(schedule.id, schedule);
+      }
+    }
+
+    const interrupted = this.list().filter((s) => s.pendingRunAt !== undefined);
+    if (interrupted.length > 0) {
+      for (const schedule of interrupted) {
+        this.skipInterrupted(schedule);
+      }
+      await this.save();
+      for (const schedule of interrupted) {
+        this.deps!.emitEvent('schedule:failed', { schedule: { ...schedule }, error: schedule.lastError!, willRetry: false });
+      }
+    }
+
+    if (this.config.autoRun && !this.deps!.watchOnly) {
+      this.runDue().catch((err) => {
+        logger.warn('Scheduled', 'Initial run failed:', err);
+      });
+      this.updateTimer();
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.stopTimer();
+  }
+
+  // ===========================================================================
+  // Public API
+  // ===========================================================================
+
+  /**
+   * Create a recurring payment. The first payment is due at `startAt`
+   * (default: now) and runs on the next check. With a `key`, an existing
+   * schedule with the same key is returned instead, whatever its status.
+   */
+  async create(request: CreateScheduleRequest): Promise<ScheduledPayment> {
+    this.ensureInitialized();
+    if (this.deps!.watchOnly) {
+      throw new SphereError('Watch-only wallet cannot schedule payments', 'WATCH_ONLY');
+    }
+    if (request.key !== undefined) {
+      const existing = Array.from(this.schedules.values()).find((s) => s.key === request.key);
+      if (existing) return existing;
+    }
+    validateInterval(request.interval);
+    if (!request.recipient || !request.coinId) {
+      throw new SphereError('Schedule requires a recipient and coinId', 'VALIDATION_ERROR');
+    }
+    if (!/^\d+$/.test(request.amount) || BigInt(request.amount) <= 0n) {
+      throw new SphereError('Schedule amount must be a positive integer in smallest units', 'VALIDATION_ERROR');
+    }
+    if (request.maxRuns !== undefined && (!Number.isInteger(request.maxRuns) || request.maxRuns < 1)) {
+      throw new SphereError('maxRuns must be a positive integer', 'VALIDATION_ERROR');
+    }
+
+    const now = Date.now();
+    const startAt = request.startAt ?? now;
+    if (request.endAt !== undefined && request.endAt < startAt) {
+      throw new SphereError('endAt must not be before startAt', 'VALIDATION_ERROR');
+    }
+
+    const { interval, startAt: _startAt, maxRuns, endAt, label, key, ...transfer } = request;
+    const schedule: ScheduledPayment = {
+      id: crypto.randomUUID(),
+      request: transfer,
+      interval: { every: interval.every ?? 1, unit: interval.unit },
+      label,
+      key,
+      status: 'active',
+      startAt,
+      nextRunAt: startAt,
+      runCount: 0,
+      maxRuns,
+      endAt,
+      failureCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    await this.save();
+    this.updateTimer();
+    return schedule;
+  }
+
+  /** Get a schedule by ID */
+  get(id: string): ScheduledPayment | null {
+    return this.schedules.get(id) ?? null;
+  }
+
+  /** List schedules, optionally filtered by status, ordered by next payment */
+  list(filter?: { status?: ScheduleStatus }): ScheduledPayment[] {
+    return Array.from(this.schedules.values())
+      .filter((s) => !filter?.status || s.status === filter.status)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+  }
+
+  /** Stop executing a schedule until resume() */
+  async pause(id: string): Promise<ScheduledPayment> {
+    const schedule = this.getMutable(id);
+    if (schedule.status !== 'active') {
+      throw new SphereError(`Schedule is ${schedule.status}, cannot pause`, 'VALIDATION_ERROR');
+    }
+    schedule.status = 'paused';
+    return this.update(schedule);
+  }
+
+  /**
+   * Resume a paused schedule. Payments missed while paused are skipped —
+   * the next payment is the first one due from now on.
+   */
+  async resume(id: string): Promise<ScheduledPayment> {
+    const schedule = this.getMutable(id);
+    if (schedule.status !== 'paused') {
+      throw new SphereError(`Schedule is ${schedule.status}, cannot resume`, 'VALIDATION_ERROR');
+    }
+    const now = Date.now();
+    schedule.status = 'active';
+    schedule.failureCount = 0;
+    if (schedule.nextRunAt < now) {
+      schedule.nextRunAt = nextOccurrenceAfter(schedule, now);
+    }
+    return this.update(schedule);
+  }
+
+  /** Cancel a schedule permanently. It stays in list() with status 'cancelled'. */
+  async cancel(id: string): Promise<ScheduledPayment> {
+    const schedule = this.getMutable(id);
+    if (schedule.status === 'cancelled' || schedule.status === 'completed') {
+      throw new SphereError(`Schedule is already ${schedule.status}`, 'VALIDATION_ERROR');
+    }
+    schedule.status = 'cancelled';
+    return this.update(schedule);
+  }
+
+  /**
+   * Execute every active schedule that is due. Called automatically on
+   * load() and on the timer; safe to call manually (e.g. from a daemon).
+   *
+   * Payments missed while the wallet was offline are collapsed into a
+   * single payment. A failed payment is retried after `retryDelayMs`,
+   * up to `maxRetries` times, before that period is skipped.
+   */
+  async runDue(): Promise<ScheduleRunResult[]> {
+    this.ensureInitialized();
+    if (this.running) return this.running;
+
+    this.running = this.executeDue().finally(() => {
+      this.running = null;
+      this.updateTimer();
+    });
+    return this.running;
+  }
+
+  // ===========================================================================
+  // Private: Execution
+  // ===========================================================================
+
+  private async executeDue(): Promise<ScheduleRunResult[]> {
+    const results: ScheduleRunResult[] = [];
+    // Locked wallet cannot sign; due payments run on the first tick after unlock
+    if (this.deps!.isLocked?.()) return results;
+    const due = this.list({ status: 'active' }).filter((s) => s.nextRunAt <= Date.now());
+
+    // Sequential: parallel sends would compete for the same tokens
+    for (const schedule of due) {
+      if (this.destroyed) break;
+      // Paused or cancelled while an earlier payment was running
+      if (schedule.status !== 'active') continue;
+      results.push(await this.execute(schedule));
+    }
+    return results;
+  }
+
+  private async execute(schedule: ScheduledPayment): Promise<ScheduleRunResult> {
+    logger.debug('Scheduled', `Executing schedule ${schedule.id} (run ${schedule.runCount + 1})`);
+
+    let transfer: TransferResult;
+    try {
+      // Mark the attempt before sending: if the process dies after the send,
+      // load() finds the marker and does not pay this period again
+      schedule.pendingRunAt = Date.now();
+      await this.save();
+
+      transfer = await this.deps!.payments.send(schedule.request);
+      if (transfer.status === 'failed') {
+        throw new SphereError(transfer.error ?? 'Transfer failed', 'TRANSFER_FAILED');
+      }
+    } catch (err) {
+      schedule.pendingRunAt = undefined;
+      return this.recordFailure(schedule, err);
+    }
+
+    // Sent: from here on this period is never retried
+    const now = Date.now();
+    schedule.pendingRunAt = undefined;
+    schedule.runCount++;
+    schedule.lastRunAt = now;
+    schedule.lastTransferId = transfer.id;
+    schedule.failureCount = 0;
+    schedule.lastError = undefined;
+    this.advance(schedule, now);
+    try {
+      await this.save();
+    } catch (err) {
+      // The stored marker makes the next load() skip this period rather than pay it twice
+      logger.error('Scheduled', `Schedule ${schedule.id} paid but not saved:`, err);
+    }
+
+    this.deps!.emitEvent('schedule:executed', { schedule: { ...schedule }, transfer });
+    return { scheduleId: schedule.id, success: true, transfer };
+  }
+
+  private async recordFailure(schedule: ScheduledPayment, err: unknown): Promise<ScheduleRunResult> {
+    const error = err instanceof Error ? err.message : String(err);
+    const now = Date.now();
+    schedule.failureCount++;
+    schedule.lastError = error;
+
+    const willRetry = schedule.failureCount <= this.config.maxRetries;
+    if (willRetry) {
+      schedule.nextRunAt = now + this.config.retryDelayMs;
+    } else {
+      schedule.failureCount = 0;
+      this.advance(schedule, now);
+    }
+    schedule.updatedAt = now;
+    await this.save();
+
+    logger.warn('Scheduled', `Schedule ${schedule.id} failed${willRetry ? ', will retry' : ', skipping period'}:`, error);
+    this.deps?.emitEvent('schedule:failed', { schedule: { ...schedule }, error, willRetry });
+    return { scheduleId: schedule.id, success: false, error };
+  }
+
+  /**
+   * A payment was being sent when the process stopped. Whether it went out
+   * is unknown, so it counts as paid rather than risk paying it twice.
+   */
+  private skipInterrupted(schedule: ScheduledPayment): void {
+    const startedAt = schedule.pendingRunAt!;
+    schedule.pendingRunAt = undefined;
+    schedule.runCount++;
+    schedule.lastRunAt = startedAt;
+    schedule.failureCount = 0;
+    schedule.lastError = 'Payment was interrupted and may have been sent; period skipped';
+    this.advance(schedule, startedAt);
+    schedule.updatedAt = Date.now();
+    logger.warn('Scheduled', `Schedule ${schedule.id} was interrupted while paying, skipping period`);
+  }
+
+  /** Move to the next period, completing the schedule when it runs out */
+  private advance(schedule: ScheduledPayment, now: number): void {
+    const next = nextOccurrenceAfter(schedule, now);
+    schedule.updatedAt = now;
+    if (schedule.maxRuns !== undefined && schedule.runCount >= schedule.maxRuns) {
+      schedule.status = 'completed';
+    } else if (schedule.endAt !== undefined && next > schedule.endAt) {
+      schedule.status = 'completed';
+    } else {
+      schedule.nextRunAt = next;
+    }
+  }
+
+  // ===========================================================================
+  // Private: Timer
+  // ===========================================================================
+
+  /** Run the timer only while there are active schedules */
+  private updateTimer(): void {
+    const hasActive = Array.from(this.schedules.values()).some((s) => s.status === 'active');
+    if (!this.deps || this.destroyed || !this.config.autoRun || this.deps.watchOnly || !hasActive) {
+      this.stopTimer();
+      return;
+    }
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDue().catch((err) => {
+        logger.warn('Scheduled', 'Scheduled run failed:', err);
+      });
+    }, this.config.checkIntervalMs);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ===========================================================================
+  // Private: Storage
+  // ===========================================================================
+
+  private getMutable(id: string): ScheduledPayment {
+    this.ensureInitialized();
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      throw new SphereError(`Schedule not found: ${id}`, 'VALIDATION_ERROR');
+    }
+    return schedule;
+  }
+
+  private async update(schedule: ScheduledPayment): Promise<ScheduledPayment> {
+    schedule.updatedAt = Date.now();
+    await this.save();
+    this.updateTimer();
+    return schedule;
+  }
+
+  private async save(): Promise<void> {
+    const schedules = Array.from(this.schedules.values());
+    await this.deps!.storage.set(STORAGE_KEYS_ADDRESS.SCHEDULED_PAYMENTS, JSON.stringify(schedules));
+  }
+
+  private ensureInitialized(): void {
+    if (!this.deps) {
+      throw new SphereError('ScheduledPaymentsModule not initialized', 'NOT_INITIALIZED');
+    }
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createScheduledPaymentsModule(
+  config?: ScheduledPaymentsModuleConfig
+): ScheduledPaymentsModule {
+  return new ScheduledPaymentsModule(config);
+}
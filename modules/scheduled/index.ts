@@ -0,0 +1,2 @@
+export { ScheduledPaymentsModule, createScheduledPaymentsModule } from './ScheduledPaymentsModule';
+export * from './types';
@@ -0,0 +1,121 @@
+/**
+ * Scheduled Payments Module Types
+ * Recurring payments (subscriptions, standing orders) executed through
+ * PaymentsModule.send() on a timer.
+ */
+
+import type { FullIdentity, SphereEventMap, SphereEventType, TransferRequest, TransferResult } from '../../types';
+import type { StorageProvider } from '../../storage';
+import type { PaymentsModule } from '../payments/PaymentsModule';
+
+// =============================================================================
+// Enums
+// =============================================================================
+
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+export type ScheduleUnit = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface ScheduledPaymentsModuleConfig {
+  /** How often due schedules are checked in ms (default: 60000) */
+  checkIntervalMs?: number;
+  /** Delay before retrying a failed payment in ms (default: 300000) */
+  retryDelayMs?: number;
+  /** Retries per due payment before that period is skipped (default: 3) */
+  maxRetries?: number;
+  /** Run due schedules on load() and on the timer (default: true) */
+  autoRun?: boolean;
+}
+
+export interface ScheduledPaymentsModuleDependencies {
+  identity: FullIdentity;
+  storage: StorageProvider;
+  payments: PaymentsModule;
+  emitEvent: <T extends SphereEventType>(type: T, data: SphereEventMap[T]) => void;
+  /** Watch-only wallet: schedules cannot be created */
+  watchOnly?: boolean;
+  /** Due payments are held back while this returns true (wallet locked) */
+  isLocked?: () => boolean;
+}
+
+// =============================================================================
+// Schedule Types
+// =============================================================================
+
+/** Repeat interval, e.g. `{ unit: 'month' }` or `{ every: 2, unit: 'week' }` */
+export interface ScheduleInterval {
+  /** Number of units between payments (default: 1) */
+  every?: number;
+  unit: ScheduleUnit;
+}
+
+export interface CreateScheduleRequest extends TransferRequest {
+  interval: ScheduleInterval;
+  /** Time of the first payment in ms (default: now) */
+  startAt?: number;
+  /** Stop after this many successful payments */
+  maxRuns?: number;
+  /** Stop once the next payment would fall after this time (ms) */
+  endAt?: number;
+  /** Free-form label, e.g. "Rent" */
+  label?: string;
+  /** Idempotency key: create() returns the existing schedule with this key instead of adding another */
+  key?: string;
+}
+
+export interface ScheduledPayment {
+  readonly id: string;
+  /** Transfer executed on every run */
+  readonly request: TransferRequest;
+  readonly interval: ScheduleInterval;
+  readonly label?: string;
+  readonly key?: string;
+  status: ScheduleStatus;
+  /** Time of the first payment; later runs are computed from it */
+  readonly startAt: number;
+  /** Time the next payment is due (ms) */
+  nextRunAt: number;
+  /** Successful payments so far */
+  runCount: number;
+  readonly maxRuns?: number;
+  readonly endAt?: number;
+  /** Failed attempts for the current period */
+  failureCount: number;
+  lastRunAt?: number;
+  /**
+   * Start time of the payment being sent. Persisted before sending, so a
+   * payment interrupted by a crash is found on load() and not sent again.
+   */
+  pendingRunAt?: number;
+  lastTransferId?: string;
+  lastError?: string;
+  readonly createdAt: number;
+  updatedAt: number;
+}
+
+// =============================================================================
+// Event Payloads
+// =============================================================================
+
+export interface ScheduleExecutedEvent {
+  schedule: ScheduledPayment;
+  transfer: TransferResult;
+}
+
+export interface ScheduleFailedEvent {
+  schedule: ScheduledPayment;
+  error: string;
+  /** False when the retries for this period are exhausted and it was skipped */
+  willRetry: boolean;
+}
+
+/** Outcome of one due schedule in runDue() */
+export interface ScheduleRunResult {
+  scheduleId: string;
+  success: boolean;
+  transfer?: TransferResult;
+  error?: string;
+}
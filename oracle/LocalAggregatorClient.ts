@@ -0,0 +1,396 @@
+/**
+ * Local Aggregator Client
+ * In-memory stand-in for the Unicity aggregator, implementing the SDK's IAggregatorClient
+ *
+ * Commitments are stored as leaves of a sparse Merkle tree keyed by request ID.
+ * Closing a round seals the tree root into a UnicityCertificate signed by a
+ * locally generated root node, so inclusion proofs verify against
+ * getTrustBase() exactly like proofs from a real aggregator.
+ */
+
+import { SphereError } from '../core/errors';
+import { hexToBytes, bytesToHex } from '../core/crypto';
+
+import { SubmitCommitmentResponse, SubmitCommitmentStatus } from '@unicitylabs/state-transition-sdk/lib/api/SubmitCommitmentResponse';
+import { InclusionProofResponse } from '@unicitylabs/state-transition-sdk/lib/api/InclusionProofResponse';
+import { RequestId } from '@unicitylabs/state-transition-sdk/lib/api/RequestId';
+import { LeafValue } from '@unicitylabs/state-transition-sdk/lib/api/LeafValue';
+import { InputRecord } from '@unicitylabs/state-transition-sdk/lib/bft/InputRecord';
+import { RootTrustBase, RootTrustBaseNodeInfo } from '@unicitylabs/state-transition-sdk/lib/bft/RootTrustBase';
+import { ShardTreeCertificate } from '@unicitylabs/state-transition-sdk/lib/bft/ShardTreeCertificate';
+import { UnicityCertificate } from '@unicitylabs/state-transition-sdk/lib/bft/UnicityCertificate';
+import { UnicitySeal } from '@unicitylabs/state-transition-sdk/lib/bft/UnicitySeal';
+import { UnicityTreeCertificate } from '@unicitylabs/state-transition-sdk/lib/bft/UnicityTreeCertificate';
+import { DataHasher } from '@unicitylabs/state-transition-sdk/lib/hash/DataHasher';
+import { DataHasherFactory } from '@unicitylabs/state-transition-sdk/lib/hash/DataHasherFactory';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { SparseMerkleTree } from '@unicitylabs/state-transition-sdk/lib/mtree/plain/SparseMerkleTree';
+import { CborSerializer } from '@unicitylabs/state-transition-sdk/lib/serializer/cbor/CborSerializer';
+import { SigningService } from '@unicitylabs/state-transition-sdk/lib/sign/SigningService';
+import { InclusionProof as SdkInclusionProof } from '@unicitylabs/state-transition-sdk/lib/transaction/InclusionProof';
+import type { IAggregatorClient } from '@unicitylabs/state-transition-sdk/lib/api/IAggregatorClient';
+import type { Authenticator } from '@unicitylabs/state-transition-sdk/lib/api/Authenticator';
+import type { DataHash } from '@unicitylabs/state-transition-sdk/lib/hash/DataHash';
+import type { SparseMerkleTreeRootNode } from '@unicitylabs/state-transition-sdk/lib/mtree/plain/SparseMerkleTreeRootNode';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface LocalAggregatorConfig {
+  /**
+   * Root node private key (hex). A fixed key yields the same trust base on
+   * every run (default: random)
+   */
+  privateKey?: string;
+  /** Network ID written into the trust base and unicity seals (default: 3) */
+  networkId?: number;
+  /** Delay added to every submit and proof request (ms, default: 0) */
+  latencyMs?: number;
+  /** Probability (0..1) that a submit or proof request fails (default: 0) */
+  failureRate?: number;
+  /** Random source for failureRate, in [0, 1) (default: Math.random) */
+  random?: () => number;
+  /**
+   * Close rounds only when sealRound() is called (default: false).
+   * Otherwise a round closes right after each batch of submissions.
+   */
+  manualRounds?: boolean;
+}
+
+/** Aggregator request kinds that can be delayed or failed */
+export type LocalAggregatorOperation = 'submit' | 'proof';
+
+interface CommitmentRecord {
+  authenticator: Authenticator;
+  transactionHash: DataHash;
+  /** Round the commitment was sealed in (null while pending) */
+  round: bigint | null;
+}
+
+interface SealedRound {
+  root: SparseMerkleTreeRootNode;
+  certificate: UnicityCertificate;
+}
+
+const ROOT_NODE_ID = 'local-root-node';
+const PARTITION_ID = 1n;
+const EPOCH = 1n;
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Local Aggregator Client
+ * Drop-in IAggregatorClient for StateTransitionClient, backed by an in-memory tree
+ */
+export class LocalAggregatorClient implements IAggregatorClient {
+  private readonly signingService: SigningService;
+  private readonly networkId: number;
+  private readonly manualRounds: boolean;
+  private readonly random: () => number;
+  private readonly trustBase: RootTrustBase;
+
+  private latencyMs: number;
+  private failureRate: number;
+  private injectedFailures: Map<LocalAggregatorOperation | 'any', number> = new Map();
+
+  private readonly tree = new SparseMerkleTree(new DataHasherFactory(HashAlgorithm.SHA256, DataHasher));
+  private readonly records: Map<string, CommitmentRecord> = new Map();
+  private readonly spentStates: Set<string> = new Set();
+  private sealed: SealedRound | null = null;
+  private round = 0n;
+  private sealing: Promise<void> = Promise.resolve();
+  private sealTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: LocalAggregatorConfig = {}) {
+    const privateKey = config.privateKey
+      ? hexToBytes(config.privateKey)
+      : SigningService.generatePrivateKey();
+    this.signingService = new SigningService(privateKey);
+    this.networkId = config.networkId ?? 3;
+    this.manualRounds = config.manualRounds ?? false;
+    this.random = config.random ?? Math.random;
+    this.latencyMs = config.latencyMs ?? 0;
+    this.failureRate = config.failureRate ?? 0;
+
+    this.trustBase = new RootTrustBase(
+      1n,
+      this.networkId,
+      EPOCH,
+      1n,
+      [new RootTrustBaseNodeInfo(ROOT_NODE_ID, this.signingService.publicKey, 1n)],
+      1n,
+      new Uint8Array(32),
+      null,
+      null,
+      new Map()
+    );
+  }
+
+  // ===========================================================================
+  // IAggregatorClient Implementation
+  // ===========================================================================
+
+  async submitCommitment(
+    requestId: RequestId,
+    transactionHash: DataHash,
+    authenticator: Authenticator,
+    receipt = false
+  ): Promise<SubmitCommitmentResponse> {
+    await this.simulate('submit');
+
+    if (!(await authenticator.verify(transactionHash))) {
+      return new SubmitCommitmentResponse(SubmitCommitmentStatus.AUTHENTICATOR_VERIFICATION_FAILED);
+    }
+
+    const expectedId = await RequestId.create(authenticator.publicKey, authenticator.stateHash);
+    if (!expectedId.equals(requestId)) {
+      return new SubmitCommitmentResponse(SubmitCommitmentStatus.REQUEST_ID_MISMATCH);
+    }
+
+    const leaf = await LeafValue.create(authenticator, transactionHash);
+
+    // Everything below runs synchronously up to addLeaf, so a round being
+    // sealed concurrently sees either both the record and the leaf or neither
+    const key = requestId.toJSON();
+    if (this.records.has(key)) {
+      return new SubmitCommitmentResponse(SubmitCommitmentStatus.REQUEST_ID_EXISTS);
+    }
+
+    this.records.set(key, { authenticator, transactionHash, round: null });
+    await this.tree.addLeaf(requestId.toBitString().toBigInt(), leaf.bytes);
+    this.scheduleSeal();
+
+    const response = new SubmitCommitmentResponse(SubmitCommitmentStatus.SUCCESS);
+    if (receipt) {
+      await response.addSignedReceipt(requestId, authenticator.stateHash, transactionHash, this.signingService);
+    }
+    return response;
+  }
+
+  /**
+   * Proof against the latest sealed round: an inclusion proof once the
+   * commitment was sealed, a non-inclusion proof before that.
+   * In automatic mode, asking for a pending commitment closes the round first.
+   */
+  async getInclusionProof(requestId: RequestId): Promise<InclusionProofResponse> {
+    await this.simulate('proof');
+
+    let record = this.records.get(requestId.toJSON());
+    if (!this.sealed || (record?.round === null && !this.manualRounds)) {
+      await this.sealRound();
+      record = this.records.get(requestId.toJSON());
+    }
+
+    const { root, certificate } = this.sealed!;
+    const included = record !== undefined && record.round !== null;
+
+    return new InclusionProofResponse(
+      new SdkInclusionProof(
+        root.getPath(requestId.toBitString().toBigInt()),
+        included ? record!.authenticator : null,
+        included ? record!.transactionHash : null,
+        certificate
+      )
+    );
+  }
+
+  /** Number of the latest sealed round */
+  async getBlockHeight(): Promise<bigint> {
+    return this.round;
+  }
+
+  // ===========================================================================
+  // Local Controls
+  // ===========================================================================
+
+  /** Trust base holding the local root node, accepted by TokenValidator */
+  getTrustBase(): RootTrustBase {
+    return this.trustBase;
+  }
+
+  /** Trust base in the JSON format read by RootTrustBase.fromJSON() and trust base loaders */
+  getTrustBaseJson(): Record<string, unknown> {
+    return {
+      version: this.trustBase.version.toString(),
+      networkId: this.trustBase.networkId,
+      epoch: this.trustBase.epoch.toString(),
+      epochStartRound: this.trustBase.epochStartRound.toString(),
+      rootNodes: this.trustBase.rootNodes.map((node) => ({
+        nodeId: node.nodeId,
+        sigKey: bytesToHex(node.signingKey),
+        stake: node.stakedAmount.toString(),
+      })),
+      quorumThreshold: this.trustBase.quorumThreshold.toString(),
+      stateHash: bytesToHex(this.trustBase.stateHash),
+      changeRecordHash: null,
+      previousEntryHash: null,
+      signatures: {},
+    };
+  }
+
+  /**
+   * Close the current round: seal the tree root and include every pending commitment
+   * @returns Number of the sealed round
+   */
+  sealRound(): Promise<bigint> {
+    if (this.sealTimer) {
+      clearTimeout(this.sealTimer);
+      this.sealTimer = null;
+    }
+    this.sealing = this.sealing.then(() => this.seal());
+    return this.sealing.then(() => this.round);
+  }
+
+  /** Whether a commitment spending this state hash (hex imprint) was sealed */
+  isSpent(stateHash: string): boolean {
+    return this.spentStates.has(stateHash);
+  }
+
+  /** Set the delay added to every submit and proof request */
+  setLatency(latencyMs: number): void {
+    this.latencyMs = latencyMs;
+  }
+
+  /** Set the probability (0..1) that a submit or proof request fails */
+  setFailureRate(failureRate: number): void {
+    this.failureRate = failureRate;
+  }
+
+  /**
+   * Fail the next `count` requests of the given kind with AGGREGATOR_ERROR
+   * ('any' matches both submits and proof requests)
+   */
+  injectFailure(operation: LocalAggregatorOperation | 'any' = 'any', count = 1): void {
+    this.injectedFailures.set(operation, (this.injectedFailures.get(operation) ?? 0) + count);
+  }
+
+  // ===========================================================================
+  // Private: Rounds
+  // ===========================================================================
+
+  private scheduleSeal(): void {
+    if (this.manualRounds || this.sealTimer) return;
+    this.sealTimer = setTimeout(() => {
+      this.sealTimer = null;
+      void this.sealRound();
+    }, 0);
+  }
+
+  private async seal(): Promise<void> {
+    const pending = [...this.records.values()].filter((record) => record.round === null);
+    const root = await this.tree.calculateRoot();
+    const round = this.round + 1n;
+    const certificate = await this.certify(root.hash, round);
+
+    for (const record of pending) {
+      record.round = round;
+      this.spentStates.add(record.authenticator.stateHash.toJSON());
+    }
+    this.sealed = { root, certificate };
+    this.round = round;
+  }
+
+  /**
+   * Build a unicity certificate for the tree root. The shard and unicity trees
+   * hold a single partition, so both certificates have no sibling steps.
+   */
+  private async certify(rootHash: DataHash, round: bigint): Promise<UnicityCertificate> {
+    const previous = this.sealed?.certificate ?? null;
+    const timestamp = BigInt(Math.floor(Date.now() / 1000));
+
+    const inputRecord = new InputRecord(
+      1n,
+      round,
+      EPOCH,
+      previous ? previous.inputRecord.hash : null,
+      rootHash.imprint,
+      new Uint8Array(0),
+      timestamp,
+      null,
+      0n,
+      null
+    );
+    const shardConfigurationHash = new Uint8Array(32);
+    const shardTreeCertificate = new ShardTreeCertificate(new Uint8Array(0), []);
+    const unicityTreeCertificate = new UnicityTreeCertificate(1n, PARTITION_ID, []);
+
+    const shardTreeRoot = await UnicityCertificate.calculateShardTreeCertificateRootHash(
+      inputRecord,
+      null,
+      shardConfigurationHash,
+      shardTreeCertificate
+    );
+    const partitionKey = new Uint8Array(4);
+    new DataView(partitionKey.buffer).setUint32(0, Number(PARTITION_ID));
+    const partitionHash = await new DataHasher(HashAlgorithm.SHA256)
+      .update(CborSerializer.encodeByteString(shardTreeRoot.data))
+      .digest();
+    const sealHash = await new DataHasher(HashAlgorithm.SHA256)
+      .update(CborSerializer.encodeByteString(new Uint8Array([0x01])))
+      .update(CborSerializer.encodeByteString(partitionKey))
+      .update(CborSerializer.encodeByteString(partitionHash.data))
+      .digest();
+
+    const unsignedSeal = new UnicitySeal(
+      1n,
+      BigInt(this.networkId),
+      round,
+      EPOCH,
+      timestamp,
+      previous ? previous.unicitySeal.hash : null,
+      sealHash.data,
+      null
+    );
+    const signature = await this.signingService.sign(
+      await new DataHasher(HashAlgorithm.SHA256).update(unsignedSeal.toCBOR()).digest()
+    );
+    const seal = new UnicitySeal(
+      unsignedSeal.version,
+      unsignedSeal.networkId,
+      unsignedSeal.rootChainRoundNumber,
+      unsignedSeal.epoch,
+      unsignedSeal.timestamp,
+      unsignedSeal.previousHash,
+      unsignedSeal.hash,
+      new Map([[ROOT_NODE_ID, signature.encode()]])
+    );
+
+    return new UnicityCertificate(
+      1n,
+      inputRecord,
+      null,
+      shardConfigurationHash,
+      shardTreeCertificate,
+      unicityTreeCertificate,
+      seal
+    );
+  }
+
+  // ===========================================================================
+  // Private: Simulation
+  // ===========================================================================
+
+  private async simulate(operation: LocalAggregatorOperation): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+
+    if (this.takeInjectedFailure(operation) || (this.failureRate > 0 && this.random() < this.failureRate)) {
+      throw new SphereError(`Local aggregator: simulated ${operation} failure`, 'AGGREGATOR_ERROR');
+    }
+  }
+
+  private takeInjectedFailure(operation: LocalAggregatorOperation): boolean {
+    for (const key of [operation, 'any'] as const) {
+      const remaining = this.injectedFailures.get(key) ?? 0;
+      if (remaining > 0) {
+        this.injectedFailures.set(key, remaining - 1);
+        return true;
+      }
+    }
+    return false;
+  }
+}
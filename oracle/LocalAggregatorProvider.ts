@@ -0,0 +1,517 @@
+/**
+ * Local Aggregator Provider
+ * OracleProvider backed by an in-process LocalAggregatorClient
+ *
+ * Runs every payment path (submit, proof, validation, mint, split) offline:
+ * proofs come from an in-memory sparse Merkle tree and are certified by a
+ * locally generated trust base, so TokenValidator and Token.verify() accept
+ * them. Latency and failures can be injected for deterministic tests and demos.
+ */
+
+import { logger } from '../core/logger';
+import type { ProviderStatus } from '../types';
+import type {
+  OracleProvider,
+  TransferCommitment,
+  SubmitResult,
+  InclusionProof,
+  WaitOptions,
+  ValidationResult,
+  TokenState,
+  MintParams,
+  MintResult,
+  OracleEvent,
+  OracleEventCallback,
+} from './oracle-provider';
+import { DEFAULT_AGGREGATOR_TIMEOUT, TIMEOUTS } from '../constants';
+import { SphereError } from '../core/errors';
+import { hexToBytes, randomBytes } from '../core/crypto';
+import { LocalAggregatorClient } from './LocalAggregatorClient';
+import type { LocalAggregatorConfig, LocalAggregatorOperation } from './LocalAggregatorClient';
+
+import { StateTransitionClient } from '@unicitylabs/state-transition-sdk/lib/StateTransitionClient';
+import { RequestId } from '@unicitylabs/state-transition-sdk/lib/api/RequestId';
+import { AddressFactory } from '@unicitylabs/state-transition-sdk/lib/address/AddressFactory';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { UnmaskedPredicate } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate';
+import { UnmaskedPredicateReference } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicateReference';
+import { SigningService } from '@unicitylabs/state-transition-sdk/lib/sign/SigningService';
+import { Token as SdkToken } from '@unicitylabs/state-transition-sdk/lib/token/Token';
+import { TokenId } from '@unicitylabs/state-transition-sdk/lib/token/TokenId';
+import { TokenState as SdkTokenState } from '@unicitylabs/state-transition-sdk/lib/token/TokenState';
+import { TokenType } from '@unicitylabs/state-transition-sdk/lib/token/TokenType';
+import { CoinId } from '@unicitylabs/state-transition-sdk/lib/token/fungible/CoinId';
+import { TokenCoinData } from '@unicitylabs/state-transition-sdk/lib/token/fungible/TokenCoinData';
+import { MintCommitment } from '@unicitylabs/state-transition-sdk/lib/transaction/MintCommitment';
+import { MintTransactionData } from '@unicitylabs/state-transition-sdk/lib/transaction/MintTransactionData';
+import { InclusionProofVerificationStatus } from '@unicitylabs/state-transition-sdk/lib/transaction/InclusionProof';
+import { waitInclusionProof } from '@unicitylabs/state-transition-sdk/lib/util/InclusionProofUtils';
+import type { RootTrustBase } from '@unicitylabs/state-transition-sdk/lib/bft/RootTrustBase';
+import type { IAddress } from '@unicitylabs/state-transition-sdk/lib/address/IAddress';
+import type { IMintTransactionReason } from '@unicitylabs/state-transition-sdk/lib/transaction/IMintTransactionReason';
+import type { TransferCommitment as SdkTransferCommitment } from '@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment';
+
+// SDK MintCommitment type - using interface to avoid generic complexity
+interface SdkMintCommitment {
+  requestId?: { toString(): string };
+  [key: string]: unknown;
+}
+
+/** Token type of fungible Unicity tokens */
+const UNICITY_TOKEN_TYPE_HEX = 'f8aa13834268d29355ff12183066f0cb902003629bbc5eb9ef0efbe397867509';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface LocalAggregatorProviderConfig extends LocalAggregatorConfig {
+  /** Default waitForProof timeout (ms) */
+  timeout?: number;
+}
+
+/**
+ * Parameters for {@link LocalAggregatorProvider.mintToken}
+ */
+export interface LocalMintTokenParams {
+  /** Coin ID (hex) */
+  coinId: string;
+  /** Amount in smallest units */
+  amount: string | bigint;
+  /**
+   * Owner wallet private key (hex). The signing key is derived from it the
+   * same way the wallet derives its L3 key, so the wallet can spend the token.
+   */
+  privateKey: string;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Local Aggregator Provider
+ * OracleProvider implementation for offline tests, CI and demos
+ */
+export class LocalAggregatorProvider implements OracleProvider {
+  readonly id = 'local-aggregator';
+  readonly name = 'Local Aggregator';
+  readonly type = 'local' as const;
+  readonly description = 'In-memory aggregator with a locally generated trust base (tests and demos)';
+
+  private readonly timeout: number;
+  private status: ProviderStatus = 'disconnected';
+  private eventCallbacks: Set<OracleEventCallback> = new Set();
+
+  private readonly aggregatorClient: LocalAggregatorClient;
+  private readonly stateTransitionClient: StateTransitionClient;
+
+  constructor(config: LocalAggregatorProviderConfig = {}) {
+    this.timeout = config.timeout ?? DEFAULT_AGGREGATOR_TIMEOUT;
+    this.aggregatorClient = new LocalAggregatorClient(config);
+    this.stateTransitionClient = new StateTransitionClient(this.aggregatorClient);
+  }
+
+  /** Get the local trust base */
+  getTrustBase(): RootTrustBase {
+    return this.aggregatorClient.getTrustBase();
+  }
+
+  /** Get the state transition client */
+  getStateTransitionClient(): StateTransitionClient {
+    return this.stateTransitionClient;
+  }
+
+  /** Get the aggregator client */
+  getAggregatorClient(): LocalAggregatorClient {
+    return this.aggregatorClient;
+  }
+
+  // ===========================================================================
+  // BaseProvider Implementation
+  // ===========================================================================
+
+  async connect(): Promise<void> {
+    if (this.status === 'connected') return;
+
+    this.status = 'connected';
+    this.emitEvent({ type: 'oracle:connected', timestamp: Date.now() });
+    this.log('Connected to local aggregator');
+  }
+
+  async disconnect(): Promise<void> {
+    this.status = 'disconnected';
+    this.emitEvent({ type: 'oracle:disconnected', timestamp: Date.now() });
+    this.log('Disconnected from local aggregator');
+  }
+
+  isConnected(): boolean {
+    return this.status === 'connected';
+  }
+
+  getStatus(): ProviderStatus {
+    return this.status;
+  }
+
+  // ===========================================================================
+  // OracleProvider Implementation
+  // ===========================================================================
+
+  /**
+   * Connect the provider. An external trust base is not accepted: proofs
+   * are always certified by the local root node.
+   */
+  async initialize(): Promise<void> {
+    await this.connect();
+  }
+
+  /**
+   * Submit a transfer commitment (SDK TransferCommitment only; there is no
+   * RPC fallback for simple commitment objects)
+   */
+  async submitCommitment(commitment: TransferCommitment | SdkTransferCommitment): Promise<SubmitResult> {
+    this.ensureConnected();
+
+    if (!this.isSdkTransferCommitment(commitment)) {
+      return {
+        success: false,
+        error: 'LocalAggregatorProvider only accepts SDK transfer commitments',
+        timestamp: Date.now(),
+      };
+    }
+
+    try {
+      const response = await this.stateTransitionClient.submitTransferCommitment(commitment);
+      return this.toSubmitResult(commitment.requestId.toJSON(), response.status);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  /**
+   * Submit a mint commitment (SDK only)
+   * @param commitment - SDK MintCommitment instance
+   */
+  async submitMintCommitment(commitment: SdkMintCommitment): Promise<SubmitResult> {
+    this.ensureConnected();
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const response = await this.stateTransitionClient.submitMintCommitment(commitment as any);
+      return this.toSubmitResult(commitment.requestId?.toString() ?? '', response.status);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  private isSdkTransferCommitment(commitment: unknown): commitment is SdkTransferCommitment {
+    return (
+      commitment !== null &&
+      typeof commitment === 'object' &&
+      'requestId' in commitment &&
+      typeof (commitment as SdkTransferCommitment).requestId?.toString === 'function'
+    );
+  }
+
+  /**
+   * Get the inclusion proof for a request ID (hex), or null while the
+   * commitment is not part of a sealed round
+   */
+  async getProof(requestId: string): Promise<InclusionProof | null> {
+    this.ensureConnected();
+
+    try {
+      const id = RequestId.fromJSON(requestId);
+      const { inclusionProof } = await this.aggregatorClient.getInclusionProof(id);
+      const status = await inclusionProof.verify(this.getTrustBase(), id);
+
+      if (status !== InclusionProofVerificationStatus.OK) {
+        return null;
+      }
+
+      return {
+        requestId,
+        roundNumber: Number(inclusionProof.unicityCertificate.inputRecord.roundNumber),
+        proof: inclusionProof.toJSON(),
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      logger.warn('LocalAggregator', 'getProof failed', error);
+      return null;
+    }
+  }
+
+  async waitForProof(requestId: string, options?: WaitOptions): Promise<InclusionProof> {
+    const timeout = options?.timeout ?? this.timeout;
+    const pollInterval = options?.pollInterval ?? TIMEOUTS.PROOF_POLL_INTERVAL;
+    const startTime = Date.now();
+    let attempt = 0;
+
+    while (Date.now() - startTime < timeout) {
+      options?.onPoll?.(++attempt);
+
+      const proof = await this.getProof(requestId);
+      if (proof) {
+        this.emitEvent({
+          type: 'proof:received',
+          timestamp: Date.now(),
+          data: { requestId, roundNumber: proof.roundNumber },
+        });
+        return proof;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+
+    throw new SphereError(`Timeout waiting for proof: ${requestId}`, 'TIMEOUT');
+  }
+
+  async validateToken(tokenData: unknown): Promise<ValidationResult> {
+    this.ensureConnected();
+
+    try {
+      const sdkToken = await SdkToken.fromJSON(tokenData);
+      const verifyResult = await sdkToken.verify(this.getTrustBase());
+      const stateHash = (await sdkToken.state.calculateHash()).toJSON();
+      const valid = verifyResult.isSuccessful;
+
+      this.emitEvent({
+        type: 'validation:completed',
+        timestamp: Date.now(),
+        data: { valid },
+      });
+
+      return {
+        valid,
+        spent: await this.isSpent(stateHash),
+        stateHash,
+        error: valid ? undefined : 'SDK verification failed',
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        spent: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Wait for inclusion proof using SDK (for SDK commitments)
+   */
+  async waitForProofSdk(
+    commitment: SdkTransferCommitment | SdkMintCommitment,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    this.ensureConnected();
+
+    return await waitInclusionProof(
+      this.getTrustBase(),
+      this.stateTransitionClient,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      commitment as any,
+      signal
+    );
+  }
+
+  async isSpent(stateHash: string): Promise<boolean> {
+    return this.aggregatorClient.isSpent(stateHash);
+  }
+
+  /**
+   * Always null: like the real aggregator, the local tree is keyed by
+   * request ID and keeps no per-token index
+   */
+  async getTokenState(_tokenId: string): Promise<TokenState | null> {
+    this.ensureConnected();
+    return null;
+  }
+
+  async getCurrentRound(): Promise<number> {
+    return Number(await this.aggregatorClient.getBlockHeight());
+  }
+
+  /**
+   * Mint a fungible token to an address and wait for its inclusion proof.
+   * Only the holder of the minted token data can use the token; use
+   * mintToken() to obtain it for a wallet under test.
+   */
+  async mint(params: MintParams): Promise<MintResult> {
+    this.ensureConnected();
+
+    try {
+      const recipient = await AddressFactory.createAddress(params.recipientAddress);
+      const { commitment } = await this.submitMint(params.coinId, params.amount, recipient);
+      await waitInclusionProof(this.getTrustBase(), this.stateTransitionClient, commitment);
+
+      return {
+        success: true,
+        requestId: commitment.requestId.toJSON(),
+        tokenId: commitment.transactionData.tokenId.toJSON(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Mint a fungible token owned by a private key and return the finalized
+   * SDK token, ready to be stored as a wallet token's `sdkData`
+   */
+  async mintToken(params: LocalMintTokenParams): Promise<SdkToken<IMintTransactionReason>> {
+    this.ensureConnected();
+
+    const signingService = await SigningService.createFromSecret(hexToBytes(params.privateKey));
+    const tokenType = new TokenType(hexToBytes(UNICITY_TOKEN_TYPE_HEX));
+    const reference = await UnmaskedPredicateReference.create(
+      tokenType,
+      signingService.algorithm,
+      signingService.publicKey,
+      HashAlgorithm.SHA256
+    );
+
+    const { commitment, salt } = await this.submitMint(
+      params.coinId,
+      params.amount,
+      await reference.toAddress()
+    );
+    const proof = await waitInclusionProof(this.getTrustBase(), this.stateTransitionClient, commitment);
+
+    const predicate = await UnmaskedPredicate.create(
+      commitment.transactionData.tokenId,
+      tokenType,
+      signingService,
+      HashAlgorithm.SHA256,
+      salt
+    );
+
+    return SdkToken.mint(
+      this.getTrustBase(),
+      new SdkTokenState(predicate, null),
+      commitment.toTransaction(proof)
+    );
+  }
+
+  // ===========================================================================
+  // Local Controls
+  // ===========================================================================
+
+  /** Trust base in JSON form, e.g. for a TrustBaseLoader or a CLI config */
+  getTrustBaseJson(): Record<string, unknown> {
+    return this.aggregatorClient.getTrustBaseJson();
+  }
+
+  /** Close the current round (required with `manualRounds`) */
+  sealRound(): Promise<bigint> {
+    return this.aggregatorClient.sealRound();
+  }
+
+  /** Set the delay added to every aggregator request */
+  setLatency(latencyMs: number): void {
+    this.aggregatorClient.setLatency(latencyMs);
+  }
+
+  /** Set the probability (0..1) that an aggregator request fails */
+  setFailureRate(failureRate: number): void {
+    this.aggregatorClient.setFailureRate(failureRate);
+  }
+
+  /** Fail the next `count` aggregator requests of the given kind */
+  injectFailure(operation: LocalAggregatorOperation | 'any' = 'any', count = 1): void {
+    this.aggregatorClient.injectFailure(operation, count);
+  }
+
+  // ===========================================================================
+  // Event Subscription
+  // ===========================================================================
+
+  onEvent(callback: OracleEventCallback): () => void {
+    this.eventCallbacks.add(callback);
+    return () => this.eventCallbacks.delete(callback);
+  }
+
+  // ===========================================================================
+  // Private: Helpers
+  // ===========================================================================
+
+  private async submitMint(
+    coinIdHex: string,
+    amount: string | bigint,
+    recipient: IAddress
+  ): Promise<{ commitment: MintCommitment<IMintTransactionReason>; salt: Uint8Array }> {
+    const salt = hexToBytes(randomBytes(32));
+    const data = await MintTransactionData.create(
+      new TokenId(hexToBytes(randomBytes(32))),
+      new TokenType(hexToBytes(UNICITY_TOKEN_TYPE_HEX)),
+      null,
+      TokenCoinData.create([[new CoinId(hexToBytes(coinIdHex)), BigInt(amount)]]),
+      recipient,
+      salt,
+      null,
+      null
+    );
+    const commitment = await MintCommitment.create(data);
+
+    const response = await this.stateTransitionClient.submitMintCommitment(commitment);
+    const result = this.toSubmitResult(commitment.requestId.toJSON(), response.status);
+    if (!result.success) {
+      throw new SphereError(`Mint commitment rejected: ${result.error}`, 'AGGREGATOR_ERROR');
+    }
+
+    return { commitment, salt };
+  }
+
+  private toSubmitResult(requestId: string, status: string): SubmitResult {
+    // REQUEST_ID_EXISTS is a resubmission of a commitment the tree already holds
+    if (status !== 'SUCCESS' && status !== 'REQUEST_ID_EXISTS') {
+      return { success: false, requestId, error: status, timestamp: Date.now() };
+    }
+
+    this.emitEvent({
+      type: 'commitment:submitted',
+      timestamp: Date.now(),
+      data: { requestId },
+    });
+
+    return { success: true, requestId, timestamp: Date.now() };
+  }
+
+  private ensureConnected(): void {
+    if (this.status !== 'connected') {
+      throw new SphereError('LocalAggregatorProvider not connected', 'NOT_INITIALIZED');
+    }
+  }
+
+  private emitEvent(event: OracleEvent): void {
+    for (const callback of this.eventCallbacks) {
+      try {
+        callback(event);
+      } catch (error) {
+        this.log('Event callback error:', error);
+      }
+    }
+  }
+
+  private log(message: string, ...args: unknown[]): void {
+    logger.debug('LocalAggregator', message, ...args);
+  }
+}
+
+/**
+ * Create a LocalAggregatorProvider
+ */
+export function createLocalAggregatorProvider(
+  config?: LocalAggregatorProviderConfig
+): LocalAggregatorProvider {
+  return new LocalAggregatorProvider(config);
+}
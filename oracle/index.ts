@@ -1,2 +1,4 @@
 export * from './oracle-provider';
 export * from './UnicityAggregatorProvider';
+export * from './LocalAggregatorClient';
+export * from './LocalAggregatorProvider';
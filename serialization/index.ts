@@ -7,3 +7,4 @@ export * from './wallet-text';
 export * from './wallet-dat';
 export * from './types';
 export * from './txf-serializer';
+export * from './wallet-backup';
@@ -0,0 +1,128 @@
+/**
+ * Full Wallet Backup Format
+ *
+ * Password-encrypted archive of everything a wallet stores: every key/value
+ * storage entry (global and per-address) plus the token storage data and
+ * history of each tracked address. Produced by Sphere.exportBackup() and
+ * consumed by Sphere.restoreBackup().
+ *
+ * Envelope (JSON):
+ * - `format`/`version` identify the archive
+ * - `encryption` is a StorageEncryptionHeader (PBKDF2 from the backup password)
+ * - `payload` is the encrypted backup JSON (AES-256-CBC + HMAC-SHA256)
+ */
+
+import { SphereError } from '../core/errors';
+import { StorageKeyring } from '../storage/storage-encryption';
+import type { StorageEncryptionHeader } from '../storage/storage-encryption';
+import type { HistoryRecord, TxfStorageDataBase } from '../storage';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const WALLET_BACKUP_FORMAT = 'sphere-wallet-backup';
+export const WALLET_BACKUP_VERSION = 1;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Data of one token storage provider for one address */
+export interface WalletBackupTokenSnapshot {
+  providerId: string;
+  providerType: string;
+  data: TxfStorageDataBase | null;
+  history: HistoryRecord[];
+}
+
+export interface WalletBackupAddress {
+  /** HD index */
+  index: number;
+  /** Short address identifier (e.g., "DIRECT_abc123_xyz789") */
+  addressId: string;
+  directAddress: string;
+  tokenStorage: WalletBackupTokenSnapshot[];
+}
+
+/** Decrypted backup contents */
+export interface WalletBackup {
+  version: typeof WALLET_BACKUP_VERSION;
+  createdAt: number;
+  /** Every key/value storage entry by full storage key (decrypted if storage is encrypted at rest) */
+  storage: Record<string, string>;
+  addresses: WalletBackupAddress[];
+}
+
+/** Serialized, encrypted backup */
+export interface EncryptedWalletBackup {
+  format: typeof WALLET_BACKUP_FORMAT;
+  version: typeof WALLET_BACKUP_VERSION;
+  createdAt: number;
+  encryption: StorageEncryptionHeader;
+  payload: string;
+}
+
+// =============================================================================
+// Encryption
+// =============================================================================
+
+/**
+ * Encrypt a backup with a password
+ * @param iterations - PBKDF2 iterations (default: 100000)
+ */
+export function encryptWalletBackup(backup: WalletBackup, password: string, iterations?: number): string {
+  if (!password) {
+    throw new SphereError('Backup password is required', 'VALIDATION_ERROR');
+  }
+  const json = JSON.stringify(backup);
+  const keyring = StorageKeyring.create({ password, iterations });
+  const envelope: EncryptedWalletBackup = {
+    format: WALLET_BACKUP_FORMAT,
+    version: WALLET_BACKUP_VERSION,
+    createdAt: backup.createdAt,
+    encryption: keyring.toHeader(),
+    payload: keyring.encrypt(json, WALLET_BACKUP_FORMAT),
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Check whether a string looks like an encrypted wallet backup
+ */
+export function isWalletBackup(blob: string): boolean {
+  try {
+    return (JSON.parse(blob) as Partial<EncryptedWalletBackup>).format === WALLET_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decrypt and verify a backup.
+ * Throws DECRYPTION_ERROR on a wrong password or tampered archive,
+ * VALIDATION_ERROR if the blob is not a supported backup.
+ */
+export function decryptWalletBackup(blob: string, password: string): WalletBackup {
+  let envelope: EncryptedWalletBackup;
+  try {
+    envelope = JSON.parse(blob) as EncryptedWalletBackup;
+  } catch {
+    throw new SphereError('Not a wallet backup: invalid JSON', 'VALIDATION_ERROR');
+  }
+  if (envelope.format !== WALLET_BACKUP_FORMAT) {
+    throw new SphereError('Not a wallet backup', 'VALIDATION_ERROR');
+  }
+  if (envelope.version !== WALLET_BACKUP_VERSION) {
+    throw new SphereError(`Unsupported wallet backup version ${envelope.version}`, 'VALIDATION_ERROR');
+  }
+
+  const keyring = StorageKeyring.unlock(envelope.encryption, { password });
+  const json = keyring.decrypt(envelope.payload, WALLET_BACKUP_FORMAT);
+
+  const backup = JSON.parse(json) as WalletBackup;
+  if (backup.version !== WALLET_BACKUP_VERSION || typeof backup.storage !== 'object' || !Array.isArray(backup.addresses)) {
+    throw new SphereError('Wallet backup is malformed', 'VALIDATION_ERROR');
+  }
+  return backup;
+}
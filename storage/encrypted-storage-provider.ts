@@ -0,0 +1,430 @@
+/**
+ * Encrypting wrappers for StorageProvider and TokenStorageProvider
+ *
+ * Work with any provider: values are encrypted before they reach the wrapped
+ * provider and decrypted after they are read. Plaintext values written before
+ * encryption was enabled are still readable and get encrypted by reencrypt().
+ * Each value is bound to the storage key it is written under: the wallet's
+ * full key for key-value entries, the address and TXF key for token data.
+ */
+
+import { STORAGE_KEYS_ADDRESS, getAddressId } from '../constants';
+import type { FullIdentity, ProviderStatus, TrackedAddressEntry } from '../types';
+import { StorageKeyring } from './storage-encryption';
+import type { StorageMigration } from './storage-migrator';
+import type {
+  HistoryRecord,
+  LoadResult,
+  SaveResult,
+  StorageEventCallback,
+  StorageProvider,
+  SyncResult,
+  SyncOptions,
+  TokenStorageChanges,
+  TokenStorageProvider,
+  TxfOutboxEntry,
+  TxfStorageDataBase,
+} from './storage-provider';
+
+// =============================================================================
+// Key-Value Storage
+// =============================================================================
+
+const ADDRESS_KEYS = new Set<string>(Object.values(STORAGE_KEYS_ADDRESS));
+
+/**
+ * Per-address keys are encrypted, as passed to get()/set() (`messages`) or as
+ * returned by keys() (`DIRECT_abc123_xyz789_messages`). Global keys stay
+ * plaintext so a wallet can be detected and unlocked before its key is known;
+ * the mnemonic and master key are encrypted separately by Sphere.
+ */
+function isEncryptedKey(key: string): boolean {
+  if (ADDRESS_KEYS.has(key)) return true;
+  const match = /^DIRECT_[^_]*_[^_]*_(.+)$/.exec(key);
+  return match !== null && ADDRESS_KEYS.has(match[1]);
+}
+
+/** Address prefix storage providers put in front of per-address keys */
+function addressScope(identity: FullIdentity | null): string | null {
+  return identity?.directAddress ? getAddressId(identity.directAddress) : null;
+}
+
+/**
+ * StorageProvider wrapper that encrypts per-address values
+ */
+export class EncryptedStorageProvider implements StorageProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly type: StorageProvider['type'];
+  readonly description = 'Encrypted at rest';
+  readonly migrations?: readonly StorageMigration[];
+  private identity: FullIdentity | null = null;
+
+  constructor(
+    private readonly inner: StorageProvider,
+    readonly keyring: StorageKeyring,
+  ) {
+    this.id = inner.id;
+    this.name = inner.name;
+    this.type = inner.type;
+    this.migrations = inner.migrations;
+  }
+
+  // ===========================================================================
+  // BaseProvider Implementation
+  // ===========================================================================
+
+  connect(config?: unknown): Promise<void> {
+    return this.inner.connect(config);
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  getStatus(): ProviderStatus {
+    return this.inner.getStatus();
+  }
+
+  // ===========================================================================
+  // StorageProvider Implementation
+  // ===========================================================================
+
+  setIdentity(identity: FullIdentity): void {
+    this.identity = identity;
+    this.inner.setIdentity(identity);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.inner.get(key);
+    if (value === null || !StorageKeyring.isEncrypted(value)) return value;
+    return this.keyring.decrypt(value, this.fullKey(key));
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.inner.set(key, isEncryptedKey(key) ? this.keyring.encrypt(value, this.fullKey(key)) : value);
+  }
+
+  remove(key: string): Promise<void> {
+    return this.inner.remove(key);
+  }
+
+  has(key: string): Promise<boolean> {
+    return this.inner.has(key);
+  }
+
+  keys(prefix?: string): Promise<string[]> {
+    return this.inner.keys(prefix);
+  }
+
+  clear(prefix?: string): Promise<void> {
+    return this.inner.clear(prefix);
+  }
+
+  saveTrackedAddresses(entries: TrackedAddressEntry[]): Promise<void> {
+    return this.inner.saveTrackedAddresses(entries);
+  }
+
+  loadTrackedAddresses(): Promise<TrackedAddressEntry[]> {
+    return this.inner.loadTrackedAddresses();
+  }
+
+  /**
+   * Encrypt plaintext per-address values and re-encrypt values written with
+   * an older data key. Covers all addresses in the store.
+   * @returns Number of values rewritten
+   */
+  async reencrypt(): Promise<number> {
+    let count = 0;
+    for (const key of await this.inner.keys()) {
+      if (!isEncryptedKey(key)) continue;
+      const value = await this.inner.get(key);
+      if (value === null || this.keyring.isCurrent(value)) continue;
+      const plaintext = StorageKeyring.isEncrypted(value) ? this.keyring.decrypt(value, key) : value;
+      await this.inner.set(key, this.keyring.encrypt(plaintext, key));
+      count++;
+    }
+    return count;
+  }
+
+  /** The key a value is stored under, as keys() returns it */
+  private fullKey(key: string): string {
+    const scope = ADDRESS_KEYS.has(key) ? addressScope(this.identity) : null;
+    return scope ? `${scope}_${key}` : key;
+  }
+}
+
+// =============================================================================
+// Token Storage
+// =============================================================================
+
+/** TXF keys the wrapped providers need in plaintext (metadata, tombstone-driven deletes) */
+const PLAINTEXT_TXF_KEYS = new Set(['_meta', '_tombstones']);
+
+/** Encrypted TXF keys that are not token entries */
+const TXF_LIST_KEYS = new Set(['_outbox', '_sent', '_invalid', '_history']);
+
+/** Stored in place of an encrypted TXF entry or history record payload */
+interface EncryptedEntry {
+  _encrypted: string;
+}
+
+/** Key a history record is encrypted under; apart from TXF keys, which start with `_` */
+function historyKey(dedupKey: string): string {
+  return `history:${dedupKey}`;
+}
+
+function isEncryptedEntry(value: unknown): value is EncryptedEntry {
+  return typeof value === 'object' && value !== null && StorageKeyring.isEncrypted((value as EncryptedEntry)._encrypted);
+}
+
+/**
+ * TokenStorageProvider wrapper that encrypts token entries, outbox, sent and
+ * invalid lists, and history records. `_meta` and `_tombstones` stay
+ * plaintext; history records keep `dedupKey`, `id` and `timestamp` for
+ * indexing. Optional methods are exposed only if the wrapped provider has them.
+ */
+export class EncryptedTokenStorageProvider implements TokenStorageProvider<TxfStorageDataBase> {
+  readonly id: string;
+  readonly name: string;
+  readonly type: TokenStorageProvider['type'];
+  readonly description = 'Encrypted at rest';
+
+  applyChanges?: (changes: TokenStorageChanges) => Promise<SaveResult>;
+  exists?: (identifier?: string) => Promise<boolean>;
+  clear?: () => Promise<boolean>;
+  createForAddress?: () => TokenStorageProvider<TxfStorageDataBase>;
+  onEvent?: (callback: StorageEventCallback) => () => void;
+  addHistoryEntry?: (entry: HistoryRecord) => Promise<void>;
+  getHistoryEntries?: () => Promise<HistoryRecord[]>;
+  hasHistoryEntry?: (dedupKey: string) => Promise<boolean>;
+  clearHistory?: () => Promise<void>;
+  importHistoryEntries?: (entries: HistoryRecord[]) => Promise<number>;
+  readonly migrations?: readonly StorageMigration[];
+  private identity: FullIdentity | null = null;
+
+  constructor(
+    private readonly inner: TokenStorageProvider<TxfStorageDataBase>,
+    readonly keyring: StorageKeyring,
+  ) {
+    this.id = inner.id;
+    this.name = inner.name;
+    this.type = inner.type;
+    this.migrations = inner.migrations;
+
+    if (inner.applyChanges) {
+      this.applyChanges = (changes) => inner.applyChanges!(this.encryptChanges(changes));
+    }
+    if (inner.exists) this.exists = (identifier) => inner.exists!(identifier);
+    if (inner.clear) this.clear = () => inner.clear!();
+    if (inner.createForAddress) {
+      this.createForAddress = () => new EncryptedTokenStorageProvider(inner.createForAddress!(), keyring);
+    }
+    if (inner.onEvent) this.onEvent = (callback) => inner.onEvent!(callback);
+    if (inner.addHistoryEntry) {
+      this.addHistoryEntry = (entry) => inner.addHistoryEntry!(this.encryptHistoryEntry(entry));
+    }
+    if (inner.getHistoryEntries) {
+      this.getHistoryEntries = async () => (await inner.getHistoryEntries!()).map((e) => this.decryptHistoryEntry(e));
+    }
+    if (inner.hasHistoryEntry) this.hasHistoryEntry = (dedupKey) => inner.hasHistoryEntry!(dedupKey);
+    if (inner.clearHistory) this.clearHistory = () => inner.clearHistory!();
+    if (inner.importHistoryEntries) {
+      this.importHistoryEntries = (entries) =>
+        inner.importHistoryEntries!(entries.map((e) => this.encryptHistoryEntry(e)));
+    }
+  }
+
+  // ===========================================================================
+  // BaseProvider Implementation
+  // ===========================================================================
+
+  connect(config?: unknown): Promise<void> {
+    return this.inner.connect(config);
+  }
+
+  disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected();
+  }
+
+  getStatus(): ProviderStatus {
+    return this.inner.getStatus();
+  }
+
+  // ===========================================================================
+  // TokenStorageProvider Implementation
+  // ===========================================================================
+
+  setIdentity(identity: FullIdentity): void {
+    this.identity = identity;
+    this.inner.setIdentity(identity);
+  }
+
+  /**
+   * Initialize the wrapped provider, then bring its data to the current key
+   * (see reencrypt()). Addresses opened later migrate the same way.
+   */
+  async initialize(): Promise<boolean> {
+    const initialized = await this.inner.initialize();
+    if (initialized) {
+      await this.reencrypt();
+    }
+    return initialized;
+  }
+
+  shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+
+  save(data: TxfStorageDataBase): Promise<SaveResult> {
+    return this.inner.save(this.encryptData(data));
+  }
+
+  async load(identifier?: string): Promise<LoadResult<TxfStorageDataBase>> {
+    const result = await this.inner.load(identifier);
+    if (!result.data) return result;
+    try {
+      return { ...result, data: this.decryptData(result.data) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        source: result.source,
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  async sync(localData: TxfStorageDataBase, options?: SyncOptions): Promise<SyncResult<TxfStorageDataBase>> {
+    const result = await this.inner.sync(this.encryptData(localData), {
+      ...options,
+      decodeEntry: (value, key) => {
+        const decrypted = this.decryptValue(key, value);
+        return options?.decodeEntry ? options.decodeEntry(decrypted, key) : decrypted;
+      },
+    });
+    return result.merged ? { ...result, merged: this.decryptData(result.merged) } : result;
+  }
+
+  /**
+   * Encrypt plaintext entries and history records and re-encrypt ones written
+   * with an older data key.
+   * @returns Number of entries rewritten
+   */
+  async reencrypt(): Promise<number> {
+    let count = 0;
+
+    const { data } = await this.inner.load();
+    if (data) {
+      const stale: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(data)) {
+        if (PLAINTEXT_TXF_KEYS.has(key) || value === undefined) continue;
+        if (isEncryptedEntry(value) && this.keyring.isCurrent(value._encrypted)) continue;
+        stale[key] = this.decryptValue(key, value);
+      }
+      count += Object.keys(stale).length;
+      if (count > 0) {
+        // applyChanges() only takes token entries; lists need a full save
+        if (this.inner.applyChanges && !Object.keys(stale).some((key) => TXF_LIST_KEYS.has(key))) {
+          await this.inner.applyChanges(this.encryptChanges({ upserted: stale }));
+        } else {
+          await this.inner.save(this.encryptData(this.decryptData(data)));
+        }
+      }
+    }
+
+    if (this.inner.getHistoryEntries && this.inner.addHistoryEntry) {
+      for (const entry of await this.inner.getHistoryEntries()) {
+        const payload = (entry as unknown as Partial<EncryptedEntry>)._encrypted;
+        if (payload && this.keyring.isCurrent(payload)) continue;
+        await this.inner.addHistoryEntry(this.encryptHistoryEntry(this.decryptHistoryEntry(entry)));
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  // ===========================================================================
+  // Private: Encryption
+  // ===========================================================================
+
+  /** Name a TXF entry or history record is encrypted under */
+  private entryName(key: string): string {
+    const scope = addressScope(this.identity);
+    return scope ? `${scope}_${key}` : key;
+  }
+
+  private encryptValue(key: string, value: unknown): EncryptedEntry {
+    return { _encrypted: this.keyring.encrypt(JSON.stringify(value), this.entryName(key)) };
+  }
+
+  private decryptValue(key: string, value: unknown): unknown {
+    return isEncryptedEntry(value) ? JSON.parse(this.keyring.decrypt(value._encrypted, this.entryName(key))) : value;
+  }
+
+  private encryptData(data: TxfStorageDataBase): TxfStorageDataBase {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      result[key] = PLAINTEXT_TXF_KEYS.has(key) ? value : this.encryptValue(key, value);
+    }
+    return result as unknown as TxfStorageDataBase;
+  }
+
+  private decryptData(data: TxfStorageDataBase): TxfStorageDataBase {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = this.decryptValue(key, value);
+    }
+    return result as unknown as TxfStorageDataBase;
+  }
+
+  private encryptChanges(changes: TokenStorageChanges): TokenStorageChanges {
+    const upserted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(changes.upserted ?? {})) {
+      upserted[key] = this.encryptValue(key, value);
+    }
+    return {
+      ...changes,
+      upserted,
+      ...(changes.outbox ? { outbox: this.encryptValue('_outbox', changes.outbox) as unknown as TxfOutboxEntry[] } : {}),
+    };
+  }
+
+  private encryptHistoryEntry(entry: HistoryRecord): HistoryRecord {
+    const { dedupKey, id, timestamp } = entry;
+    return { dedupKey, id, timestamp, ...this.encryptValue(historyKey(dedupKey), entry) } as unknown as HistoryRecord;
+  }
+
+  private decryptHistoryEntry(entry: HistoryRecord): HistoryRecord {
+    const payload = (entry as unknown as Partial<EncryptedEntry>)._encrypted;
+    return payload ? JSON.parse(this.keyring.decrypt(payload, this.entryName(historyKey(entry.dedupKey)))) as HistoryRecord : entry;
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+export function createEncryptedStorageProvider(
+  storage: StorageProvider,
+  keyring: StorageKeyring,
+): EncryptedStorageProvider {
+  return new EncryptedStorageProvider(storage, keyring);
+}
+
+export function createEncryptedTokenStorageProvider(
+  tokenStorage: TokenStorageProvider<TxfStorageDataBase>,
+  keyring: StorageKeyring,
+): EncryptedTokenStorageProvider {
+  return new EncryptedTokenStorageProvider(tokenStorage, keyring);
+}
@@ -1 +1,5 @@
 export * from './storage-provider';
+export * from './merge-policy';
+export * from './storage-encryption';
+export * from './encrypted-storage-provider';
+export * from './storage-migrator';
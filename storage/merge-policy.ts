@@ -0,0 +1,61 @@
+/**
+ * Sync Merge Policies
+ *
+ * When local and remote token storage hold different versions of the same
+ * token, a MergePolicy decides which one stays active. The other version is
+ * kept as a forked copy (see PaymentsModule.getForkedTokens()) and can be
+ * promoted later with PaymentsModule.resolveConflict().
+ */
+
+import type { TxfToken } from '../types/txf';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MergeSide = 'local' | 'remote';
+
+/** Two versions of one token met during a merge */
+export interface TokenConflict {
+  /** Genesis token ID */
+  tokenId: string;
+  local: TxfToken;
+  remote: TxfToken;
+  localStateHash?: string;
+  remoteStateHash?: string;
+}
+
+/** Picks the version of a conflicting token that stays active */
+export type MergePolicy = (conflict: TokenConflict) => MergeSide;
+
+/** How a token conflict was resolved */
+export interface ConflictReport {
+  /** Genesis token ID */
+  tokenId: string;
+  localStateHash?: string;
+  remoteStateHash?: string;
+  chosen: MergeSide;
+  /**
+   * Key of the forked copy holding the other version (`{tokenId}_{stateHash}`,
+   * as in getForkedTokens()). Absent when both versions have the same state.
+   */
+  forkedId?: string;
+}
+
+// =============================================================================
+// Built-in Policies
+// =============================================================================
+
+function committedTransactions(txf: TxfToken): number {
+  return (txf.transactions ?? []).filter((tx) => tx.inclusionProof !== null).length;
+}
+
+/** Keep the local version (default) */
+export const localWinsMergePolicy: MergePolicy = () => 'local';
+
+/** Keep the remote version */
+export const remoteWinsMergePolicy: MergePolicy = () => 'remote';
+
+/** Keep the version with more committed transactions; local on a tie */
+export const longestHistoryMergePolicy: MergePolicy = ({ local, remote }) =>
+  committedTransactions(remote) > committedTransactions(local) ? 'remote' : 'local';
@@ -0,0 +1,347 @@
+/**
+ * At-rest encryption keys for storage providers
+ *
+ * Envelope scheme: values are encrypted with a random data key; the data key
+ * is stored wrapped with a key-encryption key derived from the wallet master
+ * key (HKDF) or a user password (PBKDF2). Changing the secret only re-wraps
+ * the data key; rotating the data key requires re-encrypting stored values.
+ *
+ * Value format: `enc2:<keyId>:<iv hex>:<ciphertext base64>:<hmac hex>`
+ * (AES-256-CBC, then HMAC-SHA256 over keyId, IV, ciphertext and the name the
+ * value is stored under, so a value copied to another storage key fails to
+ * decrypt). Legacy `enc1:` values carry no name; they are still read and are
+ * never current, so reencrypt() rewrites them.
+ */
+
+import CryptoJS from 'crypto-js';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { pbkdf2 } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { SphereError } from '../core/errors';
+import { bytesToHex, hexToBytes } from '../core/crypto';
+import { STORAGE_KEYS_GLOBAL } from '../constants';
+import type { StorageProvider } from './storage-provider';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Secret the key-encryption key is derived from */
+export type StorageKeySource =
+  | { masterKey: string }
+  | { password: string; iterations?: number };
+
+/** Persisted under STORAGE_KEYS_GLOBAL.STORAGE_ENCRYPTION (plaintext) */
+export interface StorageEncryptionHeader {
+  version: 1;
+  kdf: 'hkdf' | 'pbkdf2';
+  /** KDF salt (hex) */
+  salt: string;
+  /** PBKDF2 iterations (pbkdf2 only) */
+  iterations?: number;
+  /** Key ID new values are encrypted with */
+  currentKeyId: string;
+  /** Wrapped data keys by key ID; older keys remain until their data is re-encrypted */
+  keys: Record<string, string>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const VALUE_PREFIX = 'enc2:';
+/** Values from before the MAC covered the storage name */
+const LEGACY_VALUE_PREFIX = 'enc1:';
+const KEK_HKDF_INFO = 'sphere-storage-kek-v1';
+const DEFAULT_PBKDF2_ITERATIONS = 100000;
+
+interface CipherKeys {
+  aes: CryptoJS.lib.WordArray;
+  mac: CryptoJS.lib.WordArray;
+}
+
+// =============================================================================
+// Primitives
+// =============================================================================
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function toWordArray(bytes: Uint8Array): CryptoJS.lib.WordArray {
+  return CryptoJS.enc.Hex.parse(bytesToHex(bytes));
+}
+
+/** Split one 32-byte key into independent AES and HMAC keys */
+function expandKey(key: Uint8Array): CipherKeys {
+  return {
+    aes: toWordArray(hkdf(sha256, key, undefined, utf8('sphere-storage-aes'), 32)),
+    mac: toWordArray(hkdf(sha256, key, undefined, utf8('sphere-storage-mac'), 32)),
+  };
+}
+
+function macInput(keyId: string, iv: string, ciphertext: string, name: string | null): string {
+  return name === null ? `${keyId}:${iv}:${ciphertext}` : `${keyId}:${iv}:${ciphertext}:${name}`;
+}
+
+function seal(keys: CipherKeys, keyId: string, plaintext: string, name: string): string {
+  const iv = CryptoJS.lib.WordArray.random(16);
+  const encrypted = CryptoJS.AES.encrypt(plaintext, keys.aes, {
+    iv,
+    mode: CryptoJS.mode.CBC,
+    padding: CryptoJS.pad.Pkcs7,
+  });
+  const ivHex = iv.toString(CryptoJS.enc.Hex);
+  const ciphertext = encrypted.ciphertext.toString(CryptoJS.enc.Base64);
+  const mac = CryptoJS.HmacSHA256(macInput(keyId, ivHex, ciphertext, name), keys.mac).toString(CryptoJS.enc.Hex);
+  return `${VALUE_PREFIX}${keyId}:${ivHex}:${ciphertext}:${mac}`;
+}
+
+function parseSealed(value: string): { legacy: boolean; keyId: string; iv: string; ciphertext: string; mac: string } {
+  const legacy = value.startsWith(LEGACY_VALUE_PREFIX);
+  const parts = value.slice(VALUE_PREFIX.length).split(':');
+  if (!(legacy || value.startsWith(VALUE_PREFIX)) || parts.length !== 4) {
+    throw new SphereError('Invalid encrypted storage value', 'DECRYPTION_ERROR');
+  }
+  const [keyId, iv, ciphertext, mac] = parts;
+  return { legacy, keyId, iv, ciphertext, mac };
+}
+
+/** Compare MACs without leaking where they differ */
+function macEquals(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function open(keys: CipherKeys, value: string, name: string): string {
+  const { legacy, keyId, iv, ciphertext, mac } = parseSealed(value);
+  const expected = CryptoJS.HmacSHA256(macInput(keyId, iv, ciphertext, legacy ? null : name), keys.mac).toString(CryptoJS.enc.Hex);
+  if (!macEquals(expected, mac.toLowerCase())) {
+    throw new SphereError('Decryption failed: wrong storage key, or the value was altered or moved', 'DECRYPTION_ERROR');
+  }
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(ciphertext) }),
+    keys.aes,
+    { iv: CryptoJS.enc.Hex.parse(iv), mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 },
+  );
+  return decrypted.toString(CryptoJS.enc.Utf8);
+}
+
+/** Name a wrapped data key is sealed under, so wrapped keys cannot trade places in the header */
+function wrappedKeyName(keyId: string): string {
+  return `key:${keyId}`;
+}
+
+function randomHex(bytes: number): string {
+  return CryptoJS.lib.WordArray.random(bytes).toString(CryptoJS.enc.Hex);
+}
+
+function deriveKek(source: StorageKeySource, salt: string, iterations?: number): CipherKeys {
+  if ('masterKey' in source) {
+    return expandKey(hkdf(sha256, hexToBytes(source.masterKey), hexToBytes(salt), utf8(KEK_HKDF_INFO), 32));
+  }
+  return expandKey(pbkdf2(sha256, utf8(source.password), hexToBytes(salt), {
+    c: iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+    dkLen: 32,
+  }));
+}
+
+// =============================================================================
+// Keyring
+// =============================================================================
+
+/**
+ * Unlocked storage data keys.
+ * Shared by EncryptedStorageProvider and EncryptedTokenStorageProvider.
+ */
+export class StorageKeyring {
+  private kdf: StorageEncryptionHeader['kdf'];
+  private salt: string;
+  private iterations: number | undefined;
+  private kek: CipherKeys;
+  private _currentKeyId: string;
+  /** Data keys by key ID (hex) */
+  private dataKeys: Map<string, string>;
+  private expanded: Map<string, CipherKeys> = new Map();
+  private _headerOutdated = false;
+
+  private constructor(
+    kdf: StorageEncryptionHeader['kdf'],
+    salt: string,
+    iterations: number | undefined,
+    kek: CipherKeys,
+    currentKeyId: string,
+    dataKeys: Map<string, string>,
+  ) {
+    this.kdf = kdf;
+    this.salt = salt;
+    this.iterations = iterations;
+    this.kek = kek;
+    this._currentKeyId = currentKeyId;
+    this.dataKeys = dataKeys;
+  }
+
+  /**
+   * Create a keyring with a fresh random data key
+   */
+  static create(source: StorageKeySource): StorageKeyring {
+    const { kdf, salt, iterations } = StorageKeyring.kdfParams(source);
+    const keyId = randomHex(4);
+    return new StorageKeyring(
+      kdf,
+      salt,
+      iterations,
+      deriveKek(source, salt, iterations),
+      keyId,
+      new Map([[keyId, randomHex(32)]]),
+    );
+  }
+
+  /**
+   * Unwrap the data keys of a stored header.
+   * Throws DECRYPTION_ERROR if the secret does not match.
+   */
+  static unlock(header: StorageEncryptionHeader, source: StorageKeySource): StorageKeyring {
+    if (header.version !== 1) {
+      throw new SphereError(`Unsupported storage encryption version ${header.version}`, 'STORAGE_ERROR');
+    }
+    if ((header.kdf === 'hkdf') !== ('masterKey' in source)) {
+      throw new SphereError(`Storage is encrypted with a ${header.kdf === 'hkdf' ? 'master key' : 'password'}`, 'DECRYPTION_ERROR');
+    }
+
+    const kek = deriveKek(source, header.salt, header.iterations);
+    const dataKeys = new Map<string, string>();
+    for (const [keyId, wrapped] of Object.entries(header.keys)) {
+      dataKeys.set(keyId, open(kek, wrapped, wrappedKeyName(keyId)));
+    }
+    if (!dataKeys.has(header.currentKeyId)) {
+      throw new SphereError('Storage encryption header has no current key', 'STORAGE_ERROR');
+    }
+    const keyring = new StorageKeyring(header.kdf, header.salt, header.iterations, kek, header.currentKeyId, dataKeys);
+    keyring._headerOutdated = Object.values(header.keys).some((wrapped) => parseSealed(wrapped).legacy);
+    return keyring;
+  }
+
+  /**
+   * Read the header from a (raw) storage provider. Null if storage is not encrypted.
+   */
+  static async readHeader(storage: StorageProvider): Promise<StorageEncryptionHeader | null> {
+    const json = await storage.get(STORAGE_KEYS_GLOBAL.STORAGE_ENCRYPTION);
+    return json ? JSON.parse(json) as StorageEncryptionHeader : null;
+  }
+
+  /**
+   * Whether a stored value was produced by a keyring
+   */
+  static isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && (value.startsWith(VALUE_PREFIX) || value.startsWith(LEGACY_VALUE_PREFIX));
+  }
+
+  private static kdfParams(source: StorageKeySource) {
+    return 'masterKey' in source
+      ? { kdf: 'hkdf' as const, salt: randomHex(16), iterations: undefined }
+      : { kdf: 'pbkdf2' as const, salt: randomHex(16), iterations: source.iterations ?? DEFAULT_PBKDF2_ITERATIONS };
+  }
+
+  get currentKeyId(): string {
+    return this._currentKeyId;
+  }
+
+  /** True if the unlocked header holds legacy wrapped keys; save it to upgrade them */
+  get headerOutdated(): boolean {
+    return this._headerOutdated;
+  }
+
+  /** IDs of all data keys, including ones kept for not yet re-encrypted data */
+  get keyIds(): string[] {
+    return [...this.dataKeys.keys()];
+  }
+
+  /**
+   * Encrypt a value stored under `name` (e.g. its full storage key).
+   * The value only decrypts under the same name.
+   */
+  encrypt(plaintext: string, name: string): string {
+    return seal(this.keysFor(this._currentKeyId), this._currentKeyId, plaintext, name);
+  }
+
+  /** Decrypt a value read from `name`; throws DECRYPTION_ERROR if it was stored under another name */
+  decrypt(value: string, name: string): string {
+    return open(this.keysFor(parseSealed(value).keyId), value, name);
+  }
+
+  /** True if the value is encrypted with the current data key in the current format */
+  isCurrent(value: string): boolean {
+    if (!StorageKeyring.isEncrypted(value)) return false;
+    const { legacy, keyId } = parseSealed(value);
+    return !legacy && keyId === this._currentKeyId;
+  }
+
+  /**
+   * Generate a new data key for all new writes. Previous keys stay available
+   * for decryption until retireKeys().
+   */
+  rotate(): string {
+    const keyId = randomHex(4);
+    this.dataKeys.set(keyId, randomHex(32));
+    this._currentKeyId = keyId;
+    return keyId;
+  }
+
+  /** Drop all data keys except the current one (after re-encrypting stored data) */
+  retireKeys(): void {
+    for (const keyId of [...this.dataKeys.keys()]) {
+      if (keyId !== this._currentKeyId) {
+        this.dataKeys.delete(keyId);
+        this.expanded.delete(keyId);
+      }
+    }
+  }
+
+  /** Re-wrap the data keys with a new secret (e.g. a changed password). Stored values are unaffected. */
+  changeKeySource(source: StorageKeySource): void {
+    const { kdf, salt, iterations } = StorageKeyring.kdfParams(source);
+    this.kdf = kdf;
+    this.salt = salt;
+    this.iterations = iterations;
+    this.kek = deriveKek(source, salt, iterations);
+  }
+
+  toHeader(): StorageEncryptionHeader {
+    const keys: Record<string, string> = {};
+    for (const [keyId, key] of this.dataKeys) {
+      keys[keyId] = seal(this.kek, 'kek', key, wrappedKeyName(keyId));
+    }
+    return {
+      version: 1,
+      kdf: this.kdf,
+      salt: this.salt,
+      ...(this.iterations !== undefined ? { iterations: this.iterations } : {}),
+      currentKeyId: this._currentKeyId,
+      keys,
+    };
+  }
+
+  /** Persist the header to a (raw) storage provider */
+  async saveHeader(storage: StorageProvider): Promise<void> {
+    await storage.set(STORAGE_KEYS_GLOBAL.STORAGE_ENCRYPTION, JSON.stringify(this.toHeader()));
+    this._headerOutdated = false;
+  }
+
+  private keysFor(keyId: string): CipherKeys {
+    let keys = this.expanded.get(keyId);
+    if (!keys) {
+      const key = this.dataKeys.get(keyId);
+      if (!key) {
+        throw new SphereError(`Unknown storage key ${keyId}`, 'DECRYPTION_ERROR');
+      }
+      keys = expandKey(hexToBytes(key));
+      this.expanded.set(keyId, keys);
+    }
+    return keys;
+  }
+}
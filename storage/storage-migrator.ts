@@ -0,0 +1,427 @@
+/**
+ * Storage schema migrations
+ *
+ * Each wallet stores the schema version it was last migrated to, per
+ * namespace: `sphere` for the SDK's own data, plus one namespace per storage
+ * provider that brings its own migrations. StorageMigrator runs the pending
+ * migrations of each namespace in version order during Sphere.load(), and
+ * restores a snapshot of the wallet's storage if one of them fails. Token
+ * data belongs to one address, so Sphere keeps versions per address too and
+ * runs the migrations once for every address's tokens.
+ */
+
+import { logger } from '../core/logger';
+import { SphereError } from '../core/errors';
+import { STORAGE_KEYS_GLOBAL } from '../constants';
+import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase } from './storage-provider';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Namespace of the SDK's own migrations */
+export const SPHERE_MIGRATION_NAMESPACE = 'sphere';
+
+/** Key-value access for migrations; writes stay in memory during a dry run */
+export interface MigrationStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  has(key: string): Promise<boolean>;
+  keys(prefix?: string): Promise<string[]>;
+}
+
+/** TXF token data of the active address; writes stay in memory during a dry run */
+export interface MigrationTokenStore {
+  load(): Promise<TxfStorageDataBase | null>;
+  /** Write the entries of `data`; stored entries missing from it are kept */
+  save(data: TxfStorageDataBase): Promise<void>;
+  /** Delete entries by TXF key (needs a provider with applyChanges()) */
+  remove(keys: string[]): Promise<void>;
+}
+
+export interface MigrationContext {
+  storage: MigrationStore;
+  /** Absent when the wallet has no token storage */
+  tokens?: MigrationTokenStore;
+  dryRun: boolean;
+}
+
+export interface StorageMigration {
+  /** Namespace the version belongs to (default: `sphere`); providers use their id */
+  namespace?: string;
+  /** Schema version this migration upgrades to (unique and > 0 within the namespace) */
+  version: number;
+  name: string;
+  /**
+   * Upgrade from the previous version. Must be idempotent: after an
+   * interrupted run it is applied again to partly migrated data, and it runs
+   * once per address (with that address's `tokens`) against the same storage.
+   */
+  up(ctx: MigrationContext): Promise<void>;
+  /** Downgrade to the previous version, for rollback() */
+  down?(ctx: MigrationContext): Promise<void>;
+}
+
+/** Schema version per namespace */
+export type SchemaVersions = Record<string, number>;
+
+/** Wallet storage as it was before a migration run */
+export interface StorageMigrationSnapshot {
+  versions: SchemaVersions;
+  entries: Record<string, string>;
+  tokenData?: TxfStorageDataBase;
+  createdAt: number;
+}
+
+export interface MigrationProgress {
+  namespace: string;
+  version: number;
+  name: string;
+  /** 1-based position in this run */
+  index: number;
+  total: number;
+  direction: 'up' | 'down';
+}
+
+export interface MigrateOptions {
+  /** Run against an in-memory overlay and leave storage untouched */
+  dryRun?: boolean;
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  from: SchemaVersions;
+  to: SchemaVersions;
+  applied: Array<{ namespace: string; version: number; name: string; direction: 'up' | 'down' }>;
+  /** Keys written or removed by the migrations */
+  changedKeys: string[];
+  /** Storage before the run (null if nothing ran or dry run); pass to restore() to undo */
+  snapshot: StorageMigrationSnapshot | null;
+}
+
+// =============================================================================
+// Core Migrations
+// =============================================================================
+
+/**
+ * The SDK's own migrations, in version order. Append only: released entries
+ * must never be edited, renumbered or removed.
+ */
+export const SPHERE_STORAGE_MIGRATIONS: readonly StorageMigration[] = [];
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/** Records changed keys; in a dry run also keeps the writes in memory */
+class RecordingStore implements MigrationStore {
+  /** Dry-run writes; null marks a removed key */
+  private readonly overlay = new Map<string, string | null>();
+  readonly changed = new Set<string>();
+
+  constructor(private readonly inner: StorageProvider, private readonly dryRun: boolean) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.overlay.has(key) ? this.overlay.get(key)! : this.inner.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.changed.add(key);
+    if (this.dryRun) this.overlay.set(key, value);
+    else await this.inner.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.changed.add(key);
+    if (this.dryRun) this.overlay.set(key, null);
+    else await this.inner.remove(key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.get(key)) !== null;
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    const keys = new Set(await this.inner.keys(prefix));
+    for (const [key, value] of this.overlay) {
+      if (prefix && !key.startsWith(prefix)) continue;
+      if (value === null) keys.delete(key);
+      else keys.add(key);
+    }
+    return [...keys];
+  }
+}
+
+/**
+ * Runs registered storage migrations against one wallet
+ */
+export class StorageMigrator {
+  private readonly storage: StorageProvider;
+  private readonly tokenStorage: TokenStorageProvider<TxfStorageDataBase> | undefined;
+  private readonly migrations: Map<string, StorageMigration[]> = new Map();
+  /** Storage key of the versions this migrator reads and advances */
+  private readonly versionsKey: string;
+
+  constructor(
+    storage: StorageProvider,
+    tokenStorage?: TokenStorageProvider<TxfStorageDataBase>,
+    migrations: readonly StorageMigration[] = SPHERE_STORAGE_MIGRATIONS,
+    versionsKey: string = STORAGE_KEYS_GLOBAL.SCHEMA_VERSIONS,
+  ) {
+    this.storage = storage;
+    this.tokenStorage = tokenStorage;
+    this.versionsKey = versionsKey;
+    for (const migration of migrations) {
+      this.register(migration);
+    }
+  }
+
+  /**
+   * Add a migration. Namespaces run in the order they were first registered.
+   * Throws INVALID_CONFIG on a duplicate or invalid version.
+   */
+  register(migration: StorageMigration): this {
+    const namespace = migration.namespace ?? SPHERE_MIGRATION_NAMESPACE;
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new SphereError(`Invalid version ${migration.version} for migration "${migration.name}"`, 'INVALID_CONFIG');
+    }
+    const list = this.migrations.get(namespace) ?? [];
+    if (list.some((m) => m.version === migration.version)) {
+      throw new SphereError(`Duplicate migration version ${namespace}@${migration.version}`, 'INVALID_CONFIG');
+    }
+    list.push(migration);
+    list.sort((a, b) => a.version - b.version);
+    this.migrations.set(namespace, list);
+    return this;
+  }
+
+  /** Stored schema versions (0 for namespaces never migrated) */
+  async getVersions(): Promise<SchemaVersions> {
+    const json = await this.storage.get(this.versionsKey);
+    const stored = json ? JSON.parse(json) as SchemaVersions : {};
+    const versions: SchemaVersions = { ...stored };
+    for (const namespace of this.migrations.keys()) {
+      versions[namespace] ??= 0;
+    }
+    return versions;
+  }
+
+  /** Latest version of every registered namespace */
+  getLatestVersions(): SchemaVersions {
+    const versions: SchemaVersions = {};
+    for (const [namespace, list] of this.migrations) {
+      versions[namespace] = list[list.length - 1].version;
+    }
+    return versions;
+  }
+
+  /** Migrations not yet applied to this wallet, in run order */
+  async getPending(): Promise<StorageMigration[]> {
+    const versions = await this.getVersions();
+    const pending: StorageMigration[] = [];
+    for (const [namespace, list] of this.migrations) {
+      pending.push(...list.filter((m) => m.version > versions[namespace]));
+    }
+    return pending;
+  }
+
+  /**
+   * Record the latest versions without running anything, for a wallet
+   * created with the current schema.
+   */
+  async markCurrent(): Promise<void> {
+    await this.saveVersions({ ...(await this.getVersions()), ...this.getLatestVersions() });
+  }
+
+  /**
+   * Apply all pending migrations. Each version is stored as soon as its
+   * migration completes; if one fails, storage is restored from the snapshot
+   * taken before the run and STORAGE_ERROR is thrown.
+   */
+  async migrate(options: MigrateOptions = {}): Promise<MigrationReport> {
+    const versions = await this.getVersions();
+    for (const [namespace, version] of Object.entries(this.getLatestVersions())) {
+      if (versions[namespace] > version) {
+        logger.warn('Storage', `Schema ${namespace}@${versions[namespace]} is newer than this SDK supports (${version})`);
+      }
+    }
+    const pending = await this.getPending();
+    return this.run(pending.map((migration) => ({ migration, direction: 'up' as const })), versions, options);
+  }
+
+  /**
+   * Undo migrations of a namespace down to `toVersion` using their `down`
+   * step. Throws INVALID_CONFIG, before changing anything, if one has none.
+   */
+  async rollback(
+    toVersion: number,
+    options: MigrateOptions & { namespace?: string } = {},
+  ): Promise<MigrationReport> {
+    const namespace = options.namespace ?? SPHERE_MIGRATION_NAMESPACE;
+    const versions = await this.getVersions();
+    const steps = (this.migrations.get(namespace) ?? [])
+      .filter((m) => m.version > toVersion && m.version <= (versions[namespace] ?? 0))
+      .reverse();
+    const missing = steps.find((m) => !m.down);
+    if (missing) {
+      throw new SphereError(`Migration ${namespace}@${missing.version} "${missing.name}" cannot be rolled back`, 'INVALID_CONFIG');
+    }
+    return this.run(steps.map((migration) => ({ migration, direction: 'down' as const })), versions, options);
+  }
+
+  /**
+   * Write a snapshot back, e.g. the one of a report, to undo a migration run.
+   * Keys created since the snapshot are removed.
+   */
+  async restore(snapshot: StorageMigrationSnapshot): Promise<void> {
+    for (const key of await this.storage.keys()) {
+      if (!(key in snapshot.entries)) {
+        await this.storage.remove(key);
+      }
+    }
+    for (const [key, value] of Object.entries(snapshot.entries)) {
+      await this.storage.set(key, value);
+    }
+    await this.saveVersions(snapshot.versions);
+    if (snapshot.tokenData && this.tokenStorage) {
+      const current = await this.loadTokenData();
+      const added = Object.keys(current ?? {}).filter((key) => !(key in snapshot.tokenData!));
+      if (added.length > 0 && this.tokenStorage.applyChanges) {
+        await this.removeTokens(added);
+      }
+      await this.writeTokens(snapshot.tokenData);
+    }
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  private async run(
+    steps: Array<{ migration: StorageMigration; direction: 'up' | 'down' }>,
+    from: SchemaVersions,
+    options: MigrateOptions,
+  ): Promise<MigrationReport> {
+    const dryRun = options.dryRun ?? false;
+    const report: MigrationReport = { dryRun, from, to: { ...from }, applied: [], changedKeys: [], snapshot: null };
+    if (steps.length === 0) return report;
+
+    const store = new RecordingStore(this.storage, dryRun);
+    let tokenOverlay: TxfStorageDataBase | null = null;
+    const loadTokens = async () => tokenOverlay ?? await this.loadTokenData();
+    const tokens: MigrationTokenStore | undefined = this.tokenStorage && {
+      load: loadTokens,
+      save: async (data) => {
+        if (dryRun) {
+          tokenOverlay = { ...(await loadTokens()), ...data };
+        } else {
+          await this.writeTokens(data);
+        }
+      },
+      remove: async (keys) => {
+        if (dryRun) {
+          const current = { ...(await loadTokens()) } as Record<string, unknown>;
+          for (const key of keys) delete current[key];
+          tokenOverlay = current as unknown as TxfStorageDataBase;
+        } else {
+          await this.removeTokens(keys);
+        }
+      },
+    };
+    const ctx: MigrationContext = { storage: store, tokens, dryRun };
+
+    const snapshot = dryRun ? null : await this.takeSnapshot(from);
+    report.snapshot = snapshot;
+
+    for (const [i, { migration, direction }] of steps.entries()) {
+      const namespace = migration.namespace ?? SPHERE_MIGRATION_NAMESPACE;
+      options.onProgress?.({
+        namespace,
+        version: migration.version,
+        name: migration.name,
+        index: i + 1,
+        total: steps.length,
+        direction,
+      });
+      try {
+        await (direction === 'up' ? migration.up(ctx) : migration.down!(ctx));
+      } catch (err) {
+        if (snapshot) {
+          await this.restore(snapshot).catch((restoreErr) => {
+            logger.error('Storage', 'Restoring the pre-migration snapshot failed:', restoreErr);
+          });
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        throw new SphereError(`Storage migration ${namespace}@${migration.version} "${migration.name}" failed: ${message}`, 'STORAGE_ERROR', err);
+      }
+
+      report.to[namespace] = direction === 'up' ? migration.version : this.previousVersion(namespace, migration.version);
+      report.applied.push({ namespace, version: migration.version, name: migration.name, direction });
+      if (!dryRun) {
+        await this.saveVersions(report.to);
+      }
+      logger.debug('Storage', `Migration ${namespace}@${migration.version} "${migration.name}" ${direction === 'up' ? 'applied' : 'rolled back'}${dryRun ? ' (dry run)' : ''}`);
+    }
+
+    report.changedKeys = [...store.changed];
+    return report;
+  }
+
+  private previousVersion(namespace: string, version: number): number {
+    const earlier = (this.migrations.get(namespace) ?? []).filter((m) => m.version < version);
+    return earlier.length > 0 ? earlier[earlier.length - 1].version : 0;
+  }
+
+  private async takeSnapshot(versions: SchemaVersions): Promise<StorageMigrationSnapshot> {
+    const entries: Record<string, string> = {};
+    for (const key of await this.storage.keys()) {
+      if (key === this.versionsKey) continue;
+      const value = await this.storage.get(key);
+      if (value !== null) entries[key] = value;
+    }
+    const tokenData = await this.loadTokenData();
+    return { versions: { ...versions }, entries, tokenData: tokenData ?? undefined, createdAt: Date.now() };
+  }
+
+  private async loadTokenData(): Promise<TxfStorageDataBase | null> {
+    if (!this.tokenStorage) return null;
+    const result = await this.tokenStorage.load();
+    return result.success && result.data ? result.data : null;
+  }
+
+  private async writeTokens(data: TxfStorageDataBase): Promise<void> {
+    const result = await this.tokenStorage!.save(data);
+    if (!result.success) {
+      throw new SphereError(`Token storage save failed: ${result.error}`, 'STORAGE_ERROR');
+    }
+  }
+
+  private async removeTokens(keys: string[]): Promise<void> {
+    if (!this.tokenStorage!.applyChanges) {
+      throw new SphereError(`Token storage "${this.tokenStorage!.id}" cannot remove entries`, 'STORAGE_ERROR');
+    }
+    const result = await this.tokenStorage!.applyChanges({ removed: keys });
+    if (!result.success) {
+      throw new SphereError(`Token storage update failed: ${result.error}`, 'STORAGE_ERROR');
+    }
+  }
+
+  private async saveVersions(versions: SchemaVersions): Promise<void> {
+    await this.storage.set(this.versionsKey, JSON.stringify(versions));
+  }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createStorageMigrator(
+  storage: StorageProvider,
+  tokenStorage?: TokenStorageProvider<TxfStorageDataBase>,
+  migrations?: readonly StorageMigration[],
+  versionsKey?: string,
+): StorageMigrator {
+  return new StorageMigrator(storage, tokenStorage, migrations, versionsKey);
+}
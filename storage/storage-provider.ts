@@ -3,7 +3,10 @@
  * Platform-independent storage abstraction
  */
 
-import type { BaseProvider, FullIdentity, TrackedAddressEntry } from '../types';
+import type { BaseProvider, EscrowStatus, FullIdentity, TrackedAddressEntry } from '../types';
+import type { ConflictReport, MergePolicy } from './merge-policy';
+import type { StorageMigration } from './storage-migrator';
+import type { StorageKeyring } from './storage-encryption';
 
 // =============================================================================
 // Storage Provider Interface
@@ -58,6 +61,12 @@ export interface StorageProvider extends BaseProvider {
    * Load tracked addresses
    */
   loadTrackedAddresses(): Promise<TrackedAddressEntry[]>;
+
+  /**
+   * Schema migrations for this provider's data, run by Sphere.load()
+   * (see StorageMigrator). Use the provider id as namespace.
+   */
+  readonly migrations?: readonly StorageMigration[];
 }
 
 // =============================================================================
@@ -89,6 +98,11 @@ export interface HistoryRecord {
   memo?: string;
   /** All token IDs in a combined transfer (V6 bundle breakdown) */
   tokenIds?: Array<{ id: string; amount: string; source: 'split' | 'direct' }>;
+  /** Links the SENT entries of one sendBatch() call */
+  batchId?: string;
+  /** Escrow this entry belongs to (updated in place as the escrow progresses) */
+  escrowId?: string;
+  escrowStatus?: EscrowStatus;
 }
 
 // =============================================================================
@@ -119,9 +133,22 @@ export interface SyncResult<T = unknown> {
   added: number;
   removed: number;
   conflicts: number;
+  /** How each conflicting token was resolved (providers that merge) */
+  conflictReports?: ConflictReport[];
   error?: string;
 }
 
+export interface SyncOptions {
+  /** Which version of a conflicting token stays active (default: local) */
+  mergePolicy?: MergePolicy;
+  /**
+   * Decode stored token entries before they are compared and handed to the
+   * merge policy, given the TXF key they are stored under. Set by providers
+   * that wrap another one (e.g. encryption).
+   */
+  decodeEntry?: (value: unknown, key: string) => unknown;
+}
+
 /**
  * Token-specific storage provider
  * Handles token persistence with sync capabilities
@@ -155,7 +182,13 @@ export interface TokenStorageProvider<TData = unknown> extends BaseProvider {
   /**
    * Sync local data with remote
    */
-  sync(localData: TData): Promise<SyncResult<TData>>;
+  sync(localData: TData, options?: SyncOptions): Promise<SyncResult<TData>>;
+
+  /**
+   * Apply an incremental change instead of rewriting the whole snapshot.
+   * Optional — callers fall back to save() with a full snapshot when absent.
+   */
+  applyChanges?(changes: TokenStorageChanges): Promise<SaveResult>;
 
   /**
    * Check if data exists
@@ -180,6 +213,24 @@ export interface TokenStorageProvider<TData = unknown> extends BaseProvider {
    */
   onEvent?(callback: StorageEventCallback): () => void;
 
+  /**
+   * Schema migrations for this provider's data, run by Sphere.load() with
+   * access to the active address's token data (see StorageMigrator)
+   */
+  readonly migrations?: readonly StorageMigration[];
+
+  // --- At-rest encryption (optional — Sphere wraps local providers without it) ---
+
+  /**
+   * Encrypt stored payloads with this keyring. Providers that index their
+   * data implement it to keep the index columns readable; instances from
+   * createForAddress() use the same keyring.
+   */
+  setKeyring?(keyring: StorageKeyring): void;
+
+  /** Encrypt plaintext payloads and re-encrypt ones written with an older key. Returns count rewritten. */
+  reencrypt?(): Promise<number>;
+
   // --- History operations (optional — not supported by all providers, e.g. IPFS) ---
 
   /** Store a history entry (upsert by dedupKey) */
@@ -274,6 +325,21 @@ export interface TxfInvalidEntry {
   detectedAt: number;
 }
 
+/**
+ * Delta for TokenStorageProvider.applyChanges(). Token entries use the same
+ * keys as TxfStorageDataBase (`_<tokenId>`, `archived-<tokenId>`, ...).
+ */
+export interface TokenStorageChanges {
+  /** Entries to write, by TXF key */
+  upserted?: Record<string, unknown>;
+  /** TXF keys to delete */
+  removed?: string[];
+  /** Complete tombstone list, replacing the stored one; tombstoned tokens are deleted as in save() */
+  tombstones?: TxfTombstone[];
+  /** Complete outbox, replacing the stored one */
+  outbox?: TxfOutboxEntry[];
+}
+
 // =============================================================================
 // Provider Factory Type
 // =============================================================================
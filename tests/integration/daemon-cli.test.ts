@@ -393,6 +393,28 @@ describe('Daemon CLI', () => {
         cleanupTestDir(testDir);
       }
     }, 90_000);
+
+    it('B12: schedule-payment action without schedule shows error', async () => {
+      const testDir = createTestDir();
+      testDirs.push(testDir);
+      const configPath = path.join(testDir, 'bad-schedule.json');
+      fs.writeFileSync(configPath, JSON.stringify({
+        rules: [{
+          events: ['payment_request:accepted'],
+          actions: [{ type: 'builtin', action: 'schedule-payment', schedule: { recipient: '@alice', amount: '100' } }],
+        }],
+      }));
+      try {
+        const { stderr, exitCode } = await runCli(
+          ['daemon', 'start', '--config', configPath],
+          { cwd: testDir },
+        );
+        expect(exitCode).not.toBe(0);
+        expect(stderr).toContain('schedule.coinId must be a non-empty string');
+      } finally {
+        cleanupTestDir(testDir);
+      }
+    });
   });
 
   // =============================================================================
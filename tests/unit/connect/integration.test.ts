@@ -298,6 +298,21 @@ describe('Sphere Connect Integration', () => {
         client.intent(INTENT_ACTIONS.SEND, { to: '@bob', amount: '1000', coinId: 'UCT' }),
       ).rejects.toThrow('User rejected');
     });
+
+    it('rejects intents while the wallet is locked', async () => {
+      host.destroy();
+      transports = createMockTransportPair();
+      const onIntent = vi.fn().mockResolvedValue({ result: { success: true } });
+      Object.assign(mockSphere, { isLocked: () => true });
+      createHost({ onIntent });
+      createClient();
+      await client.connect();
+
+      await expect(
+        client.intent(INTENT_ACTIONS.SEND, { to: '@bob', amount: '1000', coinId: 'UCT' }),
+      ).rejects.toThrow('Wallet is locked');
+      expect(onIntent).not.toHaveBeenCalled();
+    });
   });
 
   // ===========================================================================
@@ -0,0 +1,201 @@
+/**
+ * Tests for full wallet backup in Sphere.
+ *
+ * Verifies that:
+ * 1. exportBackup() + Sphere.restoreBackup() carry storage entries, token
+ *    history and tracked addresses over to fresh storage
+ * 2. Token data of addresses not opened in the session is restored
+ * 3. A wrong backup password is rejected before anything is written
+ * 4. A missing or wrong wallet password is rejected before anything is written
+ * 5. A restore that fails part-way leaves no wallet behind
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Sphere } from '../../../core/Sphere';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import type { StorageProvider, TransportProvider, OracleProvider } from '../../../index';
+import type { ProviderStatus } from '../../../types';
+
+// =============================================================================
+// Test directories
+// =============================================================================
+
+const TEST_DIR = path.join(__dirname, '.test-backup');
+const SOURCE_DIR = path.join(TEST_DIR, 'source');
+const TARGET_DIR = path.join(TEST_DIR, 'target');
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const PASSWORD = 'wallet password';
+
+// =============================================================================
+// Mock providers
+// =============================================================================
+
+function createMockTransport(): TransportProvider {
+  return {
+    id: 'mock-transport',
+    name: 'Mock Transport',
+    type: 'p2p' as const,
+    description: 'Mock transport',
+    setIdentity: vi.fn(),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    sendMessage: vi.fn().mockResolvedValue('event-id'),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    sendTokenTransfer: vi.fn().mockResolvedValue('transfer-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequest: vi.fn().mockResolvedValue('request-id'),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequestResponse: vi.fn().mockResolvedValue('response-id'),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    subscribeToBroadcast: vi.fn().mockReturnValue(() => {}),
+    publishBroadcast: vi.fn().mockResolvedValue('broadcast-id'),
+    onEvent: vi.fn().mockReturnValue(() => {}),
+    resolveNametag: vi.fn().mockResolvedValue(null),
+    publishIdentityBinding: vi.fn().mockResolvedValue(true),
+    recoverNametag: vi.fn().mockResolvedValue(null),
+  } as TransportProvider;
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    id: 'mock-oracle',
+    name: 'Mock Oracle',
+    type: 'aggregator' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    submitCommitment: vi.fn().mockResolvedValue({ requestId: 'test-id' }),
+    getProof: vi.fn().mockResolvedValue(null),
+    waitForProof: vi.fn().mockResolvedValue({ proof: 'mock' }),
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    mintToken: vi.fn().mockResolvedValue({ success: true, token: { id: 'mock-token' } }),
+  } as unknown as OracleProvider;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function cleanTestDir(): void {
+  if (fs.existsSync(TEST_DIR)) {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+function resetInstance(): void {
+  (Sphere as unknown as { instance: null }).instance = null;
+}
+
+function providers(dir: string) {
+  return {
+    storage: new FileStorageProvider({ dataDir: path.join(dir, 'data') }),
+    tokenStorage: new FileTokenStorageProvider({ tokensDir: path.join(dir, 'tokens') }),
+    transport: createMockTransport(),
+    oracle: createMockOracle(),
+  };
+}
+
+function sphereStorage(sphere: Sphere): StorageProvider {
+  return (sphere as unknown as { _storage: StorageProvider })._storage;
+}
+
+function received(amount: string, timestamp: number) {
+  return { type: 'RECEIVED' as const, amount, coinId: 'UCT', symbol: 'UCT', timestamp, tokenId: `token-${amount}` };
+}
+
+/** Wallet with data on address 0 and a second tracked address with its own history */
+async function createSourceWallet(): Promise<string> {
+  const { sphere } = await Sphere.init({
+    ...providers(SOURCE_DIR), mnemonic: MNEMONIC, password: PASSWORD, discoverAddresses: false,
+  });
+  await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, '[]');
+  await sphere.payments.addToHistory(received('100', 1));
+
+  await sphere.switchToAddress(1);
+  await sphere.payments.addToHistory(received('200', 2));
+  await sphere.switchToAddress(0);
+
+  const blob = await sphere.exportBackup('backup password');
+  await sphere.destroy();
+  resetInstance();
+  return blob;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Sphere full backup', () => {
+  beforeEach(() => {
+    cleanTestDir();
+    resetInstance();
+  });
+
+  afterEach(() => {
+    resetInstance();
+    cleanTestDir();
+  });
+
+  it('restores storage, history and tracked addresses into fresh storage', async () => {
+    const blob = await createSourceWallet();
+    expect(blob).not.toContain('abandon');
+
+    const sphere = await Sphere.restoreBackup(blob, 'backup password', {
+      ...providers(TARGET_DIR), password: PASSWORD, discoverAddresses: false,
+    });
+
+    expect(sphere.getMnemonic()).toBe(MNEMONIC);
+    expect(sphere.isStorageEncrypted()).toBe(true);
+    expect(await sphereStorage(sphere).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[]');
+    expect(sphere.getAllTrackedAddresses().map((a) => a.index)).toEqual([0, 1]);
+    expect(sphere.payments.getHistory().map((e) => e.amount)).toEqual(['100']);
+
+    // Address 1 was not opened during restore; its history went through temporary providers
+    await sphere.switchToAddress(1);
+    expect(sphere.payments.getHistory().map((e) => e.amount)).toEqual(['200']);
+    await sphere.destroy();
+  });
+
+  it('rejects a wrong backup password without touching storage', async () => {
+    const blob = await createSourceWallet();
+    const target = providers(TARGET_DIR);
+
+    await expect(Sphere.restoreBackup(blob, 'wrong', { ...target, password: PASSWORD }))
+      .rejects.toMatchObject({ code: 'DECRYPTION_ERROR' });
+    expect(await Sphere.exists(target.storage)).toBe(false);
+  });
+
+  it('rejects a missing or wrong wallet password without touching storage', async () => {
+    const blob = await createSourceWallet();
+    const target = providers(TARGET_DIR);
+
+    await expect(Sphere.restoreBackup(blob, 'backup password', { ...target }))
+      .rejects.toMatchObject({ code: 'DECRYPTION_ERROR', message: 'The backed-up wallet is password-protected' });
+    await expect(Sphere.restoreBackup(blob, 'backup password', { ...target, password: 'wrong' }))
+      .rejects.toMatchObject({ code: 'DECRYPTION_ERROR', message: 'Wrong wallet password' });
+    expect(await Sphere.exists(target.storage)).toBe(false);
+  });
+
+  it('clears the partially restored wallet when restoring tokens fails', async () => {
+    const blob = await createSourceWallet();
+    const target = providers(TARGET_DIR);
+    vi.spyOn(FileTokenStorageProvider.prototype, 'importHistoryEntries').mockRejectedValue(new Error('disk full'));
+
+    try {
+      await expect(Sphere.restoreBackup(blob, 'backup password', { ...target, password: PASSWORD, discoverAddresses: false }))
+        .rejects.toThrow('disk full');
+    } finally {
+      vi.restoreAllMocks();
+    }
+    expect(await Sphere.exists(target.storage)).toBe(false);
+  });
+});
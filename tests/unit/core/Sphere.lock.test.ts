@@ -0,0 +1,263 @@
+/**
+ * Tests for locked wallet sessions (Sphere.lock()/unlock()).
+ *
+ * Verifies that:
+ * 1. Locking wipes the mnemonic and rejects signing paths with WALLET_LOCKED
+ * 2. Read-only APIs keep working while locked
+ * 3. Locking wipes the master key and address keys; unlock() re-derives them
+ * 4. unlock() checks the password against stored keys
+ * 5. The idle auto-lock timer locks the wallet and emits wallet:locked
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Sphere } from '../../../core/Sphere';
+import { SphereError } from '../../../core/errors';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import type { TransportProvider, OracleProvider } from '../../../index';
+import type { FullIdentity, ProviderStatus } from '../../../types';
+
+// =============================================================================
+// Test directories
+// =============================================================================
+
+const TEST_DIR = path.join(__dirname, '.test-lock');
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const PASSWORD = 'correct horse';
+
+// =============================================================================
+// Mock providers
+// =============================================================================
+
+function createMockTransport(): TransportProvider {
+  return {
+    id: 'mock-transport',
+    name: 'Mock Transport',
+    type: 'p2p' as const,
+    description: 'Mock transport',
+    setIdentity: vi.fn(),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    sendMessage: vi.fn().mockResolvedValue('event-id'),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    sendTokenTransfer: vi.fn().mockResolvedValue('transfer-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequest: vi.fn().mockResolvedValue('request-id'),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequestResponse: vi.fn().mockResolvedValue('response-id'),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    subscribeToBroadcast: vi.fn().mockReturnValue(() => {}),
+    publishBroadcast: vi.fn().mockResolvedValue('broadcast-id'),
+    onEvent: vi.fn().mockReturnValue(() => {}),
+    resolveNametag: vi.fn().mockResolvedValue(null),
+    publishIdentityBinding: vi.fn().mockResolvedValue(true),
+    recoverNametag: vi.fn().mockResolvedValue(null),
+  } as TransportProvider;
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    id: 'mock-oracle',
+    name: 'Mock Oracle',
+    type: 'aggregator' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    submitCommitment: vi.fn().mockResolvedValue({ requestId: 'test-id' }),
+    getProof: vi.fn().mockResolvedValue(null),
+    waitForProof: vi.fn().mockResolvedValue({ proof: 'mock' }),
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    mintToken: vi.fn().mockResolvedValue({ success: true, token: { id: 'mock-token' } }),
+  } as unknown as OracleProvider;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function cleanTestDir(): void {
+  if (fs.existsSync(TEST_DIR)) {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+function resetInstance(): void {
+  (Sphere as unknown as { instance: null }).instance = null;
+}
+
+async function createWallet(password: string | null = PASSWORD): Promise<Sphere> {
+  const { sphere } = await Sphere.init({
+    storage: new FileStorageProvider({ dataDir: path.join(TEST_DIR, 'data') }),
+    tokenStorage: new FileTokenStorageProvider({ tokensDir: path.join(TEST_DIR, 'tokens') }),
+    transport: createMockTransport(),
+    oracle: createMockOracle(),
+    mnemonic: MNEMONIC,
+    password: password ?? undefined,
+    discoverAddresses: false,
+  });
+  return sphere;
+}
+
+/** Key material held by the wallet and by the active payments module */
+function heldKeys(sphere: Sphere): { masterKey: unknown; privateKey: string } {
+  const internals = sphere as unknown as { _masterKey: unknown };
+  const payments = sphere.payments as unknown as { deps: { identity: FullIdentity } };
+  return { masterKey: internals._masterKey, privateKey: payments.deps.identity.privateKey };
+}
+
+async function expectCode(promise: Promise<unknown>, code: string): Promise<void> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(SphereError);
+  expect((error as SphereError).code).toBe(code);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Sphere lock/unlock', () => {
+  beforeEach(() => {
+    cleanTestDir();
+    resetInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetInstance();
+    cleanTestDir();
+  });
+
+  it('rejects signing while locked and keeps read-only APIs working', async () => {
+    const sphere = await createWallet();
+    const events: unknown[] = [];
+    sphere.on('wallet:locked', (data) => events.push(data));
+
+    sphere.lock();
+
+    expect(sphere.isLocked()).toBe(true);
+    expect(events).toEqual([{ reason: 'manual' }]);
+    expect(sphere.getMnemonic()).toBeNull();
+    expect(sphere.getWalletInfo().hasMnemonic).toBe(true);
+    expect(() => sphere.signMessage('hello')).toThrow('Wallet is locked');
+    await expectCode(sphere.payments.send({ recipient: '@bob', amount: '1', coinId: 'UCT' }), 'WALLET_LOCKED');
+    await expectCode(sphere.registerNametag('alice'), 'WALLET_LOCKED');
+
+    expect(sphere.identity!.l1Address).toMatch(/^alpha1/);
+    expect(sphere.payments.getBalance()).toEqual([]);
+    expect(sphere.payments.getHistory()).toEqual([]);
+
+    await sphere.destroy();
+  });
+
+  it('unlocks with the wallet password only', async () => {
+    const sphere = await createWallet();
+    const signature = sphere.signMessage('hello');
+    const unlocked = vi.fn();
+    sphere.on('wallet:unlocked', unlocked);
+    sphere.lock();
+
+    await expectCode(sphere.unlock('wrong'), 'DECRYPTION_ERROR');
+    expect(sphere.isLocked()).toBe(true);
+
+    await sphere.unlock(PASSWORD);
+    expect(sphere.isLocked()).toBe(false);
+    expect(unlocked).toHaveBeenCalledTimes(1);
+    expect(sphere.getMnemonic()).toBe(MNEMONIC);
+    expect(sphere.signMessage('hello')).toBe(signature);
+
+    await sphere.destroy();
+  });
+
+  it('wipes the master key on lock and leaves the open addresses\' keys in place', async () => {
+    const sphere = await createWallet();
+    await sphere.switchToAddress(1);
+    const signature = sphere.signMessage('hello');
+    const xpub = sphere.getExtendedPublicKey();
+    const address2 = sphere.deriveAddress(2).address;
+    const before = heldKeys(sphere);
+
+    sphere.lock();
+
+    expect(heldKeys(sphere)).toEqual({ masterKey: null, privateKey: before.privateKey });
+    expect(sphere.getExtendedPublicKey()).toBe(xpub);
+    expect(sphere.deriveAddress(2)).toMatchObject({ address: address2, privateKey: '' });
+    await expectCode(sphere.switchToAddress(0), 'WALLET_LOCKED');
+
+    await sphere.unlock(PASSWORD);
+
+    expect(heldKeys(sphere)).toEqual(before);
+    expect(sphere.signMessage('hello')).toBe(signature);
+    await sphere.switchToAddress(0);
+    expect(heldKeys(sphere).privateKey).toBe(sphere.deriveAddress(0).privateKey);
+
+    await sphere.destroy();
+  });
+
+  it('unlocks a wallet imported from a master key', async () => {
+    const { sphere: source } = await Sphere.init({
+      storage: new FileStorageProvider({ dataDir: path.join(TEST_DIR, 'source') }),
+      transport: createMockTransport(),
+      oracle: createMockOracle(),
+      mnemonic: MNEMONIC,
+      discoverAddresses: false,
+    });
+    const { masterPrivateKey, chainCode } = source.exportToJSON().wallet;
+    await source.destroy();
+    resetInstance();
+
+    const sphere = await Sphere.import({
+      storage: new FileStorageProvider({ dataDir: path.join(TEST_DIR, 'data') }),
+      transport: createMockTransport(),
+      oracle: createMockOracle(),
+      masterKey: masterPrivateKey!,
+      chainCode,
+      password: PASSWORD,
+      discoverAddresses: false,
+    });
+    const signature = sphere.signMessage('hello');
+    sphere.lock();
+
+    await expectCode(sphere.unlock('wrong'), 'DECRYPTION_ERROR');
+    await sphere.unlock(PASSWORD);
+    expect(sphere.signMessage('hello')).toBe(signature);
+
+    await sphere.destroy();
+  });
+
+  it('cannot lock a wallet without a password', async () => {
+    const sphere = await createWallet(null);
+
+    expect(() => sphere.lock()).toThrow('password-protected');
+    expect(sphere.isLocked()).toBe(false);
+
+    await sphere.destroy();
+  });
+
+  it('locks itself after the idle timeout', async () => {
+    const sphere = await createWallet();
+    const locked = vi.fn();
+    sphere.on('wallet:locked', locked);
+
+    vi.useFakeTimers();
+    sphere.setAutoLock(60_000);
+
+    vi.advanceTimersByTime(40_000);
+    sphere.signMessage('activity resets the timer');
+    vi.advanceTimersByTime(40_000);
+    expect(sphere.isLocked()).toBe(false);
+
+    vi.advanceTimersByTime(20_000);
+    expect(sphere.isLocked()).toBe(true);
+    expect(locked).toHaveBeenCalledWith({ reason: 'idle' });
+
+    vi.useRealTimers();
+    await sphere.destroy();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for storage migrations in Sphere.
+ *
+ * Verifies that:
+ * 1. New wallets are marked current without running migrations
+ * 2. Sphere.load() runs pending migrations and reports 'migrating' progress
+ * 3. A failing migration aborts the load and leaves the data untouched
+ * 4. Every address's token data is migrated, each when it is first opened
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Sphere } from '../../../core/Sphere';
+import type { InitProgress } from '../../../core/Sphere';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import { STORAGE_KEYS_ADDRESS, STORAGE_KEYS_GLOBAL } from '../../../constants';
+import type { StorageMigration, StorageProvider, TransportProvider, OracleProvider } from '../../../index';
+import type { ProviderStatus } from '../../../types';
+
+// =============================================================================
+// Test directories
+// =============================================================================
+
+const TEST_DIR = path.join(__dirname, '.test-migrations');
+const DATA_DIR = path.join(TEST_DIR, 'data');
+const TOKENS_DIR = path.join(TEST_DIR, 'tokens');
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// =============================================================================
+// Mock providers
+// =============================================================================
+
+function createMockTransport(): TransportProvider {
+  return {
+    id: 'mock-transport',
+    name: 'Mock Transport',
+    type: 'p2p' as const,
+    description: 'Mock transport',
+    setIdentity: vi.fn(),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    sendMessage: vi.fn().mockResolvedValue('event-id'),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    sendTokenTransfer: vi.fn().mockResolvedValue('transfer-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequest: vi.fn().mockResolvedValue('request-id'),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequestResponse: vi.fn().mockResolvedValue('response-id'),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    subscribeToBroadcast: vi.fn().mockReturnValue(() => {}),
+    publishBroadcast: vi.fn().mockResolvedValue('broadcast-id'),
+    onEvent: vi.fn().mockReturnValue(() => {}),
+    resolveNametag: vi.fn().mockResolvedValue(null),
+    publishIdentityBinding: vi.fn().mockResolvedValue(true),
+    recoverNametag: vi.fn().mockResolvedValue(null),
+  } as TransportProvider;
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    id: 'mock-oracle',
+    name: 'Mock Oracle',
+    type: 'aggregator' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    submitCommitment: vi.fn().mockResolvedValue({ requestId: 'test-id' }),
+    getProof: vi.fn().mockResolvedValue(null),
+    waitForProof: vi.fn().mockResolvedValue({ proof: 'mock' }),
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    mintToken: vi.fn().mockResolvedValue({ success: true, token: { id: 'mock-token' } }),
+  } as unknown as OracleProvider;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function cleanTestDir(): void {
+  if (fs.existsSync(TEST_DIR)) {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+function resetInstance(): void {
+  (Sphere as unknown as { instance: null }).instance = null;
+}
+
+function providers() {
+  return {
+    storage: new FileStorageProvider({ dataDir: DATA_DIR }),
+    tokenStorage: new FileTokenStorageProvider({ tokensDir: TOKENS_DIR }),
+    transport: createMockTransport(),
+    oracle: createMockOracle(),
+  };
+}
+
+/** The storage provider Sphere writes through (wrapped when encrypted) */
+function sphereStorage(sphere: Sphere): StorageProvider {
+  return (sphere as unknown as { _storage: StorageProvider })._storage;
+}
+
+/** Tags each stored message with a schema field */
+const tagMessages: StorageMigration = {
+  namespace: 'app',
+  version: 1,
+  name: 'tag messages',
+  async up({ storage }) {
+    const keys = await storage.keys();
+    for (const key of keys.filter((k) => k.endsWith(`_${STORAGE_KEYS_ADDRESS.MESSAGES}`))) {
+      const messages = JSON.parse((await storage.get(key))!) as Array<Record<string, unknown>>;
+      await storage.set(key, JSON.stringify(messages.map((m) => ({ ...m, v: 2 }))));
+    }
+  },
+};
+
+async function createWallet(): Promise<void> {
+  const { sphere } = await Sphere.init({ ...providers(), mnemonic: MNEMONIC, discoverAddresses: false });
+  await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, '[{"id":"m1"}]');
+  await sphere.destroy();
+  resetInstance();
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Sphere storage migrations', () => {
+  beforeEach(() => {
+    cleanTestDir();
+    resetInstance();
+  });
+
+  afterEach(() => {
+    resetInstance();
+    cleanTestDir();
+  });
+
+  it('marks new wallets current without running migrations', async () => {
+    const up = vi.fn(async () => {});
+    const { sphere } = await Sphere.init({
+      ...providers(), mnemonic: MNEMONIC, discoverAddresses: false,
+      migrations: [{ namespace: 'app', version: 2, name: 'noop', up }],
+    });
+
+    expect(up).not.toHaveBeenCalled();
+    expect(JSON.parse((await sphereStorage(sphere).get(STORAGE_KEYS_GLOBAL.SCHEMA_VERSIONS))!)).toMatchObject({ app: 2 });
+    await sphere.destroy();
+  });
+
+  it('runs pending migrations on load and reports progress', async () => {
+    await createWallet();
+    const steps: InitProgress[] = [];
+
+    const { sphere } = await Sphere.init({
+      ...providers(), discoverAddresses: false, migrations: [tagMessages],
+      onProgress: (p) => steps.push(p),
+    });
+
+    expect(await sphereStorage(sphere).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[{"id":"m1","v":2}]');
+    expect(steps).toContainEqual({ step: 'migrating', message: 'Migrating storage: tag messages (1/1)' });
+    const order = steps.map((p) => p.step);
+    expect(order.indexOf('migrating')).toBeGreaterThan(order.indexOf('initializing'));
+    await sphere.destroy();
+  });
+
+  it('aborts the load and keeps the data when a migration fails', async () => {
+    await createWallet();
+    const failing: StorageMigration = {
+      namespace: 'app',
+      version: 2,
+      name: 'broken',
+      up: async () => { throw new Error('boom'); },
+    };
+
+    await expect(Sphere.init({
+      ...providers(), discoverAddresses: false, migrations: [tagMessages, failing],
+    })).rejects.toMatchObject({ code: 'STORAGE_ERROR' });
+    resetInstance();
+
+    const { sphere } = await Sphere.init({ ...providers(), discoverAddresses: false });
+    expect(await sphereStorage(sphere).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[{"id":"m1"}]');
+    await sphere.destroy();
+  });
+
+  it('migrates the tokens of every address once, when it is opened', async () => {
+    const { sphere: created } = await Sphere.init({ ...providers(), mnemonic: MNEMONIC, discoverAddresses: false });
+    const first = created.identity!.l1Address;
+    await created.switchToAddress(1);
+    const second = created.identity!.l1Address;
+    await created.switchToAddress(0);
+    await created.destroy();
+    resetInstance();
+
+    const migrated: string[] = [];
+    const tagTokens: StorageMigration = {
+      namespace: 'app',
+      version: 1,
+      name: 'tag tokens',
+      async up({ tokens }) {
+        const data = await tokens!.load();
+        migrated.push(data!._meta.address);
+      },
+    };
+    const { sphere } = await Sphere.init({ ...providers(), discoverAddresses: false, migrations: [tagTokens] });
+    expect(migrated).toEqual([first]);
+
+    await sphere.switchToAddress(1);
+    await sphere.switchToAddress(0);
+    await sphere.switchToAddress(1);
+    expect(migrated).toEqual([first, second]);
+    await sphere.destroy();
+    resetInstance();
+
+    const { sphere: reloaded } = await Sphere.init({ ...providers(), discoverAddresses: false, migrations: [tagTokens] });
+    await reloaded.switchToAddress(1);
+    expect(migrated).toEqual([first, second]);
+    await reloaded.destroy();
+  });
+});
@@ -227,6 +227,19 @@ describe('Sphere Status & Provider Management', () => {
       expect(status.transport[0].metadata?.relays).toEqual({ total: 2, connected: 1 });
     });
 
+    it('should include relay health metrics when the transport provides them', async () => {
+      const metrics = [
+        { url: 'wss://relay1.test', connected: true, state: 'healthy', score: 0.98, latencyMs: 120 },
+        { url: 'wss://relay2.test', connected: false, state: 'demoted', score: 0, latencyMs: null },
+      ];
+      (transport as unknown as Record<string, unknown>).getRelayMetrics = vi.fn(() => metrics);
+
+      const sphere = await initSphere();
+      const status = sphere.getStatus();
+
+      expect(status.transport[0].metadata?.relayMetrics).toEqual(metrics);
+    });
+
     it('should include oracle provider info', async () => {
       const sphere = await initSphere();
       const status = sphere.getStatus();
@@ -0,0 +1,217 @@
+/**
+ * Tests for at-rest storage encryption in Sphere.
+ *
+ * Verifies that:
+ * 1. New wallets encrypt per-address storage by default (opt out with encryptStorage: false)
+ * 2. Loading a plaintext wallet migrates it unless encryptStorage: false
+ * 3. Password-protected wallets wrap the storage keys with the password
+ * 4. rotateStorageKey() re-encrypts stored values under a new data key
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Sphere } from '../../../core/Sphere';
+import { StorageKeyring } from '../../../storage';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import type { StorageProvider, TransportProvider, OracleProvider } from '../../../index';
+import type { ProviderStatus } from '../../../types';
+
+// =============================================================================
+// Test directories
+// =============================================================================
+
+const TEST_DIR = path.join(__dirname, '.test-storage-encryption');
+const DATA_DIR = path.join(TEST_DIR, 'data');
+const TOKENS_DIR = path.join(TEST_DIR, 'tokens');
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// =============================================================================
+// Mock providers
+// =============================================================================
+
+function createMockTransport(): TransportProvider {
+  return {
+    id: 'mock-transport',
+    name: 'Mock Transport',
+    type: 'p2p' as const,
+    description: 'Mock transport',
+    setIdentity: vi.fn(),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    sendMessage: vi.fn().mockResolvedValue('event-id'),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    sendTokenTransfer: vi.fn().mockResolvedValue('transfer-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequest: vi.fn().mockResolvedValue('request-id'),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequestResponse: vi.fn().mockResolvedValue('response-id'),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    subscribeToBroadcast: vi.fn().mockReturnValue(() => {}),
+    publishBroadcast: vi.fn().mockResolvedValue('broadcast-id'),
+    onEvent: vi.fn().mockReturnValue(() => {}),
+    resolveNametag: vi.fn().mockResolvedValue(null),
+    publishIdentityBinding: vi.fn().mockResolvedValue(true),
+    recoverNametag: vi.fn().mockResolvedValue(null),
+  } as TransportProvider;
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    id: 'mock-oracle',
+    name: 'Mock Oracle',
+    type: 'aggregator' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    submitCommitment: vi.fn().mockResolvedValue({ requestId: 'test-id' }),
+    getProof: vi.fn().mockResolvedValue(null),
+    waitForProof: vi.fn().mockResolvedValue({ proof: 'mock' }),
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    mintToken: vi.fn().mockResolvedValue({ success: true, token: { id: 'mock-token' } }),
+  } as unknown as OracleProvider;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function cleanTestDir(): void {
+  if (fs.existsSync(TEST_DIR)) {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+function resetInstance(): void {
+  (Sphere as unknown as { instance: null }).instance = null;
+}
+
+function providers() {
+  return {
+    storage: new FileStorageProvider({ dataDir: DATA_DIR }),
+    tokenStorage: new FileTokenStorageProvider({ tokensDir: TOKENS_DIR }),
+    transport: createMockTransport(),
+    oracle: createMockOracle(),
+  };
+}
+
+/** The storage provider Sphere writes through (wrapped when encrypted) */
+function sphereStorage(sphere: Sphere): StorageProvider {
+  return (sphere as unknown as { _storage: StorageProvider })._storage;
+}
+
+/** Stored value of an address key, as written on disk */
+async function readRaw(sphere: Sphere, key: string): Promise<string | null> {
+  const raw = new FileStorageProvider({ dataDir: DATA_DIR });
+  raw.setIdentity(sphere.identity!);
+  await raw.connect();
+  return raw.get(key);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Sphere storage encryption', () => {
+  beforeEach(() => {
+    cleanTestDir();
+    resetInstance();
+  });
+
+  afterEach(() => {
+    resetInstance();
+    cleanTestDir();
+  });
+
+  it('encrypts new wallets by default', async () => {
+    const { sphere } = await Sphere.init({ ...providers(), mnemonic: MNEMONIC, discoverAddresses: false });
+
+    expect(sphere.isStorageEncrypted()).toBe(true);
+    await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, '[{"text":"hello"}]');
+
+    expect(StorageKeyring.isEncrypted(await readRaw(sphere, STORAGE_KEYS_ADDRESS.MESSAGES))).toBe(true);
+    expect(await sphereStorage(sphere).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[{"text":"hello"}]');
+
+    await sphere.destroy();
+    resetInstance();
+
+    const { sphere: loaded, created } = await Sphere.init({ ...providers(), discoverAddresses: false });
+    expect(created).toBe(false);
+    expect(loaded.isStorageEncrypted()).toBe(true);
+    expect(await sphereStorage(loaded).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[{"text":"hello"}]');
+    await loaded.destroy();
+  });
+
+  it('leaves storage plaintext with encryptStorage: false', async () => {
+    const { sphere } = await Sphere.init({
+      ...providers(), mnemonic: MNEMONIC, discoverAddresses: false, encryptStorage: false,
+    });
+
+    expect(sphere.isStorageEncrypted()).toBe(false);
+    await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, 'plain');
+    expect(await readRaw(sphere, STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('plain');
+    await expect(sphere.rotateStorageKey()).rejects.toThrow('not enabled');
+
+    await sphere.destroy();
+  });
+
+  it('migrates a plaintext wallet on load', async () => {
+    const { sphere } = await Sphere.init({
+      ...providers(), mnemonic: MNEMONIC, discoverAddresses: false, encryptStorage: false,
+    });
+    await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, '[]');
+    await sphere.destroy();
+    resetInstance();
+
+    const { sphere: kept } = await Sphere.init({ ...providers(), discoverAddresses: false, encryptStorage: false });
+    expect(kept.isStorageEncrypted()).toBe(false);
+    await kept.destroy();
+    resetInstance();
+
+    const { sphere: loaded } = await Sphere.init({ ...providers(), discoverAddresses: false });
+
+    expect(loaded.isStorageEncrypted()).toBe(true);
+    expect(StorageKeyring.isEncrypted(await readRaw(loaded, STORAGE_KEYS_ADDRESS.MESSAGES))).toBe(true);
+    expect(await sphereStorage(loaded).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[]');
+    await loaded.destroy();
+  });
+
+  it('wraps the storage keys with the wallet password', async () => {
+    const { sphere } = await Sphere.init({
+      ...providers(), mnemonic: MNEMONIC, discoverAddresses: false, password: 'hunter2',
+    });
+    expect((await StorageKeyring.readHeader(sphereStorage(sphere)))!.kdf).toBe('pbkdf2');
+    await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, '[{"text":"secret"}]');
+    await sphere.destroy();
+    resetInstance();
+
+    const { sphere: loaded } = await Sphere.init({ ...providers(), discoverAddresses: false, password: 'hunter2' });
+
+    expect(await sphereStorage(loaded).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[{"text":"secret"}]');
+    await loaded.destroy();
+  });
+
+  it('re-encrypts stored values with rotateStorageKey()', async () => {
+    const { sphere } = await Sphere.init({ ...providers(), mnemonic: MNEMONIC, discoverAddresses: false });
+    await sphereStorage(sphere).set(STORAGE_KEYS_ADDRESS.MESSAGES, 'rotated');
+    const before = await readRaw(sphere, STORAGE_KEYS_ADDRESS.MESSAGES);
+
+    await sphere.rotateStorageKey();
+
+    const after = await readRaw(sphere, STORAGE_KEYS_ADDRESS.MESSAGES);
+    expect(after).not.toBe(before);
+    expect(after!.split(':')[1]).not.toBe(before!.split(':')[1]);
+    expect(await sphereStorage(sphere).get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('rotated');
+
+    const header = await StorageKeyring.readHeader(sphereStorage(sphere));
+    expect(Object.keys(header!.keys)).toEqual([header!.currentKeyId]);
+    await sphere.destroy();
+  });
+});
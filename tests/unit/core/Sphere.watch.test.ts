@@ -0,0 +1,270 @@
+/**
+ * Tests for watch-only Sphere mode (Sphere.watch()).
+ *
+ * Verifies that:
+ * 1. An xpub exported from a full wallet derives the same addresses
+ * 2. Public keys, L1 addresses and the DIRECT address are accepted as watch targets
+ * 3. Every signing path rejects with WATCH_ONLY
+ * 4. Tokens that appear in token storage are reported as transfer:incoming
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Sphere } from '../../../core/Sphere';
+import { SphereError } from '../../../core/errors';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import { buildTxfStorageData } from '../../../serialization/txf-serializer';
+import type { TransportProvider, OracleProvider, TokenStorageProvider, TxfStorageDataBase } from '../../../index';
+import type { ProviderStatus, Token } from '../../../types';
+
+// =============================================================================
+// Test directories
+// =============================================================================
+
+const TEST_DIR = path.join(__dirname, '.test-watch-only');
+const FULL_DIR = path.join(TEST_DIR, 'full');
+const WATCH_DIR = path.join(TEST_DIR, 'watch');
+
+// =============================================================================
+// Mock providers
+// =============================================================================
+
+function createMockTransport(): TransportProvider {
+  return {
+    id: 'mock-transport',
+    name: 'Mock Transport',
+    type: 'p2p' as const,
+    description: 'Mock transport',
+    setIdentity: vi.fn(),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    sendMessage: vi.fn().mockResolvedValue('event-id'),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    sendTokenTransfer: vi.fn().mockResolvedValue('transfer-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequest: vi.fn().mockResolvedValue('request-id'),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    sendPaymentRequestResponse: vi.fn().mockResolvedValue('response-id'),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    subscribeToBroadcast: vi.fn().mockReturnValue(() => {}),
+    publishBroadcast: vi.fn().mockResolvedValue('broadcast-id'),
+    onEvent: vi.fn().mockReturnValue(() => {}),
+    resolveNametag: vi.fn().mockResolvedValue(null),
+    publishIdentityBinding: vi.fn().mockResolvedValue(true),
+    recoverNametag: vi.fn().mockResolvedValue(null),
+  } as TransportProvider;
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    id: 'mock-oracle',
+    name: 'Mock Oracle',
+    type: 'aggregator' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as ProviderStatus),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    submitCommitment: vi.fn().mockResolvedValue({ requestId: 'test-id' }),
+    getProof: vi.fn().mockResolvedValue(null),
+    waitForProof: vi.fn().mockResolvedValue({ proof: 'mock' }),
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    mintToken: vi.fn().mockResolvedValue({ success: true, token: { id: 'mock-token' } }),
+  } as unknown as OracleProvider;
+}
+
+function createMockTokenStorage(merged: () => Promise<TxfStorageDataBase>): TokenStorageProvider<TxfStorageDataBase> {
+  return {
+    id: 'mock-token-storage',
+    name: 'Mock Token Storage',
+    type: 'cloud' as const,
+    setIdentity: vi.fn(),
+    initialize: vi.fn(async () => true),
+    shutdown: vi.fn(async () => {}),
+    connect: vi.fn(async () => {}),
+    disconnect: vi.fn(async () => {}),
+    isConnected: vi.fn(() => true),
+    getStatus: vi.fn((): ProviderStatus => 'connected'),
+    load: vi.fn(async () => ({ success: true, data: await merged(), source: 'local' as const, timestamp: Date.now() })),
+    save: vi.fn(async () => ({ success: true, timestamp: Date.now() })),
+    sync: vi.fn(async () => ({ success: true, merged: await merged(), added: 1, removed: 0, conflicts: 0 })),
+    onEvent: vi.fn().mockReturnValue(() => {}),
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function cleanTestDir(): void {
+  if (fs.existsSync(TEST_DIR)) {
+    fs.rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+function resetInstance(): void {
+  (Sphere as unknown as { instance: null }).instance = null;
+}
+
+async function createFullWallet(): Promise<Sphere> {
+  const { sphere } = await Sphere.init({
+    storage: new FileStorageProvider({ dataDir: path.join(FULL_DIR, 'data') }),
+    tokenStorage: new FileTokenStorageProvider({ tokensDir: path.join(FULL_DIR, 'tokens') }),
+    transport: createMockTransport(),
+    oracle: createMockOracle(),
+    autoGenerate: true,
+  });
+  return sphere;
+}
+
+function watchProviders() {
+  return {
+    storage: new FileStorageProvider({ dataDir: path.join(WATCH_DIR, 'data') }),
+    transport: createMockTransport(),
+    oracle: createMockOracle(),
+  };
+}
+
+async function expectWatchOnly(promise: Promise<unknown>): Promise<void> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(SphereError);
+  expect((error as SphereError).code).toBe('WATCH_ONLY');
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Sphere.watch()', () => {
+  beforeEach(() => {
+    cleanTestDir();
+    resetInstance();
+  });
+
+  afterEach(() => {
+    resetInstance();
+    cleanTestDir();
+  });
+
+  it('derives the same addresses as the full wallet from its xpub', async () => {
+    const full = await createFullWallet();
+    const xpub = full.getExtendedPublicKey();
+    const expected = [full.deriveAddress(0), full.deriveAddress(1), full.deriveAddress(0, true)];
+    const expectedDirect = full.identity!.directAddress;
+    await full.destroy();
+    resetInstance();
+
+    const watcher = await Sphere.watch({ xpub, addresses: [expectedDirect!], addressCount: 2, ...watchProviders() });
+
+    expect(watcher.isWatchOnly()).toBe(true);
+    expect(watcher.getExtendedPublicKey()).toBe(xpub);
+    expect(watcher.identity!.l1Address).toBe(expected[0].address);
+    expect(watcher.identity!.chainPubkey).toBe(expected[0].publicKey);
+    expect(watcher.identity!.directAddress).toBe(expectedDirect);
+    for (const info of expected) {
+      const derived = watcher.deriveAddress(info.index, info.path.split('/')[4] === '1');
+      expect(derived.address).toBe(info.address);
+      expect(derived.publicKey).toBe(info.publicKey);
+      expect(derived.privateKey).toBe('');
+    }
+
+    await watcher.destroy();
+  });
+
+  it('accepts public keys and L1 addresses', async () => {
+    const full = await createFullWallet();
+    const primary = full.deriveAddress(0);
+    const other = full.deriveAddress(1);
+    await full.destroy();
+    resetInstance();
+
+    const watcher = await Sphere.watch({ addresses: [primary.publicKey, other.address], ...watchProviders() });
+
+    expect(watcher.identity!.l1Address).toBe(primary.address);
+    expect(watcher.identity!.chainPubkey).toBe(primary.publicKey);
+    expect(watcher.identity!.directAddress).toBeUndefined();
+
+    await watcher.destroy();
+  });
+
+  it('rejects invalid watch targets', async () => {
+    await expect(Sphere.watch({ ...watchProviders() })).rejects.toThrow('xpub or addresses');
+    await expect(Sphere.watch({ addresses: ['not-an-address'], ...watchProviders() })).rejects.toThrow(
+      'Invalid watch address'
+    );
+  });
+
+  it('rejects every signing path with WATCH_ONLY', async () => {
+    const full = await createFullWallet();
+    const xpub = full.getExtendedPublicKey();
+    await full.destroy();
+    resetInstance();
+
+    const watcher = await Sphere.watch({ xpub, ...watchProviders() });
+
+    await expectWatchOnly(Promise.resolve().then(() => watcher.signMessage('hello')));
+    await expectWatchOnly(watcher.registerNametag('alice'));
+    await expectWatchOnly(watcher.payments.send({ recipient: '@bob', amount: '1', coinId: 'UCT' }));
+    await expectWatchOnly(Promise.resolve().then(() => watcher.exportToJSON()));
+
+    await watcher.destroy();
+  });
+
+  it('emits transfer:incoming for tokens that appear in token storage', async () => {
+    const full = await createFullWallet();
+    const xpub = full.getExtendedPublicKey();
+    const directAddress = full.identity!.directAddress!;
+    await full.destroy();
+    resetInstance();
+
+    const token: Token = {
+      id: 'watched-token',
+      coinId: 'UCT',
+      symbol: 'UCT',
+      name: 'Token',
+      decimals: 8,
+      amount: '1000',
+      status: 'confirmed',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      sdkData: JSON.stringify({
+        version: '2.0',
+        genesis: {
+          data: { tokenId: 'ab'.repeat(32), tokenType: '00', coinData: [['UCT', '1000']], recipient: 'DIRECT://x' },
+        },
+        transactions: [],
+        state: { data: '', predicate: '00' },
+      }),
+    };
+    let inventory: Token[] = [];
+    const tokenStorage = createMockTokenStorage(() =>
+      buildTxfStorageData(inventory, { version: 1, address: '', ipnsName: '' })
+    );
+
+    const watcher = await Sphere.watch({ xpub, addresses: [directAddress], tokenStorage, ...watchProviders() });
+    const incoming = vi.fn();
+    watcher.on('transfer:incoming', incoming);
+
+    inventory = [token];
+    await watcher.payments.sync();
+
+    expect(incoming).toHaveBeenCalledTimes(1);
+    expect(incoming.mock.calls[0][0].tokens).toHaveLength(1);
+    expect(incoming.mock.calls[0][0].watchOnly).toBe(true);
+    expect(incoming.mock.calls[0][0]).not.toHaveProperty('senderPubkey');
+
+    // Already known tokens are not reported again
+    await watcher.payments.sync();
+    expect(incoming).toHaveBeenCalledTimes(1);
+
+    // The watched wallet's token storage is only read
+    expect(tokenStorage.save).not.toHaveBeenCalled();
+    expect(tokenStorage.sync).not.toHaveBeenCalled();
+
+    await watcher.destroy();
+  });
+});
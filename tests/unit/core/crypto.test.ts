@@ -26,6 +26,11 @@ import {
   bytesToHex,
   randomBytes,
   deriveAddressInfo,
+  deriveChildPublicKey,
+  getExtendedPublicKey,
+  parseExtendedPublicKey,
+  serializeExtendedPublicKey,
+  derivePublicAddressInfo,
   identityFromMnemonicSync,
   DEFAULT_DERIVATION_PATH,
   SIGN_MESSAGE_PREFIX,
@@ -246,6 +251,73 @@ describe('BIP32 Key Derivation', () => {
   });
 });
 
+// =============================================================================
+// BIP32 Public Derivation Tests
+// =============================================================================
+
+describe('BIP32 Public Derivation', () => {
+  const masterKey = generateMasterKey(BIP32_VECTORS[0].seed);
+
+  describe('getExtendedPublicKey()', () => {
+    it('should serialize BIP32 test vector 1 xpubs', () => {
+      expect(serializeExtendedPublicKey(getExtendedPublicKey(masterKey, 'm'))).toBe(
+        'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8'
+      );
+      expect(serializeExtendedPublicKey(getExtendedPublicKey(masterKey, "m/0'"))).toBe(
+        'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw'
+      );
+    });
+  });
+
+  describe('parseExtendedPublicKey()', () => {
+    it('should round-trip an xpub', () => {
+      const xpub = serializeExtendedPublicKey(getExtendedPublicKey(masterKey, "m/0'"));
+      expect(serializeExtendedPublicKey(parseExtendedPublicKey(xpub))).toBe(xpub);
+    });
+
+    it('should reject a corrupted checksum', () => {
+      const xpub = serializeExtendedPublicKey(getExtendedPublicKey(masterKey, 'm'));
+      const corrupted = xpub.slice(0, -1) + (xpub.endsWith('8') ? '9' : '8');
+      expect(() => parseExtendedPublicKey(corrupted)).toThrow();
+    });
+  });
+
+  describe('deriveChildPublicKey()', () => {
+    it('should match BIP32 test vector 1 (m/0H/1)', () => {
+      const parent = getExtendedPublicKey(masterKey, "m/0'");
+      const child = deriveChildPublicKey(parent.publicKey, parent.chainCode, 1);
+      const xpub = serializeExtendedPublicKey({
+        ...child,
+        depth: 2,
+        parentFingerprint: '5c1bd648',
+        childNumber: 1,
+      });
+      expect(xpub).toBe(
+        'xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ'
+      );
+    });
+
+    it('should throw for hardened indices', () => {
+      const parent = getExtendedPublicKey(masterKey, 'm');
+      expect(() => deriveChildPublicKey(parent.publicKey, parent.chainCode, 0x80000000)).toThrow();
+    });
+  });
+
+  describe('derivePublicAddressInfo()', () => {
+    it('should match private derivation at the same path', () => {
+      const basePath = "m/44'/0'/0'";
+      const accountKey = getExtendedPublicKey(masterKey, basePath);
+      for (const isChange of [false, true]) {
+        const pub = derivePublicAddressInfo(accountKey, basePath, 3, isChange);
+        const priv = deriveAddressInfo(masterKey, basePath, 3, isChange);
+        expect(pub.publicKey).toBe(priv.publicKey);
+        expect(pub.address).toBe(priv.address);
+        expect(pub.path).toBe(priv.path);
+      }
+    });
+  });
+});
+
 // =============================================================================
 // Key Pair Operations Tests
 // =============================================================================
@@ -0,0 +1,111 @@
+/**
+ * Tests for core/shamir.ts
+ * Covers splitting mnemonics into shares, recovery and share validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  splitMnemonic,
+  combineMnemonicShares,
+  parseMnemonicShare,
+} from '../../../core/shamir';
+import { generateMnemonic } from '../../../core/crypto';
+
+// =============================================================================
+// Test Constants
+// =============================================================================
+
+const TEST_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+/** Replace one word of a share with a different valid word */
+function mistype(share: string, position: number): string {
+  const words = share.split(' ');
+  words[position] = words[position] === 'zoo' ? 'abandon' : 'zoo';
+  return words.join(' ');
+}
+
+// =============================================================================
+// splitMnemonic / combineMnemonicShares Tests
+// =============================================================================
+
+describe('splitMnemonic()', () => {
+  it('recovers 12- and 24-word mnemonics from any threshold subset', () => {
+    for (const strength of [128, 256] as const) {
+      const mnemonic = generateMnemonic(strength);
+      const shares = splitMnemonic(mnemonic, { threshold: 3, shares: 5 });
+
+      expect(shares).toHaveLength(5);
+      expect(combineMnemonicShares([shares[0], shares[1], shares[2]])).toBe(mnemonic);
+      expect(combineMnemonicShares([shares[4], shares[0], shares[3]])).toBe(mnemonic);
+      expect(combineMnemonicShares(shares)).toBe(mnemonic);
+    }
+  });
+
+  it('encodes 12-word mnemonics as 17 words and 24-word ones as 28', () => {
+    expect(splitMnemonic(TEST_MNEMONIC, { threshold: 2, shares: 2 })[0].split(' ')).toHaveLength(17);
+    expect(splitMnemonic(generateMnemonic(256), { threshold: 2, shares: 2 })[0].split(' ')).toHaveLength(28);
+  });
+
+  it('supports 1-of-N and N-of-N splits', () => {
+    const single = splitMnemonic(TEST_MNEMONIC, { threshold: 1, shares: 3 });
+    expect(combineMnemonicShares([single[2]])).toBe(TEST_MNEMONIC);
+
+    const all = splitMnemonic(TEST_MNEMONIC, { threshold: 4, shares: 4 });
+    expect(combineMnemonicShares(all)).toBe(TEST_MNEMONIC);
+  });
+
+  it('gives every share the group metadata', () => {
+    const shares = splitMnemonic(TEST_MNEMONIC, { threshold: 2, shares: 3 });
+    const infos = shares.map(parseMnemonicShare);
+
+    expect(new Set(infos.map((i) => i.groupId)).size).toBe(1);
+    expect(infos.map((i) => i.index)).toEqual([1, 2, 3]);
+    expect(infos[0]).toMatchObject({ threshold: 2, count: 3 });
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(() => splitMnemonic('not a mnemonic', { threshold: 2, shares: 3 })).toThrow('Invalid mnemonic');
+    expect(() => splitMnemonic(TEST_MNEMONIC, { threshold: 4, shares: 3 })).toThrow('Threshold');
+    expect(() => splitMnemonic(TEST_MNEMONIC, { threshold: 0, shares: 3 })).toThrow('Threshold');
+    expect(() => splitMnemonic(TEST_MNEMONIC, { threshold: 2, shares: 17 })).toThrow('Share count');
+  });
+});
+
+// =============================================================================
+// Share validation Tests
+// =============================================================================
+
+describe('share validation', () => {
+  const shares = splitMnemonic(TEST_MNEMONIC, { threshold: 2, shares: 3 });
+
+  it('catches mistyped and unknown words by checksum', () => {
+    for (const position of [0, 8, 16]) {
+      expect(() => parseMnemonicShare(mistype(shares[0], position))).toThrow('checksum');
+    }
+    expect(() => parseMnemonicShare(shares[0].replace(/^\w+/, 'qwerty'))).toThrow('Unknown word "qwerty"');
+    expect(() => parseMnemonicShare(shares[0].split(' ').slice(1).join(' '))).toThrow();
+  });
+
+  it('accepts extra whitespace and upper case', () => {
+    expect(parseMnemonicShare(`  ${shares[1].toUpperCase().replace(/ /g, '   ')}\n`).index).toBe(2);
+  });
+
+  it('names the bad share when combining', () => {
+    expect(() => combineMnemonicShares([shares[0], mistype(shares[1], 3)])).toThrow('Share 2: Share checksum mismatch');
+  });
+
+  it('rejects shares of different groups', () => {
+    const other = splitMnemonic(TEST_MNEMONIC, { threshold: 2, shares: 3 });
+    // Group IDs are random 15-bit values; retry on the rare collision
+    const foreign = parseMnemonicShare(other[1]).groupId === parseMnemonicShare(shares[0]).groupId
+      ? splitMnemonic(TEST_MNEMONIC, { threshold: 2, shares: 3 })[1]
+      : other[1];
+    expect(() => combineMnemonicShares([shares[0], foreign])).toThrow('different group');
+  });
+
+  it('rejects too few and duplicate shares', () => {
+    expect(() => combineMnemonicShares([])).toThrow('No shares');
+    expect(() => combineMnemonicShares([shares[0]])).toThrow('2 of 3 shares are required, got 1');
+    expect(() => combineMnemonicShares([shares[1], shares[1]])).toThrow('more than once');
+  });
+});
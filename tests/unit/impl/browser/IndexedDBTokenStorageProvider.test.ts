@@ -108,6 +108,44 @@ describe('IndexedDBTokenStorageProvider', () => {
     });
   });
 
+  describe('applyChanges()', () => {
+    let run = 0;
+
+    beforeEach(async () => {
+      provider = createProvider();
+      provider.setIdentity(createIdentity(`DIRECT://addr_delta_${++run}`));
+      await provider.initialize();
+    });
+
+    it('should upsert and remove only the given tokens', async () => {
+      await provider.save(createTxfData(['token1', 'token2']));
+
+      const result = await provider.applyChanges({
+        upserted: createTxfData(['token3']) as unknown as Record<string, unknown>,
+        removed: ['_token1'],
+      });
+      expect(result.success).toBe(true);
+
+      const loaded = (await provider.load()).data!;
+      expect(loaded['_token1' as keyof TxfStorageDataBase]).toBeUndefined();
+      expect(loaded['_token2' as keyof TxfStorageDataBase]).toBeDefined();
+      expect(loaded['_token3' as keyof TxfStorageDataBase]).toBeDefined();
+      expect(countTokens(loaded)).toBe(2);
+    });
+
+    it('should store tombstones and delete the tombstoned tokens', async () => {
+      await provider.save(createTxfData(['token1', 'token2']));
+
+      await provider.applyChanges({
+        tombstones: [{ tokenId: 'token2', stateHash: 'h', timestamp: 1 }],
+      });
+
+      const loaded = (await provider.load()).data!;
+      expect(countTokens(loaded)).toBe(1);
+      expect(loaded._tombstones).toEqual([{ tokenId: 'token2', stateHash: 'h', timestamp: 1 }]);
+    });
+  });
+
   describe('per-address isolation', () => {
     it('should keep tokens separate per address', async () => {
       provider = createProvider();
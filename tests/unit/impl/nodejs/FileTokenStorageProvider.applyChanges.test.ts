@@ -0,0 +1,99 @@
+/**
+ * Tests for FileTokenStorageProvider.applyChanges().
+ *
+ * Uses real filesystem (tmp directory):
+ * - upserted keys are written as individual token files
+ * - removed and tombstoned keys delete their files, other files are untouched
+ * - tombstones and outbox round-trip through load()
+ * - no temp files are left behind
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { FileTokenStorageProvider } from '../../../../impl/nodejs/storage/FileTokenStorageProvider';
+import type { FullIdentity } from '../../../../types';
+import type { TxfStorageDataBase } from '../../../../storage';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+let tmpDir: string;
+
+function createIdentity(): FullIdentity {
+  return {
+    privateKey: '0'.repeat(64),
+    chainPubkey: '02' + 'a'.repeat(64),
+    l1Address: 'alpha1testaddr',
+    directAddress: 'DIRECT://test',
+    nametag: 'testuser',
+  };
+}
+
+function txfToken(tokenId: string) {
+  return {
+    version: '2.0',
+    genesis: { data: { tokenId, tokenType: '00', coinData: [['UCT', '1']], tokenData: '' }, inclusionProof: null },
+    state: { data: '', predicate: '' },
+    transactions: [],
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('FileTokenStorageProvider — applyChanges', () => {
+  let provider: FileTokenStorageProvider;
+  let addressDir: string;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sphere-delta-'));
+    provider = new FileTokenStorageProvider({ tokensDir: tmpDir });
+    provider.setIdentity(createIdentity());
+    await provider.initialize();
+    await provider.save({
+      _meta: { version: 1, address: 'alpha1testaddr', formatVersion: '2.0', updatedAt: 1 },
+      _t1: txfToken('t1'),
+      _t2: txfToken('t2'),
+    } as unknown as TxfStorageDataBase);
+    addressDir = path.join(tmpDir, fs.readdirSync(tmpDir).find((f) => f.startsWith('DIRECT_'))!);
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes upserted tokens and deletes removed ones', async () => {
+    const t2Before = fs.statSync(path.join(addressDir, 't2.json')).mtimeMs;
+
+    const result = await provider.applyChanges({
+      upserted: { _t3: txfToken('t3'), 'archived-t1': txfToken('t1') },
+      removed: ['_t1'],
+    });
+    expect(result.success).toBe(true);
+
+    expect(fs.existsSync(path.join(addressDir, 't1.json'))).toBe(false);
+    expect(fs.existsSync(path.join(addressDir, 't3.json'))).toBe(true);
+    expect(fs.existsSync(path.join(addressDir, 'archived-t1.json'))).toBe(true);
+    expect(fs.statSync(path.join(addressDir, 't2.json')).mtimeMs).toBe(t2Before);
+    expect(fs.readdirSync(addressDir).some((f) => f.endsWith('.tmp'))).toBe(false);
+  });
+
+  it('persists tombstones and outbox for load()', async () => {
+    const outbox = [{ id: 'o1', sourceTokenId: 't2', status: 'pending' }];
+    await provider.applyChanges({
+      tombstones: [{ tokenId: 't2', stateHash: 'h', timestamp: 1 }],
+      outbox: outbox as never,
+    });
+
+    const data = (await provider.load()).data!;
+    expect(data._t1).toBeDefined();
+    expect(data._t2).toBeUndefined();
+    expect(data._tombstones).toEqual([{ tokenId: 't2', stateHash: 'h', timestamp: 1 }]);
+    expect(data._outbox).toEqual(outbox);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for the SQLite storage providers.
+ *
+ * Uses a real database file in a tmp directory:
+ * - SqliteStorageProvider key-value operations and per-address keys
+ * - SqliteTokenStorageProvider TXF round-trip, tombstones, archived tokens
+ * - indexed lookups by tokenId and coinId
+ * - history store and per-address isolation (createForAddress)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SqliteStorageProvider } from '../../../../impl/nodejs/storage/SqliteStorageProvider';
+import { SqliteTokenStorageProvider } from '../../../../impl/nodejs/storage/SqliteTokenStorageProvider';
+import { STORAGE_KEYS_ADDRESS, STORAGE_KEYS_GLOBAL } from '../../../../constants';
+import type { FullIdentity } from '../../../../types';
+import { StorageKeyring, type HistoryRecord, type TxfStorageDataBase } from '../../../../storage';
+import { openSqliteDatabase } from '../../../../impl/nodejs/storage/sqlite';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+let tmpDir: string;
+let dbPath: string;
+
+function createIdentity(directAddress = 'DIRECT://0000aaaa1111bbbb'): FullIdentity {
+  return {
+    privateKey: '0'.repeat(64),
+    chainPubkey: '02' + 'a'.repeat(64),
+    l1Address: 'alpha1testaddr',
+    directAddress,
+    nametag: 'testuser',
+  };
+}
+
+function txfToken(tokenId: string, coinId: string, amount: string) {
+  return {
+    version: '2.0',
+    genesis: {
+      data: { tokenId, tokenType: '00', coinData: [[coinId, amount]], tokenData: '' },
+      inclusionProof: null,
+    },
+    state: { data: '', predicate: '' },
+    transactions: [],
+  };
+}
+
+function txfData(tokens: Record<string, unknown>, extra: Partial<TxfStorageDataBase> = {}): TxfStorageDataBase {
+  return {
+    _meta: { version: 3, address: 'alpha1testaddr', formatVersion: '2.0', updatedAt: 1 },
+    ...tokens,
+    ...extra,
+  } as TxfStorageDataBase;
+}
+
+function makeEntry(dedupKey: string, timestamp: number): HistoryRecord {
+  return { id: dedupKey, dedupKey, type: 'RECEIVED', amount: '1', coinId: 'UCT', symbol: 'UCT', timestamp };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sphere-sqlite-'));
+  dbPath = path.join(tmpDir, 'wallet.db');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('SqliteStorageProvider', () => {
+  let storage: SqliteStorageProvider;
+
+  beforeEach(async () => {
+    storage = new SqliteStorageProvider({ dbPath });
+    await storage.connect();
+  });
+
+  afterEach(async () => {
+    await storage.disconnect();
+  });
+
+  it('stores, lists and removes keys', async () => {
+    await storage.set('a', '1');
+    await storage.set('a', '2');
+    await storage.set('ab', '3');
+    await storage.set('b', '4');
+
+    expect(await storage.get('a')).toBe('2');
+    expect(await storage.has('b')).toBe(true);
+    expect(await storage.keys('a')).toEqual(['a', 'ab']);
+
+    await storage.remove('a');
+    expect(await storage.get('a')).toBeNull();
+
+    await storage.clear('a');
+    expect(await storage.keys()).toEqual(['b']);
+  });
+
+  it('prefixes per-address keys like FileStorageProvider', async () => {
+    storage.setIdentity(createIdentity());
+    await storage.set(STORAGE_KEYS_ADDRESS.PENDING_TRANSFERS, '[]');
+    await storage.set(STORAGE_KEYS_GLOBAL.MNEMONIC, 'words');
+
+    expect(await storage.keys()).toEqual([
+      `DIRECT_0000aa_11bbbb_${STORAGE_KEYS_ADDRESS.PENDING_TRANSFERS}`,
+      STORAGE_KEYS_GLOBAL.MNEMONIC,
+    ]);
+  });
+
+  it('persists across connections', async () => {
+    await storage.saveTrackedAddresses([{ index: 0, hidden: false, createdAt: 1, updatedAt: 1 }]);
+    await storage.disconnect();
+
+    const reopened = new SqliteStorageProvider(dbPath);
+    await reopened.connect();
+    expect(await reopened.loadTrackedAddresses()).toHaveLength(1);
+    await reopened.disconnect();
+  });
+
+  it('throws when used before connect()', async () => {
+    const fresh = new SqliteStorageProvider(dbPath);
+    await expect(fresh.get('a')).rejects.toThrow('not connected');
+  });
+});
+
+describe('SqliteTokenStorageProvider', () => {
+  let provider: SqliteTokenStorageProvider;
+
+  beforeEach(async () => {
+    provider = new SqliteTokenStorageProvider({ dbPath });
+    provider.setIdentity(createIdentity());
+    expect(await provider.initialize()).toBe(true);
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+  });
+
+  it('round-trips TXF data', async () => {
+    const data = txfData(
+      { _t1: txfToken('t1', 'UCT', '100'), 'archived-t0': txfToken('t0', 'UCT', '5') },
+      { _outbox: [], _sent: [], _invalid: [] },
+    );
+    expect((await provider.save(data)).success).toBe(true);
+
+    const loaded = await provider.load();
+    expect(loaded.success).toBe(true);
+    expect(loaded.data).toEqual(data);
+    expect(await provider.exists()).toBe(true);
+  });
+
+  it('deletes tombstoned tokens in the same save', async () => {
+    await provider.save(txfData({ _t1: txfToken('t1', 'UCT', '100'), _t2: txfToken('t2', 'UCT', '50') }));
+    await provider.save(txfData(
+      { _t2: txfToken('t2', 'UCT', '50') },
+      { _tombstones: [{ tokenId: 't1', stateHash: 'h', timestamp: 1 }] },
+    ));
+
+    const loaded = (await provider.load()).data!;
+    expect(loaded._t1).toBeUndefined();
+    expect(loaded._t2).toBeDefined();
+    expect(loaded._tombstones).toHaveLength(1);
+  });
+
+  it('applies incremental changes without touching other tokens', async () => {
+    await provider.save(txfData({ _t1: txfToken('t1', 'UCT', '100'), _t2: txfToken('t2', 'UCT', '50') }));
+
+    const result = await provider.applyChanges({
+      upserted: { _t3: txfToken('t3', 'USDU', '7'), 'archived-t1': txfToken('t1', 'UCT', '100') },
+      removed: ['_t2'],
+      tombstones: [{ tokenId: 't1', stateHash: 'h', timestamp: 1 }],
+      outbox: [],
+    });
+    expect(result.success).toBe(true);
+
+    const loaded = (await provider.load()).data!;
+    expect(Object.keys(loaded).sort()).toEqual(['_meta', '_outbox', '_t3', '_tombstones', 'archived-t1']);
+    expect(await provider.getTokensByCoinId('USDU')).toHaveLength(1);
+  });
+
+  it('looks tokens up by tokenId and coinId', async () => {
+    await provider.save(txfData({
+      _t1: txfToken('t1', 'UCT', '100'),
+      _t2: txfToken('t2', 'USDU', '7'),
+      _t3: txfToken('t3', 'UCT', '1'),
+      'archived-t4': txfToken('t4', 'UCT', '9'),
+    }));
+
+    expect((await provider.getToken('t2'))?.genesis.data.tokenId).toBe('t2');
+    expect(await provider.getToken('missing')).toBeNull();
+    expect(await provider.getToken('t4')).toBeNull();
+    expect((await provider.getToken('t4', true))?.genesis.data.tokenId).toBe('t4');
+
+    const uct = await provider.getTokensByCoinId('UCT');
+    expect(uct.map((t) => t.genesis.data.tokenId).sort()).toEqual(['t1', 't3']);
+  });
+
+  it('stores history with upsert and skip-existing import', async () => {
+    await provider.addHistoryEntry(makeEntry('a', 1));
+    await provider.addHistoryEntry({ ...makeEntry('a', 3), amount: '2' });
+    expect(await provider.importHistoryEntries([makeEntry('a', 9), makeEntry('b', 2)])).toBe(1);
+
+    const entries = await provider.getHistoryEntries();
+    expect(entries.map((e) => e.dedupKey)).toEqual(['a', 'b']);
+    expect(entries[0].amount).toBe('2');
+    expect(await provider.hasHistoryEntry('b')).toBe(true);
+
+    await provider.clearHistory();
+    expect(await provider.getHistoryEntries()).toEqual([]);
+  });
+
+  it('isolates addresses sharing one database', async () => {
+    const other = provider.createForAddress();
+    other.setIdentity(createIdentity('DIRECT://9999cccc8888dddd'));
+    await other.initialize();
+
+    await provider.save(txfData({ _t1: txfToken('t1', 'UCT', '100') }));
+    await provider.addHistoryEntry(makeEntry('a', 1));
+    await other.save(txfData({ _t2: txfToken('t2', 'UCT', '100') }));
+
+    expect(Object.keys((await other.load()).data!)).toEqual(['_meta', '_t2']);
+    expect(await other.getHistoryEntries()).toEqual([]);
+
+    await other.clear();
+    expect((await provider.load()).data!._t1).toBeDefined();
+    await other.shutdown();
+  });
+
+  it('encrypts payloads with a keyring and keeps the indexes working', async () => {
+    await provider.save(txfData({ _t1: txfToken('t1', 'UCT', '100') }));
+    await provider.addHistoryEntry(makeEntry('a', 1));
+    await provider.shutdown();
+
+    // Reopening with a keyring migrates the plaintext rows
+    const keyring = StorageKeyring.create({ masterKey: '11'.repeat(32) });
+    provider = new SqliteTokenStorageProvider({ dbPath });
+    provider.setIdentity(createIdentity());
+    provider.setKeyring(keyring);
+    await provider.initialize();
+    await provider.save(txfData({ _t1: txfToken('t1', 'UCT', '100'), _t2: txfToken('t2', 'USDU', '7') }));
+
+    const db = await openSqliteDatabase(dbPath);
+    const rows = db.prepare('SELECT data FROM tokens UNION ALL SELECT data FROM token_meta UNION ALL SELECT data FROM history')
+      .all() as { data: string }[];
+    const coins = db.prepare('SELECT coin_id FROM tokens ORDER BY token_id').all() as { coin_id: string }[];
+    db.close();
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every((row) => keyring.isCurrent(row.data))).toBe(true);
+    expect(coins.map((row) => row.coin_id)).toEqual(['UCT', 'USDU']);
+
+    expect((await provider.getToken('t2'))?.genesis.data.tokenId).toBe('t2');
+    expect((await provider.getTokensByCoinId('UCT')).map((t) => t.genesis.data.tokenId)).toEqual(['t1']);
+    expect((await provider.getHistoryEntries())[0].dedupKey).toBe('a');
+    expect((await provider.load()).data!._t2).toEqual(txfToken('t2', 'USDU', '7'));
+  });
+});
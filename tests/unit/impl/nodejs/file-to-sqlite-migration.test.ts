@@ -0,0 +1,129 @@
+/**
+ * Tests for migrateFileStorageToSqlite().
+ *
+ * Writes a wallet with the file providers, migrates it and reads it back
+ * through the SQLite providers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { FileStorageProvider } from '../../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../../impl/nodejs/storage/FileTokenStorageProvider';
+import { SqliteStorageProvider } from '../../../../impl/nodejs/storage/SqliteStorageProvider';
+import { SqliteTokenStorageProvider } from '../../../../impl/nodejs/storage/SqliteTokenStorageProvider';
+import { migrateFileStorageToSqlite } from '../../../../impl/nodejs/storage/file-to-sqlite-migration';
+import { STORAGE_KEYS_ADDRESS } from '../../../../constants';
+import type { FullIdentity } from '../../../../types';
+import type { TxfStorageDataBase } from '../../../../storage';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+let tmpDir: string;
+
+const identity: FullIdentity = {
+  privateKey: '0'.repeat(64),
+  chainPubkey: '02' + 'a'.repeat(64),
+  l1Address: 'alpha1testaddr',
+  directAddress: 'DIRECT://0000aaaa1111bbbb',
+};
+
+function txfToken(tokenId: string, coinId: string, amount: string) {
+  return {
+    version: '2.0',
+    genesis: {
+      data: { tokenId, tokenType: '00', coinData: [[coinId, amount]], tokenData: '' },
+      inclusionProof: null,
+    },
+    state: { data: '', predicate: '' },
+    transactions: [],
+  };
+}
+
+function paths() {
+  return {
+    dataDir: path.join(tmpDir, 'data'),
+    tokensDir: path.join(tmpDir, 'tokens'),
+    dbPath: path.join(tmpDir, 'wallet.db'),
+  };
+}
+
+async function writeFileWallet(): Promise<TxfStorageDataBase> {
+  const { dataDir, tokensDir } = paths();
+
+  const storage = new FileStorageProvider({ dataDir });
+  storage.setIdentity(identity);
+  await storage.connect();
+  await storage.set('wallet_exists', 'true');
+  await storage.set(STORAGE_KEYS_ADDRESS.PENDING_TRANSFERS, '[]');
+  await storage.disconnect();
+
+  const tokens = new FileTokenStorageProvider({ tokensDir });
+  tokens.setIdentity(identity);
+  await tokens.initialize();
+  const data = {
+    _meta: { version: 2, address: 'alpha1testaddr', formatVersion: '2.0', updatedAt: 1 },
+    _tombstones: [{ tokenId: 'gone', stateHash: 'h', timestamp: 1 }],
+    _t1: txfToken('t1', 'UCT', '100'),
+    'archived-t0': txfToken('t0', 'UCT', '5'),
+  } as unknown as TxfStorageDataBase;
+  await tokens.save(data);
+  await tokens.addHistoryEntry({
+    id: 'h1', dedupKey: 'RECEIVED_t1', type: 'RECEIVED', amount: '100', coinId: 'UCT', symbol: 'UCT', timestamp: 1,
+  });
+  return data;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sphere-migrate-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('migrateFileStorageToSqlite', () => {
+  it('copies wallet keys, tokens and history', async () => {
+    const data = await writeFileWallet();
+
+    const result = await migrateFileStorageToSqlite(paths());
+    expect(result).toEqual({ keys: 2, addresses: 1, tokens: 2, historyEntries: 1 });
+
+    const storage = new SqliteStorageProvider(paths().dbPath);
+    storage.setIdentity(identity);
+    await storage.connect();
+    expect(await storage.get('wallet_exists')).toBe('true');
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.PENDING_TRANSFERS)).toBe('[]');
+    await storage.disconnect();
+
+    const tokens = new SqliteTokenStorageProvider(paths().dbPath);
+    tokens.setIdentity(identity);
+    await tokens.initialize();
+    expect((await tokens.load()).data).toEqual(data);
+    expect(await tokens.hasHistoryEntry('RECEIVED_t1')).toBe(true);
+    expect(await tokens.getTokensByCoinId('UCT')).toHaveLength(1);
+    await tokens.shutdown();
+  });
+
+  it('refuses to run twice', async () => {
+    await writeFileWallet();
+    await migrateFileStorageToSqlite(paths());
+    await expect(migrateFileStorageToSqlite(paths())).rejects.toThrow('already contains wallet data');
+  });
+
+  it('leaves the files untouched', async () => {
+    await writeFileWallet();
+    const walletFile = path.join(paths().dataDir, 'wallet.json');
+    const before = fs.readFileSync(walletFile, 'utf-8');
+
+    await migrateFileStorageToSqlite(paths());
+    expect(fs.readFileSync(walletFile, 'utf-8')).toBe(before);
+  });
+});
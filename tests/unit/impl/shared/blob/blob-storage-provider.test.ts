@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BlobTokenStorageProvider, deriveBlobObjectKey } from '../../../../../impl/shared/blob';
+import type { FullIdentity } from '../../../../../types';
+import type { StorageEvent, TxfStorageDataBase } from '../../../../../storage';
+
+// =============================================================================
+// In-memory object store (S3 conditional-write semantics)
+// =============================================================================
+
+function createBlobServer() {
+  const objects = new Map<string, { body: string; etag: string }>();
+  let counter = 0;
+  const requests: Array<{ method: string; url: string; headers: Record<string, string> }> = [];
+
+  const fetchFn = vi.fn(async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const key = String(url);
+    const method = init?.method ?? 'GET';
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    requests.push({ method, url: key, headers });
+    const existing = objects.get(key);
+
+    if (method === 'GET') {
+      if (!existing) return new Response('', { status: 404 });
+      if (headers['If-None-Match'] === existing.etag) return new Response(null, { status: 304 });
+      return new Response(existing.body, { status: 200, headers: { ETag: existing.etag } });
+    }
+    if (method === 'PUT') {
+      if (headers['If-None-Match'] === '*' && existing) return new Response('', { status: 412 });
+      if (headers['If-Match'] && headers['If-Match'] !== existing?.etag) return new Response('', { status: 412 });
+      const etag = `"v${++counter}"`;
+      objects.set(key, { body: String(init?.body), etag });
+      return new Response(null, { status: 200, headers: { ETag: etag } });
+    }
+    if (method === 'DELETE') {
+      objects.delete(key);
+      return new Response(null, { status: 204 });
+    }
+    return new Response('', { status: 405 });
+  });
+
+  return { objects, requests, fetch: fetchFn as unknown as typeof fetch };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const ENDPOINT = 'https://blobs.example.com/wallets';
+
+const identity: FullIdentity = {
+  privateKey: 'e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35',
+  chainPubkey: '0339a36013301597daef41fbe593a02cc513d0b55527ec2df1050e2e8ff49c85c2',
+  l1Address: 'alpha1test',
+  directAddress: 'DIRECT://test',
+};
+
+function tokenId(index: number): string {
+  return index.toString(16).padStart(64, '0');
+}
+
+function txfData(...tokens: number[]): TxfStorageDataBase {
+  const data: Record<string, unknown> = {
+    _meta: { version: 1, address: 'alpha1test', formatVersion: '2.0', updatedAt: 0 },
+  };
+  for (const index of tokens) {
+    data[`_${tokenId(index)}`] = { genesis: { data: { tokenId: tokenId(index) } }, transactions: [] };
+  }
+  return data as TxfStorageDataBase;
+}
+
+function tokenKeys(data: TxfStorageDataBase | undefined): string[] {
+  return Object.keys(data ?? {}).filter((k) => /^_[0-9a-f]{64}$/.test(k)).sort();
+}
+
+async function createProvider(server: ReturnType<typeof createBlobServer>, config: Partial<ConstructorParameters<typeof BlobTokenStorageProvider>[0]> = {}) {
+  const provider = new BlobTokenStorageProvider({ endpoint: ENDPOINT, fetch: server.fetch, flushDebounceMs: 10, ...config });
+  provider.setIdentity(identity);
+  await provider.initialize();
+  return provider;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('BlobTokenStorageProvider', () => {
+  let server: ReturnType<typeof createBlobServer>;
+
+  beforeEach(() => {
+    server = createBlobServer();
+  });
+
+  describe('lifecycle', () => {
+    it('should require an endpoint', () => {
+      expect(() => new BlobTokenStorageProvider({ endpoint: '' })).toThrow('endpoint');
+    });
+
+    it('should fail to initialize without identity', async () => {
+      const provider = new BlobTokenStorageProvider({ endpoint: ENDPOINT, fetch: server.fetch });
+      expect(await provider.initialize()).toBe(false);
+    });
+
+    it('should store the object under a name derived from the wallet key', async () => {
+      const provider = await createProvider(server);
+
+      expect(provider.isConnected()).toBe(true);
+      expect(provider.getObjectUrl()).toBe(`${ENDPOINT}/${deriveBlobObjectKey(identity.privateKey)}`);
+      expect(provider.getObjectUrl()).not.toContain(identity.chainPubkey);
+    });
+
+    it('should refuse to derive the object name from a missing wallet key', () => {
+      const provider = new BlobTokenStorageProvider({ endpoint: ENDPOINT, fetch: server.fetch });
+      expect(() => provider.setIdentity({ ...identity, privateKey: '' })).toThrow(
+        expect.objectContaining({ code: 'WALLET_LOCKED' }),
+      );
+    });
+
+    it('should use a custom object key', async () => {
+      const provider = await createProvider(server, { objectKey: (id) => `users/${id.l1Address}.json` });
+      expect(provider.getObjectUrl()).toBe(`${ENDPOINT}/users/alpha1test.json`);
+    });
+  });
+
+  describe('save and load', () => {
+    it('should write an encrypted snapshot and read it back', async () => {
+      const provider = await createProvider(server);
+
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+
+      const stored = server.objects.get(provider.getObjectUrl()!)!;
+      expect(stored.body).not.toContain(tokenId(1));
+      expect(JSON.parse(stored.body)).toMatchObject({ format: 'sphere-blob-v1' });
+
+      const other = await createProvider(server);
+      const result = await other.load();
+      expect(result.success).toBe(true);
+      expect(tokenKeys(result.data)).toEqual([`_${tokenId(1)}`]);
+    });
+
+    it('should create the object with If-None-Match and update it with If-Match', async () => {
+      const provider = await createProvider(server);
+
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+      await provider.save(txfData(1, 2));
+      await provider.waitForFlush();
+
+      const puts = server.requests.filter((r) => r.method === 'PUT');
+      expect(puts[0].headers['If-None-Match']).toBe('*');
+      expect(puts[1].headers['If-Match']).toBe('"v1"');
+      expect(provider.getETag()).toBe('"v2"');
+    });
+
+    it('should serve an unchanged object from cache', async () => {
+      const provider = await createProvider(server);
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+
+      const result = await provider.load();
+
+      expect(result.success).toBe(true);
+      expect(server.requests.at(-1)!.headers['If-None-Match']).toBe('"v1"');
+      expect(tokenKeys(result.data)).toEqual([`_${tokenId(1)}`]);
+    });
+
+    it('should report a missing object', async () => {
+      const provider = await createProvider(server);
+      const result = await provider.load();
+      expect(result.success).toBe(false);
+      expect(await provider.exists()).toBe(false);
+    });
+
+    it('should fail to read a snapshot encrypted with another key', async () => {
+      const provider = await createProvider(server);
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+
+      const other = await createProvider(server, { keySource: { masterKey: 'ab'.repeat(32) } });
+      const result = await other.load();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/storage key/);
+    });
+
+    it('should pass signed headers on every request', async () => {
+      const sign = vi.fn(async (method: string) => ({ Authorization: `signed-${method}` }));
+      const provider = await createProvider(server, { headers: sign });
+
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+      await provider.load();
+
+      expect(sign).toHaveBeenCalledWith('PUT', provider.getObjectUrl());
+      expect(server.requests.every((r) => r.headers.Authorization === `signed-${r.method}`)).toBe(true);
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    it('should merge and retry a flush that lost an ETag race', async () => {
+      const deviceA = await createProvider(server);
+      const deviceB = await createProvider(server);
+      const events: StorageEvent[] = [];
+      deviceB.onEvent((e) => events.push(e));
+
+      await deviceA.save(txfData(1));
+      await deviceA.waitForFlush();
+      await deviceB.save(txfData(2));
+      await deviceB.waitForFlush();
+
+      const result = await deviceA.load();
+      expect(tokenKeys(result.data)).toEqual([`_${tokenId(1)}`, `_${tokenId(2)}`]);
+      expect(events.some((e) => e.type === 'storage:remote-updated')).toBe(true);
+    });
+
+    it('should merge remote tokens on sync', async () => {
+      const deviceA = await createProvider(server);
+      const deviceB = await createProvider(server);
+      await deviceA.save(txfData(1));
+      await deviceA.waitForFlush();
+
+      const result = await deviceB.sync(txfData(2));
+
+      expect(result.success).toBe(true);
+      expect(result.added).toBe(1);
+      expect(tokenKeys(result.merged)).toEqual([`_${tokenId(1)}`, `_${tokenId(2)}`]);
+      expect(tokenKeys((await deviceA.load()).data)).toEqual([`_${tokenId(1)}`, `_${tokenId(2)}`]);
+    });
+
+    it('should give up when the object keeps changing', async () => {
+      const provider = await createProvider(server, { maxConflictRetries: 1 });
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+
+      const put = server.fetch;
+      server.fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) =>
+        init?.method === 'PUT' ? new Response('', { status: 412 }) : put(url, init)) as unknown as typeof fetch;
+      const stubborn = await createProvider(server, { maxConflictRetries: 1 });
+
+      const result = await stubborn.sync(txfData(2));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/conflict/);
+    });
+  });
+
+  describe('clear', () => {
+    it('should delete the object', async () => {
+      const provider = await createProvider(server);
+      await provider.save(txfData(1));
+      await provider.waitForFlush();
+
+      expect(await provider.clear()).toBe(true);
+      expect(server.objects.size).toBe(0);
+    });
+  });
+
+  describe('createForAddress', () => {
+    it('should create an independent instance with the same config', () => {
+      const provider = new BlobTokenStorageProvider({ endpoint: ENDPOINT, fetch: server.fetch });
+      const clone = provider.createForAddress();
+      expect(clone).toBeInstanceOf(BlobTokenStorageProvider);
+      expect(clone).not.toBe(provider);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { mergeTxfData } from '../../../../../impl/shared/ipfs/txf-merge';
+import { longestHistoryMergePolicy, remoteWinsMergePolicy } from '../../../../../storage';
 import type {
   TxfStorageDataBase,
   TxfTombstone,
@@ -41,6 +42,18 @@ function emptyData(metaOverrides?: Parameters<typeof makeMeta>[0]): TxfStorageDa
   return { _meta: makeMeta(metaOverrides) };
 }
 
+/** Token version whose current state is `stateHash`, after `txCount` committed transfers. */
+function txfVersion(index: number, stateHash: string, txCount = 1) {
+  return {
+    version: '2.0',
+    genesis: { data: { tokenId: tokenId(index) }, inclusionProof: { authenticator: { stateHash: 'genesis' } } },
+    transactions: Array.from({ length: txCount }, (_, i) => ({
+      newStateHash: i === txCount - 1 ? stateHash : `state-${i}`,
+      inclusionProof: {},
+    })),
+  };
+}
+
 /** Convenience tombstone factory. */
 function tombstone(index: number, stateHash: string, timestamp = 100): TxfTombstone {
   return { tokenId: tokenId(index), stateHash, timestamp };
@@ -187,6 +200,79 @@ describe('mergeTxfData', () => {
     });
   });
 
+  describe('merge policies', () => {
+    it('should keep the losing version as a forked entry and report it', () => {
+      const local: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'aaaa') };
+      const remote: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'bbbb') };
+
+      const { merged, conflicts, conflictReports } = mergeTxfData(local, remote);
+
+      expect(merged[tokenKey(1)]).toEqual(txfVersion(1, 'aaaa'));
+      expect((merged as Record<string, unknown>)[`_forked_${tokenId(1)}_bbbb`]).toEqual(txfVersion(1, 'bbbb'));
+      expect(conflicts).toBe(1);
+      expect(conflictReports).toEqual([{
+        tokenId: tokenId(1),
+        localStateHash: 'aaaa',
+        remoteStateHash: 'bbbb',
+        chosen: 'local',
+        forkedId: `${tokenId(1)}_bbbb`,
+      }]);
+    });
+
+    it('should let the policy pick the remote version', () => {
+      const local: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'aaaa') };
+      const remote: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'bbbb') };
+
+      const { merged, conflictReports } = mergeTxfData(local, remote, { mergePolicy: remoteWinsMergePolicy });
+
+      expect(merged[tokenKey(1)]).toEqual(txfVersion(1, 'bbbb'));
+      expect((merged as Record<string, unknown>)[`_forked_${tokenId(1)}_aaaa`]).toEqual(txfVersion(1, 'aaaa'));
+      expect(conflictReports[0]).toMatchObject({ chosen: 'remote', forkedId: `${tokenId(1)}_aaaa` });
+    });
+
+    it('should prefer the longer committed history with longestHistoryMergePolicy', () => {
+      const local: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'aaaa', 1) };
+      const remote: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'bbbb', 2) };
+
+      const { conflictReports } = mergeTxfData(local, remote, { mergePolicy: longestHistoryMergePolicy });
+
+      expect(conflictReports[0].chosen).toBe('remote');
+    });
+
+    it('should not report identical versions as a conflict', () => {
+      const local: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'aaaa') };
+      const remote: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: txfVersion(1, 'aaaa') };
+
+      const { conflicts, conflictReports } = mergeTxfData(local, remote);
+
+      expect(conflicts).toBe(0);
+      expect(conflictReports).toEqual([]);
+    });
+
+    it('should compare decoded entries', () => {
+      const local: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: { wrapped: txfVersion(1, 'aaaa'), iv: 1 } };
+      const remote: TxfStorageDataBase = { _meta: makeMeta(), [tokenKey(1)]: { wrapped: txfVersion(1, 'aaaa'), iv: 2 } };
+
+      const { conflicts } = mergeTxfData(local, remote, {
+        decodeEntry: (value) => (value as { wrapped: unknown }).wrapped,
+      });
+
+      expect(conflicts).toBe(0);
+    });
+
+    it('should union forked entries from both sides', () => {
+      const local = { _meta: makeMeta(), [`_forked_${tokenId(1)}_aaaa`]: txfVersion(1, 'aaaa') } as TxfStorageDataBase;
+      const remote = { _meta: makeMeta(), [`_forked_${tokenId(2)}_bbbb`]: txfVersion(2, 'bbbb') } as TxfStorageDataBase;
+
+      const { merged } = mergeTxfData(local, remote);
+
+      expect(Object.keys(merged)).toEqual(expect.arrayContaining([
+        `_forked_${tokenId(1)}_aaaa`,
+        `_forked_${tokenId(2)}_bbbb`,
+      ]));
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // 4. Meta version merging
   // ---------------------------------------------------------------------------
@@ -0,0 +1,338 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Event, Filter, NostrClient, NostrKeyManager } from '@unicitylabs/nostr-js-sdk';
+import { MemoryRelay, createMemoryRelay } from '../../../../../impl/shared/relay';
+import type { RelayEvent } from '../../../../../impl/shared/relay';
+import { NostrTransportProvider } from '../../../../../transport/NostrTransportProvider';
+import { NIP29_KINDS } from '../../../../../constants';
+import type { IncomingMessage, IncomingTokenTransfer } from '../../../../../transport';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const alice = NostrKeyManager.generate();
+const bob = NostrKeyManager.generate();
+
+const relays: MemoryRelay[] = [];
+const clients: NostrClient[] = [];
+
+afterEach(() => {
+  clients.splice(0).forEach((client) => client.disconnect());
+  relays.splice(0).forEach((relay) => relay.close());
+});
+
+function startRelay(config?: ConstructorParameters<typeof MemoryRelay>[0]): MemoryRelay {
+  const relay = createMemoryRelay(config);
+  relays.push(relay);
+  return relay;
+}
+
+async function flush(ms = 20): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function sign(keys: NostrKeyManager, kind: number, tags: string[][] = [], content = '', createdAt?: number): RelayEvent {
+  return Event.create(keys, { kind, tags, content, created_at: createdAt }).toJSON() as RelayEvent;
+}
+
+/** Raw protocol client on the relay's own WebSocketFactory */
+async function connectRaw(relay: MemoryRelay) {
+  const socket = relay.createWebSocket(relay.url);
+  const messages: unknown[][] = [];
+  socket.onmessage = (event) => messages.push(JSON.parse(event.data));
+  await new Promise((resolve) => { socket.onopen = resolve; });
+  await flush(); // AUTH challenge
+
+  return {
+    socket,
+    messages,
+    send: async (...message: unknown[]) => {
+      socket.send(JSON.stringify(message));
+      await flush();
+    },
+    ofType: (type: string) => messages.filter((m) => m[0] === type),
+  };
+}
+
+/** NostrClient connected through the global WebSocket routing */
+async function connectClient(relay: MemoryRelay, keys: NostrKeyManager): Promise<NostrClient> {
+  const client = new NostrClient(keys, { autoReconnect: false, pingIntervalMs: 0 });
+  clients.push(client);
+  await client.connect(relay.url);
+  await flush(150); // NIP-42 AUTH round trip and resubscribe
+  return client;
+}
+
+function collect(client: NostrClient, filter: Filter): { events: RelayEvent[]; eose: Promise<void> } {
+  const events: RelayEvent[] = [];
+  let done: () => void;
+  const eose = new Promise<void>((resolve) => { done = resolve; });
+  client.subscribe(filter, {
+    onEvent: (event) => events.push(event.toJSON() as RelayEvent),
+    onEndOfStoredEvents: () => done(),
+  });
+  return { events, eose };
+}
+
+// =============================================================================
+// NIP-01
+// =============================================================================
+
+describe('MemoryRelay NIP-01', () => {
+  it('answers REQ with stored events and EOSE, then streams live events until CLOSE', async () => {
+    const relay = startRelay();
+    const client = await connectRaw(relay);
+
+    const note = sign(alice, 1, [['t', 'sphere']], 'hello');
+    await client.send('EVENT', note);
+    expect(client.ofType('OK')).toContainEqual(['OK', note.id, true, '']);
+
+    await client.send('REQ', 'sub', { kinds: [1], '#t': ['sphere'] });
+    expect(client.ofType('EVENT')).toEqual([['EVENT', 'sub', note]]);
+    expect(client.ofType('EOSE')).toEqual([['EOSE', 'sub']]);
+
+    const live = sign(bob, 1, [['t', 'sphere']], 'live');
+    const other = sign(bob, 1, [['t', 'other']], 'filtered out');
+    await client.send('EVENT', live);
+    await client.send('EVENT', other);
+    expect(client.ofType('EVENT').map((m) => (m[2] as RelayEvent).id)).toEqual([note.id, live.id]);
+
+    await client.send('CLOSE', 'sub');
+    await client.send('EVENT', sign(bob, 1, [['t', 'sphere']], 'after close'));
+    expect(client.ofType('EVENT')).toHaveLength(2);
+  });
+
+  it('applies limit newest-first and rejects forged events', async () => {
+    const relay = startRelay();
+    const client = await connectRaw(relay);
+    const now = Math.floor(Date.now() / 1000);
+
+    for (let i = 0; i < 3; i++) {
+      await client.send('EVENT', sign(alice, 1, [], `note ${i}`, now - 10 + i));
+    }
+    await client.send('REQ', 'latest', { authors: [alice.getPublicKeyHex()], limit: 2 });
+    expect(client.ofType('EVENT').map((m) => (m[2] as RelayEvent).content)).toEqual(['note 2', 'note 1']);
+
+    const forged = { ...sign(alice, 1, [], 'original'), content: 'tampered' };
+    await client.send('EVENT', forged);
+    expect(client.ofType('OK').at(-1)).toEqual(['OK', forged.id, false, 'invalid: bad event id or signature']);
+  });
+
+  it('keeps the newest replaceable and parameterized-replaceable events and never stores ephemeral ones', async () => {
+    const relay = startRelay();
+    const client = await connectRaw(relay);
+    const now = Math.floor(Date.now() / 1000);
+
+    const profileOld = sign(alice, 0, [], '{"name":"old"}', now - 5);
+    const profileNew = sign(alice, 0, [], '{"name":"new"}', now);
+    await client.send('EVENT', profileNew);
+    await client.send('EVENT', profileOld);
+    expect(client.ofType('OK').at(-1)).toEqual(['OK', profileOld.id, true, 'duplicate: have a newer version']);
+
+    await client.send('EVENT', sign(alice, 30078, [['d', 'a']], 'a1', now - 5));
+    await client.send('EVENT', sign(alice, 30078, [['d', 'a']], 'a2', now));
+    await client.send('EVENT', sign(alice, 30078, [['d', 'b']], 'b1', now));
+    await client.send('EVENT', sign(alice, 25050, [], 'ephemeral'));
+
+    expect(relay.query({ kinds: [0] }).map((e) => e.content)).toEqual(['{"name":"new"}']);
+    expect(relay.query({ kinds: [30078] }).map((e) => e.content).sort()).toEqual(['a2', 'b1']);
+    expect(relay.query({ kinds: [25050] })).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+describe('MemoryRelay lifecycle', () => {
+  it('routes the global WebSocket while listening and restores it afterwards', async () => {
+    const original = (globalThis as { WebSocket?: unknown }).WebSocket;
+    const relay = new MemoryRelay({ url: 'ws://memory-relay-lifecycle/' }).listen();
+    expect(relay.url).toBe('ws://memory-relay-lifecycle');
+    expect(() => new MemoryRelay({ url: relay.url }).listen()).toThrow('already listening');
+
+    const client = await connectClient(relay, alice);
+    expect(relay.getConnectionCount()).toBe(1);
+
+    relay.close();
+    await flush();
+    expect(client.isConnected()).toBe(false);
+    expect(relay.getConnectionCount()).toBe(0);
+    expect((globalThis as { WebSocket?: unknown }).WebSocket).toBe(original);
+  });
+});
+
+// =============================================================================
+// NIP-42
+// =============================================================================
+
+describe('MemoryRelay NIP-42', () => {
+  it('refuses unauthenticated requests when auth is required', async () => {
+    const relay = startRelay({ requireAuth: true });
+    const client = await connectRaw(relay);
+
+    expect(client.ofType('AUTH')).toHaveLength(1);
+    await client.send('REQ', 'sub', {});
+    expect(client.ofType('CLOSED')).toEqual([['CLOSED', 'sub', 'auth-required: authenticate first']]);
+
+    const wrongChallenge = sign(alice, 22242, [['relay', relay.url], ['challenge', 'nope']]);
+    await client.send('AUTH', wrongChallenge);
+    expect(client.ofType('OK').at(-1)).toEqual(['OK', wrongChallenge.id, false, 'invalid: bad AUTH event']);
+
+    const challenge = client.ofType('AUTH')[0][1] as string;
+    const auth = sign(alice, 22242, [['relay', relay.url], ['challenge', challenge]]);
+    await client.send('AUTH', auth);
+    expect(client.ofType('OK').at(-1)).toEqual(['OK', auth.id, true, '']);
+
+    await client.send('REQ', 'sub', {});
+    expect(client.ofType('EOSE')).toEqual([['EOSE', 'sub']]);
+  });
+
+  it('lets NostrClient authenticate automatically through the global WebSocket', async () => {
+    const relay = startRelay({ requireAuth: true });
+    const sender = await connectClient(relay, alice);
+    const receiver = await connectClient(relay, bob);
+
+    const { events } = collect(receiver, new Filter({ kinds: [1], authors: [alice.getPublicKeyHex()] }));
+    await flush();
+    await sender.publishEvent(Event.create(alice, { kind: 1, tags: [], content: 'authed' }));
+    await flush();
+
+    expect(events.map((e) => e.content)).toEqual(['authed']);
+    expect(relay.getConnectionCount()).toBe(2);
+  });
+});
+
+// =============================================================================
+// NIP-29
+// =============================================================================
+
+describe('MemoryRelay NIP-29', () => {
+  async function createGroup(client: NostrClient, groupId: string, content: Record<string, unknown>) {
+    return client.createAndPublishEvent({
+      kind: NIP29_KINDS.CREATE_GROUP,
+      tags: [['h', groupId]],
+      content: JSON.stringify(content),
+    });
+  }
+
+  it('creates groups with relay-signed state and gates posting on membership', async () => {
+    const relay = startRelay();
+    const admin = await connectClient(relay, alice);
+    const user = await connectClient(relay, bob);
+
+    await createGroup(admin, 'lobby', { name: 'Lobby', about: 'General chat' });
+
+    const metadata = relay.query({ kinds: [NIP29_KINDS.GROUP_METADATA], '#d': ['lobby'] });
+    expect(metadata).toHaveLength(1);
+    expect(metadata[0].pubkey).toBe(relay.getPublicKey());
+    expect(metadata[0].tags).toEqual(expect.arrayContaining([['name', 'Lobby'], ['about', 'General chat'], ['public']]));
+    expect(relay.query({ kinds: [NIP29_KINDS.GROUP_ADMINS], '#d': ['lobby'] })[0].tags)
+      .toContainEqual(['p', alice.getPublicKeyHex(), 'admin']);
+
+    const message = { kind: NIP29_KINDS.CHAT_MESSAGE, tags: [['h', 'lobby']], content: 'hi' };
+    await expect(user.createAndPublishEvent(message)).rejects.toThrow('not a member');
+
+    await user.createAndPublishEvent({ kind: NIP29_KINDS.JOIN_REQUEST, tags: [['h', 'lobby']], content: '' });
+    await expect(user.createAndPublishEvent({ kind: NIP29_KINDS.JOIN_REQUEST, tags: [['h', 'lobby']], content: 'again' }))
+      .rejects.toThrow('already a member');
+    await user.createAndPublishEvent(message);
+
+    const { events, eose } = collect(admin, new Filter({ kinds: [NIP29_KINDS.CHAT_MESSAGE], '#h': ['lobby'] }));
+    await eose;
+    expect(events.map((e) => e.content)).toEqual(['hi']);
+    expect(relay.query({ kinds: [NIP29_KINDS.GROUP_MEMBERS], '#d': ['lobby'] })[0].tags)
+      .toContainEqual(['p', bob.getPublicKeyHex()]);
+  });
+
+  it('hides private groups from non-members and admits invitees', async () => {
+    const relay = startRelay();
+    const admin = await connectClient(relay, alice);
+    const user = await connectClient(relay, bob);
+
+    await createGroup(admin, 'secret', { name: 'Secret', private: true, hidden: true, closed: true });
+    await admin.createAndPublishEvent({ kind: NIP29_KINDS.CHAT_MESSAGE, tags: [['h', 'secret']], content: 'psst' });
+
+    const before = collect(user, new Filter({ kinds: [NIP29_KINDS.GROUP_METADATA, NIP29_KINDS.CHAT_MESSAGE] }));
+    await before.eose;
+    expect(before.events).toEqual([]);
+
+    await expect(user.createAndPublishEvent({ kind: NIP29_KINDS.JOIN_REQUEST, tags: [['h', 'secret']], content: '' }))
+      .rejects.toThrow('invite code required');
+    await admin.createAndPublishEvent({ kind: NIP29_KINDS.CREATE_INVITE, tags: [['h', 'secret'], ['code', 'c0de']], content: '' });
+    await user.createAndPublishEvent({ kind: NIP29_KINDS.JOIN_REQUEST, tags: [['h', 'secret'], ['code', 'c0de']], content: '' });
+
+    const after = collect(user, new Filter({ kinds: [NIP29_KINDS.GROUP_METADATA, NIP29_KINDS.CHAT_MESSAGE] }));
+    await after.eose;
+    expect(after.events.map((e) => e.kind).sort((a, b) => a - b)).toEqual([NIP29_KINDS.CHAT_MESSAGE, NIP29_KINDS.GROUP_METADATA]);
+  });
+
+  it('announces leaves as relay-signed removals and deletes groups for admins only', async () => {
+    const relay = startRelay();
+    const admin = await connectClient(relay, alice);
+    const user = await connectClient(relay, bob);
+
+    await createGroup(admin, 'temp', { name: 'Temp' });
+    await user.createAndPublishEvent({ kind: NIP29_KINDS.JOIN_REQUEST, tags: [['h', 'temp']], content: '' });
+    const removals = collect(user, new Filter({ kinds: [NIP29_KINDS.REMOVE_USER], '#h': ['temp'] }));
+    await removals.eose;
+
+    await user.createAndPublishEvent({ kind: NIP29_KINDS.LEAVE_REQUEST, tags: [['h', 'temp']], content: '' });
+    await flush();
+    expect(removals.events).toHaveLength(1);
+    expect(removals.events[0].pubkey).toBe(relay.getPublicKey());
+    expect(removals.events[0].tags).toContainEqual(['p', bob.getPublicKeyHex()]);
+
+    const deletion = { kind: NIP29_KINDS.DELETE_GROUP, tags: [['h', 'temp']], content: '' };
+    await expect(user.createAndPublishEvent(deletion)).rejects.toThrow('not a group admin');
+    await admin.createAndPublishEvent(deletion);
+
+    expect(relay.query({ kinds: [NIP29_KINDS.GROUP_METADATA], '#d': ['temp'] })).toEqual([]);
+    await expect(user.createAndPublishEvent({ kind: NIP29_KINDS.JOIN_REQUEST, tags: [['h', 'temp']], content: '' }))
+      .rejects.toThrow('group not found');
+  });
+});
+
+// =============================================================================
+// Transports
+// =============================================================================
+
+describe('MemoryRelay with NostrTransportProvider', () => {
+  async function createTransport(relay: MemoryRelay, privateKey: string) {
+    const transport = new NostrTransportProvider({
+      relays: [relay.url],
+      createWebSocket: relay.createWebSocket,
+      autoReconnect: false,
+    });
+    await transport.setIdentity({
+      privateKey,
+      chainPubkey: '02' + '11'.repeat(32),
+      l1Address: 'alpha1test',
+    });
+    await transport.connect();
+    return transport;
+  }
+
+  it('carries token transfers and direct messages between in-process wallets', async () => {
+    const relay = startRelay();
+    const sender = await createTransport(relay, '01'.repeat(32));
+    const recipient = await createTransport(relay, '02'.repeat(32));
+
+    const transfers: IncomingTokenTransfer[] = [];
+    const messages: IncomingMessage[] = [];
+    recipient.onTokenTransfer((transfer) => { transfers.push(transfer); });
+    recipient.onMessage((message) => { messages.push(message); });
+    await flush(150);
+
+    await sender.sendTokenTransfer(recipient.getNostrPubkey(), { token: '{"genesis":{}}', proof: null, memo: 'rent' });
+    await sender.sendMessage(recipient.getNostrPubkey(), 'see you');
+    await flush(100);
+
+    expect(transfers.map((t) => t.payload.memo)).toEqual(['rent']);
+    expect(transfers[0].senderTransportPubkey).toBe(sender.getNostrPubkey());
+    expect(messages.map((m) => m.content)).toContain('see you');
+
+    await sender.disconnect();
+    await recipient.disconnect();
+  });
+});
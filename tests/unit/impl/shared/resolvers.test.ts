@@ -98,6 +98,12 @@ describe('resolveTransportConfig', () => {
       expect(result.autoReconnect).toBe(true);
     });
 
+    it('should fail over only to relays of the same network', () => {
+      expect(resolveTransportConfig('testnet').relayHealth?.candidateRelays).toEqual([...NETWORKS.testnet.nostrRelays]);
+      const result = resolveTransportConfig('testnet', { relayHealth: { candidateRelays: [], maxConsecutiveFailures: 5 } });
+      expect(result.relayHealth).toEqual({ candidateRelays: [], maxConsecutiveFailures: 5 });
+    });
+
     it('should pass through debug', () => {
       const result = resolveTransportConfig('testnet', { debug: true });
       expect(result.debug).toBe(true);
@@ -227,6 +233,11 @@ describe('resolveL1Config', () => {
     expect(result?.enableVesting).toBe(true);
   });
 
+  it('should pass through coinSelection', () => {
+    const result = resolveL1Config('testnet', { coinSelection: 'privacy' });
+    expect(result?.coinSelection).toBe('privacy');
+  });
+
   it('should use different defaults for different networks', () => {
     const mainnet = resolveL1Config('mainnet', {});
     const testnet = resolveL1Config('testnet', {});
@@ -0,0 +1,256 @@
+/**
+ * Tests for L1PaymentsModule.bumpFee() / cpfp()
+ *
+ * Covers RBF replacement and CPFP of stuck transactions, persistence of the
+ * fee bump records, and how they show up in getHistory().
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn(),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn(() => true),
+  getBalance: vi.fn(() => 0),
+  getUtxo: vi.fn(() => []),
+  broadcast: vi.fn(async () => 'ok'),
+  getTransactionHistory: vi.fn(() => []),
+  getTransaction: vi.fn(() => null),
+  getCurrentBlockHeight: vi.fn(() => 100000),
+}));
+
+import { broadcast, getTransaction as l1GetTransaction, getTransactionHistory } from '../../../l1/network';
+import type { TransactionDetail } from '../../../l1/network';
+import { estimateTransactionFee } from '../../../l1/fees';
+import { privateKeyToAddressInfo } from '../../../core/crypto';
+import { encodeBech32 } from '../../../core/bech32';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import { L1PaymentsModule } from '../../../modules/payments/L1PaymentsModule';
+import type { StorageProvider } from '../../../storage';
+import type { FullIdentity } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PRIVATE_KEY = '0'.repeat(63) + '1';
+const { address: WALLET_ADDR, publicKey: WALLET_PUBKEY } = privateKeyToAddressInfo(PRIVATE_KEY);
+const EXTERNAL_ADDR = encodeBech32('alpha', 0, new Uint8Array(20).fill(0xab));
+
+const FUNDING_TXID = 'f'.repeat(64);
+const STUCK_TXID = 'e'.repeat(64);
+
+function output(address: string, sats: number, n: number) {
+  return { value: sats / 100_000_000, n, scriptPubKey: { hex: '', type: 'witness_v0_keyhash', address } };
+}
+
+/** Funding tx (1 ALPHA to us) and a stuck 1 sat/vB send of 0.5 ALPHA spending it */
+const fundingTx: TransactionDetail = {
+  txid: FUNDING_TXID,
+  version: 2,
+  locktime: 0,
+  confirmations: 10,
+  vin: [],
+  vout: [output(WALLET_ADDR, 100_000_000, 0)],
+};
+
+const stuckTx: TransactionDetail = {
+  txid: STUCK_TXID,
+  version: 2,
+  locktime: 0,
+  confirmations: 0,
+  vin: [{ txid: FUNDING_TXID, vout: 0, sequence: 0xfffffffe }],
+  vout: [output(EXTERNAL_ADDR, 50_000_000, 0), output(WALLET_ADDR, 50_000_000 - 141, 1)],
+};
+
+function createMemoryStorage(): StorageProvider {
+  const data = new Map<string, string>();
+  return {
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+  } as unknown as StorageProvider;
+}
+
+async function createModule(storage?: StorageProvider): Promise<L1PaymentsModule> {
+  const mod = new L1PaymentsModule({ enableVesting: false });
+  await mod.initialize({
+    identity: {
+      privateKey: PRIVATE_KEY,
+      chainPubkey: WALLET_PUBKEY,
+      l1Address: WALLET_ADDR,
+    } as unknown as FullIdentity,
+    storage,
+  });
+  return mod;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) => {
+    if (txid === FUNDING_TXID) return fundingTx;
+    if (txid === STUCK_TXID) return stuckTx;
+    return null;
+  });
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('L1PaymentsModule.bumpFee()', () => {
+  it('broadcasts a replacement paying the new fee rate', async () => {
+    const mod = await createModule();
+
+    const result = await mod.bumpFee(STUCK_TXID, 20);
+
+    expect(result.success).toBe(true);
+    expect(result.method).toBe('rbf');
+    expect(result.originalTxid).toBe(STUCK_TXID);
+    expect(result.txHash).toHaveLength(64);
+    expect(result.txHash).not.toBe(STUCK_TXID);
+    expect(result.fee).toBe(estimateTransactionFee(1, 2, 20).toString());
+    expect(broadcast).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a fee rate that does not exceed the current one', async () => {
+    const mod = await createModule();
+
+    const result = await mod.bumpFee(STUCK_TXID, 1);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('must exceed');
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('rejects confirmed transactions', async () => {
+    vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) =>
+      txid === STUCK_TXID ? { ...stuckTx, confirmations: 1 } : fundingTx
+    );
+    const mod = await createModule();
+
+    const result = await mod.bumpFee(STUCK_TXID, 20);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('already confirmed');
+  });
+
+  it('rejects transactions spending inputs we do not own', async () => {
+    vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) =>
+      txid === STUCK_TXID ? stuckTx : { ...fundingTx, vout: [output(EXTERNAL_ADDR, 100_000_000, 0)] }
+    );
+    const mod = await createModule();
+
+    const result = await mod.bumpFee(STUCK_TXID, 20);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('do not own');
+  });
+
+  it('takes the fee from the recorded change output of a self-send', async () => {
+    // Both outputs pay us: change first, then 0.3 ALPHA to ourselves
+    const selfSend: TransactionDetail = {
+      ...stuckTx,
+      vout: [output(WALLET_ADDR, 70_000_000 - 141, 0), output(WALLET_ADDR, 30_000_000, 1)],
+    };
+    vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) =>
+      txid === STUCK_TXID ? selfSend : fundingTx
+    );
+    const storage = createMemoryStorage();
+    await storage.set(
+      STORAGE_KEYS_ADDRESS.L1_CHANGE_OUTPUTS,
+      JSON.stringify([{ txid: STUCK_TXID, vout: 0, address: WALLET_ADDR }])
+    );
+    const mod = await createModule(storage);
+
+    const result = await mod.bumpFee(STUCK_TXID, 20);
+
+    expect(result.success).toBe(true);
+    const raw = vi.mocked(broadcast).mock.calls[0][0] as string;
+    // The payment output keeps its value: 30_000_000 sats, little-endian
+    expect(raw).toContain('80c3c90100000000');
+    const changeRecords = JSON.parse((await storage.get(STORAGE_KEYS_ADDRESS.L1_CHANGE_OUTPUTS))!);
+    expect(changeRecords[1]).toEqual({ txid: result.txHash, vout: 0, address: WALLET_ADDR });
+  });
+
+  it('refuses to guess the change of an unrecorded self-send', async () => {
+    vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) =>
+      txid === STUCK_TXID
+        ? { ...stuckTx, vout: [output(WALLET_ADDR, 30_000_000, 0), output(WALLET_ADDR, 70_000_000 - 141, 1)] }
+        : fundingTx
+    );
+    const mod = await createModule();
+
+    const result = await mod.bumpFee(STUCK_TXID, 20);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no change output');
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('shows the replaced send as superseded in history', async () => {
+    const storage = createMemoryStorage();
+    const mod = await createModule(storage);
+    const result = await mod.bumpFee(STUCK_TXID, 20);
+
+    // After replacement the server only knows the new transaction
+    const replacementTx: TransactionDetail = {
+      ...stuckTx,
+      txid: result.txHash!,
+      vout: [output(EXTERNAL_ADDR, 50_000_000, 0), output(WALLET_ADDR, 50_000_000 - Number(result.fee), 1)],
+    };
+    vi.mocked(getTransactionHistory).mockResolvedValue([{ tx_hash: result.txHash!, height: 0 }]);
+    vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) => {
+      if (txid === FUNDING_TXID) return fundingTx;
+      if (txid === result.txHash) return replacementTx;
+      return null;
+    });
+
+    // A fresh module instance reads the persisted records
+    const reloaded = await createModule(storage);
+    const history = await reloaded.getHistory();
+
+    const original = history.find((t) => t.txid === STUCK_TXID);
+    const replacement = history.find((t) => t.txid === result.txHash);
+    expect(original).toMatchObject({ superseded: true, replacedBy: result.txHash, type: 'send', amount: '50000000' });
+    expect(replacement?.replaces).toBe(STUCK_TXID);
+    expect(storage.set).toHaveBeenCalledWith(STORAGE_KEYS_ADDRESS.L1_FEE_BUMPS, expect.any(String));
+  });
+});
+
+describe('L1PaymentsModule.cpfp()', () => {
+  it('spends our change output with a package-level fee', async () => {
+    const mod = await createModule();
+
+    const result = await mod.cpfp(STUCK_TXID, 20);
+
+    expect(result.success).toBe(true);
+    expect(result.method).toBe('cpfp');
+    expect(Number(result.fee)).toBeGreaterThan(estimateTransactionFee(1, 1, 20));
+    expect(broadcast).toHaveBeenCalledTimes(1);
+  });
+
+  it('links parent and child in history', async () => {
+    const mod = await createModule();
+    const result = await mod.cpfp(STUCK_TXID, 20);
+
+    vi.mocked(getTransactionHistory).mockResolvedValue([{ tx_hash: STUCK_TXID, height: 0 }]);
+    const history = await mod.getHistory();
+
+    expect(history.find((t) => t.txid === STUCK_TXID)?.bumpedBy).toBe(result.txHash);
+    expect((await mod.getFeeBumps())[0]).toMatchObject({ method: 'cpfp', originalTxid: STUCK_TXID });
+  });
+
+  it('fails when the transaction pays none of our addresses', async () => {
+    vi.mocked(l1GetTransaction).mockImplementation(async (txid: string) =>
+      txid === STUCK_TXID ? { ...stuckTx, vout: [output(EXTERNAL_ADDR, 99_999_000, 0)] } : fundingTx
+    );
+    const mod = await createModule();
+
+    const result = await mod.cpfp(STUCK_TXID, 20);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('no output');
+  });
+});
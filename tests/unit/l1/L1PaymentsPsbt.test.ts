@@ -0,0 +1,129 @@
+/**
+ * Tests for L1PaymentsModule.createPsbt() / signPsbt() / finalizeAndBroadcast()
+ *
+ * Covers the offline signing flow: one module plans the send, another signs
+ * it without touching the network, the first finalizes and broadcasts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn(),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn(() => true),
+  getBalance: vi.fn(() => 0),
+  getUtxo: vi.fn(() => []),
+  broadcast: vi.fn(async () => 'ok'),
+  getTransactionHistory: vi.fn(() => []),
+  getTransaction: vi.fn(() => null),
+  getCurrentBlockHeight: vi.fn(() => 100000),
+}));
+
+import { getUtxo, broadcast, connect } from '../../../l1/network';
+import { estimateTransactionFee } from '../../../l1/fees';
+import { privateKeyToAddressInfo } from '../../../core/crypto';
+import { encodeBech32 } from '../../../core/bech32';
+import { L1PaymentsModule } from '../../../modules/payments/L1PaymentsModule';
+import type { FullIdentity } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PRIVATE_KEY = '0'.repeat(63) + '1';
+const { address: WALLET_ADDR, publicKey: WALLET_PUBKEY } = privateKeyToAddressInfo(PRIVATE_KEY);
+const RECIPIENT_ADDR = encodeBech32('alpha', 0, new Uint8Array(20).fill(0xab));
+
+async function createModule(privateKey = PRIVATE_KEY): Promise<L1PaymentsModule> {
+  const info = privateKeyToAddressInfo(privateKey);
+  const mod = new L1PaymentsModule({ enableVesting: false });
+  await mod.initialize({
+    identity: {
+      privateKey,
+      chainPubkey: info.publicKey,
+      l1Address: info.address,
+    } as unknown as FullIdentity,
+  });
+  return mod;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getUtxo).mockResolvedValue([
+    { tx_hash: 'a'.repeat(64), tx_pos: 0, value: 30000, height: 90000, address: WALLET_ADDR },
+    { tx_hash: 'b'.repeat(64), tx_pos: 1, value: 30000, height: 90000, address: WALLET_ADDR },
+  ]);
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('L1PaymentsModule PSBT flow', () => {
+  it('creates, signs offline and broadcasts a send', async () => {
+    const online = await createModule();
+    const offline = await createModule();
+
+    const created = await online.createPsbt({ to: RECIPIENT_ADDR, amount: '50000' });
+    expect(created.success).toBe(true);
+    expect(created.fee).toBe(estimateTransactionFee(2, 2, 10).toString());
+    expect(broadcast).not.toHaveBeenCalled();
+
+    vi.mocked(connect).mockClear();
+    const signed = await offline.signPsbt(created.psbt!);
+    expect(signed.success).toBe(true);
+    expect(signed.signedInputs).toBe(2);
+    expect(signed.fee).toBe(created.fee);
+    expect(connect).not.toHaveBeenCalled();
+
+    const result = await online.finalizeAndBroadcast(signed.psbt!);
+    expect(result.success).toBe(true);
+    expect(result.txHash).toHaveLength(64);
+    expect(result.fee).toBe(created.fee);
+    expect(broadcast).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(broadcast).mock.calls[0][0]).toContain(WALLET_PUBKEY);
+  });
+
+  it('fails to sign a PSBT spending none of its addresses', async () => {
+    const created = await (await createModule()).createPsbt({ to: RECIPIENT_ADDR, amount: '50000' });
+    const stranger = await createModule('0'.repeat(63) + '2');
+
+    const signed = await stranger.signPsbt(created.psbt!);
+
+    expect(signed.success).toBe(false);
+    expect(signed.error).toContain('no inputs spending');
+  });
+
+  it('refuses to broadcast an unsigned PSBT', async () => {
+    const mod = await createModule();
+    const created = await mod.createPsbt({ to: RECIPIENT_ADDR, amount: '50000' });
+
+    const result = await mod.finalizeAndBroadcast(created.psbt!);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not signed');
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('lets a watch-only module create but not sign', async () => {
+    const watcher = new L1PaymentsModule({ enableVesting: false });
+    await watcher.initialize({
+      identity: { privateKey: '', chainPubkey: WALLET_PUBKEY, l1Address: WALLET_ADDR } as unknown as FullIdentity,
+      watchOnly: true,
+    });
+
+    const created = await watcher.createPsbt({ to: RECIPIENT_ADDR, amount: '50000' });
+
+    expect(created.success).toBe(true);
+    await expect(watcher.signPsbt(created.psbt!)).rejects.toMatchObject({ code: 'WATCH_ONLY' });
+    await expect(watcher.send({ to: RECIPIENT_ADDR, amount: '50000' })).rejects.toMatchObject({ code: 'WATCH_ONLY' });
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('reports malformed PSBTs', async () => {
+    const result = await (await createModule()).signPsbt('not a psbt');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid PSBT');
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for L1PaymentsModule.send() / estimateFee()
+ *
+ * Covers multi-input sends: a fragmented wallet must broadcast a single
+ * transaction and pay a vsize-based fee once. Also covers per-request coin
+ * selection, vesting policies and privacy sends across wallet addresses.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn(),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn(() => true),
+  getBalance: vi.fn(() => 0),
+  getUtxo: vi.fn(() => []),
+  broadcast: vi.fn(async () => 'ok'),
+  getTransactionHistory: vi.fn(() => []),
+  getTransaction: vi.fn(() => null),
+  getCurrentBlockHeight: vi.fn(() => 100000),
+}));
+
+vi.mock('../../../l1/vesting', () => ({
+  VESTING_THRESHOLD: 280000,
+  vestingClassifier: {
+    initDB: vi.fn(),
+    classifyUtxos: vi.fn(async (utxos: Array<{ value: number }>) => ({
+      // Treat the 30000-sat UTXOs as vested, everything else as unvested
+      vested: utxos.filter((u) => u.value === 30000).map((u) => ({ ...u, vestingStatus: 'vested' })),
+      unvested: utxos.filter((u) => u.value !== 30000).map((u) => ({ ...u, vestingStatus: 'unvested' })),
+      errors: [],
+    })),
+  },
+}));
+
+import { getUtxo, broadcast, getBalance, getTransactionHistory } from '../../../l1/network';
+import { estimateTransactionFee } from '../../../l1/tx';
+import { privateKeyToAddressInfo } from '../../../core/crypto';
+import { encodeBech32 } from '../../../core/bech32';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import { L1PaymentsModule } from '../../../modules/payments/L1PaymentsModule';
+import type { L1AddressSource } from '../../../modules/payments/L1PaymentsModule';
+import type { StorageProvider } from '../../../storage';
+import type { FullIdentity } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PRIVATE_KEY = '0'.repeat(63) + '1';
+const { address: WALLET_ADDR, publicKey: WALLET_PUBKEY } = privateKeyToAddressInfo(PRIVATE_KEY);
+const RECIPIENT_ADDR = encodeBech32('alpha', 0, new Uint8Array(20).fill(0xab));
+
+function makeUtxo(value: number, txHash: string) {
+  return { tx_hash: txHash, tx_pos: 0, value, height: 90000, address: WALLET_ADDR };
+}
+
+async function createModule(
+  config?: { defaultFeeRate?: number },
+  deps?: { addressSource?: L1AddressSource; storage?: StorageProvider }
+): Promise<L1PaymentsModule> {
+  const mod = new L1PaymentsModule({ enableVesting: false, ...config });
+  await mod.initialize({
+    identity: {
+      privateKey: PRIVATE_KEY,
+      chainPubkey: WALLET_PUBKEY,
+      l1Address: WALLET_ADDR,
+    } as unknown as FullIdentity,
+    ...deps,
+  });
+  return mod;
+}
+
+/** HD-style address entry for a test key */
+function addressInfo(privateKey: string, path: string, index: number) {
+  return { ...privateKeyToAddressInfo(privateKey), privateKey, path, index };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getUtxo).mockResolvedValue([
+    makeUtxo(30000, 'a'.repeat(64)),
+    makeUtxo(30000, 'b'.repeat(64)),
+    makeUtxo(30000, 'c'.repeat(64)),
+  ]);
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('L1PaymentsModule.send()', () => {
+  it('broadcasts one transaction for a multi-UTXO send', async () => {
+    const mod = await createModule();
+
+    const result = await mod.send({ to: RECIPIENT_ADDR, amount: '50000' });
+
+    expect(result.success).toBe(true);
+    expect(broadcast).toHaveBeenCalledTimes(1);
+    expect(result.txHash).toHaveLength(64);
+    expect(result.fee).toBe(estimateTransactionFee(2, 2, 10).toString());
+  });
+
+  it('uses the request fee rate over the configured default', async () => {
+    const mod = await createModule({ defaultFeeRate: 5 });
+
+    const result = await mod.send({ to: RECIPIENT_ADDR, amount: '50000', feeRate: 20 });
+
+    expect(result.success).toBe(true);
+    expect(result.fee).toBe(estimateTransactionFee(2, 2, 20).toString());
+  });
+
+  it('rejects a non-positive fee rate', async () => {
+    const mod = await createModule();
+
+    const result = await mod.send({ to: RECIPIENT_ADDR, amount: '50000', feeRate: 0 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid fee rate');
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe('L1PaymentsModule.send() coin selection', () => {
+  beforeEach(() => {
+    vi.mocked(getUtxo).mockResolvedValue([
+      makeUtxo(30000, 'a'.repeat(64)),
+      makeUtxo(30000, 'b'.repeat(64)),
+      makeUtxo(500000, 'c'.repeat(64)),
+    ]);
+  });
+
+  it('honours the per-request strategy', async () => {
+    const mod = await createModule();
+    const select = vi.fn((utxos: Array<{ value: number }>) => utxos.filter((u) => u.value === 500000));
+
+    const result = await mod.send({
+      to: RECIPIENT_ADDR,
+      amount: '50000',
+      coinSelection: { name: 'custom', select },
+    });
+
+    expect(result.success).toBe(true);
+    expect(select).toHaveBeenCalledTimes(1);
+  });
+
+  it('spends only vested coins with useVested', async () => {
+    const mod = await createModule();
+
+    const result = await mod.send({ to: RECIPIENT_ADDR, amount: '50000', useVested: true });
+
+    expect(result.success).toBe(true);
+    // Two vested 30000-sat inputs + change
+    expect(result.fee).toBe(estimateTransactionFee(2, 2, 10).toString());
+  });
+
+  it('fails when the excluded class holds all the funds', async () => {
+    const mod = await createModule();
+
+    const result = await mod.send({
+      to: RECIPIENT_ADDR,
+      amount: '100000',
+      vesting: { exclude: 'unvested' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Insufficient funds');
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe('L1PaymentsModule.send() across addresses', () => {
+  const other = addressInfo('0'.repeat(63) + '2', "m/44'/0'/0'/0/1", 1);
+  const usedChange = addressInfo('0'.repeat(63) + '3', "m/44'/0'/0'/1/0", 0);
+  const freshChange = addressInfo('0'.repeat(63) + '4', "m/44'/0'/0'/1/1", 1);
+
+  const addressSource: L1AddressSource = {
+    getAddresses: () => [addressInfo(PRIVATE_KEY, "m/44'/0'/0'/0/0", 0), other],
+    deriveChangeAddress: (index) => [usedChange, freshChange][index],
+  };
+
+  beforeEach(() => {
+    vi.mocked(getUtxo).mockImplementation(async (address: string) =>
+      address === other.address ? [{ ...makeUtxo(200000, 'd'.repeat(64)), address }] : []
+    );
+    vi.mocked(getTransactionHistory).mockImplementation(async (address: string) =>
+      address === usedChange.address ? [{ tx_hash: 'e'.repeat(64), height: 1 }] : []
+    );
+  });
+
+  it('spends another wallet address and sends change to a fresh change address', async () => {
+    const data = new Map<string, string>();
+    const storage = {
+      get: vi.fn(async (key: string) => data.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string) => { data.set(key, value); }),
+    } as unknown as StorageProvider;
+    const mod = await createModule(undefined, { addressSource, storage });
+
+    const result = await mod.send({ to: RECIPIENT_ADDR, amount: '50000', coinSelection: 'privacy' });
+
+    expect(result.success).toBe(true);
+    // The input is signed with the other address's key
+    expect(vi.mocked(broadcast).mock.calls[0][0]).toContain(other.publicKey);
+    expect(JSON.parse(data.get(STORAGE_KEYS_ADDRESS.L1_CHANGE_OUTPUTS)!)).toEqual([
+      { txid: result.txHash, vout: 1, address: freshChange.address, changeIndex: 1 },
+    ]);
+
+    // The change address counts toward this address's balance from now on
+    await mod.getBalance();
+    expect(getBalance).toHaveBeenCalledWith(freshChange.address);
+  });
+
+  it('keeps other selectors on the sender address', async () => {
+    const mod = await createModule(undefined, { addressSource });
+
+    const result = await mod.send({ to: RECIPIENT_ADDR, amount: '50000' });
+
+    expect(result.success).toBe(false);
+    expect(getUtxo).not.toHaveBeenCalledWith(other.address);
+  });
+});
+
+describe('L1PaymentsModule.estimateFee()', () => {
+  it('returns the planned fee and rate', async () => {
+    const mod = await createModule({ defaultFeeRate: 3 });
+
+    const estimate = await mod.estimateFee(RECIPIENT_ADDR, '50000');
+
+    expect(estimate.feeRate).toBe(3);
+    expect(estimate.fee).toBe(estimateTransactionFee(2, 2, 3).toString());
+  });
+
+  it('honours an explicit fee rate', async () => {
+    const mod = await createModule();
+
+    const estimate = await mod.estimateFee(RECIPIENT_ADDR, '10000', 2);
+
+    expect(estimate.feeRate).toBe(2);
+    expect(estimate.fee).toBe(estimateTransactionFee(1, 2, 2).toString());
+  });
+});
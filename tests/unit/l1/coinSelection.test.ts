@@ -0,0 +1,226 @@
+/**
+ * Tests for l1/coinSelection.ts
+ * Covers built-in coin selectors and the vesting policy wrapper (pure functions)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  defaultCoinSelector,
+  branchAndBoundCoinSelector,
+  largestFirstCoinSelector,
+  oldestFirstCoinSelector,
+  privacyCoinSelector,
+  getCoinSelector,
+  withVestingPolicy,
+  type L1CoinSelector,
+} from '../../../l1/coinSelection';
+import { collectUtxosForAmount } from '../../../l1/tx';
+import { estimateTransactionFee } from '../../../l1/fees';
+import { encodeBech32 } from '../../../core/bech32';
+import type { ClassifiedUTXO } from '../../../l1/types';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const ADDR_A = encodeBech32('alpha', 0, new Uint8Array(20).fill(0x0a));
+const ADDR_B = encodeBech32('alpha', 0, new Uint8Array(20).fill(0x0b));
+const RECIPIENT = encodeBech32('alpha', 0, new Uint8Array(20).fill(0xab));
+const FEE_RATE = 10;
+
+let txCounter = 0;
+function utxo(value: number, overrides: Partial<ClassifiedUTXO> = {}): ClassifiedUTXO {
+  txCounter++;
+  return {
+    tx_hash: txCounter.toString(16).padStart(64, '0'),
+    tx_pos: 0,
+    value,
+    height: 1000,
+    address: ADDR_A,
+    ...overrides,
+  };
+}
+
+const target = (amount: number) => ({ amount, feeRate: FEE_RATE });
+const values = (utxos: ClassifiedUTXO[] | null) => (utxos ?? []).map((u) => u.value);
+
+// =============================================================================
+// Built-in selectors
+// =============================================================================
+
+describe('defaultCoinSelector', () => {
+  it('picks the smallest single UTXO that covers the target', () => {
+    const utxos = [utxo(500000), utxo(100000), utxo(1000000)];
+
+    expect(values(defaultCoinSelector.select(utxos, target(50000)))).toEqual([100000]);
+  });
+
+  it('falls back to largest first when no single UTXO suffices', () => {
+    const utxos = [utxo(30000), utxo(40000), utxo(20000)];
+
+    expect(values(defaultCoinSelector.select(utxos, target(60000)))).toEqual([40000, 30000]);
+  });
+
+  it('returns null when funds are insufficient', () => {
+    expect(defaultCoinSelector.select([utxo(5000)], target(100000))).toBeNull();
+  });
+});
+
+describe('largestFirstCoinSelector', () => {
+  it('spends the largest UTXOs first', () => {
+    const utxos = [utxo(100000), utxo(900000), utxo(500000)];
+
+    expect(values(largestFirstCoinSelector.select(utxos, target(50000)))).toEqual([900000]);
+  });
+
+  it('skips UTXOs worth less than their input fee', () => {
+    const utxos = [utxo(40000), utxo(600), utxo(30000)];
+
+    const selected = largestFirstCoinSelector.select(utxos, target(60000));
+
+    expect(values(selected)).toEqual([40000, 30000]);
+  });
+});
+
+describe('oldestFirstCoinSelector', () => {
+  it('spends the oldest confirmed UTXOs first', () => {
+    const utxos = [
+      utxo(50000, { height: 300 }),
+      utxo(50000, { height: 100 }),
+      utxo(50000, { height: 200 }),
+    ];
+
+    const selected = oldestFirstCoinSelector.select(utxos, target(60000));
+
+    expect(selected!.map((u) => u.height)).toEqual([100, 200]);
+  });
+
+  it('spends unconfirmed UTXOs last', () => {
+    const utxos = [utxo(90000, { height: 0 }), utxo(90000, { height: 500 })];
+
+    const selected = oldestFirstCoinSelector.select(utxos, target(50000));
+
+    expect(selected!.map((u) => u.height)).toEqual([500]);
+  });
+});
+
+describe('branchAndBoundCoinSelector', () => {
+  it('finds a changeless input set', () => {
+    const amount = 70000;
+    const exact = amount + estimateTransactionFee(2, 1, FEE_RATE);
+    const utxos = [utxo(100000), utxo(exact - 30000), utxo(30000), utxo(5000)];
+
+    const selected = branchAndBoundCoinSelector.select(utxos, target(amount));
+
+    expect(values(selected).sort()).toEqual([30000, exact - 30000].sort());
+  });
+
+  it('produces a transaction without a change output', () => {
+    const amount = 70000;
+    const utxos = [utxo(100000), utxo(45000), utxo(25000 + estimateTransactionFee(2, 1, FEE_RATE)), utxo(5000)];
+
+    const plan = collectUtxosForAmount(utxos, amount, RECIPIENT, ADDR_A, FEE_RATE, branchAndBoundCoinSelector);
+
+    expect(plan.success).toBe(true);
+    const tx = plan.transactions[0];
+    expect(tx.inputs).toHaveLength(2);
+    expect(tx.outputs).toHaveLength(1);
+    expect(tx.fee).toBe(estimateTransactionFee(2, 1, FEE_RATE));
+  });
+
+  it('falls back to largest first when no changeless set exists', () => {
+    const utxos = [utxo(1000000), utxo(2000000)];
+
+    expect(values(branchAndBoundCoinSelector.select(utxos, target(50000)))).toEqual([2000000]);
+  });
+});
+
+describe('privacyCoinSelector', () => {
+  it('spends all UTXOs of a single address together', () => {
+    const utxos = [
+      utxo(30000, { address: ADDR_A }),
+      utxo(30000, { address: ADDR_A }),
+      utxo(200000, { address: ADDR_B }),
+    ];
+
+    const selected = privacyCoinSelector.select(utxos, target(40000));
+
+    expect(selected).toHaveLength(2);
+    expect(selected!.every((u) => u.address === ADDR_A)).toBe(true);
+  });
+
+  it('combines whole addresses when no single address suffices', () => {
+    const utxos = [
+      utxo(30000, { address: ADDR_A }),
+      utxo(20000, { address: ADDR_A }),
+      utxo(40000, { address: ADDR_B }),
+    ];
+
+    const selected = privacyCoinSelector.select(utxos, target(70000));
+
+    expect(selected).toHaveLength(3);
+  });
+
+  it('returns null when funds are insufficient', () => {
+    expect(privacyCoinSelector.select([utxo(1000)], target(100000))).toBeNull();
+  });
+});
+
+describe('getCoinSelector()', () => {
+  it('resolves built-in strategy names', () => {
+    expect(getCoinSelector('privacy')).toBe(privacyCoinSelector);
+    expect(getCoinSelector('branch-and-bound')).toBe(branchAndBoundCoinSelector);
+    expect(getCoinSelector()).toBe(defaultCoinSelector);
+  });
+
+  it('passes custom selectors through', () => {
+    const custom: L1CoinSelector = { name: 'custom', select: (utxos) => utxos.slice(0, 1) };
+
+    expect(getCoinSelector(custom)).toBe(custom);
+  });
+
+  it('throws for unknown strategy names', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(() => getCoinSelector('random' as any)).toThrow('Unknown coin selection strategy');
+  });
+});
+
+// =============================================================================
+// Vesting policy
+// =============================================================================
+
+describe('withVestingPolicy()', () => {
+  const vested = utxo(200000, { vestingStatus: 'vested' });
+  const unvested = utxo(100000, { vestingStatus: 'unvested' });
+  const failed = utxo(150000, { vestingStatus: 'error' });
+  const unclassified = utxo(120000);
+
+  it('excludes the unwanted class', () => {
+    const selector = withVestingPolicy(defaultCoinSelector, { exclude: 'vested' });
+
+    expect(selector.select([vested, unvested], target(50000))).toEqual([unvested]);
+  });
+
+  it('treats classification errors as unvested', () => {
+    const selector = withVestingPolicy(defaultCoinSelector, { exclude: 'unvested' });
+
+    expect(selector.select([failed, vested], target(50000))).toEqual([vested]);
+  });
+
+  it('excludes unclassified UTXOs when a class is excluded', () => {
+    const selector = withVestingPolicy(defaultCoinSelector, { exclude: 'unvested' });
+
+    expect(selector.select([unclassified], target(50000))).toBeNull();
+  });
+
+  it('prefers a class but mixes in the other when needed', () => {
+    const selector = withVestingPolicy(largestFirstCoinSelector, { prefer: 'unvested' });
+
+    expect(selector.select([vested, unvested], target(50000))).toEqual([unvested]);
+    expect(values(selector.select([vested, unvested], target(250000)))).toEqual([200000, 100000]);
+  });
+
+  it('returns the selector unchanged for an empty policy', () => {
+    expect(withVestingPolicy(privacyCoinSelector, {})).toBe(privacyCoinSelector);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for l1/psbt.ts
+ * Covers BIP174 encoding and the creator/signer/finalizer/extractor roles (pure functions)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  serializePsbt,
+  parsePsbt,
+  createPsbtFromTransaction,
+  signPsbt,
+  finalizePsbt,
+  extractTransaction,
+  getPsbtFee,
+} from '../../../l1/psbt';
+import { createAndSignTransaction } from '../../../l1/tx';
+import { privateKeyToAddressInfo } from '../../../core/crypto';
+import { encodeBech32 } from '../../../core/bech32';
+import type { Transaction, Wallet } from '../../../l1/types';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const KEY_1 = '0'.repeat(63) + '1';
+const KEY_2 = '0'.repeat(63) + '2';
+const { address: ADDR_1 } = privateKeyToAddressInfo(KEY_1);
+const { address: ADDR_2, publicKey: PUBKEY_2 } = privateKeyToAddressInfo(KEY_2);
+const RECIPIENT = encodeBech32('alpha', 0, new Uint8Array(20).fill(0xab));
+
+const wallet1: Wallet = {
+  masterPrivateKey: KEY_1,
+  addresses: [{ address: ADDR_1, privateKey: KEY_1, path: null, index: 0 }],
+};
+const wallet2: Wallet = {
+  masterPrivateKey: KEY_2,
+  addresses: [{ address: ADDR_2, privateKey: KEY_2, path: null, index: 0 }],
+};
+
+const tx: Transaction = {
+  inputs: [
+    { txid: 'a'.repeat(64), vout: 0, value: 60000, address: ADDR_1 },
+    { txid: 'b'.repeat(64), vout: 3, value: 40000, address: ADDR_2 },
+  ],
+  outputs: [
+    { value: 70000, address: RECIPIENT },
+    { value: 28000, address: ADDR_1 },
+  ],
+  fee: 2000,
+  changeAmount: 28000,
+  changeAddress: ADDR_1,
+};
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+describe('serializePsbt() / parsePsbt()', () => {
+  it('round-trips an unsigned PSBT', () => {
+    const psbt = createPsbtFromTransaction(tx);
+
+    const encoded = serializePsbt(psbt);
+
+    expect(encoded.startsWith('cHNidP8')).toBe(true); // base64 of "psbt\xff"
+    expect(parsePsbt(encoded)).toEqual(psbt);
+  });
+
+  it('preserves unknown fields', () => {
+    const psbt = createPsbtFromTransaction(tx);
+    psbt.unknown.push({ key: 'fc00', value: 'beef' });
+    psbt.inputs[0].unknown.push({ key: '06' + '02'.padEnd(66, '0'), value: '00000000' });
+    psbt.outputs[1].unknown.push({ key: '02', value: 'cafe' });
+
+    expect(parsePsbt(serializePsbt(psbt))).toEqual(psbt);
+  });
+
+  it('rejects data without the PSBT magic', () => {
+    expect(() => parsePsbt('aGVsbG8=')).toThrow('Invalid PSBT');
+  });
+
+  it('rejects truncated data', () => {
+    const encoded = serializePsbt(createPsbtFromTransaction(tx));
+
+    expect(() => parsePsbt(encoded.slice(0, 40))).toThrow('Invalid PSBT');
+  });
+});
+
+// =============================================================================
+// Roles
+// =============================================================================
+
+describe('signPsbt()', () => {
+  it('signs only the inputs spending the wallet addresses', () => {
+    const { psbt, signedInputs } = signPsbt(createPsbtFromTransaction(tx), wallet1);
+
+    expect(signedInputs).toBe(1);
+    expect(Object.keys(psbt.inputs[0].partialSigs)).toHaveLength(1);
+    expect(psbt.inputs[1].partialSigs).toEqual({});
+  });
+
+  it('rejects sighash types other than SIGHASH_ALL', () => {
+    const psbt = createPsbtFromTransaction(tx);
+    psbt.inputs[0].sighashType = 0x83;
+
+    expect(() => signPsbt(psbt, wallet1)).toThrow('Unsupported sighash type');
+  });
+});
+
+describe('finalizePsbt() / extractTransaction()', () => {
+  it('produces the same transaction as direct signing', () => {
+    const bothKeys: Wallet = {
+      masterPrivateKey: KEY_1,
+      addresses: [...wallet1.addresses, { ...wallet2.addresses[0], index: 1 }],
+    };
+
+    // Two signers, each passing the PSBT on in serialized form
+    let encoded = serializePsbt(createPsbtFromTransaction(tx));
+    encoded = serializePsbt(signPsbt(parsePsbt(encoded), wallet1).psbt);
+    encoded = serializePsbt(signPsbt(parsePsbt(encoded), wallet2).psbt);
+    const extracted = extractTransaction(finalizePsbt(parsePsbt(encoded)));
+
+    const direct = createAndSignTransaction(bothKeys, tx);
+    expect(extracted.hex).toBe(direct.raw);
+    expect(extracted.txid).toBe(direct.txid);
+  });
+
+  it('refuses to finalize unsigned inputs', () => {
+    const { psbt } = signPsbt(createPsbtFromTransaction(tx), wallet1);
+
+    expect(() => finalizePsbt(psbt)).toThrow('Input 1 is not signed');
+  });
+
+  it('refuses a signature whose key does not match the spent script', () => {
+    const { psbt } = signPsbt(createPsbtFromTransaction({ ...tx, inputs: [tx.inputs[0]] }), wallet1);
+    // Input 0 spends ADDR_1, but the signature claims ADDR_2's key
+    const [signature] = Object.values(psbt.inputs[0].partialSigs);
+    psbt.inputs[0].partialSigs = { [PUBKEY_2]: signature };
+
+    expect(() => finalizePsbt(psbt)).toThrow('does not match its script');
+  });
+
+  it('refuses to extract before finalizing', () => {
+    expect(() => extractTransaction(createPsbtFromTransaction(tx))).toThrow('not finalized');
+  });
+});
+
+describe('getPsbtFee()', () => {
+  it('returns inputs minus outputs', () => {
+    expect(getPsbtFee(createPsbtFromTransaction(tx))).toBe(2000);
+  });
+
+  it('returns null when an input amount is unknown', () => {
+    const psbt = createPsbtFromTransaction(tx);
+    delete psbt.inputs[1].witnessUtxo;
+
+    expect(getPsbtFee(psbt)).toBeNull();
+  });
+});
@@ -8,7 +8,14 @@ import {
   createScriptPubKey,
   buildSegWitTransaction,
   collectUtxosForAmount,
+  createAndSignTransaction,
+  createReplacementTransaction,
+  createCpfpTransaction,
+  estimateTransactionVsize,
+  estimateTransactionFee,
+  DEFAULT_FEE_RATE,
 } from '../../../l1/tx';
+import type { Wallet, Transaction } from '../../../l1/types';
 import { encodeBech32 } from '../../../core/bech32';
 import elliptic from 'elliptic';
 
@@ -84,11 +91,13 @@ describe('createScriptPubKey()', () => {
 
 describe('buildSegWitTransaction()', () => {
   const txPlan = {
-    input: {
-      tx_hash: 'a'.repeat(64), // 32 bytes
-      tx_pos: 0,
-      value: 100000000, // 1 ALPHA in sats
-    },
+    inputs: [
+      {
+        tx_hash: 'a'.repeat(64), // 32 bytes
+        tx_pos: 0,
+        value: 100000000, // 1 ALPHA in sats
+      },
+    ],
     outputs: [
       { value: 50000000, address: testAddress2 },
       { value: 49990000, address: testAddress1 }, // Change
@@ -137,11 +146,13 @@ describe('buildSegWitTransaction()', () => {
 
   it('should handle single output', () => {
     const singleOutputPlan = {
-      input: {
-        tx_hash: 'a'.repeat(64),
-        tx_pos: 0,
-        value: 50000,
-      },
+      inputs: [
+        {
+          tx_hash: 'a'.repeat(64),
+          tx_pos: 0,
+          value: 50000,
+        },
+      ],
       outputs: [{ value: 40000, address: testAddress2 }],
     };
 
@@ -152,12 +163,12 @@ describe('buildSegWitTransaction()', () => {
 
   it('should handle different output amounts', () => {
     const plan1 = {
-      input: { tx_hash: 'a'.repeat(64), tx_pos: 0, value: 100000 },
+      inputs: [{ tx_hash: 'a'.repeat(64), tx_pos: 0, value: 100000 }],
       outputs: [{ value: 90000, address: testAddress2 }],
     };
 
     const plan2 = {
-      input: { tx_hash: 'a'.repeat(64), tx_pos: 0, value: 100000 },
+      inputs: [{ tx_hash: 'a'.repeat(64), tx_pos: 0, value: 100000 }],
       outputs: [{ value: 50000, address: testAddress2 }],
     };
 
@@ -167,6 +178,109 @@ describe('buildSegWitTransaction()', () => {
     // Different outputs should produce different txids
     expect(tx1.txid).not.toBe(tx2.txid);
   });
+
+  it('should build a multi-input transaction with one witness per input', () => {
+    const plan = {
+      inputs: [
+        { tx_hash: 'a'.repeat(64), tx_pos: 0, value: 30000 },
+        { tx_hash: 'b'.repeat(64), tx_pos: 1, value: 30000 },
+        { tx_hash: 'c'.repeat(64), tx_pos: 2, value: 30000 },
+      ],
+      outputs: [{ value: 80000, address: testAddress2 }],
+    };
+
+    const tx = buildSegWitTransaction(plan, testKeyPair, testPublicKey);
+
+    // Input count varint follows version + marker/flag
+    expect(tx.hex.substring(12, 14)).toBe('03');
+    // Three witness stacks, each starting with "02" (2 items) followed by a DER signature (0x30)
+    const witnessStacks = tx.hex.match(/02[0-9a-f]{2}30/g) ?? [];
+    expect(witnessStacks.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should change txid when an input is added', () => {
+    const onePlan = {
+      inputs: [{ tx_hash: 'a'.repeat(64), tx_pos: 0, value: 100000 }],
+      outputs: [{ value: 90000, address: testAddress2 }],
+    };
+    const twoPlan = {
+      inputs: [...onePlan.inputs, { tx_hash: 'b'.repeat(64), tx_pos: 0, value: 100000 }],
+      outputs: onePlan.outputs,
+    };
+
+    const tx1 = buildSegWitTransaction(onePlan, testKeyPair, testPublicKey);
+    const tx2 = buildSegWitTransaction(twoPlan, testKeyPair, testPublicKey);
+
+    expect(tx1.txid).not.toBe(tx2.txid);
+  });
+
+  it('should accept one key per input', () => {
+    const otherKeyPair = ec.keyFromPrivate('0'.repeat(63) + '2', 'hex');
+    const otherPublicKey = otherKeyPair.getPublic(true, 'hex');
+    const plan = {
+      inputs: [
+        { tx_hash: 'a'.repeat(64), tx_pos: 0, value: 50000 },
+        { tx_hash: 'b'.repeat(64), tx_pos: 0, value: 50000 },
+      ],
+      outputs: [{ value: 90000, address: testAddress2 }],
+    };
+
+    const tx = buildSegWitTransaction(plan, [testKeyPair, otherKeyPair], [testPublicKey, otherPublicKey]);
+
+    expect(tx.hex).toContain(testPublicKey);
+    expect(tx.hex).toContain(otherPublicKey);
+  });
+
+  it('should throw when key count does not match input count', () => {
+    const plan = {
+      inputs: [
+        { tx_hash: 'a'.repeat(64), tx_pos: 0, value: 50000 },
+        { tx_hash: 'b'.repeat(64), tx_pos: 0, value: 50000 },
+      ],
+      outputs: [{ value: 90000, address: testAddress2 }],
+    };
+
+    expect(() => buildSegWitTransaction(plan, [testKeyPair], [testPublicKey])).toThrow('key count');
+  });
+
+  it('should throw for a plan without inputs', () => {
+    const plan = { inputs: [], outputs: [{ value: 90000, address: testAddress2 }] };
+
+    expect(() => buildSegWitTransaction(plan, testKeyPair, testPublicKey)).toThrow('at least one input');
+  });
+});
+
+// =============================================================================
+// createAndSignTransaction Tests
+// =============================================================================
+
+describe('createAndSignTransaction()', () => {
+  it('should sign each input with the key of its address', () => {
+    const otherPrivateKey = '0'.repeat(63) + '2';
+    const otherPublicKey = ec.keyFromPrivate(otherPrivateKey, 'hex').getPublic(true, 'hex');
+    const wallet: Wallet = {
+      masterPrivateKey: testPrivateKey,
+      addresses: [
+        { address: testAddress1, privateKey: testPrivateKey, path: null, index: 0 },
+        { address: testAddress2, privateKey: otherPrivateKey, path: null, index: 1 },
+      ],
+    };
+
+    const signed = createAndSignTransaction(wallet, {
+      inputs: [
+        { txid: 'a'.repeat(64), vout: 0, value: 50000, address: testAddress1 },
+        { txid: 'b'.repeat(64), vout: 0, value: 50000, address: testAddress2 },
+      ],
+      outputs: [{ value: 90000, address: testAddress2 }],
+      fee: 10000,
+      changeAmount: 0,
+      changeAddress: testAddress1,
+    });
+
+    expect(signed.txid).toHaveLength(64);
+    expect(signed.raw).toContain(testPublicKey);
+    expect(signed.raw).toContain(otherPublicKey);
+  });
 });
 
 // =============================================================================
@@ -174,7 +288,7 @@ describe('buildSegWitTransaction()', () => {
 // =============================================================================
 
 describe('collectUtxosForAmount()', () => {
-  const FEE = 10000; // Standard fee
+  const FEE_1_IN_1_OUT = estimateTransactionFee(1, 1); // Fee without change output
   const DUST = 546;
 
   it('should select single UTXO when sufficient', () => {
@@ -208,16 +322,17 @@ describe('collectUtxosForAmount()', () => {
 
   it('should not include change output at or below dust threshold', () => {
     // Dust threshold is 546, so we need change < 546 to not be included
-    const utxos = [createTestUtxo(19500)]; // 19500 sats
-    const amount = 9000; // Will leave change of 500 (below 546 dust)
+    const amount = 9000;
+    const utxos = [createTestUtxo(amount + estimateTransactionFee(1, 2) + 500)]; // Change of 500 (below 546 dust)
 
     const plan = collectUtxosForAmount(utxos, amount, testAddress2, testAddress1);
 
     expect(plan.success).toBe(true);
     const tx = plan.transactions[0];
-    // Change would be 19500 - 9000 - 10000 = 500 (below dust threshold of 546)
-    // So should only have 1 output
+    // Dust change is left to the fee, so should only have 1 output
     expect(tx.outputs).toHaveLength(1);
+    expect(tx.changeAmount).toBe(0);
+    expect(tx.fee).toBe(utxos[0].value - amount);
   });
 
   it('should fail with insufficient funds', () => {
@@ -242,7 +357,8 @@ describe('collectUtxosForAmount()', () => {
     expect(plan.success).toBe(true);
     expect(plan.transactions).toHaveLength(1);
     // Should use the 0.01 ALPHA UTXO (smallest that covers amount + fee)
-    expect(plan.transactions[0].input.value).toBe(1000000);
+    expect(plan.transactions[0].inputs).toHaveLength(1);
+    expect(plan.transactions[0].inputs[0].value).toBe(1000000);
   });
 
   it('should combine multiple UTXOs when needed', () => {
@@ -251,14 +367,15 @@ describe('collectUtxosForAmount()', () => {
       createTestUtxo(30000, 'b'.repeat(64), 0),
       createTestUtxo(30000, 'c'.repeat(64), 0),
     ];
-    // Total: 90000, each UTXO can only contribute ~20000 after fee
     const amount = 50000; // More than any single UTXO can provide
 
     const plan = collectUtxosForAmount(utxos, amount, testAddress2, testAddress1);
 
     expect(plan.success).toBe(true);
-    // Should need multiple transactions
-    expect(plan.transactions.length).toBeGreaterThan(1);
+    // All inputs go into a single transaction
+    expect(plan.transactions).toHaveLength(1);
+    expect(plan.transactions[0].inputs.length).toBeGreaterThan(1);
+    expect(plan.transactions[0].outputs[0].value).toBe(amount);
   });
 
   it('should handle empty UTXO list', () => {
@@ -270,7 +387,7 @@ describe('collectUtxosForAmount()', () => {
 
   it('should handle exact amount (no change)', () => {
     // UTXO value = amount + fee exactly
-    const utxos = [createTestUtxo(100000 + FEE)]; // Exact match
+    const utxos = [createTestUtxo(100000 + FEE_1_IN_1_OUT)]; // Exact match
     const amount = 100000;
 
     const plan = collectUtxosForAmount(utxos, amount, testAddress2, testAddress1);
@@ -316,8 +433,20 @@ describe('collectUtxosForAmount()', () => {
 // =============================================================================
 
 describe('Fee handling', () => {
-  it('should deduct 10000 sats fee', () => {
-    const FEE = 10000;
+  it('should estimate P2WPKH vsize from input and output counts', () => {
+    // 1-in/2-out P2WPKH: 10.5 vB overhead + 68 vB input + 2 x 31 vB outputs
+    expect(estimateTransactionVsize(1, 2)).toBe(141);
+    expect(estimateTransactionVsize(2, 2)).toBe(209);
+    expect(estimateTransactionVsize(3, 1)).toBe(Math.ceil((42 + 3 * 272 + 124) / 4));
+  });
+
+  it('should scale fee with fee rate', () => {
+    expect(estimateTransactionFee(1, 2, 1)).toBe(141);
+    expect(estimateTransactionFee(1, 2, 20)).toBe(2820);
+    expect(estimateTransactionFee(1, 2)).toBe(141 * DEFAULT_FEE_RATE);
+  });
+
+  it('should deduct vsize-based fee', () => {
     const utxos = [createTestUtxo(100000)];
     const amount = 50000;
 
@@ -325,10 +454,127 @@ describe('Fee handling', () => {
 
     expect(plan.success).toBe(true);
     const tx = plan.transactions[0];
-    expect(tx.fee).toBe(FEE);
+    expect(tx.fee).toBe(estimateTransactionFee(1, 2));
 
     // Total outputs + fee should equal input
     const totalOutputs = tx.outputs.reduce((sum, o) => sum + o.value, 0);
-    expect(totalOutputs + FEE).toBe(tx.input.value);
+    expect(totalOutputs + tx.fee).toBe(tx.inputs[0].value);
+  });
+
+  it('should use the requested fee rate', () => {
+    const utxos = [createTestUtxo(100000)];
+
+    const plan = collectUtxosForAmount(utxos, 50000, testAddress2, testAddress1, 25);
+
+    expect(plan.success).toBe(true);
+    expect(plan.transactions[0].fee).toBe(estimateTransactionFee(1, 2, 25));
+  });
+
+  it('should pay the fee once for a multi-input transaction', () => {
+    const utxos = [
+      createTestUtxo(30000, 'a'.repeat(64), 0),
+      createTestUtxo(30000, 'b'.repeat(64), 0),
+      createTestUtxo(30000, 'c'.repeat(64), 0),
+    ];
+
+    const plan = collectUtxosForAmount(utxos, 50000, testAddress2, testAddress1);
+
+    expect(plan.success).toBe(true);
+    const tx = plan.transactions[0];
+    expect(tx.inputs).toHaveLength(2);
+    expect(tx.fee).toBe(estimateTransactionFee(2, 2));
+
+    const totalInputs = tx.inputs.reduce((sum, i) => sum + i.value, 0);
+    const totalOutputs = tx.outputs.reduce((sum, o) => sum + o.value, 0);
+    expect(totalOutputs + tx.fee).toBe(totalInputs);
+  });
+
+  it('should fail when the remaining UTXOs cannot cover their own input fee', () => {
+    const utxos = [
+      createTestUtxo(60000, 'a'.repeat(64), 0),
+      createTestUtxo(600, 'b'.repeat(64), 0), // Below 68 vB x 10 sat/vB
+    ];
+
+    const plan = collectUtxosForAmount(utxos, 59500, testAddress2, testAddress1);
+
+    expect(plan.success).toBe(false);
+    expect(plan.error).toContain('Insufficient funds');
+  });
+});
+
+// =============================================================================
+// Fee Bumping Tests (RBF / CPFP)
+// =============================================================================
+
+describe('createReplacementTransaction()', () => {
+  const original = (changeAmount: number): Transaction => ({
+    inputs: [{ txid: 'a'.repeat(64), vout: 0, value: 100000 + changeAmount + 141, address: testAddress1 }],
+    outputs: [
+      { address: testAddress2, value: 100000 },
+      { address: testAddress1, value: changeAmount },
+    ],
+    fee: 141, // 1 sat/vB
+    changeAmount,
+    changeAddress: testAddress1,
+  });
+
+  it('takes the higher fee from the change output', () => {
+    const replacement = createReplacementTransaction(original(50000), 20);
+
+    expect(replacement.fee).toBe(estimateTransactionFee(1, 2, 20));
+    expect(replacement.outputs[0]).toEqual({ address: testAddress2, value: 100000 });
+    expect(replacement.outputs[1].value).toBe(50000 - (replacement.fee - 141));
+    expect(replacement.inputs).toEqual(original(50000).inputs);
+  });
+
+  it('pays at least the original fee plus the incremental relay fee', () => {
+    const replacement = createReplacementTransaction(original(50000), 1.5);
+
+    expect(replacement.fee).toBeGreaterThanOrEqual(141 + estimateTransactionVsize(1, 2));
+  });
+
+  it('drops change that would become dust', () => {
+    const replacement = createReplacementTransaction(original(2000), 12);
+
+    expect(replacement.outputs).toHaveLength(1);
+    expect(replacement.changeAmount).toBe(0);
+    expect(replacement.fee).toBe(141 + 2000);
+  });
+
+  it('throws when the change cannot cover the new fee', () => {
+    expect(() => createReplacementTransaction(original(600), 50)).toThrow('cannot cover');
+  });
+
+  it('throws without a change output', () => {
+    const tx = { ...original(0), outputs: [{ address: testAddress2, value: 100000 }] };
+
+    expect(() => createReplacementTransaction(tx, 20)).toThrow('no change output');
+  });
+});
+
+describe('createCpfpTransaction()', () => {
+  const output = { txid: 'b'.repeat(64), vout: 1, value: 50000, address: testAddress1 };
+
+  it('pays enough for the package to reach the target rate', () => {
+    const parent = { fee: 141, vsize: 141 };
+
+    const child = createCpfpTransaction(parent, output, 20);
+
+    const childVsize = estimateTransactionVsize(1, 1);
+    expect(child.fee + parent.fee).toBeGreaterThanOrEqual((parent.vsize + childVsize) * 20);
+    expect(child.inputs).toEqual([output]);
+    expect(child.outputs).toEqual([{ address: testAddress1, value: 50000 - child.fee }]);
+  });
+
+  it('still pays its own relay fee when the parent already pays enough', () => {
+    const child = createCpfpTransaction({ fee: 100000, vsize: 141 }, output, 5);
+
+    expect(child.fee).toBe(estimateTransactionVsize(1, 1));
+  });
+
+  it('throws when the output cannot pay the fee', () => {
+    expect(() => createCpfpTransaction({ fee: 0, vsize: 141 }, { ...output, value: 2000 }, 20)).toThrow(
+      'cannot pay a CPFP fee'
+    );
   });
 });
@@ -0,0 +1,300 @@
+/**
+ * Tests for InvoicesModule
+ *
+ * Covers invoice creation and references, matching of incoming transfers
+ * (partial, full, overpaid, expired), persistence, signed export and the
+ * payer side.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  InvoicesModule,
+  computeInvoiceReference,
+  formatInvoiceMemo,
+  parseInvoiceReference,
+  verifySignedInvoice,
+} from '../../../modules/invoices';
+import type { CreateInvoiceRequest } from '../../../modules/invoices';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import { getPublicKey } from '../../../core/crypto';
+import type { PaymentsModule } from '../../../modules/payments/PaymentsModule';
+import type { StorageProvider } from '../../../storage';
+import type {
+  FullIdentity,
+  IncomingTransfer,
+  IncomingTransferHandler,
+  Token,
+  TransferRequest,
+  TransferResult,
+} from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const NOW = Date.UTC(2026, 5, 1);
+const DAY = 86_400_000;
+const PRIVATE_KEY = '11'.repeat(32);
+
+const identity = {
+  privateKey: PRIVATE_KEY,
+  chainPubkey: getPublicKey(PRIVATE_KEY),
+  l1Address: 'alpha1issuer',
+  directAddress: 'DIRECT://issuer',
+  nametag: 'shop',
+} as FullIdentity;
+
+function createMemoryStorage(): StorageProvider {
+  const data = new Map<string, string>();
+  return {
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+  } as unknown as StorageProvider;
+}
+
+function createPayments() {
+  const handlers = new Set<IncomingTransferHandler>();
+  return {
+    handlers,
+    receive(transfer: IncomingTransfer) {
+      for (const handler of handlers) handler(transfer);
+    },
+    onIncomingTransfer: vi.fn((handler: IncomingTransferHandler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    }),
+    send: vi.fn(async (_request: TransferRequest): Promise<TransferResult> => ({
+      id: 'transfer-1',
+      status: 'completed',
+      tokens: [],
+      tokenTransfers: [],
+    })),
+    sendPaymentRequest: vi.fn(async () => ({ success: true, requestId: 'req-1', eventId: 'evt-1' })),
+  };
+}
+
+async function createModule(storage = createMemoryStorage(), payments = createPayments()) {
+  const emitEvent = vi.fn();
+  const mod = new InvoicesModule();
+  mod.initialize({
+    identity,
+    storage,
+    payments: payments as unknown as PaymentsModule,
+    emitEvent,
+  });
+  await mod.load();
+  return { mod, payments, storage, emitEvent };
+}
+
+function token(coinId: string, amount: string): Token {
+  return {
+    id: `token-${Math.random()}`,
+    coinId,
+    symbol: coinId,
+    name: coinId,
+    decimals: 0,
+    amount,
+    status: 'confirmed',
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+function transfer(id: string, memo: string | undefined, tokens: Token[]): IncomingTransfer {
+  return { id, senderPubkey: '02' + 'b'.repeat(64), senderNametag: 'bob', tokens, memo, receivedAt: Date.now() };
+}
+
+/** Let the async matcher run */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+const consulting: CreateInvoiceRequest = {
+  coinId: 'UCT',
+  items: [
+    { description: 'Consulting', quantity: 3, unitPrice: '500' },
+    { description: 'Travel', quantity: 1, unitPrice: '200' },
+  ],
+  payer: '@bob',
+  dueAt: NOW + 14 * DAY,
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('InvoicesModule', () => {
+  describe('references', () => {
+    it('are deterministic per issuer and invoice ID', () => {
+      const ref = computeInvoiceReference(identity.chainPubkey, 'abc');
+      expect(ref).toMatch(/^INV-[0-9A-F]{12}$/);
+      expect(computeInvoiceReference(identity.chainPubkey, 'abc')).toBe(ref);
+      expect(computeInvoiceReference('02' + 'c'.repeat(64), 'abc')).not.toBe(ref);
+    });
+
+    it('round-trip through a transfer memo', () => {
+      const ref = computeInvoiceReference(identity.chainPubkey, 'abc');
+      expect(parseInvoiceReference(formatInvoiceMemo(ref, 'June'))).toBe(ref);
+      expect(parseInvoiceReference('thanks')).toBeNull();
+      expect(parseInvoiceReference(undefined)).toBeNull();
+    });
+  });
+
+  describe('create()', () => {
+    it('totals the line items and persists the invoice', async () => {
+      const { mod, storage, emitEvent } = await createModule();
+      const invoice = await mod.create(consulting);
+
+      expect(invoice.total).toBe('1700');
+      expect(invoice.status).toBe('open');
+      expect(invoice.reference).toBe(computeInvoiceReference(identity.chainPubkey, invoice.id));
+      expect(emitEvent).toHaveBeenCalledWith('invoice:updated', expect.objectContaining({ id: invoice.id }));
+
+      const { mod: reloaded } = await createModule(storage);
+      expect(reloaded.get(invoice.reference)?.id).toBe(invoice.id);
+      expect(await storage.get(STORAGE_KEYS_ADDRESS.INVOICES)).toContain(invoice.reference);
+    });
+
+    it('rejects invalid line items', async () => {
+      const { mod } = await createModule();
+      await expect(mod.create({ coinId: 'UCT', items: [] })).rejects.toThrow('at least one line item');
+      await expect(
+        mod.create({ coinId: 'UCT', items: [{ description: 'x', quantity: 1.5, unitPrice: '1' }] }),
+      ).rejects.toThrow('quantity');
+    });
+  });
+
+  describe('matching incoming transfers', () => {
+    it('moves through partially_paid, paid and overpaid', async () => {
+      const { mod, payments, emitEvent } = await createModule();
+      const invoice = await mod.create(consulting);
+      const memo = formatInvoiceMemo(invoice.reference);
+
+      payments.receive(transfer('t1', memo, [token('UCT', '700'), token('USDU', '999')]));
+      await flush();
+      expect(mod.get(invoice.id)?.status).toBe('partially_paid');
+      expect(mod.get(invoice.id)?.amountPaid).toBe('700');
+
+      // Redelivery of the same transfer is counted once
+      payments.receive(transfer('t1', memo, [token('UCT', '700')]));
+      payments.receive(transfer('t2', memo, [token('UCT', '1000')]));
+      await flush();
+      expect(mod.get(invoice.id)?.status).toBe('paid');
+      expect(mod.get(invoice.id)?.payments.map((p) => p.transferId)).toEqual(['t1', 't2']);
+
+      payments.receive(transfer('t3', memo, [token('UCT', '1')]));
+      await flush();
+      expect(mod.get(invoice.id)?.status).toBe('overpaid');
+      expect(emitEvent).toHaveBeenLastCalledWith('invoice:updated', expect.objectContaining({ status: 'overpaid' }));
+    });
+
+    it('ignores transfers without a known reference or for cancelled invoices', async () => {
+      const { mod, payments } = await createModule();
+      const invoice = await mod.create(consulting);
+
+      payments.receive(transfer('t1', 'no reference', [token('UCT', '1700')]));
+      payments.receive(transfer('t2', formatInvoiceMemo('INV-000000000000'), [token('UCT', '1700')]));
+      await flush();
+      expect(mod.get(invoice.id)?.amountPaid).toBe('0');
+
+      await mod.cancel(invoice.id);
+      payments.receive(transfer('t3', formatInvoiceMemo(invoice.reference), [token('UCT', '1700')]));
+      await flush();
+      expect(mod.get(invoice.id)?.status).toBe('cancelled');
+      expect(mod.get(invoice.id)?.payments).toHaveLength(0);
+    });
+
+    it('waits for load() before matching', async () => {
+      const storage = createMemoryStorage();
+      const { mod: issuer } = await createModule(storage);
+      const invoice = await issuer.create(consulting);
+      issuer.destroy();
+
+      const payments = createPayments();
+      const mod = new InvoicesModule();
+      mod.initialize({ identity, storage, payments: payments as unknown as PaymentsModule, emitEvent: vi.fn() });
+      payments.receive(transfer('t1', formatInvoiceMemo(invoice.reference), [token('UCT', '1700')]));
+      await mod.load();
+      await flush();
+
+      expect(mod.get(invoice.id)?.status).toBe('paid');
+    });
+
+    it('expires unpaid invoices after the due date', async () => {
+      const { mod } = await createModule();
+      const invoice = await mod.create(consulting);
+
+      vi.setSystemTime(NOW + 15 * DAY);
+      expect(mod.list({ status: 'expired' }).map((i) => i.id)).toEqual([invoice.id]);
+    });
+
+    it('stops matching after destroy()', async () => {
+      const { mod, payments } = await createModule();
+      await mod.create(consulting);
+      mod.destroy();
+      expect(payments.handlers.size).toBe(0);
+    });
+  });
+
+  describe('signed export', () => {
+    it('verifies and detects tampering', async () => {
+      const { mod } = await createModule();
+      const invoice = await mod.create(consulting);
+      const signed = mod.exportInvoice(invoice.id);
+
+      expect(signed.invoice.issuer).toEqual({
+        chainPubkey: identity.chainPubkey,
+        nametag: 'shop',
+        directAddress: 'DIRECT://issuer',
+      });
+      expect(verifySignedInvoice(signed)).toBe(true);
+      expect(verifySignedInvoice(JSON.parse(JSON.stringify(signed)))).toBe(true);
+      expect(verifySignedInvoice({ ...signed, invoice: { ...signed.invoice, total: '1' } })).toBe(false);
+      expect(verifySignedInvoice({ ...signed, invoice: { ...signed.invoice, reference: 'INV-000000000000' } })).toBe(false);
+    });
+
+    it('sendInvoice() requests the outstanding amount with the reference memo', async () => {
+      const { mod, payments } = await createModule();
+      const invoice = await mod.create(consulting);
+      payments.receive(transfer('t1', formatInvoiceMemo(invoice.reference), [token('UCT', '700')]));
+      await flush();
+
+      await mod.sendInvoice(invoice.id);
+      expect(payments.sendPaymentRequest).toHaveBeenCalledWith('@bob', expect.objectContaining({
+        amount: '1000',
+        coinId: 'UCT',
+        message: formatInvoiceMemo(invoice.reference),
+        recipientNametag: 'shop',
+        metadata: { invoice: expect.objectContaining({ signature: expect.any(String) }) },
+      }));
+    });
+
+    it('payInvoice() pays the issuer with the reference memo', async () => {
+      const { mod: issuer } = await createModule();
+      const invoice = await issuer.create(consulting);
+      const signed = issuer.exportInvoice(invoice.id);
+
+      const { mod: payer, payments } = await createModule();
+      await payer.payInvoice(signed);
+      expect(payments.send).toHaveBeenCalledWith({
+        coinId: 'UCT',
+        amount: '1700',
+        recipient: '@shop',
+        memo: formatInvoiceMemo(invoice.reference),
+      });
+
+      await expect(payer.payInvoice({ ...signed, signature: '00'.repeat(65) })).rejects.toThrow('signature');
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Tests for PaymentsModule incremental token persistence
+ *
+ * Covers:
+ * 1. addToken() sends only the new token entry to applyChanges()
+ * 2. removeToken() sends the removed key together with the tombstones
+ * 3. Providers without applyChanges() still get a full save() snapshot
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPaymentsModule, type PaymentsModuleDependencies } from '../../../modules/payments/PaymentsModule';
+import type { Token, FullIdentity } from '../../../types';
+import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase } from '../../../storage';
+import type { TransportProvider } from '../../../transport';
+import type { OracleProvider } from '../../../oracle';
+
+// =============================================================================
+// Mock SDK static imports used by PaymentsModule
+// =============================================================================
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/Token', () => ({
+  Token: { fromJSON: vi.fn().mockResolvedValue({ id: { toString: () => 'mock-id' }, coins: null, state: {} }) },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/fungible/CoinId', () => ({
+  CoinId: class MockCoinId { toJSON() { return 'UCT_HEX'; } },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment', () => ({
+  TransferCommitment: { fromJSON: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferTransaction', () => ({
+  TransferTransaction: class MockTransferTransaction {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/sign/SigningService', () => ({
+  SigningService: class MockSigningService {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/address/AddressScheme', () => ({
+  AddressScheme: class MockAddressScheme {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate', () => ({
+  UnmaskedPredicate: class MockUnmaskedPredicate {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/TokenState', () => ({
+  TokenState: class MockTokenState {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm', () => ({
+  HashAlgorithm: { SHA256: 'sha256' },
+}));
+
+// Mock L1 network to prevent actual connection attempts
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn().mockReturnValue(false),
+}));
+
+// Mock the registry to prevent file I/O
+vi.mock('../../../registry', () => ({
+  TokenRegistry: {
+    getInstance: () => ({
+      getDefinition: () => null,
+      getIconUrl: () => null,
+    }),
+  },
+}));
+
+// =============================================================================
+// Test Constants
+// =============================================================================
+
+const TOKEN_ID_A = 'aaaa000000000000000000000000000000000000000000000000000000000001';
+const TOKEN_ID_B = 'bbbb000000000000000000000000000000000000000000000000000000000002';
+const STATE_HASH_1 = '1111000000000000000000000000000000000000000000000000000000000001';
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createMockToken(opts: {
+  tokenId: string;
+  stateHash: string;
+  id?: string;
+  status?: Token['status'];
+}): Token {
+  return {
+    id: opts.id ?? `local-${opts.tokenId.slice(0, 8)}-${opts.stateHash.slice(0, 8)}`,
+    coinId: 'UCT_HEX',
+    symbol: 'UCT',
+    name: 'Unicity Token',
+    decimals: 8,
+    amount: '1000000',
+    status: opts.status ?? 'confirmed',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    sdkData: JSON.stringify({
+      version: '2.0',
+      genesis: {
+        data: {
+          tokenId: opts.tokenId,
+          tokenType: '00',
+          coinData: [['UCT_HEX', '1000000']],
+          tokenData: '',
+          salt: '00',
+          recipient: 'DIRECT://test',
+          recipientDataHash: null,
+          reason: null,
+        },
+        inclusionProof: {
+          authenticator: { algorithm: 'secp256k1', publicKey: 'pubkey', signature: 'sig', stateHash: opts.stateHash },
+          merkleTreePath: { root: '00', steps: [] },
+          transactionHash: '00',
+          unicityCertificate: '00',
+        },
+      },
+      state: { data: 'statedata', predicate: 'predicate' },
+      transactions: [],
+    }),
+  };
+}
+
+function createMockDeps(withApplyChanges: boolean): PaymentsModuleDependencies {
+  const mockStorage: StorageProvider = {
+    id: 'mock-storage',
+    name: 'Mock Storage',
+    type: 'local',
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected'),
+    setIdentity: vi.fn(),
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+    has: vi.fn().mockResolvedValue(false),
+    keys: vi.fn().mockResolvedValue([]),
+    clear: vi.fn().mockResolvedValue(undefined),
+  };
+
+  const mockTokenStorage: TokenStorageProvider<TxfStorageDataBase> = {
+    id: 'mock-token-storage',
+    name: 'Mock Token Storage',
+    type: 'local',
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected'),
+    setIdentity: vi.fn(),
+    initialize: vi.fn().mockResolvedValue(true),
+    shutdown: vi.fn().mockResolvedValue(undefined),
+    save: vi.fn().mockResolvedValue({ success: true, timestamp: Date.now() }),
+    load: vi.fn().mockResolvedValue({ success: false, source: 'local' as const, timestamp: Date.now() }),
+    sync: vi.fn().mockResolvedValue({ success: true, added: 0, removed: 0, conflicts: 0 }),
+    ...(withApplyChanges
+      ? { applyChanges: vi.fn().mockResolvedValue({ success: true, timestamp: Date.now() }) }
+      : {}),
+  };
+
+  const tokenStorageProviders = new Map<string, TokenStorageProvider<TxfStorageDataBase>>();
+  tokenStorageProviders.set('mock', mockTokenStorage);
+
+  const mockTransport = {
+    id: 'mock-transport',
+    name: 'Mock Transport',
+    type: 'p2p' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as const),
+    setIdentity: vi.fn(),
+    sendMessage: vi.fn().mockResolvedValue('event-id'),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    sendTokenTransfer: vi.fn().mockResolvedValue('event-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+  } as unknown as TransportProvider;
+
+  const mockOracle = {
+    id: 'mock-oracle',
+    name: 'Mock Oracle',
+    type: 'network' as const,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected' as const),
+    initialize: vi.fn().mockResolvedValue(undefined),
+    submitCommitment: vi.fn().mockResolvedValue({ success: true }),
+    getProof: vi.fn().mockResolvedValue(null),
+    waitForProof: vi.fn().mockResolvedValue({}),
+    validateToken: vi.fn().mockResolvedValue({ isValid: true }),
+    isSpent: vi.fn().mockResolvedValue(false),
+    getTokenState: vi.fn().mockResolvedValue(null),
+  } as unknown as OracleProvider;
+
+  const mockIdentity: FullIdentity = {
+    chainPubkey: 'aabbccdd11223344556677889900aabbccdd11223344556677889900aabbccdd11',
+    l1Address: 'alpha1testaddress',
+    directAddress: 'DIRECT://test',
+    privateKey: '0011223344556677889900aabbccddeeff0011223344556677889900aabbccddee',
+  };
+
+  return {
+    identity: mockIdentity,
+    storage: mockStorage,
+    tokenStorageProviders,
+    transport: mockTransport,
+    oracle: mockOracle,
+    emitEvent: vi.fn(),
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PaymentsModule - incremental token storage', () => {
+  let module: ReturnType<typeof createPaymentsModule>;
+  let deps: PaymentsModuleDependencies;
+  let tokenStorage: TokenStorageProvider<TxfStorageDataBase>;
+
+  function setup(withApplyChanges: boolean): void {
+    module = createPaymentsModule({ debug: false });
+    deps = createMockDeps(withApplyChanges);
+    module.initialize(deps);
+    tokenStorage = deps.tokenStorageProviders!.get('mock')!;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('provider with applyChanges()', () => {
+    beforeEach(() => setup(true));
+
+    it('addToken() writes only the new token', async () => {
+      await module.addToken(createMockToken({ tokenId: TOKEN_ID_A, stateHash: STATE_HASH_1 }));
+      await module.addToken(createMockToken({ tokenId: TOKEN_ID_B, stateHash: STATE_HASH_1 }));
+
+      expect(tokenStorage.save).not.toHaveBeenCalled();
+      expect(tokenStorage.applyChanges).toHaveBeenCalledTimes(2);
+
+      const changes = vi.mocked(tokenStorage.applyChanges!).mock.calls[1][0];
+      expect(Object.keys(changes.upserted!).sort()).toEqual([`_${TOKEN_ID_B}`, `archived-${TOKEN_ID_B}`]);
+      expect(changes.removed).toEqual([]);
+      expect(changes.tombstones).toBeUndefined();
+    });
+
+    it('removeToken() removes the entry and writes the tombstones', async () => {
+      const token = createMockToken({ tokenId: TOKEN_ID_A, stateHash: STATE_HASH_1 });
+      await module.addToken(token);
+      await module.removeToken(token.id);
+
+      const changes = vi.mocked(tokenStorage.applyChanges!).mock.calls[1][0];
+      expect(changes.removed).toEqual([`_${TOKEN_ID_A}`]);
+      expect(changes.upserted).toHaveProperty(`archived-${TOKEN_ID_A}`);
+      expect(changes.tombstones).toEqual([
+        expect.objectContaining({ tokenId: TOKEN_ID_A, stateHash: STATE_HASH_1 }),
+      ]);
+    });
+  });
+
+  describe('provider without applyChanges()', () => {
+    beforeEach(() => setup(false));
+
+    it('falls back to saving a full snapshot', async () => {
+      await module.addToken(createMockToken({ tokenId: TOKEN_ID_A, stateHash: STATE_HASH_1 }));
+      await module.addToken(createMockToken({ tokenId: TOKEN_ID_B, stateHash: STATE_HASH_1 }));
+
+      expect(tokenStorage.save).toHaveBeenCalledTimes(2);
+      const snapshot = vi.mocked(tokenStorage.save).mock.calls[1][0] as unknown as Record<string, unknown>;
+      expect(snapshot).toHaveProperty(`_${TOKEN_ID_A}`);
+      expect(snapshot).toHaveProperty(`_${TOKEN_ID_B}`);
+    });
+  });
+});
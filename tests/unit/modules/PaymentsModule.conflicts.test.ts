@@ -0,0 +1,249 @@
+/**
+ * Tests for PaymentsModule sync conflicts
+ *
+ * Covers:
+ * 1. sync() passes the merge policy to providers and emits sync:conflict
+ * 2. resolveConflict() swaps the active token with a forked version
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPaymentsModule, type PaymentsModuleDependencies } from '../../../modules/payments/PaymentsModule';
+import { remoteWinsMergePolicy } from '../../../storage';
+import type { FullIdentity } from '../../../types';
+import type { StorageProvider, TokenStorageProvider, TxfStorageDataBase, ConflictReport } from '../../../storage';
+import type { TransportProvider } from '../../../transport';
+import type { OracleProvider } from '../../../oracle';
+
+// =============================================================================
+// Mock SDK static imports used by PaymentsModule
+// =============================================================================
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/Token', () => ({
+  Token: { fromJSON: vi.fn().mockResolvedValue({ id: { toString: () => 'mock-id' }, coins: null, state: {} }) },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/fungible/CoinId', () => ({
+  CoinId: class MockCoinId { toJSON() { return 'UCT_HEX'; } },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment', () => ({
+  TransferCommitment: { fromJSON: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferTransaction', () => ({
+  TransferTransaction: class MockTransferTransaction {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/sign/SigningService', () => ({
+  SigningService: class MockSigningService {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/address/AddressScheme', () => ({
+  AddressScheme: class MockAddressScheme {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate', () => ({
+  UnmaskedPredicate: class MockUnmaskedPredicate {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/TokenState', () => ({
+  TokenState: class MockTokenState {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm', () => ({
+  HashAlgorithm: { SHA256: 'sha256' },
+}));
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn().mockReturnValue(false),
+}));
+
+vi.mock('../../../registry', () => ({
+  TokenRegistry: {
+    getInstance: () => ({
+      getDefinition: () => null,
+      getIconUrl: () => null,
+      getSymbol: (id: string) => id,
+      getName: (id: string) => id,
+      getDecimals: () => 8,
+    }),
+    waitForReady: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+const TOKEN_ID = 'ab'.repeat(32);
+const LOCAL_STATE = '0000' + '1'.repeat(60);
+const REMOTE_STATE = '0000' + '2'.repeat(60);
+
+/** TXF token whose current state is `stateHash` */
+function txfVersion(stateHash: string) {
+  return {
+    version: '2.0',
+    genesis: {
+      data: {
+        tokenId: TOKEN_ID,
+        tokenType: 'cd'.repeat(32),
+        coinData: [['UCT', '1000']],
+        tokenData: '',
+        salt: '00',
+        recipient: 'DIRECT://testaddress',
+        recipientDataHash: null,
+        reason: null,
+      },
+      inclusionProof: { authenticator: { stateHash: '0000' + '0'.repeat(60) } },
+    },
+    state: { data: '', predicate: stateHash },
+    transactions: [{ newStateHash: stateHash, inclusionProof: { authenticator: { stateHash } } }],
+    nametags: [],
+  };
+}
+
+function storageData(): TxfStorageDataBase {
+  return {
+    _meta: { version: 1, address: 'alpha1testaddress', ipnsName: '', formatVersion: '2.0' },
+    [`_${TOKEN_ID}`]: txfVersion(LOCAL_STATE),
+    [`_forked_${TOKEN_ID}_${REMOTE_STATE}`]: txfVersion(REMOTE_STATE),
+  } as TxfStorageDataBase;
+}
+
+function createMockDeps() {
+  const mockStorage = {
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue(undefined),
+    remove: vi.fn().mockResolvedValue(undefined),
+    has: vi.fn().mockResolvedValue(false),
+    keys: vi.fn().mockResolvedValue([]),
+  } as unknown as StorageProvider;
+
+  const mockTokenStorage = {
+    id: 'mock-token-storage',
+    name: 'Mock Token Storage',
+    type: 'local' as const,
+    isConnected: vi.fn().mockReturnValue(true),
+    getStatus: vi.fn().mockReturnValue('connected'),
+    setIdentity: vi.fn(),
+    initialize: vi.fn().mockResolvedValue(true),
+    save: vi.fn().mockResolvedValue({ success: true, timestamp: Date.now() }),
+    load: vi.fn().mockResolvedValue({ success: true, data: storageData(), source: 'local' as const, timestamp: Date.now() }),
+    sync: vi.fn().mockResolvedValue({ success: true, added: 0, removed: 0, conflicts: 0 }),
+  };
+
+  const tokenStorageProviders = new Map<string, TokenStorageProvider<TxfStorageDataBase>>();
+  tokenStorageProviders.set('mock', mockTokenStorage as unknown as TokenStorageProvider<TxfStorageDataBase>);
+
+  const mockTransport = {
+    id: 'mock-transport',
+    isConnected: vi.fn().mockReturnValue(true),
+    setIdentity: vi.fn(),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+  } as unknown as TransportProvider;
+
+  const mockOracle = {
+    id: 'mock-oracle',
+    isConnected: vi.fn().mockReturnValue(true),
+    isSpent: vi.fn().mockResolvedValue(false),
+  } as unknown as OracleProvider;
+
+  const mockIdentity: FullIdentity = {
+    chainPubkey: '02' + 'a'.repeat(64),
+    l1Address: 'alpha1testaddress',
+    directAddress: 'DIRECT://testaddress',
+    privateKey: '0x' + 'b'.repeat(64),
+  };
+
+  return {
+    deps: {
+      identity: mockIdentity,
+      storage: mockStorage,
+      tokenStorageProviders,
+      transport: mockTransport,
+      oracle: mockOracle,
+      emitEvent: vi.fn(),
+    } as PaymentsModuleDependencies,
+    mockTokenStorage,
+  };
+}
+
+function activeStateHash(module: ReturnType<typeof createPaymentsModule>): string | undefined {
+  const [token] = module.getTokens();
+  return JSON.parse(token.sdkData!).transactions.at(-1).newStateHash;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PaymentsModule sync conflicts', () => {
+  let module: ReturnType<typeof createPaymentsModule>;
+  let mocks: ReturnType<typeof createMockDeps>;
+
+  beforeEach(async () => {
+    module = createPaymentsModule();
+    mocks = createMockDeps();
+    module.initialize(mocks.deps);
+    await module.load();
+  });
+
+  describe('sync()', () => {
+    it('should pass the merge policy to providers', async () => {
+      await module.sync({ mergePolicy: remoteWinsMergePolicy });
+
+      expect(mocks.mockTokenStorage.sync).toHaveBeenCalledWith(
+        expect.any(Object),
+        { mergePolicy: remoteWinsMergePolicy },
+      );
+    });
+
+    it('should emit sync:conflict with the conflict reports', async () => {
+      const report: ConflictReport = {
+        tokenId: TOKEN_ID,
+        localStateHash: LOCAL_STATE,
+        remoteStateHash: REMOTE_STATE,
+        chosen: 'local',
+        forkedId: `${TOKEN_ID}_${REMOTE_STATE}`,
+      };
+      mocks.mockTokenStorage.sync.mockResolvedValue({
+        success: true,
+        merged: storageData(),
+        added: 0,
+        removed: 0,
+        conflicts: 1,
+        conflictReports: [report],
+      });
+
+      await module.sync();
+
+      expect(mocks.deps.emitEvent).toHaveBeenCalledWith('sync:conflict', {
+        providerId: 'mock',
+        conflicts: [report],
+      });
+      expect(mocks.mockTokenStorage.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveConflict()', () => {
+    it('should make the forked version active and fork the replaced one', async () => {
+      expect(activeStateHash(module)).toBe(LOCAL_STATE);
+
+      const token = await module.resolveConflict(`${TOKEN_ID}_${REMOTE_STATE}`);
+
+      expect(module.getTokens()).toHaveLength(1);
+      expect(module.getTokens()[0].id).toBe(token.id);
+      expect(activeStateHash(module)).toBe(REMOTE_STATE);
+      expect([...module.getForkedTokens().keys()]).toEqual([`${TOKEN_ID}_${LOCAL_STATE}`]);
+      expect(mocks.mockTokenStorage.save).toHaveBeenCalled();
+    });
+
+    it('should reject an unknown forked id', async () => {
+      await expect(module.resolveConflict(`${TOKEN_ID}_${'f'.repeat(64)}`)).rejects.toThrow('Forked token not found');
+    });
+  });
+});
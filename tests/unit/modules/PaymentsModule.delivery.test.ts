@@ -0,0 +1,461 @@
+/**
+ * Tests for transfer delivery receipts and redelivery
+ *
+ * Covers:
+ * - Sent transfers stay in the outbox until a signed receipt arrives
+ * - Receipts from the wrong peer or with a bad signature are rejected
+ * - Redelivery with backoff and `transfer:undelivered` after the last attempt
+ * - Recipients acknowledge processed V6 bundles
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createPaymentsModule, type PaymentsModuleConfig, type PaymentsModuleDependencies } from '../../../modules/payments/PaymentsModule';
+import type { Token, FullIdentity } from '../../../types';
+import type { IncomingTransferReceipt, TransferReceiptHandler, TransferReceiptPayload, TransportProvider } from '../../../transport';
+import type { OracleProvider } from '../../../oracle';
+import { getPublicKey, signMessage, verifySignedMessage } from '../../../core/crypto';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import { SphereError } from '../../../core/errors';
+import { createMockStorage, internals } from './payments-helpers';
+
+// =============================================================================
+// Mock SDK dependencies to avoid network/crypto calls
+// =============================================================================
+
+const mockCalculateOptimalSplit = vi.fn();
+vi.mock('../../../modules/payments/TokenSplitCalculator', () => ({
+  TokenSplitCalculator: class {
+    calculateOptimalSplit = mockCalculateOptimalSplit;
+  },
+}));
+
+// Mock InstantSplitExecutor — controls split execution result
+const mockExecuteSplitInstant = vi.fn();
+const mockBuildSplitBundle = vi.fn();
+vi.mock('../../../modules/payments/InstantSplitExecutor', () => ({
+  InstantSplitExecutor: class {
+    constructor() {}
+    executeSplitInstant = mockExecuteSplitInstant;
+    buildSplitBundle = mockBuildSplitBundle;
+  },
+}));
+
+// Mock TokenSplitExecutor — controls conservative split execution result
+const mockExecuteSplit = vi.fn();
+vi.mock('../../../modules/payments/TokenSplitExecutor', () => ({
+  TokenSplitExecutor: class {
+    constructor() {}
+    executeSplit = mockExecuteSplit;
+  },
+}));
+
+// Mock state-transition-sdk imports used by send()
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/Token', () => ({
+  Token: { fromJSON: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment', () => ({
+  TransferCommitment: {
+    create: vi.fn(),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/sign/SigningService', () => ({
+  SigningService: {
+    fromKeyPair: vi.fn().mockResolvedValue({}),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate', () => ({
+  UnmaskedPredicate: { create: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/TokenState', () => ({
+  TokenState: class { constructor() {} },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm', () => ({
+  HashAlgorithm: { SHA256: 'SHA256' },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/TokenType', () => ({
+  TokenType: class { constructor() {} },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/MintCommitment', () => ({
+  MintCommitment: { create: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/MintTransactionData', () => ({
+  MintTransactionData: { createFromNametag: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/util/InclusionProofUtils', () => ({
+  waitInclusionProof: vi.fn().mockResolvedValue({ proof: 'mock-proof' }),
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/InclusionProof', () => ({
+  InclusionProof: {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/fungible/CoinId', () => ({
+  CoinId: class {
+    constructor() {}
+    static fromHex() { return new this(); }
+  },
+}));
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn().mockReturnValue(false),
+}));
+
+vi.mock('../../../serialization/txf-serializer', () => ({
+  tokenToTxf: vi.fn(),
+  getCurrentStateHash: vi.fn(),
+  buildTxfStorageData: vi.fn().mockResolvedValue({}),
+  parseTxfStorageData: vi.fn().mockReturnValue({ tokens: [], tombstones: [], sent: [] }),
+}));
+
+vi.mock('../../../registry', () => ({
+  TokenRegistry: {
+    getInstance: vi.fn().mockReturnValue({
+      getToken: vi.fn(),
+      getAllTokens: vi.fn().mockReturnValue([]),
+      getSymbol: vi.fn().mockReturnValue('UCT'),
+      getName: vi.fn().mockReturnValue('Unicity Token'),
+      getDecimals: vi.fn().mockReturnValue(18),
+      getIconUrl: vi.fn().mockReturnValue(undefined),
+    }),
+  },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SENDER_PRIVATE_KEY = 'a'.repeat(64);
+const RECIPIENT_PRIVATE_KEY = 'c'.repeat(64);
+const RECIPIENT_CHAIN_PUBKEY = getPublicKey(RECIPIENT_PRIVATE_KEY);
+const RECIPIENT_TRANSPORT_PUBKEY = RECIPIENT_CHAIN_PUBKEY.slice(2);
+
+function createIdentity(privateKey: string): FullIdentity {
+  return {
+    chainPubkey: getPublicKey(privateKey),
+    l1Address: 'alpha1testaddr',
+    directAddress: 'DIRECT://testaddr',
+    privateKey,
+  };
+}
+
+function createMockTransport() {
+  let receiptHandler: TransferReceiptHandler | null = null;
+  const transport = {
+    sendTokenTransfer: vi.fn().mockResolvedValue('event-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    sendTransferReceipt: vi.fn().mockResolvedValue('receipt-id'),
+    onTransferReceipt: vi.fn((handler: TransferReceiptHandler) => {
+      receiptHandler = handler;
+      return () => { receiptHandler = null; };
+    }),
+    resolve: vi.fn().mockResolvedValue({
+      chainPubkey: RECIPIENT_CHAIN_PUBKEY,
+      transportPubkey: RECIPIENT_TRANSPORT_PUBKEY,
+      directAddress: 'DIRECT://recipient',
+    }),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn(),
+    isConnected: vi.fn().mockReturnValue(true),
+  };
+  return {
+    transport: transport as typeof transport & TransportProvider,
+    receive: (receipt: IncomingTransferReceipt) => receiptHandler?.(receipt),
+  };
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    getStateTransitionClient: vi.fn().mockReturnValue({
+      submitTransferCommitment: vi.fn().mockResolvedValue({ status: 'SUCCESS' }),
+    }),
+    getTrustBase: vi.fn().mockReturnValue({}),
+    isDevMode: vi.fn().mockReturnValue(false),
+  } as unknown as OracleProvider;
+}
+
+function createMockToken(id: string, amount: string): Token {
+  return {
+    id,
+    coinId: 'UCT',
+    symbol: 'UCT',
+    name: 'Unicity Token',
+    decimals: 18,
+    amount,
+    status: 'confirmed',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    sdkData: JSON.stringify({ genesis: { data: { tokenId: id, coinData: { UCT: amount } } }, state: {} }),
+  };
+}
+
+function createMockCommitment() {
+  return {
+    requestId: new Uint8Array(32),
+    toJSON: () => ({ requestId: '00'.repeat(32) }),
+  };
+}
+
+/** Receipt as the recipient would sign it */
+function signedReceipt(transferId: string, privateKey = RECIPIENT_PRIVATE_KEY): TransferReceiptPayload {
+  const recipientPubkey = getPublicKey(privateKey);
+  const receivedAt = 1_700_000_000_000;
+  return {
+    type: 'TRANSFER_RECEIPT',
+    version: '1.0',
+    transferId,
+    recipientPubkey,
+    receivedAt,
+    signature: signMessage(privateKey, `sphere-transfer-receipt:${transferId}:${recipientPubkey}:${receivedAt}`),
+  };
+}
+
+function incoming(receipt: TransferReceiptPayload, sender = RECIPIENT_TRANSPORT_PUBKEY): IncomingTransferReceipt {
+  return { id: 'receipt-event', senderTransportPubkey: sender, receipt, timestamp: Date.now() };
+}
+
+async function flush() {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PaymentsModule delivery receipts', () => {
+  let module: ReturnType<typeof createPaymentsModule>;
+  let deps: PaymentsModuleDependencies;
+  let storage: ReturnType<typeof createMockStorage>;
+  let mock: ReturnType<typeof createMockTransport>;
+
+  function setup(config?: PaymentsModuleConfig, privateKey = SENDER_PRIVATE_KEY) {
+    module = createPaymentsModule({ debug: false, l1: null, ...config });
+    storage = createMockStorage();
+    mock = createMockTransport();
+    deps = {
+      identity: createIdentity(privateKey),
+      storage,
+      transport: mock.transport,
+      oracle: createMockOracle(),
+      emitEvent: vi.fn(),
+    };
+    module.initialize(deps);
+
+    const mod = internals(module);
+    mod.resolveRecipientAddress = vi.fn().mockResolvedValue({ scheme: 0 });
+    mod.createSigningService = vi.fn().mockResolvedValue({});
+    mod.save = vi.fn().mockResolvedValue(undefined);
+    mod.addToHistory = vi.fn().mockResolvedValue(undefined);
+    mod.removeToken = vi.fn().mockResolvedValue(undefined);
+    mod.createSdkCommitment = vi.fn().mockResolvedValue(createMockCommitment());
+
+    const token = createMockToken('token-aaa', '1000');
+    mod.tokens.set(token.id, token);
+    mockCalculateOptimalSplit.mockResolvedValue({
+      tokensToTransferDirectly: [{ sdkToken: { toJSON: () => ({}) }, amount: 1000n, uiToken: token }],
+      tokenToSplit: null,
+      splitAmount: null,
+      remainderAmount: null,
+      totalTransferAmount: 1000n,
+      coinId: 'UCT',
+      requiresSplit: false,
+    });
+  }
+
+  const send = () => module.send({ recipient: '@bob', amount: '1000', coinId: 'UCT' });
+
+  function outbox(): Array<{ transfer: { id: string }; attempts?: number; payloads?: unknown[] }> {
+    return JSON.parse(storage.store.get(STORAGE_KEYS_ADDRESS.OUTBOX) ?? '[]');
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    module.destroy();
+    vi.useRealTimers();
+  });
+
+  it('keeps a sent transfer in the outbox until a signed receipt arrives', async () => {
+    setup();
+    const result = await send();
+
+    expect(result.status).toBe('completed');
+    expect(result.delivered).toBe(false);
+    expect(outbox()).toHaveLength(1);
+    expect(outbox()[0]).toMatchObject({ transfer: { id: result.id }, attempts: 1 });
+    expect(outbox()[0].payloads).toEqual([mock.transport.sendTokenTransfer.mock.calls[0][1]]);
+
+    mock.receive(incoming(signedReceipt(result.id)));
+    await flush();
+
+    expect(result.delivered).toBe(true);
+    expect(outbox()).toEqual([]);
+    expect(deps.emitEvent).toHaveBeenCalledWith('transfer:delivered', result);
+  });
+
+  it('rejects receipts from another peer or signed by another key', async () => {
+    setup();
+    const result = await send();
+    const otherKey = 'd'.repeat(64);
+
+    mock.receive(incoming(signedReceipt(result.id), getPublicKey(otherKey).slice(2)));
+    mock.receive(incoming(signedReceipt(result.id, otherKey)));
+    mock.receive(incoming({ ...signedReceipt(result.id), receivedAt: 1 }));
+    await flush();
+
+    expect(result.delivered).toBe(false);
+    expect(outbox()).toHaveLength(1);
+    expect(deps.emitEvent).not.toHaveBeenCalledWith('transfer:delivered', expect.anything());
+  });
+
+  it('redelivers with backoff and reports transfer:undelivered after the last attempt', async () => {
+    vi.useFakeTimers();
+    setup({ redelivery: { initialDelayMs: 1000, maxDelayMs: 3000, maxAttempts: 3 } });
+    const result = await send();
+    expect(mock.transport.sendTokenTransfer).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mock.transport.sendTokenTransfer).toHaveBeenCalledTimes(2);
+    expect(mock.transport.sendTokenTransfer.mock.calls[1]).toEqual(mock.transport.sendTokenTransfer.mock.calls[0]);
+
+    // Second delay doubles
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mock.transport.sendTokenTransfer).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mock.transport.sendTokenTransfer).toHaveBeenCalledTimes(3);
+
+    // Capped at maxDelayMs, then given up
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(mock.transport.sendTokenTransfer).toHaveBeenCalledTimes(3);
+    expect(outbox()).toEqual([]);
+    expect(deps.emitEvent).toHaveBeenCalledWith('transfer:undelivered', result);
+    expect(result.delivered).toBe(false);
+  });
+
+  it('stops redelivering once acknowledged', async () => {
+    vi.useFakeTimers();
+    setup({ redelivery: { initialDelayMs: 1000 } });
+    const result = await send();
+
+    mock.receive(incoming(signedReceipt(result.id)));
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(mock.transport.sendTokenTransfer).toHaveBeenCalledTimes(1);
+    expect(result.delivered).toBe(true);
+  });
+
+  it('keeps every change when outbox updates overlap', async () => {
+    setup();
+    const mod = internals(module);
+
+    await Promise.all(['t1', 't2', 't3'].map((id) =>
+      mod.saveToOutbox({ id, status: 'submitted', tokens: [] }, RECIPIENT_TRANSPORT_PUBKEY)));
+    expect(outbox().map((e) => e.transfer.id)).toEqual(['t1', 't2', 't3']);
+
+    await Promise.all(['t1', 't3'].map((id) => mod.removeFromOutbox(id)));
+    expect(outbox().map((e) => e.transfer.id)).toEqual(['t2']);
+  });
+
+  it('reports a transfer delivered once when its receipt arrives twice', async () => {
+    setup();
+    const result = await send();
+
+    mock.receive(incoming(signedReceipt(result.id)));
+    mock.receive(incoming(signedReceipt(result.id)));
+    await flush();
+
+    expect(outbox()).toEqual([]);
+    expect(vi.mocked(deps.emitEvent).mock.calls.filter(([type]) => type === 'transfer:delivered')).toHaveLength(1);
+  });
+
+  it('clears the outbox right away when redelivery is disabled', async () => {
+    setup({ redelivery: { enabled: false } });
+    const result = await send();
+
+    expect(result.delivered).toBeUndefined();
+    expect(outbox()).toEqual([]);
+  });
+
+  it('acknowledges a processed V6 bundle with a receipt signed by the chain key', async () => {
+    setup(undefined, RECIPIENT_PRIVATE_KEY);
+    const mod = internals(module);
+    mod.processCombinedTransferBundle = vi.fn().mockResolvedValue(undefined);
+    const bundle = {
+      version: '6.0',
+      type: 'COMBINED_TRANSFER',
+      transferId: 'transfer-1',
+      splitBundle: null,
+      directTokens: [],
+      totalAmount: '1000',
+      coinId: 'UCT',
+      senderPubkey: getPublicKey(SENDER_PRIVATE_KEY),
+    };
+
+    await mod.handleIncomingTransfer({
+      id: 'event-1',
+      senderTransportPubkey: 'sender-transport',
+      payload: { token: JSON.stringify(bundle), proof: null },
+      timestamp: Date.now(),
+    });
+
+    expect(mock.transport.sendTransferReceipt).toHaveBeenCalledTimes(1);
+    const [to, receipt] = mock.transport.sendTransferReceipt.mock.calls[0] as [string, TransferReceiptPayload];
+    expect(to).toBe('sender-transport');
+    expect(receipt).toMatchObject({ type: 'TRANSFER_RECEIPT', transferId: 'transfer-1', recipientPubkey: RECIPIENT_CHAIN_PUBKEY });
+    const message = `sphere-transfer-receipt:transfer-1:${RECIPIENT_CHAIN_PUBKEY}:${receipt.receivedAt}`;
+    expect(verifySignedMessage(message, receipt.signature, RECIPIENT_CHAIN_PUBKEY)).toBe(true);
+  });
+
+  it('holds receipts back while the wallet is locked and sends them on unlock', async () => {
+    setup(undefined, RECIPIENT_PRIVATE_KEY);
+    let locked = true;
+    deps.ensureUnlocked = () => {
+      if (locked) throw new SphereError('Wallet is locked', 'WALLET_LOCKED');
+    };
+    const mod = internals(module);
+    mod.processCombinedTransferBundle = vi.fn().mockResolvedValue(undefined);
+
+    await mod.handleIncomingTransfer({
+      id: 'event-1',
+      senderTransportPubkey: 'sender-transport',
+      payload: { token: JSON.stringify({ version: '6.0', type: 'COMBINED_TRANSFER', transferId: 'transfer-1' }), proof: null },
+      timestamp: Date.now(),
+    });
+    expect(mock.transport.sendTransferReceipt).not.toHaveBeenCalled();
+
+    locked = false;
+    module.sendPendingReceipts();
+    module.sendPendingReceipts();
+
+    expect(mock.transport.sendTransferReceipt).toHaveBeenCalledTimes(1);
+    expect(mock.transport.sendTransferReceipt.mock.calls[0]).toEqual(['sender-transport', expect.objectContaining({ transferId: 'transfer-1' })]);
+  });
+
+  it('does not acknowledge a bundle that failed to process', async () => {
+    setup(undefined, RECIPIENT_PRIVATE_KEY);
+    const mod = internals(module);
+    mod.processCombinedTransferBundle = vi.fn().mockRejectedValue(new Error('boom'));
+
+    await mod.handleIncomingTransfer({
+      id: 'event-1',
+      senderTransportPubkey: 'sender-transport',
+      payload: { token: JSON.stringify({ version: '6.0', type: 'COMBINED_TRANSFER', transferId: 't' }), proof: null },
+      timestamp: Date.now(),
+    });
+
+    expect(mock.transport.sendTransferReceipt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Tests for PaymentsModule escrow (createEscrow / claimEscrow / refundEscrow)
+ *
+ * Verifies that escrowed tokens stay with the sender until the recipient
+ * reveals the preimage before the deadline, that only then are they
+ * transferred behind the hashlock, that offers and releases must be
+ * addressed to the recipient, and that an expired escrow is refunded.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DataHash } from '@unicitylabs/state-transition-sdk/lib/hash/DataHash';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { TransferCommitment } from '@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment';
+import { bytesToHex, hexToBytes, sha256 } from '../../../core/crypto';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import type { Token } from '../../../types';
+import type { EscrowOfferPayload } from '../../../transport';
+import { createWallet, deliver, sentPayload, type TestWallet } from './payments-helpers';
+
+// =============================================================================
+// Mock SDK dependencies to avoid network/crypto calls
+// =============================================================================
+
+const mockCalculateOptimalSplit = vi.fn();
+vi.mock('../../../modules/payments/TokenSplitCalculator', () => ({
+  TokenSplitCalculator: class {
+    calculateOptimalSplit = mockCalculateOptimalSplit;
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/Token', () => ({
+  Token: { fromJSON: vi.fn(async (json: unknown) => ({ type: 'token-type', toJSON: () => json })) },
+}));
+
+/**
+ * Commitments and transactions serialize their recipient and data hash so
+ * the other wallet can rebuild them; calculateHash() returns a
+ * per-commitment marker that the mocked inclusion proof compares against.
+ */
+function createMockCommitment(recipientDataHash: DataHash | null, recipient: { toString(): string }) {
+  const txHash = { commitment: Math.random() };
+  const json = { hashlock: recipientDataHash ? bytesToHex(recipientDataHash.data) : null, recipient: recipient.toString() };
+  return {
+    requestId: new Uint8Array(32),
+    transactionData: { recipientDataHash, calculateHash: async () => txHash },
+    toJSON: () => json,
+    toTransaction: vi.fn(() => ({ data: { recipient }, toJSON: () => json })),
+  };
+}
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment', () => ({
+  TransferCommitment: {
+    create: vi.fn(async (_token: unknown, recipient: { toString(): string }, _salt: unknown, recipientDataHash: DataHash | null) =>
+      createMockCommitment(recipientDataHash, recipient)),
+    fromJSON: vi.fn(async (json: { hashlock: string | null; recipient: string }) =>
+      createMockCommitment(json.hashlock ? new DataHash(HashAlgorithm.SHA256, hexToBytes(json.hashlock)) : null, json.recipient)),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferTransaction', () => ({
+  TransferTransaction: {
+    fromJSON: vi.fn(async (json: { recipient: string }) => ({ data: { recipient: json.recipient } })),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/address/AddressFactory', () => ({
+  AddressFactory: { createAddress: vi.fn(async (address: string) => address) },
+}));
+
+/** By default the proof records the commitment that was waited on */
+const mockWaitInclusionProof = vi.fn(async (_trustBase: unknown, _client: unknown, commitment: ReturnType<typeof createMockCommitment>) => {
+  const ownHash = await commitment.transactionData.calculateHash();
+  return { transactionHash: { equals: (hash: unknown) => hash === ownHash } };
+});
+vi.mock('@unicitylabs/state-transition-sdk/lib/util/InclusionProofUtils', () => ({
+  waitInclusionProof: (...args: Parameters<typeof mockWaitInclusionProof>) => mockWaitInclusionProof(...args),
+}));
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn().mockReturnValue(false),
+}));
+
+vi.mock('../../../serialization/txf-serializer', () => ({
+  tokenToTxf: vi.fn(),
+  getCurrentStateHash: vi.fn(),
+  buildTxfStorageData: vi.fn().mockResolvedValue({}),
+  parseTxfStorageData: vi.fn().mockReturnValue({ tokens: [], tombstones: [], sent: [] }),
+}));
+
+vi.mock('../../../registry', () => ({
+  TokenRegistry: {
+    getInstance: vi.fn().mockReturnValue({
+      getDefinition: vi.fn(),
+      getSymbol: vi.fn().mockReturnValue('UCT'),
+      getName: vi.fn().mockReturnValue('Unicity Token'),
+      getDecimals: vi.fn().mockReturnValue(18),
+      getIconUrl: vi.fn().mockReturnValue(undefined),
+    }),
+    waitForReady: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const NOW = Date.UTC(2026, 5, 1);
+const HOUR = 3_600_000;
+const PREIMAGE = '11'.repeat(32);
+const HASHLOCK = sha256(PREIMAGE);
+
+function createMockToken(id: string, amount: string): Token {
+  return {
+    id,
+    coinId: 'UCT',
+    symbol: 'UCT',
+    name: 'Unicity Token',
+    decimals: 18,
+    amount,
+    status: 'confirmed',
+    createdAt: NOW,
+    updatedAt: NOW,
+    sdkData: JSON.stringify({ genesis: { data: { tokenId: id, coinData: [['UCT', amount]] } }, state: {} }),
+  };
+}
+
+function directPlan(token: Token) {
+  return {
+    tokensToTransferDirectly: [{ sdkToken: {}, amount: BigInt(token.amount), uiToken: token }],
+    tokenToSplit: null,
+    splitAmount: null,
+    remainderAmount: null,
+    totalTransferAmount: BigInt(token.amount),
+    coinId: token.coinId,
+    requiresSplit: false,
+  };
+}
+
+/** Sender locks one 500-UCT token for the recipient; returns the delivered offer */
+async function offerEscrow(sender: TestWallet, hashlock?: string) {
+  const token = createMockToken('token-aaa', '500');
+  sender.mod.tokens.set(token.id, token);
+  mockCalculateOptimalSplit.mockResolvedValueOnce(directPlan(token));
+
+  const escrow = await sender.module.createEscrow({
+    recipient: '@bob', amount: '500', coinId: 'UCT', timeoutMs: HOUR, hashlock,
+  });
+  const offer = sentPayload(sender, 0) as unknown as EscrowOfferPayload;
+  return { escrow, offer, token };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PaymentsModule escrow', () => {
+  const ALICE = 'a'.repeat(64);
+  const BOB = 'b'.repeat(64);
+  let alice: TestWallet;
+  let bob: TestWallet;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    alice = createWallet(ALICE, 'DIRECT://alice', { pubkey: BOB, directAddress: 'DIRECT://bob' });
+    bob = createWallet(BOB, 'DIRECT://bob', { pubkey: ALICE, directAddress: 'DIRECT://alice' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Bob holds Alice's offer and has claimed it; returns what Bob sent */
+  async function offerAndClaim() {
+    const { escrow, offer } = await offerEscrow(alice, HASHLOCK);
+    await deliver(bob, ALICE, offer);
+    await bob.module.claimEscrow(PREIMAGE);
+    return { escrow, offer, claim: sentPayload(bob, -1) };
+  }
+
+  it('keeps the tokens and delivers an ESCROW_OFFER without signing a transfer', async () => {
+    const { escrow, offer, token } = await offerEscrow(alice);
+
+    expect(escrow).toMatchObject({ role: 'sender', status: 'offered', amount: '500', expiresAt: NOW + HOUR, recipientAddress: 'DIRECT://bob' });
+    expect(escrow.hashlock).toBe(sha256(escrow.preimage!));
+    expect(alice.module.getTokens({ status: 'escrowed' })).toEqual([token]);
+
+    expect(offer).toMatchObject({
+      type: 'ESCROW_OFFER',
+      escrowId: escrow.id,
+      hashlock: escrow.hashlock,
+      amount: '500',
+      recipientAddress: 'DIRECT://bob',
+      tokens: [token.sdkData],
+    });
+    // Nothing the recipient could submit leaves the wallet before the claim
+    expect(TransferCommitment.create).not.toHaveBeenCalled();
+    expect(alice.stClient.submitTransferCommitment).not.toHaveBeenCalled();
+
+    expect(alice.module.getHistory()[0]).toMatchObject({ type: 'SENT', escrowId: escrow.id, escrowStatus: 'offered' });
+    expect(alice.deps.storage.set).toHaveBeenCalledWith(STORAGE_KEYS_ADDRESS.ESCROWS, expect.any(String));
+  });
+
+  it('releases the tokens when the offer cannot be delivered', async () => {
+    vi.mocked(alice.transport.sendTokenTransfer).mockRejectedValueOnce(new Error('relay down'));
+
+    await expect(offerEscrow(alice)).rejects.toThrow('relay down');
+    expect(alice.module.getToken('token-aaa')!.status).toBe('confirmed');
+    expect(alice.module.getEscrows()).toEqual([]);
+  });
+
+  it('transfers the tokens only once the recipient reveals the preimage', async () => {
+    const { offer } = await offerEscrow(alice, HASHLOCK);
+    await deliver(bob, ALICE, offer);
+    expect(bob.module.getEscrows({ role: 'recipient' })).toHaveLength(1);
+    expect(bob.module.getHistory()[0]).toMatchObject({ type: 'RECEIVED', escrowId: offer.escrowId, escrowStatus: 'offered' });
+
+    await expect(bob.module.claimEscrow('22'.repeat(32))).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    const claiming = await bob.module.claimEscrow(PREIMAGE);
+    expect(claiming).toMatchObject({ status: 'claiming', preimage: PREIMAGE });
+    const claim = sentPayload(bob, -1);
+    expect(claim).toEqual({ type: 'ESCROW_CLAIM', version: '1.0', escrowId: offer.escrowId, preimage: PREIMAGE });
+
+    // Alice's wallet checks the preimage, then transfers to Bob behind the hashlock
+    await deliver(alice, BOB, claim);
+    expect(TransferCommitment.create).toHaveBeenCalledWith(
+      expect.anything(), 'DIRECT://bob', expect.any(Uint8Array), new DataHash(HashAlgorithm.SHA256, hexToBytes(HASHLOCK)), null, expect.anything(),
+    );
+    expect(alice.stClient.submitTransferCommitment).toHaveBeenCalledTimes(1);
+    expect(alice.module.getEscrow(offer.escrowId)).toMatchObject({ status: 'claimed', preimage: PREIMAGE });
+    expect(alice.module.getTokens()).toEqual([]);
+    const release = sentPayload(alice, -1);
+    expect(release).toMatchObject({ type: 'ESCROW_RELEASED', escrowId: offer.escrowId, tokens: [{ sourceToken: offer.tokens[0] }] });
+
+    await deliver(bob, ALICE, release);
+    // Finalized with the preimage as state data
+    expect(bob.mod.finalizeTransferToken.mock.calls[0][4]).toEqual(hexToBytes(PREIMAGE));
+    expect(bob.module.getEscrow(offer.escrowId)!.status).toBe('claimed');
+    expect(bob.module.getTokens()).toHaveLength(1);
+    expect(bob.module.getHistory()[0].escrowStatus).toBe('claimed');
+    expect(bob.stClient.submitTransferCommitment).not.toHaveBeenCalled();
+  });
+
+  it('ignores offers that are not addressed to us or do not add up', async () => {
+    const { offer } = await offerEscrow(alice, HASHLOCK);
+
+    await deliver(bob, ALICE, { ...offer, recipientAddress: 'DIRECT://mallory' });
+    await deliver(bob, ALICE, { ...offer, escrowId: 'other', amount: '900' });
+
+    expect(bob.module.getEscrows()).toEqual([]);
+  });
+
+  it('ignores a release that is not addressed to us', async () => {
+    const { offer } = await offerAndClaim();
+
+    await deliver(bob, ALICE, {
+      type: 'ESCROW_RELEASED',
+      version: '1.0',
+      escrowId: offer.escrowId,
+      tokens: [{ sourceToken: offer.tokens[0], transferTx: JSON.stringify({ recipient: 'DIRECT://mallory' }) }],
+    });
+
+    expect(bob.module.getEscrow(offer.escrowId)!.status).toBe('claiming');
+    expect(bob.module.getTokens()).toEqual([]);
+    expect(bob.mod.finalizeTransferToken).not.toHaveBeenCalled();
+  });
+
+  it('resends the same transfer when a claim is repeated after a failed release', async () => {
+    const { offer, claim } = await offerAndClaim();
+    alice.stClient.submitTransferCommitment.mockRejectedValueOnce(new Error('aggregator down'));
+
+    await deliver(alice, BOB, claim);
+    // Accepted, so no longer refundable, but not yet released
+    expect(alice.module.getEscrow(offer.escrowId)!.status).toBe('claimed');
+    expect(alice.module.getToken('token-aaa')!.status).toBe('escrowed');
+
+    await bob.module.claimEscrow(PREIMAGE);
+    await deliver(alice, BOB, sentPayload(bob, -1));
+
+    expect(TransferCommitment.create).toHaveBeenCalledTimes(1);
+    expect(alice.stClient.submitTransferCommitment).toHaveBeenCalledTimes(2);
+    expect(sentPayload(alice, -1)).toMatchObject({ type: 'ESCROW_RELEASED', escrowId: offer.escrowId });
+    expect(alice.module.getTokens()).toEqual([]);
+  });
+
+  it('refuses to claim after the deadline or to refund before it', async () => {
+    const { escrow, offer } = await offerEscrow(alice, HASHLOCK);
+    await deliver(bob, ALICE, offer);
+
+    await expect(alice.module.refundEscrow(escrow.id)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    vi.setSystemTime(NOW + HOUR);
+    expect(bob.module.getEscrow(offer.escrowId)!.status).toBe('expired');
+    await expect(bob.module.claimEscrow(PREIMAGE)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    // A claim reaching the sender after the deadline refunds the escrow instead
+    await deliver(alice, BOB, { type: 'ESCROW_CLAIM', version: '1.0', escrowId: escrow.id, preimage: PREIMAGE });
+    expect(alice.module.getEscrow(escrow.id)!.status).toBe('refunded');
+    expect(alice.module.getToken('token-aaa')!.status).toBe('confirmed');
+    expect(alice.stClient.submitTransferCommitment).not.toHaveBeenCalled();
+    expect(sentPayload(alice, -1)).toEqual({ type: 'ESCROW_REFUNDED', version: '1.0', escrowId: escrow.id });
+  });
+
+  it('refunds an expired escrow by unlocking the tokens', async () => {
+    const { escrow, offer } = await offerEscrow(alice);
+    await deliver(bob, ALICE, offer);
+    vi.setSystemTime(NOW + HOUR);
+
+    const refunded = await alice.module.refundEscrow(escrow.id);
+
+    expect(refunded.status).toBe('refunded');
+    expect(alice.stClient.submitTransferCommitment).not.toHaveBeenCalled();
+    expect(alice.module.getToken('token-aaa')!.status).toBe('confirmed');
+    expect(alice.module.getHistory()[0].escrowStatus).toBe('refunded');
+
+    const notice = sentPayload(alice, -1);
+    expect(notice).toEqual({ type: 'ESCROW_REFUNDED', version: '1.0', escrowId: escrow.id });
+    await deliver(bob, ALICE, notice);
+    expect(bob.module.getEscrow(escrow.id)!.status).toBe('refunded');
+
+    // The preimage no longer buys anything
+    await deliver(alice, BOB, { type: 'ESCROW_CLAIM', version: '1.0', escrowId: escrow.id, preimage: escrow.preimage });
+    expect(alice.stClient.submitTransferCommitment).not.toHaveBeenCalled();
+  });
+});
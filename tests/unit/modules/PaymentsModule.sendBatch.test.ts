@@ -0,0 +1,364 @@
+/**
+ * Tests for PaymentsModule.sendBatch()
+ *
+ * Verifies that a batch is planned once across all recipients, commitments are
+ * submitted together, history entries are linked by batchId, and recipients
+ * fail independently (partial failure).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPaymentsModule, type PaymentsModuleDependencies } from '../../../modules/payments/PaymentsModule';
+import type { Token, FullIdentity } from '../../../types';
+import type { TransportProvider } from '../../../transport';
+import type { OracleProvider } from '../../../oracle';
+import { createMockStorage, internals } from './payments-helpers';
+
+// =============================================================================
+// Mock SDK dependencies to avoid network/crypto calls
+// =============================================================================
+
+// Mock TokenSplitCalculator — controls what batch plan is returned
+const mockCalculateBatchSplit = vi.fn();
+vi.mock('../../../modules/payments/TokenSplitCalculator', () => ({
+  TokenSplitCalculator: class {
+    calculateBatchSplit = mockCalculateBatchSplit;
+  },
+}));
+
+// Mock InstantSplitExecutor — controls split execution result
+const mockExecuteSplitInstant = vi.fn();
+const mockBuildSplitBundle = vi.fn();
+vi.mock('../../../modules/payments/InstantSplitExecutor', () => ({
+  InstantSplitExecutor: class {
+    constructor() {}
+    executeSplitInstant = mockExecuteSplitInstant;
+    buildSplitBundle = mockBuildSplitBundle;
+  },
+}));
+
+// Mock TokenSplitExecutor — controls conservative split execution result
+const mockExecuteSplit = vi.fn();
+vi.mock('../../../modules/payments/TokenSplitExecutor', () => ({
+  TokenSplitExecutor: class {
+    constructor() {}
+    executeSplit = mockExecuteSplit;
+  },
+}));
+
+// Mock state-transition-sdk imports used by send()
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/Token', () => ({
+  Token: { fromJSON: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment', () => ({
+  TransferCommitment: {
+    create: vi.fn(),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/sign/SigningService', () => ({
+  SigningService: {
+    fromKeyPair: vi.fn().mockResolvedValue({}),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate', () => ({
+  UnmaskedPredicate: { create: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/TokenState', () => ({
+  TokenState: class { constructor() {} },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm', () => ({
+  HashAlgorithm: { SHA256: 'SHA256' },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/TokenType', () => ({
+  TokenType: class { constructor() {} },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/MintCommitment', () => ({
+  MintCommitment: { create: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/MintTransactionData', () => ({
+  MintTransactionData: { createFromNametag: vi.fn() },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/util/InclusionProofUtils', () => ({
+  waitInclusionProof: vi.fn().mockResolvedValue({ proof: 'mock-proof' }),
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/InclusionProof', () => ({
+  InclusionProof: {},
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/fungible/CoinId', () => ({
+  CoinId: class {
+    constructor() {}
+    static fromHex() { return new this(); }
+  },
+}));
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn().mockReturnValue(false),
+}));
+
+vi.mock('../../../serialization/txf-serializer', () => ({
+  tokenToTxf: vi.fn(),
+  getCurrentStateHash: vi.fn(),
+  buildTxfStorageData: vi.fn().mockResolvedValue({}),
+  parseTxfStorageData: vi.fn().mockReturnValue({ tokens: [], tombstones: [], sent: [] }),
+}));
+
+vi.mock('../../../registry', () => ({
+  TokenRegistry: {
+    getInstance: vi.fn().mockReturnValue({
+      getToken: vi.fn(),
+      getAllTokens: vi.fn().mockReturnValue([]),
+      getSymbol: vi.fn().mockReturnValue('UCT'),
+      getName: vi.fn().mockReturnValue('Unicity Token'),
+      getDecimals: vi.fn().mockReturnValue(18),
+      getIconUrl: vi.fn().mockReturnValue(undefined),
+    }),
+  },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const FAKE_PRIVATE_KEY = 'a'.repeat(64);
+const FAKE_PUBKEY = '02' + 'b'.repeat(64);
+
+function createMockIdentity(): FullIdentity {
+  return {
+    chainPubkey: FAKE_PUBKEY,
+    l1Address: 'alpha1testaddr',
+    directAddress: 'DIRECT://testaddr',
+    privateKey: FAKE_PRIVATE_KEY,
+  };
+}
+
+function createMockTransport(): TransportProvider {
+  return {
+    sendTokenTransfer: vi.fn().mockResolvedValue(undefined),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    resolve: vi.fn().mockResolvedValue({
+      chainPubkey: FAKE_PUBKEY,
+      transportPubkey: 'transport-pub',
+      directAddress: 'DIRECT://testaddr',
+    }),
+    resolveNametagInfo: vi.fn().mockResolvedValue({
+      chainPubkey: FAKE_PUBKEY,
+      transportPubkey: 'transport-pub',
+    }),
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn(),
+    isConnected: vi.fn().mockReturnValue(true),
+    publishNametag: vi.fn().mockResolvedValue(undefined),
+    sendPaymentRequest: vi.fn().mockResolvedValue(undefined),
+    sendPaymentRequestResponse: vi.fn().mockResolvedValue(undefined),
+  } as unknown as TransportProvider;
+}
+
+function createMockOracle(): OracleProvider {
+  return {
+    validateToken: vi.fn().mockResolvedValue({ valid: true }),
+    getStateTransitionClient: vi.fn().mockReturnValue({
+      submitTransferCommitment: vi.fn().mockResolvedValue({ status: 'SUCCESS' }),
+    }),
+    getTrustBase: vi.fn().mockReturnValue({}),
+    isDevMode: vi.fn().mockReturnValue(false),
+  } as unknown as OracleProvider;
+}
+
+function createMockToken(id: string, amount: string, coinId: string = 'UCT'): Token {
+  return {
+    id,
+    coinId,
+    symbol: 'UCT',
+    name: 'Unicity Token',
+    decimals: 18,
+    amount,
+    status: 'confirmed',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    sdkData: JSON.stringify({
+      genesis: { data: { tokenId: id, coinData: { [coinId]: amount } } },
+      state: {},
+    }),
+  };
+}
+
+/** Mock SDK token with toJSON method */
+function createMockSdkToken() {
+  return {
+    toJSON: () => ({ genesis: {}, state: {} }),
+    state: { calculateHash: () => new Uint8Array(32) },
+  };
+}
+
+/** Create a mock TransferCommitment with a known requestId */
+function createMockCommitment(requestIdHex: string) {
+  const requestIdBytes = new Uint8Array(
+    requestIdHex.match(/.{1,2}/g)!.map(b => parseInt(b, 16))
+  );
+  return {
+    requestId: requestIdBytes,
+    toJSON: () => ({ requestId: requestIdHex }),
+    toTransaction: () => ({
+      toJSON: () => ({ requestId: requestIdHex, proof: 'mock' }),
+      data: { requestId: requestIdBytes },
+    }),
+  };
+}
+
+function directPlan(token: Token) {
+  return {
+    tokensToTransferDirectly: [{ sdkToken: createMockSdkToken(), amount: BigInt(token.amount), uiToken: token }],
+    tokenToSplit: null,
+    splitAmount: null,
+    remainderAmount: null,
+    totalTransferAmount: BigInt(token.amount),
+    coinId: token.coinId,
+    requiresSplit: false,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PaymentsModule.sendBatch()', () => {
+  let module: ReturnType<typeof createPaymentsModule>;
+  let deps: PaymentsModuleDependencies;
+  let mockTransport: TransportProvider;
+  let mockOracle: OracleProvider;
+  let token1: Token;
+  let token2: Token;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    module = createPaymentsModule({ debug: false });
+    mockTransport = createMockTransport();
+    mockOracle = createMockOracle();
+
+    deps = {
+      identity: createMockIdentity(),
+      storage: createMockStorage(),
+      transport: mockTransport,
+      oracle: mockOracle,
+      emitEvent: vi.fn(),
+    };
+
+    module.initialize(deps);
+
+    const mod = internals(module);
+    mod.resolveRecipientAddress = vi.fn().mockResolvedValue({ scheme: 0 });
+    mod.createSigningService = vi.fn().mockResolvedValue({});
+    mod.save = vi.fn().mockResolvedValue(undefined);
+    mod.saveToOutbox = vi.fn().mockResolvedValue(undefined);
+    mod.removeFromOutbox = vi.fn().mockResolvedValue(undefined);
+    mod.addToHistory = vi.fn().mockResolvedValue(undefined);
+    mod.removeToken = vi.fn().mockResolvedValue(undefined);
+    mod.createSdkCommitment = vi.fn()
+      .mockResolvedValueOnce(createMockCommitment('aa'.repeat(16)))
+      .mockResolvedValueOnce(createMockCommitment('bb'.repeat(16)));
+
+    token1 = createMockToken('token-aaa', '1000');
+    token2 = createMockToken('token-bbb', '2000');
+    mod.tokens.set(token1.id, token1);
+    mod.tokens.set(token2.id, token2);
+
+    mockCalculateBatchSplit.mockImplementation(async (_tokens: Token[], outputs: unknown[]) => ({
+      plans: [directPlan(token1), directPlan(token2)].slice(-outputs.length),
+      splitCount: 0,
+    }));
+  });
+
+  const requests = [
+    { recipient: '@alice', amount: '1000', coinId: 'UCT' },
+    { recipient: '@bob', amount: '2000', coinId: 'UCT' },
+  ];
+
+  it('plans once and returns one completed result per recipient', async () => {
+    const results = await module.sendBatch(requests);
+
+    expect(mockCalculateBatchSplit).toHaveBeenCalledTimes(1);
+    expect(mockCalculateBatchSplit.mock.calls[0][1]).toEqual([
+      { amount: 1000n, coinId: 'UCT' },
+      { amount: 2000n, coinId: 'UCT' },
+    ]);
+    expect(results.map((r) => r.status)).toEqual(['completed', 'completed']);
+    expect(results[0].tokenTransfers[0].sourceTokenId).toBe('token-aaa');
+    expect(results[1].tokenTransfers[0].sourceTokenId).toBe('token-bbb');
+    expect(mockTransport.sendTokenTransfer).toHaveBeenCalledTimes(2);
+  });
+
+  it('submits all direct commitments to the aggregator', async () => {
+    await module.sendBatch(requests);
+    await new Promise((r) => setTimeout(r, 0));
+
+    const stClient = vi.mocked(mockOracle.getStateTransitionClient!).mock.results[0].value;
+    expect(stClient.submitTransferCommitment).toHaveBeenCalledTimes(2);
+  });
+
+  it('links history entries with a shared batchId', async () => {
+    await module.sendBatch(requests);
+
+    const { addToHistory } = internals(module);
+    expect(addToHistory).toHaveBeenCalledTimes(2);
+    const [first, second] = addToHistory.mock.calls.map((c) => c[0]);
+    expect(first.batchId).toBeDefined();
+    expect(second.batchId).toBe(first.batchId);
+    expect(first.recipientNametag).toBe('alice');
+    expect(second.recipientNametag).toBe('bob');
+  });
+
+  it('fails only the recipient that cannot be resolved', async () => {
+    vi.mocked(mockTransport.resolve!)
+      .mockRejectedValueOnce(new Error('relay down'));
+
+    const results = await module.sendBatch(requests);
+
+    expect(results[0]).toMatchObject({ status: 'failed', error: 'relay down' });
+    expect(results[1].status).toBe('completed');
+    expect(mockCalculateBatchSplit.mock.calls[0][1]).toEqual([{ amount: 2000n, coinId: 'UCT' }]);
+    expect(deps.emitEvent).toHaveBeenCalledWith('transfer:failed', results[0]);
+  });
+
+  it('restores the tokens of a recipient whose delivery fails', async () => {
+    vi.mocked(mockTransport.sendTokenTransfer)
+      .mockRejectedValueOnce(new Error('delivery failed'))
+      .mockResolvedValue(undefined as never);
+
+    const results = await module.sendBatch(requests);
+
+    expect(results.filter((r) => r.status === 'failed')).toHaveLength(1);
+    expect(results.filter((r) => r.status === 'completed')).toHaveLength(1);
+    const failed = results.find((r) => r.status === 'failed')!;
+    expect(failed.tokens[0].status).toBe('confirmed');
+    expect(internals(module).addToHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws before sending anything when the balance is insufficient', async () => {
+    mockCalculateBatchSplit.mockResolvedValue(null);
+
+    await expect(module.sendBatch(requests)).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+    expect(mockTransport.sendTokenTransfer).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty batches and conservative mode', async () => {
+    await expect(module.sendBatch([])).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(
+      module.sendBatch([{ ...requests[0], transferMode: 'conservative' }])
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
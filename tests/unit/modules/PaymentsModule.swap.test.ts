@@ -0,0 +1,294 @@
+/**
+ * Tests for PaymentsModule swaps (proposeSwap / acceptSwap / declineSwap)
+ *
+ * Runs the negotiation between two wallets by hand-delivering each transport
+ * message: offer, accept, both legs locked in escrows sharing one hashlock,
+ * the initiator's claim revealing the preimage to the responder, and each
+ * wallet releasing its leg, the initiator's only once it holds the other.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DataHash } from '@unicitylabs/state-transition-sdk/lib/hash/DataHash';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { bytesToHex, hexToBytes } from '../../../core/crypto';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import type { Token } from '../../../types';
+import type { SearchIntentResult } from '../../../modules/market';
+import { createWallet, deliver, sentPayload, type TestWallet } from './payments-helpers';
+
+// =============================================================================
+// Mock SDK dependencies to avoid network/crypto calls
+// =============================================================================
+
+const mockCalculateOptimalSplit = vi.fn();
+vi.mock('../../../modules/payments/TokenSplitCalculator', () => ({
+  TokenSplitCalculator: class {
+    calculateOptimalSplit = mockCalculateOptimalSplit;
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/token/Token', () => ({
+  Token: { fromJSON: vi.fn(async (json: unknown) => ({ type: 'token-type', toJSON: () => json })) },
+}));
+
+/**
+ * Commitments and transactions serialize their recipient and data hash so
+ * the other wallet can rebuild them; calculateHash() returns a
+ * per-commitment marker that the mocked inclusion proof compares against.
+ */
+function createMockCommitment(recipientDataHash: DataHash | null, recipient: { toString(): string }) {
+  const txHash = { commitment: Math.random() };
+  const json = { hashlock: recipientDataHash ? bytesToHex(recipientDataHash.data) : null, recipient: recipient.toString() };
+  return {
+    requestId: new Uint8Array(32),
+    transactionData: { recipientDataHash, calculateHash: async () => txHash },
+    toJSON: () => json,
+    toTransaction: vi.fn(() => ({ data: { recipient }, toJSON: () => json })),
+  };
+}
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment', () => ({
+  TransferCommitment: {
+    create: vi.fn(async (_token: unknown, recipient: { toString(): string }, _salt: unknown, recipientDataHash: DataHash | null) =>
+      createMockCommitment(recipientDataHash, recipient)),
+    fromJSON: vi.fn(async (json: { hashlock: string | null; recipient: string }) =>
+      createMockCommitment(json.hashlock ? new DataHash(HashAlgorithm.SHA256, hexToBytes(json.hashlock)) : null, json.recipient)),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/transaction/TransferTransaction', () => ({
+  TransferTransaction: {
+    fromJSON: vi.fn(async (json: { recipient: string }) => ({ data: { recipient: json.recipient } })),
+  },
+}));
+
+vi.mock('@unicitylabs/state-transition-sdk/lib/address/AddressFactory', () => ({
+  AddressFactory: { createAddress: vi.fn(async (address: string) => address) },
+}));
+
+/** By default the proof records the commitment that was waited on */
+const mockWaitInclusionProof = vi.fn(async (_trustBase: unknown, _client: unknown, commitment: ReturnType<typeof createMockCommitment>) => {
+  const ownHash = await commitment.transactionData.calculateHash();
+  return { transactionHash: { equals: (hash: unknown) => hash === ownHash } };
+});
+vi.mock('@unicitylabs/state-transition-sdk/lib/util/InclusionProofUtils', () => ({
+  waitInclusionProof: (...args: Parameters<typeof mockWaitInclusionProof>) => mockWaitInclusionProof(...args),
+}));
+
+vi.mock('../../../l1/network', () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  disconnect: vi.fn(),
+  isWebSocketConnected: vi.fn().mockReturnValue(false),
+}));
+
+vi.mock('../../../serialization/txf-serializer', () => ({
+  tokenToTxf: vi.fn(),
+  getCurrentStateHash: vi.fn(),
+  buildTxfStorageData: vi.fn().mockResolvedValue({}),
+  parseTxfStorageData: vi.fn().mockReturnValue({ tokens: [], tombstones: [], sent: [] }),
+}));
+
+vi.mock('../../../registry', () => ({
+  TokenRegistry: {
+    getInstance: vi.fn().mockReturnValue({
+      getDefinition: vi.fn(),
+      getSymbol: vi.fn().mockReturnValue('UCT'),
+      getName: vi.fn().mockReturnValue('Unicity Token'),
+      getDecimals: vi.fn().mockReturnValue(18),
+      getIconUrl: vi.fn().mockReturnValue(undefined),
+      getCoinIdBySymbol: vi.fn((symbol: string) => (symbol === 'UCT' ? 'UCT' : undefined)),
+      isKnown: vi.fn().mockReturnValue(false),
+    }),
+    waitForReady: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const NOW = Date.UTC(2026, 5, 1);
+const HOUR = 3_600_000;
+const ALICE = 'a'.repeat(64);
+const BOB = 'b'.repeat(64);
+
+function createMockToken(id: string, coinId: string, amount: string): Token {
+  return {
+    id,
+    coinId,
+    symbol: coinId,
+    name: coinId,
+    decimals: 18,
+    amount,
+    status: 'confirmed',
+    createdAt: NOW,
+    updatedAt: NOW,
+    sdkData: JSON.stringify({ genesis: { data: { tokenId: id, coinData: [[coinId, amount]] } }, state: {} }),
+  };
+}
+
+/** Spend the first confirmed token of the coin whole */
+mockCalculateOptimalSplit.mockImplementation(async (tokens: Token[], _amount: bigint, coinId: string) => {
+  const token = tokens.find(t => t.coinId === coinId && t.status === 'confirmed');
+  if (!token) return null;
+  return {
+    tokensToTransferDirectly: [{ sdkToken: {}, amount: BigInt(token.amount), uiToken: token }],
+    tokenToSplit: null,
+    splitAmount: null,
+    remainderAmount: null,
+    totalTransferAmount: BigInt(token.amount),
+    coinId,
+    requiresSplit: false,
+  };
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PaymentsModule swaps', () => {
+  let alice: TestWallet;
+  let bob: TestWallet;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    alice = createWallet(ALICE, 'DIRECT://alice', { pubkey: BOB, directAddress: 'DIRECT://bob' });
+    bob = createWallet(BOB, 'DIRECT://bob', { pubkey: ALICE, directAddress: 'DIRECT://alice' });
+    alice.mod.tokens.set('alice-uct', createMockToken('alice-uct', 'UCT', '500'));
+    bob.mod.tokens.set('bob-usdu', createMockToken('bob-usdu', 'USDU', '200'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Alice proposes 500 UCT for 200 USDU and Bob accepts; returns Bob's acceptance */
+  async function proposeAndAccept(timeoutMs = HOUR) {
+    const proposed = await alice.module.proposeSwap({
+      counterparty: '@bob',
+      give: { coinId: 'UCT', amount: '500' },
+      want: { coinId: 'USDU', amount: '200' },
+      timeoutMs,
+    });
+    await deliver(bob, ALICE, sentPayload(alice, 0));
+    await bob.module.acceptSwap(proposed.id);
+    return { swapId: proposed.id, accept: sentPayload(bob, 0) };
+  }
+
+  it('swaps both legs once the initiator\'s claim reveals the preimage', async () => {
+    const { swapId, accept } = await proposeAndAccept();
+
+    expect(bob.module.getSwap(swapId)).toMatchObject({
+      role: 'responder',
+      status: 'accepted',
+      give: { coinId: 'USDU', amount: '200' },
+      want: { coinId: 'UCT', amount: '500' },
+    });
+    expect(bob.module.getSwap(swapId)!.preimage).toBeUndefined();
+
+    // Alice locks her leg for twice the swap timeout
+    await deliver(alice, BOB, accept);
+    const aliceSwap = alice.module.getSwap(swapId)!;
+    expect(aliceSwap.status).toBe('locked');
+    expect(alice.module.getEscrow(aliceSwap.giveEscrowId!)).toMatchObject({ expiresAt: NOW + 2 * HOUR, swapId });
+    expect(sentPayload(alice, 1)).toMatchObject({ type: 'ESCROW_OFFER', swapId, hashlock: aliceSwap.hashlock });
+
+    // Bob sees it and locks his leg for the swap timeout
+    await deliver(bob, ALICE, sentPayload(alice, 1));
+    const bobSwap = bob.module.getSwap(swapId)!;
+    expect(bobSwap).toMatchObject({ status: 'locked', wantEscrowId: aliceSwap.giveEscrowId });
+    expect(bob.module.getEscrow(bobSwap.giveEscrowId!)).toMatchObject({ expiresAt: NOW + HOUR, hashlock: aliceSwap.hashlock });
+
+    // Alice claims Bob's leg, which tells Bob the preimage
+    await deliver(alice, BOB, sentPayload(bob, 1));
+    expect(sentPayload(alice, 2)).toMatchObject({ type: 'ESCROW_CLAIM', escrowId: bobSwap.giveEscrowId, preimage: aliceSwap.preimage });
+    expect(alice.module.getSwap(swapId)!.status).toBe('locked');
+
+    // Bob's wallet releases his leg and claims Alice's with the preimage
+    await deliver(bob, ALICE, sentPayload(alice, 2));
+    expect(sentPayload(bob, 2)).toMatchObject({ type: 'ESCROW_RELEASED', escrowId: bobSwap.giveEscrowId });
+    expect(sentPayload(bob, 3)).toMatchObject({ type: 'ESCROW_CLAIM', escrowId: aliceSwap.giveEscrowId, preimage: aliceSwap.preimage });
+    expect(bob.module.getSwap(swapId)!.preimage).toBe(aliceSwap.preimage);
+
+    // Alice holds her leg back until Bob's has arrived, then releases it
+    await deliver(alice, BOB, sentPayload(bob, 3));
+    expect(alice.transport.sendTokenTransfer).toHaveBeenCalledTimes(3);
+    expect(alice.module.getEscrow(aliceSwap.giveEscrowId!)!.status).toBe('offered');
+
+    await deliver(alice, BOB, sentPayload(bob, 2));
+    expect(alice.module.getSwap(swapId)!.status).toBe('completed');
+    expect(sentPayload(alice, 3)).toMatchObject({ type: 'ESCROW_RELEASED', escrowId: aliceSwap.giveEscrowId });
+    expect(alice.module.getTokens().map(t => t.coinId)).toEqual(['USDU']);
+
+    await deliver(bob, ALICE, sentPayload(alice, 3));
+    expect(bob.module.getSwap(swapId)).toMatchObject({ status: 'completed', preimage: aliceSwap.preimage });
+    expect(bob.module.getTokens().map(t => t.coinId)).toEqual(['UCT']);
+    expect(bob.mod.finalizeTransferToken.mock.calls[0][4]).toEqual(hexToBytes(aliceSwap.preimage!));
+
+    expect(bob.deps.emitEvent).toHaveBeenCalledWith('swap:updated', expect.objectContaining({ id: swapId, status: 'completed' }));
+    expect(bob.deps.storage.set).toHaveBeenCalledWith(STORAGE_KEYS_ADDRESS.SWAPS, expect.any(String));
+  });
+
+  it('does not lock the responder leg when the initiator leg breaks the terms', async () => {
+    const { swapId } = await proposeAndAccept();
+    const { hashlock } = alice.module.getSwap(swapId)!;
+
+    // Same swap and hashlock, but locked only as long as Bob's own leg would be
+    await alice.module.createEscrow({ recipient: '@bob', coinId: 'UCT', amount: '500', hashlock, timeoutMs: HOUR, swapId });
+    await deliver(bob, ALICE, sentPayload(alice, 1));
+
+    expect(bob.module.getSwap(swapId)).toMatchObject({ status: 'failed', error: 'Counterparty leg expires too soon' });
+    expect(bob.module.getTokens({ status: 'escrowed' })).toEqual([]);
+    expect(bob.transport.sendTokenTransfer).toHaveBeenCalledTimes(1);
+  });
+
+  it('declines before anything is locked', async () => {
+    const proposed = await alice.module.proposeSwap({
+      counterparty: '@bob',
+      give: { coinId: 'UCT', amount: '500' },
+      want: { coinId: 'USDU', amount: '200' },
+    });
+    await deliver(bob, ALICE, sentPayload(alice, 0));
+
+    await bob.module.declineSwap(proposed.id, 'price too low');
+    await deliver(alice, BOB, sentPayload(bob, 0));
+
+    expect(alice.module.getSwap(proposed.id)).toMatchObject({ status: 'declined', error: 'price too low' });
+    await expect(bob.module.acceptSwap(proposed.id)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('fails and tells the responder when the initiator cannot lock its leg', async () => {
+    alice.mod.tokens.clear();
+    const { swapId, accept } = await proposeAndAccept();
+
+    await deliver(alice, BOB, accept);
+
+    expect(alice.module.getSwap(swapId)).toMatchObject({ status: 'failed', error: 'Insufficient balance' });
+    expect(sentPayload(alice, 1)).toMatchObject({ type: 'SWAP_DECLINE', swapId, reason: 'Insufficient balance' });
+    await deliver(bob, ALICE, sentPayload(alice, 1));
+    expect(bob.module.getSwap(swapId)!.status).toBe('declined');
+  });
+
+  it('proposes a swap paying the asking price of a sell intent', async () => {
+    const intent = {
+      id: 'intent-1',
+      intentType: 'sell',
+      agentNametag: 'bob',
+      agentPublicKey: '02' + BOB,
+      price: 1.5,
+      currency: 'UCT',
+    } as SearchIntentResult;
+
+    const swap = await alice.module.proposeSwapForIntent(intent, { coinId: 'USDU', amount: '200' });
+
+    expect(swap).toMatchObject({ role: 'initiator', intentId: 'intent-1', give: { coinId: 'UCT', amount: '1500000000000000000' } });
+    expect(alice.transport.resolve).toHaveBeenCalledWith('@bob');
+    expect(sentPayload(alice, 0)).toMatchObject({ type: 'SWAP_OFFER', intentId: 'intent-1' });
+
+    await expect(
+      alice.module.proposeSwapForIntent({ ...intent, intentType: 'buy' }, { coinId: 'USDU', amount: '200' }),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
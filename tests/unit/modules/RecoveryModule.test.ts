@@ -0,0 +1,370 @@
+/**
+ * Tests for RecoveryModule and RecoverySession
+ *
+ * Covers depositing shares with guardians, guardian approval and refusal,
+ * request expiry, revocation and recovery on a new device over an
+ * in-memory transport network.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RecoveryModule, RecoverySession } from '../../../modules/recovery';
+import { combineMnemonicShares, parseMnemonicShare, splitMnemonic } from '../../../core/shamir';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { TokenType } from '@unicitylabs/state-transition-sdk/lib/token/TokenType';
+import { UnmaskedPredicateReference } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicateReference';
+import { NIP44 } from '@unicitylabs/nostr-js-sdk';
+import { getPublicKey } from '../../../core/crypto';
+import { SphereError } from '../../../core/errors';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import type { StorageProvider } from '../../../storage';
+import type { RecoveryMessageHandler, RecoveryPayload, TransportProvider } from '../../../transport';
+import type { FullIdentity } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+/** Transports that deliver recovery messages to each other by x-only pubkey */
+function createNetwork() {
+  const handlers = new Map<string, Set<RecoveryMessageHandler>>();
+  const directory = new Map<string, string>();
+  let nextId = 0;
+
+  function createTransport(privateKey?: string): TransportProvider {
+    let pubkey = privateKey ? getPublicKey(privateKey).slice(2) : '';
+    const own = new Set<RecoveryMessageHandler>();
+    return {
+      id: 'memory-transport',
+      name: 'Memory Transport',
+      type: 'p2p' as const,
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
+      isConnected: vi.fn().mockReturnValue(true),
+      getStatus: vi.fn().mockReturnValue('connected'),
+      setIdentity: vi.fn((identity: FullIdentity) => {
+        handlers.get(pubkey)?.clear();
+        pubkey = getPublicKey(identity.privateKey).slice(2);
+        handlers.set(pubkey, own);
+      }),
+      sendMessage: vi.fn(),
+      onMessage: vi.fn(),
+      sendTokenTransfer: vi.fn(),
+      onTokenTransfer: vi.fn(),
+      resolveNametag: vi.fn(async (nametag: string) => directory.get(nametag) ?? null),
+      sendRecoveryMessage: vi.fn(async (recipient: string, payload: RecoveryPayload) => {
+        const id = `msg-${nextId++}`;
+        const sender = pubkey;
+        setTimeout(() => {
+          for (const handler of handlers.get(recipient) ?? []) {
+            handler({ id, senderTransportPubkey: sender, payload, timestamp: Date.now() });
+          }
+        }, 0);
+        return id;
+      }),
+      onRecoveryMessage: vi.fn((handler: RecoveryMessageHandler) => {
+        own.add(handler);
+        if (pubkey) handlers.set(pubkey, own);
+        return () => own.delete(handler);
+      }),
+    } as unknown as TransportProvider;
+  }
+
+  return { createTransport, directory };
+}
+
+function createMemoryStorage(): StorageProvider {
+  const data = new Map<string, string>();
+  return {
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+    remove: vi.fn(async (key: string) => {
+      data.delete(key);
+    }),
+  } as unknown as StorageProvider;
+}
+
+type Network = ReturnType<typeof createNetwork>;
+
+async function directAddressOf(chainPubkey: string): Promise<string> {
+  const tokenType = new TokenType(Buffer.from('f8aa13834268d29355ff12183066f0cb902003629bbc5eb9ef0efbe397867509', 'hex'));
+  const ref = await UnmaskedPredicateReference.create(tokenType, 'secp256k1', Buffer.from(chainPubkey, 'hex'), HashAlgorithm.SHA256);
+  return (await ref.toAddress()).toString();
+}
+
+async function createWallet(
+  network: Network,
+  nametag: string,
+  seed: string,
+  options: { mnemonic?: string | null; watchOnly?: boolean; storage?: StorageProvider } = {},
+) {
+  const privateKey = seed.repeat(32);
+  const identity = {
+    privateKey,
+    chainPubkey: getPublicKey(privateKey),
+    l1Address: `alpha1${nametag}`,
+    directAddress: await directAddressOf(getPublicKey(privateKey)),
+    nametag,
+  } as FullIdentity;
+  network.directory.set(nametag, getPublicKey(privateKey).slice(2));
+
+  const storage = options.storage ?? createMemoryStorage();
+  const emitEvent = vi.fn();
+  const recovery = new RecoveryModule();
+  recovery.initialize({
+    identity,
+    storage,
+    transport: network.createTransport(privateKey),
+    emitEvent,
+    getMnemonic: () => (options.mnemonic === undefined ? MNEMONIC : options.mnemonic),
+    watchOnly: options.watchOnly,
+  });
+  await recovery.load();
+  return { recovery, emitEvent, storage, identity };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+function eventsOf(emitEvent: ReturnType<typeof vi.fn>, type: string): unknown[] {
+  return emitEvent.mock.calls.filter(([t]) => t === type).map(([, data]) => data);
+}
+
+async function setupAlice(network: Network) {
+  const alice = await createWallet(network, 'alice', 'a1');
+  const guardians = await Promise.all([
+    createWallet(network, 'bob', 'b2'),
+    createWallet(network, 'carol', 'c3'),
+    createWallet(network, 'dave', 'd4'),
+  ]);
+  await alice.recovery.setupGuardians({ guardians: ['@bob', 'carol', 'dave'], threshold: 2 });
+  await flush();
+  return { alice, guardians };
+}
+
+async function expectRejection(promise: Promise<unknown>, code: string): Promise<void> {
+  const err = await promise.then(() => null, (e: unknown) => e);
+  expect(err).toBeInstanceOf(SphereError);
+  expect((err as SphereError).code).toBe(code);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// =============================================================================
+// Owner / Guardian Tests
+// =============================================================================
+
+describe('RecoveryModule', () => {
+  it('deposits one share with each guardian and records their confirmation', async () => {
+    const network = createNetwork();
+    const { alice, guardians } = await setupAlice(network);
+
+    const setup = alice.recovery.getGuardians()!;
+    expect(setup.threshold).toBe(2);
+    expect(setup.guardians.map((g) => g.nametag)).toEqual(['bob', 'carol', 'dave']);
+    expect(setup.guardians.every((g) => g.confirmedAt)).toBe(true);
+    expect(eventsOf(alice.emitEvent, 'recovery:guardian_confirmed')).toHaveLength(3);
+
+    for (const guardian of guardians) {
+      const [held] = guardian.recovery.getHeldShares();
+      expect(held).toMatchObject({ groupId: setup.groupId, threshold: 2, count: 3, owner: { nametag: 'alice' } });
+      expect(held.share).toBeUndefined();
+      expect(eventsOf(guardian.emitEvent, 'recovery:share_stored')).toHaveLength(1);
+    }
+    const bob = guardians[0];
+    const stored = JSON.parse((await bob.storage.get(STORAGE_KEYS_ADDRESS.RECOVERY_HELD_SHARES))!);
+    expect(stored[0].share).toBeUndefined();
+    const opened = JSON.parse(NIP44.decryptHex(stored[0].ciphertext, bob.identity.privateKey, stored[0].ephemeralPubkey));
+    expect(opened.share.split(' ')).toHaveLength(17);
+  });
+
+  it('binds a held share to the depositor and ignores forged owners', async () => {
+    const network = createNetwork();
+    const { alice, guardians } = await setupAlice(network);
+    const bob = guardians[0];
+    const mallory = await createWallet(network, 'mallory', 'e7');
+    const [real] = bob.recovery.getHeldShares();
+    expect(real.owner.directAddress).toBe(alice.identity.directAddress);
+
+    // Mallory deposits a share claiming to be Alice, then claiming Alice's nametag only
+    const transport = network.createTransport(mallory.identity.privateKey);
+    const share = splitMnemonic(MNEMONIC, { threshold: 1, shares: 1 })[0];
+    const groupId = parseMnemonicShare(share).groupId;
+    const deposit = (owner: { nametag?: string; chainPubkey: string; directAddress?: string }) =>
+      transport.sendRecoveryMessage!(bob.identity.chainPubkey.slice(2), {
+        type: 'RECOVERY_SHARE_DEPOSIT', version: '1.0', groupId, share, owner,
+      } as RecoveryPayload);
+    await deposit({ nametag: 'alice', chainPubkey: alice.identity.chainPubkey });
+    await deposit({ nametag: 'alice', chainPubkey: mallory.identity.chainPubkey });
+    await deposit({ chainPubkey: mallory.identity.chainPubkey, directAddress: alice.identity.directAddress });
+    await flush();
+
+    expect(bob.recovery.getHeldShares()).toEqual([real]);
+    expect(eventsOf(bob.emitEvent, 'recovery:share_stored')).toHaveLength(1);
+  });
+
+  it('revokes the shares of replaced guardians', async () => {
+    const network = createNetwork();
+    const { alice, guardians } = await setupAlice(network);
+    const [bob, carol] = guardians;
+    const oldGroup = alice.recovery.getGuardians()!.groupId;
+
+    await alice.recovery.setupGuardians({ guardians: ['bob', 'carol'], threshold: 2 });
+    await flush();
+
+    expect(bob.recovery.getHeldShares()[0].groupId).not.toBe(oldGroup);
+    expect(guardians[2].recovery.getHeldShares()).toEqual([]);
+    expect(eventsOf(guardians[2].emitEvent, 'recovery:share_revoked')).toHaveLength(1);
+
+    await alice.recovery.removeGuardians();
+    await flush();
+    expect(alice.recovery.getGuardians()).toBeNull();
+    expect(bob.recovery.getHeldShares()).toEqual([]);
+    expect(carol.recovery.getHeldShares()).toEqual([]);
+  });
+
+  it('rejects invalid guardian setups', async () => {
+    const network = createNetwork();
+    const alice = await createWallet(network, 'alice', 'a1');
+    await createWallet(network, 'bob', 'b2');
+
+    await expectRejection(alice.recovery.setupGuardians({ guardians: ['bob', 'nobody'], threshold: 2 }), 'VALIDATION_ERROR');
+    await expectRejection(alice.recovery.setupGuardians({ guardians: ['bob', '@bob'], threshold: 1 }), 'VALIDATION_ERROR');
+    await expectRejection(alice.recovery.setupGuardians({ guardians: ['alice'], threshold: 1 }), 'VALIDATION_ERROR');
+    await expectRejection(alice.recovery.setupGuardians({ guardians: ['bob'], threshold: 2 }), 'VALIDATION_ERROR');
+
+    const keyOnly = await createWallet(network, 'erin', 'e5', { mnemonic: null });
+    await expectRejection(keyOnly.recovery.setupGuardians({ guardians: ['bob'], threshold: 1 }), 'VALIDATION_ERROR');
+    const watcher = await createWallet(network, 'frank', 'f6', { watchOnly: true });
+    await expectRejection(watcher.recovery.setupGuardians({ guardians: ['bob'], threshold: 1 }), 'WATCH_ONLY');
+  });
+
+  it('keeps held shares and requests across reloads', async () => {
+    const network = createNetwork();
+    const { guardians } = await setupAlice(network);
+    const bob = guardians[0];
+
+    const session = new RecoverySession({ transport: network.createTransport(), owner: '@alice', guardians: ['bob'] });
+    session.start().catch(() => {});
+    await flush();
+
+    const reloaded = await createWallet(network, 'bob', 'b2', { storage: bob.storage });
+    expect(reloaded.recovery.getHeldShares()).toEqual(bob.recovery.getHeldShares());
+    expect(reloaded.recovery.getRecoveryRequests({ status: 'pending' })).toHaveLength(1);
+    session.cancel();
+    reloaded.recovery.destroy();
+    bob.recovery.destroy();
+  });
+});
+
+// =============================================================================
+// Recovery Session Tests
+// =============================================================================
+
+describe('RecoverySession', () => {
+  it('recovers the mnemonic once enough guardians approve', async () => {
+    const network = createNetwork();
+    const { guardians } = await setupAlice(network);
+    const [bob, carol, dave] = guardians;
+
+    const session = new RecoverySession({
+      transport: network.createTransport(),
+      owner: '@alice',
+      guardians: ['bob', 'carol', 'dave'],
+      message: 'New phone, call me',
+    });
+    const received = vi.fn();
+    session.on('recovery:share_received', received);
+    const result = session.start();
+    await flush();
+
+    const [request] = bob.recovery.getRecoveryRequests();
+    expect(request).toMatchObject({ owner: 'alice', hasShare: true, status: 'pending', message: 'New phone, call me' });
+    expect(eventsOf(dave.emitEvent, 'recovery:request_received')).toHaveLength(1);
+
+    await bob.recovery.approveRecoveryRequest(request.requestId);
+    await carol.recovery.approveRecoveryRequest(carol.recovery.getRecoveryRequests()[0].requestId);
+
+    const shares = await result;
+    expect(combineMnemonicShares(shares)).toBe(MNEMONIC);
+    expect(received.mock.calls.map(([e]) => e.received)).toEqual([1, 2]);
+    expect(received.mock.calls[1][0]).toMatchObject({ threshold: 2 });
+    expect(bob.recovery.getRecoveryRequests()[0].status).toBe('approved');
+    await expectRejection(bob.recovery.approveRecoveryRequest(request.requestId), 'VALIDATION_ERROR');
+    guardians.forEach((g) => g.recovery.destroy());
+  });
+
+  it('fails once declines make the threshold unreachable', async () => {
+    const network = createNetwork();
+    const { guardians } = await setupAlice(network);
+    const [bob, carol] = guardians;
+
+    const session = new RecoverySession({ transport: network.createTransport(), owner: 'alice', guardians: ['bob', 'carol'] });
+    const declined = vi.fn();
+    session.on('recovery:declined', declined);
+    const result = session.start();
+    await flush();
+
+    await bob.recovery.declineRecoveryRequest(bob.recovery.getRecoveryRequests()[0].requestId, 'not you');
+    await flush();
+    expect(declined).toHaveBeenCalledWith(expect.objectContaining({ guardian: 'bob', reason: 'not you' }));
+
+    await carol.recovery.declineRecoveryRequest(carol.recovery.getRecoveryRequests()[0].requestId);
+    await expectRejection(result, 'VALIDATION_ERROR');
+    guardians.forEach((g) => g.recovery.destroy());
+  });
+
+  it('ignores responses from anyone but the guardians', async () => {
+    const network = createNetwork();
+    const { guardians } = await setupAlice(network);
+    const mallory = network.createTransport('99'.repeat(32));
+
+    const session = new RecoverySession({ transport: network.createTransport(), owner: 'alice', guardians: ['bob'] });
+    const declined = vi.fn();
+    session.on('recovery:declined', declined);
+    const result = session.start();
+    await flush();
+
+    const [request] = guardians[0].recovery.getRecoveryRequests();
+    await mallory.sendRecoveryMessage!(request.requesterTransportPubkey, {
+      type: 'RECOVERY_RESPONSE', version: '1.0', requestId: session.requestId, approved: false,
+    });
+    await flush();
+    expect(declined).not.toHaveBeenCalled();
+
+    await guardians[0].recovery.approveRecoveryRequest(request.requestId);
+    await expectRejection(result, 'VALIDATION_ERROR');
+    guardians.forEach((g) => g.recovery.destroy());
+  });
+
+  it('times out and expires the guardians\' requests', async () => {
+    const network = createNetwork();
+    const { guardians } = await setupAlice(network);
+    const bob = guardians[0];
+
+    vi.useFakeTimers();
+    const session = new RecoverySession({ transport: network.createTransport(), owner: 'alice', guardians: ['bob', 'carol'], timeoutMs: 60_000 });
+    const timedOut = vi.fn();
+    session.on('recovery:timeout', timedOut);
+    const result = session.start();
+    const rejection = expectRejection(result, 'TIMEOUT');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(bob.recovery.getRecoveryRequests({ status: 'pending' })).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await rejection;
+    expect(timedOut).toHaveBeenCalledWith(expect.objectContaining({ received: 0, threshold: null }));
+    expect(bob.recovery.getRecoveryRequests()[0].status).toBe('expired');
+    expect(eventsOf(bob.emitEvent, 'recovery:request_expired')).toHaveLength(1);
+    await expectRejection(bob.recovery.approveRecoveryRequest(session.requestId), 'VALIDATION_ERROR');
+    guardians.forEach((g) => g.recovery.destroy());
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Tests for ScheduledPaymentsModule
+ *
+ * Covers schedule persistence, execution of due payments on load() and on
+ * the timer, retry/skip of failed payments, recovery of payments interrupted
+ * mid-send, idempotent creation, and pause/resume/cancel.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ScheduledPaymentsModule } from '../../../modules/scheduled';
+import type { ScheduledPaymentsModuleConfig } from '../../../modules/scheduled';
+import { STORAGE_KEYS_ADDRESS } from '../../../constants';
+import type { PaymentsModule } from '../../../modules/payments/PaymentsModule';
+import type { StorageProvider } from '../../../storage';
+import type { FullIdentity, TransferRequest, TransferResult } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const JAN_31 = Date.UTC(2026, 0, 31, 9, 0, 0);
+const DAY = 86_400_000;
+
+function createMemoryStorage(): StorageProvider {
+  const data = new Map<string, string>();
+  return {
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      data.set(key, value);
+    }),
+  } as unknown as StorageProvider;
+}
+
+function createPayments() {
+  let counter = 0;
+  return {
+    send: vi.fn(async (_request: TransferRequest): Promise<TransferResult> => ({
+      id: `transfer-${++counter}`,
+      status: 'completed',
+      tokens: [],
+      tokenTransfers: [],
+    })),
+  };
+}
+
+function createModule(
+  storage: StorageProvider,
+  payments: ReturnType<typeof createPayments>,
+  config?: ScheduledPaymentsModuleConfig,
+) {
+  const emitEvent = vi.fn();
+  const mod = new ScheduledPaymentsModule({ autoRun: false, ...config });
+  mod.initialize({
+    identity: { chainPubkey: '02' + 'a'.repeat(64) } as FullIdentity,
+    storage,
+    payments: payments as unknown as PaymentsModule,
+    emitEvent,
+  });
+  return { mod, emitEvent };
+}
+
+const monthlyRent = {
+  recipient: '@alice',
+  amount: '1000',
+  coinId: 'UCT',
+  interval: { unit: 'month' as const },
+  label: 'Rent',
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(JAN_31);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('ScheduledPaymentsModule', () => {
+  it('executes a due payment and schedules the next one', async () => {
+    const payments = createPayments();
+    const { mod, emitEvent } = createModule(createMemoryStorage(), payments);
+    await mod.load();
+    const schedule = await mod.create(monthlyRent);
+
+    const results = await mod.runDue();
+
+    expect(results).toEqual([{ scheduleId: schedule.id, success: true, transfer: expect.any(Object) }]);
+    expect(payments.send).toHaveBeenCalledWith({ recipient: '@alice', amount: '1000', coinId: 'UCT' });
+    expect(mod.get(schedule.id)).toMatchObject({ runCount: 1, lastTransferId: 'transfer-1' });
+    // Jan 31 + 1 month clamps to the end of February
+    expect(mod.get(schedule.id)!.nextRunAt).toBe(Date.UTC(2026, 1, 28, 9, 0, 0));
+    expect(emitEvent).toHaveBeenCalledWith('schedule:executed', expect.objectContaining({ schedule: expect.any(Object) }));
+
+    // Nothing is due until then
+    expect(await mod.runDue()).toEqual([]);
+    expect(payments.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('persists schedules and runs due payments on load()', async () => {
+    const storage = createMemoryStorage();
+    const first = createModule(storage, createPayments());
+    await first.mod.load();
+    const schedule = await first.mod.create({ ...monthlyRent, startAt: JAN_31 + DAY });
+    expect(storage.set).toHaveBeenCalledWith(STORAGE_KEYS_ADDRESS.SCHEDULED_PAYMENTS, expect.any(String));
+    first.mod.destroy();
+
+    vi.setSystemTime(JAN_31 + 2 * DAY);
+    const payments = createPayments();
+    const { mod } = createModule(storage, payments, { autoRun: true });
+    await mod.load();
+    await mod.runDue();
+
+    expect(payments.send).toHaveBeenCalledTimes(1);
+    expect(mod.get(schedule.id)!.runCount).toBe(1);
+    mod.destroy();
+  });
+
+  it('runs due payments on the timer', async () => {
+    const payments = createPayments();
+    const { mod } = createModule(createMemoryStorage(), payments, { autoRun: true, checkIntervalMs: 1000 });
+    await mod.load();
+    await mod.create({ ...monthlyRent, interval: { unit: 'minute' }, startAt: JAN_31 + 500 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(payments.send).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(payments.send).toHaveBeenCalledTimes(2);
+
+    mod.destroy();
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(payments.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a failed payment, then skips the period', async () => {
+    const payments = createPayments();
+    payments.send.mockRejectedValue(new Error('Insufficient balance'));
+    const { mod, emitEvent } = createModule(createMemoryStorage(), payments, { maxRetries: 1, retryDelayMs: 1000 });
+    await mod.load();
+    const schedule = await mod.create(monthlyRent);
+
+    await mod.runDue();
+    expect(mod.get(schedule.id)).toMatchObject({ failureCount: 1, nextRunAt: JAN_31 + 1000, lastError: 'Insufficient balance' });
+    expect(emitEvent).toHaveBeenLastCalledWith('schedule:failed', expect.objectContaining({ willRetry: true }));
+
+    vi.setSystemTime(JAN_31 + 1000);
+    await mod.runDue();
+    expect(emitEvent).toHaveBeenLastCalledWith('schedule:failed', expect.objectContaining({ willRetry: false }));
+    expect(mod.get(schedule.id)).toMatchObject({ status: 'active', runCount: 0, failureCount: 0 });
+    expect(mod.get(schedule.id)!.nextRunAt).toBe(Date.UTC(2026, 1, 28, 9, 0, 0));
+  });
+
+  it('skips a payment interrupted mid-send on the next load()', async () => {
+    const storage = createMemoryStorage();
+    const crashed = createPayments();
+    // The process dies while the transfer is in flight
+    crashed.send.mockReturnValue(new Promise(() => {}));
+    const first = createModule(storage, crashed);
+    await first.mod.load();
+    const schedule = await first.mod.create(monthlyRent);
+    void first.mod.runDue();
+    await vi.waitFor(() => expect(crashed.send).toHaveBeenCalled());
+    first.mod.destroy();
+
+    const payments = createPayments();
+    const { mod, emitEvent } = createModule(storage, payments);
+    await mod.load();
+    await mod.runDue();
+
+    expect(payments.send).not.toHaveBeenCalled();
+    expect(mod.get(schedule.id)).toMatchObject({ runCount: 1, pendingRunAt: undefined });
+    expect(mod.get(schedule.id)!.nextRunAt).toBe(Date.UTC(2026, 1, 28, 9, 0, 0));
+    expect(emitEvent).toHaveBeenCalledWith('schedule:failed', expect.objectContaining({ willRetry: false }));
+  });
+
+  it('does not pay again when saving after a send fails', async () => {
+    const storage = createMemoryStorage();
+    const payments = createPayments();
+    const { mod } = createModule(storage, payments);
+    await mod.load();
+    const schedule = await mod.create(monthlyRent);
+    // The pending marker is written, the result is not
+    const write = vi.mocked(storage.set).getMockImplementation()!;
+    vi.mocked(storage.set).mockImplementationOnce(write).mockRejectedValueOnce(new Error('disk full'));
+
+    const results = await mod.runDue();
+    expect(results[0].success).toBe(true);
+    expect(await mod.runDue()).toEqual([]);
+
+    // The stored marker keeps a reload from paying the period again
+    const reloaded = createModule(storage, payments).mod;
+    await reloaded.load();
+    await reloaded.runDue();
+    expect(payments.send).toHaveBeenCalledTimes(1);
+    expect(reloaded.get(schedule.id)!.nextRunAt).toBe(Date.UTC(2026, 1, 28, 9, 0, 0));
+  });
+
+  it('returns the existing schedule for a repeated key', async () => {
+    const { mod } = createModule(createMemoryStorage(), createPayments());
+    await mod.load();
+
+    const first = await mod.create({ ...monthlyRent, key: 'rent' });
+    await mod.cancel(first.id);
+    const again = await mod.create({ ...monthlyRent, amount: '2000', key: 'rent' });
+
+    expect(again.id).toBe(first.id);
+    expect(mod.list()).toHaveLength(1);
+  });
+
+  it('completes after maxRuns', async () => {
+    const payments = createPayments();
+    const { mod } = createModule(createMemoryStorage(), payments);
+    await mod.load();
+    const schedule = await mod.create({ ...monthlyRent, interval: { unit: 'day' }, maxRuns: 2 });
+
+    await mod.runDue();
+    vi.setSystemTime(JAN_31 + DAY);
+    await mod.runDue();
+    vi.setSystemTime(JAN_31 + 2 * DAY);
+    await mod.runDue();
+
+    expect(payments.send).toHaveBeenCalledTimes(2);
+    expect(mod.get(schedule.id)!.status).toBe('completed');
+  });
+
+  it('pauses, resumes without catching up, and cancels', async () => {
+    const payments = createPayments();
+    const { mod } = createModule(createMemoryStorage(), payments);
+    await mod.load();
+    const schedule = await mod.create({ ...monthlyRent, interval: { every: 1, unit: 'week' } });
+
+    await mod.pause(schedule.id);
+    vi.setSystemTime(JAN_31 + 10 * DAY);
+    expect(await mod.runDue()).toEqual([]);
+
+    await mod.resume(schedule.id);
+    expect(mod.get(schedule.id)!.nextRunAt).toBe(JAN_31 + 14 * DAY);
+
+    await mod.cancel(schedule.id);
+    vi.setSystemTime(JAN_31 + 14 * DAY);
+    expect(await mod.runDue()).toEqual([]);
+    expect(mod.list({ status: 'cancelled' })).toHaveLength(1);
+    await expect(mod.resume(schedule.id)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(payments.send).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid schedules and watch-only wallets', async () => {
+    const { mod } = createModule(createMemoryStorage(), createPayments());
+
+    await expect(mod.create({ ...monthlyRent, amount: '-5' })).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(
+      mod.create({ ...monthlyRent, interval: { unit: 'year' as 'month' } }),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+
+    const watcher = new ScheduledPaymentsModule();
+    watcher.initialize({
+      identity: {} as FullIdentity,
+      storage: createMemoryStorage(),
+      payments: createPayments() as unknown as PaymentsModule,
+      emitEvent: vi.fn(),
+      watchOnly: true,
+    });
+    await expect(watcher.create(monthlyRent)).rejects.toMatchObject({ code: 'WATCH_ONLY' });
+  });
+});
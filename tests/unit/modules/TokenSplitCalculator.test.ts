@@ -378,4 +378,84 @@ describe('TokenSplitCalculator', () => {
       expect(directToken.uiToken.id).toBe('t1');
     });
   });
+
+  // =============================================================================
+  // calculateBatchSplit Tests
+  // =============================================================================
+
+  describe('calculateBatchSplit()', () => {
+    let calculator: TokenSplitCalculator;
+
+    beforeEach(() => {
+      calculator = new TokenSplitCalculator();
+    });
+
+    function usedIds(plan: SplitPlan): string[] {
+      const ids = plan.tokensToTransferDirectly.map((t) => t.uiToken.id);
+      if (plan.tokenToSplit) ids.push(plan.tokenToSplit.uiToken.id);
+      return ids;
+    }
+
+    it('should return one plan per output in input order', async () => {
+      const tokens = [createMockToken('t1', 50n), createMockToken('t2', 100n), createMockToken('t3', 300n)];
+
+      const result = await calculator.calculateBatchSplit(tokens, [
+        { amount: 100n, coinId: COIN_ID },
+        { amount: 50n, coinId: COIN_ID },
+      ]);
+
+      expect(result).not.toBeNull();
+      expect(result!.plans.map(usedIds)).toEqual([['t2'], ['t1']]);
+      expect(result!.splitCount).toBe(0);
+    });
+
+    it('should never use a token for two outputs', async () => {
+      const tokens = [
+        createMockToken('t1', 100n),
+        createMockToken('t2', 100n),
+        createMockToken('t3', 200n),
+        createMockToken('t4', 500n),
+      ];
+
+      const result = await calculator.calculateBatchSplit(tokens, [
+        { amount: 150n, coinId: COIN_ID },
+        { amount: 150n, coinId: COIN_ID },
+        { amount: 100n, coinId: COIN_ID },
+      ]);
+
+      expect(result).not.toBeNull();
+      const all = result!.plans.flatMap(usedIds);
+      expect(new Set(all).size).toBe(all.length);
+      result!.plans.forEach((plan) => {
+        const sent = plan.tokensToTransferDirectly.reduce((sum, t) => sum + t.amount, 0n) + (plan.splitAmount ?? 0n);
+        expect(sent).toBe(plan.totalTransferAmount);
+      });
+    });
+
+    it('should keep exact matches for the outputs that have them', async () => {
+      const tokens = [createMockToken('t1', 100n), createMockToken('t2', 400n)];
+
+      // Planning the larger output first would otherwise take t1
+      const result = await calculator.calculateBatchSplit(tokens, [
+        { amount: 300n, coinId: COIN_ID },
+        { amount: 100n, coinId: COIN_ID },
+      ]);
+
+      expect(result).not.toBeNull();
+      expect(usedIds(result!.plans[1])).toEqual(['t1']);
+      expect(result!.plans[0].requiresSplit).toBe(true);
+      expect(result!.splitCount).toBe(1);
+    });
+
+    it('should return null when the pool cannot cover all outputs', async () => {
+      const tokens = [createMockToken('t1', 100n), createMockToken('t2', 100n)];
+
+      const result = await calculator.calculateBatchSplit(tokens, [
+        { amount: 150n, coinId: COIN_ID },
+        { amount: 100n, coinId: COIN_ID },
+      ]);
+
+      expect(result).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,131 @@
+/**
+ * Shared helpers for PaymentsModule unit tests.
+ *
+ * Typed access to the private members the tests stub or inspect, and a
+ * two-wallet fixture for tests that hand-deliver transport messages between
+ * a sender and a recipient (escrow, swaps). SDK modules are mocked by each
+ * test file; the helpers pick up those mocks.
+ */
+
+import { vi, type Mock } from 'vitest';
+import { createPaymentsModule, type PaymentsModule, type PaymentsModuleDependencies } from '../../../modules/payments/PaymentsModule';
+import type { Token, FullIdentity } from '../../../types';
+import type { TransportProvider, IncomingTokenTransfer } from '../../../transport';
+import type { OracleProvider } from '../../../oracle';
+import type { StorageProvider } from '../../../storage';
+
+// =============================================================================
+// Module internals
+// =============================================================================
+
+/** Private PaymentsModule members that unit tests replace or inspect */
+export interface PaymentsModuleInternals {
+  tokens: Map<string, Token>;
+  resolveRecipientAddress: Mock;
+  createSigningService: Mock;
+  createSdkCommitment: Mock;
+  finalizeTransferToken: Mock;
+  processCombinedTransferBundle: Mock;
+  save: Mock;
+  saveToOutbox: Mock;
+  removeFromOutbox: Mock;
+  addToHistory: Mock;
+  removeToken: Mock;
+  handleIncomingTransfer(transfer: IncomingTokenTransfer): Promise<void>;
+}
+
+/** View of a module's private members; stub them before use */
+export function internals(module: PaymentsModule): PaymentsModuleInternals {
+  return module as unknown as PaymentsModuleInternals;
+}
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+export function createMockStorage(): StorageProvider & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+    remove: vi.fn(async (key: string) => { store.delete(key); }),
+    has: vi.fn(async (key: string) => store.has(key)),
+    keys: vi.fn(async () => Array.from(store.keys())),
+  } as unknown as StorageProvider & { store: Map<string, string> };
+}
+
+// =============================================================================
+// Two-wallet fixture
+// =============================================================================
+
+export interface TestWallet {
+  module: PaymentsModule;
+  mod: PaymentsModuleInternals;
+  deps: PaymentsModuleDependencies;
+  transport: TransportProvider;
+  stClient: { submitTransferCommitment: Mock };
+}
+
+/**
+ * A wallet at `directAddress` whose transport resolves every recipient to
+ * `peer`. Signing and token persistence are stubbed; finalizing a received
+ * token returns the source token unchanged.
+ */
+export function createWallet(
+  transportPubkey: string,
+  directAddress: string,
+  peer: { pubkey: string; directAddress: string },
+): TestWallet {
+  const transport = {
+    sendTokenTransfer: vi.fn().mockResolvedValue('event-id'),
+    onTokenTransfer: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequest: vi.fn().mockReturnValue(() => {}),
+    onPaymentRequestResponse: vi.fn().mockReturnValue(() => {}),
+    resolve: vi.fn().mockResolvedValue({ transportPubkey: peer.pubkey, nametag: 'peer', directAddress: peer.directAddress }),
+  } as unknown as TransportProvider;
+  const stClient = { submitTransferCommitment: vi.fn().mockResolvedValue({ status: 'SUCCESS' }) };
+  const oracle = {
+    getStateTransitionClient: vi.fn().mockReturnValue(stClient),
+    getTrustBase: vi.fn().mockReturnValue({}),
+  } as unknown as OracleProvider;
+  const deps: PaymentsModuleDependencies = {
+    identity: {
+      chainPubkey: '02' + transportPubkey,
+      l1Address: 'alpha1' + transportPubkey,
+      directAddress,
+      privateKey: 'a'.repeat(64),
+    } as FullIdentity,
+    storage: createMockStorage(),
+    transport,
+    oracle,
+    emitEvent: vi.fn(),
+  };
+
+  const module = createPaymentsModule({ l1: null });
+  module.initialize(deps);
+
+  const mod = internals(module);
+  mod.createSigningService = vi.fn().mockResolvedValue({ algorithm: 'secp256k1', publicKey: new Uint8Array(33) });
+  mod.save = vi.fn().mockResolvedValue(undefined);
+  mod.removeToken = vi.fn(async (id: string) => { mod.tokens.delete(id); });
+  mod.finalizeTransferToken = vi.fn(async (sourceToken: unknown) => sourceToken);
+
+  return { module, mod, deps, transport, stClient };
+}
+
+/** Payload of the `index`-th message the wallet sent (negative counts from the end) */
+export function sentPayload(wallet: TestWallet, index: number): Record<string, unknown> {
+  const calls = vi.mocked(wallet.transport.sendTokenTransfer).mock.calls;
+  return calls.at(index)![1] as unknown as Record<string, unknown>;
+}
+
+/** Hand a payload to the wallet as if it arrived from `senderPubkey` */
+export async function deliver(wallet: TestWallet, senderPubkey: string, payload: unknown, timestamp = Date.now()): Promise<void> {
+  await wallet.mod.handleIncomingTransfer({
+    id: 'evt',
+    senderTransportPubkey: senderPubkey,
+    payload: payload as IncomingTokenTransfer['payload'],
+    timestamp,
+  });
+}
@@ -0,0 +1,225 @@
+/**
+ * Tests for oracle/LocalAggregatorProvider.ts
+ *
+ * Covers:
+ * 1. Inclusion proofs certified by the local trust base
+ * 2. Minting, transferring and splitting tokens offline
+ * 3. Acceptance by TokenValidator
+ * 4. Manual rounds, latency and failure injection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalAggregatorProvider } from '../../../oracle/LocalAggregatorProvider';
+import { TokenValidator } from '../../../validation/token-validator';
+import { TokenSplitExecutor } from '../../../modules/payments/TokenSplitExecutor';
+import { bytesToHex } from '../../../core/crypto';
+import { RootTrustBase } from '@unicitylabs/state-transition-sdk/lib/bft/RootTrustBase';
+import { HashAlgorithm } from '@unicitylabs/state-transition-sdk/lib/hash/HashAlgorithm';
+import { UnmaskedPredicate } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicate';
+import { UnmaskedPredicateReference } from '@unicitylabs/state-transition-sdk/lib/predicate/embedded/UnmaskedPredicateReference';
+import { SigningService } from '@unicitylabs/state-transition-sdk/lib/sign/SigningService';
+import { TokenState } from '@unicitylabs/state-transition-sdk/lib/token/TokenState';
+import { TokenType } from '@unicitylabs/state-transition-sdk/lib/token/TokenType';
+import { InclusionProof, InclusionProofVerificationStatus } from '@unicitylabs/state-transition-sdk/lib/transaction/InclusionProof';
+import { TransferCommitment } from '@unicitylabs/state-transition-sdk/lib/transaction/TransferCommitment';
+import type { Token } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const COIN_ID = 'aa'.repeat(32);
+const TOKEN_TYPE = new TokenType(
+  Buffer.from('f8aa13834268d29355ff12183066f0cb902003629bbc5eb9ef0efbe397867509', 'hex')
+);
+
+function newKey(): string {
+  return bytesToHex(SigningService.generatePrivateKey());
+}
+
+/** L3 signing service of a wallet key, as derived by PaymentsModule */
+function signerOf(privateKey: string): Promise<SigningService> {
+  return SigningService.createFromSecret(Buffer.from(privateKey, 'hex'));
+}
+
+async function addressOf(privateKey: string) {
+  const signingService = await signerOf(privateKey);
+  const reference = await UnmaskedPredicateReference.create(
+    TOKEN_TYPE,
+    signingService.algorithm,
+    signingService.publicKey,
+    HashAlgorithm.SHA256
+  );
+  return reference.toAddress();
+}
+
+function toWalletToken(sdkToken: { id: { toJSON(): string }; toJSON(): unknown }): Token {
+  return {
+    id: sdkToken.id.toJSON(),
+    coinId: COIN_ID,
+    symbol: 'TEST',
+    name: 'Test',
+    decimals: 0,
+    amount: '100',
+    status: 'confirmed',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    sdkData: JSON.stringify(sdkToken.toJSON()),
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('LocalAggregatorProvider', () => {
+  let provider: LocalAggregatorProvider;
+
+  beforeEach(async () => {
+    provider = new LocalAggregatorProvider();
+    await provider.initialize();
+  });
+
+  it('mints tokens whose proofs verify against the local trust base', async () => {
+    const token = await provider.mintToken({ coinId: COIN_ID, amount: 100n, privateKey: newKey() });
+
+    const verification = await token.verify(provider.getTrustBase());
+    expect(verification.isSuccessful).toBe(true);
+
+    // The JSON trust base is equivalent to the in-memory one
+    const trustBase = RootTrustBase.fromJSON(provider.getTrustBaseJson());
+    const proof = InclusionProof.fromJSON(token.genesis.inclusionProof.toJSON());
+    const requestId = await token.genesis.inclusionProof.authenticator!.calculateRequestId();
+    expect(await proof.verify(trustBase, requestId)).toBe(InclusionProofVerificationStatus.OK);
+    expect(await provider.getCurrentRound()).toBeGreaterThan(0);
+  });
+
+  it('produces tokens accepted by TokenValidator', async () => {
+    const token = await provider.mintToken({ coinId: COIN_ID, amount: 100n, privateKey: newKey() });
+    const validator = new TokenValidator({ trustBase: provider.getTrustBase() });
+
+    expect(await validator.validateToken(toWalletToken(token))).toEqual({ isValid: true });
+  });
+
+  it('transfers a token and marks the source state spent', async () => {
+    const senderKey = newKey();
+    const recipientKey = newKey();
+    const token = await provider.mintToken({ coinId: COIN_ID, amount: 100n, privateKey: senderKey });
+    const sourceStateHash = (await token.state.calculateHash()).toJSON();
+
+    const commitment = await TransferCommitment.create(
+      token,
+      await addressOf(recipientKey),
+      crypto.getRandomValues(new Uint8Array(32)),
+      null,
+      null,
+      await signerOf(senderKey)
+    );
+
+    const submitted = await provider.submitCommitment(commitment);
+    expect(submitted).toMatchObject({ success: true, requestId: commitment.requestId.toJSON() });
+
+    const proof = await provider.waitForProof(commitment.requestId.toJSON(), { pollInterval: 10 });
+    expect(proof.roundNumber).toBeGreaterThan(0);
+    expect(await provider.isSpent(sourceStateHash)).toBe(true);
+
+    const recipientSigner = await signerOf(recipientKey);
+    const received = await provider.getStateTransitionClient().finalizeTransaction(
+      provider.getTrustBase(),
+      token,
+      new TokenState(
+        await UnmaskedPredicate.create(token.id, token.type, recipientSigner, HashAlgorithm.SHA256, commitment.transactionData.salt),
+        null
+      ),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      commitment.toTransaction((await provider.waitForProofSdk(commitment)) as any)
+    );
+
+    expect((await received.verify(provider.getTrustBase())).isSuccessful).toBe(true);
+    expect((await provider.validateToken(received.toJSON())).valid).toBe(true);
+    expect(await provider.validateToken(token.toJSON())).toMatchObject({ valid: true, spent: true });
+
+    // Same request again: the tree already holds it
+    const again = await provider.getStateTransitionClient().submitTransferCommitment(commitment);
+    expect(again.status).toBe('REQUEST_ID_EXISTS');
+  });
+
+  it('splits a token with TokenSplitExecutor', async () => {
+    const senderKey = newKey();
+    const token = await provider.mintToken({ coinId: COIN_ID, amount: 100n, privateKey: senderKey });
+
+    const executor = new TokenSplitExecutor({
+      stateTransitionClient: provider.getStateTransitionClient(),
+      trustBase: provider.getTrustBase(),
+      signingService: await signerOf(senderKey),
+    });
+    const result = await executor.executeSplit(
+      token,
+      30n,
+      70n,
+      COIN_ID,
+      await addressOf(newKey())
+    );
+
+    expect((await result.tokenForSender.verify(provider.getTrustBase())).isSuccessful).toBe(true);
+    expect(result.recipientTransferTx.inclusionProof).toBeDefined();
+    expect(await provider.isSpent((await token.state.calculateHash()).toJSON())).toBe(true);
+  });
+
+  it('mints to an address through the OracleProvider API', async () => {
+    const address = await addressOf(newKey());
+
+    const result = await provider.mint({ coinId: COIN_ID, amount: '5', recipientAddress: address.address });
+
+    expect(result.success).toBe(true);
+    expect(await provider.getProof(result.requestId!)).not.toBeNull();
+  });
+
+  it('keeps commitments pending until the round is sealed in manual mode', async () => {
+    const manual = new LocalAggregatorProvider({ manualRounds: true });
+    await manual.initialize();
+    const recipientAddress = (await addressOf(newKey())).address;
+    const mint = manual.mint({ coinId: COIN_ID, amount: '5', recipientAddress });
+
+    // Let the submission land, then check it is not yet provable
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await manual.getCurrentRound()).toBe(1);
+
+    expect(await manual.sealRound()).toBe(2n);
+    const result = await mint;
+    expect(result.success).toBe(true);
+    expect((await manual.getProof(result.requestId!))?.roundNumber).toBe(2);
+  });
+
+  it('fails injected requests with AGGREGATOR_ERROR', async () => {
+    const recipientAddress = (await addressOf(newKey())).address;
+    provider.injectFailure('submit');
+
+    const failed = await provider.mint({ coinId: COIN_ID, amount: '5', recipientAddress });
+    expect(failed).toMatchObject({ success: false });
+    expect(failed.error).toContain('simulated submit failure');
+
+    const retried = await provider.mint({ coinId: COIN_ID, amount: '5', recipientAddress });
+    expect(retried.success).toBe(true);
+  });
+
+  it('fails requests at the configured rate and delays them by the configured latency', async () => {
+    const flaky = new LocalAggregatorProvider({ failureRate: 0.5, random: () => 0.25, latencyMs: 30 });
+    await flaky.initialize();
+
+    const start = Date.now();
+    await expect(flaky.mintToken({ coinId: COIN_ID, amount: 1n, privateKey: newKey() })).rejects.toMatchObject({
+      code: 'AGGREGATOR_ERROR',
+    });
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+
+    flaky.setFailureRate(0);
+    flaky.setLatency(0);
+    await expect(flaky.mintToken({ coinId: COIN_ID, amount: 1n, privateKey: newKey() })).resolves.toBeDefined();
+  });
+
+  it('requires initialization', async () => {
+    const fresh = new LocalAggregatorProvider();
+    await expect(fresh.getTokenState('00')).rejects.toMatchObject({ code: 'NOT_INITIALIZED' });
+  });
+});
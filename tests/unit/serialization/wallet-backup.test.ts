@@ -0,0 +1,96 @@
+/**
+ * Tests for serialization/wallet-backup.ts
+ * Covers encryption, integrity checks and format validation of full wallet backups
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encryptWalletBackup,
+  decryptWalletBackup,
+  isWalletBackup,
+  WALLET_BACKUP_FORMAT,
+} from '../../../serialization/wallet-backup';
+import type { WalletBackup, EncryptedWalletBackup } from '../../../serialization/wallet-backup';
+import { SphereError } from '../../../core/errors';
+
+const ITERATIONS = 1000;
+
+function createBackup(): WalletBackup {
+  return {
+    version: 1,
+    createdAt: 1700000000000,
+    storage: {
+      mnemonic: 'abandon abandon abandon',
+      DIRECT_aaaaaa_bbbbbb_messages: '[{"text":"hello"}]',
+    },
+    addresses: [{
+      index: 0,
+      addressId: 'DIRECT_aaaaaa_bbbbbb',
+      directAddress: 'DIRECT://aaaaaa0000bbbbbb',
+      tokenStorage: [{
+        providerId: 'file-token-storage',
+        providerType: 'local',
+        data: {
+          _meta: { version: 1, address: 'alpha1test', formatVersion: '2.0', updatedAt: 1 },
+        },
+        history: [{
+          id: 'h1', dedupKey: 'RECEIVED_t1', type: 'RECEIVED', amount: '100',
+          coinId: 'UCT', symbol: 'UCT', timestamp: 1,
+        }],
+      }],
+    }],
+  };
+}
+
+function expectCode(fn: () => unknown, code: string): void {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(SphereError);
+    expect((err as SphereError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected SphereError ${code}`);
+}
+
+describe('encryptWalletBackup / decryptWalletBackup', () => {
+  it('round-trips a backup', () => {
+    const backup = createBackup();
+    const blob = encryptWalletBackup(backup, 'secret', ITERATIONS);
+
+    expect(isWalletBackup(blob)).toBe(true);
+    expect(blob).not.toContain('abandon');
+    expect(blob).not.toContain('hello');
+    // Nothing derived from the plaintext is stored outside the encrypted payload
+    expect(JSON.parse(blob)).not.toHaveProperty('checksum');
+    expect(decryptWalletBackup(blob, 'secret')).toEqual(backup);
+  });
+
+  it('rejects a wrong password', () => {
+    const blob = encryptWalletBackup(createBackup(), 'secret', ITERATIONS);
+    expectCode(() => decryptWalletBackup(blob, 'wrong'), 'DECRYPTION_ERROR');
+  });
+
+  it('detects tampering', () => {
+    const envelope = JSON.parse(encryptWalletBackup(createBackup(), 'secret', ITERATIONS)) as EncryptedWalletBackup;
+
+    const parts = envelope.payload.split(':');
+    parts[3] = parts[3].startsWith('A') ? 'B' + parts[3].slice(1) : 'A' + parts[3].slice(1);
+    const badPayload = { ...envelope, payload: parts.join(':') };
+    expectCode(() => decryptWalletBackup(JSON.stringify(badPayload), 'secret'), 'DECRYPTION_ERROR');
+  });
+
+  it('rejects blobs that are not supported backups', () => {
+    const envelope = JSON.parse(encryptWalletBackup(createBackup(), 'secret', ITERATIONS)) as EncryptedWalletBackup;
+
+    expect(isWalletBackup('not json')).toBe(false);
+    expect(isWalletBackup('{"version":"1.0","type":"sphere-wallet"}')).toBe(false);
+    expectCode(() => decryptWalletBackup('not json', 'secret'), 'VALIDATION_ERROR');
+    expectCode(() => decryptWalletBackup(JSON.stringify({ ...envelope, version: 2 }), 'secret'), 'VALIDATION_ERROR');
+    expect(envelope.format).toBe(WALLET_BACKUP_FORMAT);
+  });
+
+  it('requires a password', () => {
+    expectCode(() => encryptWalletBackup(createBackup(), ''), 'VALIDATION_ERROR');
+  });
+});
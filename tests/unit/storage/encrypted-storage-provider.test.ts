@@ -0,0 +1,332 @@
+/**
+ * Tests for at-rest storage encryption.
+ *
+ * Covers:
+ * - StorageKeyring: create/unlock round-trip, wrong secret, values bound to
+ *   their storage name, legacy values, rotation, re-wrapping
+ * - EncryptedStorageProvider over FileStorageProvider: per-address values
+ *   encrypted on disk, global keys plaintext, migration of plaintext data
+ * - EncryptedTokenStorageProvider over FileTokenStorageProvider: token files
+ *   and history encrypted, migration on initialize(), per-address instances
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import {
+  EncryptedStorageProvider,
+  EncryptedTokenStorageProvider,
+  StorageKeyring,
+} from '../../../storage';
+import type { HistoryRecord, TxfStorageDataBase } from '../../../storage';
+import { STORAGE_KEYS_ADDRESS, STORAGE_KEYS_GLOBAL } from '../../../constants';
+import type { FullIdentity } from '../../../types';
+import { bytesToHex, hexToBytes } from '../../../core/crypto';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const MASTER_KEY = '1f'.repeat(32);
+
+let tmpDir: string;
+
+function createIdentity(directAddress = 'DIRECT://0000aaaa1111bbbb'): FullIdentity {
+  return {
+    privateKey: '0'.repeat(64),
+    chainPubkey: '02' + 'a'.repeat(64),
+    l1Address: 'alpha1testaddr',
+    directAddress,
+  };
+}
+
+function txfToken(tokenId: string) {
+  return {
+    version: '2.0',
+    genesis: { data: { tokenId, tokenType: '00', coinData: [['UCT', '100']], tokenData: '' }, inclusionProof: null },
+    state: { data: '', predicate: '' },
+    transactions: [],
+  };
+}
+
+function txfData(tokens: Record<string, unknown>): TxfStorageDataBase {
+  return {
+    _meta: { version: 1, address: 'alpha1testaddr', formatVersion: '2.0', updatedAt: 1 },
+    _tombstones: [{ tokenId: 'gone', stateHash: 'h', timestamp: 1 }],
+    ...tokens,
+  } as TxfStorageDataBase;
+}
+
+/** A value in the `enc1:` format, whose MAC does not cover the storage name */
+function legacyValue(keyring: StorageKeyring, plaintext: string): string {
+  const [, keyId, iv, ciphertext] = keyring.encrypt(plaintext, '').split(':');
+  const dataKey = (StorageKeyring.unlock(keyring.toHeader(), { masterKey: MASTER_KEY }) as unknown as { dataKeys: Map<string, string> })
+    .dataKeys.get(keyId)!;
+  const macKey = hkdf(sha256, hexToBytes(dataKey), undefined, new TextEncoder().encode('sphere-storage-mac'), 32);
+  const mac = bytesToHex(hmac(sha256, macKey, new TextEncoder().encode(`${keyId}:${iv}:${ciphertext}`)));
+  return `enc1:${keyId}:${iv}:${ciphertext}:${mac}`;
+}
+
+function readRaw(...parts: string[]): string {
+  return fs.readFileSync(path.join(tmpDir, ...parts), 'utf-8');
+}
+
+function addressDir(): string {
+  return fs.readdirSync(path.join(tmpDir, 'tokens')).find((f) => f.startsWith('DIRECT_'))!;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sphere-encrypted-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// StorageKeyring
+// =============================================================================
+
+describe('StorageKeyring', () => {
+  it('unlocks its own header and decrypts values', () => {
+    const keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+    const value = keyring.encrypt('secret', 'messages');
+
+    expect(StorageKeyring.isEncrypted(value)).toBe(true);
+    expect(value).not.toContain('secret');
+
+    const unlocked = StorageKeyring.unlock(keyring.toHeader(), { masterKey: MASTER_KEY });
+    expect(unlocked.decrypt(value, 'messages')).toBe('secret');
+  });
+
+  it('rejects a wrong secret and tampered values', () => {
+    const keyring = StorageKeyring.create({ password: 'correct', iterations: 1000 });
+    expect(() => StorageKeyring.unlock(keyring.toHeader(), { password: 'wrong', iterations: 1000 }))
+      .toThrow('wrong storage key');
+    expect(() => StorageKeyring.unlock(keyring.toHeader(), { masterKey: MASTER_KEY }))
+      .toThrow('encrypted with a password');
+
+    const value = keyring.encrypt('secret', 'messages');
+    const tampered = value.slice(0, -2) + (value.endsWith('00') ? '11' : '00');
+    expect(() => keyring.decrypt(tampered, 'messages')).toThrow('wrong storage key');
+  });
+
+  it('rejects a value moved to another storage name', () => {
+    const keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+    const value = keyring.encrypt('secret', 'DIRECT_aaaaaa_bbbbbb_messages');
+
+    expect(() => keyring.decrypt(value, 'DIRECT_cccccc_dddddd_messages')).toThrow('altered or moved');
+  });
+
+  it('reads legacy values without a bound name and never treats them as current', () => {
+    const keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+    const legacy = legacyValue(keyring, 'old secret');
+
+    expect(StorageKeyring.isEncrypted(legacy)).toBe(true);
+    expect(keyring.isCurrent(legacy)).toBe(false);
+    expect(keyring.decrypt(legacy, 'anything')).toBe('old secret');
+  });
+
+  it('keeps old keys readable after rotate() until retireKeys()', () => {
+    const keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+    const old = keyring.encrypt('old', 'messages');
+    const oldKeyId = keyring.currentKeyId;
+
+    keyring.rotate();
+    expect(keyring.currentKeyId).not.toBe(oldKeyId);
+    expect(keyring.isCurrent(old)).toBe(false);
+    expect(keyring.decrypt(old, 'messages')).toBe('old');
+
+    keyring.retireKeys();
+    expect(keyring.keyIds).toEqual([keyring.currentKeyId]);
+    expect(() => keyring.decrypt(old, 'messages')).toThrow('Unknown storage key');
+  });
+
+  it('re-wraps data keys with changeKeySource()', () => {
+    const keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+    const value = keyring.encrypt('secret', 'messages');
+
+    keyring.changeKeySource({ password: 'new password', iterations: 1000 });
+    const unlocked = StorageKeyring.unlock(keyring.toHeader(), { password: 'new password', iterations: 1000 });
+    expect(unlocked.decrypt(value, 'messages')).toBe('secret');
+  });
+});
+
+// =============================================================================
+// EncryptedStorageProvider
+// =============================================================================
+
+describe('EncryptedStorageProvider', () => {
+  let inner: FileStorageProvider;
+  let keyring: StorageKeyring;
+  let storage: EncryptedStorageProvider;
+
+  beforeEach(async () => {
+    inner = new FileStorageProvider({ dataDir: path.join(tmpDir, 'data') });
+    await inner.connect();
+    keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+    storage = new EncryptedStorageProvider(inner, keyring);
+    storage.setIdentity(createIdentity());
+  });
+
+  afterEach(async () => {
+    await storage.disconnect();
+  });
+
+  it('encrypts per-address values and leaves global keys plaintext', async () => {
+    await storage.set(STORAGE_KEYS_ADDRESS.MESSAGES, '[{"text":"hello"}]');
+    await storage.set(STORAGE_KEYS_GLOBAL.CURRENT_ADDRESS_INDEX, '0');
+
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('[{"text":"hello"}]');
+    expect(await inner.get(STORAGE_KEYS_GLOBAL.CURRENT_ADDRESS_INDEX)).toBe('0');
+
+    const raw = readRaw('data', 'wallet.json');
+    expect(raw).not.toContain('hello');
+    expect(StorageKeyring.isEncrypted(await inner.get(STORAGE_KEYS_ADDRESS.MESSAGES))).toBe(true);
+  });
+
+  it('reads plaintext values and encrypts them with reencrypt()', async () => {
+    await inner.set(STORAGE_KEYS_ADDRESS.CONVERSATIONS, '{"peer":"bob"}');
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.CONVERSATIONS)).toBe('{"peer":"bob"}');
+
+    expect(await storage.reencrypt()).toBe(1);
+    expect(await storage.reencrypt()).toBe(0);
+    expect(StorageKeyring.isEncrypted(await inner.get(STORAGE_KEYS_ADDRESS.CONVERSATIONS))).toBe(true);
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.CONVERSATIONS)).toBe('{"peer":"bob"}');
+  });
+
+  it('re-encrypts values of other addresses after rotation', async () => {
+    await storage.set(STORAGE_KEYS_ADDRESS.MESSAGES, 'a');
+    storage.setIdentity(createIdentity('DIRECT://9999cccc8888dddd'));
+    await storage.set(STORAGE_KEYS_ADDRESS.MESSAGES, 'b');
+
+    keyring.rotate();
+    expect(await storage.reencrypt()).toBe(2);
+    keyring.retireKeys();
+
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('b');
+    storage.setIdentity(createIdentity());
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('a');
+  });
+
+  it('refuses a value copied from another address', async () => {
+    await storage.set(STORAGE_KEYS_ADDRESS.MESSAGES, 'a');
+    const copied = await inner.get(STORAGE_KEYS_ADDRESS.MESSAGES);
+    storage.setIdentity(createIdentity('DIRECT://9999cccc8888dddd'));
+    await inner.set(STORAGE_KEYS_ADDRESS.MESSAGES, copied!);
+
+    await expect(storage.get(STORAGE_KEYS_ADDRESS.MESSAGES)).rejects.toThrow('altered or moved');
+  });
+
+  it('upgrades legacy values with reencrypt()', async () => {
+    await inner.set(STORAGE_KEYS_ADDRESS.MESSAGES, legacyValue(keyring, 'old'));
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('old');
+
+    expect(await storage.reencrypt()).toBe(1);
+    expect(keyring.isCurrent((await inner.get(STORAGE_KEYS_ADDRESS.MESSAGES))!)).toBe(true);
+    expect(await storage.get(STORAGE_KEYS_ADDRESS.MESSAGES)).toBe('old');
+  });
+});
+
+// =============================================================================
+// EncryptedTokenStorageProvider
+// =============================================================================
+
+describe('EncryptedTokenStorageProvider', () => {
+  let keyring: StorageKeyring;
+
+  function createInner(): FileTokenStorageProvider {
+    const inner = new FileTokenStorageProvider({ tokensDir: path.join(tmpDir, 'tokens') });
+    inner.setIdentity(createIdentity());
+    return inner;
+  }
+
+  beforeEach(() => {
+    keyring = StorageKeyring.create({ masterKey: MASTER_KEY });
+  });
+
+  it('stores encrypted token files and loads them back', async () => {
+    const provider = new EncryptedTokenStorageProvider(createInner(), keyring);
+    await provider.initialize();
+
+    const data = txfData({ _t1: txfToken('t1'), 'archived-t0': txfToken('t0') });
+    expect((await provider.save(data)).success).toBe(true);
+
+    expect(readRaw('tokens', addressDir(), 't1.json')).not.toContain('genesis');
+    expect(readRaw('tokens', addressDir(), '_tombstones.json')).toContain('gone');
+
+    const loaded = await provider.load();
+    expect(loaded.data!._t1).toEqual(txfToken('t1'));
+    expect(loaded.data!['archived-t0' as keyof TxfStorageDataBase]).toEqual(txfToken('t0'));
+  });
+
+  it('fails to load a token entry copied over another one', async () => {
+    const provider = new EncryptedTokenStorageProvider(createInner(), keyring);
+    provider.setIdentity(createIdentity());
+    await provider.initialize();
+    await provider.save(txfData({ _t1: txfToken('t1'), _t2: txfToken('t2') }));
+
+    const dir = path.join(tmpDir, 'tokens', addressDir());
+    fs.copyFileSync(path.join(dir, 't1.json'), path.join(dir, 't2.json'));
+
+    const loaded = await provider.load();
+    expect(loaded.success).toBe(false);
+    expect(loaded.error).toContain('altered or moved');
+  });
+
+  it('encrypts deltas passed to applyChanges()', async () => {
+    const provider = new EncryptedTokenStorageProvider(createInner(), keyring);
+    await provider.initialize();
+
+    await provider.applyChanges!({ upserted: { _t2: txfToken('t2') } });
+    expect(readRaw('tokens', addressDir(), 't2.json')).not.toContain('genesis');
+    expect((await provider.load()).data!._t2).toEqual(txfToken('t2'));
+  });
+
+  it('keeps history indexable while encrypting the payload', async () => {
+    const provider = new EncryptedTokenStorageProvider(createInner(), keyring);
+    await provider.initialize();
+
+    const entry: HistoryRecord = {
+      id: 'h1', dedupKey: 'RECEIVED_t1', type: 'RECEIVED', amount: '100',
+      coinId: 'UCT', symbol: 'UCT', timestamp: 5, senderNametag: 'alice',
+    };
+    await provider.addHistoryEntry!(entry);
+
+    expect(readRaw('tokens', addressDir(), '_history.json')).not.toContain('alice');
+    expect(await provider.hasHistoryEntry!('RECEIVED_t1')).toBe(true);
+    expect(await provider.getHistoryEntries!()).toEqual([entry]);
+  });
+
+  it('migrates plaintext data on initialize()', async () => {
+    const inner = createInner();
+    await inner.initialize();
+    await inner.save(txfData({ _t1: txfToken('t1') }));
+    await inner.addHistoryEntry({
+      id: 'h1', dedupKey: 'k', type: 'SENT', amount: '1', coinId: 'UCT', symbol: 'UCT', timestamp: 1,
+    });
+
+    const provider = new EncryptedTokenStorageProvider(createInner(), keyring);
+    await provider.initialize();
+
+    expect(readRaw('tokens', addressDir(), 't1.json')).not.toContain('genesis');
+    expect(await provider.reencrypt()).toBe(0);
+    expect((await provider.load()).data!._t1).toEqual(txfToken('t1'));
+    expect((await provider.getHistoryEntries!())[0].amount).toBe('1');
+  });
+
+  it('wraps per-address instances and mirrors optional methods', async () => {
+    const provider = new EncryptedTokenStorageProvider(createInner(), keyring);
+    const other = provider.createForAddress!();
+
+    expect(other).toBeInstanceOf(EncryptedTokenStorageProvider);
+    expect(provider.clear).toBeDefined();
+    expect(provider.onEvent).toBeUndefined();
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Tests for storage schema migrations.
+ *
+ * Covers:
+ * - Ordered, per-namespace runs with the version stored after each migration
+ * - Idempotent re-runs, markCurrent() for new wallets
+ * - Dry run: report without touching storage or token data
+ * - Failure: snapshot restored, STORAGE_ERROR thrown
+ * - rollback() through `down` steps
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { FileStorageProvider } from '../../../impl/nodejs/storage/FileStorageProvider';
+import { FileTokenStorageProvider } from '../../../impl/nodejs/storage/FileTokenStorageProvider';
+import { StorageMigrator } from '../../../storage';
+import type { StorageMigration, TxfStorageDataBase } from '../../../storage';
+import { STORAGE_KEYS_GLOBAL } from '../../../constants';
+import { SphereError } from '../../../core/errors';
+import type { FullIdentity } from '../../../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+let tmpDir: string;
+let storage: FileStorageProvider;
+let tokenStorage: FileTokenStorageProvider;
+
+const identity: FullIdentity = {
+  privateKey: '0'.repeat(64),
+  chainPubkey: '02' + 'a'.repeat(64),
+  l1Address: 'alpha1testaddr',
+  directAddress: 'DIRECT://0000aaaa1111bbbb',
+};
+
+/** Renames key `from` to `to` */
+function renameKey(version: number, from: string, to: string, namespace?: string): StorageMigration {
+  return {
+    namespace,
+    version,
+    name: `rename ${from} to ${to}`,
+    async up({ storage }) {
+      const value = await storage.get(from);
+      if (value === null) return;
+      await storage.set(to, value);
+      await storage.remove(from);
+    },
+    async down({ storage }) {
+      const value = await storage.get(to);
+      if (value === null) return;
+      await storage.set(from, value);
+      await storage.remove(to);
+    },
+  };
+}
+
+function txfData(tokens: Record<string, unknown> = {}): TxfStorageDataBase {
+  return {
+    _meta: { version: 1, address: 'alpha1testaddr', formatVersion: '2.0', updatedAt: 1 },
+    ...tokens,
+  } as TxfStorageDataBase;
+}
+
+async function storedVersions(): Promise<Record<string, number>> {
+  return JSON.parse((await storage.get(STORAGE_KEYS_GLOBAL.SCHEMA_VERSIONS)) ?? '{}');
+}
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sphere-migrator-'));
+  storage = new FileStorageProvider({ dataDir: path.join(tmpDir, 'data') });
+  storage.setIdentity(identity);
+  await storage.connect();
+  tokenStorage = new FileTokenStorageProvider({ tokensDir: path.join(tmpDir, 'tokens') });
+  tokenStorage.setIdentity(identity);
+  await tokenStorage.initialize();
+});
+
+afterEach(async () => {
+  await storage.disconnect();
+  await tokenStorage.shutdown();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// migrate()
+// =============================================================================
+
+describe('StorageMigrator.migrate', () => {
+  it('runs pending migrations in version order and stores versions per namespace', async () => {
+    await storage.set('a', 'value');
+    const order: string[] = [];
+    const track = (m: StorageMigration): StorageMigration => ({
+      ...m,
+      up: async (ctx) => { order.push(`${m.namespace ?? 'sphere'}@${m.version}`); await m.up(ctx); },
+    });
+    const migrator = new StorageMigrator(storage, tokenStorage, [
+      track(renameKey(2, 'b', 'c')),
+      track(renameKey(1, 'a', 'b')),
+      track(renameKey(1, 'x', 'y', 'ipfs')),
+    ]);
+
+    expect((await migrator.getPending()).map((m) => m.version)).toEqual([1, 2, 1]);
+    const progress = vi.fn();
+    const report = await migrator.migrate({ onProgress: progress });
+
+    expect(order).toEqual(['sphere@1', 'sphere@2', 'ipfs@1']);
+    expect(await storage.get('c')).toBe('value');
+    expect(await storage.get('a')).toBeNull();
+    expect(await storedVersions()).toEqual({ sphere: 2, ipfs: 1 });
+    expect(report.from).toEqual({ sphere: 0, ipfs: 0 });
+    expect(report.to).toEqual({ sphere: 2, ipfs: 1 });
+    expect(report.changedKeys).toEqual(expect.arrayContaining(['a', 'b', 'c']));
+    expect(progress).toHaveBeenCalledTimes(3);
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ index: 3, total: 3, direction: 'up' }));
+  });
+
+  it('only runs migrations newer than the stored version', async () => {
+    const first = vi.fn(async () => {});
+    const second = vi.fn(async () => {});
+    const migrations: StorageMigration[] = [
+      { version: 1, name: 'first', up: first },
+      { version: 2, name: 'second', up: second },
+    ];
+
+    await new StorageMigrator(storage, tokenStorage, migrations.slice(0, 1)).migrate();
+    const report = await new StorageMigrator(storage, tokenStorage, migrations).migrate();
+    const again = await new StorageMigrator(storage, tokenStorage, migrations).migrate();
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(report.applied.map((m) => m.name)).toEqual(['second']);
+    expect(again.applied).toEqual([]);
+    expect(again.snapshot).toBeNull();
+  });
+
+  it('markCurrent() skips all known migrations for a new wallet', async () => {
+    const up = vi.fn(async () => {});
+    const migrator = new StorageMigrator(storage, tokenStorage, [
+      { version: 3, name: 'core', up },
+      { namespace: 'file', version: 2, name: 'provider', up },
+    ]);
+
+    await migrator.markCurrent();
+
+    expect(await storedVersions()).toEqual({ sphere: 3, file: 2 });
+    expect(await migrator.getPending()).toEqual([]);
+    expect((await migrator.migrate()).applied).toEqual([]);
+    expect(up).not.toHaveBeenCalled();
+  });
+
+  it('migrates token data through the context', async () => {
+    await tokenStorage.save(txfData({ _legacy: { genesis: 1 } }));
+    const migrator = new StorageMigrator(storage, tokenStorage, [{
+      version: 1,
+      name: 'rename legacy token',
+      async up({ tokens }) {
+        const data = await tokens!.load() as (TxfStorageDataBase & Record<string, unknown>) | null;
+        if (!data?._legacy) return;
+        await tokens!.save({ ...txfData(), _renamed: data._legacy } as TxfStorageDataBase);
+        await tokens!.remove(['_legacy']);
+      },
+    }]);
+
+    await migrator.migrate();
+
+    const loaded = await tokenStorage.load();
+    expect(loaded.data).toHaveProperty('_renamed');
+    expect(loaded.data).not.toHaveProperty('_legacy');
+  });
+
+  it('rejects duplicate and invalid versions', () => {
+    const migrator = new StorageMigrator(storage, tokenStorage, [renameKey(1, 'a', 'b')]);
+
+    expect(() => migrator.register(renameKey(1, 'c', 'd'))).toThrow(SphereError);
+    expect(() => migrator.register(renameKey(0, 'c', 'd'))).toThrow(/Invalid version/);
+    expect(() => migrator.register(renameKey(1, 'c', 'd', 'other'))).not.toThrow();
+  });
+});
+
+// =============================================================================
+// Dry run
+// =============================================================================
+
+describe('dry run', () => {
+  it('reports changes without writing storage, token data or versions', async () => {
+    await storage.set('a', 'value');
+    await tokenStorage.save(txfData());
+    const seen: Array<string | null> = [];
+    const migrator = new StorageMigrator(storage, tokenStorage, [
+      renameKey(1, 'a', 'b'),
+      {
+        version: 2,
+        name: 'reads overlay',
+        async up({ storage: store, tokens, dryRun }) {
+          expect(dryRun).toBe(true);
+          seen.push(await store.get('b'));
+          expect(await store.keys()).not.toContain('a');
+          await tokens!.save(txfData({ _added: {} }));
+          expect(await tokens!.load()).toHaveProperty('_added');
+        },
+      },
+    ]);
+
+    const report = await migrator.migrate({ dryRun: true });
+
+    expect(seen).toEqual(['value']);
+    expect(report.dryRun).toBe(true);
+    expect(report.to).toEqual({ sphere: 2 });
+    expect(report.changedKeys.sort()).toEqual(['a', 'b']);
+    expect(report.snapshot).toBeNull();
+    expect(await storage.get('a')).toBe('value');
+    expect(await storage.get('b')).toBeNull();
+    expect((await tokenStorage.load()).data).not.toHaveProperty('_added');
+    expect(await storage.get(STORAGE_KEYS_GLOBAL.SCHEMA_VERSIONS)).toBeNull();
+    expect(await migrator.getPending()).toHaveLength(2);
+  });
+});
+
+// =============================================================================
+// Failure and rollback
+// =============================================================================
+
+describe('failure and rollback', () => {
+  it('restores the snapshot and throws STORAGE_ERROR when a migration fails', async () => {
+    await storage.set('a', 'value');
+    await tokenStorage.save(txfData({ _token: { id: 1 } }));
+    const migrator = new StorageMigrator(storage, tokenStorage, [
+      renameKey(1, 'a', 'b'),
+      {
+        version: 2,
+        name: 'broken',
+        async up({ storage: store, tokens }) {
+          await store.set('partial', 'x');
+          await tokens!.save(txfData({ _token: { id: 2 }, _extra: { id: 3 } }));
+          throw new Error('boom');
+        },
+      },
+    ]);
+
+    const error = await migrator.migrate().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SphereError);
+    expect(error.code).toBe('STORAGE_ERROR');
+    expect(error.message).toContain('sphere@2 "broken" failed: boom');
+    expect(await storage.get('a')).toBe('value');
+    expect(await storage.get('b')).toBeNull();
+    expect(await storage.get('partial')).toBeNull();
+    const tokenData = (await tokenStorage.load()).data as unknown as Record<string, unknown>;
+    expect(tokenData._token).toEqual({ id: 1 });
+    expect(tokenData).not.toHaveProperty('_extra');
+    expect(await migrator.getVersions()).toEqual({ sphere: 0 });
+  });
+
+  it('restore() undoes a successful run from its report snapshot', async () => {
+    await storage.set('a', 'value');
+    const migrator = new StorageMigrator(storage, tokenStorage, [renameKey(1, 'a', 'b')]);
+
+    const report = await migrator.migrate();
+    expect(await storage.get('b')).toBe('value');
+
+    await migrator.restore(report.snapshot!);
+
+    expect(await storage.get('a')).toBe('value');
+    expect(await storage.get('b')).toBeNull();
+    expect(await migrator.getVersions()).toEqual({ sphere: 0 });
+  });
+
+  it('rollback() runs down steps in reverse order to the target version', async () => {
+    await storage.set('a', 'value');
+    const migrator = new StorageMigrator(storage, tokenStorage, [
+      renameKey(1, 'a', 'b'),
+      renameKey(2, 'b', 'c'),
+      renameKey(3, 'c', 'd'),
+    ]);
+    await migrator.migrate();
+    expect(await storage.get('d')).toBe('value');
+
+    const report = await migrator.rollback(1);
+
+    expect(report.applied.map((m) => [m.version, m.direction])).toEqual([[3, 'down'], [2, 'down']]);
+    expect(await storage.get('b')).toBe('value');
+    expect(await storedVersions()).toEqual({ sphere: 1 });
+    expect((await migrator.getPending()).map((m) => m.version)).toEqual([2, 3]);
+  });
+
+  it('rollback() refuses migrations without a down step before changing anything', async () => {
+    await storage.set('a', 'value');
+    const migrator = new StorageMigrator(storage, tokenStorage, [
+      { version: 1, name: 'one way', up: async () => {} },
+      renameKey(2, 'a', 'b'),
+    ]);
+    await migrator.migrate();
+
+    await expect(migrator.rollback(0)).rejects.toThrow(/cannot be rolled back/);
+    expect(await storage.get('b')).toBe('value');
+    expect(await storedVersions()).toEqual({ sphere: 2 });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Tests for gift-wrapped wallet payload delivery
+ *
+ * Covers:
+ * - parseWalletPayload() for legacy and gift-wrapped content
+ * - Per-peer negotiation in `auto` mode (capability tag, gift-wrapped receive)
+ * - `legacy` and `gift-wrap` delivery modes
+ * - Gift-wrapped and legacy transfers reaching the same handlers
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NIP04, NostrKeyManager } from '@unicitylabs/nostr-js-sdk';
+import type { WebSocketFactory } from '../../../transport/websocket';
+import type { PaymentDeliveryMode } from '../../../transport/wallet-payloads';
+import { NOSTR_EVENT_KINDS, STORAGE_KEYS_GLOBAL } from '../../../constants';
+
+// =============================================================================
+// Mock NostrClient
+// =============================================================================
+
+const mockSubscribe = vi.fn().mockReturnValue('mock-sub-id');
+const mockPublishEvent = vi.fn().mockResolvedValue('mock-event-id');
+
+vi.mock('@unicitylabs/nostr-js-sdk', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@unicitylabs/nostr-js-sdk')>();
+  return {
+    ...actual,
+    NostrClient: vi.fn().mockImplementation(() => ({
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn(),
+      isConnected: vi.fn().mockReturnValue(true),
+      getConnectedRelays: vi.fn().mockReturnValue(new Set(['wss://relay1.test'])),
+      subscribe: mockSubscribe,
+      unsubscribe: vi.fn(),
+      publishEvent: mockPublishEvent,
+      addConnectionListener: vi.fn(),
+    })),
+  };
+});
+
+const { NostrTransportProvider } = await import('../../../transport/NostrTransportProvider');
+const { parseWalletPayload, GIFT_WRAP_CAPABILITY_TAG } = await import('../../../transport/wallet-payloads');
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const PEER_PRIVATE_KEY = '0000000000000000000000000000000000000000000000000000000000000002';
+const peer = NostrKeyManager.fromPrivateKey(Buffer.from(PEER_PRIVATE_KEY, 'hex'));
+const peerPubkey = peer.getPublicKeyHex();
+
+const TRANSFER = { token: '{"genesis":{}}', proof: null, memo: 'hi' };
+
+function createStorage(initial: Record<string, string> = {}) {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    get: vi.fn(async (key: string) => data.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => { data.set(key, value); }),
+  };
+}
+
+async function createProvider(
+  paymentDelivery?: PaymentDeliveryMode,
+  storage = createStorage(),
+) {
+  const provider = new NostrTransportProvider({
+    relays: ['wss://relay1.test'],
+    createWebSocket: (() => {}) as unknown as WebSocketFactory,
+    timeout: 100,
+    autoReconnect: false,
+    storage,
+    paymentDelivery,
+  });
+  await provider.setIdentity({
+    privateKey: '0000000000000000000000000000000000000000000000000000000000000001',
+    chainPubkey: '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    l1Address: 'alpha1test',
+  });
+  await provider.connect();
+  return provider;
+}
+
+/** Callbacks of the wallet (index 0) or chat (index 1) subscription */
+function subscription(index: number) {
+  return mockSubscribe.mock.calls[index][1] as { onEvent: (event: unknown) => void };
+}
+
+function lastPublished(): { kind: number; tags: string[][] } {
+  return mockPublishEvent.mock.calls.at(-1)![0];
+}
+
+async function flush() {
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+async function legacyTransferFromPeer(recipient: string, tags: string[][] = []) {
+  return {
+    id: 'legacy-' + Math.random().toString(36).slice(2),
+    kind: NOSTR_EVENT_KINDS.TOKEN_TRANSFER,
+    pubkey: peerPubkey,
+    content: await NIP04.encryptHex('token_transfer:' + JSON.stringify(TRANSFER), PEER_PRIVATE_KEY, recipient),
+    tags: [['p', recipient], ['type', 'token_transfer'], ...tags],
+    created_at: Math.floor(Date.now() / 1000),
+    sig: 'sig',
+  };
+}
+
+// =============================================================================
+// parseWalletPayload
+// =============================================================================
+
+describe('parseWalletPayload', () => {
+  it('parses prefixed and unprefixed content into the same shape', () => {
+    const base = { id: 'e1', kind: NOSTR_EVENT_KINDS.TOKEN_TRANSFER, senderPubkey: peerPubkey, createdAt: 1700000000 };
+
+    const prefixed = parseWalletPayload({ ...base, content: 'token_transfer:' + JSON.stringify(TRANSFER) });
+    const plain = parseWalletPayload({ ...base, content: JSON.stringify(TRANSFER) });
+
+    expect(prefixed).toEqual(plain);
+    expect(prefixed).toEqual({
+      type: 'token_transfer',
+      transfer: { id: 'e1', senderTransportPubkey: peerPubkey, payload: TRANSFER, timestamp: 1700000000000 },
+    });
+  });
+
+  it('maps payment responses and ignores other kinds', () => {
+    const response = parseWalletPayload({
+      id: 'e2',
+      kind: NOSTR_EVENT_KINDS.PAYMENT_REQUEST_RESPONSE,
+      senderPubkey: peerPubkey,
+      content: 'payment_response:' + JSON.stringify({ requestId: 'r1', responseType: 'paid', transferId: 't1' }),
+      createdAt: 1,
+    });
+
+    expect(response).toMatchObject({
+      type: 'payment_response',
+      response: { responderTransportPubkey: peerPubkey, response: { requestId: 'r1', responseType: 'paid', transferId: 't1' } },
+    });
+    expect(parseWalletPayload({ id: 'e3', kind: 1, senderPubkey: peerPubkey, content: '{}', createdAt: 1 })).toBeNull();
+    expect(() => parseWalletPayload({ id: 'e4', kind: NOSTR_EVENT_KINDS.PAYMENT_REQUEST, senderPubkey: peerPubkey, content: 'nope', createdAt: 1 })).toThrow();
+  });
+});
+
+// =============================================================================
+// Delivery negotiation
+// =============================================================================
+
+describe('NostrTransportProvider payment delivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends legacy events with the capability tag to unknown peers in auto mode', async () => {
+    const provider = await createProvider();
+
+    await provider.sendTokenTransfer(peerPubkey, TRANSFER);
+
+    expect(provider.getPaymentDeliveryMode()).toBe('auto');
+    expect(lastPublished().kind).toBe(NOSTR_EVENT_KINDS.TOKEN_TRANSFER);
+    expect(lastPublished().tags).toContainEqual([...GIFT_WRAP_CAPABILITY_TAG]);
+  });
+
+  it('delivers a gift-wrapped transfer to the transfer handlers and gift wraps replies', async () => {
+    const storage = createStorage();
+    const provider = await createProvider('auto', storage);
+    const onTransfer = vi.fn();
+    provider.onTokenTransfer(onTransfer);
+
+    const giftWrap = NostrTransportProvider.createCustomKindGiftWrap(
+      peer,
+      provider.getNostrPubkey(),
+      'token_transfer:' + JSON.stringify(TRANSFER),
+      NOSTR_EVENT_KINDS.TOKEN_TRANSFER,
+    );
+    subscription(1).onEvent(giftWrap.toJSON());
+    await flush();
+
+    expect(onTransfer).toHaveBeenCalledWith(expect.objectContaining({
+      id: giftWrap.id,
+      senderTransportPubkey: peerPubkey,
+      payload: TRANSFER,
+    }));
+    expect(JSON.parse(storage.data.get(STORAGE_KEYS_GLOBAL.GIFT_WRAP_PEERS)!)).toEqual([peerPubkey]);
+
+    await provider.sendPaymentRequestResponse('02' + peerPubkey, { requestId: 'r1', responseType: 'paid' });
+    expect(lastPublished().kind).toBe(1059);
+    expect(lastPublished().tags).not.toContainEqual(['type', 'payment_response']);
+  });
+
+  it('switches a peer to gift wraps once its legacy events carry the capability tag', async () => {
+    const provider = await createProvider();
+    const onTransfer = vi.fn();
+    provider.onTokenTransfer(onTransfer);
+
+    subscription(0).onEvent(await legacyTransferFromPeer(provider.getNostrPubkey()));
+    await flush();
+    await provider.sendTokenTransfer(peerPubkey, TRANSFER);
+    expect(lastPublished().kind).toBe(NOSTR_EVENT_KINDS.TOKEN_TRANSFER);
+
+    subscription(0).onEvent(await legacyTransferFromPeer(provider.getNostrPubkey(), [[...GIFT_WRAP_CAPABILITY_TAG]]));
+    await flush();
+    await provider.sendTokenTransfer(peerPubkey, TRANSFER);
+
+    expect(onTransfer).toHaveBeenCalledTimes(2);
+    expect(onTransfer.mock.calls[0][0].payload).toEqual(TRANSFER);
+    expect(lastPublished().kind).toBe(1059);
+  });
+
+  it('remembers gift-wrap peers across restarts', async () => {
+    const storage = createStorage({ [STORAGE_KEYS_GLOBAL.GIFT_WRAP_PEERS]: JSON.stringify([peerPubkey]) });
+    const provider = await createProvider('auto', storage);
+
+    await provider.sendPaymentRequest(peerPubkey, { amount: '10', coinId: 'UCT' });
+
+    expect(lastPublished().kind).toBe(1059);
+  });
+
+  it('honours the legacy and gift-wrap modes regardless of the peer', async () => {
+    const storage = createStorage({ [STORAGE_KEYS_GLOBAL.GIFT_WRAP_PEERS]: JSON.stringify([peerPubkey]) });
+    const legacy = await createProvider('legacy', storage);
+    await legacy.sendTokenTransfer(peerPubkey, TRANSFER);
+    expect(lastPublished().kind).toBe(NOSTR_EVENT_KINDS.TOKEN_TRANSFER);
+    expect(lastPublished().tags).not.toContainEqual([...GIFT_WRAP_CAPABILITY_TAG]);
+
+    const giftWrapOnly = await createProvider('gift-wrap');
+    await giftWrapOnly.sendTokenTransfer(peerPubkey, TRANSFER);
+    expect(lastPublished().kind).toBe(1059);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Tests for relay health, failover and NIP-65 outbox delivery in
+ * NostrTransportProvider, against in-process memory relays
+ *
+ * Covers:
+ * - Relay list tags (NIP-65) round trip
+ * - Relay list published with the identity binding
+ * - Messages and transfers reaching recipients on relays outside the pool
+ * - Connecting despite a dead relay, and replacing it on failover
+ * - Keeping a lone relay through an outage and re-adding recovered relays
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { NostrTransportProvider } from '../../../transport/NostrTransportProvider';
+import { createRelayListTags, parseRelayList } from '../../../transport/relay-list';
+import { createMemoryRelay } from '../../../impl/shared/relay';
+import type { MemoryRelay } from '../../../impl/shared/relay';
+import type { IncomingMessage, IncomingTokenTransfer, TransportEvent } from '../../../transport';
+import type { IWebSocket, WebSocketFactory } from '../../../transport/websocket';
+import type { NostrTransportProviderConfig } from '../../../transport/NostrTransportProvider';
+import { NOSTR_EVENT_KINDS } from '../../../constants';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DEAD_RELAY = 'ws://memory-relay-dead';
+
+const relays: MemoryRelay[] = [];
+const transports: NostrTransportProvider[] = [];
+
+afterEach(async () => {
+  await Promise.all(transports.splice(0).map((transport) => transport.disconnect()));
+  relays.splice(0).forEach((relay) => relay.close());
+});
+
+function startRelay(): MemoryRelay {
+  const relay = createMemoryRelay();
+  relays.push(relay);
+  return relay;
+}
+
+/** Routes through the global WebSocket the listening relays install */
+const createWebSocket: WebSocketFactory = (url) =>
+  new (globalThis.WebSocket as unknown as new (url: string) => IWebSocket)(url);
+
+async function createTransport(
+  relayUrls: string[],
+  privateKey: string,
+  config: Partial<NostrTransportProviderConfig> = {},
+) {
+  const transport = new NostrTransportProvider({
+    relays: relayUrls,
+    createWebSocket,
+    autoReconnect: false,
+    timeout: 2000,
+    ...config,
+    relayHealth: { probeIntervalMs: 0, ...config.relayHealth },
+  });
+  transports.push(transport);
+  await transport.setIdentity({
+    privateKey,
+    chainPubkey: '02' + '11'.repeat(32),
+    l1Address: 'alpha1test',
+  });
+  await transport.connect();
+  return transport;
+}
+
+async function flush(ms = 50): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('NIP-65 relay lists', () => {
+  it('round-trips read and write markers', () => {
+    const tags = createRelayListTags({
+      read: ['wss://both.test/', 'wss://read.test'],
+      write: ['wss://both.test', 'wss://write.test', 'https://not-a-relay.test'],
+    });
+
+    expect(tags).toEqual([
+      ['r', 'wss://both.test'],
+      ['r', 'wss://read.test', 'read'],
+      ['r', 'wss://write.test', 'write'],
+    ]);
+    expect(parseRelayList({ kind: NOSTR_EVENT_KINDS.RELAY_LIST, tags })).toEqual({
+      read: ['wss://both.test', 'wss://read.test'],
+      write: ['wss://both.test', 'wss://write.test'],
+    });
+    expect(parseRelayList({ kind: 1, tags })).toBeNull();
+  });
+
+  it('publishes the relay list with the identity binding', async () => {
+    const relay = startRelay();
+    const transport = await createTransport([relay.url], '01'.repeat(32));
+
+    expect(await transport.publishIdentityBinding('02' + '11'.repeat(32), 'alpha1test', 'DIRECT://test')).toBe(true);
+
+    const [event] = relay.query({ kinds: [NOSTR_EVENT_KINDS.RELAY_LIST], authors: [transport.getNostrPubkey()] });
+    expect(parseRelayList(event)).toEqual({ read: [relay.url], write: [relay.url] });
+    expect(await transport.fetchRelayList(transport.getNostrPubkey())).toEqual({ read: [relay.url], write: [relay.url] });
+  });
+});
+
+describe('Outbox delivery', () => {
+  it('delivers to the recipient’s read relays outside the sender’s pool', async () => {
+    const shared = startRelay();
+    const inbox = startRelay();
+
+    // The recipient announces both relays, then only listens on its inbox relay
+    const announcing = await createTransport([shared.url, inbox.url], '02'.repeat(32));
+    await announcing.publishRelayList();
+    await announcing.disconnect();
+    const recipient = await createTransport([inbox.url], '02'.repeat(32));
+    const sender = await createTransport([shared.url], '01'.repeat(32));
+
+    const messages: IncomingMessage[] = [];
+    const transfers: IncomingTokenTransfer[] = [];
+    recipient.onMessage((message) => { messages.push(message); });
+    recipient.onTokenTransfer((transfer) => { transfers.push(transfer); });
+    await flush(150);
+
+    await sender.sendMessage(recipient.getNostrPubkey(), 'via outbox');
+    await sender.sendTokenTransfer(recipient.getNostrPubkey(), { token: '{"genesis":{}}', proof: null, memo: 'outbox' });
+    await flush(200);
+
+    expect(messages.map((m) => m.content)).toEqual(['via outbox']);
+    expect(transfers.map((t) => t.payload.memo)).toEqual(['outbox']);
+    expect(sender.getRelays()).toEqual([shared.url]);
+  });
+
+  it('sends only to the pool when the outbox model is disabled', async () => {
+    const shared = startRelay();
+    const inbox = startRelay();
+    const announcing = await createTransport([shared.url, inbox.url], '02'.repeat(32));
+    await announcing.publishRelayList();
+    const sender = await createTransport([shared.url], '01'.repeat(32), { outbox: false });
+
+    await sender.sendMessage(announcing.getNostrPubkey(), 'pool only');
+    await flush(100);
+
+    const toRecipient = { kinds: [1059], '#p': [announcing.getNostrPubkey()] };
+    expect(inbox.query(toRecipient)).toHaveLength(0);
+
+    // Explicit outbox publish, as used by MultiAddressTransportMux
+    const [giftWrap] = shared.query(toRecipient);
+    expect(await sender.publishToReadRelays(giftWrap, announcing.getNostrPubkey())).toEqual([inbox.url]);
+    expect(inbox.query(toRecipient)).toHaveLength(1);
+  });
+
+  it('answers AUTH on outbox connections with a throwaway key', async () => {
+    const shared = startRelay();
+    const inbox = createMemoryRelay({ requireAuth: true });
+    relays.push(inbox);
+    const announcing = await createTransport([shared.url, inbox.url], '02'.repeat(32));
+    await announcing.publishRelayList();
+
+    const authors: string[] = [];
+    const spyingWebSocket: WebSocketFactory = (url) => {
+      const socket = createWebSocket(url);
+      const send = socket.send.bind(socket);
+      socket.send = (data: string) => {
+        const [type, event] = JSON.parse(data) as [string, { pubkey: string }];
+        if (type === 'AUTH') authors.push(event.pubkey);
+        send(data);
+      };
+      return socket;
+    };
+    const sender = await createTransport([shared.url], '01'.repeat(32), { outbox: false, createWebSocket: spyingWebSocket });
+
+    await sender.sendMessage(announcing.getNostrPubkey(), 'auth-required inbox');
+    await flush(100);
+    authors.splice(0);
+    const [giftWrap] = shared.query({ kinds: [1059], '#p': [announcing.getNostrPubkey()] });
+    expect(await sender.publishToReadRelays(giftWrap, announcing.getNostrPubkey())).toEqual([inbox.url]);
+
+    expect(authors).toHaveLength(1);
+    expect(authors[0]).not.toBe(sender.getNostrPubkey());
+  });
+});
+
+describe('Relay health and failover', () => {
+  it('connects despite a dead relay and replaces it with a candidate', async () => {
+    const primary = startRelay();
+    const spare = startRelay();
+    const transport = await createTransport([primary.url, DEAD_RELAY], '01'.repeat(32), {
+      relayHealth: { maxConsecutiveFailures: 2, candidateRelays: [DEAD_RELAY, spare.url] },
+    });
+    const events: TransportEvent[] = [];
+    transport.onEvent((event) => { events.push(event); });
+
+    expect(transport.getConnectedRelays()).toEqual([primary.url]);
+    expect(transport.getRelayMetrics().find((m) => m.url === DEAD_RELAY)).toMatchObject({
+      connected: false,
+      state: 'degraded',
+      consecutiveFailures: 1,
+    });
+
+    await transport.probeRelays();
+
+    expect(transport.getRelays()).toEqual([primary.url, spare.url]);
+    expect(transport.getConnectedRelays().sort()).toEqual([primary.url, spare.url].sort());
+    expect(events.filter((e) => e.type === 'transport:relay_removed').map((e) => e.data)).toEqual([
+      expect.objectContaining({ relay: DEAD_RELAY, reason: 'unhealthy' }),
+    ]);
+    expect(events.filter((e) => e.type === 'transport:relay_added').map((e) => e.data)).toEqual([
+      { relay: spare.url, reason: 'failover', connected: true },
+    ]);
+
+    const [primaryMetrics] = transport.getRelayMetrics();
+    expect(primaryMetrics).toMatchObject({ url: primary.url, connected: true, state: 'healthy' });
+    expect(primaryMetrics.latencyMs).not.toBeNull();
+
+    // The new relay set is announced
+    await flush(100);
+    const [relayList] = spare.query({ kinds: [NOSTR_EVENT_KINDS.RELAY_LIST] });
+    expect(parseRelayList(relayList)?.read).toEqual([primary.url, spare.url]);
+  });
+
+  it('keeps a lone relay through an outage when there is no candidate', async () => {
+    const relay = startRelay();
+    const transport = await createTransport([relay.url], '01'.repeat(32), {
+      relayHealth: { maxConsecutiveFailures: 2 },
+    });
+    const events: TransportEvent[] = [];
+    transport.onEvent((event) => { events.push(event); });
+
+    relay.close();
+    await transport.probeRelays();
+    await transport.probeRelays();
+
+    expect(transport.getRelayMetrics()[0]).toMatchObject({ url: relay.url, state: 'demoted' });
+    expect(transport.getRelays()).toEqual([relay.url]);
+    expect(events.filter((e) => e.type === 'transport:relay_removed')).toEqual([]);
+  });
+
+  it('re-adds a configured relay once it recovers', async () => {
+    const primary = startRelay();
+    const spare = startRelay();
+    const transport = await createTransport([primary.url, DEAD_RELAY], '01'.repeat(32), {
+      relayHealth: { maxConsecutiveFailures: 2, candidateRelays: [spare.url], demotionCooldownMs: 0 },
+    });
+
+    await transport.probeRelays();
+    expect(transport.getRelays()).toEqual([primary.url, spare.url]);
+
+    // The swapped-out relay comes back and the replacement fails
+    relays.push(createMemoryRelay({ url: DEAD_RELAY }));
+    spare.close();
+    await transport.probeRelays();
+    await transport.probeRelays();
+
+    expect(transport.getRelays()).toEqual([primary.url, DEAD_RELAY]);
+  });
+
+  it('counts publishes per relay', async () => {
+    const relay = startRelay();
+    const transport = await createTransport([relay.url], '01'.repeat(32));
+
+    await transport.publishRelayList();
+    await transport.publishRelayList();
+
+    expect(transport.getRelayMetrics()[0]).toMatchObject({
+      publishAttempts: 2,
+      publishSuccesses: 2,
+      publishSuccessRate: 1,
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for transport/relay-health.ts
+ *
+ * Covers:
+ * - Demotion on consecutive failures, error rate and latency, and recovery
+ * - Scores, ranking and publish metrics
+ * - Failover planning (replacement, cooldown, never dropping the last relay)
+ * - Probing a relay
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { RelayHealthTracker, planFailover, probeRelay } from '../../../transport/relay-health';
+import { createMemoryRelay } from '../../../impl/shared/relay';
+import type { MemoryRelay } from '../../../impl/shared/relay';
+
+const A = 'wss://a.test';
+const B = 'wss://b.test';
+const C = 'wss://c.test';
+
+describe('RelayHealthTracker', () => {
+  it('demotes a relay after consecutive failures and restores it on success', () => {
+    const tracker = new RelayHealthTracker({ maxConsecutiveFailures: 3 });
+
+    tracker.recordFailure(A, new Error('refused'));
+    expect(tracker.getState(A)).toBe('degraded');
+    tracker.recordFailure(A, 'refused');
+    tracker.recordFailure(A, 'refused');
+    expect(tracker.getState(A)).toBe('demoted');
+    expect(tracker.getMetrics(A)).toMatchObject({ consecutiveFailures: 3, lastError: 'refused' });
+
+    tracker.recordSuccess(A, 100);
+    expect(tracker.getState(A)).toBe('healthy');
+  });
+
+  it('demotes on error rate and latency only after enough samples', () => {
+    const tracker = new RelayHealthTracker({ minSamples: 4, maxErrorRate: 0.5, maxLatencyMs: 1000, maxConsecutiveFailures: 10 });
+
+    tracker.recordSuccess(A, 50);
+    tracker.recordFailure(A, 'x');
+    tracker.recordFailure(A, 'x');
+    expect(tracker.getState(A)).not.toBe('demoted');
+    tracker.recordFailure(A, 'x');
+    expect(tracker.getMetrics(A).errorRate).toBe(0.75);
+    expect(tracker.getState(A)).toBe('demoted');
+
+    for (let i = 0; i < 3; i++) tracker.recordSuccess(B, 3000);
+    expect(tracker.getState(B)).toBe('degraded');
+    tracker.recordSuccess(B, 3000);
+    expect(tracker.getState(B)).toBe('demoted');
+  });
+
+  it('ranks relays by score and reports publish success', () => {
+    const tracker = new RelayHealthTracker({ maxLatencyMs: 1000 });
+    tracker.recordPublish(A, true, 900);
+    tracker.recordPublish(B, true, 100);
+    tracker.recordPublish(B, false, undefined, 'blocked');
+    tracker.recordPublishAttempt(C, true);
+
+    expect(tracker.rank([A, B, C])).toEqual([A, C, B]);
+    expect(tracker.getMetrics(B)).toMatchObject({
+      publishAttempts: 2,
+      publishSuccesses: 1,
+      publishSuccessRate: 0.5,
+      errorRate: 0.5,
+      latencyMs: 100,
+    });
+    // Counted attempts do not affect health
+    expect(tracker.getMetrics(C)).toMatchObject({ publishSuccessRate: 1, samples: 0, score: 0.5 });
+  });
+});
+
+describe('planFailover', () => {
+  it('replaces demoted relays with the best candidates not cooling down', () => {
+    const tracker = new RelayHealthTracker({ maxConsecutiveFailures: 1 });
+    tracker.recordFailure(B, 'down');
+    tracker.recordSuccess(C, 50);
+    // Demoted earlier: cooling down, not picked
+    tracker.recordFailure('wss://d.test', 'down');
+    tracker.recordSuccess('wss://d.test');
+
+    expect(planFailover([A, B], ['wss://d.test', A, C], tracker)).toEqual({ remove: [B], add: [C] });
+    expect(planFailover([A, C], [B], tracker)).toEqual({ remove: [], add: [] });
+  });
+
+  it('keeps the last relay when there is no replacement', () => {
+    const tracker = new RelayHealthTracker({ maxConsecutiveFailures: 1 });
+    tracker.recordFailure(A, 'down');
+    tracker.recordFailure(B, 'down');
+
+    expect(planFailover([A], [B], tracker)).toEqual({ remove: [], add: [] });
+    expect(planFailover([A, C], [B], tracker)).toEqual({ remove: [A], add: [] });
+  });
+});
+
+describe('probeRelay', () => {
+  let relay: MemoryRelay | null = null;
+
+  afterEach(() => {
+    relay?.close();
+    relay = null;
+  });
+
+  it('measures the round trip to a relay', async () => {
+    relay = createMemoryRelay();
+
+    const latency = await probeRelay(relay.url, relay.createWebSocket, 1000);
+
+    expect(latency).toBeGreaterThanOrEqual(0);
+    expect(latency).toBeLessThan(1000);
+  });
+
+  it('rejects when the relay cannot be reached', async () => {
+    const unreachable = () => {
+      throw new Error('connection refused');
+    };
+
+    await expect(probeRelay(A, unreachable, 1000)).rejects.toThrow('connection refused');
+  });
+});
@@ -7,7 +7,8 @@
  *
  * Event routing:
  * - Wallet events (kind 4, 31113, 31115, 31116): routed by #p tag (recipient pubkey)
- * - Chat events (kind 1059 gift wrap): try decrypt with each address keyManager
+ * - Gift wraps (kind 1059: chat, gift-wrapped wallet payloads): try decrypt with
+ *   each address keyManager
  *
  * Sending: each adapter delegates to the inner transport with its own keyManager.
  */
@@ -24,6 +25,7 @@ import {
   isChatMessage,
   isReadReceipt,
 } from '@unicitylabs/nostr-js-sdk';
+import type { SignedEventData } from '@unicitylabs/nostr-js-sdk';
 import { logger } from '../core/logger';
 import { SphereError } from '../core/errors';
 import type { ProviderStatus, FullIdentity } from '../types';
@@ -40,6 +42,8 @@ import type {
   IncomingPaymentRequest,
   IncomingPaymentRequestResponse,
   TokenTransferPayload,
+  EscrowPayload,
+  SwapPayload,
   PaymentRequestPayload,
   PaymentRequestResponsePayload,
   TransportEvent,
@@ -52,11 +56,27 @@ import type {
   InstantSplitBundlePayload,
   InstantSplitBundleHandler,
   IncomingInstantSplitBundle,
+  RecoveryPayload,
+  RecoveryMessageHandler,
+  IncomingRecoveryMessage,
+  TransferReceiptPayload,
+  TransferReceiptHandler,
+  IncomingTransferReceipt,
 } from './transport-provider';
 import type { WebSocketFactory, UUIDGenerator } from './websocket';
 import { defaultUUIDGenerator } from './websocket';
 import { NostrTransportProvider } from './NostrTransportProvider';
 import type { TransportStorageAdapter, NostrTransportProviderConfig } from './NostrTransportProvider';
+import {
+  GIFT_WRAP_CAPABILITY_TAG,
+  GiftWrapPeerRegistry,
+  hasGiftWrapCapability,
+  isWalletPayloadKind,
+  parseWalletPayload,
+  stripContentPrefix,
+  toXOnly,
+} from './wallet-payloads';
+import type { PaymentDeliveryMode, WalletPayloadEnvelope } from './wallet-payloads';
 import {
   DEFAULT_NOSTR_RELAYS,
   NOSTR_EVENT_KINDS,
@@ -109,14 +129,29 @@ export interface MultiAddressTransportMuxConfig {
   createWebSocket: WebSocketFactory;
   generateUUID?: UUIDGenerator;
   storage?: TransportStorageAdapter;
+  /** Envelope for token transfers and payment requests (default: 'auto') */
+  paymentDelivery?: PaymentDeliveryMode;
+  /** Also publishes messages and wallet payloads to recipients' NIP-65 read relays */
+  outbox?: OutboxPublisher;
+}
+
+/**
+ * Publishes events to a recipient's read relays outside the relay pool
+ * (implemented by NostrTransportProvider)
+ */
+export interface OutboxPublisher {
+  /** @returns Relays that accepted the event; never rejects */
+  publishToReadRelays(event: SignedEventData, recipientPubkey: string): Promise<string[]>;
 }
 
 export class MultiAddressTransportMux {
-  private config: Required<Omit<MultiAddressTransportMuxConfig, 'createWebSocket' | 'generateUUID' | 'storage'>> & {
+  private config: Required<Omit<MultiAddressTransportMuxConfig, 'createWebSocket' | 'generateUUID' | 'storage' | 'outbox'>> & {
     createWebSocket: WebSocketFactory;
     generateUUID: UUIDGenerator;
   };
   private storage: TransportStorageAdapter | null = null;
+  private outbox: OutboxPublisher | null = null;
+  private giftWrapPeers: GiftWrapPeerRegistry;
 
   // Single NostrClient — one WebSocket connection for all addresses
   private nostrClient: NostrClient | null = null;
@@ -150,8 +185,11 @@ export class MultiAddressTransportMux {
       maxReconnectAttempts: config.maxReconnectAttempts ?? TIMEOUTS.MAX_RECONNECT_ATTEMPTS,
       createWebSocket: config.createWebSocket,
       generateUUID: config.generateUUID ?? defaultUUIDGenerator,
+      paymentDelivery: config.paymentDelivery ?? 'auto',
     };
     this.storage = config.storage ?? null;
+    this.outbox = config.outbox ?? null;
+    this.giftWrapPeers = new GiftWrapPeerRegistry(this.storage);
   }
 
   // ===========================================================================
@@ -625,6 +663,19 @@ export class MultiAddressTransportMux {
           return;
         }
 
+        // Gift-wrapped token transfers and payment requests (rumor kind = legacy kind)
+        if (isWalletPayloadKind(pm.kind)) {
+          this.giftWrapPeers.add(pm.senderPubkey);
+          this.dispatchWalletPayload(entry, {
+            id: event.id,
+            kind: pm.kind,
+            senderPubkey: pm.senderPubkey,
+            content: pm.content,
+            createdAt: pm.timestamp,
+          });
+          return;
+        }
+
         // Handle read receipts
         if (isReadReceipt(pm)) {
           if (pm.replyToEventId) {
@@ -667,6 +718,27 @@ export class MultiAddressTransportMux {
             entry.adapter.dispatchReadReceipt(receipt);
             return;
           }
+          if (parsed?.type === 'recovery' && parsed.payload?.type) {
+            const message: IncomingRecoveryMessage = {
+              id: event.id,
+              senderTransportPubkey: pm.senderPubkey,
+              senderNametag: parsed.senderNametag || undefined,
+              payload: parsed.payload as RecoveryPayload,
+              timestamp: pm.timestamp * 1000,
+            };
+            entry.adapter.dispatchRecoveryMessage(message);
+            return;
+          }
+          if (parsed?.type === 'transfer_receipt' && parsed.receipt?.transferId) {
+            const receipt: IncomingTransferReceipt = {
+              id: event.id,
+              senderTransportPubkey: pm.senderPubkey,
+              receipt: parsed.receipt as TransferReceiptPayload,
+              timestamp: pm.timestamp * 1000,
+            };
+            entry.adapter.dispatchTransferReceipt(receipt);
+            return;
+          }
           if (parsed?.type === 'typing') {
             const indicator: IncomingTypingIndicator = {
               senderTransportPubkey: pm.senderPubkey,
@@ -729,15 +801,9 @@ export class MultiAddressTransportMux {
         break;
 
       case EVENT_KINDS.TOKEN_TRANSFER:
-        await this.handleTokenTransfer(entry, event);
-        break;
-
       case EVENT_KINDS.PAYMENT_REQUEST:
-        await this.handlePaymentRequest(entry, event);
-        break;
-
       case EVENT_KINDS.PAYMENT_REQUEST_RESPONSE:
-        await this.handlePaymentRequestResponse(entry, event);
+        await this.handleLegacyWalletEvent(entry, event);
         break;
     }
 
@@ -747,69 +813,49 @@ export class MultiAddressTransportMux {
     }
   }
 
-  private async handleTokenTransfer(entry: AddressEntry, event: NostrEvent): Promise<void> {
+  private async handleLegacyWalletEvent(entry: AddressEntry, event: NostrEvent): Promise<void> {
+    let content: string;
     try {
-      const content = await this.decryptContent(entry, event.content, event.pubkey);
-      const payload = JSON.parse(content) as TokenTransferPayload;
-
-      const transfer: IncomingTokenTransfer = {
-        id: event.id,
-        senderTransportPubkey: event.pubkey,
-        payload,
-        timestamp: event.created_at * 1000,
-      };
-
-      entry.adapter.dispatchTokenTransfer(transfer);
+      content = await this.decryptContent(entry, event.content, event.pubkey);
     } catch (err) {
-      logger.debug('Mux', `Token transfer decrypt failed for address ${entry.index}:`, (err as Error)?.message?.slice(0, 50));
+      logger.debug('Mux', `Wallet event decrypt failed for address ${entry.index}:`, (err as Error)?.message?.slice(0, 50));
+      return;
     }
+    if (hasGiftWrapCapability(event.tags)) {
+      this.giftWrapPeers.add(event.pubkey);
+    }
+    this.dispatchWalletPayload(entry, {
+      id: event.id,
+      kind: event.kind,
+      senderPubkey: event.pubkey,
+      content,
+      createdAt: event.created_at,
+    });
   }
 
-  private async handlePaymentRequest(entry: AddressEntry, event: NostrEvent): Promise<void> {
+  /**
+   * Dispatch a token transfer, payment request or response to an address,
+   * whether it came as a legacy event or gift wrapped.
+   */
+  private dispatchWalletPayload(entry: AddressEntry, envelope: WalletPayloadEnvelope): void {
+    let payload;
     try {
-      const content = await this.decryptContent(entry, event.content, event.pubkey);
-      const requestData = JSON.parse(content);
-
-      const request: IncomingPaymentRequest = {
-        id: event.id,
-        senderTransportPubkey: event.pubkey,
-        request: {
-          requestId: requestData.requestId,
-          amount: requestData.amount,
-          coinId: requestData.coinId,
-          message: requestData.message,
-          recipientNametag: requestData.recipientNametag,
-          metadata: requestData.metadata,
-        },
-        timestamp: event.created_at * 1000,
-      };
-
-      entry.adapter.dispatchPaymentRequest(request);
+      payload = parseWalletPayload(envelope);
     } catch (err) {
-      logger.debug('Mux', `Payment request decrypt failed for address ${entry.index}:`, (err as Error)?.message?.slice(0, 50));
+      logger.debug('Mux', `Wallet payload parse failed for address ${entry.index}:`, (err as Error)?.message?.slice(0, 50));
+      return;
     }
-  }
-
-  private async handlePaymentRequestResponse(entry: AddressEntry, event: NostrEvent): Promise<void> {
-    try {
-      const content = await this.decryptContent(entry, event.content, event.pubkey);
-      const responseData = JSON.parse(content);
-
-      const response: IncomingPaymentRequestResponse = {
-        id: event.id,
-        responderTransportPubkey: event.pubkey,
-        response: {
-          requestId: responseData.requestId,
-          responseType: responseData.responseType,
-          message: responseData.message,
-          transferId: responseData.transferId,
-        },
-        timestamp: event.created_at * 1000,
-      };
 
-      entry.adapter.dispatchPaymentRequestResponse(response);
-    } catch (err) {
-      logger.debug('Mux', `Payment response decrypt failed for address ${entry.index}:`, (err as Error)?.message?.slice(0, 50));
+    switch (payload?.type) {
+      case 'token_transfer':
+        entry.adapter.dispatchTokenTransfer(payload.transfer);
+        break;
+      case 'payment_request':
+        entry.adapter.dispatchPaymentRequest(payload.request);
+        break;
+      case 'payment_response':
+        entry.adapter.dispatchPaymentRequestResponse(payload.response);
+        break;
     }
   }
 
@@ -823,15 +869,7 @@ export class MultiAddressTransportMux {
       entry.keyManager.getPrivateKeyHex(),
       senderPubkey
     );
-    return this.stripContentPrefix(decrypted);
-  }
-
-  private stripContentPrefix(content: string): string {
-    const prefixes = ['payment_request:', 'token_transfer:', 'payment_response:'];
-    for (const prefix of prefixes) {
-      if (content.startsWith(prefix)) return content.slice(prefix.length);
-    }
-    return content;
+    return stripContentPrefix(decrypted);
   }
 
   // ===========================================================================
@@ -870,17 +908,47 @@ export class MultiAddressTransportMux {
       tags: signedEvent.tags, pubkey: signedEvent.pubkey,
       created_at: signedEvent.created_at, sig: signedEvent.sig,
     });
-    await this.nostrClient.publishEvent(nostrEvent);
+    await this.publishForRecipient(nostrEvent, recipientTag[1]);
     return signedEvent.id;
   }
 
+  /**
+   * Publish a token transfer, payment request or response for a specific
+   * address: gift wrapped if the delivery mode and the peer allow it,
+   * otherwise as a legacy NIP-04 event (announcing gift-wrap support in auto mode).
+   */
+  async publishWalletPayload(
+    addressIndex: number,
+    kind: number,
+    content: string,
+    tags: string[][]
+  ): Promise<string> {
+    const entry = this.addresses.get(addressIndex);
+    if (!entry) throw new SphereError('Address not registered in mux', 'NOT_INITIALIZED');
+    if (!this.nostrClient) throw new SphereError('Not connected', 'NOT_INITIALIZED');
+
+    const recipientTag = tags.find(t => t[0] === 'p');
+    if (!recipientTag?.[1]) throw new SphereError('No recipient pubkey in tags', 'VALIDATION_ERROR');
+    const mode = this.config.paymentDelivery;
+
+    if (await this.giftWrapPeers.shouldGiftWrap(mode, recipientTag[1])) {
+      const giftWrap = NostrTransportProvider.createCustomKindGiftWrap(entry.keyManager, toXOnly(recipientTag[1]), content, kind);
+      await this.publishForRecipient(NostrEventClass.fromJSON(giftWrap), recipientTag[1]);
+      return giftWrap.id;
+    }
+
+    const legacyTags = mode === 'auto' ? [...tags, [...GIFT_WRAP_CAPABILITY_TAG]] : tags;
+    return this.createAndPublishEncryptedEvent(addressIndex, kind, content, legacyTags);
+  }
+
   /**
    * Create and publish a NIP-17 gift wrap message for a specific address.
    */
   async sendGiftWrap(
     addressIndex: number,
     recipientPubkey: string,
-    content: string
+    content: string,
+    selfWrap: boolean = true,
   ): Promise<string> {
     const entry = this.addresses.get(addressIndex);
     if (!entry) throw new SphereError('Address not registered in mux', 'NOT_INITIALIZED');
@@ -894,7 +962,8 @@ export class MultiAddressTransportMux {
 
     const giftWrap = NIP17.createGiftWrap(entry.keyManager, nostrRecipient, content);
     const giftWrapEvent = NostrEventClass.fromJSON(giftWrap);
-    await this.nostrClient.publishEvent(giftWrapEvent);
+    await this.publishForRecipient(giftWrapEvent, nostrRecipient);
+    if (!selfWrap) return giftWrap.id;
 
     // Self-wrap for relay replay
     const selfPubkey = entry.keyManager.getPublicKeyHex();
@@ -952,6 +1021,24 @@ export class MultiAddressTransportMux {
     await this.nostrClient.publishEvent(giftWrapEvent);
   }
 
+  /**
+   * Publish an event to the relay pool and, with an outbox publisher, to the
+   * recipient's read relays. Succeeds if either accepted the event.
+   */
+  private async publishForRecipient(event: NostrEventClass, recipientPubkey: string): Promise<void> {
+    if (!this.outbox) {
+      await this.nostrClient!.publishEvent(event);
+      return;
+    }
+
+    const outbox = this.outbox.publishToReadRelays(event, recipientPubkey);
+    try {
+      await this.nostrClient!.publishEvent(event);
+    } catch (error) {
+      if ((await outbox).length === 0) throw error;
+    }
+  }
+
   /**
    * Publish a raw event (e.g., identity binding, broadcast).
    */
@@ -1097,10 +1184,14 @@ export class AddressTransportAdapter implements TransportProvider {
   private readReceiptHandlers: Set<ReadReceiptHandler> = new Set();
   private typingIndicatorHandlers: Set<TypingIndicatorHandler> = new Set();
   private composingHandlers: Set<ComposingHandler> = new Set();
+  private recoveryHandlers: Set<RecoveryMessageHandler> = new Set();
   private instantSplitBundleHandlers: Set<InstantSplitBundleHandler> = new Set();
   private broadcastHandlers: Map<string, Set<BroadcastHandler>> = new Map();
   private eventCallbacks: Set<TransportEventCallback> = new Set();
   private pendingMessages: IncomingMessage[] = [];
+  private pendingRecoveryMessages: IncomingRecoveryMessage[] = [];
+  private transferReceiptHandlers: Set<TransferReceiptHandler> = new Set();
+  private pendingTransferReceipts: IncomingTransferReceipt[] = [];
   private chatEoseHandlers: Array<() => void> = [];
 
   constructor(
@@ -1162,10 +1253,10 @@ export class AddressTransportAdapter implements TransportProvider {
     return this.mux.sendGiftWrap(this.addressIndex, recipientPubkey, wrappedContent);
   }
 
-  async sendTokenTransfer(recipientPubkey: string, payload: TokenTransferPayload): Promise<string> {
+  async sendTokenTransfer(recipientPubkey: string, payload: TokenTransferPayload | EscrowPayload | SwapPayload): Promise<string> {
     const content = 'token_transfer:' + JSON.stringify(payload);
     const uniqueD = `token-transfer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    return this.mux.createAndPublishEncryptedEvent(
+    return this.mux.publishWalletPayload(
       this.addressIndex,
       EVENT_KINDS.TOKEN_TRANSFER,
       content,
@@ -1193,7 +1284,7 @@ export class AddressTransportAdapter implements TransportProvider {
     if (payload.recipientNametag) {
       tags.push(['recipient', payload.recipientNametag]);
     }
-    return this.mux.createAndPublishEncryptedEvent(
+    return this.mux.publishWalletPayload(
       this.addressIndex,
       EVENT_KINDS.PAYMENT_REQUEST,
       content,
@@ -1206,7 +1297,7 @@ export class AddressTransportAdapter implements TransportProvider {
     response: PaymentRequestResponsePayload
   ): Promise<string> {
     const content = 'payment_response:' + JSON.stringify(response);
-    return this.mux.createAndPublishEncryptedEvent(
+    return this.mux.publishWalletPayload(
       this.addressIndex,
       EVENT_KINDS.PAYMENT_REQUEST_RESPONSE,
       content,
@@ -1233,6 +1324,22 @@ export class AddressTransportAdapter implements TransportProvider {
     await this.mux.sendComposingIndicator(this.addressIndex, recipientPubkey, content);
   }
 
+  async sendRecoveryMessage(recipientPubkey: string, payload: RecoveryPayload): Promise<string> {
+    const content = JSON.stringify({
+      type: 'recovery',
+      senderNametag: this.identity.nametag,
+      payload,
+    });
+    // No self-wrap: shares must not be replayed into our own chat history
+    return this.mux.sendGiftWrap(this.addressIndex, recipientPubkey, content, false);
+  }
+
+  async sendTransferReceipt(recipientPubkey: string, receipt: TransferReceiptPayload): Promise<string> {
+    const content = JSON.stringify({ type: 'transfer_receipt', receipt });
+    // No self-wrap: receipts are protocol messages, not chat history
+    return this.mux.sendGiftWrap(this.addressIndex, recipientPubkey, content, false);
+  }
+
   async sendInstantSplitBundle(
     recipientPubkey: string,
     bundle: InstantSplitBundlePayload
@@ -1242,7 +1349,7 @@ export class AddressTransportAdapter implements TransportProvider {
       ...bundle,
     });
     const uniqueD = `instant-split-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    return this.mux.createAndPublishEncryptedEvent(
+    return this.mux.publishWalletPayload(
       this.addressIndex,
       EVENT_KINDS.TOKEN_TRANSFER,
       content,
@@ -1376,6 +1483,30 @@ export class AddressTransportAdapter implements TransportProvider {
     this.mux.setFallbackSince(this.addressIndex, sinceSeconds);
   }
 
+  onRecoveryMessage(handler: RecoveryMessageHandler): () => void {
+    this.recoveryHandlers.add(handler);
+    if (this.pendingRecoveryMessages.length > 0) {
+      const pending = this.pendingRecoveryMessages;
+      this.pendingRecoveryMessages = [];
+      for (const message of pending) {
+        try { handler(message); } catch { /* ignore */ }
+      }
+    }
+    return () => this.recoveryHandlers.delete(handler);
+  }
+
+  onTransferReceipt(handler: TransferReceiptHandler): () => void {
+    this.transferReceiptHandlers.add(handler);
+    if (this.pendingTransferReceipts.length > 0) {
+      const pending = this.pendingTransferReceipts;
+      this.pendingTransferReceipts = [];
+      for (const receipt of pending) {
+        try { handler(receipt); } catch { /* ignore */ }
+      }
+    }
+    return () => this.transferReceiptHandlers.delete(handler);
+  }
+
   async fetchPendingEvents(): Promise<void> {
     // Fetching is handled by subscription — no-op for mux-based adapters
     // The mux subscription already includes this address's pubkey
@@ -1436,6 +1567,26 @@ export class AddressTransportAdapter implements TransportProvider {
     }
   }
 
+  dispatchRecoveryMessage(message: IncomingRecoveryMessage): void {
+    if (this.recoveryHandlers.size === 0) {
+      this.pendingRecoveryMessages.push(message);
+      return;
+    }
+    for (const handler of this.recoveryHandlers) {
+      try { handler(message); } catch (e) { logger.debug('MuxAdapter', 'Recovery handler error:', e); }
+    }
+  }
+
+  dispatchTransferReceipt(receipt: IncomingTransferReceipt): void {
+    if (this.transferReceiptHandlers.size === 0) {
+      this.pendingTransferReceipts.push(receipt);
+      return;
+    }
+    for (const handler of this.transferReceiptHandlers) {
+      try { handler(receipt); } catch (e) { logger.debug('MuxAdapter', 'Transfer receipt handler error:', e); }
+    }
+  }
+
   dispatchInstantSplitBundle(bundle: IncomingInstantSplitBundle): void {
     for (const handler of this.instantSplitBundleHandlers) {
       try { handler(bundle); } catch (e) { logger.debug('MuxAdapter', 'Instant split handler error:', e); }
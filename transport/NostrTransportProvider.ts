@@ -40,11 +40,10 @@ import type {
   PaymentRequestHandler,
   PaymentRequestResponseHandler,
   IncomingMessage,
-  IncomingTokenTransfer,
   IncomingBroadcast,
-  IncomingPaymentRequest,
-  IncomingPaymentRequestResponse,
   TokenTransferPayload,
+  EscrowPayload,
+  SwapPayload,
   PaymentRequestPayload,
   PaymentRequestResponsePayload,
   TransportEvent,
@@ -54,9 +53,29 @@ import type {
   IncomingReadReceipt,
   TypingIndicatorHandler,
   IncomingTypingIndicator,
+  RecoveryPayload,
+  RecoveryMessageHandler,
+  IncomingRecoveryMessage,
+  TransferReceiptPayload,
+  TransferReceiptHandler,
+  IncomingTransferReceipt,
 } from './transport-provider';
 import type { WebSocketFactory, UUIDGenerator } from './websocket';
 import { defaultUUIDGenerator } from './websocket';
+import {
+  GIFT_WRAP_CAPABILITY_TAG,
+  GiftWrapPeerRegistry,
+  hasGiftWrapCapability,
+  isWalletPayloadKind,
+  parseWalletPayload,
+  stripContentPrefix,
+  toXOnly,
+} from './wallet-payloads';
+import type { PaymentDeliveryMode, WalletPayloadEnvelope } from './wallet-payloads';
+import { RelayHealthTracker, planFailover, probeRelay } from './relay-health';
+import type { RelayFailoverPlan, RelayHealthConfig, RelayMetrics } from './relay-health';
+import { createRelayListTags, parseRelayList, publishToRelays } from './relay-list';
+import type { RelayList } from './relay-list';
 import {
   DEFAULT_NOSTR_RELAYS,
   NOSTR_EVENT_KINDS,
@@ -96,10 +115,25 @@ export interface NostrTransportProviderConfig {
   generateUUID?: UUIDGenerator;
   /** Optional storage adapter for persisting subscription timestamps */
   storage?: TransportStorageAdapter;
+  /** Envelope for token transfers and payment requests (default: 'auto', see PaymentDeliveryMode) */
+  paymentDelivery?: PaymentDeliveryMode;
+  /** Relay health scoring, probing and failover (see RelayHealthConfig for defaults) */
+  relayHealth?: Partial<RelayHealthConfig>;
+  /**
+   * Also publish messages and wallet payloads to the recipient's NIP-65 read
+   * relays outside the relay pool (default: true)
+   */
+  outbox?: boolean;
 }
 
 const COMPOSING_INDICATOR_KIND = 25050;
 const TIMESTAMP_RANDOMIZATION = 2 * 24 * 60 * 60;
+/** How long a fetched NIP-65 relay list is reused */
+const RELAY_LIST_CACHE_TTL = 10 * 60 * 1000;
+/** Read relays of a recipient an event is sent to, besides the pool */
+const MAX_OUTBOX_RELAYS = 3;
+/** Timeout of a publish to a single outbox relay */
+const OUTBOX_PUBLISH_TIMEOUT = 5000;
 
 // Alias for backward compatibility
 const EVENT_KINDS = NOSTR_EVENT_KINDS;
@@ -114,11 +148,21 @@ export class NostrTransportProvider implements TransportProvider {
   readonly type = 'p2p' as const;
   readonly description = 'P2P messaging via Nostr protocol';
 
-  private config: Required<Omit<NostrTransportProviderConfig, 'createWebSocket' | 'generateUUID' | 'storage'>> & {
+  private config: Required<Omit<NostrTransportProviderConfig, 'createWebSocket' | 'generateUUID' | 'storage' | 'relayHealth'>> & {
     createWebSocket: WebSocketFactory;
     generateUUID: UUIDGenerator;
   };
   private storage: TransportStorageAdapter | null = null;
+  private giftWrapPeers: GiftWrapPeerRegistry;
+  private relayHealth: RelayHealthTracker;
+  /**
+   * Relays chosen by the caller (constructor, addRelay). Failover may swap
+   * them out, but they are still probed and re-added once they recover.
+   */
+  private configuredRelays: string[];
+  private probeTimer: ReturnType<typeof setInterval> | null = null;
+  /** NIP-65 relay lists by x-only pubkey (null: the user has none) */
+  private relayListCache = new Map<string, { list: RelayList | null; fetchedAt: number }>();
   /** In-memory max event timestamp to avoid read-before-write races in updateLastEventTimestamp. */
   private lastEventTs: number = 0;
   /** Fallback 'since' timestamp for first-time address subscriptions (consumed once). */
@@ -141,7 +185,11 @@ export class NostrTransportProvider implements TransportProvider {
   private readReceiptHandlers: Set<ReadReceiptHandler> = new Set();
   private typingIndicatorHandlers: Set<TypingIndicatorHandler> = new Set();
   private composingHandlers: Set<ComposingHandler> = new Set();
+  private recoveryHandlers: Set<RecoveryMessageHandler> = new Set();
   private pendingMessages: IncomingMessage[] = [];
+  private pendingRecoveryMessages: IncomingRecoveryMessage[] = [];
+  private transferReceiptHandlers: Set<TransferReceiptHandler> = new Set();
+  private pendingTransferReceipts: IncomingTransferReceipt[] = [];
   private broadcastHandlers: Map<string, Set<BroadcastHandler>> = new Map();
   private eventCallbacks: Set<TransportEventCallback> = new Set();
 
@@ -155,8 +203,13 @@ export class NostrTransportProvider implements TransportProvider {
       debug: config.debug ?? false,
       createWebSocket: config.createWebSocket,
       generateUUID: config.generateUUID ?? defaultUUIDGenerator,
+      paymentDelivery: config.paymentDelivery ?? 'auto',
+      outbox: config.outbox ?? true,
     };
     this.storage = config.storage ?? null;
+    this.giftWrapPeers = new GiftWrapPeerRegistry(this.storage);
+    this.relayHealth = new RelayHealthTracker(config.relayHealth);
+    this.configuredRelays = [...this.config.relays];
   }
 
   /**
@@ -180,6 +233,13 @@ export class NostrTransportProvider implements TransportProvider {
     return this.storage;
   }
 
+  /**
+   * Get the payment delivery mode (used by MultiAddressTransportMux).
+   */
+  getPaymentDeliveryMode(): PaymentDeliveryMode {
+    return this.config.paymentDelivery;
+  }
+
   /**
    * Suppress event subscriptions — unsubscribe wallet/chat filters
    * but keep the connection alive for resolve/identity-binding operations.
@@ -227,54 +287,13 @@ export class NostrTransportProvider implements TransportProvider {
         this.keyManager = NostrKeyManager.fromPrivateKey(tempKey);
       }
 
-      // Create NostrClient with robust connection handling:
-      // - autoReconnect: automatic reconnection with exponential backoff
-      // - pingIntervalMs: keepalive pings to detect stale connections
-      // - NIP-42 AUTH handling built-in
-      this.nostrClient = new NostrClient(this.keyManager, {
-        autoReconnect: this.config.autoReconnect,
-        reconnectIntervalMs: this.config.reconnectDelay,
-        maxReconnectIntervalMs: this.config.reconnectDelay * 16, // exponential backoff cap
-        pingIntervalMs: 15000, // 15 second keepalive pings (more aggressive to prevent drops)
-      });
-
-      // Add connection event listener for logging
-      this.nostrClient.addConnectionListener({
-        onConnect: (url) => {
-          logger.debug('Nostr', 'NostrClient connected to relay:', url);
-          this.emitEvent({ type: 'transport:connected', timestamp: Date.now() });
-        },
-        onDisconnect: (url, reason) => {
-          logger.debug('Nostr', 'NostrClient disconnected from relay:', url, 'reason:', reason);
-        },
-        onReconnecting: (url, attempt) => {
-          logger.debug('Nostr', 'NostrClient reconnecting to relay:', url, 'attempt:', attempt);
-          this.emitEvent({ type: 'transport:reconnecting', timestamp: Date.now() });
-        },
-        onReconnected: (url) => {
-          logger.debug('Nostr', 'NostrClient reconnected to relay:', url);
-          this.emitEvent({ type: 'transport:connected', timestamp: Date.now() });
-        },
-      });
-
-      // Connect to all relays (with timeout to prevent indefinite hang)
-      await Promise.race([
-        this.nostrClient.connect(...this.config.relays),
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error(
-            `Transport connection timed out after ${this.config.timeout}ms`
-          )), this.config.timeout)
-        ),
-      ]);
-
-      // Need at least one successful connection
-      if (!this.nostrClient.isConnected()) {
-        throw new SphereError('Failed to connect to any relay', 'TRANSPORT_ERROR');
-      }
+      this.nostrClient = this.createClient();
+      await this.connectRelays(this.nostrClient, 'connection');
 
       this.status = 'connected';
       this.emitEvent({ type: 'transport:connected', timestamp: Date.now() });
       logger.debug('Nostr', 'Connected to', this.nostrClient.getConnectedRelays().size, 'relays');
+      this.startRelayProbes();
 
       // Set up subscriptions
       if (this.identity) {
@@ -287,6 +306,7 @@ export class NostrTransportProvider implements TransportProvider {
   }
 
   async disconnect(): Promise<void> {
+    this.stopRelayProbes();
     if (this.nostrClient) {
       this.nostrClient.disconnect();
       this.nostrClient = null;
@@ -340,6 +360,7 @@ export class NostrTransportProvider implements TransportProvider {
 
     // Add to config
     this.config.relays.push(relayUrl);
+    if (!this.configuredRelays.includes(relayUrl)) this.configuredRelays.push(relayUrl);
 
     // Connect if provider is connected
     if (this.status === 'connected' && this.nostrClient) {
@@ -354,6 +375,7 @@ export class NostrTransportProvider implements TransportProvider {
         return true;
       } catch (error) {
         logger.debug('Nostr', 'Failed to connect to new relay:', relayUrl, error);
+        this.relayHealth.recordFailure(relayUrl, error);
         this.emitEvent({
           type: 'transport:relay_added',
           timestamp: Date.now(),
@@ -386,6 +408,7 @@ export class NostrTransportProvider implements TransportProvider {
 
     // Remove from config
     this.config.relays.splice(index, 1);
+    this.configuredRelays = this.configuredRelays.filter((url) => url !== relayUrl);
     logger.debug('Nostr', 'Removed relay from config:', relayUrl);
 
     this.emitEvent({
@@ -422,6 +445,89 @@ export class NostrTransportProvider implements TransportProvider {
     return this.nostrClient.getConnectedRelays().has(relayUrl);
   }
 
+  // ===========================================================================
+  // Relay Health
+  // ===========================================================================
+
+  /**
+   * Health metrics of the configured relays: latency, error rate, publish
+   * success and the resulting score and state.
+   */
+  getRelayMetrics(): RelayMetrics[] {
+    const connected = new Set(this.getConnectedRelays());
+    return this.config.relays.map((url) => ({
+      ...this.relayHealth.getMetrics(url),
+      connected: connected.has(url),
+    }));
+  }
+
+  /**
+   * Replace demoted relays with the best candidates: the configured relays
+   * not in use (once recovered) and `candidateRelays`. Runs after every
+   * probe round when `autoFailover` is enabled.
+   * @returns The relays that were removed and added
+   */
+  async checkRelayHealth(): Promise<RelayFailoverPlan> {
+    const candidates = [...new Set([...this.configuredRelays, ...this.relayHealth.config.candidateRelays])];
+    const plan = planFailover(this.config.relays, candidates, this.relayHealth);
+    if (plan.remove.length === 0 && plan.add.length === 0) return plan;
+
+    logger.warn('Nostr', 'Replacing unhealthy relays:', plan.remove, 'with:', plan.add);
+    this.config.relays = [
+      ...this.config.relays.filter((url) => !plan.remove.includes(url)),
+      ...plan.add,
+    ];
+
+    // NostrClient cannot drop a single relay, so the pool is rebuilt
+    if (this.nostrClient && this.status === 'connected') {
+      await this.replaceClient();
+    }
+
+    for (const relay of plan.remove) {
+      this.emitEvent({
+        type: 'transport:relay_removed',
+        timestamp: Date.now(),
+        data: { relay, reason: 'unhealthy', metrics: this.relayHealth.getMetrics(relay) },
+      });
+    }
+    for (const relay of plan.add) {
+      this.emitEvent({
+        type: 'transport:relay_added',
+        timestamp: Date.now(),
+        data: { relay, reason: 'failover', connected: this.isRelayConnected(relay) },
+      });
+    }
+
+    // Tell senders where to reach us now
+    if (this.identity && this.isConnected()) {
+      this.publishRelayList().catch((error) => {
+        logger.debug('Nostr', 'Relay list publish after failover failed:', error);
+      });
+    }
+    return plan;
+  }
+
+  /**
+   * Probe every relay in use and every configured relay that failover swapped
+   * out once, recording round trips and failures, then fail over if enabled.
+   */
+  async probeRelays(): Promise<void> {
+    const { probeTimeoutMs, autoFailover } = this.relayHealth.config;
+    const targets = [...new Set([...this.config.relays, ...this.configuredRelays])];
+    await Promise.all(targets.map(async (url) => {
+      try {
+        this.relayHealth.recordSuccess(url, await probeRelay(url, this.config.createWebSocket, probeTimeoutMs));
+      } catch (error) {
+        logger.debug('Nostr', 'Relay probe failed:', url, error);
+        this.relayHealth.recordFailure(url, error);
+      }
+    }));
+
+    if (autoFailover) {
+      await this.checkRelayHealth();
+    }
+  }
+
   // ===========================================================================
   // TransportProvider Implementation
   // ===========================================================================
@@ -446,43 +552,7 @@ export class NostrTransportProvider implements TransportProvider {
     // NostrClient doesn't support changing key at runtime
     if (this.nostrClient && this.status === 'connected') {
       logger.debug('Nostr', 'Identity changed while connected - recreating NostrClient');
-      const oldClient = this.nostrClient;
-
-      // Create new client with real identity
-      this.nostrClient = new NostrClient(this.keyManager, {
-        autoReconnect: this.config.autoReconnect,
-        reconnectIntervalMs: this.config.reconnectDelay,
-        maxReconnectIntervalMs: this.config.reconnectDelay * 16,
-        pingIntervalMs: 15000, // 15 second keepalive pings
-      });
-
-      // Add connection event listener
-      this.nostrClient.addConnectionListener({
-        onConnect: (url) => {
-          logger.debug('Nostr', 'NostrClient connected to relay:', url);
-        },
-        onDisconnect: (url, reason) => {
-          logger.debug('Nostr', 'NostrClient disconnected from relay:', url, 'reason:', reason);
-        },
-        onReconnecting: (url, attempt) => {
-          logger.debug('Nostr', 'NostrClient reconnecting to relay:', url, 'attempt:', attempt);
-        },
-        onReconnected: (url) => {
-          logger.debug('Nostr', 'NostrClient reconnected to relay:', url);
-        },
-      });
-
-      // Connect with new identity, set up subscriptions, then disconnect old client
-      await Promise.race([
-        this.nostrClient.connect(...this.config.relays),
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error(
-            `Transport reconnection timed out after ${this.config.timeout}ms`
-          )), this.config.timeout)
-        ),
-      ]);
-      await this.subscribeToEvents();
-      oldClient.disconnect();
+      await this.replaceClient();
     } else if (this.isConnected()) {
       // Already connected with right key, just subscribe
       await this.subscribeToEvents();
@@ -521,7 +591,7 @@ export class NostrTransportProvider implements TransportProvider {
     // Create NIP-17 gift-wrapped message (kind 1059) for recipient
     const giftWrap = NIP17.createGiftWrap(this.keyManager!, nostrRecipient, wrappedContent);
 
-    await this.publishEvent(giftWrap);
+    await this.publishForRecipient(giftWrap, nostrRecipient);
 
     // NIP-17 self-wrap: send a copy to ourselves so relay can replay sent messages.
     // Content includes recipientPubkey and originalId for dedup against the live-sent record.
@@ -569,7 +639,7 @@ export class NostrTransportProvider implements TransportProvider {
 
   async sendTokenTransfer(
     recipientPubkey: string,
-    payload: TokenTransferPayload
+    payload: TokenTransferPayload | EscrowPayload | SwapPayload
   ): Promise<string> {
     this.ensureReady();
 
@@ -584,7 +654,7 @@ export class NostrTransportProvider implements TransportProvider {
     // Fix: use a unique d-tag per event so each transfer is its own slot.
     const uniqueD = `token-transfer-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 
-    const event = await this.createEncryptedEvent(
+    const eventId = await this.publishWalletPayload(
       EVENT_KINDS.TOKEN_TRANSFER,
       content,
       [
@@ -594,15 +664,13 @@ export class NostrTransportProvider implements TransportProvider {
       ]
     );
 
-    await this.publishEvent(event);
-
     this.emitEvent({
       type: 'transfer:sent',
       timestamp: Date.now(),
       data: { recipient: recipientPubkey },
     });
 
-    return event.id;
+    return eventId;
   }
 
   onTokenTransfer(handler: TokenTransferHandler): () => void {
@@ -642,17 +710,15 @@ export class NostrTransportProvider implements TransportProvider {
       tags.push(['recipient', payload.recipientNametag]);
     }
 
-    const event = await this.createEncryptedEvent(
+    const eventId = await this.publishWalletPayload(
       EVENT_KINDS.PAYMENT_REQUEST,
       content,
       tags
     );
 
-    await this.publishEvent(event);
+    logger.debug('Nostr', 'Sent payment request:', eventId);
 
-    logger.debug('Nostr', 'Sent payment request:', event.id);
-
-    return event.id;
+    return eventId;
   }
 
   onPaymentRequest(handler: PaymentRequestHandler): () => void {
@@ -677,7 +743,7 @@ export class NostrTransportProvider implements TransportProvider {
     // Create encrypted payment request response event
     // Content must have "payment_response:" prefix for nostr-js-sdk compatibility
     const content = 'payment_response:' + JSON.stringify(responseContent);
-    const event = await this.createEncryptedEvent(
+    const eventId = await this.publishWalletPayload(
       EVENT_KINDS.PAYMENT_REQUEST_RESPONSE,
       content,
       [
@@ -688,11 +754,9 @@ export class NostrTransportProvider implements TransportProvider {
       ]
     );
 
-    await this.publishEvent(event);
-
-    logger.debug('Nostr', 'Sent payment request response:', event.id, 'type:', payload.responseType);
+    logger.debug('Nostr', 'Sent payment request response:', eventId, 'type:', payload.responseType);
 
-    return event.id;
+    return eventId;
   }
 
   onPaymentRequestResponse(handler: PaymentRequestResponseHandler): () => void {
@@ -746,6 +810,74 @@ export class NostrTransportProvider implements TransportProvider {
     return () => this.typingIndicatorHandlers.delete(handler);
   }
 
+  // ===========================================================================
+  // Social Recovery
+  // ===========================================================================
+
+  async sendRecoveryMessage(recipientTransportPubkey: string, payload: RecoveryPayload): Promise<string> {
+    this.ensureReady();
+
+    const nostrRecipient = recipientTransportPubkey.length === 66
+      ? recipientTransportPubkey.slice(2)
+      : recipientTransportPubkey;
+
+    // No self-wrap: shares must not be replayed into our own chat history
+    const content = JSON.stringify({
+      type: 'recovery',
+      senderNametag: this.identity?.nametag,
+      payload,
+    });
+    const giftWrap = NIP17.createGiftWrap(this.keyManager!, nostrRecipient, content);
+    await this.publishEvent(giftWrap);
+    return giftWrap.id;
+  }
+
+  onRecoveryMessage(handler: RecoveryMessageHandler): () => void {
+    this.recoveryHandlers.add(handler);
+
+    // Flush recovery messages that arrived before this handler was registered
+    if (this.pendingRecoveryMessages.length > 0) {
+      const pending = this.pendingRecoveryMessages;
+      this.pendingRecoveryMessages = [];
+      for (const message of pending) {
+        try { handler(message); } catch (e) { logger.debug('Nostr', 'Recovery handler error:', e); }
+      }
+    }
+    return () => this.recoveryHandlers.delete(handler);
+  }
+
+  // ===========================================================================
+  // Transfer Receipts
+  // ===========================================================================
+
+  async sendTransferReceipt(recipientTransportPubkey: string, receipt: TransferReceiptPayload): Promise<string> {
+    this.ensureReady();
+
+    const nostrRecipient = recipientTransportPubkey.length === 66
+      ? recipientTransportPubkey.slice(2)
+      : recipientTransportPubkey;
+
+    // No self-wrap: receipts are protocol messages, not chat history
+    const content = JSON.stringify({ type: 'transfer_receipt', receipt });
+    const giftWrap = NIP17.createGiftWrap(this.keyManager!, nostrRecipient, content);
+    await this.publishEvent(giftWrap);
+    return giftWrap.id;
+  }
+
+  onTransferReceipt(handler: TransferReceiptHandler): () => void {
+    this.transferReceiptHandlers.add(handler);
+
+    // Flush receipts that arrived before this handler was registered
+    if (this.pendingTransferReceipts.length > 0) {
+      const pending = this.pendingTransferReceipts;
+      this.pendingTransferReceipts = [];
+      for (const receipt of pending) {
+        try { handler(receipt); } catch (e) { logger.debug('Nostr', 'Transfer receipt handler error:', e); }
+      }
+    }
+    return () => this.transferReceiptHandlers.delete(handler);
+  }
+
   onChatReady(handler: () => void): () => void {
     // If EOSE already fired, invoke immediately
     if (this.chatEoseFired) {
@@ -1066,6 +1198,7 @@ export class NostrTransportProvider implements TransportProvider {
 
         if (success) {
           logger.debug('Nostr', 'Published identity binding with Unicity ID:', nametag, 'for pubkey:', nostrPubkey.slice(0, 16) + '...');
+          await this.publishRelayListAlongsideBinding();
         }
         return success;
       } catch (error) {
@@ -1087,10 +1220,98 @@ export class NostrTransportProvider implements TransportProvider {
 
     if (success) {
       logger.debug('Nostr', 'Published identity binding (no Unicity ID) for pubkey:', nostrPubkey.slice(0, 16) + '...');
+      await this.publishRelayListAlongsideBinding();
     }
     return success;
   }
 
+  // ===========================================================================
+  // NIP-65 Relay Lists
+  // ===========================================================================
+
+  /**
+   * Publish our NIP-65 relay list (kind 10002): the configured relays, for
+   * both reading and writing. Also published with the identity binding and
+   * after a failover.
+   */
+  async publishRelayList(): Promise<void> {
+    this.ensureReady();
+
+    const tags = createRelayListTags({ read: this.config.relays, write: this.config.relays });
+    const event = await this.createEvent(EVENT_KINDS.RELAY_LIST, '', tags);
+    await this.publishEvent(event);
+    this.relayListCache.set(event.pubkey, { list: parseRelayList(event), fetchedAt: Date.now() });
+    logger.debug('Nostr', 'Published relay list:', this.config.relays);
+  }
+
+  /**
+   * Fetch the NIP-65 relay list of a user (cached for 10 minutes).
+   * @param pubkey - Nostr pubkey, x-only or compressed
+   * @returns The newest relay list, or null if the user has none
+   */
+  async fetchRelayList(pubkey: string): Promise<RelayList | null> {
+    const author = toXOnly(pubkey);
+    const cached = this.relayListCache.get(author);
+    if (cached && Date.now() - cached.fetchedAt < RELAY_LIST_CACHE_TTL) {
+      return cached.list;
+    }
+
+    const events = await this.queryEvents({ kinds: [EVENT_KINDS.RELAY_LIST], authors: [author], limit: 1 });
+    const newest = events
+      .filter((event) => event.pubkey === author)
+      .reduce<NostrEvent | null>((latest, event) => (!latest || event.created_at > latest.created_at ? event : latest), null);
+    const list = newest ? parseRelayList(newest) : null;
+
+    this.relayListCache.set(author, { list, fetchedAt: Date.now() });
+    return list;
+  }
+
+  /**
+   * Publish an event to the recipient's read relays that are not in the
+   * relay pool, best scored first. Never rejects.
+   * Used by MultiAddressTransportMux for events signed by other addresses.
+   * @returns Relays that accepted the event
+   */
+  async publishToReadRelays(event: NostrEvent, recipientPubkey: string): Promise<string[]> {
+    try {
+      const relayList = await this.fetchRelayList(recipientPubkey);
+      if (!relayList) return [];
+
+      const pool = new Set(this.getConnectedRelays());
+      const targets = this.relayHealth
+        .rank(relayList.read.filter((url) => !pool.has(url) && this.relayHealth.getState(url) !== 'demoted'))
+        .slice(0, MAX_OUTBOX_RELAYS);
+      if (targets.length === 0) return [];
+
+      // The recipient picks these relays: answer AUTH with a throwaway key so
+      // they never link the connection to this wallet's identity
+      const results = await publishToRelays(event, targets, {
+        createWebSocket: this.config.createWebSocket,
+        keyManager: NostrKeyManager.generate(),
+        timeoutMs: OUTBOX_PUBLISH_TIMEOUT,
+      });
+      for (const result of results) {
+        this.relayHealth.recordPublish(result.url, result.accepted, result.accepted ? result.latencyMs : undefined, result.error);
+      }
+
+      const accepted = results.filter((result) => result.accepted).map((result) => result.url);
+      logger.debug('Nostr', 'Outbox publish of', event.id.slice(0, 16), 'accepted by', accepted);
+      return accepted;
+    } catch (error) {
+      logger.debug('Nostr', 'Outbox publish failed:', error);
+      return [];
+    }
+  }
+
+  /** Publishing the relay list must not fail the binding it accompanies */
+  private async publishRelayListAlongsideBinding(): Promise<void> {
+    try {
+      await this.publishRelayList();
+    } catch (error) {
+      logger.warn('Nostr', 'Failed to publish relay list:', error);
+    }
+  }
+
   // Track broadcast subscriptions
   private broadcastSubscriptions: Map<string, string> = new Map(); // key -> subId
 
@@ -1165,13 +1386,9 @@ export class NostrTransportProvider implements TransportProvider {
           await this.handleGiftWrap(event);
           break;
         case EVENT_KINDS.TOKEN_TRANSFER:
-          await this.handleTokenTransfer(event);
-          break;
         case EVENT_KINDS.PAYMENT_REQUEST:
-          await this.handlePaymentRequest(event);
-          break;
         case EVENT_KINDS.PAYMENT_REQUEST_RESPONSE:
-          await this.handlePaymentRequestResponse(event);
+          await this.handleLegacyWalletEvent(event);
           break;
         case EVENT_KINDS.BROADCAST:
           this.handleBroadcast(event);
@@ -1260,6 +1477,19 @@ export class NostrTransportProvider implements TransportProvider {
         return;
       }
 
+      // Gift-wrapped token transfers and payment requests (rumor kind = legacy kind)
+      if (isWalletPayloadKind(pm.kind)) {
+        this.giftWrapPeers.add(pm.senderPubkey);
+        await this.handleWalletPayload({
+          id: event.id,
+          kind: pm.kind,
+          senderPubkey: pm.senderPubkey,
+          content: pm.content,
+          createdAt: pm.timestamp,
+        });
+        return;
+      }
+
       // Handle read receipts (kind 15)
       if (isReadReceipt(pm)) {
         logger.debug('Nostr', 'Read receipt from:', pm.senderPubkey?.slice(0, 16), 'for:', pm.replyToEventId);
@@ -1300,8 +1530,44 @@ export class NostrTransportProvider implements TransportProvider {
       }
 
       // Handle typing indicators (JSON content with type: 'typing')
+      // and social recovery messages (type: 'recovery')
       try {
         const parsed = JSON.parse(pm.content);
+        if (parsed?.type === 'recovery' && parsed.payload?.type) {
+          logger.debug('Nostr', 'Recovery message from:', pm.senderPubkey?.slice(0, 16), 'type:', parsed.payload.type);
+          const message: IncomingRecoveryMessage = {
+            id: event.id,
+            senderTransportPubkey: pm.senderPubkey,
+            senderNametag: parsed.senderNametag || undefined,
+            payload: parsed.payload as RecoveryPayload,
+            timestamp: pm.timestamp * 1000,
+          };
+          if (this.recoveryHandlers.size === 0) {
+            this.pendingRecoveryMessages.push(message);
+          } else {
+            for (const handler of this.recoveryHandlers) {
+              try { handler(message); } catch (e) { logger.debug('Nostr', 'Recovery handler error:', e); }
+            }
+          }
+          return;
+        }
+        if (parsed?.type === 'transfer_receipt' && parsed.receipt?.transferId) {
+          logger.debug('Nostr', 'Transfer receipt from:', pm.senderPubkey?.slice(0, 16), 'for:', parsed.receipt.transferId);
+          const receipt: IncomingTransferReceipt = {
+            id: event.id,
+            senderTransportPubkey: pm.senderPubkey,
+            receipt: parsed.receipt as TransferReceiptPayload,
+            timestamp: pm.timestamp * 1000,
+          };
+          if (this.transferReceiptHandlers.size === 0) {
+            this.pendingTransferReceipts.push(receipt);
+          } else {
+            for (const handler of this.transferReceiptHandlers) {
+              try { handler(receipt); } catch (e) { logger.debug('Nostr', 'Transfer receipt handler error:', e); }
+            }
+          }
+          return;
+        }
         if (parsed?.type === 'typing') {
           logger.debug('Nostr', 'Typing indicator from:', pm.senderPubkey?.slice(0, 16));
           const indicator: IncomingTypingIndicator = {
@@ -1370,111 +1636,73 @@ export class NostrTransportProvider implements TransportProvider {
     }
   }
 
-  private async handleTokenTransfer(event: NostrEvent): Promise<void> {
+  /**
+   * Legacy NIP-04 wallet event: decrypt, note the sender's gift-wrap
+   * capability and hand over to the shared payload handler
+   */
+  private async handleLegacyWalletEvent(event: NostrEvent): Promise<void> {
     if (!this.identity) return;
 
-    // Decrypt content
+    if (hasGiftWrapCapability(event.tags)) {
+      this.giftWrapPeers.add(event.pubkey);
+    }
     const content = await this.decryptContent(event.content, event.pubkey);
-    const payload = JSON.parse(content) as TokenTransferPayload;
-
-    const transfer: IncomingTokenTransfer = {
+    await this.handleWalletPayload({
       id: event.id,
-      senderTransportPubkey: event.pubkey,
-      payload,
-      timestamp: event.created_at * 1000,
-    };
-
-    this.emitEvent({ type: 'transfer:received', timestamp: Date.now() });
-
-    for (const handler of this.transferHandlers) {
-      try {
-        await handler(transfer);
-      } catch (error) {
-        logger.debug('Nostr', 'Transfer handler error:', error);
-      }
-    }
+      kind: event.kind,
+      senderPubkey: event.pubkey,
+      content,
+      createdAt: event.created_at,
+    });
   }
 
-  private async handlePaymentRequest(event: NostrEvent): Promise<void> {
-    if (!this.identity) return;
-
+  /**
+   * Dispatch a token transfer, payment request or response, whether it came
+   * as a legacy event or gift wrapped
+   */
+  private async handleWalletPayload(envelope: WalletPayloadEnvelope): Promise<void> {
+    let payload;
     try {
-      // Decrypt content
-      const content = await this.decryptContent(event.content, event.pubkey);
-      const requestData = JSON.parse(content) as {
-        requestId: string;
-        amount: string;
-        coinId: string;
-        message?: string;
-        recipientNametag?: string;
-        metadata?: Record<string, unknown>;
-      };
-
-      const request: IncomingPaymentRequest = {
-        id: event.id,
-        senderTransportPubkey: event.pubkey,
-        senderNametag: requestData.recipientNametag,
-        request: {
-          requestId: requestData.requestId,
-          amount: requestData.amount,
-          coinId: requestData.coinId,
-          message: requestData.message,
-          recipientNametag: requestData.recipientNametag,
-          metadata: requestData.metadata,
-        },
-        timestamp: event.created_at * 1000,
-      };
-
-      logger.debug('Nostr', 'Received payment request:', request.id);
-
-      for (const handler of this.paymentRequestHandlers) {
-        try {
-          handler(request);
-        } catch (error) {
-          logger.debug('Nostr', 'Payment request handler error:', error);
-        }
-      }
+      payload = parseWalletPayload(envelope);
     } catch (error) {
-      logger.debug('Nostr', 'Failed to handle payment request:', error);
+      logger.debug('Nostr', 'Failed to parse wallet payload:', error);
+      return;
     }
-  }
-
-  private async handlePaymentRequestResponse(event: NostrEvent): Promise<void> {
-    if (!this.identity) return;
+    if (!payload) return;
 
-    try {
-      // Decrypt content
-      const content = await this.decryptContent(event.content, event.pubkey);
-      const responseData = JSON.parse(content) as {
-        requestId: string;
-        responseType: 'accepted' | 'rejected' | 'paid';
-        message?: string;
-        transferId?: string;
-      };
-
-      const response: IncomingPaymentRequestResponse = {
-        id: event.id,
-        responderTransportPubkey: event.pubkey,
-        response: {
-          requestId: responseData.requestId,
-          responseType: responseData.responseType,
-          message: responseData.message,
-          transferId: responseData.transferId,
-        },
-        timestamp: event.created_at * 1000,
-      };
+    switch (payload.type) {
+      case 'token_transfer':
+        this.emitEvent({ type: 'transfer:received', timestamp: Date.now() });
+        for (const handler of this.transferHandlers) {
+          try {
+            await handler(payload.transfer);
+          } catch (error) {
+            logger.debug('Nostr', 'Transfer handler error:', error);
+          }
+        }
+        break;
 
-      logger.debug('Nostr', 'Received payment request response:', response.id, 'type:', responseData.responseType);
+      case 'payment_request':
+        logger.debug('Nostr', 'Received payment request:', payload.request.id);
+        for (const handler of this.paymentRequestHandlers) {
+          try {
+            handler(payload.request);
+          } catch (error) {
+            logger.debug('Nostr', 'Payment request handler error:', error);
+          }
+        }
+        break;
 
-      for (const handler of this.paymentRequestResponseHandlers) {
-        try {
-          handler(response);
-        } catch (error) {
-          logger.debug('Nostr', 'Payment request response handler error:', error);
+      case 'payment_response':
+        logger.debug('Nostr', 'Received payment request response:', payload.response.id, 'type:', payload.response.response.responseType);
+        for (const handler of this.paymentRequestResponseHandlers) {
+          try {
+            handler(payload.response);
+          } catch (error) {
+            logger.debug('Nostr', 'Payment request response handler error:', error);
+          }
         }
-      }
-    } catch (error) {
-      logger.debug('Nostr', 'Failed to handle payment request response:', error);
+        break;
     }
   }
 
@@ -1563,14 +1791,67 @@ export class NostrTransportProvider implements TransportProvider {
     return this.createEvent(kind, encrypted, tags);
   }
 
+  /**
+   * Publish a token transfer, payment request or response: gift wrapped if
+   * the delivery mode and the peer allow it, otherwise as a legacy NIP-04
+   * event that announces gift-wrap support in auto mode.
+   * @returns Event ID of the published event
+   */
+  private async publishWalletPayload(kind: number, content: string, tags: string[][]): Promise<string> {
+    const recipientPubkey = tags.find((t) => t[0] === 'p')![1];
+    const mode = this.config.paymentDelivery;
+
+    if (await this.giftWrapPeers.shouldGiftWrap(mode, recipientPubkey)) {
+      const giftWrap = this.createCustomKindGiftWrap(toXOnly(recipientPubkey), content, kind);
+      await this.publishForRecipient(giftWrap, recipientPubkey);
+      return giftWrap.id;
+    }
+
+    const legacyTags = mode === 'auto' ? [...tags, [...GIFT_WRAP_CAPABILITY_TAG]] : tags;
+    const event = await this.createEncryptedEvent(kind, content, legacyTags);
+    await this.publishForRecipient(event, recipientPubkey);
+    return event.id;
+  }
+
   private async publishEvent(event: NostrEvent): Promise<void> {
     if (!this.nostrClient) {
       throw new SphereError('NostrClient not initialized', 'NOT_INITIALIZED');
     }
 
+    // The pool answers once for all relays, so its outcome only feeds the
+    // publish counters of the relays connected at the time, not their health
+    const relays = this.getConnectedRelays();
+
     // Convert to nostr-js-sdk Event and publish
     const sdkEvent = NostrEventClass.fromJSON(event);
-    await this.nostrClient.publishEvent(sdkEvent);
+    try {
+      await this.nostrClient.publishEvent(sdkEvent);
+    } catch (error) {
+      for (const url of relays) this.relayHealth.recordPublishAttempt(url, false);
+      throw error;
+    }
+    for (const url of relays) this.relayHealth.recordPublishAttempt(url, true);
+  }
+
+  /**
+   * Publish an event addressed to a recipient: to the relay pool and, with
+   * the outbox model enabled, to the recipient's read relays outside the
+   * pool. Succeeds if the pool or any read relay accepted the event; once
+   * the pool accepted, read relay delivery completes in the background.
+   */
+  private async publishForRecipient(event: NostrEvent, recipientPubkey: string): Promise<void> {
+    if (!this.config.outbox) {
+      await this.publishEvent(event);
+      return;
+    }
+
+    const outbox = this.publishToReadRelays(event, recipientPubkey);
+    try {
+      await this.publishEvent(event);
+    } catch (error) {
+      if ((await outbox).length === 0) throw error;
+      logger.debug('Nostr', 'Relay pool rejected', event.id.slice(0, 16), '- delivered via outbox relays');
+    }
   }
 
   async fetchPendingEvents(): Promise<void> {
@@ -1663,6 +1944,127 @@ export class NostrTransportProvider implements TransportProvider {
     });
   }
 
+  // ===========================================================================
+  // Private: Relay Pool
+  // ===========================================================================
+
+  /**
+   * Create a NostrClient with robust connection handling:
+   * - autoReconnect: automatic reconnection with exponential backoff
+   * - pingIntervalMs: keepalive pings to detect stale connections
+   * - NIP-42 AUTH handling built-in
+   * Connection events of the current client feed the relay health metrics.
+   */
+  private createClient(): NostrClient {
+    const client = new NostrClient(this.keyManager!, {
+      autoReconnect: this.config.autoReconnect,
+      reconnectIntervalMs: this.config.reconnectDelay,
+      maxReconnectIntervalMs: this.config.reconnectDelay * 16, // exponential backoff cap
+      pingIntervalMs: 15000, // 15 second keepalive pings (more aggressive to prevent drops)
+    });
+
+    // Events of a replaced client are ignored
+    const isCurrent = () => client === this.nostrClient;
+    client.addConnectionListener({
+      onConnect: (url) => {
+        logger.debug('Nostr', 'NostrClient connected to relay:', url);
+        if (!isCurrent()) return;
+        this.relayHealth.recordConnected(url);
+        this.emitEvent({ type: 'transport:connected', timestamp: Date.now() });
+      },
+      onDisconnect: (url, reason) => {
+        logger.debug('Nostr', 'NostrClient disconnected from relay:', url, 'reason:', reason);
+        if (!isCurrent()) return;
+        this.relayHealth.recordDisconnected(url, reason === 'Client disconnected' ? undefined : reason);
+      },
+      onReconnecting: (url, attempt) => {
+        logger.debug('Nostr', 'NostrClient reconnecting to relay:', url, 'attempt:', attempt);
+        if (!isCurrent()) return;
+        // Attempts after the first mean the previous one failed
+        if (attempt > 1) this.relayHealth.recordFailure(url, `Reconnect attempt ${attempt - 1} failed`);
+        this.emitEvent({ type: 'transport:reconnecting', timestamp: Date.now() });
+      },
+      onReconnected: (url) => {
+        logger.debug('Nostr', 'NostrClient reconnected to relay:', url);
+        if (!isCurrent()) return;
+        this.relayHealth.recordConnected(url);
+        this.emitEvent({ type: 'transport:connected', timestamp: Date.now() });
+      },
+    });
+    return client;
+  }
+
+  /**
+   * Connect a client to the configured relays. Relays that fail are recorded
+   * and retried by the client; at least one relay must connect within the
+   * timeout.
+   */
+  private async connectRelays(client: NostrClient, operation: 'connection' | 'reconnection'): Promise<void> {
+    const attempts = this.config.relays.map((url) =>
+      client.connect(url).catch((error) => {
+        logger.debug('Nostr', 'Failed to connect to relay:', url, error);
+        this.relayHealth.recordFailure(url, error);
+      })
+    );
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settled = await Promise.race([
+      Promise.all(attempts).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), this.config.timeout);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!client.isConnected()) {
+      throw settled
+        ? new SphereError('Failed to connect to any relay', 'TRANSPORT_ERROR')
+        : new SphereError(`Transport ${operation} timed out after ${this.config.timeout}ms`, 'TIMEOUT');
+    }
+  }
+
+  /**
+   * Replace the NostrClient (new key or relay set): connect the new client,
+   * move the subscriptions over, then close the old one.
+   */
+  private async replaceClient(): Promise<void> {
+    const oldClient = this.nostrClient;
+    this.nostrClient = this.createClient();
+    try {
+      await this.connectRelays(this.nostrClient, 'reconnection');
+    } catch (error) {
+      this.nostrClient.disconnect();
+      this.nostrClient = oldClient;
+      throw error;
+    }
+
+    await this.subscribeToEvents();
+    this.broadcastSubscriptions.clear();
+    for (const key of this.broadcastHandlers.keys()) {
+      this.subscribeToTags(key.split(':'));
+    }
+    oldClient?.disconnect();
+  }
+
+  private startRelayProbes(): void {
+    this.stopRelayProbes();
+    const { probeIntervalMs } = this.relayHealth.config;
+    if (probeIntervalMs <= 0) return;
+
+    this.probeTimer = setInterval(() => {
+      this.probeRelays().catch((error) => {
+        logger.debug('Nostr', 'Relay probe round failed:', error);
+      });
+    }, probeIntervalMs);
+  }
+
+  private stopRelayProbes(): void {
+    if (this.probeTimer) {
+      clearInterval(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
   // ===========================================================================
   // Private: Subscriptions
   // ===========================================================================
@@ -1852,27 +2254,7 @@ export class NostrTransportProvider implements TransportProvider {
     );
 
     // Strip known prefixes for compatibility with nostr-js-sdk
-    return this.stripContentPrefix(decrypted);
-  }
-
-  /**
-   * Strip known content prefixes (nostr-js-sdk compatibility)
-   * Handles: payment_request:, token_transfer:, etc.
-   */
-  private stripContentPrefix(content: string): string {
-    const prefixes = [
-      'payment_request:',
-      'token_transfer:',
-      'payment_response:',
-    ];
-
-    for (const prefix of prefixes) {
-      if (content.startsWith(prefix)) {
-        return content.slice(prefix.length);
-      }
-    }
-
-    return content;
+    return stripContentPrefix(decrypted);
   }
 
   // ===========================================================================
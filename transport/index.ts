@@ -2,3 +2,6 @@ export * from './transport-provider';
 export * from './websocket';
 export * from './NostrTransportProvider';
 export * from './MultiAddressTransportMux';
+export * from './wallet-payloads';
+export * from './relay-health';
+export * from './relay-list';
@@ -0,0 +1,396 @@
+/**
+ * Relay Health
+ *
+ * Tracks per-relay latency, error rate and publish success, scores relays
+ * and decides when an unhealthy relay should be demoted and replaced.
+ *
+ * Outcomes come from connections, publishes and periodic probes (a REQ that
+ * can never match, answered by EOSE). A relay is demoted after
+ * `maxConsecutiveFailures` failures in a row, or once it has `minSamples`
+ * outcomes and its error rate or average latency exceeds the limits.
+ * Demotion is re-evaluated on every outcome, so a relay that recovers is
+ * healthy again.
+ */
+
+import { SphereError } from '../core/errors';
+import type { IWebSocket, WebSocketFactory } from './websocket';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RelayHealthConfig {
+  /** Error rate over the sample window above which a relay is demoted (default: 0.5) */
+  maxErrorRate: number;
+  /** Outcomes needed before error rate and latency are judged (default: 5) */
+  minSamples: number;
+  /** Average latency (ms) above which a relay is demoted (default: 5000) */
+  maxLatencyMs: number;
+  /** Failures in a row that demote a relay regardless of the window (default: 3) */
+  maxConsecutiveFailures: number;
+  /** Number of recent outcomes the error rate is computed over (default: 20) */
+  windowSize: number;
+  /** Interval (ms) between relay probes, 0 disables probing (default: 60000) */
+  probeIntervalMs: number;
+  /** Probe timeout (ms) (default: 5000) */
+  probeTimeoutMs: number;
+  /** Replace demoted relays with candidate relays automatically (default: true) */
+  autoFailover: boolean;
+  /**
+   * Relays that may replace demoted ones, besides the transport's configured
+   * relays (default: none; the provider factories pass the network's relays)
+   */
+  candidateRelays: string[];
+  /** Time (ms) a demoted relay is not picked as a replacement (default: 600000) */
+  demotionCooldownMs: number;
+}
+
+export const DEFAULT_RELAY_HEALTH_CONFIG: Readonly<RelayHealthConfig> = {
+  maxErrorRate: 0.5,
+  minSamples: 5,
+  maxLatencyMs: 5000,
+  maxConsecutiveFailures: 3,
+  windowSize: 20,
+  probeIntervalMs: 60000,
+  probeTimeoutMs: 5000,
+  autoFailover: true,
+  candidateRelays: [],
+  demotionCooldownMs: 10 * 60 * 1000,
+};
+
+/**
+ * - `healthy`: no recent trouble
+ * - `degraded`: failing or slow, but not yet past the demotion limits
+ * - `demoted`: past the limits, replaced on the next failover
+ */
+export type RelayHealthState = 'healthy' | 'degraded' | 'demoted';
+
+/** Health snapshot of one relay */
+export interface RelayMetrics {
+  url: string;
+  connected: boolean;
+  state: RelayHealthState;
+  /** 0..1, higher is better; 0.5 for relays without samples */
+  score: number;
+  /** Moving average of probe and publish round trips (ms), null until measured */
+  latencyMs: number | null;
+  /** Failure share of the recent outcomes (0..1) */
+  errorRate: number;
+  /** Number of recent outcomes the error rate is based on */
+  samples: number;
+  consecutiveFailures: number;
+  publishAttempts: number;
+  publishSuccesses: number;
+  /** publishSuccesses / publishAttempts, null before the first publish */
+  publishSuccessRate: number | null;
+  connects: number;
+  disconnects: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  /** Last successful outcome (ms timestamp) */
+  lastSeenAt: number | null;
+}
+
+/** Relays to drop from and add to the relay set */
+export interface RelayFailoverPlan {
+  remove: string[];
+  add: string[];
+}
+
+interface RelayRecord {
+  outcomes: boolean[];
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  publishAttempts: number;
+  publishSuccesses: number;
+  connects: number;
+  disconnects: number;
+  connected: boolean;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSeenAt: number | null;
+  demotedAt: number | null;
+}
+
+/** Weight of the newest latency sample in the moving average */
+const LATENCY_SMOOTHING = 0.3;
+
+// =============================================================================
+// RelayHealthTracker
+// =============================================================================
+
+export class RelayHealthTracker {
+  readonly config: RelayHealthConfig;
+  private records = new Map<string, RelayRecord>();
+
+  constructor(config: Partial<RelayHealthConfig> = {}) {
+    this.config = {
+      ...DEFAULT_RELAY_HEALTH_CONFIG,
+      ...config,
+      candidateRelays: [...(config.candidateRelays ?? DEFAULT_RELAY_HEALTH_CONFIG.candidateRelays)],
+    };
+  }
+
+  /** Record a successful round trip, with its latency when measured */
+  recordSuccess(url: string, latencyMs?: number): void {
+    const record = this.record(url);
+    this.pushOutcome(record, true);
+    record.consecutiveFailures = 0;
+    record.lastSeenAt = Date.now();
+    if (latencyMs !== undefined) {
+      record.latencyMs = record.latencyMs === null
+        ? latencyMs
+        : record.latencyMs + LATENCY_SMOOTHING * (latencyMs - record.latencyMs);
+    }
+    this.updateDemotion(url, record);
+  }
+
+  recordFailure(url: string, error: unknown): void {
+    const record = this.record(url);
+    this.pushOutcome(record, false);
+    record.consecutiveFailures++;
+    record.lastError = error instanceof Error ? error.message : String(error);
+    record.lastErrorAt = Date.now();
+    this.updateDemotion(url, record);
+  }
+
+  /** Record whether a relay accepted a published event */
+  recordPublish(url: string, accepted: boolean, latencyMs?: number, error?: unknown): void {
+    this.recordPublishAttempt(url, accepted);
+    if (accepted) {
+      this.recordSuccess(url, latencyMs);
+    } else {
+      this.recordFailure(url, error ?? 'Event rejected');
+    }
+  }
+
+  /**
+   * Count a publish without judging the relay's health, for outcomes that
+   * cannot be attributed to a single relay
+   */
+  recordPublishAttempt(url: string, accepted: boolean): void {
+    const record = this.record(url);
+    record.publishAttempts++;
+    if (accepted) record.publishSuccesses++;
+  }
+
+  recordConnected(url: string): void {
+    const record = this.record(url);
+    record.connects++;
+    record.connected = true;
+    this.recordSuccess(url);
+  }
+
+  /** Record a lost connection; `error` counts it as a failure */
+  recordDisconnected(url: string, error?: unknown): void {
+    const record = this.record(url);
+    record.disconnects++;
+    record.connected = false;
+    if (error !== undefined) this.recordFailure(url, error);
+  }
+
+  getState(url: string): RelayHealthState {
+    const record = this.records.get(url);
+    if (!record) return 'healthy';
+    if (this.isUnhealthy(record)) return 'demoted';
+
+    const { maxErrorRate, maxLatencyMs, minSamples } = this.config;
+    const slow = record.latencyMs !== null && record.latencyMs > maxLatencyMs / 2;
+    const failing = record.outcomes.length >= minSamples && errorRate(record) > maxErrorRate / 2;
+    return record.consecutiveFailures > 0 || slow || failing ? 'degraded' : 'healthy';
+  }
+
+  /** True while a relay demoted within `demotionCooldownMs` should not be reused */
+  isCoolingDown(url: string): boolean {
+    const demotedAt = this.records.get(url)?.demotedAt;
+    return demotedAt != null && Date.now() - demotedAt < this.config.demotionCooldownMs;
+  }
+
+  getScore(url: string): number {
+    const record = this.records.get(url);
+    if (!record || record.outcomes.length === 0) return 0.5;
+    const { maxLatencyMs } = this.config;
+    const latencyFactor = record.latencyMs === null ? 1 : maxLatencyMs / (maxLatencyMs + record.latencyMs);
+    return (1 - errorRate(record)) * latencyFactor;
+  }
+
+  getMetrics(url: string): RelayMetrics {
+    const record = this.records.get(url) ?? createRecord();
+    return {
+      url,
+      connected: record.connected,
+      state: this.getState(url),
+      score: Math.round(this.getScore(url) * 1000) / 1000,
+      latencyMs: record.latencyMs === null ? null : Math.round(record.latencyMs),
+      errorRate: errorRate(record),
+      samples: record.outcomes.length,
+      consecutiveFailures: record.consecutiveFailures,
+      publishAttempts: record.publishAttempts,
+      publishSuccesses: record.publishSuccesses,
+      publishSuccessRate: record.publishAttempts > 0 ? record.publishSuccesses / record.publishAttempts : null,
+      connects: record.connects,
+      disconnects: record.disconnects,
+      lastError: record.lastError,
+      lastErrorAt: record.lastErrorAt,
+      lastSeenAt: record.lastSeenAt,
+    };
+  }
+
+  /** Relays ordered best first (stable for equal scores) */
+  rank(urls: string[]): string[] {
+    return urls
+      .map((url, index) => ({ url, index, score: this.getScore(url) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ url }) => url);
+  }
+
+  /** Drop everything known about a relay */
+  forget(url: string): void {
+    this.records.delete(url);
+  }
+
+  private record(url: string): RelayRecord {
+    let record = this.records.get(url);
+    if (!record) {
+      record = createRecord();
+      this.records.set(url, record);
+    }
+    return record;
+  }
+
+  private pushOutcome(record: RelayRecord, success: boolean): void {
+    record.outcomes.push(success);
+    if (record.outcomes.length > this.config.windowSize) {
+      record.outcomes.shift();
+    }
+  }
+
+  private isUnhealthy(record: RelayRecord): boolean {
+    const { maxConsecutiveFailures, maxErrorRate, maxLatencyMs, minSamples } = this.config;
+    if (record.consecutiveFailures >= maxConsecutiveFailures) return true;
+    if (record.outcomes.length < minSamples) return false;
+    return errorRate(record) > maxErrorRate || (record.latencyMs !== null && record.latencyMs > maxLatencyMs);
+  }
+
+  private updateDemotion(url: string, record: RelayRecord): void {
+    if (!this.isUnhealthy(record)) return;
+    // Keep the time it first became unhealthy, so the cooldown is not extended
+    // by every failure while it stays demoted
+    if (record.demotedAt === null || !this.isCoolingDown(url)) {
+      record.demotedAt = Date.now();
+    }
+  }
+}
+
+function createRecord(): RelayRecord {
+  return {
+    outcomes: [],
+    latencyMs: null,
+    consecutiveFailures: 0,
+    publishAttempts: 0,
+    publishSuccesses: 0,
+    connects: 0,
+    disconnects: 0,
+    connected: false,
+    lastError: null,
+    lastErrorAt: null,
+    lastSeenAt: null,
+    demotedAt: null,
+  };
+}
+
+function errorRate(record: RelayRecord): number {
+  if (record.outcomes.length === 0) return 0;
+  return record.outcomes.filter((ok) => !ok).length / record.outcomes.length;
+}
+
+// =============================================================================
+// Failover
+// =============================================================================
+
+/**
+ * Plan the replacement of demoted relays by the best candidates that are not
+ * in use and not cooling down. Demoted relays are only dropped when at least
+ * one relay (kept or added) remains.
+ */
+export function planFailover(
+  relays: string[],
+  candidates: string[],
+  tracker: RelayHealthTracker
+): RelayFailoverPlan {
+  const demoted = relays.filter((url) => tracker.getState(url) === 'demoted');
+  if (demoted.length === 0) return { remove: [], add: [] };
+
+  const available = candidates.filter(
+    (url) => !relays.includes(url) && !tracker.isCoolingDown(url) && tracker.getState(url) !== 'demoted'
+  );
+  const add = tracker.rank(available).slice(0, demoted.length);
+
+  if (relays.length - demoted.length + add.length === 0) {
+    return { remove: [], add: [] };
+  }
+  return { remove: demoted, add };
+}
+
+// =============================================================================
+// Probing
+// =============================================================================
+
+/**
+ * Measure a relay's round trip with a REQ that can never match: the relay
+ * answers with EOSE (or CLOSED), and the subscription is closed right away.
+ * @returns Round trip time in ms
+ */
+export function probeRelay(url: string, createWebSocket: WebSocketFactory, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const subscriptionId = 'probe-' + Math.random().toString(36).slice(2, 10);
+    let socket: IWebSocket | null = null;
+    let sentAt = 0;
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try {
+        socket?.close();
+      } catch {
+        // Already closed
+      }
+      if (error) reject(error);
+      else resolve(Date.now() - sentAt);
+    };
+
+    const timer = setTimeout(
+      () => finish(new SphereError(`Relay probe timed out after ${timeoutMs}ms: ${url}`, 'TIMEOUT')),
+      timeoutMs
+    );
+
+    try {
+      socket = createWebSocket(url);
+    } catch (error) {
+      finish(error instanceof Error ? error : new SphereError(String(error), 'TRANSPORT_ERROR'));
+      return;
+    }
+
+    socket.onopen = () => {
+      sentAt = Date.now();
+      socket!.send(JSON.stringify(['REQ', subscriptionId, { ids: ['0'.repeat(64)] }]));
+    };
+    socket.onmessage = (event) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (!Array.isArray(message) || message[1] !== subscriptionId) return;
+      if (message[0] === 'EOSE' || message[0] === 'CLOSED') {
+        if (message[0] === 'EOSE') socket!.send(JSON.stringify(['CLOSE', subscriptionId]));
+        finish();
+      }
+    };
+    socket.onerror = () => finish(new SphereError(`Relay probe failed: ${url}`, 'TRANSPORT_ERROR'));
+    socket.onclose = () => finish(new SphereError(`Relay closed the probe connection: ${url}`, 'TRANSPORT_ERROR'));
+  });
+}
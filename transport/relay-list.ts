@@ -0,0 +1,179 @@
+/**
+ * NIP-65 Relay Lists and Outbox Publishing
+ *
+ * A relay list (kind 10002) announces the relays a user reads from and
+ * writes to. Senders following the outbox model publish events for a
+ * recipient to the recipient's read relays, so delivery does not depend on
+ * both sides sharing a relay.
+ *
+ * Events for relays outside the connection pool are sent over short-lived
+ * connections, one per relay, each reporting its own OK and round trip.
+ */
+
+import { Event as NostrEventClass, EventKinds } from '@unicitylabs/nostr-js-sdk';
+import type { NostrKeyManager, SignedEventData } from '@unicitylabs/nostr-js-sdk';
+import { NOSTR_EVENT_KINDS } from '../constants';
+import type { IWebSocket, WebSocketFactory } from './websocket';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Relays a user reads from and writes to (NIP-65) */
+export interface RelayList {
+  read: string[];
+  write: string[];
+}
+
+/** Outcome of publishing an event to one relay */
+export interface RelayPublishResult {
+  url: string;
+  accepted: boolean;
+  /** Time from sending the event to the relay's answer (ms) */
+  latencyMs: number;
+  error?: string;
+}
+
+export interface PublishToRelaysOptions {
+  createWebSocket: WebSocketFactory;
+  /** Answers NIP-42 AUTH challenges when set */
+  keyManager?: NostrKeyManager;
+  /** Per-relay timeout (ms) */
+  timeoutMs: number;
+}
+
+// =============================================================================
+// Relay List Events
+// =============================================================================
+
+/** Normalize a relay URL; returns null for anything but ws:// and wss:// URLs */
+export function normalizeRelayUrl(url: string): string | null {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^wss?:\/\/[^\s/]+/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Build the `r` tags of a relay list event: relays in both lists get a bare
+ * tag, the others a `read` or `write` marker.
+ */
+export function createRelayListTags(list: RelayList): string[][] {
+  const read = new Set(list.read.map(normalizeRelayUrl).filter((url): url is string => url !== null));
+  const write = new Set(list.write.map(normalizeRelayUrl).filter((url): url is string => url !== null));
+  const tags: string[][] = [];
+
+  for (const url of new Set([...read, ...write])) {
+    if (read.has(url) && write.has(url)) tags.push(['r', url]);
+    else if (read.has(url)) tags.push(['r', url, 'read']);
+    else tags.push(['r', url, 'write']);
+  }
+  return tags;
+}
+
+/** Read the relay list of a kind 10002 event; returns null for other kinds */
+export function parseRelayList(event: Pick<SignedEventData, 'kind' | 'tags'>): RelayList | null {
+  if (event.kind !== NOSTR_EVENT_KINDS.RELAY_LIST) return null;
+
+  const list: RelayList = { read: [], write: [] };
+  for (const [name, value, marker] of event.tags) {
+    if (name !== 'r' || typeof value !== 'string') continue;
+    const url = normalizeRelayUrl(value);
+    if (!url) continue;
+    if (marker !== 'write' && !list.read.includes(url)) list.read.push(url);
+    if (marker !== 'read' && !list.write.includes(url)) list.write.push(url);
+  }
+  return list;
+}
+
+// =============================================================================
+// Direct Publishing
+// =============================================================================
+
+/**
+ * Publish an event to each relay over its own connection.
+ * Never rejects: failures are reported per relay.
+ */
+export function publishToRelays(
+  event: SignedEventData,
+  urls: string[],
+  options: PublishToRelaysOptions
+): Promise<RelayPublishResult[]> {
+  return Promise.all(urls.map((url) => publishToRelay(event, url, options)));
+}
+
+function publishToRelay(
+  event: SignedEventData,
+  url: string,
+  options: PublishToRelaysOptions
+): Promise<RelayPublishResult> {
+  return new Promise((resolve) => {
+    const eventMessage = JSON.stringify(['EVENT', event]);
+    let socket: IWebSocket | null = null;
+    let sentAt = Date.now();
+    let retried = false;
+    let authenticated = false;
+    let settled = false;
+
+    const finish = (accepted: boolean, error?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try {
+        socket?.close();
+      } catch {
+        // Already closed
+      }
+      resolve({ url, accepted, latencyMs: Date.now() - sentAt, ...(error ? { error } : {}) });
+    };
+
+    const timer = setTimeout(() => finish(false, `Timed out after ${options.timeoutMs}ms`), options.timeoutMs);
+
+    const authenticate = (challenge: string) => {
+      if (!options.keyManager || authenticated) return;
+      authenticated = true;
+      const auth = NostrEventClass.create(options.keyManager, {
+        kind: EventKinds.AUTH,
+        tags: [['relay', url], ['challenge', challenge]],
+        content: '',
+      });
+      socket!.send(JSON.stringify(['AUTH', auth.toJSON()]));
+    };
+
+    try {
+      socket = options.createWebSocket(url);
+    } catch (error) {
+      finish(false, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    socket.onopen = () => {
+      sentAt = Date.now();
+      socket!.send(eventMessage);
+    };
+    socket.onmessage = (message) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      if (!Array.isArray(data)) return;
+
+      if (data[0] === 'AUTH' && typeof data[1] === 'string') {
+        authenticate(data[1]);
+      } else if (data[0] === 'OK' && data[1] === event.id) {
+        const reason = typeof data[3] === 'string' ? data[3] : '';
+        if (data[2] === true) {
+          finish(true);
+        } else if (reason.startsWith('auth-required') && authenticated && !retried) {
+          // The event raced the AUTH answer; the relay processes them in order
+          retried = true;
+          socket!.send(eventMessage);
+        } else {
+          finish(false, reason || 'Event rejected');
+        }
+      }
+    };
+    socket.onerror = () => finish(false, 'Connection failed');
+    socket.onclose = () => finish(false, 'Connection closed');
+  });
+}
@@ -4,6 +4,7 @@
  */
 
 import type { BaseProvider, FullIdentity, ComposingIndicator } from '../types';
+import type { RelayMetrics } from './relay-health';
 
 // =============================================================================
 // Transport Provider Interface
@@ -37,7 +38,7 @@ export interface TransportProvider extends BaseProvider {
    * @param recipientTransportPubkey - Transport-specific pubkey for messaging
    * @returns Event ID
    */
-  sendTokenTransfer(recipientTransportPubkey: string, payload: TokenTransferPayload): Promise<string>;
+  sendTokenTransfer(recipientTransportPubkey: string, payload: TokenTransferPayload | EscrowPayload | SwapPayload): Promise<string>;
 
   /**
    * Subscribe to incoming token transfers
@@ -203,6 +204,40 @@ export interface TransportProvider extends BaseProvider {
    */
   onComposing?(handler: ComposingHandler): () => void;
 
+  // ===========================================================================
+  // Social Recovery (NIP-17)
+  // ===========================================================================
+
+  /**
+   * Send a social recovery message (share deposit, recovery request or response)
+   * @param recipientTransportPubkey - Transport pubkey of the guardian, owner or requester
+   * @returns Event ID
+   */
+  sendRecoveryMessage?(recipientTransportPubkey: string, payload: RecoveryPayload): Promise<string>;
+
+  /**
+   * Subscribe to incoming social recovery messages
+   * @returns Unsubscribe function
+   */
+  onRecoveryMessage?(handler: RecoveryMessageHandler): () => void;
+
+  // ===========================================================================
+  // Transfer Receipts (NIP-17)
+  // ===========================================================================
+
+  /**
+   * Acknowledge a processed token transfer to its sender
+   * @param recipientTransportPubkey - Transport pubkey of the transfer's sender
+   * @returns Event ID
+   */
+  sendTransferReceipt?(recipientTransportPubkey: string, receipt: TransferReceiptPayload): Promise<string>;
+
+  /**
+   * Subscribe to receipts for transfers this wallet sent
+   * @returns Unsubscribe function
+   */
+  onTransferReceipt?(handler: TransferReceiptHandler): () => void;
+
   // ===========================================================================
   // Dynamic Relay Management (optional)
   // ===========================================================================
@@ -239,6 +274,11 @@ export interface TransportProvider extends BaseProvider {
    */
   isRelayConnected?(relayUrl: string): boolean;
 
+  /**
+   * Get health metrics (latency, error rate, publish success) of the configured relays
+   */
+  getRelayMetrics?(): RelayMetrics[];
+
   // ===========================================================================
   // Instant Split Support (optional)
   // ===========================================================================
@@ -370,11 +410,105 @@ export interface TokenTransferPayload {
   };
 }
 
+/**
+ * Escrow offer: tokens the sender holds for the recipient behind a hashlock.
+ * No transfer is signed yet; the sender transfers the tokens once the
+ * recipient reveals the preimage before `expiresAt` (`ESCROW_CLAIM` →
+ * `ESCROW_RELEASED`).
+ */
+export interface EscrowOfferPayload {
+  type: 'ESCROW_OFFER';
+  version: '1.0';
+  escrowId: string;
+  amount: string;
+  coinId: string;
+  /** SHA-256 of the preimage (hex) */
+  hashlock: string;
+  /** Claim deadline (ms since epoch) */
+  expiresAt: number;
+  /** L3 address the tokens will be released to; must be the recipient's own */
+  recipientAddress: string;
+  /** Serialized locked tokens, so the recipient can check coin and amount */
+  tokens: string[];
+  memo?: string;
+  /** Swap this escrow is a leg of */
+  swapId?: string;
+}
+
+/** Sent by the recipient to claim; reveals the preimage to the sender */
+export interface EscrowClaimPayload {
+  type: 'ESCROW_CLAIM';
+  version: '1.0';
+  escrowId: string;
+  preimage: string;
+}
+
+/**
+ * Sent by the sender once the claimed tokens are transferred; the recipient
+ * finalizes them with the preimage as state data.
+ */
+export interface EscrowReleasedPayload {
+  type: 'ESCROW_RELEASED';
+  version: '1.0';
+  escrowId: string;
+  tokens: Array<{ sourceToken: string; transferTx: string }>;
+}
+
+/** Sent by the sender after refunding an expired escrow, also in answer to a late claim */
+export interface EscrowRefundedPayload {
+  type: 'ESCROW_REFUNDED';
+  version: '1.0';
+  escrowId: string;
+}
+
+/** Escrow protocol messages, carried over the token transfer channel */
+export type EscrowPayload =
+  | EscrowOfferPayload
+  | EscrowClaimPayload
+  | EscrowReleasedPayload
+  | EscrowRefundedPayload;
+
+/**
+ * Swap proposal. `give` and `want` are from the proposer's point of view;
+ * both legs will be locked with `hashlock`, whose preimage the proposer keeps.
+ */
+export interface SwapOfferPayload {
+  type: 'SWAP_OFFER';
+  version: '1.0';
+  swapId: string;
+  give: { coinId: string; amount: string };
+  want: { coinId: string; amount: string };
+  /** SHA-256 of the preimage (hex) */
+  hashlock: string;
+  /** Lock time of the responder's leg, in ms */
+  timeoutMs: number;
+  intentId?: string;
+  memo?: string;
+}
+
+/** Sent by the responder to agree to a swap; the proposer then locks its leg */
+export interface SwapAcceptPayload {
+  type: 'SWAP_ACCEPT';
+  version: '1.0';
+  swapId: string;
+}
+
+/** Sent by either side to back out of a swap before its leg is locked */
+export interface SwapDeclinePayload {
+  type: 'SWAP_DECLINE';
+  version: '1.0';
+  swapId: string;
+  reason?: string;
+}
+
+/** Swap negotiation messages, carried over the token transfer channel */
+export type SwapPayload = SwapOfferPayload | SwapAcceptPayload | SwapDeclinePayload;
+
 export interface IncomingTokenTransfer {
   id: string;
   /** Transport-specific pubkey of sender */
   senderTransportPubkey: string;
-  payload: TokenTransferPayload;
+  payload: TokenTransferPayload | EscrowPayload | SwapPayload;
   timestamp: number;
 }
 
@@ -454,6 +588,107 @@ export interface IncomingPaymentRequestResponse {
 
 export type PaymentRequestResponseHandler = (response: IncomingPaymentRequestResponse) => void;
 
+// =============================================================================
+// Social Recovery Types
+// =============================================================================
+
+/** Owner → guardian: a mnemonic share to hold until the owner asks for it back */
+export interface RecoveryShareDepositPayload {
+  type: 'RECOVERY_SHARE_DEPOSIT';
+  version: '1.0';
+  /** Group ID of the share set (see parseMnemonicShare()) */
+  groupId: number;
+  share: string;
+  /** Who the share belongs to; recovery requests name the owner by one of these */
+  owner: { nametag?: string; chainPubkey: string; directAddress?: string };
+}
+
+/** Guardian → owner: the share was stored */
+export interface RecoveryShareAckPayload {
+  type: 'RECOVERY_SHARE_ACK';
+  version: '1.0';
+  groupId: number;
+}
+
+/** Owner → guardian: discard the share of a group (guardians replaced or removed) */
+export interface RecoveryShareRevokePayload {
+  type: 'RECOVERY_SHARE_REVOKE';
+  version: '1.0';
+  groupId: number;
+}
+
+/** New device → guardian: ask for the share held for `owner` */
+export interface RecoveryRequestPayload {
+  type: 'RECOVERY_REQUEST';
+  version: '1.0';
+  requestId: string;
+  /** Owner nametag (without @), chain pubkey or DIRECT address */
+  owner: string;
+  /** x-only pubkey (hex) the share is to be encrypted to (NIP-44) */
+  ephemeralPubkey: string;
+  /** Request deadline (ms since epoch) */
+  expiresAt: number;
+  message?: string;
+}
+
+/** Guardian → new device: the share, NIP-44 encrypted to the ephemeral key, or a refusal */
+export interface RecoveryResponsePayload {
+  type: 'RECOVERY_RESPONSE';
+  version: '1.0';
+  requestId: string;
+  approved: boolean;
+  encryptedShare?: string;
+  reason?: string;
+}
+
+/** Social recovery messages, carried as NIP-17 direct messages */
+export type RecoveryPayload =
+  | RecoveryShareDepositPayload
+  | RecoveryShareAckPayload
+  | RecoveryShareRevokePayload
+  | RecoveryRequestPayload
+  | RecoveryResponsePayload;
+
+export interface IncomingRecoveryMessage {
+  id: string;
+  /** Transport-specific pubkey of sender */
+  senderTransportPubkey: string;
+  /** Sender's nametag (if included in the message) */
+  senderNametag?: string;
+  payload: RecoveryPayload;
+  timestamp: number;
+}
+
+export type RecoveryMessageHandler = (message: IncomingRecoveryMessage) => void;
+
+// =============================================================================
+// Transfer Receipt Types
+// =============================================================================
+
+/** Recipient → sender: the transfer with `transferId` was received and processed */
+export interface TransferReceiptPayload {
+  type: 'TRANSFER_RECEIPT';
+  version: '1.0';
+  /** Sender's transfer ID (TransferResult.id) */
+  transferId: string;
+  /** Recipient's 33-byte compressed chain pubkey, which signed the receipt */
+  recipientPubkey: string;
+  /** When the transfer was processed (ms since epoch) */
+  receivedAt: number;
+  /** signMessage() signature over `transferId`, `recipientPubkey` and `receivedAt` */
+  signature: string;
+}
+
+export interface IncomingTransferReceipt {
+  id: string;
+  /** Transport-specific pubkey of the receipt's sender (the transfer recipient) */
+  senderTransportPubkey: string;
+  receipt: TransferReceiptPayload;
+  timestamp: number;
+}
+
+export type TransferReceiptHandler = (receipt: IncomingTransferReceipt) => void;
+
 // =============================================================================
 // Broadcast Types
 // =============================================================================
@@ -0,0 +1,233 @@
+/**
+ * Wallet Payload Delivery
+ *
+ * Token transfers, payment requests and payment request responses travel
+ * either as legacy NIP-04 events (kinds 31113/31115/31116, with sender and
+ * recipient visible to relays) or NIP-17 gift wrapped, carrying the same
+ * content in a rumor of the legacy kind. Both envelopes are parsed by
+ * parseWalletPayload(), so handlers see one shape whichever way it arrived.
+ *
+ * Gift wrapping is negotiated per peer: in `auto` mode legacy events carry a
+ * capability tag, and a peer that sends the tag or a gift-wrapped payload is
+ * remembered and gets gift wraps from then on.
+ */
+
+import { logger } from '../core/logger';
+import { NOSTR_EVENT_KINDS, STORAGE_KEYS_GLOBAL } from '../constants';
+import type {
+  IncomingPaymentRequest,
+  IncomingPaymentRequestResponse,
+  IncomingTokenTransfer,
+  TokenTransferPayload,
+} from './transport-provider';
+import type { TransportStorageAdapter } from './NostrTransportProvider';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How token transfers and payment requests are sent:
+ * - `legacy`: NIP-04 events only
+ * - `auto`: gift wrap for peers known to support it, legacy otherwise (default)
+ * - `gift-wrap`: always gift wrap (peers on older SDKs will not receive them)
+ *
+ * Both formats are always accepted on receive.
+ */
+export type PaymentDeliveryMode = 'legacy' | 'auto' | 'gift-wrap';
+
+/** A received wallet payload, after the envelope was opened */
+export interface WalletPayloadEnvelope {
+  /** Outer event ID (gift wrap ID for gift-wrapped payloads) */
+  id: string;
+  /** Legacy event kind (also the rumor kind when gift wrapped) */
+  kind: number;
+  senderPubkey: string;
+  /** Decrypted content, with or without the legacy type prefix */
+  content: string;
+  /** Unix seconds */
+  createdAt: number;
+}
+
+export type WalletPayload =
+  | { type: 'token_transfer'; transfer: IncomingTokenTransfer }
+  | { type: 'payment_request'; request: IncomingPaymentRequest }
+  | { type: 'payment_response'; response: IncomingPaymentRequestResponse };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Event kinds carrying wallet payloads, legacy or as gift-wrapped rumors */
+export const WALLET_PAYLOAD_KINDS: readonly number[] = [
+  NOSTR_EVENT_KINDS.TOKEN_TRANSFER,
+  NOSTR_EVENT_KINDS.PAYMENT_REQUEST,
+  NOSTR_EVENT_KINDS.PAYMENT_REQUEST_RESPONSE,
+];
+
+/** Tag on legacy wallet events announcing that the sender accepts gift-wrapped payloads */
+export const GIFT_WRAP_CAPABILITY_TAG: readonly [string, string] = ['cap', 'nip17-payments'];
+
+/** Peers remembered per wallet; the oldest are dropped beyond this */
+const MAX_GIFT_WRAP_PEERS = 2000;
+
+const CONTENT_PREFIXES = ['payment_request:', 'token_transfer:', 'payment_response:'];
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+export function isWalletPayloadKind(kind: number): boolean {
+  return WALLET_PAYLOAD_KINDS.includes(kind);
+}
+
+/**
+ * Strip known content prefixes (nostr-js-sdk compatibility)
+ * Handles: payment_request:, token_transfer:, payment_response:
+ */
+export function stripContentPrefix(content: string): string {
+  for (const prefix of CONTENT_PREFIXES) {
+    if (content.startsWith(prefix)) {
+      return content.slice(prefix.length);
+    }
+  }
+  return content;
+}
+
+/** Whether a legacy wallet event announces gift-wrap support */
+export function hasGiftWrapCapability(tags: string[][]): boolean {
+  return tags.some((t) => t[0] === GIFT_WRAP_CAPABILITY_TAG[0] && t[1] === GIFT_WRAP_CAPABILITY_TAG[1]);
+}
+
+/**
+ * Build the handler input for a wallet payload. Throws if the content is not
+ * valid JSON; returns null for kinds that are not wallet payloads.
+ */
+export function parseWalletPayload(envelope: WalletPayloadEnvelope): WalletPayload | null {
+  const timestamp = envelope.createdAt * 1000;
+
+  switch (envelope.kind) {
+    case NOSTR_EVENT_KINDS.TOKEN_TRANSFER: {
+      const payload = JSON.parse(stripContentPrefix(envelope.content)) as TokenTransferPayload;
+      return {
+        type: 'token_transfer',
+        transfer: { id: envelope.id, senderTransportPubkey: envelope.senderPubkey, payload, timestamp },
+      };
+    }
+
+    case NOSTR_EVENT_KINDS.PAYMENT_REQUEST: {
+      const data = JSON.parse(stripContentPrefix(envelope.content)) as {
+        requestId: string;
+        amount: string;
+        coinId: string;
+        message?: string;
+        recipientNametag?: string;
+        metadata?: Record<string, unknown>;
+      };
+      return {
+        type: 'payment_request',
+        request: {
+          id: envelope.id,
+          senderTransportPubkey: envelope.senderPubkey,
+          senderNametag: data.recipientNametag,
+          request: {
+            requestId: data.requestId,
+            amount: data.amount,
+            coinId: data.coinId,
+            message: data.message,
+            recipientNametag: data.recipientNametag,
+            metadata: data.metadata,
+          },
+          timestamp,
+        },
+      };
+    }
+
+    case NOSTR_EVENT_KINDS.PAYMENT_REQUEST_RESPONSE: {
+      const data = JSON.parse(stripContentPrefix(envelope.content)) as {
+        requestId: string;
+        responseType: 'accepted' | 'rejected' | 'paid';
+        message?: string;
+        transferId?: string;
+      };
+      return {
+        type: 'payment_response',
+        response: {
+          id: envelope.id,
+          responderTransportPubkey: envelope.senderPubkey,
+          response: {
+            requestId: data.requestId,
+            responseType: data.responseType,
+            message: data.message,
+            transferId: data.transferId,
+          },
+          timestamp,
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// Peer Negotiation
+// =============================================================================
+
+/**
+ * Peers known to accept gift-wrapped wallet payloads, persisted through the
+ * transport storage adapter so the choice survives restarts
+ */
+export class GiftWrapPeerRegistry {
+  private peers: Set<string> | null = null;
+  private loading: Promise<Set<string>> | null = null;
+
+  constructor(private readonly storage: TransportStorageAdapter | null) {}
+
+  /** Whether a payload to `pubkey` should be gift wrapped under `mode` */
+  async shouldGiftWrap(mode: PaymentDeliveryMode, pubkey: string): Promise<boolean> {
+    if (mode === 'gift-wrap') return true;
+    if (mode === 'legacy') return false;
+    return (await this.load()).has(toXOnly(pubkey));
+  }
+
+  /** Remember a peer that sent a gift-wrapped payload or the capability tag */
+  async add(pubkey: string): Promise<void> {
+    const peers = await this.load();
+    const key = toXOnly(pubkey);
+    if (peers.has(key)) return;
+
+    peers.add(key);
+    if (peers.size > MAX_GIFT_WRAP_PEERS) {
+      peers.delete(peers.values().next().value!);
+    }
+    logger.debug('Nostr', 'Peer accepts gift-wrapped payloads:', key.slice(0, 16));
+    await this.storage?.set(STORAGE_KEYS_GLOBAL.GIFT_WRAP_PEERS, JSON.stringify([...peers])).catch((err) => {
+      logger.debug('Nostr', 'Failed to save gift-wrap peers:', err);
+    });
+  }
+
+  private load(): Promise<Set<string>> {
+    if (this.peers) return Promise.resolve(this.peers);
+    this.loading ??= (async () => {
+      let stored: string[] = [];
+      try {
+        const json = await this.storage?.get(STORAGE_KEYS_GLOBAL.GIFT_WRAP_PEERS);
+        if (json) stored = JSON.parse(json) as string[];
+      } catch (err) {
+        logger.debug('Nostr', 'Failed to read gift-wrap peers:', err);
+      }
+      this.peers = new Set(stored);
+      return this.peers;
+    })();
+    return this.loading;
+  }
+}
+
+/** NIP-17 needs 32-byte x-only pubkeys; strip a 02/03 prefix */
+export function toXOnly(pubkey: string): string {
+  return pubkey.length === 66 && (pubkey.startsWith('02') || pubkey.startsWith('03'))
+    ? pubkey.slice(2)
+    : pubkey;
+}
@@ -113,6 +113,7 @@ export default defineConfig([
       /^@unicitylabs\//,
       /^@libp2p\//,
       /^@helia\//,
+      'better-sqlite3',
       'helia',
       'multiformats',
       'ws',
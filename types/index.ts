@@ -57,6 +57,7 @@ export type TokenStatus =
   | 'submitted'    // Commitment sent, waiting for proof (NOSTR-FIRST)
   | 'confirmed'    // Has inclusion proof
   | 'transferring' // Being transferred
+  | 'escrowed'     // Set aside for an outgoing escrow offer (not locked on L3)
   | 'spent'        // Transferred away
   | 'invalid';     // Validation failed
 
@@ -155,15 +156,164 @@ export interface TransferResult {
   /** Per-token transfer details — one entry per source token consumed */
   readonly tokenTransfers: TokenTransferDetail[];
   error?: string;
+  /**
+   * Whether the recipient acknowledged the transfer with a signed receipt:
+   * `false` while redelivery is pending, `true` once the receipt arrived
+   * (see `transfer:delivered` / `transfer:undelivered`)
+   */
+  delivered?: boolean;
 }
 
 export interface IncomingTransfer {
   readonly id: string;
-  readonly senderPubkey: string;
+  /** Unset when the sender is unknown: tokens found in storage rather than received over the transport */
+  readonly senderPubkey?: string;
   readonly senderNametag?: string;
   readonly tokens: Token[];
   readonly memo?: string;
   readonly receivedAt: number;
+  /** Set by watch-only wallets: the tokens appeared in the watched address's token storage */
+  readonly watchOnly?: true;
+}
+
+/**
+ * Handler for incoming token transfers
+ */
+export type IncomingTransferHandler = (transfer: IncomingTransfer) => void;
+
+// =============================================================================
+// Escrow Types
+// =============================================================================
+
+/**
+ * Escrow lifecycle: `offered` → `claimed` once the sender accepts the
+ * preimage, or `refunded`. The recipient is `claiming` between revealing the
+ * preimage and receiving the tokens. `expired` is reported for an unclaimed
+ * offer once `expiresAt` has passed; the sender may then refund it.
+ */
+export type EscrowStatus = 'offered' | 'claiming' | 'claimed' | 'refunded' | 'expired';
+
+export type EscrowRole = 'sender' | 'recipient';
+
+export interface EscrowRequest {
+  readonly coinId: string;
+  readonly amount: string;
+  readonly recipient: string;
+  readonly memo?: string;
+  /** Address mode for the recipient (see {@link TransferRequest.addressMode}) */
+  readonly addressMode?: AddressMode;
+  /** SHA-256 hashlock (hex). When omitted, a random preimage is generated and kept by the sender */
+  readonly hashlock?: string;
+  /** Time until the sender may refund, in ms (default: 24h) */
+  readonly timeoutMs?: number;
+  /** Swap this escrow is a leg of */
+  readonly swapId?: string;
+}
+
+/**
+ * A token held in an escrow. It stays with the sender until the claim; the
+ * transfer to the recipient carries the hashlock as its recipient data hash.
+ */
+export interface EscrowTokenEntry {
+  /** Local token ID (sender side only) */
+  readonly tokenId?: string;
+  /** Serialized SDK token in its locked state */
+  readonly sourceToken: string;
+  /** Serialized TransferCommitment to the recipient, stored before submission (sender side only) */
+  commitmentData?: string;
+  /** Serialized TransferTransaction to the recipient, once released (sender side only) */
+  transferTx?: string;
+}
+
+export interface Escrow {
+  readonly id: string;
+  readonly role: EscrowRole;
+  status: EscrowStatus;
+  readonly coinId: string;
+  readonly symbol: string;
+  readonly amount: string;
+  /** SHA-256 of the preimage (hex) */
+  readonly hashlock: string;
+  /** Preimage (hex) — known to the sender if generated locally, otherwise learned on claim */
+  preimage?: string;
+  /** After this time the recipient can no longer claim and the sender may refund */
+  readonly expiresAt: number;
+  /** Transport pubkey of the other party */
+  readonly counterpartyPubkey: string;
+  readonly counterpartyNametag?: string;
+  /** L3 address the tokens are released to (the recipient's) */
+  readonly recipientAddress: string;
+  readonly memo?: string;
+  readonly tokens: EscrowTokenEntry[];
+  /** Swap this escrow is a leg of */
+  readonly swapId?: string;
+  readonly createdAt: number;
+  updatedAt: number;
+}
+
+// =============================================================================
+// Swap Types
+// =============================================================================
+
+/**
+ * Swap lifecycle, from this wallet's point of view:
+ * `proposed` → `accepted` → `locked` (our leg is in escrow) → `completed`
+ * (we claimed the counterparty's leg). A swap ends `declined` if either side
+ * backs out before locking, `failed` if the counterparty's leg does not
+ * match the terms or cannot be claimed, and `refunded` once our expired leg
+ * has been taken back.
+ */
+export type SwapStatus = 'proposed' | 'accepted' | 'locked' | 'completed' | 'declined' | 'failed' | 'refunded';
+
+export type SwapRole = 'initiator' | 'responder';
+
+export interface SwapAsset {
+  readonly coinId: string;
+  /** Amount in smallest units */
+  readonly amount: string;
+}
+
+export interface SwapRequest {
+  /** Counterparty (@nametag, address or pubkey) */
+  readonly counterparty: string;
+  /** What we pay */
+  readonly give: SwapAsset;
+  /** What we receive */
+  readonly want: SwapAsset;
+  readonly memo?: string;
+  /** How long the responder's leg stays locked, in ms (default: 1h). The initiator's leg is locked twice as long */
+  readonly timeoutMs?: number;
+  /** Market intent this swap answers */
+  readonly intentId?: string;
+}
+
+export interface Swap {
+  readonly id: string;
+  readonly role: SwapRole;
+  status: SwapStatus;
+  /** What we pay */
+  readonly give: SwapAsset;
+  /** What we receive */
+  readonly want: SwapAsset;
+  /** SHA-256 hashlock shared by both legs (hex) */
+  readonly hashlock: string;
+  /** Preimage (hex) — generated by the initiator, learned by the responder when the initiator claims */
+  preimage?: string;
+  /** Lock time of the responder's leg, in ms */
+  readonly timeoutMs: number;
+  /** Transport pubkey of the other party */
+  readonly counterpartyPubkey: string;
+  readonly counterpartyNametag?: string;
+  readonly memo?: string;
+  readonly intentId?: string;
+  /** Escrow holding our leg */
+  giveEscrowId?: string;
+  /** Escrow holding the counterparty's leg */
+  wantEscrowId?: string;
+  /** Why the swap failed or was declined */
+  error?: string;
+  readonly createdAt: number;
+  updatedAt: number;
 }
 
 // =============================================================================
@@ -371,6 +521,8 @@ export type SphereEventType =
   | 'transfer:incoming'
   | 'transfer:confirmed'
   | 'transfer:failed'
+  | 'transfer:delivered'
+  | 'transfer:undelivered'
   | 'payment_request:incoming'
   | 'payment_request:accepted'
   | 'payment_request:rejected'
@@ -385,6 +537,7 @@ export type SphereEventType =
   | 'sync:completed'
   | 'sync:provider'
   | 'sync:error'
+  | 'sync:conflict'
   | 'connection:changed'
   | 'nametag:registered'
   | 'nametag:recovered'
@@ -402,12 +555,29 @@ export type SphereEventType =
   | 'groupchat:connection'
   | 'groupchat:ready'
   | 'communications:ready'
-  | 'history:updated';
+  | 'history:updated'
+  | 'schedule:executed'
+  | 'schedule:failed'
+  | 'escrow:updated'
+  | 'swap:updated'
+  | 'invoice:updated'
+  | 'recovery:guardian_confirmed'
+  | 'recovery:share_stored'
+  | 'recovery:share_revoked'
+  | 'recovery:request_received'
+  | 'recovery:request_expired'
+  | 'recovery:share_received'
+  | 'recovery:declined'
+  | 'recovery:timeout'
+  | 'wallet:locked'
+  | 'wallet:unlocked';
 
 export interface SphereEventMap {
   'transfer:incoming': IncomingTransfer;
   'transfer:confirmed': TransferResult;
   'transfer:failed': TransferResult;
+  'transfer:delivered': TransferResult;
+  'transfer:undelivered': TransferResult;
   'payment_request:incoming': IncomingPaymentRequest;
   'payment_request:accepted': IncomingPaymentRequest;
   'payment_request:rejected': IncomingPaymentRequest;
@@ -422,6 +592,7 @@ export interface SphereEventMap {
   'sync:completed': { source: string; count: number };
   'sync:provider': { providerId: string; success: boolean; added?: number; removed?: number; error?: string };
   'sync:error': { source: string; error: string };
+  'sync:conflict': { providerId: string; conflicts: import('../storage').ConflictReport[] };
   'connection:changed': { provider: string; connected: boolean; status?: ProviderStatus; enabled?: boolean; error?: string };
   'nametag:registered': { nametag: string; addressIndex: number };
   'nametag:recovered': { nametag: string };
@@ -440,6 +611,21 @@ export interface SphereEventMap {
   'groupchat:ready': { groupCount: number };
   'communications:ready': { conversationCount: number };
   'history:updated': import('../modules/payments/PaymentsModule').TransactionHistoryEntry;
+  'schedule:executed': import('../modules/scheduled/types').ScheduleExecutedEvent;
+  'schedule:failed': import('../modules/scheduled/types').ScheduleFailedEvent;
+  'escrow:updated': Escrow;
+  'swap:updated': Swap;
+  'invoice:updated': import('../modules/invoices/types').Invoice;
+  'recovery:guardian_confirmed': import('../modules/recovery/types').RecoveryGuardianConfirmedEvent;
+  'recovery:share_stored': import('../modules/recovery/types').HeldRecoveryShare;
+  'recovery:share_revoked': import('../modules/recovery/types').HeldRecoveryShare;
+  'recovery:request_received': import('../modules/recovery/types').RecoveryRequest;
+  'recovery:request_expired': import('../modules/recovery/types').RecoveryRequest;
+  'recovery:share_received': import('../modules/recovery/types').RecoveryShareReceivedEvent;
+  'recovery:declined': import('../modules/recovery/types').RecoveryDeclinedEvent;
+  'recovery:timeout': import('../modules/recovery/types').RecoveryTimeoutEvent;
+  'wallet:locked': { reason: 'manual' | 'idle' };
+  'wallet:unlocked': Record<string, never>;
 }
 
 export type SphereEventHandler<T extends SphereEventType> = (
@@ -514,7 +700,7 @@ export type DerivationMode = 'bip32' | 'legacy_hmac' | 'wif_hmac';
 /**
  * Source of wallet creation
  */
-export type WalletSource = 'mnemonic' | 'file' | 'unknown';
+export type WalletSource = 'mnemonic' | 'file' | 'watch' | 'unknown';
 
 /**
  * Wallet information for backup/export purposes
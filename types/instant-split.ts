@@ -497,3 +497,15 @@ export interface BuildSplitBundleResult {
   /** Call this after transport delivery to start background mint proof + change token creation */
   startBackground: () => Promise<void>;
 }
+
+/**
+ * Result of InstantSplitExecutor.splitToSelf()
+ */
+export interface SelfSplitResult {
+  /** The minted exact-amount token, owned by the sender */
+  token: SdkToken;
+  /** Split group ID for correlation */
+  splitGroupId: string;
+  /** Call this to start background change token creation */
+  startBackground: () => Promise<void>;
+}